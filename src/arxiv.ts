@@ -7,10 +7,26 @@
  */
 
 import { XMLParser } from "fast-xml-parser";
-import { getPaperCache } from "./cache/paperCache.js";
-import { ArxivApiError } from "./errors.js";
+import {
+	buildSubmittedDateRange,
+	formatArxivDate,
+	isStructuredQuery,
+	toArxivSearchQuery,
+} from "./arxivQuery.js";
+import {
+	coalesce,
+	getPaperCache,
+	type PaperCacheKind,
+	paperCacheKey,
+	searchCacheKey,
+} from "./cache/paperCache.js";
+import { ArxivApiError, ValidationError } from "./errors.js";
+import type { PaperSourceId } from "./sources/types.js";
 import { logger } from "./utils/logger.js";
-import { arxivRateLimiter } from "./utils/rateLimiter.js";
+import {
+	arxivRateLimiter,
+	type SharedRateLimiterStatus,
+} from "./utils/rateLimiter.js";
 import {
 	isNetworkError,
 	isRetryableStatusCode,
@@ -34,6 +50,24 @@ export interface Paper {
 	published: string;
 	authors?: string[];
 	categories?: string[];
+	/** Source the paper came from (default: arxiv) */
+	source?: PaperSourceId;
+	/** Source-specific ID (arXiv ID, DOI, PMID, ...) */
+	externalId?: string;
+	/** Date of the latest version (arXiv only) */
+	updated?: string;
+	/** Latest version number, e.g. 2 for v2 (arXiv only) */
+	version?: number;
+	/** Journal reference once the paper is published (arXiv only) */
+	journalRef?: string;
+	/** DOI of the published version (arXiv only) */
+	doi?: string;
+	/** Author comments, e.g. "12 pages, accepted at ICML 2024" (arXiv only) */
+	comment?: string;
+	/** Primary category, also listed first in categories (arXiv only) */
+	primaryCategory?: string;
+	/** Affiliations of the authors that list any, by author name (arXiv only) */
+	affiliations?: Record<string, string[]>;
 }
 
 /**
@@ -44,18 +78,29 @@ interface ArxivEntry {
 	summary: string;
 	id: string;
 	published: string;
+	updated?: string;
+	"arxiv:journal_ref"?: ArxivText;
+	"arxiv:doi"?: ArxivText;
+	"arxiv:comment"?: ArxivText;
+	"arxiv:primary_category"?: ArxivCategoryEntry;
 	author?: ArxivAuthor | ArxivAuthor[];
 	category?: ArxivCategoryEntry | ArxivCategoryEntry[];
 }
 
 interface ArxivAuthor {
 	name: string;
+	"arxiv:affiliation"?: ArxivText | ArxivText[];
 }
 
 interface ArxivCategoryEntry {
 	"@_term": string;
 }
 
+/**
+ * Text element, parsed as an object when it carries attributes (e.g. xmlns)
+ */
+type ArxivText = string | number | { "#text"?: string | number };
+
 /**
  * arXiv category type
  */
@@ -106,6 +151,10 @@ export interface FetchPapersOptions {
 	sortOrder?: "ascending" | "descending";
 	/** Skip cache lookup (default: false) */
 	skipCache?: boolean;
+	/** Only include papers submitted on or after this date */
+	submittedAfter?: Date;
+	/** Only include papers submitted on or before this date */
+	submittedBefore?: Date;
 }
 
 /**
@@ -134,10 +183,44 @@ export interface AdvancedSearchOptions {
 	timeoutMs?: number;
 	/** Skip cache lookup (default: false) */
 	skipCache?: boolean;
+	/** Only include papers submitted on or after this date */
+	submittedAfter?: Date;
+	/** Only include papers submitted on or before this date */
+	submittedBefore?: Date;
+}
+
+/**
+ * Check whether options contain a submission date filter
+ */
+function hasDateFilter(options: {
+	submittedAfter?: Date;
+	submittedBefore?: Date;
+}): boolean {
+	return Boolean(options.submittedAfter || options.submittedBefore);
+}
+
+/**
+ * Build a cache key suffix for a submission date filter
+ */
+function dateFilterCacheKey(options: {
+	submittedAfter?: Date;
+	submittedBefore?: Date;
+}): string {
+	const after = options.submittedAfter
+		? formatArxivDate(options.submittedAfter)
+		: "";
+	const before = options.submittedBefore
+		? formatArxivDate(options.submittedBefore)
+		: "";
+	return `${after}-${before}`;
 }
 
 /**
  * Builds the arXiv API URL with query parameters
+ *
+ * The topic may be plain keywords or a boolean query (see arxivQuery.ts).
+ *
+ * @throws {ValidationError} When the topic is a malformed boolean query
  */
 function buildArxivUrl(options: FetchPapersOptions): string {
 	const {
@@ -149,7 +232,9 @@ function buildArxivUrl(options: FetchPapersOptions): string {
 	} = options;
 
 	const params = new URLSearchParams({
-		search_query: `all:${topic}`,
+		search_query: hasDateFilter(options)
+			? `(${toArxivSearchQuery(topic)}) AND ${buildSubmittedDateRange(options.submittedAfter, options.submittedBefore)}`
+			: toArxivSearchQuery(topic),
 		start: String(start),
 		max_results: String(Math.min(max, 100)), // Cap at 100
 		sortBy,
@@ -166,7 +251,11 @@ function buildAdvancedSearchUrl(options: AdvancedSearchOptions): string {
 	const queryParts: string[] = [];
 
 	if (options.query) {
-		queryParts.push(`all:${encodeURIComponent(options.query)}`);
+		queryParts.push(
+			isStructuredQuery(options.query)
+				? `(${toArxivSearchQuery(options.query)})`
+				: `all:${encodeURIComponent(options.query)}`,
+		);
 	}
 	if (options.author) {
 		queryParts.push(`au:${encodeURIComponent(options.author)}`);
@@ -180,6 +269,11 @@ function buildAdvancedSearchUrl(options: AdvancedSearchOptions): string {
 	if (options.category) {
 		queryParts.push(`cat:${options.category}`);
 	}
+	if (hasDateFilter(options)) {
+		queryParts.push(
+			buildSubmittedDateRange(options.submittedAfter, options.submittedBefore),
+		);
+	}
 
 	// Join with AND if multiple parts, or use a default query
 	const searchQuery =
@@ -198,26 +292,66 @@ function buildAdvancedSearchUrl(options: AdvancedSearchOptions): string {
 	return `${ARXIV_BASE_URL}?${params.toString()}`;
 }
 
+/**
+ * Get the text of an optional XML element
+ */
+function getText(value: ArxivText | undefined): string | undefined {
+	const text = typeof value === "object" ? value["#text"] : value;
+	return text === undefined
+		? undefined
+		: String(text).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Get the version number from an arXiv ID or abstract link
+ *
+ * @example
+ * getArxivVersion("http://arxiv.org/abs/2301.00001v3") // 3
+ * getArxivVersion("2301.00001") // null
+ */
+export function getArxivVersion(idOrLink: string): number | null {
+	const match = idOrLink.match(/\dv(\d+)$/);
+	return match?.[1] ? Number.parseInt(match[1], 10) : null;
+}
+
 /**
  * Parses an arXiv entry into a Paper object
  */
 function parseEntry(entry: ArxivEntry): Paper {
-	// Parse authors
+	// Parse authors and their affiliations
 	let authors: string[] | undefined;
+	let affiliations: Record<string, string[]> | undefined;
 	if (entry.author) {
 		const authorArray = Array.isArray(entry.author)
 			? entry.author
 			: [entry.author];
 		authors = authorArray.map((a) => a.name);
+
+		for (const author of authorArray) {
+			const listed = author["arxiv:affiliation"];
+			const names = (Array.isArray(listed) ? listed : listed ? [listed] : [])
+				.map(getText)
+				.filter((name): name is string => !!name);
+			if (names.length > 0) {
+				affiliations = { ...affiliations, [author.name]: names };
+			}
+		}
 	}
 
-	// Parse categories
+	// Parse categories, primary category first
+	const primaryCategory = entry["arxiv:primary_category"]?.["@_term"];
 	let categories: string[] | undefined;
 	if (entry.category) {
 		const categoryArray = Array.isArray(entry.category)
 			? entry.category
 			: [entry.category];
 		categories = categoryArray.map((c) => c["@_term"]);
+		if (primaryCategory && categories.includes(primaryCategory)) {
+			categories = [
+				primaryCategory,
+				...categories.filter((c) => c !== primaryCategory),
+			];
+		}
 	}
 
 	return {
@@ -225,11 +359,48 @@ function parseEntry(entry: ArxivEntry): Paper {
 		summary: entry.summary.trim(),
 		link: entry.id,
 		published: entry.published.split("T")[0] ?? entry.published,
+		updated: entry.updated?.split("T")[0],
+		version: getArxivVersion(entry.id) ?? undefined,
+		journalRef: getText(entry["arxiv:journal_ref"]) || undefined,
+		doi: getText(entry["arxiv:doi"]) || undefined,
+		comment: getText(entry["arxiv:comment"]) || undefined,
+		primaryCategory,
 		authors,
+		affiliations,
 		categories,
 	};
 }
 
+/**
+ * Get the primary category of a paper
+ *
+ * Uses the arXiv primary category when known, otherwise the first category.
+ */
+export function getPrimaryCategory(paper: Paper): string | undefined {
+	return paper.primaryCategory ?? paper.categories?.[0];
+}
+
+/**
+ * Parses an arXiv API Atom feed into papers
+ *
+ * @param xml - Atom feed returned by the arXiv API
+ * @returns Papers in feed order
+ */
+export function parseArxivFeed(xml: string): Paper[] {
+	const result = parser.parse(xml);
+	const entries = result.feed?.entry;
+
+	if (!entries) {
+		logger.debug("No entries found in arXiv response");
+		return [];
+	}
+
+	// Ensure we always have an array (XML parser returns object if only 1 result)
+	const papers = Array.isArray(entries) ? entries : [entries];
+
+	return papers.map(parseEntry);
+}
+
 /**
  * Fetches papers from arXiv with timeout and rate limiting
  *
@@ -263,19 +434,7 @@ async function fetchWithTimeout(
 			);
 		}
 
-		const xml = await response.text();
-		const result = parser.parse(xml);
-		const entries = result.feed?.entry;
-
-		if (!entries) {
-			logger.debug("No entries found in arXiv response");
-			return [];
-		}
-
-		// Ensure we always have an array (XML parser returns object if only 1 result)
-		const papers = Array.isArray(entries) ? entries : [entries];
-
-		return papers.map(parseEntry);
+		return parseArxivFeed(await response.text());
 	} catch (error) {
 		if (error instanceof Error && error.name === "AbortError") {
 			throw new ArxivApiError(
@@ -377,49 +536,49 @@ export async function fetchPapersAdvanced(
 		return [];
 	}
 
-	// Try to get from cache first (if not skipped)
-	const cache = getPaperCache();
-	if (cache && !skipCache) {
-		const cachedPapers = await cache.get(topic, start, max);
-		if (cachedPapers) {
-			logger.info("Returning cached papers", {
-				topic,
-				start,
-				max,
-				count: cachedPapers.length,
-			});
-			return cachedPapers;
-		}
-	}
-
-	const url = buildArxivUrl(options);
-
-	logger.debug("Fetching papers from arXiv", {
-		topic,
-		start,
-		max,
-	});
+	// Date-filtered searches are cached separately from plain topic searches
+	const cacheTopic = hasDateFilter(options)
+		? `${topic}|${dateFilterCacheKey(options)}`
+		: topic;
 
+	let url: string;
 	try {
-		const papers = await withRetry(() => fetchWithTimeout(url, timeoutMs), {
-			maxAttempts: 3,
-			baseDelay: 1000,
-			maxDelay: 10000,
-			isRetryable: isArxivErrorRetryable,
-			operationName: "fetchPapers",
-		});
-
-		logger.info("Successfully fetched papers from arXiv", {
-			topic,
-			count: papers.length,
-		});
-
-		// Cache the results
-		if (cache && papers.length > 0) {
-			await cache.set(topic, start, max, papers);
+		url = buildArxivUrl(options);
+	} catch (error) {
+		if (error instanceof ValidationError) {
+			logger.warn("Invalid search query", { topic, error: error.message });
+			return [];
 		}
+		throw error;
+	}
 
-		return papers;
+	try {
+		return await fetchThroughCache(
+			"search",
+			searchCacheKey(cacheTopic, start, max),
+			async () => {
+				logger.debug("Fetching papers from arXiv", {
+					topic,
+					start,
+					max,
+				});
+
+				const papers = await withRetry(() => fetchWithTimeout(url, timeoutMs), {
+					maxAttempts: 3,
+					baseDelay: 1000,
+					maxDelay: 10000,
+					isRetryable: isArxivErrorRetryable,
+					operationName: "fetchPapers",
+				});
+
+				logger.info("Successfully fetched papers from arXiv", {
+					topic,
+					count: papers.length,
+				});
+				return papers;
+			},
+			skipCache,
+		);
 	} catch (error) {
 		logger.error("Failed to fetch papers from arXiv", {
 			topic,
@@ -432,6 +591,30 @@ export async function fetchPapersAdvanced(
 	}
 }
 
+/**
+ * Fetch papers through the paper cache, if configured
+ *
+ * Identical requests in flight share one fetch either way. With the
+ * cache, stale entries are served while arXiv is slow or down.
+ *
+ * @param kind - Whether the request is a search page or a single paper
+ * @param key - Cache key (see searchCacheKey/paperCacheKey)
+ * @param fetcher - Fetches the papers from arXiv; throws when it fails
+ * @param skipCache - Fetch even if cached (the result is still cached)
+ */
+function fetchThroughCache(
+	kind: PaperCacheKind,
+	key: string,
+	fetcher: () => Promise<Paper[]>,
+	skipCache: boolean,
+): Promise<Paper[]> {
+	const cache = getPaperCache();
+	if (!cache) {
+		return coalesce(key, fetcher);
+	}
+	return cache.fetch(kind, key, fetcher, { refresh: skipCache });
+}
+
 /**
  * Fetches a single paper by its arXiv ID
  *
@@ -446,20 +629,20 @@ export async function fetchPaperById(arxivId: string): Promise<Paper | null> {
 		return null;
 	}
 
-	// Apply rate limiting
-	await arxivRateLimiter.throttle();
-
 	const url = `${ARXIV_BASE_URL}?id_list=${encodeURIComponent(arxivId)}`;
 
 	try {
-		const papers = await withRetry(
-			() => fetchWithTimeout(url, DEFAULT_TIMEOUT_MS),
-			{
-				maxAttempts: 2,
-				baseDelay: 1000,
-				isRetryable: isArxivErrorRetryable,
-				operationName: "fetchPaperById",
-			},
+		const papers = await fetchThroughCache(
+			"paper",
+			paperCacheKey(arxivId),
+			() =>
+				withRetry(() => fetchWithTimeout(url, DEFAULT_TIMEOUT_MS), {
+					maxAttempts: 2,
+					baseDelay: 1000,
+					isRetryable: isArxivErrorRetryable,
+					operationName: "fetchPaperById",
+				}),
+			false,
 		);
 
 		return papers[0] || null;
@@ -472,6 +655,38 @@ export async function fetchPaperById(arxivId: string): Promise<Paper | null> {
 	}
 }
 
+/**
+ * Fetches the latest versions of several papers by arXiv ID
+ *
+ * Bypasses the paper cache, so it always returns current metadata.
+ *
+ * @param arxivIds - arXiv IDs without a version suffix (at most 100)
+ * @returns Papers found, in arXiv's order
+ * @throws {ArxivApiError} When the request fails
+ *
+ * @example
+ * const papers = await fetchPapersByIds(["2301.00001", "1706.03762"]);
+ */
+export async function fetchPapersByIds(arxivIds: string[]): Promise<Paper[]> {
+	const ids = arxivIds.filter((id) => id.trim() !== "").slice(0, 100);
+	if (ids.length === 0) {
+		return [];
+	}
+
+	const params = new URLSearchParams({
+		id_list: ids.join(","),
+		max_results: String(ids.length),
+	});
+	const url = `${ARXIV_BASE_URL}?${params.toString()}`;
+
+	return withRetry(() => fetchWithTimeout(url, DEFAULT_TIMEOUT_MS), {
+		maxAttempts: 2,
+		baseDelay: 1000,
+		isRetryable: isArxivErrorRetryable,
+		operationName: "fetchPapersByIds",
+	});
+}
+
 /**
  * Formats paper summary for display (truncated)
  *
@@ -490,18 +705,10 @@ export function formatSummary(summary: string, maxLength = 200): string {
 }
 
 /**
- * Get rate limiter status for monitoring
+ * Get rate limiter status (queue depth and wait times) for monitoring
  */
-export function getRateLimiterStatus(): {
-	canProceed: boolean;
-	waitTimeMs: number;
-	pendingRequests: number;
-} {
-	return {
-		canProceed: arxivRateLimiter.canProceed(),
-		waitTimeMs: arxivRateLimiter.getWaitTime(),
-		pendingRequests: arxivRateLimiter.getPendingCount(),
-	};
+export function getRateLimiterStatus(): SharedRateLimiterStatus {
+	return arxivRateLimiter.getStatus();
 }
 
 /**
@@ -549,67 +756,62 @@ export async function searchPapersAdvanced(
 		ti: options.title,
 		abs: options.abstract,
 		cat: options.category,
+		date: hasDateFilter(options) ? dateFilterCacheKey(options) : undefined,
 	});
 
-	// Try cache first
-	const cache = getPaperCache();
-	if (cache && !skipCache) {
-		const cachedPapers = await cache.get(
-			cacheKey,
-			options.start || 0,
-			options.maxResults || DEFAULT_MAX_RESULTS,
-		);
-		if (cachedPapers) {
-			logger.info("Returning cached advanced search results", {
+	let url: string;
+	try {
+		url = buildAdvancedSearchUrl(options);
+	} catch (error) {
+		if (error instanceof ValidationError) {
+			logger.warn("Invalid advanced search query", {
 				options: cacheKey,
-				count: cachedPapers.length,
+				error: error.message,
 			});
-			return cachedPapers;
+			return [];
 		}
+		throw error;
 	}
 
-	const url = buildAdvancedSearchUrl(options);
-
-	logger.debug("Fetching papers with advanced search", {
-		options: cacheKey,
-		start: options.start || 0,
-		maxResults: options.maxResults || DEFAULT_MAX_RESULTS,
-	});
+	const start = options.start || 0;
+	const maxResults = options.maxResults || DEFAULT_MAX_RESULTS;
 
 	try {
-		const papers = await withRetry(() => fetchWithTimeout(url, timeoutMs), {
-			maxAttempts: 3,
-			baseDelay: 1000,
-			maxDelay: 10000,
-			isRetryable: (error) => {
-				if (isNetworkError(error)) return true;
-				if (error instanceof ArxivApiError && error.statusCode) {
-					return isRetryableStatusCode(error.statusCode);
-				}
-				if (error instanceof Error && error.message.includes("timed out")) {
-					return true;
-				}
-				return false;
+		return await fetchThroughCache(
+			"search",
+			searchCacheKey(cacheKey, start, maxResults),
+			async () => {
+				logger.debug("Fetching papers with advanced search", {
+					options: cacheKey,
+					start,
+					maxResults,
+				});
+
+				const papers = await withRetry(() => fetchWithTimeout(url, timeoutMs), {
+					maxAttempts: 3,
+					baseDelay: 1000,
+					maxDelay: 10000,
+					isRetryable: (error) => {
+						if (isNetworkError(error)) return true;
+						if (error instanceof ArxivApiError && error.statusCode) {
+							return isRetryableStatusCode(error.statusCode);
+						}
+						if (error instanceof Error && error.message.includes("timed out")) {
+							return true;
+						}
+						return false;
+					},
+					operationName: "searchPapersAdvanced",
+				});
+
+				logger.info("Successfully fetched papers with advanced search", {
+					options: cacheKey,
+					count: papers.length,
+				});
+				return papers;
 			},
-			operationName: "searchPapersAdvanced",
-		});
-
-		logger.info("Successfully fetched papers with advanced search", {
-			options: cacheKey,
-			count: papers.length,
-		});
-
-		// Cache the results
-		if (cache && papers.length > 0) {
-			await cache.set(
-				cacheKey,
-				options.start || 0,
-				options.maxResults || DEFAULT_MAX_RESULTS,
-				papers,
-			);
-		}
-
-		return papers;
+			skipCache,
+		);
 	} catch (error) {
 		logger.error("Failed to fetch papers with advanced search", {
 			options: cacheKey,
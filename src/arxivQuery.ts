@@ -0,0 +1,642 @@
+/**
+ * arXiv query language
+ *
+ * Parses the boolean query syntax accepted by /search and compiles it into
+ * arXiv's `search_query` syntax.
+ *
+ * Supported syntax:
+ * - Field prefixes: ti, au, abs, co, jr, cat, rn, id, all
+ *   (aliases: title, author, abstract, comment, journal, category)
+ * - Quoted phrases: ti:"graph neural"
+ * - Operators: AND, OR, ANDNOT (implicit AND between adjacent terms)
+ * - Grouping with parentheses
+ * - Date ranges: date:2023-01..2023-06 or submittedDate:[20230101 TO 20230630]
+ *
+ * @example
+ * toArxivSearchQuery('ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV');
+ * // => 'ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV'
+ */
+
+import { ValidationError } from "./errors.js";
+
+/**
+ * Search fields supported by the arXiv API
+ */
+export type QueryField =
+	| "ti"
+	| "au"
+	| "abs"
+	| "co"
+	| "jr"
+	| "cat"
+	| "rn"
+	| "id"
+	| "all";
+
+/**
+ * Date fields supported by the arXiv API
+ */
+export type QueryDateField = "submittedDate" | "lastUpdatedDate";
+
+/**
+ * Boolean operators supported by the arXiv API
+ */
+export type QueryOperator = "AND" | "OR" | "ANDNOT";
+
+/**
+ * Parsed query syntax tree
+ */
+export type QueryNode =
+	| { type: "term"; field: QueryField; value: string; phrase: boolean }
+	| { type: "range"; field: QueryDateField; from: string; to: string }
+	| {
+			type: "binary";
+			operator: QueryOperator;
+			left: QueryNode;
+			right: QueryNode;
+	  };
+
+/**
+ * Options for parsing queries
+ */
+export interface ParseQueryOptions {
+	/** Reference time used to close open-ended date ranges (default: now) */
+	now?: Date;
+}
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+	ti: "ti",
+	title: "ti",
+	au: "au",
+	author: "au",
+	abs: "abs",
+	abstract: "abs",
+	co: "co",
+	comment: "co",
+	jr: "jr",
+	journal: "jr",
+	cat: "cat",
+	category: "cat",
+	rn: "rn",
+	id: "id",
+	all: "all",
+};
+
+const DATE_FIELD_ALIASES: Record<string, QueryDateField> = {
+	date: "submittedDate",
+	submitted: "submittedDate",
+	submitteddate: "submittedDate",
+	updated: "lastUpdatedDate",
+	lastupdateddate: "lastUpdatedDate",
+};
+
+const OPERATORS = new Set<string>(["AND", "OR", "ANDNOT"]);
+
+/** Earliest submission date on arXiv, used for open-ended ranges */
+const ARXIV_EPOCH = "199101010000";
+
+const CATEGORY_PATTERN = /^[a-z-]+(\.[A-Za-z-]+)?\*?$/;
+
+// Field prefixes that mark a query as structured (vs. a plain keyword search)
+const FIELD_PREFIX_PATTERN = new RegExp(
+	`(^|[\\s(])(${[...Object.keys(FIELD_ALIASES), ...Object.keys(DATE_FIELD_ALIASES)].join("|")}):`,
+	"i",
+);
+
+// Operators are case-sensitive so "rock and roll" stays a keyword search
+const OPERATOR_PATTERN = /\b(AND|OR|ANDNOT)\b|["()]/;
+
+interface Token {
+	kind: "word" | "phrase" | "range" | "lparen" | "rparen" | "operator";
+	value: string;
+	/** Field prefix, if the token was written as field:value */
+	field?: string;
+	/** 1-based position of the token in the input */
+	position: number;
+}
+
+/**
+ * Build a ValidationError that points at a position in the query
+ */
+function queryError(message: string, position: number): ValidationError {
+	return new ValidationError(`${message} at position ${position}`, "query");
+}
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(input: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < input.length) {
+		const char = input[i] as string;
+
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+
+		const position = i + 1;
+
+		if (char === "(") {
+			tokens.push({ kind: "lparen", value: char, position });
+			i++;
+			continue;
+		}
+
+		if (char === ")") {
+			tokens.push({ kind: "rparen", value: char, position });
+			i++;
+			continue;
+		}
+
+		// Optional field prefix
+		let field: string | undefined;
+		const prefix = input.slice(i).match(/^([A-Za-z]+):/);
+		if (prefix?.[1]) {
+			field = prefix[1];
+			i += prefix[0].length;
+		}
+
+		const next = input[i];
+
+		if (next === '"') {
+			const end = input.indexOf('"', i + 1);
+			if (end === -1) {
+				throw queryError("Unterminated quoted phrase", i + 1);
+			}
+			const value = input.slice(i + 1, end).trim();
+			if (!value) {
+				throw queryError("Empty quoted phrase", i + 1);
+			}
+			tokens.push({ kind: "phrase", value, field, position });
+			i = end + 1;
+			continue;
+		}
+
+		if (next === "[") {
+			const end = input.indexOf("]", i + 1);
+			if (end === -1) {
+				throw queryError('Missing "]" in date range', i + 1);
+			}
+			tokens.push({
+				kind: "range",
+				value: input.slice(i + 1, end).trim(),
+				field,
+				position,
+			});
+			i = end + 1;
+			continue;
+		}
+
+		const word = input.slice(i).match(/^[^\s()"[\]]+/);
+		if (!word) {
+			throw queryError(
+				field ? `Missing value for field "${field}"` : `Unexpected "${next}"`,
+				field ? position : i + 1,
+			);
+		}
+
+		i += word[0].length;
+
+		if (!field && OPERATORS.has(word[0])) {
+			tokens.push({ kind: "operator", value: word[0], position });
+			continue;
+		}
+
+		tokens.push({ kind: "word", value: word[0], field, position });
+	}
+
+	return tokens;
+}
+
+/**
+ * Normalize a date bound into arXiv's YYYYMMDDHHMM format
+ *
+ * Accepts YYYY, YYYY-MM, YYYY-MM-DD, YYYYMMDD and YYYYMMDDHHMM.
+ * Start bounds are expanded to the first minute of the period,
+ * end bounds to the last minute.
+ */
+function normalizeDateBound(
+	value: string,
+	bound: "start" | "end",
+	position: number,
+): string {
+	const compact = value.replace(/-/g, "");
+
+	if (!/^\d{4}(\d{2}(\d{2}(\d{4})?)?)?$/.test(compact)) {
+		throw queryError(`Invalid date "${value}"`, position);
+	}
+
+	const year = compact.slice(0, 4);
+	const month = compact.slice(4, 6) || (bound === "start" ? "01" : "12");
+	const monthNumber = Number(month);
+	if (monthNumber < 1 || monthNumber > 12) {
+		throw queryError(`Invalid month in date "${value}"`, position);
+	}
+
+	const lastDay = new Date(Date.UTC(Number(year), monthNumber, 0)).getUTCDate();
+	const day =
+		compact.slice(6, 8) ||
+		(bound === "start" ? "01" : String(lastDay).padStart(2, "0"));
+	const dayNumber = Number(day);
+	if (dayNumber < 1 || dayNumber > lastDay) {
+		throw queryError(`Invalid day in date "${value}"`, position);
+	}
+
+	const time = compact.slice(8, 12) || (bound === "start" ? "0000" : "2359");
+
+	return `${year}${month}${day}${time}`;
+}
+
+/**
+ * Format a Date as an arXiv date bound (YYYYMMDDHHMM, UTC)
+ *
+ * @param date - Date to format
+ * @returns arXiv-formatted date string
+ */
+export function formatArxivDate(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return (
+		`${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+		`${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}`
+	);
+}
+
+/**
+ * Parse the contents of a date range
+ *
+ * Supports "A TO B" (arXiv style) and "A..B" (shorthand, either side optional).
+ */
+function parseDateRange(
+	raw: string,
+	position: number,
+	now: Date,
+): { from: string; to: string } {
+	const parts = raw.includes("..") ? raw.split("..") : raw.split(/\s+TO\s+/i);
+
+	if (parts.length !== 2) {
+		throw queryError(
+			`Invalid date range "${raw}" (use 2023-01-01..2023-06-30)`,
+			position,
+		);
+	}
+
+	const [fromRaw = "", toRaw = ""] = parts.map((p) => p.trim());
+	if (!fromRaw && !toRaw) {
+		throw queryError("Date range needs at least one bound", position);
+	}
+
+	const from = fromRaw
+		? normalizeDateBound(fromRaw, "start", position)
+		: ARXIV_EPOCH;
+	const to = toRaw
+		? normalizeDateBound(toRaw, "end", position)
+		: formatArxivDate(now);
+
+	if (from > to) {
+		throw queryError(`Date range start is after its end in "${raw}"`, position);
+	}
+
+	return { from, to };
+}
+
+/**
+ * Recursive descent parser over the token list
+ */
+class QueryParser {
+	private index = 0;
+
+	constructor(
+		private readonly tokens: Token[],
+		private readonly inputLength: number,
+		private readonly now: Date,
+	) {}
+
+	parse(): QueryNode {
+		if (this.tokens.length === 0) {
+			throw new ValidationError("Search query is empty", "query");
+		}
+
+		const node = this.parseOr();
+
+		const leftover = this.peek();
+		if (leftover) {
+			throw queryError(`Unexpected "${leftover.value}"`, leftover.position);
+		}
+
+		return node;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+
+	private endPosition(): number {
+		return this.inputLength + 1;
+	}
+
+	private parseOr(): QueryNode {
+		let left = this.parseAnd();
+
+		while (this.peek()?.kind === "operator" && this.peek()?.value === "OR") {
+			this.index++;
+			const right = this.parseAnd();
+			left = { type: "binary", operator: "OR", left, right };
+		}
+
+		return left;
+	}
+
+	private parseAnd(): QueryNode {
+		let left = this.parseUnary();
+
+		for (;;) {
+			const token = this.peek();
+			if (!token || token.kind === "rparen") break;
+
+			if (token.kind === "operator") {
+				if (token.value === "OR") break;
+				this.index++;
+				const right = this.parseUnary();
+				left = {
+					type: "binary",
+					operator: token.value as QueryOperator,
+					left,
+					right,
+				};
+				continue;
+			}
+
+			// Adjacent terms are combined with an implicit AND
+			const right = this.parseUnary();
+			left = { type: "binary", operator: "AND", left, right };
+		}
+
+		return left;
+	}
+
+	private parseUnary(): QueryNode {
+		const token = this.peek();
+
+		if (!token) {
+			throw queryError("Unexpected end of query", this.endPosition());
+		}
+
+		if (token.kind === "operator") {
+			throw queryError(
+				`Operator "${token.value}" is missing a left-hand term`,
+				token.position,
+			);
+		}
+
+		if (token.kind === "rparen") {
+			throw queryError('Unexpected ")"', token.position);
+		}
+
+		this.index++;
+
+		if (token.kind === "lparen") {
+			if (this.peek()?.kind === "rparen") {
+				throw queryError("Empty parentheses", token.position);
+			}
+			const inner = this.parseOr();
+			const closing = this.peek();
+			if (closing?.kind !== "rparen") {
+				throw queryError('Missing closing ")"', token.position);
+			}
+			this.index++;
+			return inner;
+		}
+
+		return this.parseTerm(token);
+	}
+
+	private parseTerm(token: Token): QueryNode {
+		const fieldName = token.field?.toLowerCase();
+
+		if (fieldName && fieldName in DATE_FIELD_ALIASES) {
+			const field = DATE_FIELD_ALIASES[fieldName] as QueryDateField;
+			if (token.kind === "phrase") {
+				throw queryError(
+					`Date field "${token.field}" expects a range, not a phrase`,
+					token.position,
+				);
+			}
+			const { from, to } = parseDateRange(
+				token.value,
+				token.position,
+				this.now,
+			);
+			return { type: "range", field, from, to };
+		}
+
+		if (token.kind === "range") {
+			throw queryError(
+				`Date ranges are only allowed on date fields (e.g. date:[2023 TO 2024])`,
+				token.position,
+			);
+		}
+
+		let field: QueryField = "all";
+		if (fieldName) {
+			const resolved = FIELD_ALIASES[fieldName];
+			if (!resolved) {
+				throw queryError(`Unknown field "${token.field}"`, token.position);
+			}
+			field = resolved;
+		}
+
+		if (field === "cat" && !CATEGORY_PATTERN.test(token.value)) {
+			throw queryError(
+				`Invalid category "${token.value}" (expected e.g. cs.AI)`,
+				token.position,
+			);
+		}
+
+		return {
+			type: "term",
+			field,
+			value: token.value,
+			phrase: token.kind === "phrase",
+		};
+	}
+}
+
+/**
+ * Parse a boolean search query into a syntax tree
+ *
+ * @param input - Query string
+ * @param options - Parse options
+ * @returns Parsed query tree
+ * @throws {ValidationError} When the query is malformed
+ */
+export function parseSearchQuery(
+	input: string,
+	options: ParseQueryOptions = {},
+): QueryNode {
+	const tokens = tokenize(input);
+	return new QueryParser(
+		tokens,
+		input.length,
+		options.now ?? new Date(),
+	).parse();
+}
+
+/**
+ * Compile a query tree into arXiv's search_query syntax
+ *
+ * @param node - Parsed query tree
+ * @returns arXiv search_query string (not URL-encoded)
+ */
+export function compileSearchQuery(node: QueryNode): string {
+	switch (node.type) {
+		case "term":
+			return node.phrase
+				? `${node.field}:"${node.value}"`
+				: `${node.field}:${node.value}`;
+		case "range":
+			return `${node.field}:[${node.from} TO ${node.to}]`;
+		case "binary": {
+			const wrap = (child: QueryNode, isRight: boolean): string => {
+				const compiled = compileSearchQuery(child);
+				if (child.type !== "binary") return compiled;
+				// Same associative operator on the left needs no parentheses
+				const associative =
+					!isRight &&
+					child.operator === node.operator &&
+					node.operator !== "ANDNOT";
+				const chained =
+					!isRight && node.operator === "ANDNOT" && child.operator !== "OR";
+				return associative || chained ? compiled : `(${compiled})`;
+			};
+			return `${wrap(node.left, false)} ${node.operator} ${wrap(node.right, true)}`;
+		}
+	}
+}
+
+/**
+ * Check whether a query uses the structured query syntax
+ *
+ * Plain keyword queries keep the historical `all:<topic>` behaviour.
+ *
+ * @param input - Query string
+ * @returns true if the query contains fields, operators, phrases or groups
+ */
+export function isStructuredQuery(input: string): boolean {
+	return FIELD_PREFIX_PATTERN.test(input) || OPERATOR_PATTERN.test(input);
+}
+
+/**
+ * Convert a user query into arXiv's search_query syntax
+ *
+ * @param input - Plain keywords or a structured boolean query
+ * @param options - Parse options
+ * @returns arXiv search_query string
+ * @throws {ValidationError} When a structured query is malformed
+ *
+ * @example
+ * toArxivSearchQuery("machine learning"); // "all:machine learning"
+ * toArxivSearchQuery("au:Bengio OR au:LeCun"); // "au:Bengio OR au:LeCun"
+ */
+export function toArxivSearchQuery(
+	input: string,
+	options: ParseQueryOptions = {},
+): string {
+	const trimmed = input.trim();
+
+	if (!isStructuredQuery(trimmed)) {
+		return `all:${trimmed}`;
+	}
+
+	return compileSearchQuery(parseSearchQuery(trimmed, options));
+}
+
+/**
+ * Build a submittedDate range clause from optional bounds
+ *
+ * @param after - Lower bound (inclusive)
+ * @param before - Upper bound (inclusive, default: now)
+ * @returns arXiv submittedDate clause
+ */
+export function buildSubmittedDateRange(after?: Date, before?: Date): string {
+	const from = after ? formatArxivDate(after) : ARXIV_EPOCH;
+	const to = formatArxivDate(before ?? new Date());
+	return `submittedDate:[${from} TO ${to}]`;
+}
+
+type RelativeUnit = "h" | "d" | "w" | "m" | "y";
+
+const RELATIVE_UNITS_MS: Record<RelativeUnit, number> = {
+	h: 3600000,
+	d: 86400000,
+	w: 7 * 86400000,
+	m: 30 * 86400000,
+	y: 365 * 86400000,
+};
+
+/**
+ * Check whether a unit letter is one of RELATIVE_UNITS_MS
+ */
+function isRelativeUnit(unit: string | undefined): unit is RelativeUnit {
+	return unit !== undefined && Object.hasOwn(RELATIVE_UNITS_MS, unit);
+}
+
+/**
+ * Parse a "since" value into a date
+ *
+ * Accepts relative durations (24h, 7d, 2w, 3m, 1y) and
+ * absolute dates (YYYY-MM-DD).
+ *
+ * @param value - Value to parse
+ * @param now - Reference time (default: now)
+ * @returns The resolved date or null if the value is invalid
+ */
+export function parseSinceValue(value: string, now = new Date()): Date | null {
+	const relative = value.trim().match(/^(\d+)\s*([hdwmy])$/i);
+	const unit = relative?.[2]?.toLowerCase();
+	if (relative?.[1] && isRelativeUnit(unit)) {
+		const amount = Number(relative[1]);
+		if (amount <= 0) return null;
+		return new Date(now.getTime() - amount * RELATIVE_UNITS_MS[unit]);
+	}
+
+	const absolute = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (absolute) {
+		const date = new Date(`${value.trim()}T00:00:00Z`);
+		if (Number.isNaN(date.getTime()) || date > now) return null;
+		return date;
+	}
+
+	return null;
+}
+
+/**
+ * Extract a `--since <value>` option from command arguments
+ *
+ * @param args - Raw command arguments
+ * @param now - Reference time (default: now)
+ * @returns Remaining text, the resolved date (if any), and the raw value
+ *          when it could not be parsed
+ *
+ * @example
+ * parseSinceOption("--since 7d diffusion models");
+ * // { text: "diffusion models", submittedAfter: <7 days ago> }
+ */
+export function parseSinceOption(
+	args: string,
+	now = new Date(),
+): { text: string; submittedAfter?: Date; invalidSince?: string } {
+	const match = args.match(/(?:^|\s)--since(?:=|\s+)(\S+)/);
+	if (!match?.[1]) {
+		return { text: args.trim() };
+	}
+
+	const text = args.replace(match[0], " ").replace(/\s+/g, " ").trim();
+	const submittedAfter = parseSinceValue(match[1], now);
+
+	return submittedAfter
+		? { text, submittedAfter }
+		: { text, invalidSince: match[1] };
+}
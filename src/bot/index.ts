@@ -23,39 +23,140 @@ import { session } from "@gramio/session";
 import { Bot, bold, format, InlineKeyboard } from "gramio";
 import {
 	ARXIV_CATEGORIES,
-	fetchPaperById,
 	fetchPapers,
 	type Paper,
 	searchByAuthor,
 	searchByCategory,
 } from "../arxiv.js";
-import { initPaperCache } from "../cache/paperCache.js";
+import { parseSinceOption, toArxivSearchQuery } from "../arxivQuery.js";
+import { MemoryCacheTier } from "../cache/memoryTier.js";
+import { type CacheTier, initPaperCache } from "../cache/paperCache.js";
+import { RedisCacheTier } from "../cache/redisTier.js";
+import { SqliteCacheTier } from "../cache/sqliteTier.js";
 import { config, isRedisConfigured } from "../config.js";
-import { findOrCreateUser } from "../db/repositories/index.js";
+import {
+	cancelBroadcast,
+	createBroadcast,
+	findBroadcastById,
+	findCollectionById,
+	findDigestById,
+	findGroupByChatId,
+	findOrCreateUser,
+	getAudienceChatIds,
+	getBookmarksByTag,
+	getBroadcastAudience,
+	getCollectionBookmarks,
+	getRecentBroadcasts,
+	getUserCollections,
+	getUserTags,
+} from "../db/repositories/index.js";
+import {
+	getJobCounts,
+	getJobsByState,
+	retryDeadJobs,
+} from "../db/repositories/jobRepository.js";
 import {
 	getSubscriptionById,
 	getTotalSubscriptionCount,
 } from "../db/repositories/subscriptionRepository.js";
 import {
 	findUserByChatId,
+	findUserById,
 	getUserCount,
 	updateUserLanguage,
 } from "../db/repositories/userRepository.js";
-import { getErrorMessage } from "../errors.js";
+import type { Bookmark } from "../db/schema.js";
+import { getErrorMessage, isValidationError } from "../errors.js";
 import {
 	addBookmark,
+	appendBookmarkNote,
 	checkBookmarked,
+	clearBookmarkNote,
 	createBookmarksKeyboard,
+	createExportFormatKeyboard,
 	createPaperActionsKeyboard,
-	exportAllBookmarksToBibTeX,
-	exportAllBookmarksToCSV,
+	EXPORT_FORMAT_LABELS,
+	exportAllBookmarks,
 	formatBibTeXPreview,
 	formatBookmarksListMessage,
 	formatCSVTablePreview,
+	formatExportPreview,
 	getBookmarksPaginated,
 	getExportBookmarkCount,
+	MAX_NOTE_LENGTH,
 	removeBookmark,
+	searchBookmarkNotes,
 } from "../features/bookmarks.js";
+import {
+	createCollectionExportKeyboard,
+	createCollectionPickerKeyboard,
+	createCollectionsKeyboard,
+	createNewCollection,
+	fileBookmark,
+	findUserBookmark,
+	formatCollectionsMessage,
+	formatTagsMessage,
+	getCollectionByName,
+	getCollectionUsage,
+	getTagUsage,
+	normalizeTag,
+	parseCollectionArgs,
+	parseTagArgs,
+	removeCollection,
+	unfileBookmark,
+	updateTags,
+} from "../features/collections.js";
+import {
+	confirmEmail,
+	disableFeed,
+	enableFeed,
+	getEmailUsage,
+	getFeedUsage,
+	removeEmail,
+	startEmailVerification,
+} from "../features/delivery.js";
+import {
+	createForYouKeyboard,
+	formatForYouMessage,
+	getForYouEmptyMessage,
+	getForYouPapers,
+	getForYouUsage,
+	setForYouWeekly,
+} from "../features/forYou.js";
+import {
+	addGroupPaper,
+	canEditGroupLibrary,
+	formatGroupInfoMessage,
+	type GroupContext,
+	getGroupUsage,
+	isGroupChat,
+	joinGroup,
+	parseGroupArgs,
+	parseGroupBookmarksArgs,
+	removeGroupPaper,
+	setGroupEditPolicy,
+	toGroupRole,
+} from "../features/groups.js";
+import {
+	formatImportSummary,
+	getImportUsage,
+	importBookmarks,
+	MAX_IMPORT_ENTRIES,
+	MAX_IMPORT_FILE_SIZE,
+} from "../features/import.js";
+import { indexPapers } from "../features/paperIndex.js";
+import {
+	createReadingListKeyboard,
+	createReadingStatusKeyboard,
+	formatReadingSummary,
+	getReadingStatusCounts,
+	getReadingStatusLabel,
+	parseBookmarkSort,
+	parseReadingArgs,
+	parseReadingStatus,
+	rateBookmark,
+	setReadingStatus,
+} from "../features/reading.js";
 import { getSimilarPapersById } from "../features/recommendations.js";
 import {
 	clearHistory,
@@ -68,28 +169,68 @@ import {
 	recordSearch,
 } from "../features/searchHistory.js";
 import {
+	createDigestKeyboard,
 	createIntervalKeyboard,
 	createSubscriptionSettingsKeyboard,
 	createSubscriptionsKeyboard,
+	followAuthor,
 	formatSubscriptionsMessage,
+	getDigestPages,
+	getDigestUsage,
+	getFollowUsage,
+	getScheduleLabel,
 	getSubscriptionsList,
+	parseFollowArgs,
+	parseQuietHours,
 	parseSubscribeArgs,
+	setMergedDigest,
+	setQuietHours,
+	setTimezone,
 	subscribe,
+	unfollowAuthor,
 	unsubscribe,
 	updateInterval,
+	updateSchedule,
 } from "../features/subscriptions.js";
 import { LANGUAGE_NAMES, type LanguageCode, t } from "../i18n/index.js";
 import {
 	ADMIN_HELP,
+	confirmBroadcast,
 	formatAdminStats,
+	formatAnnouncement,
+	formatBroadcastHistory,
+	formatBroadcastStatus,
+	formatJobStatus,
 	isAdmin,
 	logAdminAction,
+	runBroadcast,
 } from "../middleware/admin.js";
-import { checkRateLimit, getRateLimitInfo } from "../middleware/rateLimit.js";
+import {
+	checkRateLimit,
+	type RateLimitResult,
+} from "../middleware/rateLimit.js";
+import {
+	DEFAULT_SOURCE,
+	fetchPaperByQualifiedId,
+	fitsCallbackData,
+	formatPaperId,
+	getSourceName,
+	listSources,
+	type PaperSourceId,
+	parsePaperId,
+	parseSourceOption,
+	searchSource,
+} from "../sources/index.js";
+import { RedisRateLimitStore } from "../storage/rateLimitStore.js";
 import { createRedisStorage } from "../storage/redis.js";
+import { getRedisClient } from "../storage/redisClient.js";
+import { describeAudience, parseBroadcastArgs } from "../utils/broadcast.js";
 import { toBibTeX } from "../utils/export.js";
-import { getExportExtension } from "../utils/exportStorage.js";
+import { getExportExtension, isExportFormat } from "../utils/exportStorage.js";
+import { detectImportFormat, parseImportFile } from "../utils/import.js";
 import { logger } from "../utils/logger.js";
+import { arxivRateLimiter } from "../utils/rateLimiter.js";
+import { outbound, queueReplies } from "./outbound.js";
 
 /**
  * Session data structure
@@ -97,6 +238,8 @@ import { logger } from "../utils/logger.js";
 interface SessionData {
 	lastTopic?: string;
 	lastOffset: number;
+	lastSource?: PaperSourceId;
+	lastSubmittedAfter?: string; // ISO date from --since
 	userId?: number; // Database user ID
 }
 
@@ -104,29 +247,58 @@ interface SessionData {
 // Use t(lang, "key") to get translated messages
 
 /**
- * Initialize caching if Redis is configured
+ * Initialize caching: in memory, in Redis if configured, then in the database
+ *
+ * Redis comes before the database so instances share what any of them
+ * fetched; the database keeps results across restarts without Redis.
  */
 function initializeCache(): void {
+	const tiers: CacheTier[] = [new MemoryCacheTier(500)];
 	if (isRedisConfigured() && config.REDIS_URL) {
 		try {
-			initPaperCache(config.REDIS_URL, {
-				prefix: "papers_cache",
-				ttl: 3600, // 1 hour cache
-			});
-			logger.info("Paper caching enabled (Redis)");
+			tiers.push(
+				new RedisCacheTier(getRedisClient(config.REDIS_URL), "papers_cache"),
+			);
 		} catch (error) {
-			logger.warn("Failed to initialize paper cache", {
+			logger.warn("Failed to set up Redis cache tier", {
 				error: error instanceof Error ? error.message : String(error),
 			});
 		}
-	} else {
-		logger.info("Paper caching disabled (no Redis configured)");
 	}
+	tiers.push(new SqliteCacheTier(5000));
+	initPaperCache(tiers, {
+		ttl: 3600, // 1 hour for search pages
+		paperTtl: 86400, // 1 day for single papers
+		staleTtl: 86400, // Serve expired entries for up to 1 more day
+	});
+	logger.info("Paper caching enabled", {
+		tiers: tiers.map((tier) => tier.name),
+	});
 }
 
 // Initialize cache on module load
 initializeCache();
 
+/**
+ * Share the arXiv rate limit with other instances if Redis is configured
+ */
+function initializeArxivRateLimiter(): void {
+	if (isRedisConfigured() && config.REDIS_URL) {
+		try {
+			arxivRateLimiter.useStore(
+				new RedisRateLimitStore(getRedisClient(config.REDIS_URL), "apilimit"),
+			);
+			logger.info("arXiv rate limit shared (Redis)");
+		} catch (error) {
+			logger.warn("Failed to share arXiv rate limit", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+}
+
+initializeArxivRateLimiter();
+
 /**
  * Create session configuration based on environment
  */
@@ -161,17 +333,177 @@ function formatPapersMessage(papers: Paper[], startIndex = 0): string {
 	return papers
 		.map(
 			(p, i) =>
-				format`${bold(`${i + 1 + startIndex}. ${p.title}`)}\n📅 ${p.published}\n🔗 ${p.link}`,
+				format`${bold(`${i + 1 + startIndex}. ${p.title}`)}\n📅 ${p.published}${p.journalRef ? `\n📰 ${p.journalRef}` : ""}\n🔗 ${p.link}`,
 		)
 		.join("\n\n");
 }
 
+/**
+ * Fetch papers for a topic from the given source (arXiv by default)
+ *
+ * Results are added to the local paper index used by /similar.
+ */
+async function fetchPapersFromSource(
+	topic: string,
+	source: PaperSourceId = DEFAULT_SOURCE,
+	start = 0,
+	submittedAfter?: Date,
+): Promise<Paper[]> {
+	const papers =
+		source === DEFAULT_SOURCE && !submittedAfter
+			? await fetchPapers(topic, start)
+			: await searchSource(topic, source, { start, submittedAfter });
+	void indexPapers(papers);
+	return papers;
+}
+
+/**
+ * Build the /foryou reply for a user or group library
+ */
+async function buildForYouReply(
+	userId: number,
+	lang: LanguageCode,
+): Promise<{ text: string; keyboard?: InlineKeyboard }> {
+	const suggestions = await getForYouPapers(userId);
+	if (suggestions.length === 0) {
+		return { text: getForYouEmptyMessage(lang) };
+	}
+	return {
+		text: formatForYouMessage(suggestions, false, lang),
+		keyboard: createForYouKeyboard(suggestions, lang),
+	};
+}
+
+/**
+ * Restore the --since date of the last search from the session
+ */
+function getSessionSubmittedAfter(session?: SessionData): Date | undefined {
+	return session?.lastSubmittedAfter
+		? new Date(session.lastSubmittedAfter)
+		: undefined;
+}
+
+/**
+ * Format the error shown for an unknown --source value
+ */
+function formatUnknownSourceMessage(name: string): string {
+	const available = listSources()
+		.map((s) => s.id)
+		.join(", ");
+	return `❌ Unknown source "${name}".\n\nAvailable sources: ${available}`;
+}
+
+/**
+ * Format the error shown for an invalid --since value
+ */
+function formatInvalidSinceMessage(value: string): string {
+	return `❌ Invalid --since value "${value}".\n\nUse a duration like 24h, 7d, 2w, 3m or a date like 2024-01-15.`;
+}
+
+/**
+ * Message for an invalid --at or --weekly value
+ */
+function formatInvalidScheduleMessage(value: string): string {
+	return `❌ Invalid schedule "${value}".\n\nUse --at 08:00 for a daily update, or --weekly monday [--at 08:00] for a weekly one.`;
+}
+
+/**
+ * Bookmarks per page in the /reading list
+ */
+const READING_PAGE_SIZE = 5;
+
+/**
+ * Maximum messages collected by the note editor in one session
+ */
+const MAX_NOTE_MESSAGES = 20;
+
+/**
+ * Outcome of the note editor
+ */
+type NoteEditorResult =
+	| { action: "save"; text: string }
+	| { action: "clear" }
+	| { action: "cancel" };
+
+/**
+ * Collect a multi-message note from the user
+ *
+ * Each message is captured with a prompt until the user sends /done
+ * (save), /clear (remove existing notes) or /cancel (discard).
+ *
+ * @param ask - Sends a question and resolves with the user's next message
+ * @param bookmark - Bookmark being annotated
+ * @param lang - Language code for translations
+ */
+async function runNoteEditor(
+	ask: (text: string) => Promise<{ text?: string }>,
+	bookmark: Bookmark,
+	lang: LanguageCode,
+): Promise<NoteEditorResult> {
+	const existing = bookmark.notes?.trim();
+	const parts: string[] = [];
+
+	const title = t(lang, "notes.editorTitle", { title: bookmark.title });
+	const current = existing
+		? `${t(lang, "notes.editorCurrent")}\n${existing}\n\n`
+		: "";
+	let question = `${title}\n\n${current}${t(lang, "notes.editorPrompt")}`;
+
+	while (parts.length < MAX_NOTE_MESSAGES) {
+		const answer = await ask(question);
+		const text = answer.text?.trim() ?? "";
+		const command = text.toLowerCase();
+
+		if (command === "/done") break;
+		if (command === "/cancel") return { action: "cancel" };
+		if (command === "/clear") return { action: "clear" };
+
+		if (text) {
+			parts.push(text);
+		}
+		question = t(lang, "notes.editorAdded", { count: parts.length });
+	}
+
+	return { action: "save", text: parts.join("\n\n") };
+}
+
+/**
+ * Apply the result of the note editor and describe the outcome
+ */
+async function applyNoteEditorResult(
+	bookmark: Bookmark,
+	result: NoteEditorResult,
+	lang: LanguageCode,
+): Promise<string> {
+	switch (result.action) {
+		case "cancel":
+			return t(lang, "notes.discarded");
+		case "clear":
+			return (await clearBookmarkNote(bookmark))
+				? t(lang, "notes.deleted")
+				: t(lang, "notes.couldNotDelete");
+		case "save": {
+			if (!result.text) {
+				return t(lang, "notes.nothingToSave");
+			}
+			if (
+				(bookmark.notes?.length ?? 0) + result.text.length + 2 >
+				MAX_NOTE_LENGTH
+			) {
+				return t(lang, "notes.tooLong", { max: MAX_NOTE_LENGTH });
+			}
+			return (await appendBookmarkNote(bookmark, result.text))
+				? t(lang, "notes.saved", { title: bookmark.title })
+				: t(lang, "notes.couldNotSave");
+		}
+	}
+}
+
 /**
  * Format rate limit info for user message
  */
-function formatRateLimitMessage(chatId: number): string {
-	const info = getRateLimitInfo(chatId);
-	const resetInSeconds = Math.ceil((info.resetAt - Date.now()) / 1000);
+function formatRateLimitMessage(rateLimit: RateLimitResult): string {
+	const resetInSeconds = Math.max(1, Math.ceil(rateLimit.retryAfterMs / 1000));
 	return `⏳ You're sending too many requests. Please wait a moment before trying again.\n\n⏱️ Try again in ${resetInSeconds} seconds.`;
 }
 
@@ -204,6 +536,51 @@ async function ensureUser(
 	return null;
 }
 
+/**
+ * Register the sender as a member of a group chat
+ *
+ * The member's role is refreshed from Telegram on every call so that
+ * promotions and demotions take effect immediately.
+ */
+async function ensureGroupMember(
+	chat: { id: number; title?: string },
+	from?: {
+		id: number;
+		username?: string;
+		firstName?: string;
+		lastName?: string;
+	},
+): Promise<GroupContext | null> {
+	if (!from) {
+		return null;
+	}
+
+	const user = await findOrCreateUser(from.id, {
+		username: from.username,
+		firstName: from.firstName,
+		lastName: from.lastName,
+	});
+	if (!user) {
+		return null;
+	}
+
+	let status: string | undefined;
+	try {
+		const member = await bot.api.getChatMember({
+			chat_id: chat.id,
+			user_id: from.id,
+		});
+		status = member.status;
+	} catch (error) {
+		logger.warn("Could not fetch chat member", {
+			chatId: chat.id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+
+	return joinGroup(chat, user.id, toGroupRole(status));
+}
+
 /**
  * Build the localized start menu message and keyboard
  */
@@ -244,6 +621,7 @@ ${t(userLang, "menu.useButtons")}
 export const bot = new Bot(config.BOT_TOKEN)
 	.extend(session(createSessionConfig()))
 	.extend(prompt())
+	.derive(["message", "callback_query"], queueReplies)
 
 	// --- GLOBAL ERROR HANDLER ---
 	.onError(({ context, error }) => {
@@ -268,8 +646,9 @@ export const bot = new Bot(config.BOT_TOKEN)
 
 	.command("start", async (context) => {
 		// Rate limit check (allow /start with higher limit)
-		if (!checkRateLimit(context.chatId, { maxRequests: 60 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "start");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		logger.info("User started bot", { chatId: context.chatId });
@@ -292,8 +671,9 @@ export const bot = new Bot(config.BOT_TOKEN)
 
 	.command("language", async (context) => {
 		// Rate limit check
-		if (!checkRateLimit(context.chatId, { maxRequests: 60 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "language");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		// Ensure user exists
@@ -360,8 +740,9 @@ ${t(userLang, "language.select")}
 
 	.command("help", async (context) => {
 		// Rate limit check
-		if (!checkRateLimit(context.chatId, { maxRequests: 60 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "help");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
@@ -396,12 +777,39 @@ ${t(userLang, "search.tip")}
 	})
 
 	.command("bookmarks", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "bookmarks");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
-		const userId = await ensureUser(context.chatId, context.research_session);
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			// Group chats share one library
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (!group) {
+				return context.send(t(userLang, "bookmarks.couldNotLoad"));
+			}
+
+			const command = parseGroupBookmarksArgs(context.args ?? "");
+			if (command.action === "invalid") {
+				return context.send(getGroupUsage(userLang));
+			}
+			if (command.action === "add") {
+				const result = await addGroupPaper(group, command.paperId, userLang);
+				return context.send(result.message);
+			}
+			if (command.action === "remove") {
+				const result = await removeGroupPaper(group, command.paperId, userLang);
+				return context.send(result.message);
+			}
+
+			userId = group.group.userId;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
+
 		if (!userId) {
 			return context.send(t(userLang, "bookmarks.couldNotLoad"));
 		}
@@ -431,8 +839,9 @@ ${t(userLang, "search.tip")}
 
 	// --- SAVE COMMAND ---
 	.command("save", async (context) => {
-		if (!checkRateLimit(context.chatId, { maxRequests: 30, windowMs: 60000 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "save");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
@@ -457,9 +866,16 @@ ${bold`Tip:`} ${t(userLang, "save.tip")}`,
 			);
 		}
 
+		// Source-qualified IDs from other providers (e.g. pubmed:31452104)
+		const qualified = parsePaperId(args);
+		const source = qualified?.source ?? DEFAULT_SOURCE;
+
 		// Extract arXiv ID from input (could be URL or just ID)
 		const { extractArxivId } = await import("../utils/export.js");
-		let arxivId = extractArxivId(args);
+		let arxivId =
+			qualified && source !== DEFAULT_SOURCE
+				? formatPaperId(source, qualified.externalId)
+				: extractArxivId(args);
 
 		// If not found via URL patterns, try treating the whole input as an ID
 		if (!arxivId) {
@@ -482,7 +898,8 @@ ${bold`${t(userLang, "validation.validFormats")}`}
 • 2301.00001
 • arxiv:2301.00001
 • https://arxiv.org/abs/2301.00001
-• https://arxiv.org/pdf/2301.00001.pdf`,
+• https://arxiv.org/pdf/2301.00001.pdf
+• pubmed:31452104, doi:10.1038/nature14539`,
 			);
 		}
 
@@ -496,14 +913,14 @@ ${t(userLang, "validation.useBookmarksToView")}`,
 			);
 		}
 
-		// Fetch the paper from arXiv
+		// Fetch the paper from its source
 		context.send(t(userLang, "save.fetching"));
 
-		const paper = await fetchPaperById(arxivId);
+		const paper = await fetchPaperByQualifiedId(arxivId);
 
 		if (!paper) {
 			return context.send(
-				format`❌ Paper not found on arXiv.
+				format`❌ Paper not found on ${getSourceName(source)}.
 
 Please check the ID and try again. The paper might have been removed or the ID might be incorrect.`,
 			);
@@ -528,6 +945,12 @@ Please check the ID and try again. The paper might have been removed or the ID m
 			.text(t(userLang, "bookmarks.viewBookmarks"), "action:bookmarks")
 			.text("🔍 Search More", "action:search");
 
+		if (fitsCallbackData(`note:${bookmark.arxivId}`)) {
+			keyboard
+				.row()
+				.text(t(userLang, "notes.button"), `note:${bookmark.arxivId}`);
+		}
+
 		return context.send(
 			format`✅ ${bold`Paper saved to bookmarks!`}
 
@@ -541,8 +964,9 @@ ${bold`${paper.title}`}
 	})
 
 	.command("history", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "history");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
@@ -576,8 +1000,9 @@ ${bold`${paper.title}`}
 	})
 
 	.command("stats", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "stats");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
@@ -605,8 +1030,9 @@ ${bold`${paper.title}`}
 	})
 
 	.command("author", async (context) => {
-		if (!checkRateLimit(context.chatId, { maxRequests: 20, windowMs: 60000 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "author");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
@@ -648,8 +1074,9 @@ ${bold`${paper.title}`}
 	})
 
 	.command("category", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "category");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		// Show category selection keyboard
@@ -679,12 +1106,15 @@ ${bold`${paper.title}`}
 	})
 
 	.command("export", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "export");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
-		const userId = await ensureUser(context.chatId, context.research_session);
+		const userId = isGroupChat(context.chat.type)
+			? (await ensureGroupMember(context.chat, context.from))?.group.userId
+			: await ensureUser(context.chatId, context.research_session);
 		if (!userId) {
 			return context.send(t(userLang, "errors.couldNotExport"));
 		}
@@ -697,9 +1127,7 @@ ${bold`${paper.title}`}
 		}
 
 		// Show format selection keyboard
-		const keyboard = new InlineKeyboard()
-			.text(`📄 ${t(userLang, "ui.bibtexFormat")} (.bib)`, "export:bibtex")
-			.text(`📊 ${t(userLang, "ui.csvFormat")} (.csv)`, "export:csv")
+		const keyboard = createExportFormatKeyboard()
 			.row()
 			.text(t(userLang, "ui.cancelButton"), "export:cancel");
 
@@ -711,157 +1139,561 @@ ${t(userLang, "ui.paperCount", { count: String(bookmarkCount) })}
 ${t(userLang, "export.selectFormat")}
 
 ${bold`${t(userLang, "ui.bibtexFormat")}`} - ${t(userLang, "ui.forLatex")}
-${bold`${t(userLang, "ui.csvFormat")}`} - ${t(userLang, "ui.forSpreadsheets")}`,
+${bold`${t(userLang, "ui.csvFormat")}`} - ${t(userLang, "ui.forSpreadsheets")}
+${bold`RIS, CSL-JSON, EndNote XML`} - For Zotero, Mendeley and EndNote
+${bold`Markdown`} - Reading list grouped by status`,
 			{ reply_markup: keyboard },
 		);
 	})
 
-	// --- CALLBACK QUERIES ---
-
-	.on("callback_query", async (context) => {
-		const data = context.data;
-		if (!data) return;
-
-		// Rate limit check for callbacks
-		const chatId = context.message?.chat?.id;
-		if (chatId && !checkRateLimit(chatId)) {
-			await context.answer({
-				text: t("en", "callbacks.tooManyRequests"),
-				show_alert: true,
-			});
-			return;
+	.command("collection", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "collection");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
-		// Get user ID for database operations
-		const userId = context.research_session?.userId;
+		const userLang = await getUserLanguage(context.chatId);
+		const userId = await ensureUser(context.chatId, context.research_session);
+		if (!userId) {
+			return context.send(t(userLang, "bookmarks.couldNotLoad"));
+		}
 
-		// --- Action handlers ---
-		if (data.startsWith("action:")) {
-			const action = data.replace("action:", "");
+		const args = context.text?.replace(/^\/collection\s*/, "") ?? "";
+		const command = parseCollectionArgs(args);
 
-			switch (action) {
-				case "search": {
-					await context.answer();
-					const user = chatId ? await findUserByChatId(chatId) : null;
-					const userLang = (user?.language as LanguageCode) || "en";
-					await context.message?.send(t(userLang, "search.prompt"));
-					break;
-				}
+		switch (command.action) {
+			case "list": {
+				const collections = await getUserCollections(userId);
+				return context.send(formatCollectionsMessage(collections, userLang), {
+					reply_markup: createCollectionsKeyboard(collections),
+				});
+			}
 
-				case "more": {
-					await context.answer();
-					const topic = context.research_session?.lastTopic;
-					const user = chatId ? await findUserByChatId(chatId) : null;
-					const userLang = (user?.language as LanguageCode) || "en";
-					if (!topic) {
-						await context.message?.send(t(userLang, "search.useSearchFirst"));
-					} else {
-						const nextOffset = (context.research_session?.lastOffset || 0) + 5;
-						context.research_session.lastOffset = nextOffset;
+			case "new": {
+				const result = await createNewCollection(
+					userId,
+					command.name,
+					userLang,
+				);
+				return context.send(result.message);
+			}
 
-						await context.message?.send(
-							t(userLang, "search.loadingMore", { topic }),
-						);
+			case "delete": {
+				const result = await removeCollection(userId, command.name, userLang);
+				return context.send(result.message);
+			}
 
-						const papers = await fetchPapers(topic, nextOffset);
-						if (!papers.length) {
-							await context.message?.send(t(userLang, "search.noMorePapers"));
-						} else {
-							const message = formatPapersMessage(papers, nextOffset);
-							await context.message?.send(message);
-						}
-					}
-					break;
+			case "show":
+			case "export": {
+				const collection = await getCollectionByName(userId, command.name);
+				if (!collection) {
+					return context.send(
+						t(userLang, "collections.notFound", { name: command.name }),
+					);
 				}
 
-				case "bookmarks": {
-					await context.answer();
-					const user = chatId ? await findUserByChatId(chatId) : null;
-					const userLang = (user?.language as LanguageCode) || "en";
-					if (!userId) {
-						await context.message?.send(t(userLang, "commands.bookmarks"));
-						return;
-					}
-					// Redirect to bookmarks command logic
-					const { bookmarks, total, hasMore } = await getBookmarksPaginated(
-						userId,
-						1,
-						5,
+				const bookmarks = await getCollectionBookmarks(collection.id, {
+					limit: 10,
+				});
+				if (bookmarks.length === 0) {
+					return context.send(
+						t(userLang, "collections.empty", { name: collection.name }),
 					);
-					if (bookmarks.length === 0) {
-						await context.message?.send(t(userLang, "bookmarks.empty"));
-					} else {
-						const msg = format`${bold`${t(userLang, "bookmarks.title")}`} (${t(userLang, "bookmarks.total", { count: String(total) })})\n\n${formatBookmarksListMessage(bookmarks, 0, userLang)}`;
-						await context.message?.send(msg, {
-							reply_markup: createBookmarksKeyboard(
-								1,
-								hasMore,
-								total,
-								userLang,
-							),
-						});
-					}
-					break;
 				}
 
-				case "history": {
-					await context.answer();
-					const user = chatId ? await findUserByChatId(chatId) : null;
-					const userLang = (user?.language as LanguageCode) || "en";
-					if (!userId) {
-						await context.message?.send(t(userLang, "commands.history"));
-						return;
-					}
-					const recentSearches = await getRecentSearches(userId, 6);
-					if (recentSearches.length === 0) {
-						await context.message?.send(t(userLang, "history.noHistory"));
-					} else {
-						await context.message?.send(
-							format`${bold`${t(userLang, "history.recentSearches")}`}\n\n${t(userLang, "history.tapToSearch")}`,
-							{
-								reply_markup: createRecentSearchesKeyboard(
-									recentSearches,
-									6,
-									userLang,
-								),
-							},
-						);
-					}
-					break;
+				if (command.action === "export") {
+					return context.send(
+						format`${bold(t(userLang, "collections.exportTitle", { name: collection.name }))}
+
+${t(userLang, "export.selectFormat")}`,
+						{ reply_markup: createCollectionExportKeyboard(collection.id) },
+					);
 				}
 
-				case "help": {
-					await context.answer();
-					const user = chatId ? await findUserByChatId(chatId) : null;
-					const userLang = (user?.language as LanguageCode) || "en";
-					await context.message?.send(
-						format`
-${bold`${t(userLang, "helpPage.title")}`}
+				return context.send(
+					format`${bold`📁 ${collection.name}`}\n\n${formatBookmarksListMessage(bookmarks, 0, userLang)}`,
+					{ reply_markup: createCollectionExportKeyboard(collection.id) },
+				);
+			}
 
-${bold`${t(userLang, "helpPage.searchTopic")}`}
-${bold`${t(userLang, "helpPage.searchAuthor")}`}
-${bold`${t(userLang, "helpPage.viewBookmarks")}`}
-${bold`${t(userLang, "helpPage.savePaper")}`}
-${bold`${t(userLang, "helpPage.viewHistory")}`}
-${bold`${t(userLang, "helpPage.loadMore")}`}
+			case "add":
+			case "remove": {
+				const collection = await getCollectionByName(userId, command.name);
+				if (!collection) {
+					return context.send(
+						t(userLang, "collections.notFound", { name: command.name }),
+					);
+				}
 
-${t(userLang, "search.tip")}
-          `,
+				const bookmark = await findUserBookmark(userId, command.paperId);
+				if (!bookmark) {
+					return context.send(
+						t(userLang, "collections.notBookmarked", {
+							paperId: command.paperId,
+						}),
 					);
-					break;
 				}
 
-				case "language": {
-					await context.answer();
-					// Get user's current language
-					const user = chatId ? await findUserByChatId(chatId) : null;
-					const userLang = (user?.language as LanguageCode) || "en";
+				const result =
+					command.action === "add"
+						? await fileBookmark(userId, bookmark, collection, userLang)
+						: await unfileBookmark(bookmark, collection, userLang);
+				return context.send(result.message);
+			}
 
-					// Build language selection keyboard
-					const langKeyboard = new InlineKeyboard();
-					const availableLangs: LanguageCode[] = [
-						"en",
-						"es",
+			default:
+				return context.send(getCollectionUsage(userLang));
+		}
+	})
+
+	.command("tag", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "tag");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		const userId = await ensureUser(context.chatId, context.research_session);
+		if (!userId) {
+			return context.send(t(userLang, "bookmarks.couldNotLoad"));
+		}
+
+		const args = context.text?.replace(/^\/tag\s*/, "") ?? "";
+		const command = parseTagArgs(args);
+
+		switch (command.action) {
+			case "list": {
+				const tags = await getUserTags(userId);
+				return context.send(formatTagsMessage(tags, userLang));
+			}
+
+			case "show": {
+				const tag = normalizeTag(command.tag);
+				const bookmarks = tag ? await getBookmarksByTag(userId, tag, 10) : [];
+				if (!tag || bookmarks.length === 0) {
+					return context.send(
+						t(userLang, "collections.noneTagged", { tag: command.tag }),
+					);
+				}
+
+				return context.send(
+					format`${bold`🏷 #${tag}`}\n\n${formatBookmarksListMessage(bookmarks, 0, userLang)}`,
+				);
+			}
+
+			case "add":
+			case "remove": {
+				const bookmark = await findUserBookmark(userId, command.paperId);
+				if (!bookmark) {
+					return context.send(
+						t(userLang, "collections.notBookmarked", {
+							paperId: command.paperId,
+						}),
+					);
+				}
+
+				const result = await updateTags(
+					bookmark,
+					command.tags,
+					command.action,
+					userLang,
+				);
+				return context.send(result.message);
+			}
+
+			default:
+				return context.send(getTagUsage(userLang));
+		}
+	})
+
+	.command("note", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "note");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		const userId = await ensureUser(context.chatId, context.research_session);
+		if (!userId) {
+			return context.send(t(userLang, "bookmarks.couldNotLoad"));
+		}
+
+		const paperId = context.text?.replace(/^\/note\s*/, "").trim() ?? "";
+		if (!paperId) {
+			return context.send(t(userLang, "notes.usage"));
+		}
+
+		const bookmark = await findUserBookmark(userId, paperId);
+		if (!bookmark) {
+			return context.send(
+				t(userLang, "collections.notBookmarked", { paperId }),
+			);
+		}
+
+		const result = await runNoteEditor(
+			(text) => context.prompt("message", text),
+			bookmark,
+			userLang,
+		);
+		return context.send(
+			await applyNoteEditorResult(bookmark, result, userLang),
+		);
+	})
+
+	.command("notes", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "notes");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		const userId = await ensureUser(context.chatId, context.research_session);
+		if (!userId) {
+			return context.send(t(userLang, "bookmarks.couldNotLoad"));
+		}
+
+		const query = context.text?.replace(/^\/notes\s*/, "").trim() ?? "";
+		const bookmarks = await searchBookmarkNotes(userId, query);
+
+		if (bookmarks.length === 0) {
+			return context.send(
+				query
+					? t(userLang, "notes.noMatches", { query })
+					: t(userLang, "notes.none"),
+			);
+		}
+
+		const title = query
+			? t(userLang, "notes.matching", { query })
+			: t(userLang, "notes.title");
+		return context.send(
+			format`${bold(title)}\n\n${formatBookmarksListMessage(bookmarks, 0, userLang)}`,
+		);
+	})
+
+	.command("reading", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "reading");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		const userId = await ensureUser(context.chatId, context.research_session);
+		if (!userId) {
+			return context.send(t(userLang, "bookmarks.couldNotLoad"));
+		}
+
+		const args = context.text?.replace(/^\/reading\s*/, "") ?? "";
+		const { status, sortBy, invalid } = parseReadingArgs(args);
+
+		if (invalid) {
+			return context.send(t(userLang, "reading.invalid", { value: invalid }));
+		}
+
+		const { bookmarks, hasMore } = await getBookmarksPaginated(
+			userId,
+			1,
+			READING_PAGE_SIZE,
+			{ status, sortBy },
+		);
+		const counts = await getReadingStatusCounts(userId);
+		const title = status
+			? getReadingStatusLabel(status, userLang)
+			: t(userLang, "reading.listTitle");
+
+		const message = format`${bold(title)}\n\n${formatReadingSummary(counts, userLang)}\n\n${formatBookmarksListMessage(bookmarks, 0, userLang)}`;
+
+		return context.send(message, {
+			reply_markup: createReadingListKeyboard(
+				status,
+				sortBy,
+				1,
+				hasMore,
+				userLang,
+			),
+		});
+	})
+
+	.command("group", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "group");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		if (!isGroupChat(context.chat.type)) {
+			return context.send(t(userLang, "groups.addMe"));
+		}
+
+		const group = await ensureGroupMember(context.chat, context.from);
+		if (!group) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const command = parseGroupArgs(context.args ?? "");
+		switch (command.action) {
+			case "info":
+				return context.send(await formatGroupInfoMessage(group, userLang));
+			case "policy": {
+				const result = await setGroupEditPolicy(
+					group,
+					command.policy,
+					userLang,
+				);
+				return context.send(result.message);
+			}
+			default:
+				return context.send(getGroupUsage(userLang));
+		}
+	})
+
+	.command("import", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "import");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		if (isGroupChat(context.chat.type)) {
+			return context.send(t(userLang, "import.privateOnly"));
+		}
+
+		return context.send(getImportUsage(userLang));
+	})
+
+	// --- DOCUMENT UPLOADS ---
+
+	.on("message", async (context, next) => {
+		const document = context.document;
+		const format = document?.fileName
+			? detectImportFormat(document.fileName)
+			: null;
+		if (!document || !format || context.chat.type !== "private") {
+			return next();
+		}
+
+		const rateLimit = await checkRateLimit(context.chatId, "file_import");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		const userId = await ensureUser(context.chatId, context.research_session);
+		if (!userId) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		if ((document.fileSize ?? 0) > MAX_IMPORT_FILE_SIZE) {
+			return context.send(
+				t(userLang, "import.tooLarge", {
+					max: MAX_IMPORT_FILE_SIZE / 1024 / 1024,
+				}),
+			);
+		}
+
+		let entries: ReturnType<typeof parseImportFile>;
+		try {
+			const text = Buffer.from(await context.download()).toString("utf-8");
+			entries = parseImportFile(format, text);
+		} catch (error) {
+			logger.error("Failed to read imported file", {
+				chatId: context.chatId,
+				fileName: document.fileName,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		if (entries.length === 0) {
+			const file = document.fileName;
+			return context.send(
+				`${t(userLang, "import.noReferences", { file })}\n\n${getImportUsage(userLang)}`,
+			);
+		}
+
+		const count = Math.min(entries.length, MAX_IMPORT_ENTRIES);
+		await context.send(
+			t(userLang, count === 1 ? "import.importingOne" : "import.importing", {
+				count,
+				file: document.fileName,
+			}),
+		);
+
+		const summary = await importBookmarks(userId, entries);
+		return context.send(formatImportSummary(summary, userLang));
+	})
+
+	// --- CALLBACK QUERIES ---
+
+	.on("callback_query", async (context) => {
+		const data = context.data;
+		if (!data) return;
+
+		// Rate limit check for callbacks
+		const chatId = context.message?.chat?.id;
+		// Callbacks cost the same as the command they stand for (e.g. export:)
+		if (chatId && !(await checkRateLimit(chatId, data.split(":")[0])).allowed) {
+			await context.answer({
+				text: t("en", "callbacks.tooManyRequests"),
+				show_alert: true,
+			});
+			return;
+		}
+
+		// Get user ID for database operations
+		const userId = context.research_session?.userId;
+
+		// In group chats, library and subscription callbacks act on the group
+		const group =
+			chatId && isGroupChat(context.message?.chat?.type)
+				? await findGroupByChatId(chatId)
+				: null;
+		const libraryUserId = group?.userId ?? userId;
+
+		// --- Action handlers ---
+		if (data.startsWith("action:")) {
+			const action = data.replace("action:", "");
+
+			switch (action) {
+				case "search": {
+					await context.answer();
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+					await context.message?.send(t(userLang, "search.prompt"));
+					break;
+				}
+
+				case "foryou": {
+					await context.answer();
+					if (!libraryUserId) break;
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+					const reply = await buildForYouReply(libraryUserId, userLang);
+					await context.message?.send(reply.text, {
+						reply_markup: reply.keyboard,
+					});
+					break;
+				}
+
+				case "more": {
+					await context.answer();
+					const topic = context.research_session?.lastTopic;
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+					if (!topic) {
+						await context.message?.send(t(userLang, "search.useSearchFirst"));
+					} else {
+						const nextOffset = (context.research_session?.lastOffset || 0) + 5;
+						context.research_session.lastOffset = nextOffset;
+
+						await context.message?.send(
+							t(userLang, "search.loadingMore", { topic }),
+						);
+
+						const papers = await fetchPapersFromSource(
+							topic,
+							context.research_session?.lastSource,
+							nextOffset,
+							getSessionSubmittedAfter(context.research_session),
+						);
+						if (!papers.length) {
+							await context.message?.send(t(userLang, "search.noMorePapers"));
+						} else {
+							const message = formatPapersMessage(papers, nextOffset);
+							await context.message?.send(message);
+						}
+					}
+					break;
+				}
+
+				case "bookmarks": {
+					await context.answer();
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+					if (!userId) {
+						await context.message?.send(t(userLang, "commands.bookmarks"));
+						return;
+					}
+					// Redirect to bookmarks command logic
+					const { bookmarks, total, hasMore } = await getBookmarksPaginated(
+						userId,
+						1,
+						5,
+					);
+					if (bookmarks.length === 0) {
+						await context.message?.send(t(userLang, "bookmarks.empty"));
+					} else {
+						const msg = format`${bold`${t(userLang, "bookmarks.title")}`} (${t(userLang, "bookmarks.total", { count: String(total) })})\n\n${formatBookmarksListMessage(bookmarks, 0, userLang)}`;
+						await context.message?.send(msg, {
+							reply_markup: createBookmarksKeyboard(
+								1,
+								hasMore,
+								total,
+								userLang,
+							),
+						});
+					}
+					break;
+				}
+
+				case "history": {
+					await context.answer();
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+					if (!userId) {
+						await context.message?.send(t(userLang, "commands.history"));
+						return;
+					}
+					const recentSearches = await getRecentSearches(userId, 6);
+					if (recentSearches.length === 0) {
+						await context.message?.send(t(userLang, "history.noHistory"));
+					} else {
+						await context.message?.send(
+							format`${bold`${t(userLang, "history.recentSearches")}`}\n\n${t(userLang, "history.tapToSearch")}`,
+							{
+								reply_markup: createRecentSearchesKeyboard(
+									recentSearches,
+									6,
+									userLang,
+								),
+							},
+						);
+					}
+					break;
+				}
+
+				case "help": {
+					await context.answer();
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+					await context.message?.send(
+						format`
+${bold`${t(userLang, "helpPage.title")}`}
+
+${bold`${t(userLang, "helpPage.searchTopic")}`}
+${bold`${t(userLang, "helpPage.searchAuthor")}`}
+${bold`${t(userLang, "helpPage.viewBookmarks")}`}
+${bold`${t(userLang, "helpPage.savePaper")}`}
+${bold`${t(userLang, "helpPage.viewHistory")}`}
+${bold`${t(userLang, "helpPage.loadMore")}`}
+
+${t(userLang, "search.tip")}
+          `,
+					);
+					break;
+				}
+
+				case "language": {
+					await context.answer();
+					// Get user's current language
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+
+					// Build language selection keyboard
+					const langKeyboard = new InlineKeyboard();
+					const availableLangs: LanguageCode[] = [
+						"en",
+						"es",
 						"zh",
 						"ru",
 						"pt",
@@ -910,73 +1742,324 @@ ${t(userLang, "language.select")}
 					break;
 				}
 
-				case "back_to_start": {
-					await context.answer();
-					// Get user's language preference
-					const user = chatId ? await findUserByChatId(chatId) : null;
-					const userLang = (user?.language as LanguageCode) || "en";
+				case "back_to_start": {
+					await context.answer();
+					// Get user's language preference
+					const user = chatId ? await findUserByChatId(chatId) : null;
+					const userLang = (user?.language as LanguageCode) || "en";
+
+					const { message: startMessage, keyboard: startKeyboard } =
+						buildStartMenu(userLang);
+
+					await context.message?.editText(startMessage, {
+						reply_markup: startKeyboard,
+					});
+					break;
+				}
+			}
+			return;
+		}
+
+		// --- Language selection handlers ---
+		if (data.startsWith("lang:set:")) {
+			const newLang = data.replace("lang:set:", "") as LanguageCode;
+			await context.answer();
+
+			if (!userId || !chatId) {
+				await context.answer({
+					text: t("en", "callbacks.pleaseStartFirst"),
+					show_alert: true,
+				});
+				return;
+			}
+
+			// Get user to update
+			const user = await findUserByChatId(chatId);
+			if (!user) {
+				await context.answer({
+					text: t("en", "callbacks.userNotFound"),
+					show_alert: true,
+				});
+				return;
+			}
+
+			// Update user's language
+			await updateUserLanguage(user.id, newLang);
+			const langName = LANGUAGE_NAMES[newLang];
+
+			logger.info("User changed language", {
+				chatId,
+				userId: user.id,
+				newLang,
+			});
+
+			// Show confirmation and return to start menu with new language
+			const { message: newMessage, keyboard: newKeyboard } =
+				buildStartMenu(newLang);
+
+			// Prepend the language changed confirmation
+			const confirmationMessage = `${t(newLang, "language.changed", { language: langName })}\n\n${newMessage}`;
+
+			await context.message?.editText(confirmationMessage, {
+				reply_markup: newKeyboard,
+			});
+			return;
+		}
+
+		// --- Bookmark handlers ---
+		if (data.startsWith("bookmark:")) {
+			const arxivId = data.replace("bookmark:", "");
+			await context.answer();
+
+			// In groups the paper goes to the group library, if the member may edit it
+			if (chatId && group) {
+				const userLang = await getUserLanguage(chatId);
+				const member = await ensureGroupMember(
+					{ id: chatId, title: group.title ?? undefined },
+					context.from,
+				);
+				const result = member
+					? await addGroupPaper(member, arxivId, userLang)
+					: { message: t(userLang, "callbacks.pleaseStartFirst") };
+				await context.answer({ text: result.message, show_alert: true });
+				return;
+			}
+
+			if (!userId) {
+				await context.answer({
+					text: t("en", "callbacks.pleaseStartFirst"),
+					show_alert: true,
+				});
+				return;
+			}
+
+			const paper = await fetchPaperByQualifiedId(arxivId);
+			if (!paper) {
+				await context.answer({
+					text: t("en", "callbacks.couldNotFetchPaper"),
+					show_alert: true,
+				});
+				return;
+			}
+
+			const user = chatId ? await findUserByChatId(chatId) : null;
+			const userLang = (user?.language as LanguageCode) || "en";
+			const bookmark = await addBookmark(userId, paper);
+			if (bookmark) {
+				await context.answer({
+					text: t(userLang, "bookmarks.added"),
+					show_alert: true,
+				});
+				// Update keyboard to show bookmarked state
+				// Note: editReplyMarkup has typing issues, skip for now
+			} else {
+				await context.answer({
+					text: t(userLang, "bookmarks.exists"),
+					show_alert: true,
+				});
+			}
+			return;
+		}
+
+		if (data.startsWith("unbookmark:")) {
+			const arxivId = data.replace("unbookmark:", "");
+			await context.answer();
+
+			if (chatId && group) {
+				const member = await ensureGroupMember(
+					{ id: chatId, title: group.title ?? undefined },
+					context.from,
+				);
+				if (member) {
+					const result = await removeGroupPaper(
+						member,
+						arxivId,
+						await getUserLanguage(chatId),
+					);
+					await context.answer({ text: result.message, show_alert: true });
+				}
+				return;
+			}
+
+			if (!userId) {
+				return;
+			}
+
+			const user = chatId ? await findUserByChatId(chatId) : null;
+			const userLang = (user?.language as LanguageCode) || "en";
+			const removed = await removeBookmark(userId, arxivId);
+			if (removed) {
+				await context.answer({
+					text: t(userLang, "bookmarks.removed"),
+					show_alert: true,
+				});
+				// Note: editReplyMarkup has typing issues, skip for now
+			}
+			return;
+		}
+
+		// --- Note editor ---
+		if (data.startsWith("note:")) {
+			const arxivId = data.replace("note:", "");
+			await context.answer();
+
+			if (!userId) {
+				await context.answer({
+					text: t("en", "callbacks.pleaseStartFirst"),
+					show_alert: true,
+				});
+				return;
+			}
+
+			const user = chatId ? await findUserByChatId(chatId) : null;
+			const userLang = (user?.language as LanguageCode) || "en";
+			const bookmark = await findUserBookmark(userId, arxivId);
+			if (!bookmark) {
+				await context.answer({
+					text: t(userLang, "notes.saveFirst"),
+					show_alert: true,
+				});
+				return;
+			}
+
+			const result = await runNoteEditor(
+				(text) => context.prompt("message", text),
+				bookmark,
+				userLang,
+			);
+			await context.message?.send(
+				await applyNoteEditorResult(bookmark, result, userLang),
+			);
+			return;
+		}
 
-					const { message: startMessage, keyboard: startKeyboard } =
-						buildStartMenu(userLang);
+		// --- Reading status ---
+		if (data.startsWith("status_menu:")) {
+			const arxivId = data.replace("status_menu:", "");
+			await context.answer();
 
-					await context.message?.editText(startMessage, {
-						reply_markup: startKeyboard,
-					});
-					break;
-				}
+			if (!userId) return;
+
+			const user = chatId ? await findUserByChatId(chatId) : null;
+			const userLang = (user?.language as LanguageCode) || "en";
+			const bookmark = await findUserBookmark(userId, arxivId);
+			if (!bookmark) {
+				await context.answer({
+					text: t(userLang, "reading.saveFirst"),
+					show_alert: true,
+				});
+				return;
 			}
+
+			await context.message?.send(
+				t(userLang, "reading.statusFor", { title: bookmark.title }),
+				{ reply_markup: createReadingStatusKeyboard(bookmark, userLang) },
+			);
 			return;
 		}
 
-		// --- Language selection handlers ---
-		if (data.startsWith("lang:set:")) {
-			const newLang = data.replace("lang:set:", "") as LanguageCode;
-			await context.answer();
+		if (data.startsWith("status_set:") || data.startsWith("rate_set:")) {
+			const [action = "", value = "", ...idParts] = data.split(":");
+			const arxivId = idParts.join(":");
 
-			if (!userId || !chatId) {
+			if (!userId || !arxivId) {
+				await context.answer();
+				return;
+			}
+
+			const user = chatId ? await findUserByChatId(chatId) : null;
+			const userLang = (user?.language as LanguageCode) || "en";
+			const bookmark = await findUserBookmark(userId, arxivId);
+			if (!bookmark) {
 				await context.answer({
-					text: t("en", "callbacks.pleaseStartFirst"),
+					text: t(userLang, "reading.saveFirst"),
 					show_alert: true,
 				});
 				return;
 			}
 
-			// Get user to update
-			const user = await findUserByChatId(chatId);
-			if (!user) {
+			let updated: Bookmark | null = null;
+			let confirmation = "";
+			if (action === "status_set") {
+				const status = parseReadingStatus(value);
+				updated = status ? await setReadingStatus(bookmark, status) : null;
+				confirmation = status ? getReadingStatusLabel(status, userLang) : "";
+			} else {
+				updated = await rateBookmark(bookmark, parseInt(value, 10));
+				confirmation = updated?.rating
+					? t(userLang, "reading.rated", { rating: updated.rating })
+					: t(userLang, "reading.ratingCleared");
+			}
+
+			if (!updated) {
 				await context.answer({
-					text: t("en", "callbacks.userNotFound"),
+					text: t(userLang, "reading.couldNotUpdate"),
 					show_alert: true,
 				});
 				return;
 			}
 
-			// Update user's language
-			await updateUserLanguage(user.id, newLang);
-			const langName = LANGUAGE_NAMES[newLang];
+			await context.answer({ text: confirmation });
+			try {
+				await context.message?.editReplyMarkup(
+					createReadingStatusKeyboard(updated, userLang),
+				);
+			} catch {
+				// Ignore edit errors (e.g. keyboard unchanged)
+			}
+			return;
+		}
 
-			logger.info("User changed language", {
-				chatId,
-				userId: user.id,
-				newLang,
-			});
+		if (data.startsWith("reading:")) {
+			const [, filter = "", sortCode = "", pageStr = ""] = data.split(":");
+			const status = filter === "all" ? undefined : parseReadingStatus(filter);
+			const sortBy = parseBookmarkSort(sortCode);
+			const page = parseInt(pageStr, 10);
+			await context.answer();
 
-			// Show confirmation and return to start menu with new language
-			const { message: newMessage, keyboard: newKeyboard } =
-				buildStartMenu(newLang);
+			if (
+				!userId ||
+				status === null ||
+				!sortBy ||
+				Number.isNaN(page) ||
+				page < 1
+			) {
+				return;
+			}
 
-			// Prepend the language changed confirmation
-			const confirmationMessage = `${t(newLang, "language.changed", { language: langName })}\n\n${newMessage}`;
+			const user = chatId ? await findUserByChatId(chatId) : null;
+			const userLang = (user?.language as LanguageCode) || "en";
+			const { bookmarks, hasMore } = await getBookmarksPaginated(
+				userId,
+				page,
+				READING_PAGE_SIZE,
+				{ status, sortBy },
+			);
+			const counts = await getReadingStatusCounts(userId);
+			const title = status
+				? getReadingStatusLabel(status, userLang)
+				: t(userLang, "reading.listTitle");
+			const message = format`${bold(title)}\n\n${formatReadingSummary(counts, userLang)}\n\n${formatBookmarksListMessage(bookmarks, (page - 1) * READING_PAGE_SIZE, userLang)}`;
 
-			await context.message?.editText(confirmationMessage, {
-				reply_markup: newKeyboard,
-			});
+			try {
+				await context.message?.editText(message, {
+					reply_markup: createReadingListKeyboard(
+						status,
+						sortBy,
+						page,
+						hasMore,
+						userLang,
+					),
+				});
+			} catch {
+				// Ignore edit errors
+			}
 			return;
 		}
 
-		// --- Bookmark handlers ---
-		if (data.startsWith("bookmark:")) {
-			const arxivId = data.replace("bookmark:", "");
+		// --- Collection handlers ---
+		if (data.startsWith("collect:")) {
+			const arxivId = data.replace("collect:", "");
 			await context.answer();
 
 			if (!userId) {
@@ -987,52 +2070,91 @@ ${t(userLang, "language.select")}
 				return;
 			}
 
-			const paper = await fetchPaperById(arxivId);
-			if (!paper) {
+			const user = chatId ? await findUserByChatId(chatId) : null;
+			const userLang = (user?.language as LanguageCode) || "en";
+			const collections = await getUserCollections(userId);
+			if (collections.length === 0) {
 				await context.answer({
-					text: t("en", "callbacks.couldNotFetchPaper"),
+					text: t(userLang, "collections.noCollections"),
 					show_alert: true,
 				});
 				return;
 			}
 
+			await context.message?.send(t(userLang, "collections.pick"), {
+				reply_markup: createCollectionPickerKeyboard(collections, arxivId),
+			});
+			return;
+		}
+
+		if (data.startsWith("collect_to:")) {
+			const [collectionIdStr, ...idParts] = data
+				.replace("collect_to:", "")
+				.split(":");
+			const collectionId = parseInt(collectionIdStr ?? "", 10);
+			const arxivId = idParts.join(":");
+
+			if (!userId || Number.isNaN(collectionId) || !arxivId) {
+				await context.answer();
+				return;
+			}
+
 			const user = chatId ? await findUserByChatId(chatId) : null;
 			const userLang = (user?.language as LanguageCode) || "en";
-			const bookmark = await addBookmark(userId, paper);
-			if (bookmark) {
+			const collection = await findCollectionById(collectionId);
+			if (!collection || collection.userId !== userId) {
 				await context.answer({
-					text: t(userLang, "bookmarks.added"),
+					text: t(userLang, "collections.missing"),
 					show_alert: true,
 				});
-				// Update keyboard to show bookmarked state
-				// Note: editReplyMarkup has typing issues, skip for now
-			} else {
+				return;
+			}
+
+			// File the paper, bookmarking it first if needed
+			let bookmark = await findUserBookmark(userId, arxivId);
+			if (!bookmark) {
+				const paper = await fetchPaperByQualifiedId(arxivId);
+				bookmark = paper ? await addBookmark(userId, paper) : null;
+			}
+			if (!bookmark) {
 				await context.answer({
-					text: t(userLang, "bookmarks.exists"),
+					text: t(userLang, "callbacks.couldNotFetchPaper"),
 					show_alert: true,
 				});
+				return;
 			}
+
+			const result = await fileBookmark(userId, bookmark, collection, userLang);
+			await context.answer({ text: result.message, show_alert: true });
 			return;
 		}
 
-		if (data.startsWith("unbookmark:")) {
-			const arxivId = data.replace("unbookmark:", "");
+		if (data.startsWith("collection:show:")) {
+			const collectionId = parseInt(data.replace("collection:show:", ""), 10);
 			await context.answer();
 
-			if (!userId) {
-				return;
-			}
+			if (!userId || Number.isNaN(collectionId)) return;
+
+			const collection = await findCollectionById(collectionId);
+			if (!collection || collection.userId !== userId) return;
 
 			const user = chatId ? await findUserByChatId(chatId) : null;
 			const userLang = (user?.language as LanguageCode) || "en";
-			const removed = await removeBookmark(userId, arxivId);
-			if (removed) {
-				await context.answer({
-					text: t(userLang, "bookmarks.removed"),
-					show_alert: true,
-				});
-				// Note: editReplyMarkup has typing issues, skip for now
+			const bookmarks = await getCollectionBookmarks(collection.id, {
+				limit: 10,
+			});
+
+			if (bookmarks.length === 0) {
+				await context.message?.send(
+					t(userLang, "collections.empty", { name: collection.name }),
+				);
+				return;
 			}
+
+			await context.message?.send(
+				format`${bold`📁 ${collection.name}`}\n\n${formatBookmarksListMessage(bookmarks, 0, userLang)}`,
+				{ reply_markup: createCollectionExportKeyboard(collection.id) },
+			);
 			return;
 		}
 
@@ -1041,12 +2163,12 @@ ${t(userLang, "language.select")}
 			const page = parseInt(data.replace("bookmarks:page:", ""), 10);
 			await context.answer();
 
-			if (!userId || Number.isNaN(page)) return;
+			if (!libraryUserId || Number.isNaN(page)) return;
 
 			const user = chatId ? await findUserByChatId(chatId) : null;
 			const userLang = (user?.language as LanguageCode) || "en";
 			const { bookmarks, total, hasMore } = await getBookmarksPaginated(
-				userId,
+				libraryUserId,
 				page,
 				5,
 			);
@@ -1214,7 +2336,7 @@ ${t(userLang, "language.select")}
 
 			const user = chatId ? await findUserByChatId(chatId) : null;
 			const userLang = (user?.language as LanguageCode) || "en";
-			const paper = await fetchPaperById(arxivId);
+			const paper = await fetchPaperByQualifiedId(arxivId);
 			if (!paper) {
 				await context.message?.send(t(userLang, "errors.couldNotFetch"));
 				return;
@@ -1257,7 +2379,7 @@ ${paper.summary}
 
 			const user = chatId ? await findUserByChatId(chatId) : null;
 			const userLang = (user?.language as LanguageCode) || "en";
-			const paper = await fetchPaperById(arxivId);
+			const paper = await fetchPaperByQualifiedId(arxivId);
 			if (!paper) {
 				await context.message?.send(t(userLang, "errors.couldNotFetch"));
 				return;
@@ -1288,6 +2410,12 @@ ${paper.summary}
 			return;
 		}
 
+		if (data === "action:follow_author") {
+			await context.answer();
+			await context.message?.send(getFollowUsage());
+			return;
+		}
+
 		if (data === "action:subscriptions") {
 			await context.answer();
 			if (!userId) {
@@ -1307,6 +2435,7 @@ ${paper.summary}
 						t(userLang, "subscriptions.addSubscription"),
 						"action:add_subscription",
 					)
+					.text("👤 Follow Author", "action:follow_author")
 					.row()
 					.text(t(userLang, "buttons.searchPapers"), "action:search");
 
@@ -1316,7 +2445,10 @@ ${paper.summary}
 			} else {
 				const user = chatId ? await findUserByChatId(chatId) : null;
 				const userLang = (user?.language as LanguageCode) || "en";
-				const subscriptionsList = formatSubscriptionsMessage(subscriptions);
+				const subscriptionsList = formatSubscriptionsMessage(
+					subscriptions,
+					user,
+				);
 				const keyboard = createSubscriptionsKeyboard(subscriptions);
 				await context.message?.send(
 					format`${bold(t(userLang, "ui.yourSubscriptions"))}\n\n${subscriptionsList}\n\n${t(userLang, "ui.tapToManage")}`,
@@ -1326,11 +2458,148 @@ ${paper.summary}
 			return;
 		}
 
+		// --- Admin broadcasts ---
+		if (data.startsWith("broadcast:")) {
+			const [, action = "", idPart = ""] = data.split(":");
+			const broadcastId = parseInt(idPart, 10);
+			const messageId = context.message?.id;
+
+			if (!chatId || !isAdmin(chatId) || Number.isNaN(broadcastId)) {
+				await context.answer();
+				return;
+			}
+
+			const user = await findUserByChatId(chatId);
+			const userLang = (user?.language as LanguageCode) || "en";
+			const broadcast = await findBroadcastById(broadcastId);
+			if (!broadcast) {
+				await context.answer({ text: t(userLang, "admin.broadcastNotFound") });
+				return;
+			}
+
+			if (action === "send") {
+				const recipients = await getAudienceChatIds(
+					getBroadcastAudience(broadcast),
+				);
+				const started = messageId
+					? await confirmBroadcast(broadcastId, recipients.length, messageId)
+					: null;
+				if (!started) {
+					await context.answer({
+						text: t(userLang, "admin.broadcastAlreadySent"),
+					});
+					return;
+				}
+
+				await context.answer({ text: t(userLang, "admin.broadcastSending") });
+				logAdminAction(chatId, "broadcast", {
+					broadcastId,
+					recipients: recipients.length,
+				});
+
+				// Not awaited: a large broadcast takes far longer than an update may.
+				// Progress is saved after every batch, so if this process stops
+				// the worker carries the broadcast on (see resumeBroadcasts).
+				runBroadcast(bot, started).catch((error) => {
+					logger.error("Error sending broadcast", {
+						broadcastId,
+						error: getErrorMessage(error),
+					});
+				});
+				return;
+			}
+
+			if (action === "cancel") {
+				const cancelled = await cancelBroadcast(broadcastId);
+				await context.answer({
+					text: t(
+						userLang,
+						cancelled ? "admin.broadcastCancelled" : "admin.broadcastFinished",
+					),
+				});
+				if (!cancelled) return;
+
+				logAdminAction(chatId, "cancel_broadcast", { broadcastId });
+				// A running broadcast updates its own status message when it stops
+				if (broadcast.status === "draft") {
+					try {
+						await context.message?.editText(
+							formatBroadcastStatus(
+								{ ...broadcast, status: "cancelled" },
+								userLang,
+							),
+						);
+					} catch {
+						// Ignore edit errors
+					}
+				}
+				return;
+			}
+
+			await context.answer();
+			return;
+		}
+
+		// --- Merged digest pages ---
+		if (data.startsWith("digest:")) {
+			const [, idPart = "", pagePart = ""] = data.split(":");
+			const digestId = parseInt(idPart, 10);
+			const page = parseInt(pagePart, 10);
+			await context.answer();
+
+			if (!libraryUserId || Number.isNaN(digestId) || Number.isNaN(page)) {
+				return;
+			}
+
+			const digest = await findDigestById(digestId);
+			if (!digest || digest.userId !== libraryUserId) {
+				const user = chatId ? await findUserByChatId(chatId) : null;
+				const userLang = (user?.language as LanguageCode) || "en";
+				await context.message?.send(t(userLang, "digest.unavailable"));
+				return;
+			}
+
+			const pages = getDigestPages(digest);
+			const current = pages[page];
+			if (!current) return;
+
+			try {
+				await context.message?.editText(current.text, {
+					parse_mode: "MarkdownV2",
+					reply_markup: createDigestKeyboard(digest.id, page, pages),
+					link_preview_options: { is_disabled: true },
+				});
+			} catch {
+				// Ignore edit errors (e.g. the current page was tapped)
+			}
+			return;
+		}
+
 		if (data.startsWith("unsub:")) {
 			const subscriptionId = parseInt(data.replace("unsub:", ""), 10);
-			await context.answer();
 
-			if (!userId || Number.isNaN(subscriptionId)) return;
+			if (!libraryUserId || Number.isNaN(subscriptionId)) {
+				await context.answer();
+				return;
+			}
+
+			if (chatId && group) {
+				const member = await ensureGroupMember(
+					{ id: chatId, title: group.title ?? undefined },
+					context.from,
+				);
+				if (!member || !canEditGroupLibrary(member)) {
+					const user = await findUserByChatId(chatId);
+					const userLang = (user?.language as LanguageCode) || "en";
+					await context.answer({
+						text: t(userLang, "groups.adminsOnlySubscriptions"),
+						show_alert: true,
+					});
+					return;
+				}
+			}
+
+			await context.answer();
 
 			const subscription = await getSubscriptionById(subscriptionId);
 			if (!subscription) {
@@ -1341,14 +2610,18 @@ ${paper.summary}
 				return;
 			}
 
-			const result = await unsubscribe(userId, subscription.topic);
+			const result =
+				subscription.kind === "author"
+					? await unfollowAuthor(libraryUserId, subscription.topic)
+					: await unsubscribe(libraryUserId, subscription.topic);
 			await context.answer({
 				text: result.message,
 				show_alert: true,
 			});
 
 			// Refresh the subscriptions list
-			const { subscriptions, count } = await getSubscriptionsList(userId);
+			const { subscriptions, count } =
+				await getSubscriptionsList(libraryUserId);
 			if (count === 0) {
 				try {
 					const user = chatId ? await findUserByChatId(chatId) : null;
@@ -1372,7 +2645,10 @@ ${paper.summary}
 				try {
 					const user = chatId ? await findUserByChatId(chatId) : null;
 					const userLang = (user?.language as LanguageCode) || "en";
-					const subscriptionsList = formatSubscriptionsMessage(subscriptions);
+					const subscriptionsList = formatSubscriptionsMessage(
+						subscriptions,
+						user,
+					);
 					await context.message?.editText(
 						format`${bold(t(userLang, "ui.yourSubscriptions"))}\n\n${subscriptionsList}\n\n${t(userLang, "ui.tapToManage")}`,
 						{
@@ -1403,7 +2679,7 @@ ${paper.summary}
 
 			const user = chatId ? await findUserByChatId(chatId) : null;
 			const userLang = (user?.language as LanguageCode) || "en";
-			const message = `${t(userLang, "subscriptions.settings")}\n\n${t(userLang, "subscriptions.topic")}: ${subscription.topic}\n⏱️ ${t(userLang, "subscriptions.interval")}: ${subscription.intervalHours || 24} ${t(userLang, "time.hours")}\n${t(userLang, "subscriptions.category")}: ${subscription.category || "All"}`;
+			const message = `${t(userLang, "subscriptions.settings")}\n\n${t(userLang, "subscriptions.topic")}: ${subscription.topic}\n⏱️ ${t(userLang, "subscriptions.interval")}: ${getScheduleLabel(subscription)}\n${t(userLang, "subscriptions.category")}: ${subscription.category || "All"}`;
 
 			try {
 				await context.message?.editText(message, {
@@ -1439,6 +2715,7 @@ ${paper.summary}
 						reply_markup: createIntervalKeyboard(
 							subscriptionId,
 							subscription.intervalHours ?? 24,
+							subscription.scheduleType,
 						),
 					},
 				);
@@ -1483,6 +2760,39 @@ ${paper.summary}
 			return;
 		}
 
+		if (data.startsWith("sub_schedule:")) {
+			const [id = "", scheduleType] = data
+				.replace("sub_schedule:", "")
+				.split(":");
+			const subscriptionId = parseInt(id, 10);
+			await context.answer();
+
+			if (
+				Number.isNaN(subscriptionId) ||
+				(scheduleType !== "daily" && scheduleType !== "weekly")
+			) {
+				return;
+			}
+
+			const updated = await updateSchedule(subscriptionId, { scheduleType });
+			if (updated) {
+				const user = chatId ? await findUserByChatId(chatId) : null;
+				const userLang = (user?.language as LanguageCode) || "en";
+
+				try {
+					await context.message?.editText(
+						`${t(userLang, "ui.settingsHeader")}\n\n${t(userLang, "subscriptions.topic")}: ${updated.topic}\n${t(userLang, "ui.intervalLabel")}: ${getScheduleLabel(updated)}\n${t(userLang, "ui.categoryLabel")}: ${updated.category || "All"}\n\nTimes are in your timezone; change it with /timezone.`,
+						{
+							reply_markup: createSubscriptionSettingsKeyboard(updated),
+						},
+					);
+				} catch {
+					// Ignore edit errors
+				}
+			}
+			return;
+		}
+
 		// --- Similar papers handler ---
 		if (data.startsWith("similar:")) {
 			const arxivId = data.replace("similar:", "");
@@ -1515,7 +2825,10 @@ ${paper.summary}
 
 		// --- Export format handlers ---
 		if (data.startsWith("export:")) {
-			const exportType = data.replace("export:", "");
+			// export:<format> or export:<format>:<collectionId>
+			const [exportType = "", collectionParam] = data
+				.replace("export:", "")
+				.split(":");
 			await context.answer();
 
 			if (exportType === "cancel") {
@@ -1534,32 +2847,54 @@ ${paper.summary}
 				return;
 			}
 
-			if (!userId || !chatId) {
+			if (!libraryUserId || !chatId) {
 				const user = chatId ? await findUserByChatId(chatId) : null;
 				const userLang = (user?.language as LanguageCode) || "en";
 				await context.message?.send(t(userLang, "commands.export"));
 				return;
 			}
 
+			// Restrict the export to one of the user's collections
+			let collectionId: number | undefined;
+			let filePrefix = "bookmarks";
+			if (collectionParam) {
+				const collection = await findCollectionById(
+					parseInt(collectionParam, 10),
+				);
+				if (!collection || collection.userId !== libraryUserId) {
+					const user = await findUserByChatId(chatId);
+					const userLang = (user?.language as LanguageCode) || "en";
+					await context.message?.send(t(userLang, "collections.missing"));
+					return;
+				}
+				collectionId = collection.id;
+				filePrefix =
+					collection.name.replace(/[^\p{L}\p{N}_-]+/gu, "_") || "collection";
+			}
+
 			// Generate export content based on format
-			let content: string;
-			let filename: string;
+			if (!isExportFormat(exportType)) {
+				const user = chatId ? await findUserByChatId(chatId) : null;
+				const userLang = (user?.language as LanguageCode) || "en";
+				await context.message?.send(t(userLang, "errors.invalidExportFormat"));
+				return;
+			}
+
+			const exportFormat = exportType;
+			const content = await exportAllBookmarks(
+				libraryUserId,
+				exportFormat,
+				collectionId,
+			);
+			const filename = `${filePrefix}_${Date.now()}${getExportExtension(exportFormat)}`;
 			let preview: string;
-			const exportFormat = exportType as "bibtex" | "csv";
 
 			if (exportFormat === "bibtex") {
-				content = await exportAllBookmarksToBibTeX(userId);
-				filename = `bookmarks_${Date.now()}${getExportExtension("bibtex")}`;
 				preview = formatBibTeXPreview(content, 2);
 			} else if (exportFormat === "csv") {
-				content = await exportAllBookmarksToCSV(userId);
-				filename = `bookmarks_${Date.now()}${getExportExtension("csv")}`;
-				preview = await formatCSVTablePreview(userId, 5);
+				preview = await formatCSVTablePreview(libraryUserId, 5, collectionId);
 			} else {
-				const user = chatId ? await findUserByChatId(chatId) : null;
-				const userLang = (user?.language as LanguageCode) || "en";
-				await context.message?.send(t(userLang, "errors.invalidExportFormat"));
-				return;
+				preview = formatExportPreview(content);
 			}
 
 			if (!content) {
@@ -1575,7 +2910,9 @@ ${paper.summary}
 			const formatName =
 				exportFormat === "bibtex"
 					? t(userLang, "ui.bibtexFormat")
-					: t(userLang, "ui.csvFormat");
+					: exportFormat === "csv"
+						? t(userLang, "ui.csvFormat")
+						: EXPORT_FORMAT_LABELS[exportFormat];
 			try {
 				await context.message?.editText(
 					t(userLang, "ui.exportPreparing", { format: formatName }),
@@ -1596,7 +2933,9 @@ ${paper.summary}
 				const captionText =
 					exportFormat === "bibtex"
 						? `📄 ${t(userLang, "ui.bibtexFormat")} Export\n\n${preview}`
-						: `📊 ${t(userLang, "ui.csvFormat")} Export\n\n${preview}`;
+						: exportFormat === "csv"
+							? `📊 ${t(userLang, "ui.csvFormat")} Export\n\n${preview}`
+							: `${EXPORT_FORMAT_LABELS[exportFormat]} Export\n\n${preview}`;
 
 				// Truncate caption if too long (Telegram limit is 1024 chars)
 				const truncatedCaption =
@@ -1604,12 +2943,17 @@ ${paper.summary}
 						? `${captionText.substring(0, 997)}...`
 						: captionText;
 
-				await bot.api.sendDocument({
-					chat_id: chatId,
-					document: file,
-					caption: truncatedCaption,
-					parse_mode: "Markdown",
-				});
+				await outbound.send(
+					chatId,
+					() =>
+						bot.api.sendDocument({
+							chat_id: chatId,
+							document: file,
+							caption: truncatedCaption,
+							parse_mode: "Markdown",
+						}),
+					"high",
+				);
 
 				// Update original message to confirm success
 				try {
@@ -1629,8 +2973,9 @@ ${paper.summary}
 				}
 
 				logger.info("Export sent as document", {
-					userId,
+					userId: libraryUserId,
 					format: exportFormat,
+					collectionId,
 					filename,
 					size: fileBuffer.length,
 				});
@@ -1643,8 +2988,8 @@ ${paper.summary}
 				// Fallback: send preview as message with content as code block for BibTeX
 				// or as plain text for CSV
 				try {
-					if (exportFormat === "bibtex") {
-						// For BibTeX, show as code block
+					if (exportFormat !== "csv") {
+						// For BibTeX and the other text formats, show as code block
 						const maxLength = 3500;
 						const truncated = content.length > maxLength;
 						const displayContent = truncated
@@ -1652,7 +2997,7 @@ ${paper.summary}
 							: content;
 
 						await context.message?.editText(
-							`📄 ${bold`${t(userLang, "ui.bibtexFormat")} Export`}\n\nCopy the content below:\n\n\`\`\`\n${displayContent}\n\`\`\``,
+							`📄 ${bold`${formatName} Export`}\n\nCopy the content below:\n\n\`\`\`\n${displayContent}\n\`\`\``,
 							{
 								parse_mode: "Markdown",
 								reply_markup: new InlineKeyboard().text(
@@ -1703,8 +3048,9 @@ ${paper.summary}
 
 	.command("search", async (context) => {
 		// Rate limit check for search (more strict)
-		if (!checkRateLimit(context.chatId, { maxRequests: 20, windowMs: 60000 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "search");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		// Ensure user exists
@@ -1714,10 +3060,23 @@ ${paper.summary}
 			lastName: context.from?.lastName,
 		});
 
-		let topic = context.args ?? "";
-
 		const userLang = await getUserLanguage(context.chatId);
 
+		// Extract optional "--source <name>" and "--since <7d|YYYY-MM-DD>" flags
+		const sourceOption = parseSourceOption(context.args ?? "");
+		if (sourceOption.unknownSource) {
+			return context.send(
+				formatUnknownSourceMessage(sourceOption.unknownSource),
+			);
+		}
+		const sinceOption = parseSinceOption(sourceOption.text);
+		if (sinceOption.invalidSince) {
+			return context.send(formatInvalidSinceMessage(sinceOption.invalidSince));
+		}
+		const source = sourceOption.source ?? DEFAULT_SOURCE;
+		const { submittedAfter } = sinceOption;
+		let topic = sinceOption.text;
+
 		// If no topic provided, ask the user interactively
 		if (!topic) {
 			const answer = await context.prompt(
@@ -1738,18 +3097,41 @@ ${paper.summary}
 			topic = topic.substring(0, 200);
 		}
 
+		// Validate boolean query syntax before hitting the API
+		try {
+			if (source === DEFAULT_SOURCE) {
+				toArxivSearchQuery(topic);
+			}
+		} catch (error) {
+			if (isValidationError(error)) {
+				return context.send(
+					`${t(userLang, "search.invalidQuery", { error: error.message })}\n\n${t(userLang, "search.queryExample")}`,
+				);
+			}
+			throw error;
+		}
+
 		logger.info("User searching for papers", {
 			chatId: context.chatId,
 			topic,
+			source,
+			submittedAfter: submittedAfter?.toISOString(),
 		});
 
 		// Save session data for "Load More"
 		context.research_session.lastTopic = topic;
 		context.research_session.lastOffset = 0;
+		context.research_session.lastSource = source;
+		context.research_session.lastSubmittedAfter = submittedAfter?.toISOString();
 
 		await context.send(t(userLang, "search.searching"));
 
-		const papers = await fetchPapers(topic);
+		const papers = await fetchPapersFromSource(
+			topic,
+			source,
+			0,
+			submittedAfter,
+		);
 
 		// Record search in history
 		if (userId) {
@@ -1774,8 +3156,9 @@ ${paper.summary}
 
 	.command("more", async (context) => {
 		// Rate limit check
-		if (!checkRateLimit(context.chatId, { maxRequests: 20, windowMs: 60000 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "more");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
@@ -1795,7 +3178,12 @@ ${paper.summary}
 
 		await context.send(t(userLang, "search.loadingMore", { topic }));
 
-		const papers = await fetchPapers(topic, nextOffset);
+		const papers = await fetchPapersFromSource(
+			topic,
+			context.research_session.lastSource,
+			nextOffset,
+			getSessionSubmittedAfter(context.research_session),
+		);
 
 		if (!papers.length) {
 			return context.send(t(userLang, "search.noMorePapers"));
@@ -1814,17 +3202,30 @@ ${paper.summary}
 	// --- SUBSCRIBE COMMAND ---
 
 	.command("subscribe", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "subscribe");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
-		const userId = await ensureUser(context.chatId, context.research_session, {
-			username: context.from?.username,
-			firstName: context.from?.firstName,
-			lastName: context.from?.lastName,
-		});
-
 		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			// Group subscriptions are owned by the group, so the digest is posted once to the chat
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session, {
+				username: context.from?.username,
+				firstName: context.from?.firstName,
+				lastName: context.from?.lastName,
+			});
+		}
+
 		if (!userId) {
 			return context.send(t(userLang, "errors.couldNotProcess"));
 		}
@@ -1839,13 +3240,39 @@ ${paper.summary}
 			topicArg = answer.text || "";
 		}
 
-		const { topic, category } = parseSubscribeArgs(topicArg);
+		const {
+			topic,
+			category,
+			source,
+			unknownSource,
+			submittedAfter,
+			invalidSince,
+			schedule,
+			invalidSchedule,
+		} = parseSubscribeArgs(topicArg);
+
+		if (unknownSource) {
+			return context.send(formatUnknownSourceMessage(unknownSource));
+		}
+
+		if (invalidSince) {
+			return context.send(formatInvalidSinceMessage(invalidSince));
+		}
+
+		if (invalidSchedule) {
+			return context.send(formatInvalidScheduleMessage(invalidSchedule));
+		}
 
 		if (!topic) {
 			return context.send(t(userLang, "subscriptions.prompt"));
 		}
 
-		const result = await subscribe(userId, topic, { category });
+		const result = await subscribe(
+			userId,
+			topic,
+			{ category, source, submittedAfter, schedule },
+			userLang,
+		);
 
 		return context.send(result.message);
 	})
@@ -1853,12 +3280,24 @@ ${paper.summary}
 	// --- UNSUBSCRIBE COMMAND ---
 
 	.command("unsubscribe", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "unsubscribe");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
-		const userId = await ensureUser(context.chatId, context.research_session);
 		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
 		if (!userId) {
 			return context.send(t(userLang, "errors.couldNotProcess"));
 		}
@@ -1882,14 +3321,108 @@ ${paper.summary}
 		return context.send(result.message);
 	})
 
+	// --- FOLLOW AUTHOR COMMAND ---
+
+	.command("follow", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "follow");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session, {
+				username: context.from?.username,
+				firstName: context.from?.firstName,
+				lastName: context.from?.lastName,
+			});
+		}
+
+		if (!userId) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const { name, category, coAuthor, schedule, invalidSchedule } =
+			parseFollowArgs(context.args ?? "");
+
+		if (invalidSchedule) {
+			return context.send(formatInvalidScheduleMessage(invalidSchedule));
+		}
+
+		if (!name) {
+			return context.send(getFollowUsage());
+		}
+
+		const result = await followAuthor(userId, name, {
+			category,
+			coAuthor,
+			schedule,
+		});
+		return context.send(result.message);
+	})
+
+	// --- UNFOLLOW AUTHOR COMMAND ---
+
+	.command("unfollow", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "unfollow");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
+		if (!userId) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const name = context.args?.trim();
+		if (!name) {
+			// Author follows are listed with topic subscriptions
+			const { subscriptions, count } = await getSubscriptionsList(userId);
+			if (count === 0) {
+				return context.send(t(userLang, "subscriptions.noSubscriptions"));
+			}
+
+			return context.send(t(userLang, "subscriptions.selectToRemove"), {
+				reply_markup: createSubscriptionsKeyboard(subscriptions),
+			});
+		}
+
+		const result = await unfollowAuthor(userId, name);
+		return context.send(result.message);
+	})
+
 	// --- SUBSCRIPTIONS COMMAND ---
 
 	.command("subscriptions", async (context) => {
-		if (!checkRateLimit(context.chatId)) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "subscriptions");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
-		const userId = await ensureUser(context.chatId, context.research_session);
+		const userId = isGroupChat(context.chat.type)
+			? (await ensureGroupMember(context.chat, context.from))?.group.userId
+			: await ensureUser(context.chatId, context.research_session);
 		const userLang = await getUserLanguage(context.chatId);
 		if (!userId) {
 			return context.send(t(userLang, "errors.couldNotProcess"));
@@ -1910,7 +3443,8 @@ ${paper.summary}
 			});
 		}
 
-		const subscriptionsList = formatSubscriptionsMessage(subscriptions);
+		const owner = await findUserById(userId);
+		const subscriptionsList = formatSubscriptionsMessage(subscriptions, owner);
 		const subsKeyboard = createSubscriptionsKeyboard(subscriptions);
 		return context.send(
 			format`${bold(t(userLang, "ui.yourSubscriptions"))}\n\n${subscriptionsList}\n\n${t(userLang, "ui.tapToManage")}`,
@@ -1918,18 +3452,252 @@ ${paper.summary}
 		);
 	})
 
+	// --- DELIVERY SETTINGS COMMANDS ---
+
+	.command("timezone", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "timezone");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
+		if (!userId) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const timezone = context.args?.trim();
+		if (!timezone) {
+			const user = await findUserById(userId);
+			return context.send(
+				`🕒 Your timezone: ${user?.timezone || "UTC"}\n\nDaily and weekly updates are delivered at this local time.\nChange it with /timezone <name>, e.g. /timezone Europe/Berlin`,
+			);
+		}
+
+		const result = await setTimezone(userId, timezone);
+		return context.send(result.message);
+	})
+
+	.command("quiet", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "quiet");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
+		if (!userId) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const args = context.args?.trim() ?? "";
+		const quietHours = args ? parseQuietHours(args) : null;
+		if (!quietHours) {
+			const user = await findUserById(userId);
+			const current =
+				user?.quietHoursStart && user.quietHoursEnd
+					? `${user.quietHoursStart}-${user.quietHoursEnd} (${user.timezone || "UTC"})`
+					: "off";
+			return context.send(
+				`${args ? `❌ Invalid quiet hours "${args}".\n\n` : ""}🌙 Quiet hours: ${current}\n\nNo updates are sent during quiet hours.\nUsage: /quiet 22:00-07:00 or /quiet off`,
+			);
+		}
+
+		const result = await setQuietHours(userId, quietHours);
+		return context.send(result.message);
+	})
+
+	.command("digest", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "digest");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
+		if (!userId) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const mode = context.args?.trim().toLowerCase();
+		if (mode !== "merged" && mode !== "separate") {
+			const user = await findUserById(userId);
+			const usage = getDigestUsage(user?.mergedDigest ?? false, userLang);
+			return context.send(
+				mode
+					? `${t(userLang, "digest.unknownMode", { mode })}\n\n${usage}`
+					: usage,
+			);
+		}
+
+		const result = await setMergedDigest(userId, mode === "merged", userLang);
+		return context.send(result.message);
+	})
+
+	.command("feed", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "feed");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+
+		let userId: number | null;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			if (group && !canEditGroupLibrary(group)) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
+		const user = userId ? await findUserById(userId) : null;
+		if (!user) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const action = context.args?.trim().toLowerCase() ?? "";
+		if (action && action !== "reset" && action !== "off") {
+			return context.send(
+				`${t(userLang, "delivery.unknownOption", { option: action })}\n\n${getFeedUsage(userLang)}`,
+			);
+		}
+
+		const result =
+			action === "off"
+				? await disableFeed(user.id, userLang)
+				: await enableFeed(user, action === "reset", userLang);
+		return context.send(result.message, {
+			link_preview_options: { is_disabled: true },
+		});
+	})
+
+	.command("email", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "email");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+
+		// Addresses are personal, so they are never set up in a group
+		if (isGroupChat(context.chat.type)) {
+			return context.send(t(userLang, "delivery.emailPrivateOnly"));
+		}
+
+		const userId = await ensureUser(context.chatId, context.research_session);
+		const user = userId ? await findUserById(userId) : null;
+		if (!user) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const [action = "", ...rest] = (context.args?.trim() ?? "").split(/\s+/);
+		switch (action.toLowerCase()) {
+			case "":
+				return context.send(getEmailUsage(user.email, userLang));
+			case "off":
+				return context.send((await removeEmail(user.id, userLang)).message);
+			case "verify":
+				return context.send(
+					(await confirmEmail(user, rest.join(""), userLang)).message,
+				);
+			default:
+				return context.send(
+					(await startEmailVerification(user, action, userLang)).message,
+				);
+		}
+	})
+
+	// --- FOR YOU COMMAND ---
+
+	.command("foryou", async (context) => {
+		const rateLimit = await checkRateLimit(context.chatId, "foryou");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
+		}
+
+		let userId: number | null;
+		let canEdit = true;
+
+		if (isGroupChat(context.chat.type)) {
+			const group = await ensureGroupMember(context.chat, context.from);
+			canEdit = !group || canEditGroupLibrary(group);
+			userId = group?.group.userId ?? null;
+		} else {
+			userId = await ensureUser(context.chatId, context.research_session);
+		}
+		const userLang = await getUserLanguage(context.chatId);
+		if (!userId) {
+			return context.send(t(userLang, "errors.couldNotProcess"));
+		}
+
+		const [option, value] = (context.args?.trim().toLowerCase() ?? "").split(
+			/\s+/,
+		);
+		if (option === "weekly" && (value === "on" || value === "off")) {
+			if (!canEdit) {
+				return context.send(t(userLang, "groups.adminsOnlySubscriptions"));
+			}
+			const result = await setForYouWeekly(userId, value === "on", userLang);
+			return context.send(result.message);
+		}
+		if (option) {
+			return context.send(getForYouUsage(userLang));
+		}
+
+		await context.send(t(userLang, "forYou.finding"));
+		const reply = await buildForYouReply(userId, userLang);
+		return context.send(reply.text, { reply_markup: reply.keyboard });
+	})
+
 	// --- SIMILAR PAPERS COMMAND ---
 
 	.command("similar", async (context) => {
-		if (!checkRateLimit(context.chatId, { maxRequests: 15, windowMs: 60000 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "similar");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		const userLang = await getUserLanguage(context.chatId);
-		const arxivId = context.args?.[0];
+		const [arxivId, ...flags] = (context.args?.trim() ?? "").split(/\s+/);
 		if (!arxivId) {
 			return context.send(
-				`${t(userLang, "similar.usage")}\n${t(userLang, "similar.example")}\n\n${t(userLang, "similar.hint")}`,
+				`${t(userLang, "similar.usage")}\n${t(userLang, "similar.example")}\n\n${t(userLang, "similar.hint")}\n\n${t(userLang, "similar.primaryHint")}`,
 			);
 		}
 
@@ -1937,6 +3705,7 @@ ${paper.summary}
 
 		const similarPapers = await getSimilarPapersById(arxivId, {
 			maxResults: 5,
+			primaryCategoryOnly: flags.includes("--primary"),
 		});
 
 		if (similarPapers === null) {
@@ -1964,8 +3733,9 @@ ${paper.summary}
 			return; // Silently ignore for non-admins
 		}
 
-		if (!checkRateLimit(context.chatId, { maxRequests: 60 })) {
-			return context.send(formatRateLimitMessage(context.chatId));
+		const rateLimit = await checkRateLimit(context.chatId, "admin_stats");
+		if (!rateLimit.allowed) {
+			return context.send(formatRateLimitMessage(rateLimit));
 		}
 
 		logAdminAction(context.chatId, "view_stats");
@@ -1982,6 +3752,129 @@ ${paper.summary}
 		return context.send(stats, { parse_mode: "Markdown" });
 	})
 
+	// --- ADMIN JOB QUEUE COMMANDS ---
+
+	.command("admin_jobs", async (context) => {
+		if (!isAdmin(context.chatId)) {
+			return; // Silently ignore for non-admins
+		}
+
+		logAdminAction(context.chatId, "view_jobs");
+
+		const [counts, deadJobs] = await Promise.all([
+			getJobCounts(),
+			getJobsByState("dead", 10),
+		]);
+		return context.send(formatJobStatus(counts, deadJobs));
+	})
+
+	.command("admin_retry", async (context) => {
+		if (!isAdmin(context.chatId)) {
+			return; // Silently ignore for non-admins
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		const arg = context.args?.trim().toLowerCase() ?? "";
+		const id = Number.parseInt(arg, 10);
+		if (arg !== "all" && (Number.isNaN(id) || id < 1)) {
+			return context.send(t(userLang, "admin.retryUsage"));
+		}
+
+		const retried = await retryDeadJobs(arg === "all" ? undefined : id);
+		logAdminAction(context.chatId, "retry_jobs", { job: arg, retried });
+
+		if (retried === 0) {
+			return context.send(t(userLang, "admin.nothingToRetry"));
+		}
+		return context.send(
+			retried === 1
+				? t(userLang, "admin.retriedOne")
+				: t(userLang, "admin.retried", { count: retried }),
+		);
+	})
+
+	// --- ADMIN BROADCAST COMMAND ---
+
+	.command("broadcast", async (context) => {
+		if (!isAdmin(context.chatId)) {
+			return; // Silently ignore for non-admins
+		}
+
+		const userLang = await getUserLanguage(context.chatId);
+		const args = context.args?.trim() ?? "";
+		if (!args) {
+			return context.send(t(userLang, "admin.broadcastUsage"));
+		}
+		if (args.toLowerCase() === "history") {
+			logAdminAction(context.chatId, "view_broadcasts");
+			return context.send(
+				formatBroadcastHistory(await getRecentBroadcasts(), userLang),
+			);
+		}
+
+		const parsed = parseBroadcastArgs(args, userLang);
+		if ("error" in parsed) {
+			return context.send(
+				`❌ ${parsed.error}\n\n${t(userLang, "admin.broadcastUsage")}`,
+			);
+		}
+
+		const audience = describeAudience(parsed.audience, userLang);
+		const recipients = await getAudienceChatIds(parsed.audience);
+		if (recipients.length === 0) {
+			return context.send(
+				t(userLang, "admin.broadcastNoRecipients", { audience }),
+			);
+		}
+
+		const broadcast = await createBroadcast({
+			adminChatId: context.chatId,
+			message: parsed.message,
+			audience: parsed.audience,
+			total: recipients.length,
+		});
+		if (!broadcast) {
+			return context.send(t(userLang, "admin.broadcastSaveFailed"));
+		}
+
+		// The preview is sent exactly as users will get it, which also
+		// catches Markdown that Telegram cannot parse
+		try {
+			await context.send(formatAnnouncement(parsed.message), {
+				parse_mode: "Markdown",
+			});
+		} catch {
+			await cancelBroadcast(broadcast.id);
+			return context.send(t(userLang, "admin.broadcastBadMarkdown"));
+		}
+
+		logAdminAction(context.chatId, "preview_broadcast", {
+			broadcastId: broadcast.id,
+			recipients: recipients.length,
+		});
+
+		return context.send(
+			t(
+				userLang,
+				recipients.length === 1
+					? "admin.broadcastPreviewOne"
+					: "admin.broadcastPreview",
+				{ id: broadcast.id, audience, count: recipients.length },
+			),
+			{
+				reply_markup: new InlineKeyboard()
+					.text(
+						t(userLang, "admin.broadcastSend"),
+						`broadcast:send:${broadcast.id}`,
+					)
+					.text(
+						t(userLang, "admin.broadcastCancel"),
+						`broadcast:cancel:${broadcast.id}`,
+					),
+			},
+		);
+	})
+
 	// --- ADMIN HELP COMMAND ---
 
 	.command("admin", async (context) => {
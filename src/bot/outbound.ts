@@ -0,0 +1,83 @@
+/**
+ * Outbound Telegram Messages
+ *
+ * Every message the bot sends goes through this dispatcher so it stays
+ * within Telegram's rate limits: subscription updates, digests,
+ * broadcasts and exported files, and replies to commands and buttons,
+ * which are queued at high priority (queueReplies). Answers to callback
+ * queries only stop the button's spinner and are not messages, so they
+ * are still sent directly.
+ *
+ * The dispatcher is process-local. Several processes sending at once
+ * (e.g. more than one webhook instance) each get the full rate, so
+ * together they can go over Telegram's global limit.
+ *
+ * When a chat has blocked the bot (or removed it from the group), its
+ * subscriptions and For You digest are turned off so the worker stops
+ * sending to it.
+ */
+
+import {
+	deactivateUserSubscriptions,
+	findUserByChatId,
+	setForYouDigest,
+} from "../db/repositories/index.js";
+import { OutboundDispatcher } from "../utils/dispatcher.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Stop scheduled deliveries to a chat that blocked the bot
+ */
+async function stopDeliveries(chatId: number): Promise<void> {
+	const user = await findUserByChatId(chatId);
+	if (!user) return;
+
+	const subscriptions = await deactivateUserSubscriptions(user.id);
+	if (user.forYouDigest) {
+		await setForYouDigest(user.id, false);
+	}
+
+	logger.info("Stopped deliveries to blocked chat", {
+		chatId,
+		userId: user.id,
+		subscriptions,
+	});
+}
+
+export const outbound = new OutboundDispatcher({
+	name: "Telegram",
+	onBlocked: stopDeliveries,
+});
+
+/**
+ * A context that can send messages to its chat
+ */
+interface ReplyContext {
+	chatId?: number;
+	senderId?: number;
+	send(...args: never[]): Promise<unknown>;
+}
+
+/**
+ * Queue a context's replies through the dispatcher at high priority
+ *
+ * Derived onto message and callback query updates, so `context.send`
+ * shares the global and per-chat limits with everything else the bot
+ * sends and a blocked chat has its deliveries turned off.
+ *
+ * @example
+ * bot.derive(["message", "callback_query"], queueReplies);
+ */
+export function queueReplies<Context extends ReplyContext>(
+	context: Context,
+): Pick<Context, "send"> {
+	const send = context.send.bind(context) as (
+		...args: unknown[]
+	) => Promise<unknown>;
+	const chatId = context.chatId || context.senderId || 0;
+
+	return {
+		send: ((...args: unknown[]) =>
+			outbound.send(chatId, () => send(...args), "high")) as Context["send"],
+	};
+}
@@ -7,8 +7,17 @@
  * import { getPaperCache, initPaperCache } from "./cache/index.js";
  */
 
+export { MemoryCacheTier } from "./memoryTier.js";
+export type {
+	CachedPapers,
+	CacheTier,
+	CacheTierStats,
+	CacheTierUsage,
+} from "./paperCache.js";
 export {
 	getPaperCache,
 	initPaperCache,
 	PaperCache,
 } from "./paperCache.js";
+export { RedisCacheTier } from "./redisTier.js";
+export { SqliteCacheTier } from "./sqliteTier.js";
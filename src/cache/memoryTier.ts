@@ -0,0 +1,84 @@
+/**
+ * In-memory tier of the paper cache
+ *
+ * Keeps the most recently used entries in this process. When it is full,
+ * the least recently used entry is evicted.
+ */
+
+import type { CachedPapers, CacheTier, CacheTierUsage } from "./paperCache.js";
+
+/** Default number of entries kept */
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * LRU cache tier in this process
+ */
+export class MemoryCacheTier implements CacheTier {
+	readonly name = "memory";
+	// Maps iterate in insertion order, so the first key is the least recently used
+	private readonly entries = new Map<
+		string,
+		{ entry: CachedPapers; expiresAt: number }
+	>();
+	private evictions = 0;
+
+	/**
+	 * @param maxEntries - Most entries kept (default: 500)
+	 * @param now - Clock in ms (default: Date.now)
+	 */
+	constructor(
+		private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+		private readonly now: () => number = Date.now,
+	) {}
+
+	async get(key: string): Promise<CachedPapers | null> {
+		const item = this.entries.get(key);
+		if (!item) {
+			return null;
+		}
+
+		this.entries.delete(key);
+		if (item.expiresAt <= this.now()) {
+			return null;
+		}
+
+		this.entries.set(key, item);
+		return item.entry;
+	}
+
+	async set(
+		key: string,
+		entry: CachedPapers,
+		ttlSeconds: number,
+	): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, { entry, expiresAt: this.now() + ttlSeconds * 1000 });
+
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value;
+			if (oldest === undefined) {
+				break;
+			}
+			this.entries.delete(oldest);
+			this.evictions++;
+		}
+	}
+
+	async delete(key: string): Promise<boolean> {
+		return this.entries.delete(key);
+	}
+
+	async clear(): Promise<number> {
+		const count = this.entries.size;
+		this.entries.clear();
+		return count;
+	}
+
+	async getUsage(): Promise<CacheTierUsage> {
+		return {
+			entries: this.entries.size,
+			maxEntries: this.maxEntries,
+			evictions: this.evictions,
+		};
+	}
+}
@@ -1,8 +1,18 @@
 /**
- * Paper Cache using Upstash Redis
+ * Paper Cache
  *
  * Caches arXiv search results to reduce API calls and improve response times.
- * Uses the same Upstash REST API approach as the session storage.
+ * Entries are kept in tiers, fastest first: an in-process LRU
+ * (memoryTier.ts), a table in the bot's database (sqliteTier.ts) and,
+ * when configured, Redis (redisTier.ts). Lookups go through the
+ * tiers in order and copy what they find into the faster ones; new entries
+ * are written to every tier.
+ *
+ * Search pages and single-paper lookups have their own TTLs. Entries are
+ * kept for a while after they expire and served stale while a fresh copy
+ * is fetched in the background, so users still get results when arXiv is
+ * slow or down. Identical requests in flight at the same time share one
+ * fetch (see coalesce()).
  */
 
 import type { Paper } from "../arxiv.js";
@@ -11,136 +21,329 @@ import { logger } from "../utils/logger.js";
 /** Default cache TTL in seconds (1 hour) */
 const DEFAULT_CACHE_TTL = 3600;
 
-interface UpstashResponse<T = unknown> {
-	result: T | null;
-	error?: string;
-}
+/** Default TTL of single-paper lookups in seconds (1 day) */
+const DEFAULT_PAPER_TTL = 86400;
+
+/** Default time expired entries are kept for stale serving in seconds (1 day) */
+const DEFAULT_STALE_TTL = 86400;
+
+/**
+ * What a cache entry holds: a page of search results or a single paper
+ */
+export type PaperCacheKind = "search" | "paper";
 
 interface CacheOptions {
-	/** Key prefix for cache entries (default: "papers") */
-	prefix?: string;
-	/** TTL in seconds for cached data (default: 3600 = 1 hour) */
+	/** TTL in seconds for cached search pages (default: 3600 = 1 hour) */
 	ttl?: number;
+	/** TTL in seconds for cached single papers (default: 86400 = 1 day) */
+	paperTtl?: number;
+	/** Seconds expired entries may still be served stale (default: 86400) */
+	staleTtl?: number;
 }
 
-interface CachedPapers {
+/**
+ * A cached page of search results or a single paper
+ */
+export interface CachedPapers {
 	papers: Paper[];
 	cachedAt: number;
 }
 
 /**
- * Paper cache using Upstash Redis REST API
+ * Size and evictions of a cache tier
+ */
+export interface CacheTierUsage {
+	/** Entries kept (null if the tier does not know) */
+	entries: number | null;
+	/** Most entries kept (null if the tier has no limit of its own) */
+	maxEntries: number | null;
+	/** Entries evicted to stay within maxEntries */
+	evictions: number;
+}
+
+/**
+ * Statistics of a cache tier, exported as metrics
+ */
+export interface CacheTierStats extends CacheTierUsage {
+	tier: string;
+	hits: number;
+	misses: number;
+}
+
+/**
+ * Where cache entries are kept
+ *
+ * Tiers return null (and log) instead of throwing when they fail, so a
+ * broken tier only makes the cache slower.
+ */
+export interface CacheTier {
+	readonly name: string;
+	get(key: string): Promise<CachedPapers | null>;
+	/**
+	 * @param ttlSeconds - Time the entry must be kept (it may be evicted earlier)
+	 */
+	set(key: string, entry: CachedPapers, ttlSeconds: number): Promise<void>;
+	delete(key: string): Promise<boolean>;
+	/** @returns Number of entries deleted */
+	clear(): Promise<number>;
+	getUsage(): Promise<CacheTierUsage>;
+}
+
+/**
+ * A cache entry found by PaperCache.lookup()
+ */
+export interface CacheLookup {
+	papers: Paper[];
+	/** Whether the entry is past its TTL */
+	stale: boolean;
+}
+
+/**
+ * Cache counters since start, exported as metrics
+ */
+export interface PaperCacheCounters {
+	/** Fresh entries served */
+	hits: number;
+	/** Requests that had to wait for arXiv */
+	misses: number;
+	/** Stale entries served while revalidating */
+	stale: number;
+	/** Requests that joined an identical request in flight */
+	coalesced: number;
+}
+
+const counters: PaperCacheCounters = {
+	hits: 0,
+	misses: 0,
+	stale: 0,
+	coalesced: 0,
+};
+
+/** Fetches in flight, by cache key */
+const inFlight = new Map<string, Promise<Paper[]>>();
+
+/**
+ * Run a fetch unless an identical one is already in flight
+ *
+ * Callers asking for the same key while a fetch runs get its result
+ * (or its error) instead of starting their own.
+ *
+ * @param key - Cache key of the request (see searchCacheKey/paperCacheKey)
+ * @param fetcher - Fetches the papers
+ */
+export function coalesce(
+	key: string,
+	fetcher: () => Promise<Paper[]>,
+): Promise<Paper[]> {
+	const pending = inFlight.get(key);
+	if (pending) {
+		counters.coalesced++;
+		return pending;
+	}
+
+	const request = fetcher().finally(() => inFlight.delete(key));
+	inFlight.set(key, request);
+	return request;
+}
+
+/**
+ * Cache key of a page of search results
+ */
+export function searchCacheKey(
+	topic: string,
+	start: number,
+	max: number,
+): string {
+	// Normalize whitespace only: boolean operators are case-sensitive, so
+	// "a AND b" and "a and b" are different searches
+	const normalizedTopic = topic.trim().replace(/\s+/g, "_");
+	return `${normalizedTopic}:${start}:${max}`;
+}
+
+/**
+ * Cache key of a single paper
+ */
+export function paperCacheKey(arxivId: string): string {
+	return `paper:${arxivId.trim()}`;
+}
+
+/**
+ * Get the cache counters (hits, misses, stale, coalesced)
+ */
+export function getPaperCacheCounters(): PaperCacheCounters {
+	return { ...counters };
+}
+
+/**
+ * Paper cache over one or more tiers
  *
  * Caches search results to avoid hitting arXiv API repeatedly
  * for the same queries.
  */
 export class PaperCache {
-	private readonly url: string;
-	private readonly token: string;
-	private readonly prefix: string;
 	private readonly ttl: number;
-	private enabled = true;
+	private readonly paperTtl: number;
+	private readonly staleTtl: number;
+	/** Hits and misses by tier, in the order of `tiers` */
+	private readonly tierCounters: { hits: number; misses: number }[];
 
-	constructor(redisUrl: string, options: CacheOptions = {}) {
-		const parsed = this.parseRedisUrl(redisUrl);
-		this.url = parsed.restUrl;
-		this.token = parsed.token;
-		this.prefix = options.prefix || "papers";
+	/**
+	 * @param tiers - Tiers to use, fastest first
+	 * @param options - TTLs
+	 */
+	constructor(
+		private readonly tiers: CacheTier[],
+		options: CacheOptions = {},
+	) {
 		this.ttl = options.ttl || DEFAULT_CACHE_TTL;
+		this.paperTtl = options.paperTtl || DEFAULT_PAPER_TTL;
+		this.staleTtl = options.staleTtl ?? DEFAULT_STALE_TTL;
+		this.tierCounters = tiers.map(() => ({ hits: 0, misses: 0 }));
 
 		logger.debug("PaperCache initialized", {
-			url: this.url,
-			prefix: this.prefix,
+			tiers: tiers.map((tier) => tier.name),
 			ttl: this.ttl,
+			paperTtl: this.paperTtl,
+			staleTtl: this.staleTtl,
 		});
 	}
 
 	/**
-	 * Parse Upstash Redis URL to extract REST API URL and token
+	 * Get the TTL in seconds of an entry kind
 	 */
-	private parseRedisUrl(redisUrl: string): { restUrl: string; token: string } {
-		try {
-			if (redisUrl.startsWith("https://")) {
-				const url = new URL(redisUrl);
-				if (url.password) {
-					return {
-						restUrl: `https://${url.hostname}`,
-						token: url.password,
-					};
-				}
-				throw new Error("HTTPS URL provided without token");
-			}
+	private getTtl(kind: PaperCacheKind): number {
+		return kind === "paper" ? this.paperTtl : this.ttl;
+	}
 
-			const url = new URL(redisUrl);
-			const hostname = url.hostname;
-			const token = url.password;
+	/**
+	 * Look up an entry, fresh or stale
+	 *
+	 * An entry found in a slower tier is copied into the faster ones.
+	 *
+	 * @param kind - Whether the key is a search page or a single paper
+	 * @param key - Cache key (see searchCacheKey/paperCacheKey)
+	 * @returns The entry or null if not found
+	 */
+	async lookup(kind: PaperCacheKind, key: string): Promise<CacheLookup | null> {
+		const ttl = this.getTtl(kind);
+
+		for (const [index, tier] of this.tiers.entries()) {
+			const counter = this.tierCounters[index];
+			const cached = await tier.get(key);
+			const age = cached ? (Date.now() - cached.cachedAt) / 1000 : 0;
 
-			if (!token) {
-				throw new Error("No token found in Redis URL");
+			if (!cached || age > ttl + this.staleTtl) {
+				if (counter) counter.misses++;
+				continue;
 			}
+			if (counter) counter.hits++;
 
-			return {
-				restUrl: `https://${hostname}`,
-				token,
-			};
-		} catch (error) {
-			// Disable cache if URL parsing fails
-			this.enabled = false;
-			logger.warn("Failed to parse Redis URL for cache, caching disabled", {
-				error: error instanceof Error ? error.message : String(error),
-			});
-			return { restUrl: "", token: "" };
+			for (const faster of this.tiers.slice(0, index)) {
+				await faster.set(key, cached, ttl + this.staleTtl - age);
+			}
+			return { papers: cached.papers, stale: age > ttl };
 		}
+
+		return null;
 	}
 
 	/**
-	 * Generate a cache key for a search query
+	 * Store an entry in every tier
+	 *
+	 * It is kept for its TTL plus the stale period.
+	 *
+	 * @param kind - Whether the key is a search page or a single paper
+	 * @param key - Cache key (see searchCacheKey/paperCacheKey)
+	 * @param papers - The papers to cache
 	 */
-	private getCacheKey(topic: string, start: number, max: number): string {
-		// Normalize the topic for consistent caching
-		const normalizedTopic = topic.toLowerCase().trim().replace(/\s+/g, "_");
-		return `${this.prefix}:${normalizedTopic}:${start}:${max}`;
+	async store(
+		kind: PaperCacheKind,
+		key: string,
+		papers: Paper[],
+	): Promise<void> {
+		const cached: CachedPapers = {
+			papers,
+			cachedAt: Date.now(),
+		};
+		const keepFor = this.getTtl(kind) + this.staleTtl;
+
+		for (const tier of this.tiers) {
+			await tier.set(key, cached, keepFor);
+		}
+
+		logger.debug("PaperCache: Set", {
+			key,
+			papersCount: papers.length,
+			ttlSeconds: this.getTtl(kind),
+		});
 	}
 
 	/**
-	 * Make a request to Upstash REST API
+	 * Get papers through the cache
+	 *
+	 * Fresh entries are returned as they are. Stale entries are returned
+	 * right away and refreshed in the background. Otherwise the papers are
+	 * fetched and cached (unless none were found). Identical fetches in
+	 * flight are coalesced.
+	 *
+	 * @param kind - Whether the key is a search page or a single paper
+	 * @param key - Cache key (see searchCacheKey/paperCacheKey)
+	 * @param fetcher - Fetches the papers; should throw when the request fails
+	 * @param options.refresh - Skip the lookup and fetch (still caching the result)
+	 * @throws What the fetcher throws on a miss
 	 */
-	private async request<R = unknown>(
-		command: string[],
-	): Promise<UpstashResponse<R>> {
-		if (!this.enabled) {
-			return { result: null, error: "Cache disabled" };
+	async fetch(
+		kind: PaperCacheKind,
+		key: string,
+		fetcher: () => Promise<Paper[]>,
+		options: { refresh?: boolean } = {},
+	): Promise<Paper[]> {
+		if (options.refresh) {
+			return this.revalidate(kind, key, fetcher);
 		}
 
-		try {
-			const response = await fetch(this.url, {
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${this.token}`,
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify(command),
+		const cached = await this.lookup(kind, key);
+
+		if (cached && !cached.stale) {
+			counters.hits++;
+			logger.debug("PaperCache: Hit", {
+				key,
+				papersCount: cached.papers.length,
 			});
+			return cached.papers;
+		}
 
-			if (!response.ok) {
-				const text = await response.text();
-				logger.error("PaperCache request failed", {
-					status: response.status,
-					body: text,
+		if (cached) {
+			counters.stale++;
+			logger.debug("PaperCache: Serving stale entry", { key });
+			this.revalidate(kind, key, fetcher).catch((error) => {
+				logger.warn("PaperCache: Revalidation failed", {
+					key,
+					error: error instanceof Error ? error.message : String(error),
 				});
-				return { result: null, error: text };
-			}
-
-			return (await response.json()) as UpstashResponse<R>;
-		} catch (error) {
-			logger.error("PaperCache request error", {
-				error: error instanceof Error ? error.message : String(error),
 			});
-			return {
-				result: null,
-				error: error instanceof Error ? error.message : "Unknown error",
-			};
+			return cached.papers;
 		}
+
+		counters.misses++;
+		return this.revalidate(kind, key, fetcher);
+	}
+
+	/**
+	 * Fetch (coalesced) and cache the result
+	 */
+	private revalidate(
+		kind: PaperCacheKind,
+		key: string,
+		fetcher: () => Promise<Paper[]>,
+	): Promise<Paper[]> {
+		return coalesce(key, async () => {
+			const papers = await fetcher();
+			if (papers.length > 0) {
+				await this.store(kind, key, papers);
+			}
+			return papers;
+		});
 	}
 
 	/**
@@ -156,38 +359,11 @@ export class PaperCache {
 		start: number,
 		max: number,
 	): Promise<Paper[] | null> {
-		if (!this.enabled) {
-			return null;
-		}
-
-		const key = this.getCacheKey(topic, start, max);
-		const response = await this.request<string>(["GET", key]);
-
-		if (response.error || response.result === null) {
-			return null;
-		}
-
-		try {
-			const cached = JSON.parse(response.result) as CachedPapers;
-
-			// Check if cache is still valid (double-check TTL)
-			const age = (Date.now() - cached.cachedAt) / 1000;
-			if (age > this.ttl) {
-				logger.debug("PaperCache: Entry expired", { key, age, ttl: this.ttl });
-				return null;
-			}
-
-			logger.debug("PaperCache: Hit", {
-				key,
-				papersCount: cached.papers.length,
-				ageSeconds: Math.round(age),
-			});
-
-			return cached.papers;
-		} catch {
-			logger.warn("PaperCache: Failed to parse cached data", { key });
-			return null;
-		}
+		const cached = await this.lookup(
+			"search",
+			searchCacheKey(topic, start, max),
+		);
+		return cached && !cached.stale ? cached.papers : null;
 	}
 
 	/**
@@ -204,77 +380,29 @@ export class PaperCache {
 		max: number,
 		papers: Paper[],
 	): Promise<void> {
-		if (!this.enabled) {
-			return;
-		}
-
-		const key = this.getCacheKey(topic, start, max);
-		const cached: CachedPapers = {
-			papers,
-			cachedAt: Date.now(),
-		};
-
-		const value = JSON.stringify(cached);
-		await this.request(["SET", key, value, "EX", String(this.ttl)]);
-
-		logger.debug("PaperCache: Set", {
-			key,
-			papersCount: papers.length,
-			ttlSeconds: this.ttl,
-		});
+		await this.store("search", searchCacheKey(topic, start, max), papers);
 	}
 
 	/**
 	 * Delete cached papers for a search query
 	 */
 	async delete(topic: string, start: number, max: number): Promise<boolean> {
-		if (!this.enabled) {
-			return false;
+		let deleted = false;
+		for (const tier of this.tiers) {
+			deleted =
+				(await tier.delete(searchCacheKey(topic, start, max))) || deleted;
 		}
-
-		const key = this.getCacheKey(topic, start, max);
-		const response = await this.request<number>(["DEL", key]);
-		return response.result === 1;
+		return deleted;
 	}
 
 	/**
-	 * Clear all cached papers (use with caution)
-	 *
-	 * Note: This only clears keys with the configured prefix.
-	 * For Upstash, we use SCAN to find and delete matching keys.
+	 * Clear all cached papers in every tier (use with caution)
 	 */
 	async clear(): Promise<number> {
-		if (!this.enabled) {
-			return 0;
-		}
-
-		let cursor = "0";
 		let deletedCount = 0;
-
-		do {
-			const scanResponse = await this.request<[string, string[]]>([
-				"SCAN",
-				cursor,
-				"MATCH",
-				`${this.prefix}:*`,
-				"COUNT",
-				"100",
-			]);
-
-			if (scanResponse.error || !scanResponse.result) {
-				break;
-			}
-
-			const [nextCursor, keys] = scanResponse.result;
-			cursor = nextCursor;
-
-			if (keys.length > 0) {
-				const delResponse = await this.request<number>(["DEL", ...keys]);
-				if (delResponse.result) {
-					deletedCount += delResponse.result;
-				}
-			}
-		} while (cursor !== "0");
+		for (const tier of this.tiers) {
+			deletedCount += await tier.clear();
+		}
 
 		logger.info("PaperCache: Cleared", { deletedCount });
 		return deletedCount;
@@ -284,75 +412,66 @@ export class PaperCache {
 	 * Check if caching is enabled
 	 */
 	isEnabled(): boolean {
-		return this.enabled;
+		return this.tiers.length > 0;
 	}
 
 	/**
-	 * Test cache connection
+	 * Get size, evictions, hits and misses of each tier
 	 */
-	async ping(): Promise<boolean> {
-		if (!this.enabled) {
-			return false;
-		}
-
-		const response = await this.request<string>(["PING"]);
-		return response.result === "PONG";
+	async getTierStats(): Promise<CacheTierStats[]> {
+		return Promise.all(
+			this.tiers.map(async (tier, index) => ({
+				tier: tier.name,
+				hits: this.tierCounters[index]?.hits ?? 0,
+				misses: this.tierCounters[index]?.misses ?? 0,
+				...(await tier.getUsage()),
+			})),
+		);
 	}
 
 	/**
 	 * Get cache statistics
 	 */
-	async getStats(): Promise<{
-		enabled: boolean;
-		prefix: string;
-		ttl: number;
-		connected: boolean;
-	}> {
+	async getStats(): Promise<
+		{
+			ttl: number;
+			paperTtl: number;
+			staleTtl: number;
+			tiers: CacheTierStats[];
+		} & PaperCacheCounters
+	> {
 		return {
-			enabled: this.enabled,
-			prefix: this.prefix,
 			ttl: this.ttl,
-			connected: await this.ping(),
+			paperTtl: this.paperTtl,
+			staleTtl: this.staleTtl,
+			tiers: await this.getTierStats(),
+			...getPaperCacheCounters(),
 		};
 	}
 }
 
-// Singleton instance (initialized when Redis is configured)
+// Singleton instance (initialized on bot startup)
 let paperCacheInstance: PaperCache | null = null;
 
 /**
- * Get or create the paper cache instance
+ * Get the paper cache instance
  *
- * @param redisUrl - Redis URL (required on first call if caching is desired)
- * @param options - Cache options
- * @returns PaperCache instance or null if Redis is not configured
+ * @returns PaperCache instance or null if it has not been initialized
  */
-export function getPaperCache(
-	redisUrl?: string,
-	options?: CacheOptions,
-): PaperCache | null {
-	if (paperCacheInstance) {
-		return paperCacheInstance;
-	}
-
-	if (!redisUrl) {
-		return null;
-	}
-
-	paperCacheInstance = new PaperCache(redisUrl, options);
+export function getPaperCache(): PaperCache | null {
 	return paperCacheInstance;
 }
 
 /**
- * Initialize the paper cache with the given Redis URL
+ * Initialize the paper cache with the given tiers
  *
- * @param redisUrl - Upstash Redis URL
+ * @param tiers - Tiers to use, fastest first
  * @param options - Cache options
  */
 export function initPaperCache(
-	redisUrl: string,
+	tiers: CacheTier[],
 	options?: CacheOptions,
 ): PaperCache {
-	paperCacheInstance = new PaperCache(redisUrl, options);
+	paperCacheInstance = new PaperCache(tiers, options);
 	return paperCacheInstance;
 }
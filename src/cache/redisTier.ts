@@ -0,0 +1,119 @@
+/**
+ * Redis tier of the paper cache
+ *
+ * Keeps entries in Redis through the shared RedisClient, so every instance
+ * shares them. Redis expires entries itself; its memory limit and eviction
+ * policy are configured on the Redis side. Failed requests are logged and
+ * treated as misses, so the other tiers keep working during an outage.
+ */
+
+import type { RedisClient } from "../storage/redisClient.js";
+import { logger } from "../utils/logger.js";
+import type { CachedPapers, CacheTier, CacheTierUsage } from "./paperCache.js";
+
+/**
+ * Cache tier in Redis
+ */
+export class RedisCacheTier implements CacheTier {
+	readonly name = "redis";
+
+	/**
+	 * @param redis - Redis client
+	 * @param prefix - Key prefix for cache entries (default: "papers")
+	 */
+	constructor(
+		private readonly redis: RedisClient,
+		private readonly prefix = "papers",
+	) {}
+
+	private logError(operation: string, error: unknown): void {
+		logger.error(`PaperCache ${operation} failed`, {
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+
+	async get(key: string): Promise<CachedPapers | null> {
+		let value: string | null;
+		try {
+			value = await this.redis.get(`${this.prefix}:${key}`);
+		} catch (error) {
+			this.logError("get", error);
+			return null;
+		}
+
+		if (value === null) {
+			return null;
+		}
+
+		try {
+			return JSON.parse(value) as CachedPapers;
+		} catch {
+			logger.warn("PaperCache: Failed to parse cached data", { key });
+			return null;
+		}
+	}
+
+	async set(
+		key: string,
+		entry: CachedPapers,
+		ttlSeconds: number,
+	): Promise<void> {
+		try {
+			await this.redis.set(
+				`${this.prefix}:${key}`,
+				JSON.stringify(entry),
+				ttlSeconds,
+			);
+		} catch (error) {
+			this.logError("set", error);
+		}
+	}
+
+	async delete(key: string): Promise<boolean> {
+		try {
+			return (await this.redis.del(`${this.prefix}:${key}`)) === 1;
+		} catch (error) {
+			this.logError("delete", error);
+			return false;
+		}
+	}
+
+	/**
+	 * Clear all cached papers (use with caution)
+	 *
+	 * Note: This only clears keys with the configured prefix, found with SCAN.
+	 */
+	async clear(): Promise<number> {
+		let cursor = "0";
+		let deletedCount = 0;
+
+		try {
+			do {
+				const [nextCursor, keys] = await this.redis.scan(
+					cursor,
+					`${this.prefix}:*`,
+				);
+				cursor = nextCursor;
+				deletedCount += await this.redis.del(...keys);
+			} while (cursor !== "0");
+		} catch (error) {
+			this.logError("clear", error);
+		}
+
+		return deletedCount;
+	}
+
+	/**
+	 * Test cache connection
+	 */
+	async ping(): Promise<boolean> {
+		return this.redis.ping();
+	}
+
+	/**
+	 * Entry counts are not tracked for Redis; it evicts on its own
+	 */
+	async getUsage(): Promise<CacheTierUsage> {
+		return { entries: null, maxEntries: null, evictions: 0 };
+	}
+}
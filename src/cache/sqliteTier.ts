@@ -0,0 +1,89 @@
+/**
+ * Database tier of the paper cache
+ *
+ * Keeps entries in the paper_cache table of the bot's libSQL database, so
+ * they survive restarts without Redis. Every so many writes, expired
+ * entries are dropped and, beyond the size limit, the oldest ones; the
+ * table may briefly hold a few more entries than the limit.
+ */
+
+import {
+	clearPaperCache,
+	deletePaperCacheValue,
+	getPaperCacheCount,
+	getPaperCacheValue,
+	setPaperCacheValue,
+	trimPaperCache,
+} from "../db/repositories/paperCacheRepository.js";
+import { logger } from "../utils/logger.js";
+import type { CachedPapers, CacheTier, CacheTierUsage } from "./paperCache.js";
+
+/** Default number of entries kept */
+const DEFAULT_MAX_ENTRIES = 5000;
+
+/** Default number of writes between trims */
+const DEFAULT_TRIM_EVERY = 50;
+
+/**
+ * Cache tier in the bot's database
+ */
+export class SqliteCacheTier implements CacheTier {
+	readonly name = "sqlite";
+	private evictions = 0;
+	private writesSinceTrim = 0;
+
+	/**
+	 * @param maxEntries - Most entries kept (default: 5000)
+	 * @param trimEvery - Writes between trims (default: 50)
+	 */
+	constructor(
+		private readonly maxEntries = DEFAULT_MAX_ENTRIES,
+		private readonly trimEvery = DEFAULT_TRIM_EVERY,
+	) {}
+
+	async get(key: string): Promise<CachedPapers | null> {
+		const value = await getPaperCacheValue(key);
+		if (value === null) {
+			return null;
+		}
+
+		try {
+			return JSON.parse(value) as CachedPapers;
+		} catch {
+			logger.warn("PaperCache: Failed to parse cached data", { key });
+			return null;
+		}
+	}
+
+	async set(
+		key: string,
+		entry: CachedPapers,
+		ttlSeconds: number,
+	): Promise<void> {
+		if (!(await setPaperCacheValue(key, JSON.stringify(entry), ttlSeconds))) {
+			return;
+		}
+
+		this.writesSinceTrim++;
+		if (this.writesSinceTrim >= this.trimEvery) {
+			this.writesSinceTrim = 0;
+			this.evictions += await trimPaperCache(this.maxEntries);
+		}
+	}
+
+	async delete(key: string): Promise<boolean> {
+		return deletePaperCacheValue(key);
+	}
+
+	async clear(): Promise<number> {
+		return clearPaperCache();
+	}
+
+	async getUsage(): Promise<CacheTierUsage> {
+		return {
+			entries: await getPaperCacheCount(),
+			maxEntries: this.maxEntries,
+			evictions: this.evictions,
+		};
+	}
+}
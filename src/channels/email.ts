@@ -0,0 +1,177 @@
+/**
+ * Email delivery channel
+ *
+ * Sends deliveries as a plain text and HTML email to the user's verified
+ * address (/email). Needs SMTP_URL and SMTP_FROM to be configured.
+ */
+
+import { formatSummary } from "../arxiv.js";
+import { config, isEmailConfigured } from "../config.js";
+import { logger } from "../utils/logger.js";
+import { type MailMessage, parseSmtpUrl, sendMail } from "../utils/smtp.js";
+import type { Delivery, DeliveryChannel, DeliveryPaper } from "./types.js";
+
+const UNSUBSCRIBE_NOTE =
+	"You get these emails because you turned on email digests in Research Bot. Send /email off to the bot to stop them.";
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * Format a paper's authors, listing at most three
+ */
+function formatAuthors(authors: string[] | undefined): string {
+	if (!authors || authors.length === 0) return "Unknown";
+	const more = authors.length > 3 ? ` +${authors.length - 3} more` : "";
+	return authors.slice(0, 3).join(", ") + more;
+}
+
+/**
+ * Format one paper as plain text
+ */
+function formatPaperText(
+	{ paper, topics }: DeliveryPaper,
+	index: number,
+): string {
+	return [
+		`${index}. ${paper.title}`,
+		`   Authors: ${formatAuthors(paper.authors)}`,
+		`   Published: ${paper.published}`,
+		...(paper.journalRef ? [`   Journal: ${paper.journalRef}`] : []),
+		...(topics.length > 1 ? [`   Topics: ${topics.join(" · ")}`] : []),
+		`   ${formatSummary(paper.summary, 300)}`,
+		`   ${paper.link}`,
+	].join("\n");
+}
+
+/**
+ * Format one paper as HTML
+ */
+function formatPaperHtml({ paper, topics }: DeliveryPaper): string {
+	const details = [
+		escapeHtml(formatAuthors(paper.authors)),
+		escapeHtml(paper.published),
+		...(paper.journalRef ? [escapeHtml(paper.journalRef)] : []),
+	].join(" · ");
+
+	return [
+		"<li>",
+		`<a href="${escapeHtml(paper.link)}"><strong>${escapeHtml(paper.title)}</strong></a><br>`,
+		`<small>${details}</small><br>`,
+		...(topics.length > 1
+			? [`<small>Topics: ${escapeHtml(topics.join(" · "))}</small><br>`]
+			: []),
+		`<p>${escapeHtml(formatSummary(paper.summary, 300))}</p>`,
+		"</li>",
+	].join("\n");
+}
+
+/**
+ * Build the email for a delivery
+ */
+function formatEmail(to: string, delivery: Delivery): MailMessage {
+	const text = [
+		delivery.title,
+		"",
+		delivery.papers.map((p, i) => formatPaperText(p, i + 1)).join("\n\n"),
+		...(delivery.note ? ["", delivery.note] : []),
+		"",
+		"-- ",
+		UNSUBSCRIBE_NOTE,
+	].join("\n");
+
+	const html = [
+		"<!DOCTYPE html>",
+		'<html><body style="font-family: sans-serif; max-width: 640px;">',
+		`<h2>${escapeHtml(delivery.title)}</h2>`,
+		"<ol>",
+		...delivery.papers.map(formatPaperHtml),
+		"</ol>",
+		...(delivery.note ? [`<p><em>${escapeHtml(delivery.note)}</em></p>`] : []),
+		`<hr><p><small>${escapeHtml(UNSUBSCRIBE_NOTE)}</small></p>`,
+		"</body></html>",
+	].join("\n");
+
+	return {
+		from: config.SMTP_FROM ?? "",
+		to,
+		subject: delivery.title,
+		text,
+		html,
+	};
+}
+
+/**
+ * Send an email with the configured SMTP server
+ *
+ * @throws SmtpError if the message could not be sent
+ */
+async function send(message: MailMessage): Promise<void> {
+	if (!config.SMTP_URL) {
+		throw new Error("Email is not configured");
+	}
+	await sendMail(parseSmtpUrl(config.SMTP_URL), message);
+}
+
+/**
+ * Send the code that confirms an email address
+ *
+ * @returns Whether the email was sent
+ */
+export async function sendVerificationEmail(
+	to: string,
+	code: string,
+): Promise<boolean> {
+	try {
+		await send({
+			from: config.SMTP_FROM ?? "",
+			to,
+			subject: `Research Bot verification code: ${code}`,
+			text: [
+				`Your verification code is ${code}`,
+				"",
+				`Send /email verify ${code} to the bot to get your subscription digests by email. The code expires in one hour.`,
+				"",
+				"If you did not ask for this, you can ignore this email.",
+			].join("\n"),
+		});
+		return true;
+	} catch (error) {
+		logger.error("Failed to send verification email", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+export const emailChannel: DeliveryChannel = {
+	id: "email",
+	name: "Email",
+
+	isEnabled(user) {
+		return isEmailConfigured() && !!user.email;
+	},
+
+	async send(user, delivery) {
+		if (!user.email) return false;
+
+		try {
+			await send(formatEmail(user.email, delivery));
+			return true;
+		} catch (error) {
+			logger.error("Failed to send email delivery", {
+				userId: user.id,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return false;
+		}
+	},
+};
@@ -0,0 +1,33 @@
+/**
+ * Atom feed delivery channel
+ *
+ * Adds delivered papers to the user's personal feed, served at
+ * /feeds/<token>.atom (see features/delivery.ts).
+ */
+
+import { addFeedEntries } from "../db/repositories/feedRepository.js";
+import type { DeliveryChannel } from "./types.js";
+
+export const feedChannel: DeliveryChannel = {
+	id: "feed",
+	name: "Atom feed",
+
+	isEnabled(user) {
+		return !!user.feedToken;
+	},
+
+	async send(user, delivery) {
+		const entries = delivery.papers.map(({ paper, key, topics }) => ({
+			userId: user.id,
+			paperId: key,
+			title: paper.title,
+			summary: paper.summary,
+			link: paper.link,
+			authors: paper.authors ? JSON.stringify(paper.authors) : null,
+			topic: topics.join(", "),
+		}));
+
+		// addFeedEntries logs its own failures
+		return (await addFeedEntries(entries)) === entries.length;
+	},
+};
@@ -0,0 +1,118 @@
+/**
+ * Delivery channel registry
+ *
+ * The subscription worker hands each delivery to deliver(), which sends
+ * it on every channel the user has turned on: Telegram always, plus email
+ * (/email) and the personal Atom feed (/feed). Telegram is the primary
+ * channel: a delivery only counts as sent once it reached Telegram.
+ */
+
+import type { User } from "../db/schema.js";
+import { logger } from "../utils/logger.js";
+import { emailChannel } from "./email.js";
+import { feedChannel } from "./feed.js";
+import { telegramChannel } from "./telegram.js";
+import type { Delivery, DeliveryChannel, DeliveryChannelId } from "./types.js";
+
+export { sendVerificationEmail } from "./email.js";
+export type {
+	Delivery,
+	DeliveryChannel,
+	DeliveryChannelId,
+	DeliveryPaper,
+} from "./types.js";
+
+/**
+ * Channel a delivery has to reach to count as sent
+ */
+const PRIMARY_CHANNEL: DeliveryChannelId = "telegram";
+
+/**
+ * Outcome of a delivery on each channel
+ */
+export interface DeliveryReport {
+	/** Channels the delivery reached, including skipped ones */
+	delivered: DeliveryChannelId[];
+	/** Channels the delivery failed on */
+	failed: DeliveryChannelId[];
+	/** Whether the delivery reached the primary channel (or, without it, any channel) */
+	ok: boolean;
+}
+
+const CHANNELS: Record<DeliveryChannelId, DeliveryChannel> = {
+	telegram: telegramChannel,
+	email: emailChannel,
+	feed: feedChannel,
+};
+
+/**
+ * Get a delivery channel by ID
+ */
+export function getChannel(id: DeliveryChannelId): DeliveryChannel {
+	return CHANNELS[id];
+}
+
+/**
+ * List the channels a user receives deliveries on
+ */
+export function getEnabledChannels(user: User): DeliveryChannel[] {
+	return Object.values(CHANNELS).filter((channel) => channel.isEnabled(user));
+}
+
+/**
+ * Deliver to a user on each of their enabled channels
+ *
+ * @param options - `dryRun` only logs; `only` limits the channels tried;
+ * `skip` lists channels an earlier attempt already reached, which count
+ * as delivered without sending again
+ * @returns Which channels the delivery reached and which failed
+ */
+export async function deliver(
+	user: User,
+	delivery: Delivery,
+	options: {
+		dryRun?: boolean;
+		only?: DeliveryChannelId[];
+		skip?: DeliveryChannelId[];
+	} = {},
+): Promise<DeliveryReport> {
+	const channels = getEnabledChannels(user).filter(
+		(channel) => !options.only || options.only.includes(channel.id),
+	);
+	const ids = channels.map((channel) => channel.id);
+	const report = (delivered: DeliveryChannelId[]): DeliveryReport => ({
+		delivered,
+		failed: ids.filter((id) => !delivered.includes(id)),
+		ok: ids.includes(PRIMARY_CHANNEL)
+			? delivered.includes(PRIMARY_CHANNEL)
+			: delivered.length > 0,
+	});
+
+	if (options.dryRun) {
+		logger.info("DRY RUN: Would send notification", {
+			chatId: user.chatId,
+			channels: ids,
+		});
+		return report(ids);
+	}
+
+	const delivered: DeliveryChannelId[] = [];
+	for (const channel of channels) {
+		if (
+			options.skip?.includes(channel.id) ||
+			(await channel.send(user, delivery))
+		) {
+			delivered.push(channel.id);
+		}
+	}
+
+	const result = report(delivered);
+	if (result.failed.length > 0) {
+		logger.warn("Delivery failed on some channels", {
+			chatId: user.chatId,
+			delivered: result.delivered,
+			failed: result.failed,
+		});
+	}
+	return result;
+}
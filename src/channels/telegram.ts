@@ -0,0 +1,41 @@
+/**
+ * Telegram delivery channel
+ *
+ * Sends deliveries as a bot message to the user's (or group's) chat,
+ * through the outbound dispatcher.
+ */
+
+import { bot } from "../bot/index.js";
+import { outbound } from "../bot/outbound.js";
+import { logger } from "../utils/logger.js";
+import type { DeliveryChannel } from "./types.js";
+
+export const telegramChannel: DeliveryChannel = {
+	id: "telegram",
+	name: "Telegram",
+
+	isEnabled() {
+		return true;
+	},
+
+	async send(user, delivery) {
+		try {
+			await outbound.send(user.chatId, () =>
+				bot.api.sendMessage({
+					chat_id: user.chatId,
+					text: delivery.telegram.text,
+					parse_mode: "MarkdownV2",
+					reply_markup: delivery.telegram.keyboard,
+					link_preview_options: { is_disabled: true },
+				}),
+			);
+			return true;
+		} catch (error) {
+			logger.error("Failed to send subscription notification", {
+				chatId: user.chatId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return false;
+		}
+	},
+};
@@ -0,0 +1,60 @@
+/**
+ * Delivery channel types
+ *
+ * A delivery channel is a way of getting subscription papers to a user:
+ * Telegram messages, email digests or a personal Atom feed.
+ */
+
+import type { InlineKeyboard } from "gramio";
+import type { Paper } from "../arxiv.js";
+import type { User } from "../db/schema.js";
+
+/**
+ * Identifiers of the supported delivery channels
+ */
+export type DeliveryChannelId = "telegram" | "email" | "feed";
+
+/**
+ * A paper in a delivery with the topics that found it
+ */
+export interface DeliveryPaper {
+	paper: Paper;
+	/** ID tracking the paper in views (see getPaperKey in the worker) */
+	key: string;
+	topics: string[];
+}
+
+/**
+ * Something to deliver to a user
+ */
+export interface Delivery {
+	/** Heading, used as the email subject */
+	title: string;
+	/** Every paper in the delivery (the Telegram text may only show a page) */
+	papers: DeliveryPaper[];
+	/** Footnote such as "Showing 5 of 12 new papers" */
+	note?: string;
+	/** The Telegram message (MarkdownV2) */
+	telegram: {
+		text: string;
+		keyboard?: InlineKeyboard;
+	};
+}
+
+/**
+ * A way of delivering papers to users
+ */
+export interface DeliveryChannel {
+	/** Stable channel identifier */
+	readonly id: DeliveryChannelId;
+	/** Human-readable name */
+	readonly name: string;
+	/** Whether the user receives deliveries on this channel */
+	isEnabled(user: User): boolean;
+	/**
+	 * Deliver to a user
+	 *
+	 * Implementations log failures and return false.
+	 */
+	send(user: User, delivery: Delivery): Promise<boolean>;
+}
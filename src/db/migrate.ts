@@ -11,22 +11,8 @@
 
 import { createClient } from "@libsql/client";
 
-// Get database URL from environment or use default
-const DATABASE_URL = process.env.DATABASE_URL || "file:./sqlite.db";
-const DATABASE_AUTH_TOKEN = process.env.DATABASE_AUTH_TOKEN;
-
-console.log(`📦 Starting database migration...`);
-console.log(
-	`📂 Database: ${DATABASE_URL.startsWith("file:") ? DATABASE_URL : DATABASE_URL.replace(/\/\/.*@/, "//***@")}`,
-);
-
-const client = createClient({
-	url: DATABASE_URL,
-	authToken: DATABASE_AUTH_TOKEN,
-});
-
 // Create tables
-const migrations = [
+export const migrations = [
 	// Users table
 	`CREATE TABLE IF NOT EXISTS users (
 		id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -119,10 +105,228 @@ const migrations = [
 	// Migration: Add language column to users if it doesn't exist
 	// This handles existing databases that were created before the language feature
 	`ALTER TABLE users ADD COLUMN language TEXT DEFAULT 'en'`,
+
+	// Migration: Add paper source to bookmarks and subscriptions (multi-source support)
+	`ALTER TABLE bookmarks ADD COLUMN source TEXT NOT NULL DEFAULT 'arxiv'`,
+	`ALTER TABLE subscriptions ADD COLUMN source TEXT NOT NULL DEFAULT 'arxiv'`,
+
+	// Migration: Add submission date window to subscriptions
+	`ALTER TABLE subscriptions ADD COLUMN submitted_after TEXT`,
+
+	// Collections and tags for bookmarks
+	`CREATE TABLE IF NOT EXISTS collections (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		user_id INTEGER NOT NULL,
+		name TEXT NOT NULL,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+		UNIQUE(user_id, name)
+	)`,
+	`CREATE TABLE IF NOT EXISTS bookmark_collections (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		bookmark_id INTEGER NOT NULL,
+		collection_id INTEGER NOT NULL,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		FOREIGN KEY (bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE,
+		FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE,
+		UNIQUE(bookmark_id, collection_id)
+	)`,
+	`CREATE TABLE IF NOT EXISTS bookmark_tags (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		bookmark_id INTEGER NOT NULL,
+		tag TEXT NOT NULL,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		FOREIGN KEY (bookmark_id) REFERENCES bookmarks(id) ON DELETE CASCADE,
+		UNIQUE(bookmark_id, tag)
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_collections_user_id ON collections(user_id)`,
+	`CREATE INDEX IF NOT EXISTS idx_bookmark_collections_collection_id ON bookmark_collections(collection_id)`,
+	`CREATE INDEX IF NOT EXISTS idx_bookmark_tags_tag ON bookmark_tags(tag)`,
+
+	// Migration: Add reading status and rating to bookmarks
+	`ALTER TABLE bookmarks ADD COLUMN reading_status TEXT NOT NULL DEFAULT 'to-read'`,
+	`ALTER TABLE bookmarks ADD COLUMN rating INTEGER`,
+	`ALTER TABLE bookmarks ADD COLUMN status_updated_at TEXT`,
+	`CREATE INDEX IF NOT EXISTS idx_bookmarks_reading_status ON bookmarks(user_id, reading_status)`,
+
+	// Migration: Group libraries
+	`CREATE TABLE IF NOT EXISTS groups (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		chat_id INTEGER NOT NULL UNIQUE,
+		user_id INTEGER NOT NULL,
+		title TEXT,
+		edit_policy TEXT NOT NULL DEFAULT 'members',
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+	)`,
+	`CREATE TABLE IF NOT EXISTS group_members (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		group_id INTEGER NOT NULL,
+		user_id INTEGER NOT NULL,
+		role TEXT NOT NULL DEFAULT 'member',
+		joined_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE,
+		FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+		UNIQUE(group_id, user_id)
+	)`,
+	`ALTER TABLE bookmarks ADD COLUMN added_by INTEGER REFERENCES users(id) ON DELETE SET NULL`,
+	`CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON group_members(user_id)`,
+
+	// Migration: Digest schedules, timezones and quiet hours
+	`ALTER TABLE users ADD COLUMN timezone TEXT DEFAULT 'UTC'`,
+	`ALTER TABLE users ADD COLUMN quiet_hours_start TEXT`,
+	`ALTER TABLE users ADD COLUMN quiet_hours_end TEXT`,
+	`ALTER TABLE subscriptions ADD COLUMN schedule_type TEXT NOT NULL DEFAULT 'interval'`,
+	`ALTER TABLE subscriptions ADD COLUMN delivery_time TEXT`,
+	`ALTER TABLE subscriptions ADD COLUMN delivery_day INTEGER`,
+
+	// Migration: Local paper index for similar-paper search
+	`CREATE TABLE IF NOT EXISTS paper_index (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		paper_id TEXT NOT NULL UNIQUE,
+		source TEXT NOT NULL DEFAULT 'arxiv',
+		title TEXT NOT NULL,
+		authors TEXT,
+		summary TEXT,
+		link TEXT NOT NULL,
+		categories TEXT,
+		published_date TEXT,
+		embedding TEXT,
+		embedding_model TEXT,
+		seen_count INTEGER NOT NULL DEFAULT 1,
+		first_seen_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		last_seen_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_paper_index_last_seen_at ON paper_index(last_seen_at)`,
+	// Backfill from bookmarks, dropping arXiv version suffixes (2301.00001v2 -> 2301.00001)
+	`INSERT OR IGNORE INTO paper_index (paper_id, source, title, authors, summary, link, categories, published_date)
+		SELECT
+			CASE WHEN source = 'arxiv' AND rtrim(arxiv_id, '0123456789') LIKE '%v'
+				THEN substr(arxiv_id, 1, length(rtrim(arxiv_id, '0123456789')) - 1)
+				ELSE arxiv_id
+			END,
+			source, title, authors, summary, link, categories, published_date
+		FROM bookmarks`,
+
+	// Migration: Weekly "For You" digest
+	`ALTER TABLE users ADD COLUMN for_you_digest INTEGER DEFAULT 0`,
+	`ALTER TABLE users ADD COLUMN for_you_last_sent_at TEXT`,
+
+	// Migration: Author follows
+	`ALTER TABLE subscriptions ADD COLUMN kind TEXT NOT NULL DEFAULT 'topic'`,
+	`ALTER TABLE subscriptions ADD COLUMN author_profile TEXT`,
+
+	// Migration: Paper version tracking for bookmarks
+	`ALTER TABLE bookmarks ADD COLUMN version INTEGER`,
+	`ALTER TABLE bookmarks ADD COLUMN latest_version INTEGER`,
+	`ALTER TABLE bookmarks ADD COLUMN journal_ref TEXT`,
+	`ALTER TABLE bookmarks ADD COLUMN version_checked_at TEXT`,
+	`CREATE INDEX IF NOT EXISTS idx_bookmarks_version_checked_at ON bookmarks(version_checked_at)`,
+
+	// Migration: arXiv metadata on bookmarks
+	`ALTER TABLE bookmarks ADD COLUMN primary_category TEXT`,
+	`ALTER TABLE bookmarks ADD COLUMN doi TEXT`,
+	`ALTER TABLE bookmarks ADD COLUMN comment TEXT`,
+	`ALTER TABLE bookmarks ADD COLUMN affiliations TEXT`,
+	`ALTER TABLE bookmarks ADD COLUMN updated_date TEXT`,
+
+	// Migration: Merged subscription digests
+	`ALTER TABLE users ADD COLUMN merged_digest INTEGER DEFAULT 0`,
+	`CREATE TABLE IF NOT EXISTS digests (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+		pages TEXT NOT NULL,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_digests_created_at ON digests(created_at)`,
+
+	// Migration: Email and Atom feed delivery channels
+	`ALTER TABLE users ADD COLUMN email TEXT`,
+	`ALTER TABLE users ADD COLUMN pending_email TEXT`,
+	`ALTER TABLE users ADD COLUMN email_code TEXT`,
+	`ALTER TABLE users ADD COLUMN email_code_sent_at TEXT`,
+	`ALTER TABLE users ADD COLUMN email_code_attempts INTEGER NOT NULL DEFAULT 0`,
+	`ALTER TABLE users ADD COLUMN feed_token TEXT`,
+	`CREATE UNIQUE INDEX IF NOT EXISTS idx_users_feed_token ON users(feed_token)`,
+	`CREATE TABLE IF NOT EXISTS feed_entries (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+		paper_id TEXT NOT NULL,
+		title TEXT NOT NULL,
+		summary TEXT,
+		link TEXT NOT NULL,
+		authors TEXT,
+		topic TEXT,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_feed_entries_user_created ON feed_entries(user_id, created_at)`,
+
+	// Migration: Persistent job queue
+	`CREATE TABLE IF NOT EXISTS jobs (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		type TEXT NOT NULL,
+		key TEXT NOT NULL,
+		payload TEXT NOT NULL,
+		state TEXT NOT NULL DEFAULT 'pending',
+		attempts INTEGER NOT NULL DEFAULT 0,
+		max_attempts INTEGER NOT NULL DEFAULT 5,
+		run_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		locked_by TEXT,
+		locked_until TEXT,
+		last_error TEXT,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_jobs_state_run_at ON jobs(state, run_at)`,
+	`CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_key ON jobs(key) WHERE state IN ('pending', 'running')`,
+
+	// Migration: Admin broadcasts
+	`CREATE TABLE IF NOT EXISTS broadcasts (
+		id INTEGER PRIMARY KEY AUTOINCREMENT,
+		admin_chat_id INTEGER NOT NULL,
+		message TEXT NOT NULL,
+		audience TEXT NOT NULL,
+		status TEXT NOT NULL DEFAULT 'draft',
+		total INTEGER NOT NULL DEFAULT 0,
+		sent INTEGER NOT NULL DEFAULT 0,
+		failed INTEGER NOT NULL DEFAULT 0,
+		cursor INTEGER NOT NULL DEFAULT 0,
+		status_message_id INTEGER,
+		locked_by TEXT,
+		locked_until TEXT,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+		started_at TEXT,
+		finished_at TEXT
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_broadcasts_created ON broadcasts(created_at)`,
+
+	// Migration: Database tier of the paper cache
+	`CREATE TABLE IF NOT EXISTS paper_cache (
+		key TEXT PRIMARY KEY,
+		value TEXT NOT NULL,
+		expires_at TEXT NOT NULL,
+		created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+	)`,
+	`CREATE INDEX IF NOT EXISTS idx_paper_cache_expires ON paper_cache(expires_at)`,
+	`CREATE INDEX IF NOT EXISTS idx_paper_cache_created ON paper_cache(created_at)`,
 ];
 
 // Run migrations
 async function runMigrations() {
+	// Get database URL from environment or use default
+	const DATABASE_URL = process.env.DATABASE_URL || "file:./sqlite.db";
+	const DATABASE_AUTH_TOKEN = process.env.DATABASE_AUTH_TOKEN;
+
+	console.log(`📦 Starting database migration...`);
+	console.log(
+		`📂 Database: ${DATABASE_URL.startsWith("file:") ? DATABASE_URL : DATABASE_URL.replace(/\/\/.*@/, "//***@")}`,
+	);
+
+	const client = createClient({
+		url: DATABASE_URL,
+		authToken: DATABASE_AUTH_TOKEN,
+	});
+
 	let successCount = 0;
 	let errorCount = 0;
 
@@ -148,7 +352,10 @@ async function runMigrations() {
 	console.log(`   - Total: ${migrations.length}`);
 }
 
-runMigrations().catch((error) => {
-	console.error("Migration failed:", error);
-	process.exit(1);
-});
+// Only migrate when run as a script, not when the migrations are imported
+if (import.meta.main) {
+	runMigrations().catch((error) => {
+		console.error("Migration failed:", error);
+		process.exit(1);
+	});
+}
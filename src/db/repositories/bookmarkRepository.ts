@@ -5,39 +5,78 @@
  * Provides methods for creating, reading, updating, and deleting bookmarks.
  */
 
-import { and, desc, eq } from "drizzle-orm";
+import { and, desc, eq, gte, isNotNull, like, ne, or, sql } from "drizzle-orm";
 import { logger } from "../../utils/logger.js";
 import { db } from "../index.js";
-import { type Bookmark, bookmarks, type NewBookmark } from "../schema.js";
+import {
+	type Bookmark,
+	bookmarks,
+	type NewBookmark,
+	type ReadingStatus,
+} from "../schema.js";
+import { deleteBookmarkLinks } from "./collectionRepository.js";
+
+/**
+ * Paper fields stored with a new bookmark
+ */
+interface BookmarkPaper {
+	arxivId: string;
+	source?: string;
+	title: string;
+	authors?: string[];
+	summary?: string;
+	link: string;
+	categories?: string[];
+	publishedDate?: string;
+	notes?: string;
+	addedBy?: number;
+	primaryCategory?: string;
+	doi?: string;
+	comment?: string;
+	affiliations?: Record<string, string[]>;
+	updatedDate?: string;
+	version?: number;
+	journalRef?: string;
+}
+
+/**
+ * Build the row for a new bookmark
+ */
+function toNewBookmark(userId: number, paper: BookmarkPaper): NewBookmark {
+	return {
+		userId,
+		arxivId: paper.arxivId,
+		source: paper.source,
+		title: paper.title,
+		authors: paper.authors ? JSON.stringify(paper.authors) : null,
+		summary: paper.summary,
+		link: paper.link,
+		categories: paper.categories ? JSON.stringify(paper.categories) : null,
+		publishedDate: paper.publishedDate,
+		notes: paper.notes,
+		addedBy: paper.addedBy,
+		primaryCategory: paper.primaryCategory,
+		doi: paper.doi,
+		comment: paper.comment,
+		affiliations: paper.affiliations
+			? JSON.stringify(paper.affiliations)
+			: null,
+		updatedDate: paper.updatedDate,
+		version: paper.version,
+		latestVersion: paper.version,
+		journalRef: paper.journalRef,
+	};
+}
 
 /**
  * Create a new bookmark for a user
  */
 export async function createBookmark(
 	userId: number,
-	paper: {
-		arxivId: string;
-		title: string;
-		authors?: string[];
-		summary?: string;
-		link: string;
-		categories?: string[];
-		publishedDate?: string;
-		notes?: string;
-	},
+	paper: BookmarkPaper,
 ): Promise<Bookmark | null> {
 	try {
-		const newBookmark: NewBookmark = {
-			userId,
-			arxivId: paper.arxivId,
-			title: paper.title,
-			authors: paper.authors ? JSON.stringify(paper.authors) : null,
-			summary: paper.summary,
-			link: paper.link,
-			categories: paper.categories ? JSON.stringify(paper.categories) : null,
-			publishedDate: paper.publishedDate,
-			notes: paper.notes,
-		};
+		const newBookmark = toNewBookmark(userId, paper);
 
 		const result = await db.insert(bookmarks).values(newBookmark).returning();
 
@@ -70,6 +109,47 @@ export async function createBookmark(
 	}
 }
 
+/**
+ * Create bookmarks for a user in a single insert
+ *
+ * Papers the user has already bookmarked are skipped (userArxivUnique).
+ *
+ * @returns The bookmarks that were created
+ */
+export async function createBookmarks(
+	userId: number,
+	papers: BookmarkPaper[],
+): Promise<Bookmark[]> {
+	if (papers.length === 0) {
+		return [];
+	}
+
+	try {
+		const newBookmarks = papers.map((paper) => toNewBookmark(userId, paper));
+
+		const result = await db
+			.insert(bookmarks)
+			.values(newBookmarks)
+			.onConflictDoNothing()
+			.returning();
+
+		logger.info("Created bookmarks", {
+			userId,
+			requested: papers.length,
+			created: result.length,
+		});
+
+		return result;
+	} catch (error) {
+		logger.error("Error creating bookmarks", {
+			userId,
+			count: papers.length,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
 /**
  * Find a bookmark by ID
  */
@@ -116,6 +196,43 @@ export async function findBookmarkByArxivId(
 	}
 }
 
+/**
+ * Find a bookmark by user and arXiv ID, ignoring the version suffix
+ * (e.g. "2301.00001" matches a bookmark stored as "2301.00001v2")
+ */
+export async function findBookmarkByArxivIdAnyVersion(
+	userId: number,
+	arxivId: string,
+): Promise<Bookmark | null> {
+	const baseId = arxivId.replace(/v\d+$/, "");
+
+	try {
+		const result = await db
+			.select()
+			.from(bookmarks)
+			.where(
+				and(
+					eq(bookmarks.userId, userId),
+					or(
+						eq(bookmarks.arxivId, baseId),
+						like(bookmarks.arxivId, `${baseId}v%`),
+					),
+				),
+			)
+			.orderBy(desc(bookmarks.createdAt))
+			.limit(1);
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error finding bookmark by arxivId", {
+			userId,
+			arxivId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
 /**
  * Check if a paper is bookmarked by a user
  */
@@ -127,6 +244,51 @@ export async function isBookmarked(
 	return bookmark !== null;
 }
 
+/**
+ * Build the WHERE clause for a user's bookmarks with optional filters
+ */
+function getBookmarkFilter(
+	userId: number,
+	filter?: { status?: ReadingStatus; minRating?: number },
+) {
+	return and(
+		eq(bookmarks.userId, userId),
+		filter?.status ? eq(bookmarks.readingStatus, filter.status) : undefined,
+		filter?.minRating !== undefined
+			? gte(bookmarks.rating, filter.minRating)
+			: undefined,
+	);
+}
+
+/**
+ * Sort orders for listing bookmarks
+ * - created: newest first
+ * - status: to-read, reading, read, abandoned; newest first within each
+ * - rating: highest rated first, unrated last
+ */
+export type BookmarkSort = "created" | "status" | "rating";
+
+/**
+ * Get the ORDER BY clauses for a bookmark sort
+ */
+function getBookmarkOrder(sortBy: BookmarkSort = "created") {
+	switch (sortBy) {
+		case "status":
+			return [
+				sql`CASE ${bookmarks.readingStatus} WHEN 'to-read' THEN 0 WHEN 'reading' THEN 1 WHEN 'read' THEN 2 ELSE 3 END`,
+				desc(bookmarks.createdAt),
+			];
+		case "rating":
+			return [
+				sql`${bookmarks.rating} IS NULL`,
+				desc(bookmarks.rating),
+				desc(bookmarks.createdAt),
+			];
+		default:
+			return [desc(bookmarks.createdAt)];
+	}
+}
+
 /**
  * Get all bookmarks for a user
  */
@@ -135,14 +297,17 @@ export async function getUserBookmarks(
 	options?: {
 		limit?: number;
 		offset?: number;
+		status?: ReadingStatus;
+		minRating?: number;
+		sortBy?: BookmarkSort;
 	},
 ): Promise<Bookmark[]> {
 	try {
 		let query = db
 			.select()
 			.from(bookmarks)
-			.where(eq(bookmarks.userId, userId))
-			.orderBy(desc(bookmarks.createdAt));
+			.where(getBookmarkFilter(userId, options))
+			.orderBy(...getBookmarkOrder(options?.sortBy));
 
 		if (options?.limit) {
 			query = query.limit(options.limit) as typeof query;
@@ -165,12 +330,15 @@ export async function getUserBookmarks(
 /**
  * Get bookmark count for a user
  */
-export async function getUserBookmarkCount(userId: number): Promise<number> {
+export async function getUserBookmarkCount(
+	userId: number,
+	filter?: { status?: ReadingStatus; minRating?: number },
+): Promise<number> {
 	try {
 		const result = await db
 			.select()
 			.from(bookmarks)
-			.where(eq(bookmarks.userId, userId));
+			.where(getBookmarkFilter(userId, filter));
 
 		return result.length;
 	} catch (error) {
@@ -206,6 +374,173 @@ export async function updateBookmarkNotes(
 	}
 }
 
+/**
+ * Update the reading status of a bookmark
+ */
+export async function updateBookmarkReadingStatus(
+	bookmarkId: number,
+	readingStatus: ReadingStatus,
+): Promise<Bookmark | null> {
+	try {
+		const result = await db
+			.update(bookmarks)
+			.set({ readingStatus, statusUpdatedAt: new Date().toISOString() })
+			.where(eq(bookmarks.id, bookmarkId))
+			.returning();
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error updating bookmark reading status", {
+			bookmarkId,
+			readingStatus,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Update the rating of a bookmark (1-5, or null to clear)
+ */
+export async function updateBookmarkRating(
+	bookmarkId: number,
+	rating: number | null,
+): Promise<Bookmark | null> {
+	try {
+		const result = await db
+			.update(bookmarks)
+			.set({ rating })
+			.where(eq(bookmarks.id, bookmarkId))
+			.returning();
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error updating bookmark rating", {
+			bookmarkId,
+			rating,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Get a user's bookmarks that have notes, optionally matching a search term
+ *
+ * Matching is a case-insensitive substring search on the notes text.
+ */
+export async function getBookmarksWithNotes(
+	userId: number,
+	options?: {
+		query?: string;
+		limit?: number;
+	},
+): Promise<Bookmark[]> {
+	try {
+		const conditions = [
+			eq(bookmarks.userId, userId),
+			isNotNull(bookmarks.notes),
+			ne(bookmarks.notes, ""),
+		];
+
+		const term = options?.query?.trim();
+		if (term) {
+			// Escape LIKE wildcards so they match literally
+			const escaped = term.replace(/[\\%_]/g, (match) => `\\${match}`);
+			conditions.push(
+				sql`${bookmarks.notes} LIKE ${`%${escaped}%`} ESCAPE '\\'`,
+			);
+		}
+
+		return await db
+			.select()
+			.from(bookmarks)
+			.where(and(...conditions))
+			.orderBy(desc(bookmarks.createdAt))
+			.limit(options?.limit ?? 20);
+	} catch (error) {
+		logger.error("Error searching bookmark notes", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Get arXiv bookmarks not checked for a new version recently
+ *
+ * Bookmarks never checked come first, then the longest unchecked.
+ *
+ * @param intervalHours - Minimum hours between checks of a bookmark
+ * @param limit - Maximum number of bookmarks
+ */
+export async function getBookmarksDueForVersionCheck(
+	intervalHours: number,
+	limit = 200,
+): Promise<Bookmark[]> {
+	try {
+		return await db
+			.select()
+			.from(bookmarks)
+			.where(
+				and(
+					eq(bookmarks.source, "arxiv"),
+					or(
+						sql`${bookmarks.versionCheckedAt} IS NULL`,
+						sql`${bookmarks.versionCheckedAt} < datetime('now', ${`-${intervalHours} hours`})`,
+					),
+				),
+			)
+			.orderBy(
+				sql`${bookmarks.versionCheckedAt} IS NOT NULL`,
+				bookmarks.versionCheckedAt,
+			)
+			.limit(limit);
+	} catch (error) {
+		logger.error("Error getting bookmarks due for version check", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Record a version check of a bookmarked paper
+ *
+ * @param bookmarkId - Bookmark ID
+ * @param latest - Latest version, its metadata and text, when changed
+ */
+export async function updateBookmarkVersion(
+	bookmarkId: number,
+	latest: Partial<
+		Pick<
+			Bookmark,
+			| "latestVersion"
+			| "journalRef"
+			| "doi"
+			| "comment"
+			| "updatedDate"
+			| "title"
+			| "summary"
+		>
+	> = {},
+): Promise<boolean> {
+	try {
+		await db
+			.update(bookmarks)
+			.set({ ...latest, versionCheckedAt: sql`CURRENT_TIMESTAMP` })
+			.where(eq(bookmarks.id, bookmarkId));
+		return true;
+	} catch (error) {
+		logger.error("Error updating bookmark version", {
+			bookmarkId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
 /**
  * Delete a bookmark
  */
@@ -217,6 +552,7 @@ export async function deleteBookmark(bookmarkId: number): Promise<boolean> {
 			return false;
 		}
 
+		await deleteBookmarkLinks(bookmarkId);
 		await db.delete(bookmarks).where(eq(bookmarks.id, bookmarkId));
 
 		// Verify deletion
@@ -245,6 +581,7 @@ export async function deleteBookmarkByArxivId(
 			return false;
 		}
 
+		await deleteBookmarkLinks(existing.id);
 		await db
 			.delete(bookmarks)
 			.where(and(eq(bookmarks.userId, userId), eq(bookmarks.arxivId, arxivId)));
@@ -0,0 +1,392 @@
+/**
+ * Broadcast Repository
+ *
+ * Handles database operations for admin broadcasts (/broadcast): drafts
+ * awaiting confirmation, progress while they are sent, and their results
+ * afterwards.
+ */
+
+import {
+	and,
+	asc,
+	desc,
+	eq,
+	exists,
+	gt,
+	gte,
+	inArray,
+	isNotNull,
+	isNull,
+	lte,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
+import type { BroadcastAudience } from "../../utils/broadcast.js";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import {
+	type Broadcast,
+	type BroadcastStatus,
+	broadcasts,
+	subscriptions,
+	users,
+} from "../schema.js";
+
+/**
+ * A user a broadcast is sent to
+ */
+export interface BroadcastRecipient {
+	userId: number;
+	chatId: number;
+}
+
+/**
+ * SQL for a timestamp a number of seconds from now
+ */
+function secondsFromNow(seconds: number) {
+	return sql`datetime('now', ${`+${Math.max(0, Math.round(seconds))} seconds`})`;
+}
+
+/**
+ * Conditions selecting the users in an audience
+ *
+ * Only private chats receive broadcasts, not groups.
+ */
+function audienceConditions(audience: BroadcastAudience): SQL[] {
+	const conditions: SQL[] = [gt(users.chatId, 0)];
+
+	if (audience.language) {
+		conditions.push(eq(users.language, audience.language));
+	}
+	if (audience.activeDays) {
+		// lastActiveAt is an ISO timestamp, so compare it with one
+		const since = new Date(Date.now() - audience.activeDays * 86_400_000);
+		conditions.push(gte(users.lastActiveAt, since.toISOString()));
+	}
+	if (audience.category) {
+		conditions.push(
+			exists(
+				db
+					.select({ id: subscriptions.id })
+					.from(subscriptions)
+					.where(
+						and(
+							eq(subscriptions.userId, users.id),
+							eq(subscriptions.isActive, true),
+							eq(subscriptions.category, audience.category),
+						),
+					),
+			),
+		);
+	}
+	return conditions;
+}
+
+/**
+ * Get the chat IDs of the users in an audience
+ */
+export async function getAudienceChatIds(
+	audience: BroadcastAudience,
+): Promise<number[]> {
+	try {
+		const rows = await db
+			.select({ chatId: users.chatId })
+			.from(users)
+			.where(and(...audienceConditions(audience)))
+			.orderBy(users.id);
+		return rows.map((row) => row.chatId);
+	} catch (error) {
+		logger.error("Error getting broadcast audience", {
+			audience,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Get the next recipients of a broadcast, in user ID order
+ *
+ * @param afterUserId - Cursor: only users with a higher ID
+ * @param limit - Maximum number of recipients
+ * @returns The recipients, or null on failure (unlike an empty list,
+ *          which means everyone has been reached)
+ */
+export async function getAudienceRecipients(
+	audience: BroadcastAudience,
+	afterUserId: number,
+	limit: number,
+): Promise<BroadcastRecipient[] | null> {
+	try {
+		return await db
+			.select({ userId: users.id, chatId: users.chatId })
+			.from(users)
+			.where(and(gt(users.id, afterUserId), ...audienceConditions(audience)))
+			.orderBy(asc(users.id))
+			.limit(limit);
+	} catch (error) {
+		logger.error("Error getting broadcast recipients", {
+			audience,
+			afterUserId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Save a broadcast draft for the admin to confirm
+ */
+export async function createBroadcast(data: {
+	adminChatId: number;
+	message: string;
+	audience: BroadcastAudience;
+	total: number;
+}): Promise<Broadcast | null> {
+	try {
+		const result = await db
+			.insert(broadcasts)
+			.values({ ...data, audience: JSON.stringify(data.audience) })
+			.returning();
+		return result[0] ?? null;
+	} catch (error) {
+		logger.error("Error creating broadcast", {
+			adminChatId: data.adminChatId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Find a broadcast by ID
+ */
+export async function findBroadcastById(id: number): Promise<Broadcast | null> {
+	try {
+		const result = await db
+			.select()
+			.from(broadcasts)
+			.where(eq(broadcasts.id, id))
+			.limit(1);
+		return result[0] ?? null;
+	} catch (error) {
+		logger.error("Error finding broadcast", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Parse a broadcast's stored audience
+ */
+export function getBroadcastAudience(broadcast: Broadcast): BroadcastAudience {
+	try {
+		return JSON.parse(broadcast.audience) as BroadcastAudience;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Start sending a draft, taking a lease on it
+ *
+ * Only one caller can start a draft, so confirming twice sends it once.
+ *
+ * @param options - Number of recipients, the admin's status message and
+ *                  the lease to take
+ * @returns The running broadcast, or null if it was not a draft
+ */
+export async function startBroadcast(
+	id: number,
+	options: {
+		total: number;
+		statusMessageId: number;
+		lockedBy: string;
+		leaseSeconds: number;
+	},
+): Promise<Broadcast | null> {
+	try {
+		const result = await db
+			.update(broadcasts)
+			.set({
+				status: "running",
+				total: options.total,
+				statusMessageId: options.statusMessageId,
+				lockedBy: options.lockedBy,
+				lockedUntil: secondsFromNow(options.leaseSeconds),
+				startedAt: sql`datetime('now')`,
+			})
+			.where(and(eq(broadcasts.id, id), eq(broadcasts.status, "draft")))
+			.returning();
+		return result[0] ?? null;
+	} catch (error) {
+		logger.error("Error starting broadcast", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Take over a running broadcast whose sender stopped renewing its lease
+ *
+ * A single UPDATE is atomic, so two workers never take the same broadcast.
+ *
+ * @returns The broadcast, now leased to lockedBy, or null if none is stale
+ */
+export async function claimStaleBroadcast(
+	lockedBy: string,
+	leaseSeconds: number,
+): Promise<Broadcast | null> {
+	const stale = and(
+		eq(broadcasts.status, "running"),
+		or(
+			isNull(broadcasts.lockedUntil),
+			lte(broadcasts.lockedUntil, sql`datetime('now')`),
+		),
+	);
+
+	try {
+		const result = await db
+			.update(broadcasts)
+			.set({ lockedBy, lockedUntil: secondsFromNow(leaseSeconds) })
+			.where(
+				and(
+					stale,
+					inArray(
+						broadcasts.id,
+						db
+							.select({ id: broadcasts.id })
+							.from(broadcasts)
+							.where(stale)
+							.orderBy(asc(broadcasts.id))
+							.limit(1),
+					),
+				),
+			)
+			.returning();
+		return result[0] ?? null;
+	} catch (error) {
+		logger.error("Error claiming broadcast", {
+			lockedBy,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Record how far a running broadcast got and renew its lease
+ *
+ * @param lockedBy - Process holding the lease
+ * @param progress - Messages sent and failed, and the last user handled
+ * @returns The broadcast's status (e.g. "cancelled" if the admin
+ *          cancelled it meanwhile), or null if the lease was lost or the
+ *          update failed
+ */
+export async function updateBroadcastProgress(
+	id: number,
+	lockedBy: string,
+	progress: { sent: number; failed: number; cursor: number },
+	leaseSeconds: number,
+): Promise<BroadcastStatus | null> {
+	try {
+		const result = await db
+			.update(broadcasts)
+			.set({ ...progress, lockedUntil: secondsFromNow(leaseSeconds) })
+			.where(and(eq(broadcasts.id, id), eq(broadcasts.lockedBy, lockedBy)))
+			.returning({ status: broadcasts.status });
+		return result[0]?.status ?? null;
+	} catch (error) {
+		logger.error("Error updating broadcast progress", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Record the final counts of a broadcast and mark it done
+ *
+ * A cancelled broadcast stays cancelled.
+ */
+export async function finishBroadcast(
+	id: number,
+	progress: { sent: number; failed: number },
+): Promise<Broadcast | null> {
+	try {
+		const result = await db
+			.update(broadcasts)
+			.set({
+				...progress,
+				status: sql`case when ${broadcasts.status} = 'running' then 'done' else ${broadcasts.status} end`,
+				lockedBy: null,
+				lockedUntil: null,
+				finishedAt: sql`coalesce(${broadcasts.finishedAt}, datetime('now'))`,
+			})
+			.where(eq(broadcasts.id, id))
+			.returning();
+		return result[0] ?? null;
+	} catch (error) {
+		logger.error("Error finishing broadcast", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Cancel a draft or a broadcast that is being sent
+ *
+ * A running broadcast stops after the messages already queued.
+ *
+ * @returns True if the broadcast was cancelled
+ */
+export async function cancelBroadcast(id: number): Promise<boolean> {
+	try {
+		const result = await db
+			.update(broadcasts)
+			.set({ status: "cancelled", finishedAt: sql`datetime('now')` })
+			.where(
+				and(
+					eq(broadcasts.id, id),
+					inArray(broadcasts.status, ["draft", "running"]),
+				),
+			)
+			.returning({ id: broadcasts.id });
+		return result.length > 0;
+	} catch (error) {
+		logger.error("Error cancelling broadcast", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Get the most recent broadcasts that were confirmed, newest first
+ *
+ * @param limit - Maximum number of broadcasts (default: 10)
+ */
+export async function getRecentBroadcasts(limit = 10): Promise<Broadcast[]> {
+	try {
+		return await db
+			.select()
+			.from(broadcasts)
+			.where(isNotNull(broadcasts.startedAt))
+			.orderBy(desc(broadcasts.id))
+			.limit(limit);
+	} catch (error) {
+		logger.error("Error getting broadcasts", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
@@ -0,0 +1,461 @@
+/**
+ * Collection Repository
+ *
+ * Handles all database operations related to bookmark collections and tags.
+ * Collections and tags are linked to bookmarks many-to-many.
+ */
+
+import { and, asc, count, desc, eq, inArray } from "drizzle-orm";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import {
+	type Bookmark,
+	bookmarkCollections,
+	bookmarks,
+	bookmarkTags,
+	type Collection,
+	collections,
+} from "../schema.js";
+
+/**
+ * Create a new collection for a user
+ *
+ * @returns The created collection, or null if it already exists or failed
+ */
+export async function createCollection(
+	userId: number,
+	name: string,
+): Promise<Collection | null> {
+	try {
+		const result = await db
+			.insert(collections)
+			.values({ userId, name })
+			.returning();
+
+		logger.info("Created collection", {
+			userId,
+			name,
+			collectionId: result[0]?.id,
+		});
+
+		return result[0] || null;
+	} catch (error) {
+		// Handle unique constraint violation (name already used)
+		if (
+			error instanceof Error &&
+			error.message.includes("UNIQUE constraint failed")
+		) {
+			logger.debug("Collection already exists", { userId, name });
+			return null;
+		}
+
+		logger.error("Error creating collection", {
+			userId,
+			name,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Find a collection by ID
+ */
+export async function findCollectionById(
+	id: number,
+): Promise<Collection | null> {
+	try {
+		const result = await db
+			.select()
+			.from(collections)
+			.where(eq(collections.id, id))
+			.limit(1);
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error finding collection by id", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Find a collection by user and name
+ */
+export async function findCollectionByName(
+	userId: number,
+	name: string,
+): Promise<Collection | null> {
+	try {
+		const result = await db
+			.select()
+			.from(collections)
+			.where(and(eq(collections.userId, userId), eq(collections.name, name)))
+			.limit(1);
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error finding collection by name", {
+			userId,
+			name,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Get all collections for a user with their bookmark counts
+ */
+export async function getUserCollections(
+	userId: number,
+): Promise<(Collection & { bookmarkCount: number })[]> {
+	try {
+		const userCollections = await db
+			.select()
+			.from(collections)
+			.where(eq(collections.userId, userId))
+			.orderBy(asc(collections.name));
+
+		if (userCollections.length === 0) {
+			return [];
+		}
+
+		const counts = await db
+			.select({
+				collectionId: bookmarkCollections.collectionId,
+				count: count(),
+			})
+			.from(bookmarkCollections)
+			.where(
+				inArray(
+					bookmarkCollections.collectionId,
+					userCollections.map((c) => c.id),
+				),
+			)
+			.groupBy(bookmarkCollections.collectionId);
+
+		const countById = new Map(counts.map((c) => [c.collectionId, c.count]));
+
+		return userCollections.map((collection) => ({
+			...collection,
+			bookmarkCount: countById.get(collection.id) ?? 0,
+		}));
+	} catch (error) {
+		logger.error("Error getting user collections", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Delete a collection
+ *
+ * Bookmarks in the collection are kept; only the links are removed.
+ */
+export async function deleteCollection(collectionId: number): Promise<boolean> {
+	try {
+		const existing = await findCollectionById(collectionId);
+		if (!existing) {
+			return false;
+		}
+
+		await db
+			.delete(bookmarkCollections)
+			.where(eq(bookmarkCollections.collectionId, collectionId));
+		await db.delete(collections).where(eq(collections.id, collectionId));
+
+		logger.info("Deleted collection", { collectionId });
+		return true;
+	} catch (error) {
+		logger.error("Error deleting collection", {
+			collectionId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Add a bookmark to a collection
+ *
+ * @returns true if added, false if it was already there or failed
+ */
+export async function addBookmarkToCollection(
+	bookmarkId: number,
+	collectionId: number,
+): Promise<boolean> {
+	try {
+		const result = await db
+			.insert(bookmarkCollections)
+			.values({ bookmarkId, collectionId })
+			.onConflictDoNothing()
+			.returning();
+
+		return result.length > 0;
+	} catch (error) {
+		logger.error("Error adding bookmark to collection", {
+			bookmarkId,
+			collectionId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Remove a bookmark from a collection
+ *
+ * @returns true if removed, false if it was not in the collection or failed
+ */
+export async function removeBookmarkFromCollection(
+	bookmarkId: number,
+	collectionId: number,
+): Promise<boolean> {
+	try {
+		const result = await db
+			.delete(bookmarkCollections)
+			.where(
+				and(
+					eq(bookmarkCollections.bookmarkId, bookmarkId),
+					eq(bookmarkCollections.collectionId, collectionId),
+				),
+			)
+			.returning();
+
+		return result.length > 0;
+	} catch (error) {
+		logger.error("Error removing bookmark from collection", {
+			bookmarkId,
+			collectionId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Get bookmarks in a collection, most recently added first
+ */
+export async function getCollectionBookmarks(
+	collectionId: number,
+	options?: {
+		limit?: number;
+		offset?: number;
+	},
+): Promise<Bookmark[]> {
+	try {
+		let query = db
+			.select({ bookmark: bookmarks })
+			.from(bookmarkCollections)
+			.innerJoin(bookmarks, eq(bookmarkCollections.bookmarkId, bookmarks.id))
+			.where(eq(bookmarkCollections.collectionId, collectionId))
+			.orderBy(desc(bookmarkCollections.createdAt));
+
+		if (options?.limit) {
+			query = query.limit(options.limit) as typeof query;
+		}
+
+		if (options?.offset) {
+			query = query.offset(options.offset) as typeof query;
+		}
+
+		const rows = await query;
+		return rows.map((row) => row.bookmark);
+	} catch (error) {
+		logger.error("Error getting collection bookmarks", {
+			collectionId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Get the names of the collections a bookmark belongs to
+ */
+export async function getBookmarkCollectionNames(
+	bookmarkId: number,
+): Promise<string[]> {
+	try {
+		const rows = await db
+			.select({ name: collections.name })
+			.from(bookmarkCollections)
+			.innerJoin(
+				collections,
+				eq(bookmarkCollections.collectionId, collections.id),
+			)
+			.where(eq(bookmarkCollections.bookmarkId, bookmarkId))
+			.orderBy(asc(collections.name));
+
+		return rows.map((row) => row.name);
+	} catch (error) {
+		logger.error("Error getting bookmark collections", {
+			bookmarkId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Add tags to a bookmark, ignoring tags it already has
+ *
+ * @returns Number of tags added
+ */
+export async function addBookmarkTags(
+	bookmarkId: number,
+	tags: string[],
+): Promise<number> {
+	if (tags.length === 0) {
+		return 0;
+	}
+
+	try {
+		const result = await db
+			.insert(bookmarkTags)
+			.values(tags.map((tag) => ({ bookmarkId, tag })))
+			.onConflictDoNothing()
+			.returning();
+
+		return result.length;
+	} catch (error) {
+		logger.error("Error adding bookmark tags", {
+			bookmarkId,
+			tags,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Remove tags from a bookmark
+ *
+ * @returns Number of tags removed
+ */
+export async function removeBookmarkTags(
+	bookmarkId: number,
+	tags: string[],
+): Promise<number> {
+	if (tags.length === 0) {
+		return 0;
+	}
+
+	try {
+		const result = await db
+			.delete(bookmarkTags)
+			.where(
+				and(
+					eq(bookmarkTags.bookmarkId, bookmarkId),
+					inArray(bookmarkTags.tag, tags),
+				),
+			)
+			.returning();
+
+		return result.length;
+	} catch (error) {
+		logger.error("Error removing bookmark tags", {
+			bookmarkId,
+			tags,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Get the tags on a bookmark
+ */
+export async function getBookmarkTags(bookmarkId: number): Promise<string[]> {
+	try {
+		const rows = await db
+			.select({ tag: bookmarkTags.tag })
+			.from(bookmarkTags)
+			.where(eq(bookmarkTags.bookmarkId, bookmarkId))
+			.orderBy(asc(bookmarkTags.tag));
+
+		return rows.map((row) => row.tag);
+	} catch (error) {
+		logger.error("Error getting bookmark tags", {
+			bookmarkId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Get all tags used by a user with the number of bookmarks per tag
+ */
+export async function getUserTags(
+	userId: number,
+): Promise<{ tag: string; count: number }[]> {
+	try {
+		return await db
+			.select({ tag: bookmarkTags.tag, count: count() })
+			.from(bookmarkTags)
+			.innerJoin(bookmarks, eq(bookmarkTags.bookmarkId, bookmarks.id))
+			.where(eq(bookmarks.userId, userId))
+			.groupBy(bookmarkTags.tag)
+			.orderBy(desc(count()), asc(bookmarkTags.tag));
+	} catch (error) {
+		logger.error("Error getting user tags", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Get a user's bookmarks with a given tag, most recent first
+ */
+export async function getBookmarksByTag(
+	userId: number,
+	tag: string,
+	limit = 50,
+): Promise<Bookmark[]> {
+	try {
+		const rows = await db
+			.select({ bookmark: bookmarks })
+			.from(bookmarkTags)
+			.innerJoin(bookmarks, eq(bookmarkTags.bookmarkId, bookmarks.id))
+			.where(and(eq(bookmarks.userId, userId), eq(bookmarkTags.tag, tag)))
+			.orderBy(desc(bookmarks.createdAt))
+			.limit(limit);
+
+		return rows.map((row) => row.bookmark);
+	} catch (error) {
+		logger.error("Error getting bookmarks by tag", {
+			userId,
+			tag,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Remove all collection links and tags of a bookmark
+ * Called before deleting the bookmark itself
+ */
+export async function deleteBookmarkLinks(bookmarkId: number): Promise<void> {
+	try {
+		await db
+			.delete(bookmarkCollections)
+			.where(eq(bookmarkCollections.bookmarkId, bookmarkId));
+		await db
+			.delete(bookmarkTags)
+			.where(eq(bookmarkTags.bookmarkId, bookmarkId));
+	} catch (error) {
+		logger.error("Error deleting bookmark links", {
+			bookmarkId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+}
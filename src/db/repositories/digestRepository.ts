@@ -0,0 +1,88 @@
+/**
+ * Digest Repository
+ *
+ * Handles database operations for merged subscription digests. A digest
+ * is stored as the pages that were sent, so its page buttons can be
+ * answered after the worker run that built it (see features/subscriptions.ts).
+ */
+
+import { eq, sql } from "drizzle-orm";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import { type Digest, digests } from "../schema.js";
+
+/**
+ * One page of a stored digest
+ */
+export interface DigestPage {
+	/** Message text (MarkdownV2) */
+	text: string;
+	/** Paper IDs on the page, for bookmark buttons */
+	paperKeys: string[];
+}
+
+/**
+ * Store a digest's pages
+ *
+ * @returns The stored digest, or null on failure
+ */
+export async function createDigest(
+	userId: number,
+	pages: DigestPage[],
+): Promise<Digest | null> {
+	try {
+		const result = await db
+			.insert(digests)
+			.values({ userId, pages: JSON.stringify(pages) })
+			.returning();
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error creating digest", {
+			userId,
+			pages: pages.length,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Find a digest by ID
+ */
+export async function findDigestById(id: number): Promise<Digest | null> {
+	try {
+		const result = await db
+			.select()
+			.from(digests)
+			.where(eq(digests.id, id))
+			.limit(1);
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error finding digest", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Delete digests older than a number of days
+ *
+ * @returns Number of digests deleted
+ */
+export async function deleteOldDigests(days: number): Promise<number> {
+	try {
+		const result = await db
+			.delete(digests)
+			.where(sql`${digests.createdAt} < datetime('now', ${`-${days} days`})`)
+			.returning({ id: digests.id });
+		return result.length;
+	} catch (error) {
+		logger.error("Error deleting old digests", {
+			days,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
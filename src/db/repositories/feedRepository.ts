@@ -0,0 +1,85 @@
+/**
+ * Feed Repository
+ *
+ * Handles database operations for personal Atom feeds. Each paper
+ * delivered to a user with a feed is stored as an entry; the feed route
+ * (see features/delivery.ts) serves the most recent ones.
+ */
+
+import { desc, eq, sql } from "drizzle-orm";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import { type FeedEntry, feedEntries, type NewFeedEntry } from "../schema.js";
+
+/**
+ * Add papers to a user's feed
+ *
+ * @returns Number of entries added
+ */
+export async function addFeedEntries(entries: NewFeedEntry[]): Promise<number> {
+	if (entries.length === 0) {
+		return 0;
+	}
+
+	try {
+		const result = await db
+			.insert(feedEntries)
+			.values(entries)
+			.returning({ id: feedEntries.id });
+		return result.length;
+	} catch (error) {
+		logger.error("Error adding feed entries", {
+			count: entries.length,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Get a user's feed entries, newest first
+ *
+ * @param limit - Maximum number of entries (default: 50)
+ */
+export async function getFeedEntries(
+	userId: number,
+	limit = 50,
+): Promise<FeedEntry[]> {
+	try {
+		return await db
+			.select()
+			.from(feedEntries)
+			.where(eq(feedEntries.userId, userId))
+			.orderBy(desc(feedEntries.createdAt), desc(feedEntries.id))
+			.limit(limit);
+	} catch (error) {
+		logger.error("Error getting feed entries", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Delete feed entries older than a number of days
+ *
+ * @returns Number of entries deleted
+ */
+export async function deleteOldFeedEntries(days: number): Promise<number> {
+	try {
+		const result = await db
+			.delete(feedEntries)
+			.where(
+				sql`${feedEntries.createdAt} < datetime('now', ${`-${days} days`})`,
+			)
+			.returning({ id: feedEntries.id });
+		return result.length;
+	} catch (error) {
+		logger.error("Error deleting old feed entries", {
+			days,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
@@ -0,0 +1,207 @@
+/**
+ * Group Repository
+ *
+ * Handles all database operations related to Telegram groups and their members.
+ * A group's shared library is stored under the users row of the group chat,
+ * so bookmarks and subscriptions use the regular per-user repositories.
+ */
+
+import { and, asc, eq } from "drizzle-orm";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import {
+	type Group,
+	type GroupEditPolicy,
+	type GroupMember,
+	type GroupRole,
+	groupMembers,
+	groups,
+	type User,
+	users,
+} from "../schema.js";
+import { findOrCreateUser } from "./userRepository.js";
+
+/**
+ * Find a group by its Telegram chat ID
+ */
+export async function findGroupByChatId(chatId: number): Promise<Group | null> {
+	try {
+		const result = await db
+			.select()
+			.from(groups)
+			.where(eq(groups.chatId, chatId))
+			.limit(1);
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error finding group by chat ID", {
+			chatId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Find or create a group, creating the users row that owns its library
+ *
+ * @param chatId - Telegram group chat ID
+ * @param title - Group title, kept up to date on every call
+ */
+export async function findOrCreateGroup(
+	chatId: number,
+	title?: string,
+): Promise<Group | null> {
+	try {
+		const existing = await findGroupByChatId(chatId);
+		if (existing) {
+			if (title && existing.title !== title) {
+				const result = await db
+					.update(groups)
+					.set({ title })
+					.where(eq(groups.id, existing.id))
+					.returning();
+				return result[0] || existing;
+			}
+			return existing;
+		}
+
+		const owner = await findOrCreateUser(chatId);
+		if (!owner) {
+			return null;
+		}
+
+		const result = await db
+			.insert(groups)
+			.values({ chatId, userId: owner.id, title })
+			.onConflictDoNothing()
+			.returning();
+
+		if (!result[0]) {
+			// Created concurrently by another update
+			return findGroupByChatId(chatId);
+		}
+
+		logger.info("Created group", {
+			chatId,
+			groupId: result[0].id,
+			userId: owner.id,
+		});
+		return result[0];
+	} catch (error) {
+		logger.error("Error finding or creating group", {
+			chatId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Update who may edit a group's library
+ */
+export async function updateGroupEditPolicy(
+	groupId: number,
+	editPolicy: GroupEditPolicy,
+): Promise<Group | null> {
+	try {
+		const result = await db
+			.update(groups)
+			.set({ editPolicy })
+			.where(eq(groups.id, groupId))
+			.returning();
+
+		logger.info("Updated group edit policy", { groupId, editPolicy });
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error updating group edit policy", {
+			groupId,
+			editPolicy,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Add a member to a group or update their role
+ *
+ * @returns The member row, or null if failed
+ */
+export async function upsertGroupMember(
+	groupId: number,
+	userId: number,
+	role: GroupRole,
+): Promise<GroupMember | null> {
+	try {
+		const result = await db
+			.insert(groupMembers)
+			.values({ groupId, userId, role })
+			.onConflictDoUpdate({
+				target: [groupMembers.groupId, groupMembers.userId],
+				set: { role },
+			})
+			.returning();
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error upserting group member", {
+			groupId,
+			userId,
+			role,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Find a member of a group
+ */
+export async function findGroupMember(
+	groupId: number,
+	userId: number,
+): Promise<GroupMember | null> {
+	try {
+		const result = await db
+			.select()
+			.from(groupMembers)
+			.where(
+				and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)),
+			)
+			.limit(1);
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error finding group member", {
+			groupId,
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Get the members of a group with their user profiles, admins first
+ */
+export async function getGroupMembers(
+	groupId: number,
+): Promise<(GroupMember & { user: User })[]> {
+	try {
+		const rows = await db
+			.select({ member: groupMembers, user: users })
+			.from(groupMembers)
+			.innerJoin(users, eq(groupMembers.userId, users.id))
+			.where(eq(groupMembers.groupId, groupId))
+			.orderBy(asc(groupMembers.role), asc(groupMembers.joinedAt));
+
+		return rows.map((row) => ({ ...row.member, user: row.user }));
+	} catch (error) {
+		logger.error("Error getting group members", {
+			groupId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
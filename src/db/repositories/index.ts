@@ -11,13 +11,40 @@
 export type {
 	AnalyticsEvent,
 	Bookmark,
+	BookmarkCollection,
+	BookmarkTag,
+	Broadcast,
+	BroadcastStatus,
+	Collection,
+	Digest,
+	FeedEntry,
+	Group,
+	GroupEditPolicy,
+	GroupMember,
+	GroupRole,
+	IndexedPaper,
+	Job,
+	JobState,
 	NewAnalyticsEvent,
 	NewBookmark,
+	NewBookmarkCollection,
+	NewBookmarkTag,
+	NewBroadcast,
+	NewCollection,
+	NewDigest,
+	NewFeedEntry,
+	NewGroup,
+	NewGroupMember,
+	NewIndexedPaper,
+	NewJob,
+	NewPaperCacheEntry,
 	NewPaperView,
 	NewSearchHistoryEntry,
 	NewSubscription,
 	NewUser,
+	PaperCacheEntry,
 	PaperView,
+	ReadingStatus,
 	SearchHistoryEntry,
 	Subscription,
 	User,
@@ -25,18 +52,111 @@ export type {
 
 // Bookmark repository
 export {
+	type BookmarkSort,
 	createBookmark,
+	createBookmarks,
 	deleteBookmark,
 	deleteBookmarkByArxivId,
 	findBookmarkByArxivId,
+	findBookmarkByArxivIdAnyVersion,
 	findBookmarkById,
 	getBookmarkAuthors,
 	getBookmarkCategories,
+	getBookmarksDueForVersionCheck,
+	getBookmarksWithNotes,
 	getUserBookmarkCount,
 	getUserBookmarks,
 	isBookmarked,
 	updateBookmarkNotes,
+	updateBookmarkRating,
+	updateBookmarkReadingStatus,
+	updateBookmarkVersion,
 } from "./bookmarkRepository.js";
+// Broadcast repository (admin announcements)
+export {
+	type BroadcastRecipient,
+	cancelBroadcast,
+	claimStaleBroadcast,
+	createBroadcast,
+	findBroadcastById,
+	finishBroadcast,
+	getAudienceChatIds,
+	getAudienceRecipients,
+	getBroadcastAudience,
+	getRecentBroadcasts,
+	startBroadcast,
+	updateBroadcastProgress,
+} from "./broadcastRepository.js";
+// Collection repository (collections and tags)
+export {
+	addBookmarkTags,
+	addBookmarkToCollection,
+	createCollection,
+	deleteBookmarkLinks,
+	deleteCollection,
+	findCollectionById,
+	findCollectionByName,
+	getBookmarkCollectionNames,
+	getBookmarksByTag,
+	getBookmarkTags,
+	getCollectionBookmarks,
+	getUserCollections,
+	getUserTags,
+	removeBookmarkFromCollection,
+	removeBookmarkTags,
+} from "./collectionRepository.js";
+// Digest repository (merged subscription digests)
+export {
+	createDigest,
+	type DigestPage,
+	deleteOldDigests,
+	findDigestById,
+} from "./digestRepository.js";
+// Feed repository (personal Atom feeds)
+export {
+	addFeedEntries,
+	deleteOldFeedEntries,
+	getFeedEntries,
+} from "./feedRepository.js";
+// Group repository
+export {
+	findGroupByChatId,
+	findGroupMember,
+	findOrCreateGroup,
+	getGroupMembers,
+	updateGroupEditPolicy,
+	upsertGroupMember,
+} from "./groupRepository.js";
+// Job repository (durable job queue)
+export {
+	claimJobs,
+	completeJob,
+	deleteOldJobs,
+	enqueueJobs,
+	failJob,
+	getJobCounts,
+	getJobsByState,
+	type JobInput,
+	renewJobLease,
+	retryDeadJobs,
+} from "./jobRepository.js";
+// Paper cache repository (database tier of the paper cache)
+export {
+	clearPaperCache,
+	deletePaperCacheValue,
+	getPaperCacheCount,
+	getPaperCacheValue,
+	setPaperCacheValue,
+	trimPaperCache,
+} from "./paperCacheRepository.js";
+// Paper index repository (similar-paper search)
+export {
+	findIndexedPapers,
+	getIndexedPaperCount,
+	getIndexedPapers,
+	updateIndexedPaperEmbedding,
+	upsertIndexedPapers,
+} from "./paperIndexRepository.js";
 // Paper view repository (read/unread tracking)
 export {
 	clearAllViews,
@@ -64,6 +184,7 @@ export {
 export {
 	createSubscription,
 	deactivateSubscription,
+	deactivateUserSubscriptions,
 	deleteSubscription,
 	deleteSubscriptionByTopic,
 	findSubscription,
@@ -83,9 +204,17 @@ export {
 	deleteUser,
 	findOrCreateUser,
 	findUserByChatId,
+	findUserByFeedToken,
 	findUserById,
+	getDueForYouDigestUsers,
 	getUserCount,
 	getUserPreferredCategories,
+	markForYouDigestSent,
+	recordEmailCodeAttempt,
+	setForYouDigest,
+	setUserFeedToken,
+	updateUserDeliverySettings,
+	updateUserEmail,
 	updateUserLastActive,
 	updateUserPreferences,
 } from "./userRepository.js";
@@ -0,0 +1,402 @@
+/**
+ * Job Repository
+ *
+ * Handles database operations for the durable job queue used by the
+ * subscription worker. Workers claim jobs by taking a time-limited lease,
+ * so several webhook instances or cron invocations never run the same job
+ * at once, and jobs left behind by a crashed worker are picked up again
+ * once their lease runs out.
+ *
+ * Each key has at most one pending or running job: enqueueing work that
+ * is already queued is a no-op. A key with a dead job is not queued again
+ * until an admin retries the job (/admin_retry) or it is cleaned up, so
+ * work that always fails does not add a dead job on every run.
+ */
+
+import { and, asc, count, desc, eq, inArray, lt, or, sql } from "drizzle-orm";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import { type Job, type JobState, jobs } from "../schema.js";
+
+/**
+ * Work to add to the queue
+ */
+export interface JobInput {
+	type: string;
+	/** Identifies the work, e.g. "subscription:42" */
+	key: string;
+	payload: unknown;
+	/** Attempts before the job is dead (default: 5) */
+	maxAttempts?: number;
+}
+
+/**
+ * SQL for a timestamp a number of seconds from now
+ */
+function secondsFromNow(seconds: number) {
+	return sql`datetime('now', ${`+${Math.max(0, Math.round(seconds))} seconds`})`;
+}
+
+/**
+ * Add jobs to the queue, skipping keys that already have a pending,
+ * running or dead job
+ *
+ * @returns Number of jobs added
+ */
+export async function enqueueJobs(inputs: JobInput[]): Promise<number> {
+	if (inputs.length === 0) {
+		return 0;
+	}
+
+	try {
+		const dead = await db
+			.selectDistinct({ key: jobs.key })
+			.from(jobs)
+			.where(
+				and(
+					eq(jobs.state, "dead"),
+					inArray(
+						jobs.key,
+						inputs.map((input) => input.key),
+					),
+				),
+			);
+		const deadKeys = new Set(dead.map((row) => row.key));
+		const queued = inputs.filter((input) => !deadKeys.has(input.key));
+		if (queued.length === 0) {
+			return 0;
+		}
+
+		const result = await db
+			.insert(jobs)
+			.values(
+				queued.map((input) => ({
+					type: input.type,
+					key: input.key,
+					payload: JSON.stringify(input.payload),
+					maxAttempts: input.maxAttempts,
+				})),
+			)
+			.onConflictDoNothing()
+			.returning({ id: jobs.id });
+		return result.length;
+	} catch (error) {
+		logger.error("Error enqueueing jobs", {
+			count: inputs.length,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Claim jobs that are due, or whose lease has run out
+ *
+ * Claiming takes a lease and counts an attempt. Jobs whose lease ran out
+ * on their last attempt are marked dead instead.
+ *
+ * @param workerId - Identifies the worker holding the lease
+ * @param options - Job types, maximum number of jobs and lease length
+ * @returns The claimed jobs, oldest first
+ */
+export async function claimJobs(
+	workerId: string,
+	options: { types: string[]; limit: number; leaseSeconds: number },
+): Promise<Job[]> {
+	const now = sql`datetime('now')`;
+	const expired = and(eq(jobs.state, "running"), lt(jobs.lockedUntil, now));
+
+	try {
+		await db
+			.update(jobs)
+			.set({
+				state: "dead",
+				lockedBy: null,
+				lockedUntil: null,
+				lastError: sql`coalesce(${jobs.lastError}, 'Lease expired')`,
+				updatedAt: now,
+			})
+			.where(
+				and(
+					expired,
+					sql`${jobs.attempts} >= ${jobs.maxAttempts}`,
+					inArray(jobs.type, options.types),
+				),
+			);
+
+		// A single UPDATE is atomic, so two workers never claim the same job
+		const claimable = and(
+			inArray(jobs.type, options.types),
+			or(and(eq(jobs.state, "pending"), sql`${jobs.runAt} <= ${now}`), expired),
+		);
+		return await db
+			.update(jobs)
+			.set({
+				state: "running",
+				attempts: sql`${jobs.attempts} + 1`,
+				lockedBy: workerId,
+				lockedUntil: secondsFromNow(options.leaseSeconds),
+				updatedAt: now,
+			})
+			.where(
+				and(
+					claimable,
+					inArray(
+						jobs.id,
+						db
+							.select({ id: jobs.id })
+							.from(jobs)
+							.where(claimable)
+							.orderBy(asc(jobs.runAt), asc(jobs.id))
+							.limit(options.limit),
+					),
+				),
+			)
+			.returning()
+			.then((claimed) => claimed.sort((a, b) => a.id - b.id));
+	} catch (error) {
+		logger.error("Error claiming jobs", {
+			workerId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Mark a claimed job as done
+ *
+ * @returns False if the worker no longer holds the job's lease
+ */
+export async function completeJob(
+	id: number,
+	workerId: string,
+): Promise<boolean> {
+	try {
+		const result = await db
+			.update(jobs)
+			.set({
+				state: "done",
+				lockedBy: null,
+				lockedUntil: null,
+				lastError: null,
+				updatedAt: sql`datetime('now')`,
+			})
+			.where(
+				and(
+					eq(jobs.id, id),
+					eq(jobs.state, "running"),
+					eq(jobs.lockedBy, workerId),
+				),
+			)
+			.returning({ id: jobs.id });
+		return result.length > 0;
+	} catch (error) {
+		logger.error("Error completing job", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Extend the lease on a claimed job
+ *
+ * @returns False if the worker no longer holds the job's lease
+ */
+export async function renewJobLease(
+	id: number,
+	workerId: string,
+	leaseSeconds: number,
+): Promise<boolean> {
+	try {
+		const result = await db
+			.update(jobs)
+			.set({
+				lockedUntil: secondsFromNow(leaseSeconds),
+				updatedAt: sql`datetime('now')`,
+			})
+			.where(
+				and(
+					eq(jobs.id, id),
+					eq(jobs.state, "running"),
+					eq(jobs.lockedBy, workerId),
+					sql`${jobs.lockedUntil} > datetime('now')`,
+				),
+			)
+			.returning({ id: jobs.id });
+		return result.length > 0;
+	} catch (error) {
+		logger.error("Error renewing job lease", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Record a failed attempt at a claimed job
+ *
+ * The job is retried after retryDelayMs, or marked dead if it has used
+ * all its attempts. A new payload records progress for the next attempt.
+ *
+ * @returns The job's new state, or null if the worker no longer holds its lease
+ */
+export async function failJob(
+	job: Job,
+	workerId: string,
+	error: string,
+	retryDelayMs: number,
+	payload?: unknown,
+): Promise<JobState | null> {
+	const state: JobState = job.attempts >= job.maxAttempts ? "dead" : "pending";
+
+	try {
+		const result = await db
+			.update(jobs)
+			.set({
+				state,
+				runAt: secondsFromNow(retryDelayMs / 1000),
+				lockedBy: null,
+				lockedUntil: null,
+				lastError: error,
+				...(payload === undefined ? {} : { payload: JSON.stringify(payload) }),
+				updatedAt: sql`datetime('now')`,
+			})
+			.where(
+				and(
+					eq(jobs.id, job.id),
+					eq(jobs.state, "running"),
+					eq(jobs.lockedBy, workerId),
+				),
+			)
+			.returning({ id: jobs.id });
+		return result.length > 0 ? state : null;
+	} catch (dbError) {
+		logger.error("Error failing job", {
+			id: job.id,
+			error: dbError instanceof Error ? dbError.message : String(dbError),
+		});
+		return null;
+	}
+}
+
+/**
+ * Queue dead jobs again with a fresh set of attempts
+ *
+ * Dead jobs whose key has been queued again since, or that a later dead
+ * job of the same key replaces, are left alone.
+ *
+ * @param id - Job to retry (default: every dead job)
+ * @returns Number of jobs queued again
+ */
+export async function retryDeadJobs(id?: number): Promise<number> {
+	try {
+		const result = await db
+			.update(jobs)
+			.set({
+				state: "pending",
+				attempts: 0,
+				runAt: sql`datetime('now')`,
+				updatedAt: sql`datetime('now')`,
+			})
+			.where(
+				and(
+					eq(jobs.state, "dead"),
+					id === undefined ? undefined : eq(jobs.id, id),
+					sql`jobs.id = (SELECT max(j.id) FROM jobs j WHERE j.key = jobs.key AND j.state = 'dead')`,
+					sql`NOT EXISTS (SELECT 1 FROM jobs j WHERE j.key = jobs.key AND j.state IN ('pending', 'running'))`,
+				),
+			)
+			.returning({ id: jobs.id });
+
+		logger.info("Retried dead jobs", { id, count: result.length });
+		return result.length;
+	} catch (error) {
+		logger.error("Error retrying dead jobs", {
+			id,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Count jobs in each state
+ */
+export async function getJobCounts(): Promise<Record<JobState, number>> {
+	const counts: Record<JobState, number> = {
+		pending: 0,
+		running: 0,
+		done: 0,
+		dead: 0,
+	};
+
+	try {
+		const rows = await db
+			.select({ state: jobs.state, count: count() })
+			.from(jobs)
+			.groupBy(jobs.state);
+		for (const row of rows) {
+			counts[row.state] = row.count;
+		}
+	} catch (error) {
+		logger.error("Error counting jobs", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+	return counts;
+}
+
+/**
+ * Get jobs in a state, most recently updated first
+ *
+ * @param limit - Maximum number of jobs (default: 10)
+ */
+export async function getJobsByState(
+	state: JobState,
+	limit = 10,
+): Promise<Job[]> {
+	try {
+		return await db
+			.select()
+			.from(jobs)
+			.where(eq(jobs.state, state))
+			.orderBy(desc(jobs.updatedAt), desc(jobs.id))
+			.limit(limit);
+	} catch (error) {
+		logger.error("Error getting jobs", {
+			state,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Delete finished and dead jobs last updated more than a number of days ago
+ *
+ * @returns Number of jobs deleted
+ */
+export async function deleteOldJobs(days: number): Promise<number> {
+	try {
+		const result = await db
+			.delete(jobs)
+			.where(
+				and(
+					inArray(jobs.state, ["done", "dead"]),
+					sql`${jobs.updatedAt} < datetime('now', ${`-${days} days`})`,
+				),
+			)
+			.returning({ id: jobs.id });
+		return result.length;
+	} catch (error) {
+		logger.error("Error deleting old jobs", {
+			days,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
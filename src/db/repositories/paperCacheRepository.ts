@@ -0,0 +1,145 @@
+/**
+ * Paper Cache Repository
+ *
+ * Handles database operations for the database tier of the paper cache
+ * (see cache/sqliteTier.ts). Values are stored as the cache hands them
+ * over; this module only keeps them until they expire.
+ */
+
+import { count, eq, sql } from "drizzle-orm";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import { paperCache } from "../schema.js";
+
+/**
+ * Get an entry's value unless it has expired
+ */
+export async function getPaperCacheValue(key: string): Promise<string | null> {
+	try {
+		const rows = await db
+			.select({ value: paperCache.value })
+			.from(paperCache)
+			.where(
+				sql`${paperCache.key} = ${key} AND ${paperCache.expiresAt} > datetime('now')`,
+			)
+			.limit(1);
+		return rows[0]?.value ?? null;
+	} catch (error) {
+		logger.error("Error getting paper cache entry", {
+			key,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Store an entry, replacing any entry with the same key
+ *
+ * @param ttlSeconds - Seconds until the entry expires
+ */
+export async function setPaperCacheValue(
+	key: string,
+	value: string,
+	ttlSeconds: number,
+): Promise<boolean> {
+	const expiresAt = sql`datetime('now', ${`+${Math.ceil(ttlSeconds)} seconds`})`;
+
+	try {
+		await db
+			.insert(paperCache)
+			.values({ key, value, expiresAt })
+			.onConflictDoUpdate({
+				target: paperCache.key,
+				set: { value, expiresAt, createdAt: sql`CURRENT_TIMESTAMP` },
+			});
+		return true;
+	} catch (error) {
+		logger.error("Error setting paper cache entry", {
+			key,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Delete an entry
+ */
+export async function deletePaperCacheValue(key: string): Promise<boolean> {
+	try {
+		const result = await db
+			.delete(paperCache)
+			.where(eq(paperCache.key, key))
+			.returning({ key: paperCache.key });
+		return result.length > 0;
+	} catch (error) {
+		logger.error("Error deleting paper cache entry", {
+			key,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Delete expired entries, then the oldest entries beyond a limit
+ *
+ * @param maxEntries - Most entries to keep
+ * @returns Number of unexpired entries deleted to stay within the limit
+ */
+export async function trimPaperCache(maxEntries: number): Promise<number> {
+	try {
+		await db
+			.delete(paperCache)
+			.where(sql`${paperCache.expiresAt} <= datetime('now')`);
+
+		const evicted = await db
+			.delete(paperCache)
+			.where(
+				sql`${paperCache.key} IN (SELECT key FROM paper_cache ORDER BY created_at DESC, rowid DESC LIMIT -1 OFFSET ${maxEntries})`,
+			)
+			.returning({ key: paperCache.key });
+		return evicted.length;
+	} catch (error) {
+		logger.error("Error trimming paper cache", {
+			maxEntries,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Delete every entry
+ *
+ * @returns Number of entries deleted
+ */
+export async function clearPaperCache(): Promise<number> {
+	try {
+		const result = await db
+			.delete(paperCache)
+			.returning({ key: paperCache.key });
+		return result.length;
+	} catch (error) {
+		logger.error("Error clearing paper cache", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Get the number of entries, expired ones included
+ */
+export async function getPaperCacheCount(): Promise<number> {
+	try {
+		const result = await db.select({ count: count() }).from(paperCache);
+		return result[0]?.count ?? 0;
+	} catch (error) {
+		logger.error("Error counting paper cache entries", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
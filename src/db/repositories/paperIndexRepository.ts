@@ -0,0 +1,143 @@
+/**
+ * Paper Index Repository
+ *
+ * Handles database operations for the local index of papers the bot has
+ * seen. The index is ranked in memory (see features/paperIndex.ts); this
+ * module only stores and loads it.
+ */
+
+import { count, desc, eq, inArray, sql } from "drizzle-orm";
+import { logger } from "../../utils/logger.js";
+import { db } from "../index.js";
+import {
+	type IndexedPaper,
+	type NewIndexedPaper,
+	paperIndex,
+} from "../schema.js";
+
+/**
+ * Add papers to the index, or refresh them if already indexed
+ *
+ * @returns Number of papers that were new to the index
+ */
+export async function upsertIndexedPapers(
+	papers: NewIndexedPaper[],
+): Promise<number> {
+	if (papers.length === 0) {
+		return 0;
+	}
+
+	try {
+		const before = await getIndexedPaperCount();
+		await db
+			.insert(paperIndex)
+			.values(papers)
+			.onConflictDoUpdate({
+				target: paperIndex.paperId,
+				set: {
+					title: sql`excluded.title`,
+					summary: sql`coalesce(excluded.summary, ${paperIndex.summary})`,
+					authors: sql`coalesce(excluded.authors, ${paperIndex.authors})`,
+					categories: sql`coalesce(excluded.categories, ${paperIndex.categories})`,
+					seenCount: sql`${paperIndex.seenCount} + 1`,
+					lastSeenAt: sql`CURRENT_TIMESTAMP`,
+				},
+			});
+
+		return Math.max(0, (await getIndexedPaperCount()) - before);
+	} catch (error) {
+		logger.error("Error upserting indexed papers", {
+			count: papers.length,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Get indexed papers, most recently seen first
+ *
+ * @param limit - Maximum number of papers to load
+ */
+export async function getIndexedPapers(limit = 20000): Promise<IndexedPaper[]> {
+	try {
+		return await db
+			.select()
+			.from(paperIndex)
+			.orderBy(desc(paperIndex.lastSeenAt))
+			.limit(limit);
+	} catch (error) {
+		logger.error("Error getting indexed papers", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Find indexed papers by ID
+ *
+ * @param paperIds - Indexed paper IDs (arXiv IDs without a version)
+ */
+export async function findIndexedPapers(
+	paperIds: string[],
+): Promise<IndexedPaper[]> {
+	if (paperIds.length === 0) {
+		return [];
+	}
+
+	try {
+		return await db
+			.select()
+			.from(paperIndex)
+			.where(inArray(paperIndex.paperId, paperIds));
+	} catch (error) {
+		logger.error("Error finding indexed papers", {
+			count: paperIds.length,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Count indexed papers
+ */
+export async function getIndexedPaperCount(): Promise<number> {
+	try {
+		const result = await db.select({ count: count() }).from(paperIndex);
+		return result[0]?.count ?? 0;
+	} catch (error) {
+		logger.error("Error counting indexed papers", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return 0;
+	}
+}
+
+/**
+ * Store the embedding of an indexed paper
+ *
+ * @param paperId - Indexed paper ID
+ * @param embedding - Embedding vector
+ * @param model - Name of the model that produced it
+ */
+export async function updateIndexedPaperEmbedding(
+	paperId: string,
+	embedding: number[],
+	model: string,
+): Promise<boolean> {
+	try {
+		await db
+			.update(paperIndex)
+			.set({ embedding: JSON.stringify(embedding), embeddingModel: model })
+			.where(eq(paperIndex.paperId, paperId));
+		return true;
+	} catch (error) {
+		logger.error("Error updating indexed paper embedding", {
+			paperId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
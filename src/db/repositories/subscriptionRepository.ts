@@ -7,11 +7,13 @@
 
 import { and, desc, eq, sql } from "drizzle-orm";
 import { logger } from "../../utils/logger.js";
+import { isDigestDue } from "../../utils/schedule.js";
 import { getDb, isDatabaseAvailable } from "../index.js";
 import {
 	type NewSubscription,
 	type Subscription,
 	subscriptions,
+	users,
 } from "../schema.js";
 
 /**
@@ -163,6 +165,7 @@ export async function isSubscribed(
 				and(
 					eq(subscriptions.userId, userId),
 					eq(subscriptions.topic, topic),
+					eq(subscriptions.kind, "topic"),
 					eq(subscriptions.isActive, true),
 				),
 			)
@@ -182,12 +185,14 @@ export async function isSubscribed(
  * Find existing subscription by user and topic
  *
  * @param userId - User ID
- * @param topic - Topic
+ * @param topic - Topic (or author name for author follows)
+ * @param kind - Subscription kind (default: topic)
  * @returns Subscription or null
  */
 export async function findSubscription(
 	userId: number,
 	topic: string,
+	kind: Subscription["kind"] = "topic",
 ): Promise<Subscription | null> {
 	if (!isDatabaseAvailable()) {
 		return null;
@@ -199,7 +204,11 @@ export async function findSubscription(
 			.select()
 			.from(subscriptions)
 			.where(
-				and(eq(subscriptions.userId, userId), eq(subscriptions.topic, topic)),
+				and(
+					eq(subscriptions.userId, userId),
+					eq(subscriptions.topic, topic),
+					eq(subscriptions.kind, kind),
+				),
 			)
 			.limit(1);
 		return result[0] ?? null;
@@ -225,7 +234,15 @@ export async function updateSubscription(
 	data: Partial<
 		Pick<
 			Subscription,
-			"topic" | "category" | "intervalHours" | "isActive" | "lastRunAt"
+			| "topic"
+			| "category"
+			| "authorProfile"
+			| "scheduleType"
+			| "intervalHours"
+			| "deliveryTime"
+			| "deliveryDay"
+			| "isActive"
+			| "lastRunAt"
 		>
 	>,
 ): Promise<Subscription | null> {
@@ -273,6 +290,38 @@ export async function reactivateSubscription(id: number): Promise<boolean> {
 	return result !== null;
 }
 
+/**
+ * Deactivate all of a user's subscriptions
+ *
+ * @param userId - User ID
+ * @returns Number of subscriptions deactivated
+ */
+export async function deactivateUserSubscriptions(
+	userId: number,
+): Promise<number> {
+	if (!isDatabaseAvailable()) {
+		return 0;
+	}
+
+	try {
+		const db = getDb();
+		const result = await db
+			.update(subscriptions)
+			.set({ isActive: false })
+			.where(
+				and(eq(subscriptions.userId, userId), eq(subscriptions.isActive, true)),
+			)
+			.returning({ id: subscriptions.id });
+		return result.length;
+	} catch (error) {
+		logger.error("Failed to deactivate user subscriptions", {
+			error: error instanceof Error ? error.message : String(error),
+			userId,
+		});
+		return 0;
+	}
+}
+
 /**
  * Delete a subscription permanently
  *
@@ -304,12 +353,14 @@ export async function deleteSubscription(id: number): Promise<boolean> {
  * Delete a subscription by user and topic
  *
  * @param userId - User ID
- * @param topic - Topic
+ * @param topic - Topic (or author name for author follows)
+ * @param kind - Subscription kind (default: topic)
  * @returns True if deleted
  */
 export async function deleteSubscriptionByTopic(
 	userId: number,
 	topic: string,
+	kind: Subscription["kind"] = "topic",
 ): Promise<boolean> {
 	if (!isDatabaseAvailable()) {
 		return false;
@@ -320,7 +371,11 @@ export async function deleteSubscriptionByTopic(
 		const result = await db
 			.delete(subscriptions)
 			.where(
-				and(eq(subscriptions.userId, userId), eq(subscriptions.topic, topic)),
+				and(
+					eq(subscriptions.userId, userId),
+					eq(subscriptions.topic, topic),
+					eq(subscriptions.kind, kind),
+				),
 			)
 			.returning();
 		return result.length > 0;
@@ -350,7 +405,8 @@ export async function updateSubscriptionLastRun(id: number): Promise<boolean> {
  * Get subscriptions that are due to run
  * Returns subscriptions where:
  * - isActive is true
- * - lastRunAt is null OR (now - lastRunAt) >= intervalHours
+ * - the next run computed by getNextRunAt (schedule, the owner's timezone
+ *   and quiet hours) is not in the future
  *
  * @param limit - Maximum number to return (default: 100)
  * @returns Array of due subscriptions
@@ -366,25 +422,27 @@ export async function getDueSubscriptions(
 		const db = getDb();
 		const now = new Date();
 
-		// Get all active subscriptions
+		// Get all active subscriptions with their owner's delivery settings
 		const allActive = await db
-			.select()
+			.select({
+				subscription: subscriptions,
+				settings: {
+					timezone: users.timezone,
+					quietHoursStart: users.quietHoursStart,
+					quietHoursEnd: users.quietHoursEnd,
+				},
+			})
 			.from(subscriptions)
+			.innerJoin(users, eq(subscriptions.userId, users.id))
 			.where(eq(subscriptions.isActive, true))
 			.limit(limit);
 
-		// Filter in JS since SQLite date handling is tricky
-		return allActive.filter((sub) => {
-			if (!sub.lastRunAt) {
-				return true; // Never run, is due
-			}
-
-			const lastRun = new Date(sub.lastRunAt);
-			const intervalMs = (sub.intervalHours ?? 24) * 60 * 60 * 1000;
-			const nextRun = new Date(lastRun.getTime() + intervalMs);
-
-			return now >= nextRun;
-		});
+		// Filter in JS since schedules depend on the user's timezone
+		return allActive
+			.filter(({ subscription, settings }) =>
+				isDigestDue(subscription, settings, now),
+			)
+			.map(({ subscription }) => subscription);
 	} catch (error) {
 		logger.error("Failed to get due subscriptions", {
 			error: error instanceof Error ? error.message : String(error),
@@ -5,9 +5,10 @@
  * Provides methods for creating, reading, updating, and deleting users.
  */
 
-import { eq } from "drizzle-orm";
+import { and, eq, isNotNull, sql } from "drizzle-orm";
 import type { LanguageCode } from "../../i18n/types.js";
 import { logger } from "../../utils/logger.js";
+import { isDigestDue } from "../../utils/schedule.js";
 import { db } from "../index.js";
 import { type NewUser, type User, users } from "../schema.js";
 
@@ -177,6 +178,234 @@ export async function updateUserLanguage(
 	}
 }
 
+/**
+ * Update a user's timezone, quiet hours and digest mode for digest delivery
+ *
+ * Pass null quiet hours to turn them off.
+ */
+export async function updateUserDeliverySettings(
+	userId: number,
+	settings: {
+		timezone?: string;
+		quietHoursStart?: string | null;
+		quietHoursEnd?: string | null;
+		mergedDigest?: boolean;
+	},
+): Promise<User | null> {
+	try {
+		const result = await db
+			.update(users)
+			.set(settings)
+			.where(eq(users.id, userId))
+			.returning();
+
+		logger.info("Updated user delivery settings", { userId, ...settings });
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error updating user delivery settings", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Turn a user's weekly "For You" digest on or off
+ *
+ * Turning it on starts the week from now, so the first digest arrives at
+ * the next weekly slot rather than immediately.
+ */
+export async function setForYouDigest(
+	userId: number,
+	enabled: boolean,
+): Promise<User | null> {
+	try {
+		const result = await db
+			.update(users)
+			.set({
+				forYouDigest: enabled,
+				...(enabled ? { forYouLastSentAt: sql`CURRENT_TIMESTAMP` } : {}),
+			})
+			.where(eq(users.id, userId))
+			.returning();
+
+		logger.info("Updated For You digest", { userId, enabled });
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error updating For You digest", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Get users whose weekly "For You" digest is due
+ *
+ * The digest follows the weekly schedule defaults (see utils/schedule.ts)
+ * in the user's timezone, outside their quiet hours.
+ */
+export async function getDueForYouDigestUsers(limit = 100): Promise<User[]> {
+	try {
+		const now = new Date();
+		const enabled = await db
+			.select()
+			.from(users)
+			.where(eq(users.forYouDigest, true))
+			.limit(limit);
+
+		return enabled.filter((user) =>
+			isDigestDue(
+				{
+					scheduleType: "weekly",
+					intervalHours: null,
+					deliveryTime: null,
+					deliveryDay: null,
+					lastRunAt: user.forYouLastSentAt,
+					createdAt: user.createdAt,
+				},
+				user,
+				now,
+			),
+		);
+	} catch (error) {
+		logger.error("Error getting due For You digests", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return [];
+	}
+}
+
+/**
+ * Record that a user's "For You" digest was sent
+ */
+export async function markForYouDigestSent(userId: number): Promise<boolean> {
+	try {
+		await db
+			.update(users)
+			.set({ forYouLastSentAt: sql`CURRENT_TIMESTAMP` })
+			.where(eq(users.id, userId));
+		return true;
+	} catch (error) {
+		logger.error("Error marking For You digest sent", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return false;
+	}
+}
+
+/**
+ * Find a user by the token in their personal feed URL
+ */
+export async function findUserByFeedToken(token: string): Promise<User | null> {
+	try {
+		const result = await db
+			.select()
+			.from(users)
+			.where(eq(users.feedToken, token))
+			.limit(1);
+
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error finding user by feed token", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Set or clear the token of a user's personal feed
+ *
+ * Pass null to turn the feed off.
+ */
+export async function setUserFeedToken(
+	userId: number,
+	feedToken: string | null,
+): Promise<User | null> {
+	try {
+		const result = await db
+			.update(users)
+			.set({ feedToken })
+			.where(eq(users.id, userId))
+			.returning();
+
+		logger.info("Updated user feed", { userId, enabled: !!feedToken });
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error updating user feed", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Update a user's email address and pending verification
+ *
+ * Pass null to clear a field.
+ */
+export async function updateUserEmail(
+	userId: number,
+	settings: {
+		email?: string | null;
+		pendingEmail?: string | null;
+		emailCode?: string | null;
+		emailCodeSentAt?: string | null;
+		emailCodeAttempts?: number;
+	},
+): Promise<User | null> {
+	try {
+		const result = await db
+			.update(users)
+			.set(settings)
+			.where(eq(users.id, userId))
+			.returning();
+
+		// The verification code is a secret, so only log which fields changed
+		logger.info("Updated user email", {
+			userId,
+			fields: Object.keys(settings),
+		});
+		return result[0] || null;
+	} catch (error) {
+		logger.error("Error updating user email", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
+/**
+ * Count a wrong email verification code
+ *
+ * @returns Wrong codes sent for the pending code so far, or null if
+ * there is no pending code or the update failed
+ */
+export async function recordEmailCodeAttempt(
+	userId: number,
+): Promise<number | null> {
+	try {
+		const result = await db
+			.update(users)
+			.set({ emailCodeAttempts: sql`${users.emailCodeAttempts} + 1` })
+			.where(and(eq(users.id, userId), isNotNull(users.emailCode)))
+			.returning({ attempts: users.emailCodeAttempts });
+		return result[0]?.attempts ?? null;
+	} catch (error) {
+		logger.error("Error recording email code attempt", {
+			userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
+	}
+}
+
 /**
  * Get user's preferred language
  */
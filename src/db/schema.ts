@@ -3,15 +3,32 @@
  *
  * Defines all database tables for the Research Bot:
  * - users: User profiles and preferences
+ * - groups: Telegram groups with a shared library (owned by the group chat's user row)
+ * - groupMembers: Group members and their roles
  * - searchHistory: Track user search queries
  * - bookmarks: Saved papers
+ * - collections: Named groups of bookmarks (many-to-many via bookmarkCollections)
+ * - bookmarkTags: Free-form tags on bookmarks
  * - subscriptions: Topic subscriptions for notifications
  * - paperViews: Track which papers users have viewed
+ * - paperIndex: Every paper the bot has seen, for local similarity search
+ * - digests: Stored pages of merged subscription digests
+ * - feedEntries: Papers delivered to users' personal Atom feeds
+ * - jobs: Durable queue of background work for the subscription worker
+ * - broadcasts: Announcements sent by admins
+ * - paperCache: Cached arXiv results (a tier of the paper cache)
  * - analytics: Usage tracking
  */
 
 import { sql } from "drizzle-orm";
-import { integer, sqliteTable, text, unique } from "drizzle-orm/sqlite-core";
+import {
+	index,
+	integer,
+	sqliteTable,
+	text,
+	unique,
+	uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 
 /**
  * Users table - stores user information and preferences
@@ -25,10 +42,72 @@ export const users = sqliteTable("users", {
 	language: text("language").default("en"), // User's preferred language code
 	resultsPerPage: integer("results_per_page").default(5),
 	preferredCategories: text("preferred_categories"), // JSON array
+	timezone: text("timezone").default("UTC"), // IANA name, used for digest schedules
+	// Local "HH:MM" window in which no digests are delivered (may wrap past midnight)
+	quietHoursStart: text("quiet_hours_start"),
+	quietHoursEnd: text("quiet_hours_end"),
+	// Weekly "For You" digest of papers matching the user's interests
+	forYouDigest: integer("for_you_digest", { mode: "boolean" }).default(false),
+	forYouLastSentAt: text("for_you_last_sent_at"),
+	// Send all due subscriptions as one merged digest instead of one message each
+	mergedDigest: integer("merged_digest", { mode: "boolean" }).default(false),
+	// Verified address for email digests; pendingEmail waits for emailCode
+	email: text("email"),
+	pendingEmail: text("pending_email"),
+	emailCode: text("email_code"),
+	emailCodeSentAt: text("email_code_sent_at"),
+	// Wrong codes sent for emailCode; the code is dropped after a few
+	emailCodeAttempts: integer("email_code_attempts").notNull().default(0),
+	// Secret in the personal Atom feed URL (null = feed off)
+	feedToken: text("feed_token").unique(),
 	createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 	lastActiveAt: text("last_active_at"),
 });
 
+/**
+ * Groups table - Telegram groups the bot has been added to
+ *
+ * The group's library, subscriptions and exports belong to the users row
+ * of the group chat itself (userId), so they reuse the per-user tables.
+ */
+export const groups = sqliteTable("groups", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	chatId: integer("chat_id").notNull().unique(),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	title: text("title"),
+	// Who may add papers and manage subscriptions; admins can always remove papers
+	editPolicy: text("edit_policy", { enum: ["members", "admins"] })
+		.notNull()
+		.default("members"),
+	createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Group members table - users who have used the bot in a group
+ * Roles are synced from Telegram's chat administrators
+ */
+export const groupMembers = sqliteTable(
+	"group_members",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		groupId: integer("group_id")
+			.notNull()
+			.references(() => groups.id, { onDelete: "cascade" }),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		role: text("role", { enum: ["admin", "member"] })
+			.notNull()
+			.default("member"),
+		joinedAt: text("joined_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+	},
+	(table) => ({
+		groupUserUnique: unique().on(table.groupId, table.userId),
+	}),
+);
+
 /**
  * Search history table - tracks user search queries
  */
@@ -52,7 +131,9 @@ export const bookmarks = sqliteTable(
 		userId: integer("user_id")
 			.notNull()
 			.references(() => users.id, { onDelete: "cascade" }),
+		// Bare arXiv ID, or source-qualified ID for other sources (e.g. "pubmed:123")
 		arxivId: text("arxiv_id").notNull(),
+		source: text("source").notNull().default("arxiv"),
 		title: text("title").notNull(),
 		authors: text("authors"), // JSON array or comma-separated
 		summary: text("summary"),
@@ -60,6 +141,29 @@ export const bookmarks = sqliteTable(
 		categories: text("categories"), // JSON array
 		publishedDate: text("published_date"),
 		notes: text("notes"),
+		readingStatus: text("reading_status", {
+			enum: ["to-read", "reading", "read", "abandoned"],
+		})
+			.notNull()
+			.default("to-read"),
+		rating: integer("rating"), // 1-5, null when unrated
+		statusUpdatedAt: text("status_updated_at"),
+		// Member who added the paper to a group library (null for personal bookmarks)
+		addedBy: integer("added_by").references(() => users.id, {
+			onDelete: "set null",
+		}),
+		// arXiv metadata (null for other sources)
+		primaryCategory: text("primary_category"),
+		doi: text("doi"),
+		comment: text("comment"),
+		affiliations: text("affiliations"), // JSON object of author name -> affiliations
+		updatedDate: text("updated_date"),
+		// arXiv version the paper was bookmarked at, and the latest one seen since
+		version: integer("version"),
+		latestVersion: integer("latest_version"),
+		journalRef: text("journal_ref"),
+		// When arXiv was last checked for a new version or journal reference
+		versionCheckedAt: text("version_checked_at"),
 		createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 	},
 	(table) => ({
@@ -68,6 +172,64 @@ export const bookmarks = sqliteTable(
 	}),
 );
 
+/**
+ * Collections table - named groups of bookmarks (e.g. "thesis")
+ */
+export const collections = sqliteTable(
+	"collections",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		userId: integer("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		name: text("name").notNull(),
+		createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+	},
+	(table) => ({
+		// Collection names are unique per user
+		userNameUnique: unique().on(table.userId, table.name),
+	}),
+);
+
+/**
+ * Bookmark collections table - links bookmarks to collections
+ * A bookmark can belong to any number of collections
+ */
+export const bookmarkCollections = sqliteTable(
+	"bookmark_collections",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		bookmarkId: integer("bookmark_id")
+			.notNull()
+			.references(() => bookmarks.id, { onDelete: "cascade" }),
+		collectionId: integer("collection_id")
+			.notNull()
+			.references(() => collections.id, { onDelete: "cascade" }),
+		createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+	},
+	(table) => ({
+		bookmarkCollectionUnique: unique().on(table.bookmarkId, table.collectionId),
+	}),
+);
+
+/**
+ * Bookmark tags table - free-form tags on bookmarks
+ */
+export const bookmarkTags = sqliteTable(
+	"bookmark_tags",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		bookmarkId: integer("bookmark_id")
+			.notNull()
+			.references(() => bookmarks.id, { onDelete: "cascade" }),
+		tag: text("tag").notNull(), // Normalized: lowercase, no leading "#"
+		createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+	},
+	(table) => ({
+		bookmarkTagUnique: unique().on(table.bookmarkId, table.tag),
+	}),
+);
+
 /**
  * Subscriptions table - topic subscriptions for notifications
  */
@@ -76,9 +238,24 @@ export const subscriptions = sqliteTable("subscriptions", {
 	userId: integer("user_id")
 		.notNull()
 		.references(() => users.id, { onDelete: "cascade" }),
+	// "topic" searches for topic; "author" follows the author named by topic
+	kind: text("kind", { enum: ["topic", "author"] })
+		.notNull()
+		.default("topic"),
 	topic: text("topic").notNull(),
 	category: text("category"),
+	source: text("source").notNull().default("arxiv"),
+	// JSON AuthorProfile (co-authors, categories) telling a followed author apart
+	authorProfile: text("author_profile"),
+	// "interval" runs every intervalHours; "daily"/"weekly" run at deliveryTime in the user's timezone
+	scheduleType: text("schedule_type", { enum: ["interval", "daily", "weekly"] })
+		.notNull()
+		.default("interval"),
 	intervalHours: integer("interval_hours").default(24),
+	deliveryTime: text("delivery_time"), // Local "HH:MM"
+	deliveryDay: integer("delivery_day"), // Weekday for weekly digests (0 = Sunday)
+	// Lower bound on submission date for the first digest (ISO); later digests use lastRunAt
+	submittedAfter: text("submitted_after"),
 	lastRunAt: text("last_run_at"),
 	isActive: integer("is_active", { mode: "boolean" }).default(true),
 	createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
@@ -104,6 +281,142 @@ export const paperViews = sqliteTable(
 	}),
 );
 
+/**
+ * Paper index table - every paper the bot has seen
+ * Filled from bookmarks, subscription digests and search results; /similar
+ * ranks papers from it with TF-IDF (and embeddings when a model is set)
+ */
+export const paperIndex = sqliteTable("paper_index", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	// Stored paper ID; arXiv IDs without a version suffix
+	paperId: text("paper_id").notNull().unique(),
+	source: text("source").notNull().default("arxiv"),
+	title: text("title").notNull(),
+	authors: text("authors"), // JSON array
+	summary: text("summary"),
+	link: text("link").notNull(),
+	categories: text("categories"), // JSON array
+	publishedDate: text("published_date"),
+	embedding: text("embedding"), // JSON array from embeddingModel
+	embeddingModel: text("embedding_model"),
+	seenCount: integer("seen_count").notNull().default(1),
+	firstSeenAt: text("first_seen_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+	lastSeenAt: text("last_seen_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Digests table - merged subscription digests
+ * Pages are stored as sent so the page buttons under a digest keep working
+ * after the worker that built it has finished
+ */
+export const digests = sqliteTable("digests", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	pages: text("pages").notNull(), // JSON array of { text, paperKeys }
+	createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Feed entries table - papers delivered to a user's personal Atom feed
+ */
+export const feedEntries = sqliteTable("feed_entries", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	userId: integer("user_id")
+		.notNull()
+		.references(() => users.id, { onDelete: "cascade" }),
+	paperId: text("paper_id").notNull(),
+	title: text("title").notNull(),
+	summary: text("summary"),
+	link: text("link").notNull(),
+	authors: text("authors"), // JSON array
+	topic: text("topic"), // Subscription that found the paper
+	createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+/**
+ * Jobs table - durable queue of background work
+ *
+ * A worker claims a pending job by taking a lease (lockedBy/lockedUntil);
+ * jobs whose lease runs out are claimed again. Failed jobs are retried
+ * with backoff until maxAttempts, then kept as "dead" for admins to
+ * inspect and retry (/admin_jobs). A key with a dead job is not queued
+ * again until the job is retried.
+ */
+export const jobs = sqliteTable(
+	"jobs",
+	{
+		id: integer("id").primaryKey({ autoIncrement: true }),
+		type: text("type").notNull(), // e.g. "subscription", "digest"
+		// Identifies the work; one pending or running job per key
+		key: text("key").notNull(),
+		payload: text("payload").notNull(), // JSON
+		state: text("state", { enum: ["pending", "running", "done", "dead"] })
+			.notNull()
+			.default("pending"),
+		attempts: integer("attempts").notNull().default(0),
+		maxAttempts: integer("max_attempts").notNull().default(5),
+		runAt: text("run_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+		lockedBy: text("locked_by"),
+		lockedUntil: text("locked_until"),
+		lastError: text("last_error"),
+		createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+		updatedAt: text("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+	},
+	(table) => ({
+		stateRunAtIdx: index("idx_jobs_state_run_at").on(table.state, table.runAt),
+		// Each key has at most one pending or running job
+		activeKeyUnique: uniqueIndex("idx_jobs_active_key")
+			.on(table.key)
+			.where(sql`${table.state} IN ('pending', 'running')`),
+	}),
+);
+
+/**
+ * Broadcasts table - announcements sent by admins with /broadcast
+ *
+ * A broadcast is a draft until the admin confirms the preview, and keeps
+ * its delivery counts once it is done or cancelled. While it is sent, the
+ * process sending it holds a lease; if that process stops, the worker
+ * takes over once the lease runs out and carries on after the cursor.
+ */
+export const broadcasts = sqliteTable("broadcasts", {
+	id: integer("id").primaryKey({ autoIncrement: true }),
+	adminChatId: integer("admin_chat_id").notNull(),
+	message: text("message").notNull(),
+	audience: text("audience").notNull(), // JSON BroadcastAudience
+	status: text("status", {
+		enum: ["draft", "running", "done", "cancelled"],
+	})
+		.notNull()
+		.default("draft"),
+	total: integer("total").notNull().default(0),
+	sent: integer("sent").notNull().default(0),
+	failed: integer("failed").notNull().default(0),
+	// users.id of the last recipient handled; sending resumes after it
+	cursor: integer("cursor").notNull().default(0),
+	statusMessageId: integer("status_message_id"), // The admin's progress message
+	lockedBy: text("locked_by"), // Process sending the broadcast
+	lockedUntil: text("locked_until"),
+	createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+	startedAt: text("started_at"),
+	finishedAt: text("finished_at"),
+});
+
+/**
+ * Paper cache table - the database tier of the paper cache
+ *
+ * Entries are dropped once expired; when the table is full, the oldest
+ * entries go first (see cache/sqliteTier.ts).
+ */
+export const paperCache = sqliteTable("paper_cache", {
+	key: text("key").primaryKey(),
+	value: text("value").notNull(), // JSON CachedPapers
+	expiresAt: text("expires_at").notNull(),
+	createdAt: text("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
 /**
  * Analytics table - tracks usage events
  */
@@ -121,11 +434,29 @@ export const analytics = sqliteTable("analytics", {
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 
+export type Group = typeof groups.$inferSelect;
+export type NewGroup = typeof groups.$inferInsert;
+export type GroupEditPolicy = Group["editPolicy"];
+
+export type GroupMember = typeof groupMembers.$inferSelect;
+export type NewGroupMember = typeof groupMembers.$inferInsert;
+export type GroupRole = GroupMember["role"];
+
 export type SearchHistoryEntry = typeof searchHistory.$inferSelect;
 export type NewSearchHistoryEntry = typeof searchHistory.$inferInsert;
 
 export type Bookmark = typeof bookmarks.$inferSelect;
 export type NewBookmark = typeof bookmarks.$inferInsert;
+export type ReadingStatus = Bookmark["readingStatus"];
+
+export type Collection = typeof collections.$inferSelect;
+export type NewCollection = typeof collections.$inferInsert;
+
+export type BookmarkCollection = typeof bookmarkCollections.$inferSelect;
+export type NewBookmarkCollection = typeof bookmarkCollections.$inferInsert;
+
+export type BookmarkTag = typeof bookmarkTags.$inferSelect;
+export type NewBookmarkTag = typeof bookmarkTags.$inferInsert;
 
 export type Subscription = typeof subscriptions.$inferSelect;
 export type NewSubscription = typeof subscriptions.$inferInsert;
@@ -133,5 +464,25 @@ export type NewSubscription = typeof subscriptions.$inferInsert;
 export type PaperView = typeof paperViews.$inferSelect;
 export type NewPaperView = typeof paperViews.$inferInsert;
 
+export type IndexedPaper = typeof paperIndex.$inferSelect;
+export type NewIndexedPaper = typeof paperIndex.$inferInsert;
+
+export type Digest = typeof digests.$inferSelect;
+export type NewDigest = typeof digests.$inferInsert;
+
+export type FeedEntry = typeof feedEntries.$inferSelect;
+export type NewFeedEntry = typeof feedEntries.$inferInsert;
+
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+export type JobState = Job["state"];
+
+export type Broadcast = typeof broadcasts.$inferSelect;
+export type NewBroadcast = typeof broadcasts.$inferInsert;
+export type BroadcastStatus = Broadcast["status"];
+
+export type PaperCacheEntry = typeof paperCache.$inferSelect;
+export type NewPaperCacheEntry = typeof paperCache.$inferInsert;
+
 export type AnalyticsEvent = typeof analytics.$inferSelect;
 export type NewAnalyticsEvent = typeof analytics.$inferInsert;
@@ -24,6 +24,25 @@ export class ArxivApiError extends Error {
 	}
 }
 
+/**
+ * Error thrown when a non-arXiv paper source (Crossref, PubMed, ...) fails
+ */
+export class SourceApiError extends Error {
+	constructor(
+		message: string,
+		public readonly source: string,
+		public readonly statusCode?: number,
+		public readonly cause?: Error,
+	) {
+		super(message);
+		this.name = "SourceApiError";
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, SourceApiError);
+		}
+	}
+}
+
 /**
  * Error thrown when rate limits are exceeded
  */
@@ -106,6 +125,24 @@ export class RedisError extends Error {
 	}
 }
 
+/**
+ * Error thrown when sending email over SMTP fails
+ */
+export class SmtpError extends Error {
+	constructor(
+		message: string,
+		public readonly replyCode?: number,
+		public readonly cause?: Error,
+	) {
+		super(message);
+		this.name = "SmtpError";
+
+		if (Error.captureStackTrace) {
+			Error.captureStackTrace(this, SmtpError);
+		}
+	}
+}
+
 /**
  * Type guard to check if an error is an ArxivApiError
  */
@@ -113,6 +150,13 @@ export function isArxivApiError(error: unknown): error is ArxivApiError {
 	return error instanceof ArxivApiError;
 }
 
+/**
+ * Type guard to check if an error is a SourceApiError
+ */
+export function isSourceApiError(error: unknown): error is SourceApiError {
+	return error instanceof SourceApiError;
+}
+
 /**
  * Type guard to check if an error is a RateLimitError
  */
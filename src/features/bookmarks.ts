@@ -8,34 +8,72 @@
 import { InlineKeyboard } from "gramio";
 import type { Paper } from "../arxiv.js";
 import {
+	type BookmarkSort,
 	createBookmark,
 	deleteBookmarkByArxivId,
 	findBookmarkByArxivId,
 	getBookmarkAuthors,
+	getBookmarksWithNotes,
+	getCollectionBookmarks,
 	getUserBookmarkCount,
 	getUserBookmarks,
 	isBookmarked,
+	updateBookmarkNotes,
 } from "../db/repositories/index.js";
-import type { Bookmark } from "../db/schema.js";
+import type { Bookmark, ReadingStatus } from "../db/schema.js";
 import { type LanguageCode, t } from "../i18n/index.js";
-import { extractArxivId, toBibTeX } from "../utils/export.js";
+import {
+	fitsCallbackData,
+	getPaperSource,
+	getStoredPaperId,
+	parsePaperId,
+} from "../sources/paperId.js";
+import {
+	extractArxivId,
+	toBibTeX,
+	toCSLJSON,
+	toEndNoteRecord,
+	toEndNoteXML,
+	toMarkdownEntry,
+	toRIS,
+} from "../utils/export.js";
+import { EXPORT_FORMATS, type ExportFormat } from "../utils/exportStorage.js";
 import { logger } from "../utils/logger.js";
+import { indexPapers } from "./paperIndex.js";
+import {
+	formatReadingStatusLine,
+	getReadingStatusLabel,
+	READING_STATUSES,
+} from "./reading.js";
+
+/**
+ * Maximum length of a bookmark's notes
+ */
+export const MAX_NOTE_LENGTH = 3000;
+
+/**
+ * Maximum characters of notes shown in bookmark lists
+ */
+const NOTE_PREVIEW_LENGTH = 200;
 
 /**
  * Add a paper to user's bookmarks
  *
  * @param userId - Database user ID
  * @param paper - Paper to bookmark
+ * @param addedBy - Member adding the paper when userId is a group library
  * @returns The created bookmark or null if failed/already exists
  */
 export async function addBookmark(
 	userId: number,
 	paper: Paper,
+	addedBy?: number,
 ): Promise<Bookmark | null> {
-	const arxivId = extractArxivId(paper.link);
+	const arxivId = getStoredPaperId(paper);
 	if (!arxivId) {
-		logger.warn("Could not extract arXiv ID from paper link", {
+		logger.warn("Could not determine paper ID", {
 			link: paper.link,
+			source: paper.source,
 		});
 		return null;
 	}
@@ -47,15 +85,41 @@ export async function addBookmark(
 		return existing;
 	}
 
-	return createBookmark(userId, {
+	const bookmark = await createBookmark(userId, {
 		arxivId,
+		source: getPaperSource(paper),
 		title: paper.title,
 		authors: paper.authors,
 		summary: paper.summary,
 		link: paper.link,
 		categories: paper.categories,
 		publishedDate: paper.published,
+		addedBy,
+		...getBookmarkMetadata(paper),
 	});
+
+	if (bookmark) {
+		void indexPapers([paper]);
+	}
+	return bookmark;
+}
+
+/**
+ * Get the arXiv metadata stored with a bookmark of a paper
+ *
+ * @param paper - Paper being bookmarked
+ * @returns Fields for createBookmark (all undefined for other sources)
+ */
+export function getBookmarkMetadata(paper: Paper) {
+	return {
+		primaryCategory: paper.primaryCategory,
+		doi: paper.doi,
+		comment: paper.comment,
+		affiliations: paper.affiliations,
+		updatedDate: paper.updated,
+		version: paper.version,
+		journalRef: paper.journalRef,
+	};
 }
 
 /**
@@ -83,7 +147,7 @@ export async function toggleBookmark(
 	userId: number,
 	paper: Paper,
 ): Promise<{ isBookmarked: boolean; bookmark: Bookmark | null }> {
-	const arxivId = extractArxivId(paper.link);
+	const arxivId = getStoredPaperId(paper);
 	if (!arxivId) {
 		return { isBookmarked: false, bookmark: null };
 	}
@@ -118,19 +182,28 @@ export async function checkBookmarked(
  * @param userId - Database user ID
  * @param page - Page number (1-indexed)
  * @param pageSize - Number of items per page
+ * @param options - Reading status/rating filters and sort order
  * @returns Array of bookmarks
  */
 export async function getBookmarksPaginated(
 	userId: number,
 	page = 1,
 	pageSize = 5,
+	options?: {
+		status?: ReadingStatus;
+		minRating?: number;
+		sortBy?: BookmarkSort;
+	},
 ): Promise<{ bookmarks: Bookmark[]; total: number; hasMore: boolean }> {
 	const offset = (page - 1) * pageSize;
+	const filter = { status: options?.status, minRating: options?.minRating };
 	const bookmarks = await getUserBookmarks(userId, {
+		...filter,
 		limit: pageSize,
 		offset,
+		sortBy: options?.sortBy,
 	});
-	const total = await getUserBookmarkCount(userId);
+	const total = await getUserBookmarkCount(userId, filter);
 
 	return {
 		bookmarks,
@@ -144,11 +217,13 @@ export async function getBookmarksPaginated(
  *
  * @param bookmark - Bookmark to format
  * @param index - Display index
+ * @param lang - Language code for translations
  * @returns Formatted string
  */
 export function formatBookmarkMessage(
 	bookmark: Bookmark,
 	index?: number,
+	lang: LanguageCode | string = "en",
 ): string {
 	const prefix = index !== undefined ? `${index + 1}. ` : "";
 	const authors = getBookmarkAuthors(bookmark);
@@ -156,7 +231,22 @@ export function formatBookmarkMessage(
 		authors.length > 0 ? authors.slice(0, 2).join(", ") : "Unknown";
 	const moreAuthors = authors.length > 2 ? " et al." : "";
 
-	return `${prefix}${bookmark.title}\n👥 ${authorStr}${moreAuthors}\n📅 ${bookmark.publishedDate || "Unknown date"}\n🔗 ${bookmark.link}`;
+	const journalLine = bookmark.journalRef ? `\n📰 ${bookmark.journalRef}` : "";
+	const message = `${prefix}${bookmark.title}\n👥 ${authorStr}${moreAuthors}\n📅 ${bookmark.publishedDate || "Unknown date"}${journalLine}\n🔗 ${bookmark.link}`;
+
+	const statusLine = formatReadingStatusLine(bookmark, lang);
+	const withStatus = statusLine ? `${message}\n${statusLine}` : message;
+
+	const notes = bookmark.notes?.trim();
+	if (!notes) {
+		return withStatus;
+	}
+
+	const notePreview =
+		notes.length > NOTE_PREVIEW_LENGTH
+			? `${notes.substring(0, NOTE_PREVIEW_LENGTH - 3)}...`
+			: notes;
+	return `${withStatus}\n📝 ${notePreview}`;
 }
 
 /**
@@ -177,10 +267,61 @@ export function formatBookmarksListMessage(
 	}
 
 	return bookmarks
-		.map((b, i) => formatBookmarkMessage(b, startIndex + i))
+		.map((b, i) => formatBookmarkMessage(b, startIndex + i, lang))
 		.join("\n\n");
 }
 
+/**
+ * Append text to a bookmark's notes
+ *
+ * New text is added after existing notes, separated by a blank line.
+ *
+ * @param bookmark - Bookmark to annotate
+ * @param text - Note text to add
+ * @returns Updated bookmark, or null if the notes would be too long or saving failed
+ */
+export async function appendBookmarkNote(
+	bookmark: Bookmark,
+	text: string,
+): Promise<Bookmark | null> {
+	const existing = bookmark.notes?.trim();
+	const notes = existing ? `${existing}\n\n${text.trim()}` : text.trim();
+
+	if (notes.length > MAX_NOTE_LENGTH) {
+		return null;
+	}
+
+	return updateBookmarkNotes(bookmark.id, notes);
+}
+
+/**
+ * Remove all notes from a bookmark
+ *
+ * @param bookmark - Bookmark to clear
+ * @returns Updated bookmark or null if failed
+ */
+export async function clearBookmarkNote(
+	bookmark: Bookmark,
+): Promise<Bookmark | null> {
+	return updateBookmarkNotes(bookmark.id, "");
+}
+
+/**
+ * Search a user's bookmark notes
+ *
+ * @param userId - Database user ID
+ * @param query - Text to look for (empty lists all bookmarks with notes)
+ * @param limit - Maximum bookmarks to return
+ * @returns Matching bookmarks
+ */
+export async function searchBookmarkNotes(
+	userId: number,
+	query = "",
+	limit = 10,
+): Promise<Bookmark[]> {
+	return getBookmarksWithNotes(userId, { query, limit });
+}
+
 /**
  * Create keyboard for bookmark navigation
  *
@@ -237,6 +378,7 @@ export function createPaperActionsKeyboard(
 
 	if (isCurrentlyBookmarked) {
 		keyboard.text(t(lang, "bookmarks.savedButton"), `unbookmark:${arxivId}`);
+		keyboard.text(t(lang, "notes.button"), `note:${arxivId}`);
 	} else {
 		keyboard.text(t(lang, "bookmarks.saveButton"), `bookmark:${arxivId}`);
 	}
@@ -244,20 +386,40 @@ export function createPaperActionsKeyboard(
 	keyboard.row();
 	keyboard.text(t(lang, "buttons.bibtex"), `bibtex:${arxivId}`);
 	keyboard.text(t(lang, "buttons.pdf"), `pdf:${arxivId}`);
+	if (isCurrentlyBookmarked) {
+		keyboard.text(t(lang, "reading.statusButton"), `status_menu:${arxivId}`);
+	}
+
+	if (fitsCallbackData(`collect:${arxivId}`)) {
+		keyboard.row();
+		keyboard.text(t(lang, "collections.addButton"), `collect:${arxivId}`);
+	}
 
 	return keyboard;
 }
 
 /**
- * Generate BibTeX for a bookmark
+ * Get the source and external ID of a bookmark
  *
- * @param bookmark - Bookmark to convert
- * @returns BibTeX string
+ * Non-arXiv bookmarks store a source-qualified ID in arxivId.
  */
-export function bookmarkToBibTeX(bookmark: Bookmark): string {
+function bookmarkSourceFields(
+	bookmark: Bookmark,
+): Pick<Paper, "source" | "externalId"> {
+	const parsed = parsePaperId(bookmark.arxivId);
+	if (!parsed || bookmark.source === "arxiv") {
+		return {};
+	}
+	return { source: parsed.source, externalId: parsed.externalId };
+}
+
+/**
+ * Convert a bookmark back to a paper for the export formatters
+ */
+function bookmarkToPaper(bookmark: Bookmark): Paper {
 	const authors = getBookmarkAuthors(bookmark);
 
-	return toBibTeX({
+	return {
 		title: bookmark.title,
 		summary: bookmark.summary || "",
 		link: bookmark.link,
@@ -266,19 +428,56 @@ export function bookmarkToBibTeX(bookmark: Bookmark): string {
 		categories: bookmark.categories
 			? JSON.parse(bookmark.categories)
 			: undefined,
+		primaryCategory: bookmark.primaryCategory ?? undefined,
+		doi: bookmark.doi ?? undefined,
+		comment: bookmark.comment ?? undefined,
+		affiliations: bookmark.affiliations
+			? JSON.parse(bookmark.affiliations)
+			: undefined,
+		updated: bookmark.updatedDate ?? undefined,
+		version: bookmark.latestVersion ?? bookmark.version ?? undefined,
+		journalRef: bookmark.journalRef ?? undefined,
+		...bookmarkSourceFields(bookmark),
+	};
+}
+
+/**
+ * Generate BibTeX for a bookmark
+ *
+ * @param bookmark - Bookmark to convert
+ * @returns BibTeX string
+ */
+export function bookmarkToBibTeX(bookmark: Bookmark): string {
+	return toBibTeX(bookmarkToPaper(bookmark), {
+		note: bookmark.notes ?? undefined,
 	});
 }
 
+/**
+ * Get the bookmarks to export: a single collection or all of a user's bookmarks
+ */
+function getExportBookmarks(
+	userId: number,
+	collectionId?: number,
+	limit = 1000,
+): Promise<Bookmark[]> {
+	return collectionId !== undefined
+		? getCollectionBookmarks(collectionId, { limit })
+		: getUserBookmarks(userId, { limit });
+}
+
 /**
  * Export all bookmarks to BibTeX format
  *
  * @param userId - Database user ID
+ * @param collectionId - Only export this collection (caller checks ownership)
  * @returns BibTeX string with all bookmarks
  */
 export async function exportAllBookmarksToBibTeX(
 	userId: number,
+	collectionId?: number,
 ): Promise<string> {
-	const bookmarks = await getUserBookmarks(userId, { limit: 1000 });
+	const bookmarks = await getExportBookmarks(userId, collectionId);
 
 	if (bookmarks.length === 0) {
 		return "";
@@ -323,6 +522,7 @@ export function bookmarkToCSVRow(bookmark: Bookmark): string {
 		escapeCSVValue(categories),
 		escapeCSVValue(bookmark.link),
 		escapeCSVValue(bookmark.summary || ""),
+		escapeCSVValue(bookmark.notes || ""),
 	];
 
 	return fields.join(",");
@@ -332,17 +532,21 @@ export function bookmarkToCSVRow(bookmark: Bookmark): string {
  * Get CSV header row
  */
 export function getCSVHeader(): string {
-	return "arXiv ID,Title,Authors,Published Date,Categories,URL,Abstract";
+	return "arXiv ID,Title,Authors,Published Date,Categories,URL,Abstract,Notes";
 }
 
 /**
  * Export all bookmarks to CSV format
  *
  * @param userId - Database user ID
+ * @param collectionId - Only export this collection (caller checks ownership)
  * @returns CSV string with all bookmarks
  */
-export async function exportAllBookmarksToCSV(userId: number): Promise<string> {
-	const bookmarks = await getUserBookmarks(userId, { limit: 1000 });
+export async function exportAllBookmarksToCSV(
+	userId: number,
+	collectionId?: number,
+): Promise<string> {
+	const bookmarks = await getExportBookmarks(userId, collectionId);
 
 	if (bookmarks.length === 0) {
 		return "";
@@ -354,6 +558,111 @@ export async function exportAllBookmarksToCSV(userId: number): Promise<string> {
 	return [header, ...rows].join("\n");
 }
 
+/**
+ * Display labels for export formats
+ */
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+	bibtex: "📄 BibTeX (.bib)",
+	csv: "📊 CSV (.csv)",
+	ris: "📚 RIS (.ris)",
+	csljson: "🧾 CSL-JSON (.json)",
+	endnote: "🗂 EndNote XML (.xml)",
+	markdown: "📝 Markdown (.md)",
+};
+
+/**
+ * Format bookmarks as a Markdown reading list grouped by reading status
+ */
+function formatMarkdownReadingList(bookmarks: Bookmark[]): string {
+	const sections = [
+		`# Reading list\n\nExported ${new Date().toISOString().split("T")[0]} · ${bookmarks.length} papers`,
+	];
+
+	for (const status of READING_STATUSES) {
+		const entries = bookmarks.filter((b) => b.readingStatus === status);
+		if (entries.length === 0) continue;
+
+		const items = entries.map((bookmark) =>
+			toMarkdownEntry(bookmarkToPaper(bookmark), {
+				done: status === "read",
+				rating: bookmark.rating,
+				note: bookmark.notes ?? undefined,
+			}),
+		);
+		sections.push(`## ${getReadingStatusLabel(status)}\n\n${items.join("\n")}`);
+	}
+
+	return `${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Export all bookmarks in any supported format
+ *
+ * @param userId - Database user ID
+ * @param format - Export format
+ * @param collectionId - Only export this collection (caller checks ownership)
+ * @returns File contents, or an empty string when there is nothing to export
+ */
+export async function exportAllBookmarks(
+	userId: number,
+	format: ExportFormat,
+	collectionId?: number,
+): Promise<string> {
+	if (format === "bibtex") {
+		return exportAllBookmarksToBibTeX(userId, collectionId);
+	}
+	if (format === "csv") {
+		return exportAllBookmarksToCSV(userId, collectionId);
+	}
+
+	const bookmarks = await getExportBookmarks(userId, collectionId);
+	if (bookmarks.length === 0) {
+		return "";
+	}
+
+	const entries = bookmarks.map((bookmark) => ({
+		paper: bookmarkToPaper(bookmark),
+		options: { note: bookmark.notes ?? undefined },
+	}));
+
+	switch (format) {
+		case "ris":
+			return `${entries.map((e) => toRIS(e.paper, e.options)).join("\n\n")}\n`;
+		case "csljson":
+			return JSON.stringify(
+				entries.map((e) => toCSLJSON(e.paper, e.options)),
+				null,
+				2,
+			);
+		case "endnote":
+			return toEndNoteXML(
+				entries.map((e) => toEndNoteRecord(e.paper, e.options)),
+			);
+		case "markdown":
+			return formatMarkdownReadingList(bookmarks);
+	}
+}
+
+/**
+ * Create keyboard for choosing an export format
+ *
+ * @param collectionId - Only export this collection
+ * @returns InlineKeyboard with two formats per row
+ */
+export function createExportFormatKeyboard(
+	collectionId?: number,
+): InlineKeyboard {
+	const keyboard = new InlineKeyboard();
+	const suffix = collectionId !== undefined ? `:${collectionId}` : "";
+
+	for (const [i, format] of EXPORT_FORMATS.entries()) {
+		keyboard.text(EXPORT_FORMAT_LABELS[format], `export:${format}${suffix}`);
+		if (i % 2 === 1) keyboard.row();
+	}
+
+	return keyboard;
+}
+
 /**
  * Get bookmark count for a user (for export preview)
  *
@@ -394,19 +703,37 @@ export function formatBibTeXPreview(
 	return `\`\`\`\n${preview}\n\`\`\`${moreText}`;
 }
 
+/**
+ * Format the start of an export file as a code block preview
+ *
+ * @param content - Full export content
+ * @param maxLength - Maximum characters to show (default 600)
+ * @returns Formatted preview string
+ */
+export function formatExportPreview(content: string, maxLength = 600): string {
+	if (!content) return "";
+
+	const truncated = content.length > maxLength;
+	const preview = truncated ? content.substring(0, maxLength) : content;
+
+	return `\`\`\`\n${preview}${truncated ? "\n..." : ""}\n\`\`\``;
+}
+
 /**
  * Format CSV as a simple table preview for Telegram
  * Shows a condensed view of bookmarks
  *
  * @param userId - Database user ID
  * @param maxRows - Maximum number of rows to show (default 5)
+ * @param collectionId - Only preview this collection
  * @returns Formatted table string
  */
 export async function formatCSVTablePreview(
 	userId: number,
 	maxRows = 5,
+	collectionId?: number,
 ): Promise<string> {
-	const bookmarks = await getUserBookmarks(userId, { limit: maxRows + 1 });
+	const bookmarks = await getExportBookmarks(userId, collectionId, maxRows + 1);
 
 	if (bookmarks.length === 0) return "";
 
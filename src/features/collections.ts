@@ -0,0 +1,510 @@
+/**
+ * Collections Feature
+ *
+ * Lets users organise bookmarks into named collections (e.g. "thesis",
+ * "reading group") and label them with free-form tags. A bookmark can be
+ * in several collections and carry any number of tags.
+ */
+
+import { InlineKeyboard } from "gramio";
+import {
+	addBookmarkTags,
+	addBookmarkToCollection,
+	createCollection,
+	deleteCollection,
+	findBookmarkByArxivId,
+	findBookmarkByArxivIdAnyVersion,
+	findCollectionByName,
+	getUserCollections,
+	removeBookmarkFromCollection,
+	removeBookmarkTags,
+} from "../db/repositories/index.js";
+import type { Bookmark, Collection } from "../db/schema.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import {
+	fitsCallbackData,
+	formatPaperId,
+	parsePaperId,
+} from "../sources/paperId.js";
+import { createExportFormatKeyboard } from "./bookmarks.js";
+
+/**
+ * Maximum collections per user
+ */
+const MAX_COLLECTIONS_PER_USER = 20;
+
+/**
+ * Maximum length of a collection name
+ */
+const MAX_COLLECTION_NAME_LENGTH = 40;
+
+/**
+ * Maximum length of a tag
+ */
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * Result of a collection or tag operation
+ */
+export interface CollectionResult {
+	success: boolean;
+	message: string;
+	collection?: Collection;
+}
+
+/**
+ * A /collection subcommand
+ */
+export type CollectionCommand =
+	| { action: "list" }
+	| { action: "new" | "show" | "delete" | "export"; name: string }
+	| { action: "add" | "remove"; paperId: string; name: string }
+	| { action: "invalid" };
+
+/**
+ * A /tag subcommand
+ */
+export type TagCommand =
+	| { action: "list" }
+	| { action: "show"; tag: string }
+	| { action: "add" | "remove"; paperId: string; tags: string[] }
+	| { action: "invalid" };
+
+/**
+ * Normalize a collection name: trim and collapse whitespace
+ *
+ * @returns Normalized name or null if empty or too long
+ */
+export function normalizeCollectionName(name: string): string | null {
+	const normalized = name.trim().replace(/\s+/g, " ");
+	if (!normalized || normalized.length > MAX_COLLECTION_NAME_LENGTH) {
+		return null;
+	}
+	return normalized;
+}
+
+/**
+ * Normalize a tag: strip a leading "#" and lowercase
+ *
+ * Tags may contain letters, digits, "-" and "_".
+ *
+ * @returns Normalized tag or null if invalid
+ */
+export function normalizeTag(tag: string): string | null {
+	const normalized = tag.trim().replace(/^#/, "").toLowerCase();
+	if (
+		!normalized ||
+		normalized.length > MAX_TAG_LENGTH ||
+		!/^[\p{L}\p{N}_-]+$/u.test(normalized)
+	) {
+		return null;
+	}
+	return normalized;
+}
+
+/**
+ * Parse /collection command arguments
+ *
+ * Paper IDs come before collection names because names may contain spaces.
+ *
+ * @example
+ * parseCollectionArgs("new reading group") // { action: "new", name: "reading group" }
+ * parseCollectionArgs("add 2301.00001 thesis") // { action: "add", paperId: "2301.00001", name: "thesis" }
+ */
+export function parseCollectionArgs(args: string): CollectionCommand {
+	const [subcommand, ...rest] = args.trim().split(/\s+/);
+	const action = subcommand?.toLowerCase() ?? "";
+
+	if (!action || action === "list") {
+		return { action: "list" };
+	}
+
+	if (
+		action === "new" ||
+		action === "show" ||
+		action === "delete" ||
+		action === "export"
+	) {
+		const name = rest.join(" ");
+		return name ? { action, name } : { action: "invalid" };
+	}
+
+	if (action === "add" || action === "remove") {
+		const [paperId, ...nameParts] = rest;
+		const name = nameParts.join(" ");
+		return paperId && name ? { action, paperId, name } : { action: "invalid" };
+	}
+
+	return { action: "invalid" };
+}
+
+/**
+ * Parse /tag command arguments
+ *
+ * @example
+ * parseTagArgs("add 2301.00001 #nlp transformers") // { action: "add", paperId: "2301.00001", tags: ["#nlp", "transformers"] }
+ * parseTagArgs("#nlp") // { action: "show", tag: "#nlp" }
+ */
+export function parseTagArgs(args: string): TagCommand {
+	const [subcommand, ...rest] = args.trim().split(/\s+/);
+	const action = subcommand?.toLowerCase() ?? "";
+
+	if (!action || action === "list") {
+		return { action: "list" };
+	}
+
+	if (action === "add" || action === "remove") {
+		const [paperId, ...tags] = rest;
+		return paperId && tags.length > 0
+			? { action, paperId, tags }
+			: { action: "invalid" };
+	}
+
+	if (action === "show" && rest[0]) {
+		return { action: "show", tag: rest[0] };
+	}
+
+	// Shorthand: /tag #nlp
+	if (subcommand?.startsWith("#") && rest.length === 0) {
+		return { action: "show", tag: subcommand };
+	}
+
+	return { action: "invalid" };
+}
+
+/**
+ * Find a user's bookmark from a paper ID typed by the user
+ *
+ * Accepts the same formats as /save. arXiv IDs match any stored version.
+ *
+ * @param userId - Database user ID
+ * @param input - Paper ID, qualified ID or arXiv URL
+ * @returns Bookmark or null if the paper is not bookmarked
+ */
+export async function findUserBookmark(
+	userId: number,
+	input: string,
+): Promise<Bookmark | null> {
+	const parsed = parsePaperId(input);
+	if (!parsed) {
+		return null;
+	}
+
+	if (parsed.source === "arxiv") {
+		return (
+			(await findBookmarkByArxivId(userId, parsed.externalId)) ??
+			findBookmarkByArxivIdAnyVersion(userId, parsed.externalId)
+		);
+	}
+
+	return findBookmarkByArxivId(
+		userId,
+		formatPaperId(parsed.source, parsed.externalId),
+	);
+}
+
+/**
+ * Create a collection
+ *
+ * @param userId - Database user ID
+ * @param name - Collection name
+ * @param lang - Language code for the result message
+ * @returns Operation result
+ */
+export async function createNewCollection(
+	userId: number,
+	name: string,
+	lang: LanguageCode | string = "en",
+): Promise<CollectionResult> {
+	const normalized = normalizeCollectionName(name);
+	if (!normalized) {
+		return {
+			success: false,
+			message: t(lang, "collections.nameLength", {
+				max: MAX_COLLECTION_NAME_LENGTH,
+			}),
+		};
+	}
+
+	if (await findCollectionByName(userId, normalized)) {
+		return {
+			success: false,
+			message: t(lang, "collections.exists", { name: normalized }),
+		};
+	}
+
+	const existing = await getUserCollections(userId);
+	if (existing.length >= MAX_COLLECTIONS_PER_USER) {
+		return {
+			success: false,
+			message: t(lang, "collections.limit", { max: MAX_COLLECTIONS_PER_USER }),
+		};
+	}
+
+	const collection = await createCollection(userId, normalized);
+	if (!collection) {
+		return {
+			success: false,
+			message: t(lang, "collections.createFailed"),
+		};
+	}
+
+	return {
+		success: true,
+		message: t(lang, "collections.created", { name: normalized }),
+		collection,
+	};
+}
+
+/**
+ * Find one of a user's collections by name
+ */
+export async function getCollectionByName(
+	userId: number,
+	name: string,
+): Promise<Collection | null> {
+	const normalized = normalizeCollectionName(name);
+	return normalized ? findCollectionByName(userId, normalized) : null;
+}
+
+/**
+ * Delete a collection (bookmarks in it are kept)
+ *
+ * @param userId - Database user ID
+ * @param name - Collection name
+ * @param lang - Language code for the result message
+ * @returns Operation result
+ */
+export async function removeCollection(
+	userId: number,
+	name: string,
+	lang: LanguageCode | string = "en",
+): Promise<CollectionResult> {
+	const collection = await getCollectionByName(userId, name);
+	if (!collection) {
+		return {
+			success: false,
+			message: t(lang, "collections.notFound", { name }),
+		};
+	}
+
+	const deleted = await deleteCollection(collection.id);
+	return deleted
+		? {
+				success: true,
+				message: t(lang, "collections.deleted", { name: collection.name }),
+			}
+		: {
+				success: false,
+				message: t(lang, "collections.deleteFailed"),
+			};
+}
+
+/**
+ * Add a bookmarked paper to a collection
+ *
+ * @param userId - Database user ID
+ * @param bookmark - Bookmark to file
+ * @param collection - Target collection (must belong to the user)
+ * @param lang - Language code for the result message
+ * @returns Operation result
+ */
+export async function fileBookmark(
+	userId: number,
+	bookmark: Bookmark,
+	collection: Collection,
+	lang: LanguageCode | string = "en",
+): Promise<CollectionResult> {
+	if (collection.userId !== userId || bookmark.userId !== userId) {
+		return { success: false, message: t(lang, "collections.missing") };
+	}
+
+	const added = await addBookmarkToCollection(bookmark.id, collection.id);
+	return {
+		success: added,
+		message: t(lang, added ? "collections.added" : "collections.alreadyIn", {
+			name: collection.name,
+		}),
+		collection,
+	};
+}
+
+/**
+ * Remove a bookmarked paper from a collection
+ *
+ * @param bookmark - Bookmark to remove
+ * @param collection - Collection to remove it from
+ * @param lang - Language code for the result message
+ * @returns Operation result
+ */
+export async function unfileBookmark(
+	bookmark: Bookmark,
+	collection: Collection,
+	lang: LanguageCode | string = "en",
+): Promise<CollectionResult> {
+	const removed = await removeBookmarkFromCollection(
+		bookmark.id,
+		collection.id,
+	);
+	return {
+		success: removed,
+		message: t(lang, removed ? "collections.removed" : "collections.notIn", {
+			name: collection.name,
+		}),
+		collection,
+	};
+}
+
+/**
+ * Add or remove tags on a bookmark
+ *
+ * @param bookmark - Bookmark to tag
+ * @param rawTags - Tags as typed by the user
+ * @param action - Whether to add or remove the tags
+ * @param lang - Language code for the result message
+ * @returns Operation result
+ */
+export async function updateTags(
+	bookmark: Bookmark,
+	rawTags: string[],
+	action: "add" | "remove",
+	lang: LanguageCode | string = "en",
+): Promise<CollectionResult> {
+	const tags = [...new Set(rawTags.map(normalizeTag))];
+	const valid = tags.filter((tag): tag is string => tag !== null);
+
+	if (valid.length === 0 || valid.length !== tags.length) {
+		return {
+			success: false,
+			message: t(lang, "collections.invalidTags", { max: MAX_TAG_LENGTH }),
+		};
+	}
+
+	const params = {
+		title: bookmark.title,
+		tags: valid.map((tag) => `#${tag}`).join(" "),
+	};
+
+	if (action === "add") {
+		const added = await addBookmarkTags(bookmark.id, valid);
+		return {
+			success: true,
+			message: t(
+				lang,
+				added > 0 ? "collections.tagged" : "collections.alreadyTagged",
+				params,
+			),
+		};
+	}
+
+	const removed = await removeBookmarkTags(bookmark.id, valid);
+	return {
+		success: removed > 0,
+		message: t(
+			lang,
+			removed > 0 ? "collections.untagged" : "collections.notTagged",
+			params,
+		),
+	};
+}
+
+/**
+ * Format a user's collections for display
+ */
+export function formatCollectionsMessage(
+	collections: (Collection & { bookmarkCount: number })[],
+	lang: LanguageCode | string = "en",
+): string {
+	if (collections.length === 0) {
+		return t(lang, "collections.none");
+	}
+
+	const lines = collections.map((c) => {
+		const count =
+			c.bookmarkCount === 1
+				? t(lang, "collections.countOne")
+				: t(lang, "collections.countMany", { count: c.bookmarkCount });
+		return `📁 ${c.name} (${count})`;
+	});
+
+	return `${t(lang, "collections.listTitle")}\n\n${lines.join("\n")}`;
+}
+
+/**
+ * Format a user's tags for display
+ */
+export function formatTagsMessage(
+	tags: { tag: string; count: number }[],
+	lang: LanguageCode | string = "en",
+): string {
+	if (tags.length === 0) {
+		return t(lang, "collections.noTags");
+	}
+
+	const lines = tags.map((tag) => `#${tag.tag} (${tag.count})`);
+	return `${t(lang, "collections.tagsTitle")}\n\n${lines.join("\n")}`;
+}
+
+/**
+ * Get /collection usage text
+ */
+export function getCollectionUsage(lang: LanguageCode | string = "en"): string {
+	return t(lang, "collections.usage");
+}
+
+/**
+ * Get /tag usage text
+ */
+export function getTagUsage(lang: LanguageCode | string = "en"): string {
+	return t(lang, "collections.tagUsage");
+}
+
+/**
+ * Create keyboard listing a user's collections
+ */
+export function createCollectionsKeyboard(
+	collections: Collection[],
+): InlineKeyboard {
+	const keyboard = new InlineKeyboard();
+
+	for (const collection of collections) {
+		keyboard.text(`📁 ${collection.name}`, `collection:show:${collection.id}`);
+		keyboard.row();
+	}
+
+	return keyboard;
+}
+
+/**
+ * Create keyboard for filing a paper into one of the user's collections
+ *
+ * Collections whose callback data would exceed Telegram's limit are skipped.
+ *
+ * @param collections - User's collections
+ * @param arxivId - Stored paper ID
+ * @returns InlineKeyboard
+ */
+export function createCollectionPickerKeyboard(
+	collections: Collection[],
+	arxivId: string,
+): InlineKeyboard {
+	const keyboard = new InlineKeyboard();
+
+	for (const collection of collections) {
+		const callbackData = `collect_to:${collection.id}:${arxivId}`;
+		if (!fitsCallbackData(callbackData)) continue;
+		keyboard.text(`📁 ${collection.name}`, callbackData);
+		keyboard.row();
+	}
+
+	return keyboard;
+}
+
+/**
+ * Create keyboard for exporting a collection
+ */
+export function createCollectionExportKeyboard(
+	collectionId: number,
+): InlineKeyboard {
+	return createExportFormatKeyboard(collectionId);
+}
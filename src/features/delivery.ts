@@ -0,0 +1,303 @@
+/**
+ * Delivery Feature
+ *
+ * Lets users get their subscription papers outside Telegram: by email
+ * (/email, after confirming the address with a code) and in a personal
+ * Atom feed (/feed) served by the webhook server. The worker delivers to
+ * these channels through channels/index.ts.
+ */
+
+import { randomBytes, randomInt } from "node:crypto";
+import { sendVerificationEmail } from "../channels/email.js";
+import { config, isEmailConfigured } from "../config.js";
+import {
+	findUserByFeedToken,
+	getFeedEntries,
+	recordEmailCodeAttempt,
+	setUserFeedToken,
+	updateUserEmail,
+} from "../db/repositories/index.js";
+import type { User } from "../db/schema.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import { buildAtomFeed, toAtomDate } from "../utils/atom.js";
+
+/**
+ * Result of changing a delivery setting
+ */
+export interface DeliveryResult {
+	success: boolean;
+	message: string;
+}
+
+/**
+ * How long an email verification code is valid
+ */
+const EMAIL_CODE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * How long to wait before sending another verification code
+ */
+const EMAIL_CODE_RESEND_MS = 60 * 1000;
+
+/**
+ * Wrong codes accepted before a verification code is dropped
+ */
+const MAX_EMAIL_CODE_ATTEMPTS = 5;
+
+/**
+ * Number of papers in a personal feed
+ */
+const FEED_SIZE = 50;
+
+/**
+ * Get the URL of a personal feed
+ *
+ * @returns The URL, or null if PUBLIC_URL is not configured
+ */
+export function getFeedUrl(token: string): string | null {
+	return config.PUBLIC_URL ? `${config.PUBLIC_URL}/feeds/${token}.atom` : null;
+}
+
+/**
+ * Turn on a user's personal Atom feed, or give them its URL
+ *
+ * @param reset - Replace the token, so the old URL stops working
+ * @param lang - Language for the reply
+ */
+export async function enableFeed(
+	user: User,
+	reset = false,
+	lang: LanguageCode | string = "en",
+): Promise<DeliveryResult> {
+	if (!config.PUBLIC_URL) {
+		return { success: false, message: t(lang, "delivery.feedUnavailable") };
+	}
+
+	let token = user.feedToken;
+	if (!token || reset) {
+		token = randomBytes(24).toString("base64url");
+		if (!(await setUserFeedToken(user.id, token))) {
+			return { success: false, message: t(lang, "delivery.feedFailed") };
+		}
+	}
+
+	return {
+		success: true,
+		message: [
+			t(lang, reset ? "delivery.feedReset" : "delivery.feedYours"),
+			"",
+			getFeedUrl(token) ?? "",
+			"",
+			t(lang, "delivery.feedHint"),
+		].join("\n"),
+	};
+}
+
+/**
+ * Turn off a user's personal Atom feed
+ */
+export async function disableFeed(
+	userId: number,
+	lang: LanguageCode | string = "en",
+): Promise<DeliveryResult> {
+	if (!(await setUserFeedToken(userId, null))) {
+		return { success: false, message: t(lang, "delivery.feedOffFailed") };
+	}
+	return { success: true, message: t(lang, "delivery.feedOff") };
+}
+
+/**
+ * Usage help for /feed
+ */
+export function getFeedUsage(lang: LanguageCode | string = "en"): string {
+	return t(lang, "delivery.feedUsage");
+}
+
+/**
+ * Build the Atom feed for a feed token
+ *
+ * @param token - Token from the feed URL
+ * @param feedUrl - URL the feed was requested at
+ * @returns The feed XML, or null if no user has this token
+ */
+export async function buildUserFeed(
+	token: string,
+	feedUrl: string,
+): Promise<string | null> {
+	const user = await findUserByFeedToken(token);
+	if (!user) {
+		return null;
+	}
+
+	const entries = await getFeedEntries(user.id, FEED_SIZE);
+	const name = user.firstName ?? user.username;
+
+	return buildAtomFeed({
+		id: feedUrl,
+		title: name ? `Research Bot: papers for ${name}` : "Research Bot papers",
+		selfLink: feedUrl,
+		updated: toAtomDate(entries[0]?.createdAt ?? user.createdAt),
+		entries: entries.map((entry) => ({
+			id: `${feedUrl}#${entry.id}`,
+			title: entry.title,
+			link: entry.link,
+			updated: toAtomDate(entry.createdAt),
+			summary: entry.summary,
+			authors: parseAuthors(entry.authors),
+			categories: entry.topic ? [entry.topic] : [],
+		})),
+	});
+}
+
+/**
+ * Read a stored JSON author list
+ */
+function parseAuthors(authors: string | null): string[] {
+	try {
+		const parsed = authors ? JSON.parse(authors) : [];
+		return Array.isArray(parsed) ? parsed : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Check that text looks like an email address
+ *
+ * @returns The trimmed address, or null if it is not one
+ */
+export function parseEmailAddress(text: string): string | null {
+	const address = text.trim();
+	return address.length <= 254 &&
+		/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(address)
+		? address
+		: null;
+}
+
+/**
+ * Send a verification code to a new email address
+ *
+ * The address is only used once the user sends the code back
+ * (see confirmEmail).
+ */
+export async function startEmailVerification(
+	user: User,
+	text: string,
+	lang: LanguageCode | string = "en",
+): Promise<DeliveryResult> {
+	if (!isEmailConfigured()) {
+		return { success: false, message: t(lang, "delivery.emailUnavailable") };
+	}
+
+	const address = parseEmailAddress(text);
+	if (!address) {
+		return { success: false, message: t(lang, "delivery.emailInvalid") };
+	}
+
+	const sentAt = user.emailCodeSentAt ? Date.parse(user.emailCodeSentAt) : 0;
+	if (Date.now() - sentAt < EMAIL_CODE_RESEND_MS) {
+		return { success: false, message: t(lang, "delivery.emailWait") };
+	}
+
+	const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+	const saved = await updateUserEmail(user.id, {
+		pendingEmail: address,
+		emailCode: code,
+		emailCodeSentAt: new Date().toISOString(),
+		emailCodeAttempts: 0,
+	});
+	if (!saved) {
+		return { success: false, message: t(lang, "delivery.emailSaveFailed") };
+	}
+
+	if (!(await sendVerificationEmail(address, code))) {
+		await updateUserEmail(user.id, { pendingEmail: null, emailCode: null });
+		return { success: false, message: t(lang, "delivery.emailSendFailed") };
+	}
+
+	return {
+		success: true,
+		message: t(lang, "delivery.emailSent", { address }),
+	};
+}
+
+/**
+ * Confirm a pending email address with its verification code
+ */
+export async function confirmEmail(
+	user: User,
+	code: string,
+	lang: LanguageCode | string = "en",
+): Promise<DeliveryResult> {
+	const sentAt = user.emailCodeSentAt ? Date.parse(user.emailCodeSentAt) : 0;
+	if (
+		!user.pendingEmail ||
+		!user.emailCode ||
+		Date.now() - sentAt > EMAIL_CODE_TTL_MS
+	) {
+		return { success: false, message: t(lang, "delivery.emailNoCode") };
+	}
+
+	if (code.trim() !== user.emailCode) {
+		// Drop the code after a few wrong guesses so it cannot be brute-forced
+		const attempts = await recordEmailCodeAttempt(user.id);
+		if (attempts === null || attempts >= MAX_EMAIL_CODE_ATTEMPTS) {
+			await updateUserEmail(user.id, { pendingEmail: null, emailCode: null });
+			return {
+				success: false,
+				message: t(lang, "delivery.emailTooManyAttempts"),
+			};
+		}
+		return { success: false, message: t(lang, "delivery.emailWrongCode") };
+	}
+
+	const updated = await updateUserEmail(user.id, {
+		email: user.pendingEmail,
+		pendingEmail: null,
+		emailCode: null,
+	});
+	if (!updated) {
+		return { success: false, message: t(lang, "delivery.emailSaveFailed") };
+	}
+
+	return {
+		success: true,
+		message: t(lang, "delivery.emailOn", { address: user.pendingEmail }),
+	};
+}
+
+/**
+ * Stop email digests and forget the address
+ */
+export async function removeEmail(
+	userId: number,
+	lang: LanguageCode | string = "en",
+): Promise<DeliveryResult> {
+	const updated = await updateUserEmail(userId, {
+		email: null,
+		pendingEmail: null,
+		emailCode: null,
+		emailCodeSentAt: null,
+	});
+	if (!updated) {
+		return { success: false, message: t(lang, "delivery.emailOffFailed") };
+	}
+	return { success: true, message: t(lang, "delivery.emailOff") };
+}
+
+/**
+ * Usage help for /email
+ *
+ * @param email - The user's verified address, if any
+ * @param lang - Language for the help text
+ */
+export function getEmailUsage(
+	email: string | null,
+	lang: LanguageCode | string = "en",
+): string {
+	return t(lang, "delivery.emailUsage", {
+		status: email
+			? t(lang, "delivery.emailStatusOn", { address: email })
+			: t(lang, "delivery.emailStatusOff"),
+	});
+}
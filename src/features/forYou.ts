@@ -0,0 +1,325 @@
+/**
+ * For You Feature
+ *
+ * Personalised paper suggestions for /foryou and the weekly "For You"
+ * digest. A user's bookmarks, paper views and searches are turned into an
+ * interest profile (see utils/interests.ts), and the newest papers in
+ * their top categories and keywords are ranked against it.
+ */
+
+import { InlineKeyboard } from "gramio";
+import {
+	type ArxivCategory,
+	type Paper,
+	searchPapersAdvanced,
+} from "../arxiv.js";
+import {
+	findIndexedPapers,
+	getBookmarkAuthors,
+	getRecentUniqueSearches,
+	getRecentViews,
+	getUserBookmarks,
+	setForYouDigest,
+} from "../db/repositories/index.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import { fitsCallbackData } from "../sources/paperId.js";
+import {
+	buildInterestProfile,
+	getTopInterests,
+	type InterestProfile,
+	type InterestSignal,
+	isProfileEmpty,
+	scorePaper,
+} from "../utils/interests.js";
+import { logger } from "../utils/logger.js";
+import {
+	DEFAULT_DELIVERY_DAY,
+	DEFAULT_DELIVERY_TIME,
+	getWeekdayName,
+} from "../utils/schedule.js";
+import { getIndexKey, indexPapers } from "./paperIndex.js";
+
+/**
+ * Number of suggestions shown by /foryou and the weekly digest
+ */
+export const MAX_FOR_YOU_RESULTS = 5;
+
+/**
+ * How many of each signal the profile is built from (most recent first)
+ */
+const PROFILE_BOOKMARKS = 100;
+const PROFILE_VIEWS = 100;
+const PROFILE_SEARCHES = 20;
+
+/**
+ * Papers fetched per candidate query
+ */
+const CANDIDATES_PER_QUERY = 30;
+
+/**
+ * Only papers submitted within this many days are suggested
+ */
+const FRESH_DAYS = 14;
+
+/**
+ * Minimum profile score for a paper to be suggested
+ */
+const MIN_FOR_YOU_SCORE = 0.15;
+
+/**
+ * A suggested paper with the reason it was suggested
+ */
+export interface ForYouSuggestion {
+	paper: Paper;
+	score: number;
+	reason: string;
+}
+
+/**
+ * Result of changing the weekly digest setting
+ */
+export interface ForYouResult {
+	success: boolean;
+	message: string;
+}
+
+/**
+ * Convert a stored paper ID to its index key (arXiv IDs without a version)
+ */
+function toIndexKey(paperId: string): string {
+	return paperId.includes(":") ? paperId : paperId.replace(/v\d+$/, "");
+}
+
+/**
+ * Parse a JSON array column
+ */
+function parseJsonArray(value: string | null): string[] {
+	if (!value) return [];
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Load a user's interest signals and the papers they have already seen
+ */
+async function loadUserSignals(
+	userId: number,
+): Promise<{ signals: InterestSignal[]; seen: Set<string> }> {
+	const [bookmarks, views, searches] = await Promise.all([
+		getUserBookmarks(userId, { limit: PROFILE_BOOKMARKS }),
+		getRecentViews(userId, PROFILE_VIEWS),
+		getRecentUniqueSearches(userId, PROFILE_SEARCHES),
+	]);
+
+	const seen = new Set([
+		...bookmarks.map((b) => toIndexKey(b.arxivId)),
+		...views.map((v) => toIndexKey(v.arxivId)),
+	]);
+	const bookmarked = new Set(bookmarks.map((b) => toIndexKey(b.arxivId)));
+
+	const signals: InterestSignal[] = bookmarks.map((bookmark) => ({
+		kind: "bookmark",
+		label: bookmark.title,
+		text: `${bookmark.title} ${bookmark.summary ?? ""}`,
+		categories: parseJsonArray(bookmark.categories),
+		authors: getBookmarkAuthors(bookmark),
+		// Ratings of 4-5 count more, 1-2 less
+		weight: bookmark.rating ? bookmark.rating / 3 : 1,
+	}));
+
+	// Views only record IDs; titles and abstracts come from the paper index
+	const viewed = await findIndexedPapers(
+		[...new Set(views.map((v) => toIndexKey(v.arxivId)))].filter(
+			(id) => !bookmarked.has(id),
+		),
+	);
+	for (const paper of viewed) {
+		signals.push({
+			kind: "view",
+			label: paper.title,
+			text: `${paper.title} ${paper.summary ?? ""}`,
+			categories: parseJsonArray(paper.categories),
+			authors: parseJsonArray(paper.authors),
+		});
+	}
+
+	for (const query of searches) {
+		// Drop search flags such as --source and --since
+		const text = query.replace(/--\w+(?:\s+\S+)?/g, " ").trim();
+		if (text) {
+			signals.push({ kind: "search", label: text, text });
+		}
+	}
+
+	return { signals, seen };
+}
+
+/**
+ * Fetch the newest papers matching a profile's top interests
+ */
+async function fetchCandidates(profile: InterestProfile): Promise<Paper[]> {
+	const top = getTopInterests(profile, 2);
+	const submittedAfter = new Date(Date.now() - FRESH_DAYS * 24 * 3600 * 1000);
+	const searches = [
+		// Only arXiv categories (e.g. cs.LG, hep-th) can be searched
+		...top.categories
+			.filter((category) => /^[a-z-]+(\.[A-Za-z-]+)?$/.test(category))
+			.map((category) => ({ category: category as ArxivCategory })),
+		...(top.keywords.length > 0
+			? [
+					{
+						query: getTopInterests(profile, 4).keywords.join(" OR "),
+					},
+				]
+			: []),
+	];
+
+	const results = await Promise.all(
+		searches.map(async (search) => {
+			try {
+				return await searchPapersAdvanced({
+					...search,
+					maxResults: CANDIDATES_PER_QUERY,
+					sortBy: "submittedDate",
+					sortOrder: "descending",
+					submittedAfter,
+				});
+			} catch (error) {
+				logger.error("Failed to fetch For You candidates", {
+					search,
+					error: error instanceof Error ? error.message : String(error),
+				});
+				return [];
+			}
+		}),
+	);
+	return results.flat();
+}
+
+/**
+ * Get personalised paper suggestions for a user
+ *
+ * @param userId - Database user ID (a group's library user in groups)
+ * @param maxResults - Maximum number of suggestions
+ * @returns Suggestions, best first; empty if the user has no history yet
+ */
+export async function getForYouPapers(
+	userId: number,
+	maxResults = MAX_FOR_YOU_RESULTS,
+): Promise<ForYouSuggestion[]> {
+	const { signals, seen } = await loadUserSignals(userId);
+	const profile = buildInterestProfile(signals);
+	if (isProfileEmpty(profile)) {
+		return [];
+	}
+
+	const candidates = await fetchCandidates(profile);
+	void indexPapers(candidates);
+
+	const suggestions = new Map<string, ForYouSuggestion>();
+	for (const paper of candidates) {
+		const key = getIndexKey(paper) ?? paper.link;
+		if (seen.has(key) || suggestions.has(key)) continue;
+
+		const { score, reason } = scorePaper(paper, profile);
+		if (score >= MIN_FOR_YOU_SCORE) {
+			suggestions.set(key, { paper, score, reason });
+		}
+	}
+
+	const ranked = [...suggestions.values()]
+		.sort((a, b) => b.score - a.score)
+		.slice(0, maxResults);
+
+	logger.debug("Built For You suggestions", {
+		userId,
+		signals: signals.length,
+		candidates: candidates.length,
+		suggestions: ranked.length,
+	});
+	return ranked;
+}
+
+/**
+ * Format For You suggestions as a message
+ *
+ * @param suggestions - Suggestions from getForYouPapers
+ * @param weekly - Whether this is the weekly digest
+ * @param lang - Language for the header
+ */
+export function formatForYouMessage(
+	suggestions: ForYouSuggestion[],
+	weekly = false,
+	lang: LanguageCode | string = "en",
+): string {
+	const header = t(lang, weekly ? "forYou.weeklyHeader" : "forYou.header");
+	const papers = suggestions.map(
+		({ paper, reason }, i) =>
+			`${i + 1}. ${paper.title}\n📅 ${paper.published}\n💡 ${reason}\n🔗 ${paper.link}`,
+	);
+	return [header, ...papers].join("\n\n");
+}
+
+/**
+ * Message shown when there is nothing to suggest yet
+ */
+export function getForYouEmptyMessage(
+	lang: LanguageCode | string = "en",
+): string {
+	return t(lang, "forYou.empty");
+}
+
+/**
+ * Create the keyboard shown under For You suggestions
+ */
+export function createForYouKeyboard(
+	suggestions: ForYouSuggestion[],
+	lang: LanguageCode | string = "en",
+): InlineKeyboard {
+	const keyboard = new InlineKeyboard();
+
+	for (const { paper } of suggestions.slice(0, 3)) {
+		const paperKey = getIndexKey(paper);
+		if (!paperKey) continue;
+		const callbackData = `bookmark:${paperKey}`;
+		if (!fitsCallbackData(callbackData)) continue;
+		keyboard.text(`📑 ${paperKey}`, callbackData).row();
+	}
+
+	return keyboard.text(t(lang, "forYou.refresh"), "action:foryou");
+}
+
+/**
+ * Turn the weekly For You digest on or off
+ */
+export async function setForYouWeekly(
+	userId: number,
+	enabled: boolean,
+	lang: LanguageCode | string = "en",
+): Promise<ForYouResult> {
+	const updated = await setForYouDigest(userId, enabled);
+	if (!updated) {
+		return { success: false, message: t(lang, "forYou.weeklyFailed") };
+	}
+
+	return {
+		success: true,
+		message: enabled
+			? t(lang, "forYou.weeklyOn", {
+					day: getWeekdayName(DEFAULT_DELIVERY_DAY, lang),
+					time: DEFAULT_DELIVERY_TIME,
+				})
+			: t(lang, "forYou.weeklyOff"),
+	};
+}
+
+/**
+ * Usage help for /foryou
+ */
+export function getForYouUsage(lang: LanguageCode | string = "en"): string {
+	return t(lang, "forYou.usage");
+}
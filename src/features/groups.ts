@@ -0,0 +1,352 @@
+/**
+ * Groups Feature
+ *
+ * Gives Telegram groups a shared library. The library, subscriptions and
+ * exports belong to the users row of the group chat, so the regular
+ * bookmark and subscription features work on it unchanged; this module
+ * adds membership, roles and the edit policy on top.
+ */
+
+import {
+	findOrCreateGroup,
+	getGroupMembers,
+	getUserBookmarkCount,
+	updateGroupEditPolicy,
+	upsertGroupMember,
+} from "../db/repositories/index.js";
+import { getUserSubscriptionCount } from "../db/repositories/subscriptionRepository.js";
+import type {
+	Bookmark,
+	Group,
+	GroupEditPolicy,
+	GroupMember,
+	GroupRole,
+} from "../db/schema.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import { fetchPaperByQualifiedId } from "../sources/index.js";
+import { addBookmark, removeBookmark } from "./bookmarks.js";
+import { findUserBookmark } from "./collections.js";
+
+/**
+ * A group together with the member running a command
+ */
+export interface GroupContext {
+	group: Group;
+	member: GroupMember;
+}
+
+/**
+ * Result of a group operation
+ */
+export interface GroupResult {
+	success: boolean;
+	message: string;
+	bookmark?: Bookmark;
+}
+
+/**
+ * A /bookmarks subcommand in a group chat
+ */
+export type GroupBookmarksCommand =
+	| { action: "list" }
+	| { action: "add" | "remove"; paperId: string }
+	| { action: "invalid" };
+
+/**
+ * A /group subcommand
+ */
+export type GroupCommand =
+	| { action: "info" }
+	| { action: "policy"; policy: GroupEditPolicy }
+	| { action: "invalid" };
+
+/**
+ * Translation keys of the display labels for edit policies
+ */
+const EDIT_POLICY_KEYS: Record<GroupEditPolicy, string> = {
+	members: "groups.policyMembers",
+	admins: "groups.policyAdmins",
+};
+
+/**
+ * Translation keys of the display labels for member roles
+ */
+const ROLE_KEYS: Record<GroupRole, string> = {
+	admin: "groups.roleAdmin",
+	member: "groups.roleMember",
+};
+
+/**
+ * Check whether a Telegram chat type is a group chat
+ */
+export function isGroupChat(chatType?: string): boolean {
+	return chatType === "group" || chatType === "supergroup";
+}
+
+/**
+ * Map a Telegram chat member status to a group role
+ */
+export function toGroupRole(status?: string): GroupRole {
+	return status === "creator" || status === "administrator"
+		? "admin"
+		: "member";
+}
+
+/**
+ * Register a member in a group, creating the group on first use
+ *
+ * @param chat - Telegram group chat
+ * @param userId - Database user ID of the member
+ * @param role - Member's current role in Telegram
+ * @returns Group context or null if failed
+ */
+export async function joinGroup(
+	chat: { id: number; title?: string },
+	userId: number,
+	role: GroupRole,
+): Promise<GroupContext | null> {
+	const group = await findOrCreateGroup(chat.id, chat.title);
+	if (!group) {
+		return null;
+	}
+
+	const member = await upsertGroupMember(group.id, userId, role);
+	return member ? { group, member } : null;
+}
+
+/**
+ * Check whether a member may add papers and manage subscriptions
+ */
+export function canEditGroupLibrary({ group, member }: GroupContext): boolean {
+	return member.role === "admin" || group.editPolicy === "members";
+}
+
+/**
+ * Check whether a member may remove a paper from the group library
+ *
+ * Admins can remove any paper; other editors only the papers they added.
+ */
+export function canRemoveGroupPaper(
+	context: GroupContext,
+	bookmark: Bookmark,
+): boolean {
+	if (context.member.role === "admin") {
+		return true;
+	}
+	return (
+		canEditGroupLibrary(context) && bookmark.addedBy === context.member.userId
+	);
+}
+
+/**
+ * Parse /bookmarks arguments in a group chat
+ *
+ * @example
+ * parseGroupBookmarksArgs("") // { action: "list" }
+ * parseGroupBookmarksArgs("add 2301.00001") // { action: "add", paperId: "2301.00001" }
+ */
+export function parseGroupBookmarksArgs(args: string): GroupBookmarksCommand {
+	const [subcommand = "", paperId, ...rest] = args.trim().split(/\s+/);
+	const action = subcommand.toLowerCase();
+
+	if (!action || action === "list") {
+		return { action: "list" };
+	}
+
+	if ((action === "add" || action === "remove") && paperId && !rest.length) {
+		return { action, paperId };
+	}
+
+	return { action: "invalid" };
+}
+
+/**
+ * Parse an edit policy name
+ *
+ * @returns Edit policy or null if not recognised
+ */
+export function parseGroupEditPolicy(value: string): GroupEditPolicy | null {
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "admins" || normalized === "admin") return "admins";
+	if (normalized === "members" || normalized === "all") return "members";
+	return null;
+}
+
+/**
+ * Parse /group command arguments
+ */
+export function parseGroupArgs(args: string): GroupCommand {
+	const [subcommand = "", value = ""] = args.trim().split(/\s+/);
+
+	if (!subcommand) {
+		return { action: "info" };
+	}
+
+	if (subcommand.toLowerCase() === "policy") {
+		const policy = parseGroupEditPolicy(value);
+		return policy ? { action: "policy", policy } : { action: "invalid" };
+	}
+
+	return { action: "invalid" };
+}
+
+/**
+ * Add a paper to the group library
+ *
+ * @param context - Group and member adding the paper
+ * @param paperId - Paper ID (bare arXiv ID or source-qualified)
+ * @param lang - Language code for translations
+ */
+export async function addGroupPaper(
+	context: GroupContext,
+	paperId: string,
+	lang: LanguageCode | string = "en",
+): Promise<GroupResult> {
+	if (!canEditGroupLibrary(context)) {
+		return {
+			success: false,
+			message: t(lang, "groups.adminsOnlyAdd"),
+		};
+	}
+
+	const existing = await findUserBookmark(context.group.userId, paperId);
+	if (existing) {
+		return {
+			success: false,
+			message: t(lang, "groups.alreadyAdded", { title: existing.title }),
+			bookmark: existing,
+		};
+	}
+
+	const paper = await fetchPaperByQualifiedId(paperId);
+	if (!paper) {
+		return {
+			success: false,
+			message: t(lang, "groups.paperNotFound", { paperId }),
+		};
+	}
+
+	const bookmark = await addBookmark(
+		context.group.userId,
+		paper,
+		context.member.userId,
+	);
+	if (!bookmark) {
+		return {
+			success: false,
+			message: t(lang, "groups.addFailed"),
+		};
+	}
+
+	return {
+		success: true,
+		message: t(lang, "groups.added", { title: bookmark.title }),
+		bookmark,
+	};
+}
+
+/**
+ * Remove a paper from the group library
+ */
+export async function removeGroupPaper(
+	context: GroupContext,
+	paperId: string,
+	lang: LanguageCode | string = "en",
+): Promise<GroupResult> {
+	const bookmark = await findUserBookmark(context.group.userId, paperId);
+	if (!bookmark) {
+		return {
+			success: false,
+			message: t(lang, "groups.notInLibrary", { paperId }),
+		};
+	}
+
+	if (!canRemoveGroupPaper(context, bookmark)) {
+		return {
+			success: false,
+			message: t(
+				lang,
+				context.group.editPolicy === "admins"
+					? "groups.adminsOnlyRemove"
+					: "groups.adminsOrAdderRemove",
+			),
+		};
+	}
+
+	const removed = await removeBookmark(context.group.userId, bookmark.arxivId);
+	return removed
+		? {
+				success: true,
+				message: t(lang, "groups.removed", { title: bookmark.title }),
+			}
+		: { success: false, message: t(lang, "groups.removeFailed") };
+}
+
+/**
+ * Change who may edit the group library (admins only)
+ */
+export async function setGroupEditPolicy(
+	context: GroupContext,
+	policy: GroupEditPolicy,
+	lang: LanguageCode | string = "en",
+): Promise<GroupResult> {
+	if (context.member.role !== "admin") {
+		return {
+			success: false,
+			message: t(lang, "groups.adminsOnlySettings"),
+		};
+	}
+
+	const updated = await updateGroupEditPolicy(context.group.id, policy);
+	if (!updated) {
+		return {
+			success: false,
+			message: t(lang, "groups.settingsFailed"),
+		};
+	}
+
+	context.group = updated;
+	return {
+		success: true,
+		message: t(lang, "groups.policyChanged", {
+			editors: t(lang, EDIT_POLICY_KEYS[policy]),
+		}),
+	};
+}
+
+/**
+ * Format the /group overview message
+ */
+export async function formatGroupInfoMessage(
+	context: GroupContext,
+	lang: LanguageCode | string = "en",
+): Promise<string> {
+	const { group, member } = context;
+	const [paperCount, subscriptionCount, members] = await Promise.all([
+		getUserBookmarkCount(group.userId),
+		getUserSubscriptionCount(group.userId),
+		getGroupMembers(group.id),
+	]);
+	const adminCount = members.filter((m) => m.role === "admin").length;
+
+	const lines = [
+		`👥 ${group.title || t(lang, "groups.defaultTitle")}`,
+		"",
+		t(lang, "groups.papers", { count: paperCount }),
+		t(lang, "groups.subscriptions", { count: subscriptionCount }),
+		t(lang, "groups.members", { count: members.length, admins: adminCount }),
+		t(lang, "groups.editableBy", {
+			editors: t(lang, EDIT_POLICY_KEYS[group.editPolicy]),
+		}),
+		t(lang, "groups.yourRole", { role: t(lang, ROLE_KEYS[member.role]) }),
+	];
+
+	return `${lines.join("\n")}\n\n${getGroupUsage(lang)}`;
+}
+
+/**
+ * Usage help for group library commands
+ */
+export function getGroupUsage(lang: LanguageCode | string = "en"): string {
+	return t(lang, "groups.usage");
+}
@@ -0,0 +1,197 @@
+/**
+ * Import Feature
+ *
+ * Brings an existing library into the bot from a reference file
+ * (BibTeX, RIS or a plain-text list of IDs). Each entry is resolved
+ * through its source and the results are bookmarked in one insert.
+ */
+
+import type { Paper } from "../arxiv.js";
+import {
+	createBookmarks,
+	findBookmarkByArxivId,
+} from "../db/repositories/index.js";
+import type { Bookmark } from "../db/schema.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import { fetchPaperByQualifiedId } from "../sources/index.js";
+import { getPaperSource, getStoredPaperId } from "../sources/paperId.js";
+import { getImportPaperId, type ImportedEntry } from "../utils/import.js";
+import { logger } from "../utils/logger.js";
+import { getBookmarkMetadata } from "./bookmarks.js";
+import { findUserBookmark } from "./collections.js";
+import { indexPapers } from "./paperIndex.js";
+
+/**
+ * Maximum number of entries resolved per import
+ *
+ * arXiv allows one request every ~3 seconds, so this keeps an import
+ * under a few minutes.
+ */
+export const MAX_IMPORT_ENTRIES = 50;
+
+/**
+ * Maximum size of an imported file in bytes
+ */
+export const MAX_IMPORT_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Maximum number of failed entries listed in the summary
+ */
+const MAX_LISTED_FAILURES = 10;
+
+/**
+ * Outcome of an import
+ */
+export interface ImportSummary {
+	/** Bookmarks created by the import */
+	imported: Bookmark[];
+	/** Entries already in the library (or repeated in the file) */
+	duplicates: string[];
+	/** Entries without a usable ID or that could not be found */
+	failed: string[];
+	/** Entries beyond MAX_IMPORT_ENTRIES that were not processed */
+	truncated: number;
+}
+
+/**
+ * Short label for an entry in the import summary
+ */
+function describeEntry(entry: ImportedEntry): string {
+	const label = getImportPaperId(entry) ?? entry.title ?? "Untitled entry";
+	return label.length > 60 ? `${label.slice(0, 57)}...` : label;
+}
+
+/**
+ * Import reference entries into a user's bookmarks
+ *
+ * @param userId - Database user ID
+ * @param entries - Entries parsed from the imported file
+ * @returns Summary of imported, duplicate and failed entries
+ */
+export async function importBookmarks(
+	userId: number,
+	entries: ImportedEntry[],
+): Promise<ImportSummary> {
+	const summary: ImportSummary = {
+		imported: [],
+		duplicates: [],
+		failed: [],
+		truncated: Math.max(0, entries.length - MAX_IMPORT_ENTRIES),
+	};
+	const seen = new Set<string>();
+	const pending: { paper: Paper; storedId: string; entry: ImportedEntry }[] =
+		[];
+
+	for (const entry of entries.slice(0, MAX_IMPORT_ENTRIES)) {
+		const paperId = getImportPaperId(entry);
+		if (!paperId) {
+			summary.failed.push(describeEntry(entry));
+			continue;
+		}
+
+		if (seen.has(paperId) || (await findUserBookmark(userId, paperId))) {
+			summary.duplicates.push(paperId);
+			continue;
+		}
+		seen.add(paperId);
+
+		const paper = await fetchPaperByQualifiedId(paperId);
+		const storedId = paper ? getStoredPaperId(paper) : null;
+		if (!paper || !storedId) {
+			summary.failed.push(paperId);
+			continue;
+		}
+
+		// The same paper may be listed under both its arXiv ID and DOI
+		if (pending.some((p) => p.storedId === storedId)) {
+			summary.duplicates.push(paperId);
+			continue;
+		}
+
+		pending.push({ paper, storedId, entry });
+	}
+
+	summary.imported = await createBookmarks(
+		userId,
+		pending.map(({ paper, storedId, entry }) => ({
+			arxivId: storedId,
+			source: getPaperSource(paper),
+			title: paper.title,
+			authors: paper.authors,
+			summary: paper.summary,
+			link: paper.link,
+			categories: paper.categories,
+			publishedDate: paper.published,
+			notes: entry.note,
+			...getBookmarkMetadata(paper),
+		})),
+	);
+
+	void indexPapers(pending.map((p) => p.paper));
+
+	// Rows skipped by the insert were bookmarked while the import ran
+	const created = new Set(summary.imported.map((b) => b.arxivId));
+	for (const { storedId } of pending) {
+		if (created.has(storedId)) continue;
+		if (await findBookmarkByArxivId(userId, storedId)) {
+			summary.duplicates.push(storedId);
+		} else {
+			summary.failed.push(storedId);
+		}
+	}
+
+	logger.info("Imported bookmarks", {
+		userId,
+		entries: entries.length,
+		imported: summary.imported.length,
+		duplicates: summary.duplicates.length,
+		failed: summary.failed.length,
+	});
+
+	return summary;
+}
+
+/**
+ * Format the message sent when an import finishes
+ */
+export function formatImportSummary(
+	summary: ImportSummary,
+	lang: LanguageCode | string = "en",
+): string {
+	const lines = [
+		t(lang, "import.finished"),
+		"",
+		t(lang, "import.imported", { count: summary.imported.length }),
+		t(lang, "import.duplicates", { count: summary.duplicates.length }),
+		t(lang, "import.failed", { count: summary.failed.length }),
+	];
+
+	if (summary.failed.length > 0) {
+		for (const label of summary.failed.slice(0, MAX_LISTED_FAILURES)) {
+			lines.push(`  • ${label}`);
+		}
+		if (summary.failed.length > MAX_LISTED_FAILURES) {
+			const count = summary.failed.length - MAX_LISTED_FAILURES;
+			lines.push(`  ${t(lang, "import.moreFailed", { count })}`);
+		}
+	}
+
+	if (summary.truncated > 0) {
+		lines.push(
+			"",
+			t(lang, "import.truncated", {
+				max: MAX_IMPORT_ENTRIES,
+				count: summary.truncated,
+			}),
+		);
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Usage help for /import
+ */
+export function getImportUsage(lang: LanguageCode | string = "en"): string {
+	return t(lang, "import.usage", { max: MAX_IMPORT_ENTRIES });
+}
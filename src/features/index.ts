@@ -14,13 +14,17 @@ export {
 	bookmarkToCSVRow,
 	checkBookmarked,
 	createBookmarksKeyboard,
+	createExportFormatKeyboard,
 	createPaperActionsKeyboard,
+	EXPORT_FORMAT_LABELS,
+	exportAllBookmarks,
 	exportAllBookmarksToBibTeX,
 	exportAllBookmarksToCSV,
 	formatBibTeXPreview,
 	formatBookmarkMessage,
 	formatBookmarksListMessage,
 	formatCSVTablePreview,
+	formatExportPreview,
 	getBookmarksPaginated,
 	getCSVHeader,
 	getExportBookmarkCount,
@@ -28,6 +32,111 @@ export {
 	toggleBookmark,
 } from "./bookmarks.js";
 
+// Collections feature
+export {
+	createCollectionExportKeyboard,
+	createCollectionPickerKeyboard,
+	createCollectionsKeyboard,
+	createNewCollection,
+	fileBookmark,
+	findUserBookmark,
+	formatCollectionsMessage,
+	formatTagsMessage,
+	getCollectionByName,
+	normalizeCollectionName,
+	normalizeTag,
+	parseCollectionArgs,
+	parseTagArgs,
+	removeCollection,
+	unfileBookmark,
+	updateTags,
+} from "./collections.js";
+// Delivery feature (email and Atom feed)
+export {
+	buildUserFeed,
+	confirmEmail,
+	type DeliveryResult,
+	disableFeed,
+	enableFeed,
+	getEmailUsage,
+	getFeedUrl,
+	getFeedUsage,
+	parseEmailAddress,
+	removeEmail,
+	startEmailVerification,
+} from "./delivery.js";
+// For You feature
+export {
+	createForYouKeyboard,
+	type ForYouSuggestion,
+	formatForYouMessage,
+	getForYouEmptyMessage,
+	getForYouPapers,
+	getForYouUsage,
+	MAX_FOR_YOU_RESULTS,
+	setForYouWeekly,
+} from "./forYou.js";
+// Groups feature
+export {
+	addGroupPaper,
+	canEditGroupLibrary,
+	canRemoveGroupPaper,
+	formatGroupInfoMessage,
+	getGroupUsage,
+	isGroupChat,
+	joinGroup,
+	parseGroupArgs,
+	parseGroupBookmarksArgs,
+	parseGroupEditPolicy,
+	removeGroupPaper,
+	setGroupEditPolicy,
+	toGroupRole,
+} from "./groups.js";
+
+// Import feature
+export {
+	formatImportSummary,
+	getImportUsage,
+	type ImportSummary,
+	importBookmarks,
+	MAX_IMPORT_ENTRIES,
+	MAX_IMPORT_FILE_SIZE,
+} from "./import.js";
+
+// Paper index feature
+export {
+	type EmbeddingModel,
+	findSimilarInIndex,
+	getIndexKey,
+	indexPapers,
+	MIN_INDEXED_PAPERS,
+	setEmbeddingModel,
+} from "./paperIndex.js";
+
+// Paper versions feature
+export {
+	acknowledgePaperUpdate,
+	checkBookmarkedPapers,
+	detectPaperUpdate,
+	type PaperUpdate,
+	VERSION_CHECK_INTERVAL_HOURS,
+} from "./paperVersions.js";
+
+// Reading status feature
+export {
+	createReadingListKeyboard,
+	createReadingStatusKeyboard,
+	formatRating,
+	formatReadingStatusLine,
+	getReadingStatusCounts,
+	getReadingStatusLabel,
+	parseReadingArgs,
+	parseReadingStatus,
+	READING_STATUSES,
+	rateBookmark,
+	setReadingStatus,
+} from "./reading.js";
+
 // Recommendations feature
 export {
 	extractKeywords,
@@ -56,15 +165,31 @@ export {
 
 // Subscriptions feature
 export {
+	createDigestKeyboard,
 	createIntervalKeyboard,
 	createSubscriptionSettingsKeyboard,
 	createSubscriptionsKeyboard,
+	followAuthor,
 	formatSubscription,
 	formatSubscriptionsMessage,
+	getAuthorProfile,
+	getDigestPages,
+	getDigestUsage,
+	getFollowUsage,
+	getScheduleLabel,
 	getSubscriptionsList,
+	parseFollowArgs,
+	parseQuietHours,
+	parseScheduleOption,
 	parseSubscribeArgs,
 	SUBSCRIPTION_INTERVALS,
+	type SubscriptionSchedule,
+	setMergedDigest,
+	setQuietHours,
+	setTimezone,
 	subscribe,
+	unfollowAuthor,
 	unsubscribe,
 	updateInterval,
+	updateSchedule,
 } from "./subscriptions.js";
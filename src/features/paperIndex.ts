@@ -0,0 +1,322 @@
+/**
+ * Paper Index Feature
+ *
+ * Keeps a local index of every paper the bot has seen (bookmarks,
+ * subscription digests and search results) and ranks similar papers from
+ * it with TF-IDF cosine similarity. When an embedding model is set, the
+ * best TF-IDF candidates are re-ranked with embedding similarity.
+ */
+
+import type { Paper } from "../arxiv.js";
+import {
+	getIndexedPapers,
+	updateIndexedPaperEmbedding,
+	upsertIndexedPapers,
+} from "../db/repositories/index.js";
+import type { IndexedPaper, NewIndexedPaper } from "../db/schema.js";
+import {
+	getPaperSource,
+	getStoredPaperId,
+	parsePaperId,
+} from "../sources/paperId.js";
+import { logger } from "../utils/logger.js";
+import {
+	denseCosineSimilarity,
+	TfIdfIndex,
+	type TfIdfMatch,
+} from "../utils/tfidf.js";
+
+/**
+ * Below this many indexed papers, /similar also queries arXiv
+ */
+export const MIN_INDEXED_PAPERS = 50;
+
+/**
+ * Minimum cosine similarity for a paper to count as similar
+ */
+const MIN_SIMILARITY = 0.1;
+
+/**
+ * Maximum number of papers loaded into memory (most recently seen first)
+ */
+const MAX_INDEXED_PAPERS = 20000;
+
+/**
+ * How long a loaded index is used before it is reloaded from the database
+ */
+const INDEX_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Minimum age before an index is reloaded because new papers were added
+ */
+const INDEX_REFRESH_MS = 60 * 1000;
+
+/**
+ * Number of TF-IDF candidates re-ranked with embeddings
+ */
+const EMBEDDING_CANDIDATES = 30;
+
+/**
+ * Weight of embedding similarity in the combined score (TF-IDF gets the rest)
+ */
+const EMBEDDING_WEIGHT = 0.5;
+
+/**
+ * A text embedding model, e.g. a CPU build of a sentence-transformer
+ */
+export interface EmbeddingModel {
+	/** Model name, stored with each embedding so changing models re-embeds */
+	readonly name: string;
+	/** Embed texts, returning one vector per text */
+	embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * The index as loaded into memory
+ */
+interface LoadedIndex {
+	tfidf: TfIdfIndex;
+	papers: Map<string, IndexedPaper>;
+	loadedAt: number;
+}
+
+let embeddingModel: EmbeddingModel | null = null;
+let loadedIndex: LoadedIndex | null = null;
+let indexChanged = false;
+
+/**
+ * Set the embedding model used to re-rank similar papers
+ *
+ * No model ships with the bot; pass null to use TF-IDF only.
+ */
+export function setEmbeddingModel(model: EmbeddingModel | null): void {
+	embeddingModel = model;
+}
+
+/**
+ * Get the ID a paper is indexed under
+ *
+ * Uses the stored paper ID, without a version suffix for arXiv papers so
+ * that all versions share one entry.
+ */
+export function getIndexKey(paper: Paper): string | null {
+	const paperId = getStoredPaperId(paper);
+	if (!paperId) return null;
+	return getPaperSource(paper) === "arxiv"
+		? paperId.replace(/v\d+$/, "")
+		: paperId;
+}
+
+/**
+ * Text a paper is indexed by
+ *
+ * Titles are counted twice: they are short and the most specific text.
+ */
+function getIndexText(paper: {
+	title: string;
+	summary?: string | null;
+}): string {
+	return `${paper.title} ${paper.title} ${paper.summary ?? ""}`;
+}
+
+/**
+ * Parse a JSON array column
+ */
+function parseJsonArray(value: string | null): string[] | undefined {
+	if (!value) return undefined;
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) && parsed.length > 0 ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Convert an index row back to a paper
+ */
+function indexedToPaper(row: IndexedPaper): Paper {
+	const parsed = row.source !== "arxiv" ? parsePaperId(row.paperId) : null;
+	return {
+		title: row.title,
+		summary: row.summary ?? "",
+		link: row.link,
+		published: row.publishedDate ?? "",
+		authors: parseJsonArray(row.authors),
+		categories: parseJsonArray(row.categories),
+		...(parsed ? { source: parsed.source, externalId: parsed.externalId } : {}),
+	};
+}
+
+/**
+ * Add papers the bot has seen to the index
+ *
+ * Safe to call without awaiting; failures are logged, never thrown.
+ *
+ * @param papers - Papers from a bookmark, digest or search
+ * @returns Number of papers new to the index
+ */
+export async function indexPapers(papers: Paper[]): Promise<number> {
+	const rows = new Map<string, NewIndexedPaper>();
+	for (const paper of papers) {
+		const paperId = getIndexKey(paper);
+		if (!paperId || !paper.title) continue;
+
+		rows.set(paperId, {
+			paperId,
+			source: getPaperSource(paper),
+			title: paper.title,
+			authors: paper.authors?.length ? JSON.stringify(paper.authors) : null,
+			summary: paper.summary || null,
+			link: paper.link,
+			categories: paper.categories?.length
+				? JSON.stringify(paper.categories)
+				: null,
+			publishedDate: paper.published || null,
+		});
+	}
+
+	const added = await upsertIndexedPapers([...rows.values()]);
+	if (added > 0) {
+		indexChanged = true;
+	}
+	return added;
+}
+
+/**
+ * Load the index into memory, reusing the loaded copy while it is fresh
+ */
+async function loadIndex(): Promise<LoadedIndex> {
+	const age = loadedIndex ? Date.now() - loadedIndex.loadedAt : Infinity;
+	if (
+		loadedIndex &&
+		age < INDEX_TTL_MS &&
+		!(indexChanged && age >= INDEX_REFRESH_MS)
+	) {
+		return loadedIndex;
+	}
+
+	const rows = await getIndexedPapers(MAX_INDEXED_PAPERS);
+	const papers = new Map(rows.map((row) => [row.paperId, row]));
+	indexChanged = false;
+	loadedIndex = {
+		tfidf: new TfIdfIndex(
+			rows.map((row) => ({ id: row.paperId, text: getIndexText(row) })),
+		),
+		papers,
+		loadedAt: Date.now(),
+	};
+
+	logger.debug("Loaded paper index", { papers: papers.size });
+	return loadedIndex;
+}
+
+/**
+ * Re-rank TF-IDF matches by combining them with embedding similarity
+ *
+ * Missing embeddings are computed and stored. On failure the TF-IDF
+ * ranking is returned unchanged.
+ */
+async function rerankWithEmbeddings(
+	model: EmbeddingModel,
+	paper: Paper,
+	matches: TfIdfMatch[],
+	index: LoadedIndex,
+): Promise<TfIdfMatch[]> {
+	try {
+		const rows = matches.flatMap((m) => index.papers.get(m.id) ?? []);
+		const missing = rows.filter(
+			(row) => !row.embedding || row.embeddingModel !== model.name,
+		);
+
+		const [query, ...embedded] = await model.embed([
+			getIndexText(paper),
+			...missing.map(getIndexText),
+		]);
+		if (!query) {
+			return matches;
+		}
+
+		for (const [i, row] of missing.entries()) {
+			const embedding = embedded[i];
+			if (!embedding) continue;
+			row.embedding = JSON.stringify(embedding);
+			row.embeddingModel = model.name;
+			void updateIndexedPaperEmbedding(row.paperId, embedding, model.name);
+		}
+
+		return matches
+			.map((match) => {
+				const row = index.papers.get(match.id);
+				const embedding =
+					row?.embedding && row.embeddingModel === model.name
+						? (JSON.parse(row.embedding) as number[])
+						: null;
+				const similarity = embedding
+					? denseCosineSimilarity(query, embedding)
+					: 0;
+				return {
+					id: match.id,
+					score:
+						(1 - EMBEDDING_WEIGHT) * match.score +
+						EMBEDDING_WEIGHT * similarity,
+				};
+			})
+			.sort((a, b) => b.score - a.score);
+	} catch (error) {
+		logger.warn("Embedding re-rank failed, using TF-IDF ranking", {
+			model: model.name,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return matches;
+	}
+}
+
+/**
+ * Find papers in the local index similar to a paper
+ *
+ * @param paper - Source paper (excluded from the results)
+ * @param maxResults - Maximum number of papers to return
+ * @param options - `primaryCategory` keeps only papers with that primary category
+ * @returns Similar papers, most similar first, and the index size
+ */
+export async function findSimilarInIndex(
+	paper: Paper,
+	maxResults = 5,
+	options: { primaryCategory?: string } = {},
+): Promise<{ papers: Paper[]; indexSize: number }> {
+	const index = await loadIndex();
+	const sourceKey = getIndexKey(paper);
+
+	const query =
+		(sourceKey ? index.tfidf.getVector(sourceKey) : undefined) ??
+		index.tfidf.vectorize(getIndexText(paper));
+
+	const exclude = new Set(sourceKey ? [sourceKey] : []);
+	if (options.primaryCategory) {
+		// Papers are indexed with their primary category first
+		for (const [key, row] of index.papers) {
+			if (parseJsonArray(row.categories)?.[0] !== options.primaryCategory) {
+				exclude.add(key);
+			}
+		}
+	}
+
+	let matches = index.tfidf.search(query, {
+		limit: embeddingModel ? EMBEDDING_CANDIDATES : maxResults,
+		minScore: MIN_SIMILARITY,
+		exclude,
+	});
+
+	if (embeddingModel && matches.length > 1) {
+		matches = await rerankWithEmbeddings(embeddingModel, paper, matches, index);
+	}
+
+	return {
+		papers: matches.slice(0, maxResults).flatMap((m) => {
+			const row = index.papers.get(m.id);
+			return row ? [indexedToPaper(row)] : [];
+		}),
+		indexSize: index.tfidf.size,
+	};
+}
@@ -0,0 +1,208 @@
+/**
+ * Paper Versions Feature
+ *
+ * Tracks the arXiv version of bookmarked papers. Bookmarks record the
+ * version they were saved at; checkBookmarkedPapers() re-fetches them from
+ * arXiv and reports new versions and journal references, with a word diff
+ * of the title and abstract. Notices are sent by the subscription worker.
+ */
+
+import { fetchPapersByIds, getArxivVersion, type Paper } from "../arxiv.js";
+import {
+	getBookmarksDueForVersionCheck,
+	updateBookmarkVersion,
+} from "../db/repositories/index.js";
+import type { Bookmark } from "../db/schema.js";
+import { extractArxivId } from "../utils/export.js";
+import { logger } from "../utils/logger.js";
+import { type DiffSegment, diffWords, hasChanges } from "../utils/textDiff.js";
+
+/**
+ * Hours between checks of the same bookmark
+ */
+export const VERSION_CHECK_INTERVAL_HOURS = 24;
+
+/**
+ * Papers fetched from arXiv per request
+ */
+const ARXIV_BATCH_SIZE = 50;
+
+/**
+ * New- and old-style arXiv IDs without a version
+ */
+const ARXIV_ID_PATTERN = /^(\d{4}\.\d{4,5}|[a-z-]+(\.[a-z]{2})?\/\d{7})$/i;
+
+/**
+ * A new version or journal reference of a bookmarked paper
+ */
+export interface PaperUpdate {
+	bookmark: Bookmark;
+	/** The paper as it is on arXiv now */
+	paper: Paper;
+	/** Version the user last heard about (null if unknown) */
+	previousVersion: number | null;
+	/** New version, if one appeared */
+	newVersion?: number;
+	/** New journal reference, if one appeared */
+	journalRef?: string;
+	/** Title changes (empty if unchanged) */
+	titleDiff: DiffSegment[];
+	/** Abstract changes (empty if unchanged) */
+	summaryDiff: DiffSegment[];
+}
+
+/**
+ * Strip the version suffix from an arXiv ID
+ */
+function getBareArxivId(arxivId: string): string {
+	return arxivId.replace(/v\d+$/, "");
+}
+
+/**
+ * Compare a bookmark with the paper's current arXiv metadata
+ *
+ * Bookmarks saved before versions were tracked have no known version;
+ * they are never reported, only brought up to date.
+ *
+ * @returns The update, or null if nothing new appeared
+ */
+export function detectPaperUpdate(
+	bookmark: Bookmark,
+	paper: Paper,
+): PaperUpdate | null {
+	if (bookmark.latestVersion === null) {
+		return null;
+	}
+
+	const newVersion =
+		paper.version && paper.version > bookmark.latestVersion
+			? paper.version
+			: undefined;
+	const journalRef =
+		paper.journalRef && paper.journalRef !== bookmark.journalRef
+			? paper.journalRef
+			: undefined;
+	if (!newVersion && !journalRef) {
+		return null;
+	}
+
+	const diff = (before: string, after: string) => {
+		const segments = diffWords(before, after);
+		return hasChanges(segments) ? segments : [];
+	};
+	return {
+		bookmark,
+		paper,
+		previousVersion: bookmark.latestVersion,
+		newVersion,
+		journalRef,
+		titleDiff: newVersion ? diff(bookmark.title, paper.title) : [],
+		summaryDiff: newVersion ? diff(bookmark.summary ?? "", paper.summary) : [],
+	};
+}
+
+/**
+ * Re-check bookmarked arXiv papers for new versions and journal references
+ *
+ * Checks bookmarks not checked in the last VERSION_CHECK_INTERVAL_HOURS.
+ * Bookmarks with nothing new are marked as checked; updates are returned
+ * and must be acknowledged with acknowledgePaperUpdate() once the user
+ * has been told, or they are reported again on the next check.
+ *
+ * @param limit - Maximum bookmarks to check
+ * @param options - `record: false` checks without saving anything (dry run)
+ * @returns Updates found, oldest check first
+ */
+export async function checkBookmarkedPapers(
+	limit = 200,
+	options: { record?: boolean } = {},
+): Promise<PaperUpdate[]> {
+	const record = options.record ?? true;
+	const due = await getBookmarksDueForVersionCheck(
+		VERSION_CHECK_INTERVAL_HOURS,
+		limit,
+	);
+
+	// Several users may have bookmarked the same paper; fetch it once
+	const byPaper = new Map<string, Bookmark[]>();
+	for (const bookmark of due) {
+		const arxivId = getBareArxivId(bookmark.arxivId);
+		byPaper.set(arxivId, [...(byPaper.get(arxivId) ?? []), bookmark]);
+	}
+
+	const ids = [...byPaper.keys()];
+	const validIds = ids.filter((id) => ARXIV_ID_PATTERN.test(id));
+	const latest = new Map<string, Paper>();
+	const failed = new Set<string>();
+	for (let i = 0; i < validIds.length; i += ARXIV_BATCH_SIZE) {
+		const batch = validIds.slice(i, i + ARXIV_BATCH_SIZE);
+		try {
+			for (const paper of await fetchPapersByIds(batch)) {
+				const arxivId = extractArxivId(paper.link);
+				if (arxivId) latest.set(getBareArxivId(arxivId), paper);
+			}
+		} catch (error) {
+			// Leave the batch unchecked so it is retried on the next run
+			for (const id of batch) failed.add(id);
+			logger.error("Failed to check bookmarked papers for new versions", {
+				papers: batch.length,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	const updates: PaperUpdate[] = [];
+	for (const id of ids) {
+		if (failed.has(id)) continue;
+
+		const paper = latest.get(id);
+		for (const bookmark of byPaper.get(id) ?? []) {
+			const update = paper ? detectPaperUpdate(bookmark, paper) : null;
+			if (update) {
+				updates.push(update);
+			} else if (record) {
+				// Bookmarks saved before tracking start from the current version
+				await updateBookmarkVersion(
+					bookmark.id,
+					paper && bookmark.latestVersion === null
+						? {
+								latestVersion:
+									paper.version ?? getArxivVersion(bookmark.arxivId),
+								journalRef: paper.journalRef ?? null,
+							}
+						: {},
+				);
+			}
+		}
+	}
+
+	if (due.length > 0) {
+		logger.info("Checked bookmarked papers for new versions", {
+			bookmarks: due.length,
+			papers: ids.length,
+			updates: updates.length,
+		});
+	}
+	return updates;
+}
+
+/**
+ * Record that the user was told about an update
+ *
+ * The bookmark takes the new version's metadata, title and abstract, so
+ * the next update is compared against this one.
+ */
+export async function acknowledgePaperUpdate(
+	update: PaperUpdate,
+): Promise<boolean> {
+	const { bookmark, paper } = update;
+	return updateBookmarkVersion(bookmark.id, {
+		latestVersion: update.newVersion ?? bookmark.latestVersion,
+		journalRef: paper.journalRef ?? bookmark.journalRef,
+		doi: paper.doi ?? bookmark.doi,
+		comment: paper.comment ?? bookmark.comment,
+		updatedDate: paper.updated ?? bookmark.updatedDate,
+		title: paper.title,
+		summary: paper.summary,
+	});
+}
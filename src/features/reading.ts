@@ -0,0 +1,323 @@
+/**
+ * Reading Status Feature
+ *
+ * Tracks where each bookmark is in the user's reading workflow
+ * (to-read, reading, read, abandoned) and an optional 1-5 rating.
+ */
+
+import { InlineKeyboard } from "gramio";
+import {
+	type BookmarkSort,
+	getUserBookmarkCount,
+	updateBookmarkRating,
+	updateBookmarkReadingStatus,
+} from "../db/repositories/index.js";
+import type { Bookmark, ReadingStatus } from "../db/schema.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import { fitsCallbackData } from "../sources/paperId.js";
+
+/**
+ * Reading statuses in workflow order
+ */
+export const READING_STATUSES: readonly ReadingStatus[] = [
+	"to-read",
+	"reading",
+	"read",
+	"abandoned",
+];
+
+/**
+ * Translation keys of the display labels for reading statuses
+ */
+const READING_STATUS_KEYS: Record<ReadingStatus, string> = {
+	"to-read": "reading.toRead",
+	reading: "reading.reading",
+	read: "reading.read",
+	abandoned: "reading.abandoned",
+};
+
+/**
+ * Alternative names accepted for reading statuses
+ */
+const STATUS_ALIASES: Record<string, ReadingStatus> = {
+	"to-read": "to-read",
+	toread: "to-read",
+	todo: "to-read",
+	queue: "to-read",
+	unread: "to-read",
+	reading: "reading",
+	current: "reading",
+	read: "read",
+	done: "read",
+	finished: "read",
+	abandoned: "abandoned",
+	dropped: "abandoned",
+};
+
+/**
+ * Short codes used in callback data for sort orders
+ */
+const SORT_CODES: Record<BookmarkSort, string> = {
+	created: "c",
+	status: "s",
+	rating: "r",
+};
+
+/**
+ * Parse a reading status name or alias
+ *
+ * @returns Reading status or null if not recognised
+ */
+export function parseReadingStatus(value: string): ReadingStatus | null {
+	const normalized = value
+		.trim()
+		.toLowerCase()
+		.replace(/[\s_]+/g, "-");
+	return (
+		STATUS_ALIASES[normalized] ??
+		STATUS_ALIASES[normalized.replace(/-/g, "")] ??
+		null
+	);
+}
+
+/**
+ * Parse a sort order name or callback code
+ *
+ * @returns Sort order or null if not recognised
+ */
+export function parseBookmarkSort(value: string): BookmarkSort | null {
+	const normalized = value.trim().toLowerCase();
+	for (const [sort, code] of Object.entries(SORT_CODES)) {
+		if (normalized === sort || normalized === code) {
+			return sort as BookmarkSort;
+		}
+	}
+	if (normalized === "date" || normalized === "recent") return "created";
+	if (normalized === "stars") return "rating";
+	return null;
+}
+
+/**
+ * Parse /reading command arguments
+ *
+ * @example
+ * parseReadingArgs("read --sort rating") // { status: "read", sortBy: "rating" }
+ * parseReadingArgs("") // { sortBy: "status" }
+ */
+export function parseReadingArgs(args: string): {
+	status?: ReadingStatus;
+	sortBy: BookmarkSort;
+	invalid?: string;
+} {
+	let text = args.trim();
+	let sortBy: BookmarkSort | null = null;
+
+	const sortMatch = text.match(/--sort(?:=|\s+)(\S+)/i);
+	if (sortMatch?.[1]) {
+		sortBy = parseBookmarkSort(sortMatch[1]);
+		if (!sortBy) {
+			return { sortBy: "status", invalid: sortMatch[1] };
+		}
+		text = text.replace(sortMatch[0], "").trim();
+	}
+
+	if (!text || text.toLowerCase() === "all") {
+		return { sortBy: sortBy ?? "status" };
+	}
+
+	const status = parseReadingStatus(text);
+	if (!status) {
+		return { sortBy: sortBy ?? "status", invalid: text };
+	}
+
+	return { status, sortBy: sortBy ?? "created" };
+}
+
+/**
+ * Get the display label for a reading status
+ */
+export function getReadingStatusLabel(
+	status: ReadingStatus,
+	lang: LanguageCode | string = "en",
+): string {
+	return t(lang, READING_STATUS_KEYS[status]);
+}
+
+/**
+ * Format a rating as stars
+ */
+export function formatRating(rating: number): string {
+	const clamped = Math.max(0, Math.min(5, Math.round(rating)));
+	return "★".repeat(clamped) + "☆".repeat(5 - clamped);
+}
+
+/**
+ * Format a bookmark's reading status and rating as a single line
+ *
+ * @returns Status line, or null for unrated bookmarks still in the queue
+ */
+export function formatReadingStatusLine(
+	bookmark: Bookmark,
+	lang: LanguageCode | string = "en",
+): string | null {
+	if (bookmark.readingStatus === "to-read" && !bookmark.rating) {
+		return null;
+	}
+
+	const label = getReadingStatusLabel(bookmark.readingStatus, lang);
+	return bookmark.rating
+		? `${label} · ${formatRating(bookmark.rating)}`
+		: label;
+}
+
+/**
+ * Set the reading status of a bookmark
+ *
+ * @returns Updated bookmark or null if failed
+ */
+export async function setReadingStatus(
+	bookmark: Bookmark,
+	status: ReadingStatus,
+): Promise<Bookmark | null> {
+	if (bookmark.readingStatus === status) {
+		return bookmark;
+	}
+	return updateBookmarkReadingStatus(bookmark.id, status);
+}
+
+/**
+ * Rate a bookmark from 1 to 5
+ *
+ * Rating a paper again with the same value clears the rating.
+ *
+ * @returns Updated bookmark or null if the rating is invalid or saving failed
+ */
+export async function rateBookmark(
+	bookmark: Bookmark,
+	rating: number,
+): Promise<Bookmark | null> {
+	if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+		return null;
+	}
+	return updateBookmarkRating(
+		bookmark.id,
+		bookmark.rating === rating ? null : rating,
+	);
+}
+
+/**
+ * Count a user's bookmarks in each reading status
+ */
+export async function getReadingStatusCounts(
+	userId: number,
+): Promise<Record<ReadingStatus, number>> {
+	const counts = await Promise.all(
+		READING_STATUSES.map((status) => getUserBookmarkCount(userId, { status })),
+	);
+
+	return Object.fromEntries(
+		READING_STATUSES.map((status, i) => [status, counts[i] ?? 0]),
+	) as Record<ReadingStatus, number>;
+}
+
+/**
+ * Format the reading queue summary
+ */
+export function formatReadingSummary(
+	counts: Record<ReadingStatus, number>,
+	lang: LanguageCode | string = "en",
+): string {
+	const lines = READING_STATUSES.map(
+		(status) => `${getReadingStatusLabel(status, lang)}: ${counts[status]}`,
+	);
+	return lines.join("\n");
+}
+
+/**
+ * Create keyboard for changing a bookmark's reading status and rating
+ *
+ * Buttons whose callback data would exceed Telegram's limit are skipped.
+ *
+ * @param bookmark - Bookmark to update
+ * @param lang - Language code for translations
+ * @returns InlineKeyboard
+ */
+export function createReadingStatusKeyboard(
+	bookmark: Bookmark,
+	lang: LanguageCode | string = "en",
+): InlineKeyboard {
+	const keyboard = new InlineKeyboard();
+	const id = bookmark.arxivId;
+
+	for (const [i, status] of READING_STATUSES.entries()) {
+		const callbackData = `status_set:${status}:${id}`;
+		if (!fitsCallbackData(callbackData)) continue;
+
+		const label = getReadingStatusLabel(status, lang);
+		keyboard.text(
+			bookmark.readingStatus === status ? `• ${label} •` : label,
+			callbackData,
+		);
+		if (i % 2 === 1) keyboard.row();
+	}
+
+	for (let rating = 1; rating <= 5; rating++) {
+		const callbackData = `rate_set:${rating}:${id}`;
+		if (!fitsCallbackData(callbackData)) continue;
+		keyboard.text((bookmark.rating ?? 0) >= rating ? "★" : "☆", callbackData);
+	}
+
+	return keyboard;
+}
+
+/**
+ * Create keyboard for the /reading list: status filters and pagination
+ *
+ * @param status - Current status filter (undefined for all)
+ * @param sortBy - Current sort order
+ * @param page - Current page
+ * @param hasMore - Whether there are more pages
+ * @param lang - Language code for translations
+ * @returns InlineKeyboard
+ */
+export function createReadingListKeyboard(
+	status: ReadingStatus | undefined,
+	sortBy: BookmarkSort,
+	page: number,
+	hasMore: boolean,
+	lang: LanguageCode | string = "en",
+): InlineKeyboard {
+	const keyboard = new InlineKeyboard();
+	const filter = status ?? "all";
+	const sort = SORT_CODES[sortBy];
+
+	// Navigation row
+	if (page > 1 || hasMore) {
+		if (page > 1) {
+			keyboard.text("⬅️", `reading:${filter}:${sort}:${page - 1}`);
+		}
+		keyboard.text(`📖 ${page}`, "reading:noop");
+		if (hasMore) {
+			keyboard.text("➡️", `reading:${filter}:${sort}:${page + 1}`);
+		}
+		keyboard.row();
+	}
+
+	// Status filter rows
+	for (const [i, s] of READING_STATUSES.entries()) {
+		keyboard.text(getReadingStatusLabel(s, lang), `reading:${s}:${sort}:1`);
+		if (i % 2 === 1) keyboard.row();
+	}
+
+	// Sort row
+	keyboard.text(t(lang, "reading.all"), `reading:all:${sort}:1`);
+	keyboard.text(
+		t(
+			lang,
+			sortBy === "rating" ? "reading.sortByDate" : "reading.sortByRating",
+		),
+		`reading:${filter}:${sortBy === "rating" ? SORT_CODES.created : SORT_CODES.rating}:1`,
+	);
+
+	return keyboard;
+}
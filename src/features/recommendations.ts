@@ -2,6 +2,7 @@
  * Recommendations Feature
  *
  * Provides functionality to find similar papers based on:
+ * - TF-IDF similarity within the local paper index
  * - Keywords extracted from paper titles
  * - Paper categories
  * - Author networks
@@ -10,115 +11,18 @@
 import {
 	type ArxivCategory,
 	fetchPaperById,
+	getPrimaryCategory,
 	type Paper,
 	searchPapersAdvanced,
 } from "../arxiv.js";
 import { logger } from "../utils/logger.js";
-
-/**
- * Common stop words to exclude from keyword extraction
- */
-const STOP_WORDS = new Set([
-	"a",
-	"an",
-	"the",
-	"and",
-	"or",
-	"but",
-	"in",
-	"on",
-	"at",
-	"to",
-	"for",
-	"of",
-	"with",
-	"by",
-	"from",
-	"as",
-	"is",
-	"was",
-	"are",
-	"were",
-	"been",
-	"be",
-	"have",
-	"has",
-	"had",
-	"do",
-	"does",
-	"did",
-	"will",
-	"would",
-	"could",
-	"should",
-	"may",
-	"might",
-	"must",
-	"shall",
-	"can",
-	"need",
-	"dare",
-	"ought",
-	"used",
-	"it",
-	"its",
-	"this",
-	"that",
-	"these",
-	"those",
-	"i",
-	"we",
-	"you",
-	"he",
-	"she",
-	"they",
-	"what",
-	"which",
-	"who",
-	"whom",
-	"where",
-	"when",
-	"why",
-	"how",
-	"all",
-	"each",
-	"every",
-	"both",
-	"few",
-	"more",
-	"most",
-	"other",
-	"some",
-	"such",
-	"no",
-	"nor",
-	"not",
-	"only",
-	"own",
-	"same",
-	"so",
-	"than",
-	"too",
-	"very",
-	"just",
-	"also",
-	"now",
-	"using",
-	"via",
-	"based",
-	"approach",
-	"method",
-	"methods",
-	"novel",
-	"new",
-	"paper",
-	"study",
-	"analysis",
-	"results",
-	"show",
-	"propose",
-	"proposed",
-]);
+import { tokenize } from "../utils/tfidf.js";
+import {
+	findSimilarInIndex,
+	getIndexKey,
+	indexPapers,
+	MIN_INDEXED_PAPERS,
+} from "./paperIndex.js";
 
 /**
  * Extract keywords from paper title and summary
@@ -128,14 +32,7 @@ const STOP_WORDS = new Set([
  * @returns Array of keywords
  */
 export function extractKeywords(text: string, maxKeywords = 5): string[] {
-	// Normalize and tokenize
-	const words = text
-		.toLowerCase()
-		.replace(/[^\w\s-]/g, " ")
-		.split(/\s+/)
-		.filter((word) => word.length > 2)
-		.filter((word) => !STOP_WORDS.has(word))
-		.filter((word) => !/^\d+$/.test(word)); // Exclude pure numbers
+	const words = tokenize(text);
 
 	// Count word frequency
 	const wordCounts = new Map<string, number>();
@@ -158,24 +55,27 @@ export interface SimilarPapersOptions {
 	maxResults?: number;
 	/** Use only the primary category for filtering */
 	usePrimaryCategory?: boolean;
+	/** Only return papers whose primary category is the source's */
+	primaryCategoryOnly?: boolean;
 	/** Exclude the source paper from results */
 	excludeSource?: boolean;
 }
 
 /**
- * Get similar papers based on a source paper
+ * Search arXiv for papers sharing keywords with a source paper
  *
  * @param paper - Source paper to find similar papers for
  * @param options - Search options
  * @returns Array of similar papers
  */
-export async function getSimilarPapers(
+async function searchSimilarByKeywords(
 	paper: Paper,
-	options: SimilarPapersOptions = {},
+	options: SimilarPapersOptions,
 ): Promise<Paper[]> {
 	const {
 		maxResults = 5,
 		usePrimaryCategory = true,
+		primaryCategoryOnly = false,
 		excludeSource = true,
 	} = options;
 
@@ -197,7 +97,10 @@ export async function getSimilarPapers(
 	const query = allKeywords.slice(0, 5).join(" OR ");
 
 	// Get primary category if available
-	const category = usePrimaryCategory ? paper.categories?.[0] : undefined;
+	const category =
+		usePrimaryCategory || primaryCategoryOnly
+			? getPrimaryCategory(paper)
+			: undefined;
 
 	logger.debug("Searching for similar papers", {
 		keywords: allKeywords,
@@ -210,15 +113,23 @@ export async function getSimilarPapers(
 		const results = await searchPapersAdvanced({
 			query,
 			category: category as ArxivCategory | undefined,
-			maxResults: maxResults + (excludeSource ? 1 : 0), // Fetch extra if excluding source
+			// Fetch extra if excluding source or cross-lists
+			maxResults:
+				(primaryCategoryOnly ? maxResults * 2 : maxResults) +
+				(excludeSource ? 1 : 0),
 			sortBy: "relevance",
 		});
 
+		// arXiv matches cross-listed categories too
+		let papers =
+			primaryCategoryOnly && category
+				? results.filter((p) => getPrimaryCategory(p) === category)
+				: results;
+
 		// Filter out the source paper if requested
-		let papers = results;
 		if (excludeSource) {
 			const sourceId = paper.link.split("/abs/")[1];
-			papers = results.filter((p) => !p.link.includes(sourceId || ""));
+			papers = papers.filter((p) => !p.link.includes(sourceId || ""));
 		}
 
 		return papers.slice(0, maxResults);
@@ -230,6 +141,48 @@ export async function getSimilarPapers(
 	}
 }
 
+/**
+ * Get similar papers based on a source paper
+ *
+ * Papers are ranked from the local paper index. arXiv is searched by
+ * keyword only while the index is too sparse to fill the results.
+ *
+ * @param paper - Source paper to find similar papers for
+ * @param options - Search options
+ * @returns Array of similar papers
+ */
+export async function getSimilarPapers(
+	paper: Paper,
+	options: SimilarPapersOptions = {},
+): Promise<Paper[]> {
+	const { maxResults = 5, primaryCategoryOnly = false } = options;
+
+	const local = await findSimilarInIndex(paper, maxResults, {
+		primaryCategory: primaryCategoryOnly
+			? getPrimaryCategory(paper)
+			: undefined,
+	});
+	if (
+		local.indexSize >= MIN_INDEXED_PAPERS &&
+		local.papers.length >= maxResults
+	) {
+		logger.debug("Found similar papers in local index", {
+			title: paper.title,
+			indexSize: local.indexSize,
+		});
+		void indexPapers([paper]);
+		return local.papers;
+	}
+
+	const results = await searchSimilarByKeywords(paper, options);
+	void indexPapers([paper, ...results]);
+
+	// Index matches first, topped up with keyword results
+	const seen = new Set(local.papers.map(getIndexKey));
+	const extra = results.filter((p) => !seen.has(getIndexKey(p)));
+	return [...local.papers, ...extra].slice(0, maxResults);
+}
+
 /**
  * Get similar papers by arXiv ID
  *
@@ -302,7 +255,7 @@ export async function getRecentInCategory(
 	paper: Paper,
 	maxResults = 5,
 ): Promise<Paper[]> {
-	const category = paper.categories?.[0];
+	const category = getPrimaryCategory(paper);
 
 	if (!category) {
 		return [];
@@ -375,7 +328,7 @@ export async function getComprehensiveRecommendations(
 		recentInCategory: {
 			papers: recentInCategory,
 			source: "category",
-			query: paper.categories?.[0],
+			query: getPrimaryCategory(paper),
 		},
 	};
 }
@@ -6,9 +6,23 @@
  */
 
 import { InlineKeyboard } from "gramio";
-import type { ArxivCategory } from "../arxiv.js";
+import {
+	type ArxivCategory,
+	type Paper,
+	searchPapersAdvanced,
+} from "../arxiv.js";
+import {
+	isStructuredQuery,
+	parseSinceOption,
+	toArxivSearchQuery,
+} from "../arxivQuery.js";
+import {
+	type DigestPage,
+	updateUserDeliverySettings,
+} from "../db/repositories/index.js";
 import {
 	createSubscription,
+	deleteSubscription,
 	deleteSubscriptionByTopic,
 	findSubscription,
 	getUserSubscriptionCount,
@@ -16,7 +30,39 @@ import {
 	reactivateSubscription,
 	updateSubscription,
 } from "../db/repositories/subscriptionRepository.js";
-import type { Subscription } from "../db/schema.js";
+import type { Digest, Subscription } from "../db/schema.js";
+import { isValidationError } from "../errors.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import {
+	DEFAULT_SOURCE,
+	fitsCallbackData,
+	getSourceName,
+	type PaperSourceId,
+	parseSourceOption,
+} from "../sources/index.js";
+import {
+	type AuthorCandidate,
+	type AuthorProfile,
+	authorNamesMatch,
+	buildAuthorQuery,
+	findPaperAuthor,
+	groupPapersByAuthor,
+} from "../utils/authors.js";
+import { logger } from "../utils/logger.js";
+import {
+	DEFAULT_DELIVERY_DAY,
+	DEFAULT_DELIVERY_TIME,
+	type DeliverySettings,
+	formatLocalDateTime,
+	formatTimeOfDay,
+	getNextRunAt,
+	getTimezone,
+	normalizeTimezone,
+	parseTimeOfDay,
+	parseWeekday,
+	type ScheduleType,
+	WEEKDAYS,
+} from "../utils/schedule.js";
 
 /**
  * Maximum subscriptions per user
@@ -28,6 +74,20 @@ const MAX_SUBSCRIPTIONS_PER_USER = 10;
  */
 const DEFAULT_INTERVAL_HOURS = 24;
 
+/**
+ * Days before the last run that each digest looks back
+ *
+ * arXiv lists papers hours to days after their submission date, so a paper
+ * submitted just before a run may only appear after it. Papers already
+ * sent are filtered out through the user's paper views.
+ */
+const SUBMISSION_LOOKBACK_DAYS = 3;
+
+/**
+ * Recent papers looked up to recognise an author when following them
+ */
+const AUTHOR_LOOKUP_PAPERS = 50;
+
 /**
  * Available subscription intervals
  */
@@ -39,6 +99,17 @@ export const SUBSCRIPTION_INTERVALS = [
 	{ hours: 168, label: "Weekly" },
 ] as const;
 
+/**
+ * When a subscription's digests are delivered
+ */
+export interface SubscriptionSchedule {
+	scheduleType: ScheduleType;
+	/** Local "HH:MM" for daily and weekly digests */
+	deliveryTime?: string;
+	/** Weekday for weekly digests (0 = Sunday) */
+	deliveryDay?: number;
+}
+
 /**
  * Result of a subscription operation
  */
@@ -48,12 +119,24 @@ export interface SubscriptionResult {
 	subscription?: Subscription;
 }
 
+/**
+ * Normalize a topic for storing and looking up subscriptions
+ *
+ * Keyword topics are lowercased; boolean queries keep their case, since
+ * operators such as AND are case-sensitive.
+ */
+function normalizeTopic(topic: string): string {
+	const trimmed = topic.trim();
+	return isStructuredQuery(trimmed) ? trimmed : trimmed.toLowerCase();
+}
+
 /**
  * Subscribe a user to a topic
  *
  * @param userId - User ID
  * @param topic - Topic to subscribe to
  * @param options - Additional options
+ * @param lang - Language for the reply
  * @returns Subscription result
  */
 export async function subscribe(
@@ -62,9 +145,13 @@ export async function subscribe(
 	options?: {
 		category?: ArxivCategory;
 		intervalHours?: number;
+		source?: PaperSourceId;
+		submittedAfter?: Date;
+		schedule?: SubscriptionSchedule;
 	},
+	lang: LanguageCode | string = "en",
 ): Promise<SubscriptionResult> {
-	const normalizedTopic = topic.trim().toLowerCase();
+	const normalizedTopic = normalizeTopic(topic);
 
 	if (!normalizedTopic) {
 		return {
@@ -80,6 +167,21 @@ export async function subscribe(
 		};
 	}
 
+	// A malformed boolean query would silently find nothing on every run
+	if ((options?.source ?? DEFAULT_SOURCE) === DEFAULT_SOURCE) {
+		try {
+			toArxivSearchQuery(normalizedTopic);
+		} catch (error) {
+			if (isValidationError(error)) {
+				return {
+					success: false,
+					message: t(lang, "search.invalidQuery", { error: error.message }),
+				};
+			}
+			throw error;
+		}
+	}
+
 	// Check if already subscribed
 	const existing = await findSubscription(userId, normalizedTopic);
 	if (existing) {
@@ -116,7 +218,10 @@ export async function subscribe(
 		userId,
 		topic: normalizedTopic,
 		category: options?.category ?? null,
+		source: options?.source ?? DEFAULT_SOURCE,
+		submittedAfter: options?.submittedAfter?.toISOString() ?? null,
 		intervalHours: options?.intervalHours ?? DEFAULT_INTERVAL_HOURS,
+		...options?.schedule,
 		isActive: true,
 	});
 
@@ -127,13 +232,11 @@ export async function subscribe(
 		};
 	}
 
-	const intervalLabel = getIntervalLabel(
-		subscription.intervalHours ?? DEFAULT_INTERVAL_HOURS,
-	);
+	const scheduleLabel = getScheduleLabel(subscription);
 
 	return {
 		success: true,
-		message: `✅ Subscribed to "${topic}"!\n\nYou'll receive ${intervalLabel.toLowerCase()} updates with new papers on this topic.`,
+		message: `✅ Subscribed to "${topic}"!\n\nYou'll receive updates with new papers on this topic.\n⏱️ ${scheduleLabel}`,
 		subscription,
 	};
 }
@@ -149,7 +252,7 @@ export async function unsubscribe(
 	userId: number,
 	topic: string,
 ): Promise<SubscriptionResult> {
-	const normalizedTopic = topic.trim().toLowerCase();
+	const normalizedTopic = normalizeTopic(topic);
 
 	if (!normalizedTopic) {
 		return {
@@ -173,6 +276,256 @@ export async function unsubscribe(
 	};
 }
 
+/**
+ * Get the most common way a followed author is listed on their papers
+ */
+function getListedAuthorName(name: string, papers: Paper[]): string {
+	const counts = new Map<string, number>();
+	for (const paper of papers) {
+		const listed = findPaperAuthor(paper, name);
+		if (listed) counts.set(listed, (counts.get(listed) ?? 0) + 1);
+	}
+	const [mostCommon] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+	return mostCommon?.[0] ?? name;
+}
+
+/**
+ * Describe the different authors sharing a name, so the user can pick one
+ */
+function formatAuthorCandidates(
+	name: string,
+	candidates: AuthorCandidate[],
+): string {
+	const lines = candidates.slice(0, 3).map(({ profile, papers }, i) => {
+		const fields = profile.categories.slice(0, 2).join(", ") || "unknown field";
+		const coAuthors = profile.coAuthors.slice(0, 2).join(", ");
+		return `${i + 1}. ${fields} · ${papers.length} paper${papers.length === 1 ? "" : "s"}${coAuthors ? ` · with ${coAuthors}` : ""}`;
+	});
+
+	const [first] = candidates;
+	const exampleCategory = first?.profile.categories[0];
+	const exampleCoAuthor = first?.profile.coAuthors[0];
+	return [
+		`👥 Several authors named "${name}" found:`,
+		"",
+		...lines,
+		"",
+		"Pick one by field or co-author, e.g.",
+		...(exampleCategory ? [`/follow ${name} --cat ${exampleCategory}`] : []),
+		...(exampleCoAuthor ? [`/follow ${name} --with ${exampleCoAuthor}`] : []),
+	].join("\n");
+}
+
+/**
+ * Follow an author and get alerts when they post a new paper
+ *
+ * The author's recent arXiv papers are looked up first. Papers by
+ * different people with the same name are told apart by co-authors and
+ * categories; if that leaves several likely people, the user is asked to
+ * pick one with a category or co-author.
+ *
+ * @param userId - User ID
+ * @param name - Author name (any form, e.g. "Yoshua Bengio" or "Bengio, Y.")
+ * @param options - Category or co-author to pick among same-named authors, and schedule
+ * @returns Subscription result
+ */
+export async function followAuthor(
+	userId: number,
+	name: string,
+	options?: {
+		category?: string;
+		coAuthor?: string;
+		schedule?: SubscriptionSchedule;
+	},
+): Promise<SubscriptionResult> {
+	const authorName = name.replace(/\s+/g, " ").trim();
+	const query = buildAuthorQuery(authorName);
+	if (!query) {
+		return {
+			success: false,
+			message: "Please provide an author name to follow.",
+		};
+	}
+
+	if (authorName.length > 100) {
+		return {
+			success: false,
+			message: "Author name is too long. Please use fewer than 100 characters.",
+		};
+	}
+
+	const papers = await searchPapersAdvanced({
+		query,
+		maxResults: AUTHOR_LOOKUP_PAPERS,
+		sortBy: "submittedDate",
+		sortOrder: "descending",
+	});
+
+	const { category, coAuthor } = options ?? {};
+	const candidates = groupPapersByAuthor(authorName, papers).filter(
+		({ profile }) =>
+			(!category ||
+				profile.categories.some(
+					(c) => c === category || c.split(".")[0] === category,
+				)) &&
+			(!coAuthor ||
+				profile.coAuthors.some((a) => authorNamesMatch(a, coAuthor))),
+	);
+
+	const [best, ...others] = candidates;
+	if (!best) {
+		return {
+			success: false,
+			message: `No arXiv papers found by "${authorName}"${category || coAuthor ? " matching those filters" : ""}.`,
+		};
+	}
+
+	// Ask which author was meant unless one person clearly has most of the papers
+	const otherPapers = others.reduce((n, c) => n + c.papers.length, 0);
+	if (!category && !coAuthor && otherPapers * 3 > best.papers.length) {
+		return {
+			success: false,
+			message: formatAuthorCandidates(authorName, candidates),
+		};
+	}
+
+	const listedName = getListedAuthorName(authorName, best.papers);
+	const profile: AuthorProfile = { ...best.profile, name: listedName };
+
+	const existing = await findSubscription(userId, listedName, "author");
+	if (existing?.isActive) {
+		return {
+			success: false,
+			message: `You're already following ${listedName}.`,
+			subscription: existing,
+		};
+	}
+
+	if (existing) {
+		const reactivated = await updateSubscription(existing.id, {
+			isActive: true,
+			authorProfile: JSON.stringify(profile),
+		});
+		if (reactivated) {
+			return {
+				success: true,
+				message: `✅ Following ${listedName} again.`,
+				subscription: reactivated,
+			};
+		}
+	}
+
+	const count = await getUserSubscriptionCount(userId);
+	if (count >= MAX_SUBSCRIPTIONS_PER_USER) {
+		return {
+			success: false,
+			message: `You've reached the maximum of ${MAX_SUBSCRIPTIONS_PER_USER} subscriptions. Please unsubscribe from a topic first.`,
+		};
+	}
+
+	const subscription = await createSubscription({
+		userId,
+		kind: "author",
+		topic: listedName,
+		authorProfile: JSON.stringify(profile),
+		source: DEFAULT_SOURCE,
+		intervalHours: DEFAULT_INTERVAL_HOURS,
+		...options?.schedule,
+		isActive: true,
+	});
+
+	if (!subscription) {
+		return {
+			success: false,
+			message: "Failed to follow author. Please try again.",
+		};
+	}
+
+	logger.info("Followed author", {
+		userId,
+		author: listedName,
+		papers: best.papers.length,
+		otherCandidates: others.length,
+	});
+
+	const details = [
+		profile.categories.length
+			? `📂 ${profile.categories.slice(0, 3).join(", ")}`
+			: "",
+		profile.coAuthors.length
+			? `👥 With ${profile.coAuthors.slice(0, 3).join(", ")}`
+			: "",
+		`⏱️ ${getScheduleLabel(subscription)}`,
+	].filter(Boolean);
+
+	return {
+		success: true,
+		message: `✅ Following ${listedName}!\n\nYou'll get an alert when they post a new paper.\n${details.join("\n")}`,
+		subscription,
+	};
+}
+
+/**
+ * Stop following an author
+ *
+ * @param userId - User ID
+ * @param name - Author name in any form
+ * @returns Subscription result
+ */
+export async function unfollowAuthor(
+	userId: number,
+	name: string,
+): Promise<SubscriptionResult> {
+	const follows = await getUserSubscriptions(userId, true);
+	const follow = follows.find(
+		(s) => s.kind === "author" && authorNamesMatch(s.topic, name),
+	);
+
+	if (!follow || !(await deleteSubscription(follow.id))) {
+		return {
+			success: false,
+			message: `You're not following "${name.trim()}".`,
+		};
+	}
+
+	return {
+		success: true,
+		message: `✅ Unfollowed ${follow.topic}.`,
+	};
+}
+
+/**
+ * Usage help for /follow
+ */
+export function getFollowUsage(): string {
+	return [
+		"👤 Follow an author",
+		"",
+		"/follow Yoshua Bengio - get alerts when they post a new paper",
+		"/follow Wei Zhang --cat cs.CV - pick one of several authors by field",
+		"/follow Wei Zhang --with Lei Li - ...or by a co-author",
+		"/unfollow Yoshua Bengio - stop following",
+		"",
+		"Follows use the same schedule options as /subscribe (--at, --weekly) and are listed in /subscriptions.",
+	].join("\n");
+}
+
+/**
+ * Get the profile used to recognise a followed author's papers
+ */
+export function getAuthorProfile(subscription: Subscription): AuthorProfile {
+	const fallback = { name: subscription.topic, coAuthors: [], categories: [] };
+	if (!subscription.authorProfile) {
+		return fallback;
+	}
+
+	try {
+		return { ...fallback, ...JSON.parse(subscription.authorProfile) };
+	} catch {
+		return fallback;
+	}
+}
+
 /**
  * Get user's subscriptions with formatted display
  *
@@ -200,7 +553,28 @@ export async function updateInterval(
 	subscriptionId: number,
 	intervalHours: number,
 ): Promise<Subscription | null> {
-	return updateSubscription(subscriptionId, { intervalHours });
+	return updateSubscription(subscriptionId, {
+		scheduleType: "interval",
+		intervalHours,
+	});
+}
+
+/**
+ * Deliver a subscription's digests daily or weekly at a local time
+ *
+ * @param subscriptionId - Subscription ID
+ * @param schedule - New schedule
+ * @returns Updated subscription or null
+ */
+export async function updateSchedule(
+	subscriptionId: number,
+	schedule: SubscriptionSchedule,
+): Promise<Subscription | null> {
+	return updateSubscription(subscriptionId, {
+		scheduleType: schedule.scheduleType,
+		deliveryTime: schedule.deliveryTime ?? null,
+		deliveryDay: schedule.deliveryDay ?? null,
+	});
 }
 
 /**
@@ -215,13 +589,16 @@ export function createSubscriptionsKeyboard(
 	const keyboard = new InlineKeyboard();
 
 	for (const sub of subscriptions) {
+		const label = sub.kind === "author" ? `👤 ${sub.topic}` : sub.topic;
 		keyboard
-			.text(`❌ ${sub.topic}`, `unsub:${sub.id}`)
+			.text(`❌ ${label}`, `unsub:${sub.id}`)
 			.text("⚙️", `sub_settings:${sub.id}`)
 			.row();
 	}
 
-	keyboard.text("➕ Add Subscription", "action:add_subscription");
+	keyboard
+		.text("➕ Add Subscription", "action:add_subscription")
+		.text("👤 Follow Author", "action:follow_author");
 
 	return keyboard;
 }
@@ -231,25 +608,29 @@ export function createSubscriptionsKeyboard(
  *
  * @param subscriptionId - Subscription ID
  * @param currentInterval - Current interval in hours
+ * @param currentSchedule - Current schedule type
  * @returns InlineKeyboard
  */
 export function createIntervalKeyboard(
 	subscriptionId: number,
 	currentInterval?: number,
+	currentSchedule: ScheduleType = "interval",
 ): InlineKeyboard {
 	const keyboard = new InlineKeyboard();
+	const selectedInterval =
+		currentSchedule === "interval" ? currentInterval : undefined;
 
 	for (let i = 0; i < SUBSCRIPTION_INTERVALS.length; i += 2) {
 		const interval1 = SUBSCRIPTION_INTERVALS[i];
 		if (interval1) {
-			const isSelected = currentInterval === interval1.hours;
+			const isSelected = selectedInterval === interval1.hours;
 			const label = isSelected ? `✓ ${interval1.label}` : interval1.label;
 			keyboard.text(label, `sub_interval:${subscriptionId}:${interval1.hours}`);
 		}
 
 		const interval2 = SUBSCRIPTION_INTERVALS[i + 1];
 		if (interval2) {
-			const isSelected = currentInterval === interval2.hours;
+			const isSelected = selectedInterval === interval2.hours;
 			const label = isSelected ? `✓ ${interval2.label}` : interval2.label;
 			keyboard.text(label, `sub_interval:${subscriptionId}:${interval2.hours}`);
 		}
@@ -257,6 +638,19 @@ export function createIntervalKeyboard(
 		keyboard.row();
 	}
 
+	const daily = `Daily at ${DEFAULT_DELIVERY_TIME}`;
+	const weekly = `Weekly on ${WEEKDAYS[DEFAULT_DELIVERY_DAY]}`;
+	keyboard
+		.text(
+			currentSchedule === "daily" ? `✓ ${daily}` : daily,
+			`sub_schedule:${subscriptionId}:daily`,
+		)
+		.text(
+			currentSchedule === "weekly" ? `✓ ${weekly}` : weekly,
+			`sub_schedule:${subscriptionId}:weekly`,
+		)
+		.row();
+
 	keyboard.text("« Back", `sub_settings:${subscriptionId}`);
 
 	return keyboard;
@@ -287,45 +681,113 @@ export function createSubscriptionSettingsKeyboard(
  * Format subscription for display
  *
  * @param subscription - Subscription to format
+ * @param settings - Owner's timezone and quiet hours, used for the next digest time
+ * @param now - Reference time (default: now)
  * @returns Formatted string
  */
-export function formatSubscription(subscription: Subscription): string {
-	const intervalLabel = getIntervalLabel(
-		subscription.intervalHours ?? DEFAULT_INTERVAL_HOURS,
-	);
+export function formatSubscription(
+	subscription: Subscription,
+	settings?: DeliverySettings | null,
+	now = new Date(),
+): string {
 	const lastRun = subscription.lastRunAt
 		? new Date(subscription.lastRunAt).toLocaleDateString()
 		: "Never";
 
-	let text = `📌 ${subscription.topic}\n`;
-	text += `   ⏱️ ${intervalLabel}\n`;
+	let text =
+		subscription.kind === "author"
+			? `👤 ${subscription.topic}\n`
+			: `📌 ${subscription.topic}\n`;
+	text += `   ⏱️ ${getScheduleLabel(subscription)}\n`;
 	text += `   📅 Last update: ${lastRun}`;
 
+	if (subscription.isActive !== false) {
+		text += `\n   ⏭️ Next update: ${formatNextRun(subscription, settings, now)}`;
+	}
+
 	if (subscription.category) {
 		text += `\n   📂 Category: ${subscription.category}`;
 	}
 
+	if (subscription.kind === "author") {
+		const { categories } = getAuthorProfile(subscription);
+		if (categories.length > 0) {
+			text += `\n   📂 Fields: ${categories.slice(0, 3).join(", ")}`;
+		}
+	}
+
+	if (subscription.source !== DEFAULT_SOURCE) {
+		text += `\n   🌐 Source: ${getSourceName(subscription.source)}`;
+	}
+
 	return text;
 }
 
+/**
+ * Format when a subscription's next digest is due, in the owner's timezone
+ */
+function formatNextRun(
+	subscription: Subscription,
+	settings: DeliverySettings | null | undefined,
+	now: Date,
+): string {
+	const nextRun = getNextRunAt(subscription, settings, now);
+	if (nextRun.getTime() <= now.getTime()) {
+		return "Soon";
+	}
+
+	const timeZone = getTimezone(settings);
+	return `${formatLocalDateTime(nextRun, timeZone)} (${timeZone})`;
+}
+
 /**
  * Format subscriptions list message
  *
  * @param subscriptions - User's subscriptions
+ * @param settings - Owner's timezone and quiet hours
  * @returns Formatted message
  */
 export function formatSubscriptionsMessage(
 	subscriptions: Subscription[],
+	settings?: DeliverySettings | null,
 ): string {
 	if (subscriptions.length === 0) {
 		return "";
 	}
 
+	const now = new Date();
 	return subscriptions
-		.map((sub, i) => `${i + 1}. ${formatSubscription(sub)}`)
+		.map((sub, i) => `${i + 1}. ${formatSubscription(sub, settings, now)}`)
 		.join("\n\n");
 }
 
+/**
+ * Get human-readable schedule label
+ *
+ * @example
+ * getScheduleLabel({ scheduleType: "weekly", deliveryDay: 1, ... }) // "Weekly on Monday at 08:00"
+ */
+export function getScheduleLabel(
+	subscription: Pick<
+		Subscription,
+		"scheduleType" | "intervalHours" | "deliveryTime" | "deliveryDay"
+	>,
+): string {
+	const time = subscription.deliveryTime ?? DEFAULT_DELIVERY_TIME;
+	switch (subscription.scheduleType) {
+		case "daily":
+			return `Daily at ${time}`;
+		case "weekly": {
+			const day = WEEKDAYS[subscription.deliveryDay ?? DEFAULT_DELIVERY_DAY];
+			return `Weekly on ${day} at ${time}`;
+		}
+		default:
+			return getIntervalLabel(
+				subscription.intervalHours ?? DEFAULT_INTERVAL_HOURS,
+			);
+	}
+}
+
 /**
  * Get human-readable interval label
  *
@@ -361,8 +823,34 @@ function getIntervalLabel(hours: number): string {
 export function parseSubscribeArgs(args: string): {
 	topic: string;
 	category?: ArxivCategory;
+	source?: PaperSourceId;
+	unknownSource?: string;
+	submittedAfter?: Date;
+	invalidSince?: string;
+	schedule?: SubscriptionSchedule;
+	invalidSchedule?: string;
 } {
-	const trimmed = args.trim();
+	// Extract optional "--source", "--since", "--at" and "--weekly" flags first
+	const {
+		text: withoutSource,
+		source,
+		unknownSource,
+	} = parseSourceOption(args);
+	const {
+		text: withoutSince,
+		submittedAfter,
+		invalidSince,
+	} = parseSinceOption(withoutSource);
+	const { text, schedule, invalidSchedule } = parseScheduleOption(withoutSince);
+	const options = {
+		source,
+		unknownSource,
+		submittedAfter,
+		invalidSince,
+		schedule,
+		invalidSchedule,
+	};
+	const trimmed = text.trim();
 
 	// Check for category prefix like "cs.AI:" or "[cs.AI]"
 	const categoryMatch = trimmed.match(
@@ -372,8 +860,309 @@ export function parseSubscribeArgs(args: string): {
 	if (categoryMatch) {
 		const category = (categoryMatch[1] || categoryMatch[2]) as ArxivCategory;
 		const topic = categoryMatch[3] ?? trimmed;
-		return { topic, category };
+		return { topic, category, ...options };
+	}
+
+	return { topic: trimmed, ...options };
+}
+
+/**
+ * Parse /follow command arguments
+ *
+ * `--cat <category>` and `--with <co-author>` pick one of several authors
+ * sharing a name. A co-author name runs to the next flag.
+ *
+ * @example
+ * parseFollowArgs("Yoshua Bengio --with Aaron Courville --weekly fri");
+ * // { name: "Yoshua Bengio", coAuthor: "Aaron Courville", schedule: { scheduleType: "weekly", deliveryDay: 5 } }
+ */
+export function parseFollowArgs(args: string): {
+	name: string;
+	category?: string;
+	coAuthor?: string;
+	schedule?: SubscriptionSchedule;
+	invalidSchedule?: string;
+} {
+	const { text: withoutSchedule, ...schedule } = parseScheduleOption(args);
+	let text = withoutSchedule;
+
+	const categoryMatch = text.match(/(?:^|\s)--cat(?:=|\s+)(\S+)/);
+	if (categoryMatch) text = text.replace(categoryMatch[0], " ");
+	const withMatch = text.match(
+		/(?:^|\s)--with(?:=|\s+)("[^"]+"|.+?)(?=\s--|$)/,
+	);
+	if (withMatch) text = text.replace(withMatch[0], " ");
+
+	return {
+		name: text.replace(/\s+/g, " ").trim(),
+		category: categoryMatch?.[1],
+		coAuthor: withMatch?.[1]?.replace(/"/g, "").trim() || undefined,
+		...schedule,
+	};
+}
+
+/**
+ * Extract `--at <HH:MM>` and `--weekly <day>` options from command arguments
+ *
+ * `--at` alone schedules a daily digest; with `--weekly` it sets the time
+ * of the weekly digest.
+ *
+ * @example
+ * parseScheduleOption("--weekly mon --at 9:30 llm");
+ * // { text: "llm", schedule: { scheduleType: "weekly", deliveryDay: 1, deliveryTime: "09:30" } }
+ */
+export function parseScheduleOption(args: string): {
+	text: string;
+	schedule?: SubscriptionSchedule;
+	invalidSchedule?: string;
+} {
+	let text = args;
+	const atMatch = text.match(/(?:^|\s)--at(?:=|\s+)(\S+)/);
+	if (atMatch) text = text.replace(atMatch[0], " ");
+	const weeklyMatch = text.match(/(?:^|\s)--weekly(?:=|\s+)(\S+)/);
+	if (weeklyMatch) text = text.replace(weeklyMatch[0], " ");
+	text = text.replace(/\s+/g, " ").trim();
+
+	if (!atMatch?.[1] && !weeklyMatch?.[1]) {
+		return { text };
+	}
+
+	let deliveryTime: string | undefined;
+	if (atMatch?.[1]) {
+		const minutes = parseTimeOfDay(atMatch[1]);
+		if (minutes === null) {
+			return { text, invalidSchedule: atMatch[1] };
+		}
+		deliveryTime = formatTimeOfDay(minutes);
+	}
+
+	if (weeklyMatch?.[1]) {
+		const deliveryDay = parseWeekday(weeklyMatch[1]);
+		if (deliveryDay === null) {
+			return { text, invalidSchedule: weeklyMatch[1] };
+		}
+		return {
+			text,
+			schedule: { scheduleType: "weekly", deliveryDay, deliveryTime },
+		};
+	}
+
+	return { text, schedule: { scheduleType: "daily", deliveryTime } };
+}
+
+/**
+ * Set the timezone used for a user's digest schedules
+ *
+ * @param userId - User ID
+ * @param timezone - IANA timezone name (e.g. "Europe/Berlin")
+ */
+export async function setTimezone(
+	userId: number,
+	timezone: string,
+): Promise<SubscriptionResult> {
+	const normalized = normalizeTimezone(timezone);
+	if (!normalized) {
+		return {
+			success: false,
+			message: `❌ Unknown timezone "${timezone}". Use a name like Europe/Berlin or America/New_York.`,
+		};
+	}
+
+	const updated = await updateUserDeliverySettings(userId, {
+		timezone: normalized,
+	});
+	return updated
+		? {
+				success: true,
+				message: `✅ Timezone set to ${normalized}. Daily and weekly updates will arrive at local time.`,
+			}
+		: { success: false, message: "Failed to save timezone. Please try again." };
+}
+
+/**
+ * Parse a quiet hours range
+ *
+ * @returns Start and end times, "off", or null if invalid
+ *
+ * @example
+ * parseQuietHours("22:00-7:00") // { start: "22:00", end: "07:00" }
+ */
+export function parseQuietHours(
+	value: string,
+): { start: string; end: string } | "off" | null {
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "off" || normalized === "none") {
+		return "off";
+	}
+
+	const [startValue = "", endValue = "", ...rest] = normalized.split(
+		/\s*[-–]\s*|\s+to\s+|\s+/,
+	);
+	const start = parseTimeOfDay(startValue);
+	const end = parseTimeOfDay(endValue);
+	if (start === null || end === null || start === end || rest.length) {
+		return null;
+	}
+
+	return { start: formatTimeOfDay(start), end: formatTimeOfDay(end) };
+}
+
+/**
+ * Set or clear the local hours in which no digests are delivered
+ *
+ * @param userId - User ID
+ * @param quietHours - Range from parseQuietHours
+ */
+export async function setQuietHours(
+	userId: number,
+	quietHours: { start: string; end: string } | "off",
+): Promise<SubscriptionResult> {
+	const off = quietHours === "off";
+	const updated = await updateUserDeliverySettings(userId, {
+		quietHoursStart: off ? null : quietHours.start,
+		quietHoursEnd: off ? null : quietHours.end,
+	});
+
+	if (!updated) {
+		return {
+			success: false,
+			message: "Failed to save quiet hours. Please try again.",
+		};
+	}
+
+	return {
+		success: true,
+		message: off
+			? "✅ Quiet hours turned off."
+			: `✅ Quiet hours set to ${quietHours.start}-${quietHours.end} (${getTimezone(updated)}). Updates due in this window are sent when it ends.`,
+	};
+}
+
+/**
+ * Turn merged digests on or off
+ *
+ * With merged digests, all subscriptions due in the same worker run are
+ * sent as one message grouped by topic (see utils/digest.ts).
+ *
+ * @param userId - User ID
+ * @param merged - Whether to merge due subscriptions into one digest
+ * @param lang - Language for the reply
+ */
+export async function setMergedDigest(
+	userId: number,
+	merged: boolean,
+	lang: LanguageCode | string = "en",
+): Promise<SubscriptionResult> {
+	const updated = await updateUserDeliverySettings(userId, {
+		mergedDigest: merged,
+	});
+
+	if (!updated) {
+		return {
+			success: false,
+			message: t(lang, "digest.saveFailed"),
+		};
+	}
+
+	return {
+		success: true,
+		message: t(lang, merged ? "digest.mergedOn" : "digest.mergedOff"),
+	};
+}
+
+/**
+ * Usage help for /digest
+ *
+ * @param merged - Whether merged digests are currently on
+ * @param lang - Language for the help text
+ */
+export function getDigestUsage(
+	merged: boolean,
+	lang: LanguageCode | string = "en",
+): string {
+	return t(lang, "digest.usage", {
+		mode: t(lang, merged ? "digest.modeMerged" : "digest.modeSeparate"),
+	});
+}
+
+/**
+ * Read the pages of a stored digest
+ */
+export function getDigestPages(digest: Digest): DigestPage[] {
+	try {
+		const pages = JSON.parse(digest.pages);
+		return Array.isArray(pages) ? pages : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Create the keyboard for a page of a merged digest
+ *
+ * @param digestId - Stored digest ID (ignored for single-page digests)
+ * @param page - Zero-based page shown
+ * @param pages - All pages of the digest
+ * @returns InlineKeyboard
+ */
+export function createDigestKeyboard(
+	digestId: number,
+	page: number,
+	pages: DigestPage[],
+): InlineKeyboard {
+	const keyboard = new InlineKeyboard();
+
+	for (const paperKey of pages[page]?.paperKeys.slice(0, 3) ?? []) {
+		const callbackData = `bookmark:${paperKey}`;
+		if (!fitsCallbackData(callbackData)) continue;
+		keyboard.text(`📑 ${paperKey}`, callbackData).row();
+	}
+
+	if (pages.length > 1) {
+		if (page > 0) {
+			keyboard.text("◀️ Prev", `digest:${digestId}:${page - 1}`);
+		}
+		keyboard.text(`${page + 1}/${pages.length}`, `digest:${digestId}:${page}`);
+		if (page < pages.length - 1) {
+			keyboard.text("Next ▶️", `digest:${digestId}:${page + 1}`);
+		}
+		keyboard.row();
+	}
+
+	return keyboard.text("⚙️ Manage Subscriptions", "action:subscriptions");
+}
+
+/**
+ * Get the lower submission-date bound for a subscription's next digest
+ *
+ * Uses lastRunAt (less SUBMISSION_LOOKBACK_DAYS, for papers arXiv lists
+ * late) once the subscription has run, otherwise the window chosen with
+ * --since, falling back to one interval before now.
+ *
+ * @param subscription - Subscription to check
+ * @param now - Reference time (default: now)
+ * @returns Earliest submission date to include
+ */
+export function getSubscriptionWindowStart(
+	subscription: Subscription,
+	now = new Date(),
+): Date {
+	if (subscription.lastRunAt) {
+		const lastRun = new Date(subscription.lastRunAt);
+		if (!Number.isNaN(lastRun.getTime())) {
+			return new Date(
+				lastRun.getTime() - SUBMISSION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000,
+			);
+		}
+	}
+
+	if (subscription.submittedAfter) {
+		const date = new Date(subscription.submittedAfter);
+		if (!Number.isNaN(date.getTime())) {
+			return date;
+		}
 	}
 
-	return { topic: trimmed };
+	const intervalHours = subscription.intervalHours ?? DEFAULT_INTERVAL_HOURS;
+	return new Date(now.getTime() - intervalHours * 60 * 60 * 1000);
 }
@@ -48,6 +48,9 @@ export const ar: Translations = {
 		noMorePapers: "📭 لا توجد أوراق إضافية لهذا الموضوع.",
 		useSearchFirst: "استخدم /search أولاً للبحث عن الأوراق.",
 		loadingMore: '📚 جاري تحميل المزيد من الأوراق لـ "{topic}"...',
+		invalidQuery: "❌ استعلام بحث غير صالح: {error}",
+		queryExample:
+			'مثال: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -270,6 +273,7 @@ export const ar: Translations = {
 		notFound: '❌ تعذر العثور على ورقة بالمعرف "{arxivId}".',
 		noResults: "لم يتم العثور على أوراق مشابهة.",
 		title: "📚 أوراق مشابهة",
+		primaryHint: "أضف --primary لإبقاء النتائج ضمن الفئة الرئيسية للورقة.",
 	},
 
 	// Callback messages
@@ -328,6 +332,267 @@ export const ar: Translations = {
 		alreadyBookmarked: "📌 هذه الورقة محفوظة بالفعل في إشاراتك المرجعية!",
 		useBookmarksToView: "استخدم /bookmarks لعرض الأوراق المحفوظة.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: '❌ لا توجد مجموعة باسم "{name}".',
+		empty:
+			'📁 المجموعة "{name}" فارغة.\n\nأضف أوراقًا باستخدام:\n/collection add <paper id> {name}',
+		exportTitle: '📥 تصدير "{name}"',
+		notBookmarked:
+			'❌ "{paperId}" ليست ضمن إشاراتك المرجعية. احفظها أولاً باستخدام /save {paperId}',
+		noCollections:
+			"ليس لديك أي مجموعات بعد. أنشئ واحدة باستخدام /collection new <name>",
+		pick: "📁 إلى أي مجموعة تريد إضافة هذه الورقة؟",
+		missing: "❌ لم يتم العثور على المجموعة.",
+		noneTagged: "🏷 لا توجد إشارات مرجعية بالوسم {tag}.",
+		addButton: "📁 إضافة إلى مجموعة",
+		nameLength: "❌ يجب أن يتكون اسم المجموعة من 1 إلى {max} حرفًا.",
+		exists: '❌ لديك بالفعل مجموعة باسم "{name}".',
+		limit: "❌ وصلت إلى الحد الأقصى وهو {max} مجموعة. احذف واحدة أولاً.",
+		createFailed: "❌ تعذّر إنشاء المجموعة. حاول مرة أخرى.",
+		created: '✅ تم إنشاء المجموعة "{name}".',
+		deleted: '🗑 تم حذف المجموعة "{name}". أوراقها لا تزال في إشاراتك المرجعية.',
+		deleteFailed: "❌ تعذّر حذف المجموعة. حاول مرة أخرى.",
+		added: '📁 أُضيف إلى "{name}".',
+		alreadyIn: 'موجود بالفعل في "{name}".',
+		removed: 'أُزيل من "{name}".',
+		notIn: 'هذه الورقة ليست في "{name}".',
+		invalidTags:
+			'❌ يمكن أن تحتوي الوسوم على حروف وأرقام و"-" و"_" فقط (بحد أقصى {max} حرفًا).',
+		tagged: '🏷 تم وسم "{title}" بـ {tags}.',
+		alreadyTagged: '"{title}" لديه {tags} بالفعل.',
+		untagged: 'أُزيل {tags} من "{title}".',
+		notTagged: '"{title}" ليس لديه {tags}.',
+		none: "📁 ليس لديك أي مجموعات بعد.\n\nأنشئ واحدة باستخدام:\n/collection new <الاسم>",
+		listTitle: "📁 مجموعاتك:",
+		countOne: "ورقة واحدة",
+		countMany: "{count} ورقة",
+		noTags:
+			"🏷 لم تضع وسومًا على أي ورقة بعد.\n\nضع وسمًا على إشارة مرجعية باستخدام:\n/tag add <paper id> <وسوم...>",
+		tagsTitle: "🏷 وسومك:",
+		usage:
+			"📁 أوامر المجموعات:\n\n/collection - عرض مجموعاتك\n/collection new <الاسم> - إنشاء مجموعة\n/collection show <الاسم> - عرض أوراق مجموعة\n/collection add <paper id> <الاسم> - إضافة إشارة مرجعية إلى مجموعة\n/collection remove <paper id> <الاسم> - إزالة ورقة من مجموعة\n/collection export <الاسم> - تصدير مجموعة بصيغة BibTeX أو CSV\n/collection delete <الاسم> - حذف مجموعة (تبقى الإشارات المرجعية)",
+		tagUsage:
+			"🏷 أوامر الوسوم:\n\n/tag - عرض وسومك\n/tag add <paper id> <وسوم...> - وسم إشارة مرجعية\n/tag remove <paper id> <وسوم...> - إزالة وسوم من إشارة مرجعية\n/tag show <وسم> - عرض الإشارات المرجعية ذات الوسم (أو /tag #وسم)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: '📝 ملاحظات "{title}"',
+		editorCurrent: "الملاحظات الحالية:",
+		editorPrompt:
+			"أرسل ملاحظتك. يمكنك إرسال عدة رسائل.\n\n/done - حفظ\n/clear - حذف الملاحظات الحالية\n/cancel - تجاهل",
+		editorAdded: "✅ تمت الإضافة ({count}). أرسل المزيد، أو /done للحفظ.",
+		discarded: "تم تجاهل الملاحظة.",
+		deleted: "🗑 تم حذف الملاحظات.",
+		couldNotDelete: "❌ تعذر حذف الملاحظات. يرجى المحاولة مرة أخرى.",
+		nothingToSave: "لا يوجد شيء للحفظ.",
+		tooLong: "❌ الحد الأقصى للملاحظات هو {max} حرف لكل ورقة.",
+		saved: '✅ تم حفظ الملاحظة لـ "{title}".',
+		couldNotSave: "❌ تعذر حفظ ملاحظتك. يرجى المحاولة مرة أخرى.",
+		usage:
+			"📝 أضف ملاحظات إلى ورقة محفوظة:\n/note <paper id>\n\nابحث في ملاحظاتك باستخدام /notes <text>",
+		noMatches: '📝 لا توجد ملاحظات تطابق "{query}".',
+		none: "📝 لم تكتب أي ملاحظات بعد.\n\nاستخدم زر 📝 ملاحظة على ورقة محفوظة، أو /note <paper id>.",
+		matching: '📝 الملاحظات المطابقة لـ "{query}"',
+		title: "📝 ملاحظاتك",
+		saveFirst: "احفظ هذه الورقة في إشاراتك المرجعية قبل إضافة الملاحظات.",
+		button: "📝 ملاحظة",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 للقراءة",
+		reading: "📖 قيد القراءة",
+		read: "✅ مقروءة",
+		abandoned: "🚫 متروكة",
+		listTitle: "📚 قائمة القراءة",
+		invalid:
+			'❌ حالة أو ترتيب غير معروف "{value}".\n\nالاستخدام: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]',
+		saveFirst: "احفظ هذه الورقة في إشاراتك المرجعية أولاً.",
+		statusFor: '📖 حالة قراءة "{title}"',
+		rated: "التقييم {rating}/5",
+		ratingCleared: "تم مسح التقييم",
+		couldNotUpdate:
+			"❌ تعذر تحديث هذه الإشارة المرجعية. يرجى المحاولة مرة أخرى.",
+		all: "📋 الكل",
+		sortByDate: "🕒 ترتيب حسب التاريخ",
+		sortByRating: "⭐ ترتيب حسب التقييم",
+		statusButton: "📖 الحالة",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 يمكن لمشرفي المجموعة فقط إدارة اشتراكات هذه المجموعة.",
+		addMe: "👥 أضفني إلى مجموعة Telegram لمشاركة مكتبة أوراق مع أعضائها.",
+		adminsOnlyAdd: "🔒 يمكن لمشرفي المجموعة فقط إضافة أوراق إلى هذه المكتبة.",
+		alreadyAdded: '"{title}" موجودة بالفعل في مكتبة المجموعة.',
+		paperNotFound: "تعذر العثور على الورقة {paperId}.",
+		addFailed: "فشلت إضافة الورقة. يرجى المحاولة مرة أخرى.",
+		added: '✅ تمت إضافة "{title}" إلى مكتبة المجموعة.',
+		notInLibrary: "الورقة {paperId} ليست في مكتبة المجموعة.",
+		adminsOnlyRemove: "🔒 يمكن لمشرفي المجموعة فقط إزالة أوراق من هذه المكتبة.",
+		adminsOrAdderRemove:
+			"🔒 يمكن لمشرفي المجموعة والعضو الذي أضاف هذه الورقة فقط إزالتها.",
+		removed: '🗑 تمت إزالة "{title}" من مكتبة المجموعة.',
+		removeFailed: "فشلت إزالة الورقة. يرجى المحاولة مرة أخرى.",
+		adminsOnlySettings: "🔒 يمكن لمشرفي المجموعة فقط تغيير إعدادات المكتبة.",
+		settingsFailed: "فشل تحديث الإعدادات. يرجى المحاولة مرة أخرى.",
+		policyChanged: "✅ يمكن الآن تعديل مكتبة المجموعة بواسطة: {editors}.",
+		policyMembers: "جميع الأعضاء",
+		policyAdmins: "المشرفون فقط",
+		roleAdmin: "مشرف",
+		roleMember: "عضو",
+		defaultTitle: "مكتبة المجموعة",
+		papers: "📚 الأوراق: {count}",
+		subscriptions: "📬 الاشتراكات: {count}",
+		members: "🙋 الأعضاء: {count} (المشرفون: {admins})",
+		editableBy: "✏️ يمكن التعديل بواسطة: {editors}",
+		yourRole: "🔑 دورك: {role}",
+		usage:
+			"أوامر مكتبة المجموعة:\n/bookmarks - عرض مكتبة المجموعة\n/bookmarks add <paper id> - إضافة ورقة\n/bookmarks remove <paper id> - إزالة ورقة\n/subscribe <topic> - نشر ملخص في هذه المجموعة\n/export - تصدير مكتبة المجموعة\n/group policy admins|members - من يمكنه التعديل (للمشرفين فقط)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 أرسل الملف إليّ في محادثة خاصة لاستيراده إلى إشاراتك المرجعية.",
+		tooLarge: "❌ الملف كبير جدًا للاستيراد (الحد الأقصى {max} ميغابايت).",
+		noReferences: "❌ لم يتم العثور على مراجع في {file}.",
+		importing:
+			"⏳ جارٍ استيراد {count} إدخال من {file}. قد يستغرق ذلك بضع دقائق...",
+		finished: "📥 اكتمل الاستيراد",
+		imported: "✅ تم الاستيراد: {count}",
+		duplicates: "⏭ موجودة بالفعل في مكتبتك: {count}",
+		failed: "❌ تعذر التعرف عليها: {count}",
+		moreFailed: "…و{count} أخرى",
+		truncated:
+			"⚠️ تمت معالجة أول {max} إدخال فقط؛ وتم تخطي {count}. أرسل الباقي في ملف آخر.",
+		usage:
+			"📥 استيراد الأوراق\n\nأرسل ملفًا كمستند لإضافة أوراقه إلى إشاراتك المرجعية:\n• .bib - BibTeX (حقول arXiv eprint أو DOI أو PMID)\n• .ris - RIS من Zotero أو Mendeley أو EndNote\n• .txt - معرّفات arXiv أو DOI أو pmid:<id>، واحد في كل سطر\n\nحتى {max} إدخال لكل ملف. يتم تخطي الأوراق الموجودة في مكتبتك.",
+		importingOne:
+			"⏳ جارٍ استيراد إدخال واحد من {file}. قد يستغرق ذلك بضع دقائق...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ لك - أوراق جديدة تطابق اهتماماتك",
+		weeklyHeader: "✨ ملخصك الأسبوعي المقترح لك",
+		empty:
+			"✨ لا توجد اقتراحات بعد.\n\nاحفظ بعض الأوراق وابحث عنها واقرأها وسيتعلم /foryou ما يعجبك.",
+		refresh: "🔄 تحديث",
+		finding: "⏳ جارٍ البحث عن أوراق جديدة لك...",
+		weeklyOn:
+			"✅ تم تفعيل الملخص الأسبوعي المقترح لك. يصل كل {day} الساعة {time} حسب منطقتك الزمنية (راجع /timezone).",
+		weeklyOff: "🔕 تم إيقاف الملخص الأسبوعي المقترح لك.",
+		weeklyFailed: "فشل تحديث الملخص الأسبوعي. يرجى المحاولة مرة أخرى.",
+		usage:
+			"✨ لك\n\n/foryou - أوراق جديدة مختارة من إشاراتك المرجعية ومشاهداتك وعمليات بحثك\n/foryou weekly on - استلامها كملخص أسبوعي\n/foryou weekly off - إيقاف الملخص الأسبوعي",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ هذا الملخص لم يعد متاحًا.",
+		unknownMode: '❌ وضع ملخص غير معروف "{mode}".',
+		modeMerged: "مدمج",
+		modeSeparate: "منفصل",
+		usage:
+			"📬 وضع الملخص: {mode}\n\n/digest merged - رسالة واحدة لكل الاشتراكات المستحقة في الوقت نفسه\n/digest separate - رسالة لكل اشتراك",
+		saveFailed: "فشل حفظ وضع الملخص. يرجى المحاولة مرة أخرى.",
+		mergedOn:
+			"✅ تم تفعيل الملخص المدمج. تصل الاشتراكات المستحقة في الوقت نفسه في رسالة واحدة مجمّعة حسب الموضوع، مع الأوراق المطابقة لعدة مواضيع أولًا.",
+		mergedOff: "✅ تم إيقاف الملخص المدمج. يرسل كل اشتراك رسالته الخاصة.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: '❌ خيار غير معروف "{option}".',
+		feedUnavailable: "❌ الخلاصات غير متاحة في هذا البوت.",
+		feedFailed: "فشل إعداد خلاصتك. يرجى المحاولة مرة أخرى.",
+		feedReset: "🔄 رابط خلاصة جديد. الرابط القديم لم يعد يعمل.",
+		feedYours: "📡 خلاصة Atom الخاصة بك:",
+		feedHint:
+			"أضفها إلى أي قارئ خلاصات. تظهر أوراق الاشتراكات الجديدة هناك وفي تيليجرام. احتفظ بالرابط سرًا؛ /feed reset يستبدله.",
+		feedOffFailed: "فشل إيقاف خلاصتك. يرجى المحاولة مرة أخرى.",
+		feedOff: "📡 تم إيقاف الخلاصة. رابطها لم يعد يعمل.",
+		feedUsage:
+			"📡 خلاصة Atom\n\n/feed - احصل على رابط خلاصتك الشخصية\n/feed reset - استبدل الرابط\n/feed off - أوقف الخلاصة",
+		emailPrivateOnly: "📧 اضبط ملخصات البريد الإلكتروني في محادثة خاصة معي.",
+		emailUnavailable: "❌ ملخصات البريد الإلكتروني غير متاحة في هذا البوت.",
+		emailInvalid: "❌ لا يبدو هذا عنوان بريد إلكتروني.",
+		emailWait: "⏳ تم إرسال رمز للتو. يرجى الانتظار دقيقة قبل طلب رمز آخر.",
+		emailSaveFailed: "فشل حفظ عنوان بريدك الإلكتروني. يرجى المحاولة مرة أخرى.",
+		emailSendFailed:
+			"❌ تعذر إرسال بريد إلى هذا العنوان. يرجى التحقق منه والمحاولة مرة أخرى.",
+		emailSent:
+			"📧 أرسلت رمزًا إلى {address}. أرسل /email verify <الرمز> لتأكيده.",
+		emailNoCode:
+			"❌ لا يوجد رمز بانتظار التأكيد. أرسل /email <العنوان> للحصول على رمز.",
+		emailWrongCode: "❌ رمز خاطئ. تحقق من البريد وحاول مرة أخرى.",
+		emailOn:
+			"✅ تم تفعيل ملخصات البريد الإلكتروني. تُرسل أوراق الاشتراكات الجديدة أيضًا إلى {address}.",
+		emailOffFailed:
+			"فشل إيقاف ملخصات البريد الإلكتروني. يرجى المحاولة مرة أخرى.",
+		emailOff: "📧 تم إيقاف ملخصات البريد الإلكتروني.",
+		emailStatusOn: "مفعّلة ({address})",
+		emailStatusOff: "متوقفة",
+		emailUsage:
+			"📧 ملخصات البريد الإلكتروني: {status}\n\n/email <العنوان> - استلم أوراق الاشتراكات بالبريد أيضًا\n/email verify <الرمز> - أكّد عنوانك\n/email off - أوقف ملخصات البريد الإلكتروني",
+		emailTooManyAttempts:
+			"❌ رموز خاطئة كثيرة جدًا. أرسل /email <العنوان> للحصول على رمز جديد.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "الاستخدام: /admin_retry <معرّف المهمة> أو /admin_retry all",
+		retriedOne:
+			"🔁 أُعيدت مهمة فاشلة واحدة إلى الطابور. ستعمل في التشغيل القادم للعامل.",
+		retried:
+			"🔁 أُعيدت {count} مهام فاشلة إلى الطابور. ستعمل في التشغيل القادم للعامل.",
+		nothingToRetry: "لا توجد مهمة فاشلة لإعادة المحاولة.",
+		broadcastNotFound: "لم يتم العثور على البث.",
+		broadcastAlreadySent: "تم إرسال هذا البث أو إلغاؤه بالفعل.",
+		broadcastSending: "جارٍ الإرسال...",
+		broadcastCancelled: "تم إلغاء البث.",
+		broadcastFinished: "انتهى هذا البث بالفعل.",
+		broadcastNoRecipients: "لا يوجد مستخدمون يطابقون هذا الجمهور ({audience}).",
+		broadcastSaveFailed: "❌ تعذر حفظ البث. يرجى المحاولة مرة أخرى.",
+		broadcastBadMarkdown:
+			"❌ تعذر على تيليجرام تنسيق هذه الرسالة. تحقق من Markdown (*غامق*، _مائل_، `كود`) وحاول مرة أخرى.",
+		broadcastPreviewOne:
+			"👆 معاينة البث #{id}\n\nالجمهور: {audience} (مستخدم واحد)\n\nهل تريد إرساله؟",
+		broadcastPreview:
+			"👆 معاينة البث #{id}\n\nالجمهور: {audience} ({count} مستخدمين)\n\nهل تريد إرساله؟",
+		broadcastSend: "📢 إرسال",
+		broadcastCancel: "✖️ إلغاء",
+		broadcastUsage:
+			"الاستخدام: /broadcast [خيارات] <الرسالة>\n\nتحدد الخيارات من يستلمها (الافتراضي: جميع المستخدمين):\n  --lang <الرمز> - المستخدمون بهذه اللغة، مثل --lang de\n  --active <الأيام> - المستخدمون النشطون خلال الأيام الأخيرة، مثل --active 30d\n  --category <الفئة> - المستخدمون المشتركون في فئة، مثل --category cs.AI\n\nيمكن أن تستخدم الرسالة Markdown. ستصلك معاينة لتأكيدها قبل الإرسال.\n\n/broadcast history - عرض البثوث الأخيرة",
+		broadcastUnknownLanguage: "لغة غير معروفة: {value}",
+		broadcastInvalidActive: "فترة نشاط غير صالحة: {value} (استخدم مثلاً 30d)",
+		broadcastInvalidCategory: "فئة غير صالحة: {value} (استخدم مثلاً cs.AI)",
+		broadcastUnknownOption: "خيار غير معروف: {option}",
+		broadcastEmpty: "رسالة البث فارغة.",
+		broadcastTooLong: "رسالة البث طويلة جدًا ({length}/{max} حرفًا).",
+		broadcastStop: "⏹ إلغاء",
+		broadcastStatus: "📢 البث #{id}: {status}",
+		broadcastAudience: "الجمهور: {audience}",
+		broadcastProgress: "أُرسل: {sent} من {total}، فشل: {failed}",
+		broadcastStatusDraft: "بانتظار التأكيد",
+		broadcastStatusRunning: "جارٍ الإرسال",
+		broadcastStatusDone: "اكتمل",
+		broadcastStatusCancelled: "أُلغي",
+		broadcastHistoryEmpty: "لم يُرسل أي بث بعد.",
+		broadcastHistoryTitle: "📢 البثوث الأخيرة",
+		broadcastHistoryCounts: "{audience}: أُرسل {sent} وفشل {failed} من {total}",
+		audienceAll: "جميع المستخدمين",
+		audienceUsers: "المستخدمون {conditions}",
+		audienceLanguage: "باللغة {language}",
+		audienceActiveDay: "النشطون خلال اليوم الأخير",
+		audienceActiveDays: "النشطون خلال آخر {days} يومًا",
+		audienceCategory: "المشتركون في {category}",
+	},
 };
 
 export default ar;
@@ -46,6 +46,9 @@ export const de: Translations = {
 		noMorePapers: "📭 Keine weiteren Arbeiten zu diesem Thema gefunden.",
 		useSearchFirst: "Verwende zuerst /search um nach Arbeiten zu suchen.",
 		loadingMore: '📚 Lade weitere Arbeiten für "{topic}"...',
+		invalidQuery: "❌ Ungültige Suchanfrage: {error}",
+		queryExample:
+			'Beispiel: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -279,6 +282,8 @@ export const de: Translations = {
 		notFound: '❌ Konnte kein Paper mit ID "{arxivId}" finden.',
 		noResults: "Keine ähnlichen Arbeiten gefunden.",
 		title: "📚 Ähnliche Arbeiten",
+		primaryHint:
+			"Füge --primary hinzu, um nur Ergebnisse aus der Hauptkategorie der Arbeit zu erhalten.",
 	},
 
 	// Callback messages
@@ -340,6 +345,298 @@ export const de: Translations = {
 		useBookmarksToView:
 			"Verwende /bookmarks um deine gespeicherten Arbeiten anzuzeigen.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: "❌ Keine Sammlung namens „{name}“.",
+		empty:
+			"📁 „{name}“ ist leer.\n\nFüge Arbeiten hinzu mit:\n/collection add <paper id> {name}",
+		exportTitle: "📥 „{name}“ exportieren",
+		notBookmarked:
+			"❌ „{paperId}“ ist nicht in deinen Lesezeichen. Speichere es zuerst mit /save {paperId}",
+		noCollections:
+			"Du hast noch keine Sammlungen. Erstelle eine mit /collection new <name>",
+		pick: "📁 Zu welcher Sammlung soll diese Arbeit hinzugefügt werden?",
+		missing: "❌ Sammlung nicht gefunden.",
+		noneTagged: "🏷 Keine Lesezeichen mit dem Tag {tag}.",
+		addButton: "📁 Zu Sammlung hinzufügen",
+		nameLength: "❌ Sammlungsnamen müssen 1-{max} Zeichen lang sein.",
+		exists: "❌ Du hast bereits eine Sammlung namens „{name}“.",
+		limit:
+			"❌ Du hast das Maximum von {max} Sammlungen erreicht. Lösche zuerst eine.",
+		createFailed:
+			"❌ Sammlung konnte nicht erstellt werden. Bitte versuche es erneut.",
+		created: "✅ Sammlung „{name}“ erstellt.",
+		deleted:
+			"🗑 Sammlung „{name}“ gelöscht. Ihre Arbeiten bleiben in deinen Lesezeichen.",
+		deleteFailed:
+			"❌ Sammlung konnte nicht gelöscht werden. Bitte versuche es erneut.",
+		added: "📁 Zu „{name}“ hinzugefügt.",
+		alreadyIn: "Bereits in „{name}“.",
+		removed: "Aus „{name}“ entfernt.",
+		notIn: "Diese Arbeit ist nicht in „{name}“.",
+		invalidTags:
+			"❌ Tags dürfen nur Buchstaben, Ziffern, „-“ und „_“ enthalten (max. {max} Zeichen).",
+		tagged: "🏷 „{title}“ mit {tags} getaggt.",
+		alreadyTagged: "„{title}“ hat bereits {tags}.",
+		untagged: "{tags} von „{title}“ entfernt.",
+		notTagged: "„{title}“ hat {tags} nicht.",
+		none: "📁 Du hast noch keine Sammlungen.\n\nErstelle eine mit:\n/collection new <Name>",
+		listTitle: "📁 Deine Sammlungen:",
+		countOne: "1 Arbeit",
+		countMany: "{count} Arbeiten",
+		noTags:
+			"🏷 Du hast noch keine Arbeiten getaggt.\n\nTagge ein Lesezeichen mit:\n/tag add <paper id> <Tags...>",
+		tagsTitle: "🏷 Deine Tags:",
+		usage:
+			"📁 Sammlungsbefehle:\n\n/collection - Deine Sammlungen auflisten\n/collection new <Name> - Eine Sammlung erstellen\n/collection show <Name> - Arbeiten in einer Sammlung auflisten\n/collection add <paper id> <Name> - Ein Lesezeichen in eine Sammlung legen\n/collection remove <paper id> <Name> - Eine Arbeit aus einer Sammlung nehmen\n/collection export <Name> - Eine Sammlung als BibTeX oder CSV exportieren\n/collection delete <Name> - Eine Sammlung löschen (Lesezeichen bleiben erhalten)",
+		tagUsage:
+			"🏷 Tag-Befehle:\n\n/tag - Deine Tags auflisten\n/tag add <paper id> <Tags...> - Ein Lesezeichen taggen\n/tag remove <paper id> <Tags...> - Tags von einem Lesezeichen entfernen\n/tag show <Tag> - Lesezeichen mit einem Tag auflisten (oder /tag #Tag)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: "📝 Notizen zu „{title}“",
+		editorCurrent: "Aktuelle Notizen:",
+		editorPrompt:
+			"Sende deine Notiz. Du kannst mehrere Nachrichten senden.\n\n/done - speichern\n/clear - vorhandene Notizen löschen\n/cancel - verwerfen",
+		editorAdded:
+			"✅ Hinzugefügt ({count}). Sende mehr oder /done zum Speichern.",
+		discarded: "Notiz verworfen.",
+		deleted: "🗑 Notizen gelöscht.",
+		couldNotDelete:
+			"❌ Notizen konnten nicht gelöscht werden. Bitte versuche es erneut.",
+		nothingToSave: "Nichts zu speichern.",
+		tooLong: "❌ Notizen sind auf {max} Zeichen pro Arbeit begrenzt.",
+		saved: "✅ Notiz zu „{title}“ gespeichert.",
+		couldNotSave:
+			"❌ Deine Notiz konnte nicht gespeichert werden. Bitte versuche es erneut.",
+		usage:
+			"📝 Notizen zu einer gespeicherten Arbeit hinzufügen:\n/note <paper id>\n\nDurchsuche deine Notizen mit /notes <text>",
+		noMatches: "📝 Keine Notizen zu „{query}“ gefunden.",
+		none: "📝 Du hast noch keine Notizen geschrieben.\n\nNutze die Schaltfläche 📝 Notiz bei einer gespeicherten Arbeit oder /note <paper id>.",
+		matching: "📝 Notizen zu „{query}“",
+		title: "📝 Deine Notizen",
+		saveFirst:
+			"Speichere diese Arbeit in deinen Lesezeichen, bevor du Notizen hinzufügst.",
+		button: "📝 Notiz",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 Zu lesen",
+		reading: "📖 Lese ich",
+		read: "✅ Gelesen",
+		abandoned: "🚫 Abgebrochen",
+		listTitle: "📚 Leseliste",
+		invalid:
+			"❌ Unbekannter Status oder unbekannte Sortierung „{value}“.\n\nVerwendung: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]",
+		saveFirst: "Speichere diese Arbeit zuerst in deinen Lesezeichen.",
+		statusFor: "📖 Lesestatus von „{title}“",
+		rated: "Mit {rating}/5 bewertet",
+		ratingCleared: "Bewertung entfernt",
+		couldNotUpdate:
+			"❌ Dieses Lesezeichen konnte nicht aktualisiert werden. Bitte versuche es erneut.",
+		all: "📋 Alle",
+		sortByDate: "🕒 Nach Datum sortieren",
+		sortByRating: "⭐ Nach Bewertung sortieren",
+		statusButton: "📖 Status",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 Nur Gruppenadmins können die Abonnements dieser Gruppe verwalten.",
+		addMe:
+			"👥 Füge mich einer Telegram-Gruppe hinzu, um eine Bibliothek mit ihren Mitgliedern zu teilen.",
+		adminsOnlyAdd:
+			"🔒 Nur Gruppenadmins können Arbeiten zu dieser Bibliothek hinzufügen.",
+		alreadyAdded: "„{title}“ ist bereits in der Gruppenbibliothek.",
+		paperNotFound: "Arbeit {paperId} wurde nicht gefunden.",
+		addFailed:
+			"Arbeit konnte nicht hinzugefügt werden. Bitte versuche es erneut.",
+		added: "✅ „{title}“ wurde zur Gruppenbibliothek hinzugefügt.",
+		notInLibrary: "Arbeit {paperId} ist nicht in der Gruppenbibliothek.",
+		adminsOnlyRemove:
+			"🔒 Nur Gruppenadmins können Arbeiten aus dieser Bibliothek entfernen.",
+		adminsOrAdderRemove:
+			"🔒 Nur Gruppenadmins und das Mitglied, das sie hinzugefügt hat, können diese Arbeit entfernen.",
+		removed: "🗑 „{title}“ wurde aus der Gruppenbibliothek entfernt.",
+		removeFailed:
+			"Arbeit konnte nicht entfernt werden. Bitte versuche es erneut.",
+		adminsOnlySettings:
+			"🔒 Nur Gruppenadmins können die Bibliothekseinstellungen ändern.",
+		settingsFailed:
+			"Einstellungen konnten nicht aktualisiert werden. Bitte versuche es erneut.",
+		policyChanged:
+			"✅ Die Gruppenbibliothek kann jetzt bearbeitet werden von: {editors}.",
+		policyMembers: "alle Mitglieder",
+		policyAdmins: "nur Admins",
+		roleAdmin: "Admin",
+		roleMember: "Mitglied",
+		defaultTitle: "Gruppenbibliothek",
+		papers: "📚 Arbeiten: {count}",
+		subscriptions: "📬 Abonnements: {count}",
+		members: "🙋 Mitglieder: {count} (Admins: {admins})",
+		editableBy: "✏️ Bearbeitbar von: {editors}",
+		yourRole: "🔑 Deine Rolle: {role}",
+		usage:
+			"Befehle der Gruppenbibliothek:\n/bookmarks - Gruppenbibliothek anzeigen\n/bookmarks add <paper id> - Arbeit hinzufügen\n/bookmarks remove <paper id> - Arbeit entfernen\n/subscribe <topic> - Digest in dieser Gruppe posten\n/export - Gruppenbibliothek exportieren\n/group policy admins|members - Wer bearbeiten darf (nur Admins)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 Sende mir die Datei in einem privaten Chat, um sie in deine Lesezeichen zu importieren.",
+		tooLarge: "❌ Die Datei ist zu groß für den Import (max. {max} MB).",
+		noReferences: "❌ Keine Referenzen in {file} gefunden.",
+		importing:
+			"⏳ {count} Einträge aus {file} werden importiert. Das kann einige Minuten dauern...",
+		finished: "📥 Import abgeschlossen",
+		imported: "✅ Importiert: {count}",
+		duplicates: "⏭ Bereits in deiner Bibliothek: {count}",
+		failed: "❌ Nicht auflösbar: {count}",
+		moreFailed: "…und {count} weitere",
+		truncated:
+			"⚠️ Nur die ersten {max} Einträge wurden verarbeitet; {count} wurden übersprungen. Sende den Rest in einer weiteren Datei.",
+		usage:
+			"📥 Arbeiten importieren\n\nSende eine Datei als Dokument, um ihre Arbeiten zu deinen Lesezeichen hinzuzufügen:\n• .bib - BibTeX (arXiv-eprint-, DOI- oder PMID-Felder)\n• .ris - RIS aus Zotero, Mendeley oder EndNote\n• .txt - arXiv-IDs, DOIs oder pmid:<id>, eine pro Zeile\n\nBis zu {max} Einträge pro Datei. Arbeiten, die bereits in deiner Bibliothek sind, werden übersprungen.",
+		importingOne:
+			"⏳ 1 Eintrag aus {file} wird importiert. Das kann einige Minuten dauern...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ Für dich - neue Arbeiten passend zu deinen Interessen",
+		weeklyHeader: "✨ Dein wöchentlicher Für-dich-Digest",
+		empty:
+			"✨ Noch keine Vorschläge.\n\nSpeichere, suche und lies ein paar Arbeiten, dann lernt /foryou, was dich interessiert.",
+		refresh: "🔄 Aktualisieren",
+		finding: "⏳ Neue Arbeiten für dich werden gesucht...",
+		weeklyOn:
+			"✅ Wöchentlicher Für-dich-Digest aktiviert. Er kommt jeden {day} um {time} in deiner Zeitzone (siehe /timezone).",
+		weeklyOff: "🔕 Wöchentlicher Für-dich-Digest deaktiviert.",
+		weeklyFailed:
+			"Der wöchentliche Digest konnte nicht aktualisiert werden. Bitte versuche es erneut.",
+		usage:
+			"✨ Für dich\n\n/foryou - neue Arbeiten, ausgewählt anhand deiner Lesezeichen, Aufrufe und Suchen\n/foryou weekly on - als wöchentlichen Digest erhalten\n/foryou weekly off - wöchentlichen Digest beenden",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ Dieser Digest ist nicht mehr verfügbar.",
+		unknownMode: "❌ Unbekannter Digest-Modus „{mode}“.",
+		modeMerged: "zusammengefasst",
+		modeSeparate: "getrennt",
+		usage:
+			"📬 Digest-Modus: {mode}\n\n/digest merged - eine Nachricht für alle gleichzeitig fälligen Abos\n/digest separate - eine Nachricht pro Abo",
+		saveFailed:
+			"Der Digest-Modus konnte nicht gespeichert werden. Bitte versuche es erneut.",
+		mergedOn:
+			"✅ Zusammengefasster Digest aktiviert. Gleichzeitig fällige Abos kommen als eine Nachricht, nach Thema gruppiert, mit Arbeiten zu mehreren Themen zuerst.",
+		mergedOff:
+			"✅ Zusammengefasster Digest deaktiviert. Jedes Abo sendet eine eigene Nachricht.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: "❌ Unbekannte Option „{option}“.",
+		feedUnavailable: "❌ Feeds sind bei diesem Bot nicht verfügbar.",
+		feedFailed:
+			"Dein Feed konnte nicht eingerichtet werden. Bitte versuche es erneut.",
+		feedReset: "🔄 Neue Feed-URL. Die alte funktioniert nicht mehr.",
+		feedYours: "📡 Dein Atom-Feed:",
+		feedHint:
+			"Füge ihn in einen beliebigen Feedreader ein. Neue Abo-Arbeiten erscheinen dort zusätzlich zu Telegram. Halte die URL geheim; /feed reset ersetzt sie.",
+		feedOffFailed:
+			"Dein Feed konnte nicht deaktiviert werden. Bitte versuche es erneut.",
+		feedOff: "📡 Feed deaktiviert. Die URL funktioniert nicht mehr.",
+		feedUsage:
+			"📡 Atom-Feed\n\n/feed - URL deines persönlichen Feeds abrufen\n/feed reset - URL ersetzen\n/feed off - Feed deaktivieren",
+		emailPrivateOnly:
+			"📧 Richte E-Mail-Digests in einem privaten Chat mit mir ein.",
+		emailUnavailable: "❌ E-Mail-Digests sind bei diesem Bot nicht verfügbar.",
+		emailInvalid: "❌ Das sieht nicht wie eine E-Mail-Adresse aus.",
+		emailWait:
+			"⏳ Gerade wurde ein Code gesendet. Bitte warte eine Minute, bevor du einen neuen anforderst.",
+		emailSaveFailed:
+			"Deine E-Mail-Adresse konnte nicht gespeichert werden. Bitte versuche es erneut.",
+		emailSendFailed:
+			"❌ An diese Adresse konnte keine E-Mail gesendet werden. Bitte prüfe sie und versuche es erneut.",
+		emailSent:
+			"📧 Ich habe einen Code an {address} gesendet. Sende /email verify <Code>, um sie zu bestätigen.",
+		emailNoCode:
+			"❌ Es wartet kein Code. Sende /email <Adresse>, um einen zu erhalten.",
+		emailWrongCode:
+			"❌ Falscher Code. Prüfe die E-Mail und versuche es erneut.",
+		emailOn:
+			"✅ E-Mail-Digests aktiviert. Neue Abo-Arbeiten werden auch an {address} gesendet.",
+		emailOffFailed:
+			"E-Mail-Digests konnten nicht deaktiviert werden. Bitte versuche es erneut.",
+		emailOff: "📧 E-Mail-Digests deaktiviert.",
+		emailStatusOn: "aktiv ({address})",
+		emailStatusOff: "aus",
+		emailUsage:
+			"📧 E-Mail-Digests: {status}\n\n/email <Adresse> - Abo-Arbeiten auch per E-Mail erhalten\n/email verify <Code> - Adresse bestätigen\n/email off - E-Mail-Digests beenden",
+		emailTooManyAttempts:
+			"❌ Zu viele falsche Codes. Sende /email <Adresse>, um einen neuen zu erhalten.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "Verwendung: /admin_retry <Job-ID> oder /admin_retry all",
+		retriedOne:
+			"🔁 1 toter Job erneut eingereiht. Er läuft beim nächsten Worker-Lauf.",
+		retried:
+			"🔁 {count} tote Jobs erneut eingereiht. Sie laufen beim nächsten Worker-Lauf.",
+		nothingToRetry: "Kein toter Job zum Wiederholen.",
+		broadcastNotFound: "Rundsendung nicht gefunden.",
+		broadcastAlreadySent:
+			"Diese Rundsendung wurde bereits gesendet oder abgebrochen.",
+		broadcastSending: "Wird gesendet...",
+		broadcastCancelled: "Rundsendung abgebrochen.",
+		broadcastFinished: "Diese Rundsendung ist bereits abgeschlossen.",
+		broadcastNoRecipients:
+			"Keine Nutzer passen zu dieser Zielgruppe ({audience}).",
+		broadcastSaveFailed:
+			"❌ Die Rundsendung konnte nicht gespeichert werden. Bitte versuche es erneut.",
+		broadcastBadMarkdown:
+			"❌ Telegram konnte diese Nachricht nicht formatieren. Prüfe ihr Markdown (*fett*, _kursiv_, `Code`) und versuche es erneut.",
+		broadcastPreviewOne:
+			"👆 Vorschau der Rundsendung #{id}\n\nZielgruppe: {audience} (1 Nutzer)\n\nSenden?",
+		broadcastPreview:
+			"👆 Vorschau der Rundsendung #{id}\n\nZielgruppe: {audience} ({count} Nutzer)\n\nSenden?",
+		broadcastSend: "📢 Senden",
+		broadcastCancel: "✖️ Abbrechen",
+		broadcastUsage:
+			"Verwendung: /broadcast [Optionen] <Nachricht>\n\nOptionen wählen die Empfänger (Standard: alle Nutzer):\n  --lang <Code> - Nutzer mit dieser Sprache, z. B. --lang de\n  --active <Tage> - Nutzer, die in den letzten Tagen aktiv waren, z. B. --active 30d\n  --category <Kategorie> - Nutzer mit einem Abo in der Kategorie, z. B. --category cs.AI\n\nDie Nachricht darf Markdown verwenden. Vor dem Senden bekommst du eine Vorschau zur Bestätigung.\n\n/broadcast history - Letzte Rundsendungen anzeigen",
+		broadcastUnknownLanguage: "Unbekannte Sprache: {value}",
+		broadcastInvalidActive:
+			"Ungültiger Aktivitätszeitraum: {value} (z. B. 30d)",
+		broadcastInvalidCategory: "Ungültige Kategorie: {value} (z. B. cs.AI)",
+		broadcastUnknownOption: "Unbekannte Option: {option}",
+		broadcastEmpty: "Die Nachricht der Rundsendung ist leer.",
+		broadcastTooLong:
+			"Die Nachricht der Rundsendung ist zu lang ({length}/{max} Zeichen).",
+		broadcastStop: "⏹ Abbrechen",
+		broadcastStatus: "📢 Rundsendung #{id}: {status}",
+		broadcastAudience: "Zielgruppe: {audience}",
+		broadcastProgress: "Gesendet: {sent} von {total}, fehlgeschlagen: {failed}",
+		broadcastStatusDraft: "wartet auf Bestätigung",
+		broadcastStatusRunning: "wird gesendet",
+		broadcastStatusDone: "fertig",
+		broadcastStatusCancelled: "abgebrochen",
+		broadcastHistoryEmpty: "Es wurden noch keine Rundsendungen verschickt.",
+		broadcastHistoryTitle: "📢 Letzte Rundsendungen",
+		broadcastHistoryCounts:
+			"{audience}: {sent} gesendet, {failed} fehlgeschlagen von {total}",
+		audienceAll: "alle Nutzer",
+		audienceUsers: "Nutzer {conditions}",
+		audienceLanguage: "mit Sprache {language}",
+		audienceActiveDay: "am letzten Tag aktiv",
+		audienceActiveDays: "in den letzten {days} Tagen aktiv",
+		audienceCategory: "mit Abo für {category}",
+	},
 };
 
 export default de;
@@ -49,6 +49,9 @@ export const en: Translations = {
 		noMorePapers: "📭 No more papers found for this topic.",
 		useSearchFirst: "Use /search first to search for papers.",
 		loadingMore: '📚 Loading more papers for "{topic}"...',
+		invalidQuery: "❌ Invalid search query: {error}",
+		queryExample:
+			'Example: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -270,6 +273,8 @@ export const en: Translations = {
 		notFound: '❌ Could not find paper with ID "{arxivId}".',
 		noResults: "No similar papers found.",
 		title: "📚 Similar Papers",
+		primaryHint:
+			"Add --primary to keep results in the paper's primary category.",
 	},
 
 	// Callback messages
@@ -328,6 +333,270 @@ export const en: Translations = {
 		alreadyBookmarked: "📌 This paper is already in your bookmarks!",
 		useBookmarksToView: "Use /bookmarks to view your saved papers.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: '❌ No collection named "{name}".',
+		empty:
+			'📁 "{name}" is empty.\n\nAdd papers with:\n/collection add <paper id> {name}',
+		exportTitle: '📥 Export "{name}"',
+		notBookmarked:
+			'❌ "{paperId}" isn\'t in your bookmarks. Save it first with /save {paperId}',
+		noCollections:
+			"You don't have any collections yet. Create one with /collection new <name>",
+		pick: "📁 Add this paper to which collection?",
+		missing: "❌ Collection not found.",
+		noneTagged: "🏷 No bookmarks tagged {tag}.",
+		addButton: "📁 Add to collection",
+		nameLength: "❌ Collection names must be 1-{max} characters.",
+		exists: '❌ You already have a collection named "{name}".',
+		limit:
+			"❌ You've reached the maximum of {max} collections. Please delete one first.",
+		createFailed: "❌ Failed to create collection. Please try again.",
+		created: '✅ Created collection "{name}".',
+		deleted:
+			'🗑 Deleted collection "{name}". Its papers are still in your bookmarks.',
+		deleteFailed: "❌ Failed to delete collection. Please try again.",
+		added: '📁 Added to "{name}".',
+		alreadyIn: 'Already in "{name}".',
+		removed: 'Removed from "{name}".',
+		notIn: 'That paper isn\'t in "{name}".',
+		invalidTags:
+			'❌ Tags may only contain letters, digits, "-" and "_" (max {max} characters).',
+		tagged: '🏷 Tagged "{title}" with {tags}.',
+		alreadyTagged: '"{title}" already has {tags}.',
+		untagged: 'Removed {tags} from "{title}".',
+		notTagged: '"{title}" doesn\'t have {tags}.',
+		none: "📁 You don't have any collections yet.\n\nCreate one with:\n/collection new <name>",
+		listTitle: "📁 Your collections:",
+		countOne: "1 paper",
+		countMany: "{count} papers",
+		noTags:
+			"🏷 You haven't tagged any papers yet.\n\nTag a bookmark with:\n/tag add <paper id> <tags...>",
+		tagsTitle: "🏷 Your tags:",
+		usage:
+			"📁 Collection commands:\n\n/collection - List your collections\n/collection new <name> - Create a collection\n/collection show <name> - List papers in a collection\n/collection add <paper id> <name> - File a bookmark into a collection\n/collection remove <paper id> <name> - Take a paper out of a collection\n/collection export <name> - Export a collection as BibTeX or CSV\n/collection delete <name> - Delete a collection (bookmarks are kept)",
+		tagUsage:
+			"🏷 Tag commands:\n\n/tag - List your tags\n/tag add <paper id> <tags...> - Tag a bookmark\n/tag remove <paper id> <tags...> - Remove tags from a bookmark\n/tag show <tag> - List bookmarks with a tag (or /tag #tag)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: '📝 Notes for "{title}"',
+		editorCurrent: "Current notes:",
+		editorPrompt:
+			"Send your note. You can send several messages.\n\n/done - save\n/clear - delete existing notes\n/cancel - discard",
+		editorAdded: "✅ Added ({count}). Send more, or /done to save.",
+		discarded: "Note discarded.",
+		deleted: "🗑 Notes deleted.",
+		couldNotDelete: "❌ Couldn't delete notes. Please try again.",
+		nothingToSave: "Nothing to save.",
+		tooLong: "❌ Notes are limited to {max} characters per paper.",
+		saved: '✅ Note saved for "{title}".',
+		couldNotSave: "❌ Couldn't save your note. Please try again.",
+		usage:
+			"📝 Add notes to a bookmarked paper:\n/note <paper id>\n\nSearch your notes with /notes <text>",
+		noMatches: '📝 No notes matching "{query}".',
+		none: "📝 You haven't written any notes yet.\n\nUse the 📝 Note button on a saved paper, or /note <paper id>.",
+		matching: '📝 Notes matching "{query}"',
+		title: "📝 Your notes",
+		saveFirst: "Save this paper to your bookmarks before adding notes.",
+		button: "📝 Note",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 To read",
+		reading: "📖 Reading",
+		read: "✅ Read",
+		abandoned: "🚫 Abandoned",
+		listTitle: "📚 Reading list",
+		invalid:
+			'❌ Unknown status or sort "{value}".\n\nUsage: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]',
+		saveFirst: "Save this paper to your bookmarks first.",
+		statusFor: '📖 Reading status for "{title}"',
+		rated: "Rated {rating}/5",
+		ratingCleared: "Rating cleared",
+		couldNotUpdate: "❌ Couldn't update this bookmark. Please try again.",
+		all: "📋 All",
+		sortByDate: "🕒 Sort by date",
+		sortByRating: "⭐ Sort by rating",
+		statusButton: "📖 Status",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 Only group admins can manage this group's subscriptions.",
+		addMe:
+			"👥 Add me to a Telegram group to share a paper library with its members.",
+		adminsOnlyAdd: "🔒 Only group admins can add papers to this library.",
+		alreadyAdded: '"{title}" is already in the group library.',
+		paperNotFound: "Could not find paper {paperId}.",
+		addFailed: "Failed to add paper. Please try again.",
+		added: '✅ Added "{title}" to the group library.',
+		notInLibrary: "Paper {paperId} is not in the group library.",
+		adminsOnlyRemove:
+			"🔒 Only group admins can remove papers from this library.",
+		adminsOrAdderRemove:
+			"🔒 Only group admins and the member who added it can remove this paper.",
+		removed: '🗑 Removed "{title}" from the group library.',
+		removeFailed: "Failed to remove paper. Please try again.",
+		adminsOnlySettings: "🔒 Only group admins can change the library settings.",
+		settingsFailed: "Failed to update settings. Please try again.",
+		policyChanged: "✅ The group library can now be edited by {editors}.",
+		policyMembers: "all members",
+		policyAdmins: "admins only",
+		roleAdmin: "admin",
+		roleMember: "member",
+		defaultTitle: "Group library",
+		papers: "📚 Papers: {count}",
+		subscriptions: "📬 Subscriptions: {count}",
+		members: "🙋 Members: {count} (admins: {admins})",
+		editableBy: "✏️ Editable by: {editors}",
+		yourRole: "🔑 Your role: {role}",
+		usage:
+			"Group library commands:\n/bookmarks - Show the group library\n/bookmarks add <paper id> - Add a paper\n/bookmarks remove <paper id> - Remove a paper\n/subscribe <topic> - Post a digest to this group\n/export - Export the group library\n/group policy admins|members - Who can edit (admins only)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 Send your file to me in a private chat to import it into your bookmarks.",
+		tooLarge: "❌ That file is too large to import (max {max} MB).",
+		noReferences: "❌ No references found in {file}.",
+		importing:
+			"⏳ Importing {count} entries from {file}. This can take a few minutes...",
+		finished: "📥 Import finished",
+		imported: "✅ Imported: {count}",
+		duplicates: "⏭ Already in your library: {count}",
+		failed: "❌ Could not resolve: {count}",
+		moreFailed: "…and {count} more",
+		truncated:
+			"⚠️ Only the first {max} entries were processed; {count} were skipped. Send the rest in another file.",
+		usage:
+			"📥 Import papers\n\nSend a file as a document to add its papers to your bookmarks:\n• .bib - BibTeX (arXiv eprint, DOI or PMID fields)\n• .ris - RIS from Zotero, Mendeley or EndNote\n• .txt - arXiv IDs, DOIs or pmid:<id>, one per line\n\nUp to {max} entries per file. Papers already in your library are skipped.",
+		importingOne:
+			"⏳ Importing 1 entry from {file}. This can take a few minutes...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ For You - new papers matching your interests",
+		weeklyHeader: "✨ Your weekly For You digest",
+		empty:
+			"✨ Nothing to suggest yet.\n\nBookmark, search and read a few papers and /foryou will learn what you like.",
+		refresh: "🔄 Refresh",
+		finding: "⏳ Finding new papers for you...",
+		weeklyOn:
+			"✅ Weekly For You digest on. It arrives every {day} at {time} in your timezone (see /timezone).",
+		weeklyOff: "🔕 Weekly For You digest off.",
+		weeklyFailed: "Failed to update the weekly digest. Please try again.",
+		usage:
+			"✨ For You\n\n/foryou - new papers picked from your bookmarks, views and searches\n/foryou weekly on - get them as a weekly digest\n/foryou weekly off - stop the weekly digest",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ This digest is no longer available.",
+		unknownMode: '❌ Unknown digest mode "{mode}".',
+		modeMerged: "merged",
+		modeSeparate: "separate",
+		usage:
+			"📬 Digest mode: {mode}\n\n/digest merged - one message for all subscriptions due at the same time\n/digest separate - one message per subscription",
+		saveFailed: "Failed to save the digest mode. Please try again.",
+		mergedOn:
+			"✅ Merged digest on. Subscriptions due at the same time arrive as one message, grouped by topic, with papers matching several topics first.",
+		mergedOff: "✅ Merged digest off. Each subscription sends its own message.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: '❌ Unknown option "{option}".',
+		feedUnavailable: "❌ Feeds are not available on this bot.",
+		feedFailed: "Failed to set up your feed. Please try again.",
+		feedReset: "🔄 New feed URL. The old one no longer works.",
+		feedYours: "📡 Your Atom feed:",
+		feedHint:
+			"Add it to any feed reader. New subscription papers appear there as well as in Telegram. Keep the URL private; /feed reset replaces it.",
+		feedOffFailed: "Failed to turn off your feed. Please try again.",
+		feedOff: "📡 Feed off. Its URL no longer works.",
+		feedUsage:
+			"📡 Atom feed\n\n/feed - get your personal feed URL\n/feed reset - replace the URL\n/feed off - turn the feed off",
+		emailPrivateOnly: "📧 Set up email digests in a private chat with me.",
+		emailUnavailable: "❌ Email digests are not available on this bot.",
+		emailInvalid: "❌ That doesn't look like an email address.",
+		emailWait:
+			"⏳ A code was just sent. Please wait a minute before asking for another.",
+		emailSaveFailed: "Failed to save your email address. Please try again.",
+		emailSendFailed:
+			"❌ Couldn't send an email to that address. Please check it and try again.",
+		emailSent:
+			"📧 I sent a code to {address}. Send /email verify <code> to confirm it.",
+		emailNoCode: "❌ No code is waiting. Send /email <address> to get one.",
+		emailWrongCode: "❌ Wrong code. Check the email and try again.",
+		emailOn:
+			"✅ Email digests on. New subscription papers are also sent to {address}.",
+		emailOffFailed: "Failed to turn off email digests. Please try again.",
+		emailOff: "📧 Email digests off.",
+		emailStatusOn: "on ({address})",
+		emailStatusOff: "off",
+		emailUsage:
+			"📧 Email digests: {status}\n\n/email <address> - get subscription papers by email too\n/email verify <code> - confirm your address\n/email off - stop email digests",
+		emailTooManyAttempts:
+			"❌ Too many wrong codes. Send /email <address> to get a new one.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "Usage: /admin_retry <job id> or /admin_retry all",
+		retriedOne: "🔁 Queued 1 dead job again. It runs on the next worker run.",
+		retried:
+			"🔁 Queued {count} dead jobs again. They run on the next worker run.",
+		nothingToRetry: "No dead job to retry.",
+		broadcastNotFound: "Broadcast not found.",
+		broadcastAlreadySent: "This broadcast was already sent or cancelled.",
+		broadcastSending: "Sending...",
+		broadcastCancelled: "Broadcast cancelled.",
+		broadcastFinished: "This broadcast has already finished.",
+		broadcastNoRecipients: "No users match this audience ({audience}).",
+		broadcastSaveFailed: "❌ Could not save the broadcast. Please try again.",
+		broadcastBadMarkdown:
+			"❌ Telegram could not format this message. Check its Markdown (*bold*, _italic_, `code`) and try again.",
+		broadcastPreviewOne:
+			"👆 Preview of broadcast #{id}\n\nAudience: {audience} (1 user)\n\nSend it?",
+		broadcastPreview:
+			"👆 Preview of broadcast #{id}\n\nAudience: {audience} ({count} users)\n\nSend it?",
+		broadcastSend: "📢 Send",
+		broadcastCancel: "✖️ Cancel",
+		broadcastUsage:
+			"Usage: /broadcast [options] <message>\n\nOptions pick who receives it (default: all users):\n  --lang <code> - users with this language, e.g. --lang de\n  --active <days> - users active in the last days, e.g. --active 30d\n  --category <category> - users subscribed to a category, e.g. --category cs.AI\n\nThe message may use Markdown. You get a preview to confirm before it is sent.\n\n/broadcast history - View recent broadcasts",
+		broadcastUnknownLanguage: "Unknown language: {value}",
+		broadcastInvalidActive: "Invalid activity window: {value} (use e.g. 30d)",
+		broadcastInvalidCategory: "Invalid category: {value} (use e.g. cs.AI)",
+		broadcastUnknownOption: "Unknown option: {option}",
+		broadcastEmpty: "The broadcast message is empty.",
+		broadcastTooLong:
+			"The broadcast message is too long ({length}/{max} characters).",
+		broadcastStop: "⏹ Cancel",
+		broadcastStatus: "📢 Broadcast #{id}: {status}",
+		broadcastAudience: "Audience: {audience}",
+		broadcastProgress: "Sent: {sent} of {total}, failed: {failed}",
+		broadcastStatusDraft: "awaiting confirmation",
+		broadcastStatusRunning: "sending",
+		broadcastStatusDone: "done",
+		broadcastStatusCancelled: "cancelled",
+		broadcastHistoryEmpty: "No broadcasts have been sent yet.",
+		broadcastHistoryTitle: "📢 Recent broadcasts",
+		broadcastHistoryCounts:
+			"{audience}: {sent} sent, {failed} failed of {total}",
+		audienceAll: "all users",
+		audienceUsers: "users {conditions}",
+		audienceLanguage: "with language {language}",
+		audienceActiveDay: "active in the last day",
+		audienceActiveDays: "active in the last {days} days",
+		audienceCategory: "subscribed to {category}",
+	},
 };
 
 export default en;
@@ -46,6 +46,9 @@ export const es: Translations = {
 		noMorePapers: "📭 No se encontraron más artículos para este tema.",
 		useSearchFirst: "Usa /search primero para buscar artículos.",
 		loadingMore: '📚 Cargando más artículos para "{topic}"...',
+		invalidQuery: "❌ Consulta de búsqueda no válida: {error}",
+		queryExample:
+			'Ejemplo: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -278,6 +281,8 @@ export const es: Translations = {
 		notFound: '❌ No se pudo encontrar el artículo con ID "{arxivId}".',
 		noResults: "No se encontraron artículos similares.",
 		title: "📚 Artículos Similares",
+		primaryHint:
+			"Añade --primary para limitar los resultados a la categoría principal del artículo.",
 	},
 
 	// Callback messages
@@ -339,6 +344,288 @@ export const es: Translations = {
 		alreadyBookmarked: "📌 ¡Este artículo ya está en tus marcadores!",
 		useBookmarksToView: "Usa /bookmarks para ver tus artículos guardados.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: '❌ No hay ninguna colección llamada "{name}".',
+		empty:
+			'📁 "{name}" está vacía.\n\nAñade artículos con:\n/collection add <paper id> {name}',
+		exportTitle: '📥 Exportar "{name}"',
+		notBookmarked:
+			'❌ "{paperId}" no está en tus marcadores. Guárdalo primero con /save {paperId}',
+		noCollections:
+			"Aún no tienes colecciones. Crea una con /collection new <name>",
+		pick: "📁 ¿A qué colección quieres añadir este artículo?",
+		missing: "❌ Colección no encontrada.",
+		noneTagged: "🏷 No hay marcadores con la etiqueta {tag}.",
+		addButton: "📁 Añadir a colección",
+		nameLength:
+			"❌ Los nombres de colección deben tener entre 1 y {max} caracteres.",
+		exists: '❌ Ya tienes una colección llamada "{name}".',
+		limit:
+			"❌ Has alcanzado el máximo de {max} colecciones. Elimina una primero.",
+		createFailed: "❌ No se pudo crear la colección. Inténtalo de nuevo.",
+		created: '✅ Colección "{name}" creada.',
+		deleted:
+			'🗑 Colección "{name}" eliminada. Sus artículos siguen en tus marcadores.',
+		deleteFailed: "❌ No se pudo eliminar la colección. Inténtalo de nuevo.",
+		added: '📁 Añadido a "{name}".',
+		alreadyIn: 'Ya está en "{name}".',
+		removed: 'Quitado de "{name}".',
+		notIn: 'Ese artículo no está en "{name}".',
+		invalidTags:
+			'❌ Las etiquetas solo pueden contener letras, dígitos, "-" y "_" (máx. {max} caracteres).',
+		tagged: '🏷 "{title}" etiquetado con {tags}.',
+		alreadyTagged: '"{title}" ya tiene {tags}.',
+		untagged: 'Se quitó {tags} de "{title}".',
+		notTagged: '"{title}" no tiene {tags}.',
+		none: "📁 Aún no tienes colecciones.\n\nCrea una con:\n/collection new <nombre>",
+		listTitle: "📁 Tus colecciones:",
+		countOne: "1 artículo",
+		countMany: "{count} artículos",
+		noTags:
+			"🏷 Aún no has etiquetado ningún artículo.\n\nEtiqueta un marcador con:\n/tag add <paper id> <etiquetas...>",
+		tagsTitle: "🏷 Tus etiquetas:",
+		usage:
+			"📁 Comandos de colecciones:\n\n/collection - Ver tus colecciones\n/collection new <nombre> - Crear una colección\n/collection show <nombre> - Ver los artículos de una colección\n/collection add <paper id> <nombre> - Añadir un marcador a una colección\n/collection remove <paper id> <nombre> - Quitar un artículo de una colección\n/collection export <nombre> - Exportar una colección como BibTeX o CSV\n/collection delete <nombre> - Eliminar una colección (los marcadores se conservan)",
+		tagUsage:
+			"🏷 Comandos de etiquetas:\n\n/tag - Ver tus etiquetas\n/tag add <paper id> <etiquetas...> - Etiquetar un marcador\n/tag remove <paper id> <etiquetas...> - Quitar etiquetas de un marcador\n/tag show <etiqueta> - Ver marcadores con una etiqueta (o /tag #etiqueta)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: '📝 Notas de "{title}"',
+		editorCurrent: "Notas actuales:",
+		editorPrompt:
+			"Envía tu nota. Puedes enviar varios mensajes.\n\n/done - guardar\n/clear - borrar las notas existentes\n/cancel - descartar",
+		editorAdded: "✅ Añadido ({count}). Envía más o /done para guardar.",
+		discarded: "Nota descartada.",
+		deleted: "🗑 Notas borradas.",
+		couldNotDelete: "❌ No se pudieron borrar las notas. Inténtalo de nuevo.",
+		nothingToSave: "No hay nada que guardar.",
+		tooLong: "❌ Las notas están limitadas a {max} caracteres por artículo.",
+		saved: '✅ Nota guardada para "{title}".',
+		couldNotSave: "❌ No se pudo guardar tu nota. Inténtalo de nuevo.",
+		usage:
+			"📝 Añade notas a un artículo guardado:\n/note <paper id>\n\nBusca en tus notas con /notes <text>",
+		noMatches: '📝 No hay notas que coincidan con "{query}".',
+		none: "📝 Aún no has escrito ninguna nota.\n\nUsa el botón 📝 Nota en un artículo guardado, o /note <paper id>.",
+		matching: '📝 Notas que coinciden con "{query}"',
+		title: "📝 Tus notas",
+		saveFirst: "Guarda este artículo en tus marcadores antes de añadir notas.",
+		button: "📝 Nota",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 Por leer",
+		reading: "📖 Leyendo",
+		read: "✅ Leído",
+		abandoned: "🚫 Abandonado",
+		listTitle: "📚 Lista de lectura",
+		invalid:
+			'❌ Estado u orden desconocido "{value}".\n\nUso: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]',
+		saveFirst: "Primero guarda este artículo en tus marcadores.",
+		statusFor: '📖 Estado de lectura de "{title}"',
+		rated: "Valorado con {rating}/5",
+		ratingCleared: "Valoración eliminada",
+		couldNotUpdate:
+			"❌ No se pudo actualizar este marcador. Inténtalo de nuevo.",
+		all: "📋 Todos",
+		sortByDate: "🕒 Ordenar por fecha",
+		sortByRating: "⭐ Ordenar por valoración",
+		statusButton: "📖 Estado",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 Solo los administradores del grupo pueden gestionar sus suscripciones.",
+		addMe:
+			"👥 Añádeme a un grupo de Telegram para compartir una biblioteca de artículos con sus miembros.",
+		adminsOnlyAdd:
+			"🔒 Solo los administradores del grupo pueden añadir artículos a esta biblioteca.",
+		alreadyAdded: '"{title}" ya está en la biblioteca del grupo.',
+		paperNotFound: "No se encontró el artículo {paperId}.",
+		addFailed: "No se pudo añadir el artículo. Inténtalo de nuevo.",
+		added: '✅ "{title}" añadido a la biblioteca del grupo.',
+		notInLibrary: "El artículo {paperId} no está en la biblioteca del grupo.",
+		adminsOnlyRemove:
+			"🔒 Solo los administradores del grupo pueden quitar artículos de esta biblioteca.",
+		adminsOrAdderRemove:
+			"🔒 Solo los administradores del grupo y el miembro que lo añadió pueden quitar este artículo.",
+		removed: '🗑 "{title}" quitado de la biblioteca del grupo.',
+		removeFailed: "No se pudo quitar el artículo. Inténtalo de nuevo.",
+		adminsOnlySettings:
+			"🔒 Solo los administradores del grupo pueden cambiar la configuración de la biblioteca.",
+		settingsFailed:
+			"No se pudo actualizar la configuración. Inténtalo de nuevo.",
+		policyChanged: "✅ Ahora pueden editar la biblioteca del grupo: {editors}.",
+		policyMembers: "todos los miembros",
+		policyAdmins: "solo administradores",
+		roleAdmin: "administrador",
+		roleMember: "miembro",
+		defaultTitle: "Biblioteca del grupo",
+		papers: "📚 Artículos: {count}",
+		subscriptions: "📬 Suscripciones: {count}",
+		members: "🙋 Miembros: {count} (administradores: {admins})",
+		editableBy: "✏️ Pueden editar: {editors}",
+		yourRole: "🔑 Tu rol: {role}",
+		usage:
+			"Comandos de la biblioteca del grupo:\n/bookmarks - Ver la biblioteca del grupo\n/bookmarks add <paper id> - Añadir un artículo\n/bookmarks remove <paper id> - Quitar un artículo\n/subscribe <topic> - Publicar un resumen en este grupo\n/export - Exportar la biblioteca del grupo\n/group policy admins|members - Quién puede editar (solo administradores)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 Envíame el archivo en un chat privado para importarlo a tus marcadores.",
+		tooLarge:
+			"❌ El archivo es demasiado grande para importarlo (máx. {max} MB).",
+		noReferences: "❌ No se encontraron referencias en {file}.",
+		importing:
+			"⏳ Importando {count} entradas de {file}. Esto puede tardar unos minutos...",
+		finished: "📥 Importación finalizada",
+		imported: "✅ Importados: {count}",
+		duplicates: "⏭ Ya en tu biblioteca: {count}",
+		failed: "❌ No se pudieron resolver: {count}",
+		moreFailed: "…y {count} más",
+		truncated:
+			"⚠️ Solo se procesaron las primeras {max} entradas; se omitieron {count}. Envía el resto en otro archivo.",
+		usage:
+			"📥 Importar artículos\n\nEnvía un archivo como documento para añadir sus artículos a tus marcadores:\n• .bib - BibTeX (campos eprint de arXiv, DOI o PMID)\n• .ris - RIS de Zotero, Mendeley o EndNote\n• .txt - IDs de arXiv, DOIs o pmid:<id>, uno por línea\n\nHasta {max} entradas por archivo. Se omiten los artículos que ya están en tu biblioteca.",
+		importingOne:
+			"⏳ Importando 1 entrada de {file}. Esto puede tardar unos minutos...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ Para ti - artículos nuevos según tus intereses",
+		weeklyHeader: "✨ Tu resumen semanal Para ti",
+		empty:
+			"✨ Aún no hay nada que sugerir.\n\nGuarda, busca y lee algunos artículos y /foryou aprenderá lo que te gusta.",
+		refresh: "🔄 Actualizar",
+		finding: "⏳ Buscando artículos nuevos para ti...",
+		weeklyOn:
+			"✅ Resumen semanal Para ti activado. Llega cada {day} a las {time} en tu zona horaria (ver /timezone).",
+		weeklyOff: "🔕 Resumen semanal Para ti desactivado.",
+		weeklyFailed:
+			"No se pudo actualizar el resumen semanal. Inténtalo de nuevo.",
+		usage:
+			"✨ Para ti\n\n/foryou - artículos nuevos elegidos a partir de tus marcadores, lecturas y búsquedas\n/foryou weekly on - recibirlos como resumen semanal\n/foryou weekly off - dejar de recibir el resumen semanal",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ Este resumen ya no está disponible.",
+		unknownMode: '❌ Modo de resumen desconocido "{mode}".',
+		modeMerged: "combinado",
+		modeSeparate: "separado",
+		usage:
+			"📬 Modo de resumen: {mode}\n\n/digest merged - un mensaje para todas las suscripciones que tocan a la vez\n/digest separate - un mensaje por suscripción",
+		saveFailed: "No se pudo guardar el modo de resumen. Inténtalo de nuevo.",
+		mergedOn:
+			"✅ Resumen combinado activado. Las suscripciones que tocan a la vez llegan en un solo mensaje, agrupadas por tema, con primero los artículos que coinciden con varios temas.",
+		mergedOff:
+			"✅ Resumen combinado desactivado. Cada suscripción envía su propio mensaje.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: '❌ Opción desconocida "{option}".',
+		feedUnavailable: "❌ Los feeds no están disponibles en este bot.",
+		feedFailed: "No se pudo configurar tu feed. Inténtalo de nuevo.",
+		feedReset: "🔄 Nueva URL del feed. La anterior ya no funciona.",
+		feedYours: "📡 Tu feed Atom:",
+		feedHint:
+			"Añádelo a cualquier lector de feeds. Los artículos nuevos de tus suscripciones aparecen allí además de en Telegram. Mantén la URL en privado; /feed reset la reemplaza.",
+		feedOffFailed: "No se pudo desactivar tu feed. Inténtalo de nuevo.",
+		feedOff: "📡 Feed desactivado. Su URL ya no funciona.",
+		feedUsage:
+			"📡 Feed Atom\n\n/feed - obtener la URL de tu feed personal\n/feed reset - reemplazar la URL\n/feed off - desactivar el feed",
+		emailPrivateOnly:
+			"📧 Configura los resúmenes por correo en un chat privado conmigo.",
+		emailUnavailable:
+			"❌ Los resúmenes por correo no están disponibles en este bot.",
+		emailInvalid: "❌ Eso no parece una dirección de correo.",
+		emailWait:
+			"⏳ Se acaba de enviar un código. Espera un minuto antes de pedir otro.",
+		emailSaveFailed:
+			"No se pudo guardar tu dirección de correo. Inténtalo de nuevo.",
+		emailSendFailed:
+			"❌ No se pudo enviar un correo a esa dirección. Revísala e inténtalo de nuevo.",
+		emailSent:
+			"📧 Envié un código a {address}. Envía /email verify <código> para confirmarla.",
+		emailNoCode:
+			"❌ No hay ningún código pendiente. Envía /email <dirección> para recibir uno.",
+		emailWrongCode:
+			"❌ Código incorrecto. Revisa el correo e inténtalo de nuevo.",
+		emailOn:
+			"✅ Resúmenes por correo activados. Los artículos nuevos de tus suscripciones también se envían a {address}.",
+		emailOffFailed:
+			"No se pudieron desactivar los resúmenes por correo. Inténtalo de nuevo.",
+		emailOff: "📧 Resúmenes por correo desactivados.",
+		emailStatusOn: "activados ({address})",
+		emailStatusOff: "desactivados",
+		emailUsage:
+			"📧 Resúmenes por correo: {status}\n\n/email <dirección> - recibir también por correo los artículos de tus suscripciones\n/email verify <código> - confirmar tu dirección\n/email off - dejar de recibir resúmenes por correo",
+		emailTooManyAttempts:
+			"❌ Demasiados códigos incorrectos. Envía /email <dirección> para recibir uno nuevo.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "Uso: /admin_retry <id de tarea> o /admin_retry all",
+		retriedOne:
+			"🔁 Se volvió a encolar 1 tarea fallida. Se ejecutará en la próxima pasada del worker.",
+		retried:
+			"🔁 Se volvieron a encolar {count} tareas fallidas. Se ejecutarán en la próxima pasada del worker.",
+		nothingToRetry: "No hay tareas fallidas que reintentar.",
+		broadcastNotFound: "Difusión no encontrada.",
+		broadcastAlreadySent: "Esta difusión ya se envió o se canceló.",
+		broadcastSending: "Enviando...",
+		broadcastCancelled: "Difusión cancelada.",
+		broadcastFinished: "Esta difusión ya ha terminado.",
+		broadcastNoRecipients:
+			"Ningún usuario coincide con esta audiencia ({audience}).",
+		broadcastSaveFailed:
+			"❌ No se pudo guardar la difusión. Inténtalo de nuevo.",
+		broadcastBadMarkdown:
+			"❌ Telegram no pudo dar formato a este mensaje. Revisa su Markdown (*negrita*, _cursiva_, `código`) e inténtalo de nuevo.",
+		broadcastPreviewOne:
+			"👆 Vista previa de la difusión #{id}\n\nAudiencia: {audience} (1 usuario)\n\n¿Enviarla?",
+		broadcastPreview:
+			"👆 Vista previa de la difusión #{id}\n\nAudiencia: {audience} ({count} usuarios)\n\n¿Enviarla?",
+		broadcastSend: "📢 Enviar",
+		broadcastCancel: "✖️ Cancelar",
+		broadcastUsage:
+			"Uso: /broadcast [opciones] <mensaje>\n\nLas opciones eligen quién lo recibe (por defecto: todos los usuarios):\n  --lang <código> - usuarios con este idioma, p. ej. --lang de\n  --active <días> - usuarios activos en los últimos días, p. ej. --active 30d\n  --category <categoría> - usuarios suscritos a una categoría, p. ej. --category cs.AI\n\nEl mensaje puede usar Markdown. Recibirás una vista previa para confirmar antes del envío.\n\n/broadcast history - Ver los anuncios recientes",
+		broadcastUnknownLanguage: "Idioma desconocido: {value}",
+		broadcastInvalidActive:
+			"Periodo de actividad no válido: {value} (usa p. ej. 30d)",
+		broadcastInvalidCategory: "Categoría no válida: {value} (usa p. ej. cs.AI)",
+		broadcastUnknownOption: "Opción desconocida: {option}",
+		broadcastEmpty: "El mensaje del anuncio está vacío.",
+		broadcastTooLong:
+			"El mensaje del anuncio es demasiado largo ({length}/{max} caracteres).",
+		broadcastStop: "⏹ Cancelar",
+		broadcastStatus: "📢 Anuncio #{id}: {status}",
+		broadcastAudience: "Audiencia: {audience}",
+		broadcastProgress: "Enviados: {sent} de {total}, fallidos: {failed}",
+		broadcastStatusDraft: "pendiente de confirmación",
+		broadcastStatusRunning: "enviando",
+		broadcastStatusDone: "terminado",
+		broadcastStatusCancelled: "cancelado",
+		broadcastHistoryEmpty: "Aún no se ha enviado ningún anuncio.",
+		broadcastHistoryTitle: "📢 Anuncios recientes",
+		broadcastHistoryCounts:
+			"{audience}: {sent} enviados, {failed} fallidos de {total}",
+		audienceAll: "todos los usuarios",
+		audienceUsers: "usuarios {conditions}",
+		audienceLanguage: "con idioma {language}",
+		audienceActiveDay: "activos en el último día",
+		audienceActiveDays: "activos en los últimos {days} días",
+		audienceCategory: "suscritos a {category}",
+	},
 };
 
 export default es;
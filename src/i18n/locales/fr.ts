@@ -46,6 +46,9 @@ export const fr: Translations = {
 		noMorePapers: "📭 Plus d'articles trouvés pour ce sujet.",
 		useSearchFirst: "Utilisez d'abord /search pour rechercher des articles.",
 		loadingMore: '📚 Chargement d\'autres articles pour "{topic}"...',
+		invalidQuery: "❌ Requête de recherche invalide : {error}",
+		queryExample:
+			'Exemple : ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -277,6 +280,8 @@ export const fr: Translations = {
 		notFound: "❌ Impossible de trouver l'article avec l'ID \"{arxivId}\".",
 		noResults: "Aucun article similaire trouvé.",
 		title: "📚 Articles Similaires",
+		primaryHint:
+			"Ajoutez --primary pour limiter les résultats à la catégorie principale de l'article.",
 	},
 
 	// Callback messages
@@ -339,6 +344,296 @@ export const fr: Translations = {
 		useBookmarksToView:
 			"Utilisez /bookmarks pour voir vos articles sauvegardés.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: "❌ Aucune collection nommée « {name} ».",
+		empty:
+			"📁 « {name} » est vide.\n\nAjoutez des articles avec :\n/collection add <paper id> {name}",
+		exportTitle: "📥 Exporter « {name} »",
+		notBookmarked:
+			"❌ « {paperId} » n'est pas dans vos favoris. Enregistrez-le d'abord avec /save {paperId}",
+		noCollections:
+			"Vous n'avez pas encore de collection. Créez-en une avec /collection new <name>",
+		pick: "📁 Dans quelle collection ajouter cet article ?",
+		missing: "❌ Collection introuvable.",
+		noneTagged: "🏷 Aucun favori avec l'étiquette {tag}.",
+		addButton: "📁 Ajouter à une collection",
+		nameLength:
+			"❌ Les noms de collection doivent faire entre 1 et {max} caractères.",
+		exists: "❌ Vous avez déjà une collection nommée « {name} ».",
+		limit:
+			"❌ Vous avez atteint le maximum de {max} collections. Supprimez-en une d'abord.",
+		createFailed: "❌ Impossible de créer la collection. Veuillez réessayer.",
+		created: "✅ Collection « {name} » créée.",
+		deleted:
+			"🗑 Collection « {name} » supprimée. Ses articles restent dans vos favoris.",
+		deleteFailed:
+			"❌ Impossible de supprimer la collection. Veuillez réessayer.",
+		added: "📁 Ajouté à « {name} ».",
+		alreadyIn: "Déjà dans « {name} ».",
+		removed: "Retiré de « {name} ».",
+		notIn: "Cet article n'est pas dans « {name} ».",
+		invalidTags:
+			"❌ Les tags ne peuvent contenir que des lettres, des chiffres, « - » et « _ » ({max} caractères max.).",
+		tagged: "🏷 « {title} » tagué avec {tags}.",
+		alreadyTagged: "« {title} » a déjà {tags}.",
+		untagged: "{tags} retiré de « {title} ».",
+		notTagged: "« {title} » n'a pas {tags}.",
+		none: "📁 Vous n'avez encore aucune collection.\n\nCréez-en une avec :\n/collection new <nom>",
+		listTitle: "📁 Vos collections :",
+		countOne: "1 article",
+		countMany: "{count} articles",
+		noTags:
+			"🏷 Vous n'avez encore tagué aucun article.\n\nTaguez un favori avec :\n/tag add <paper id> <tags...>",
+		tagsTitle: "🏷 Vos tags :",
+		usage:
+			"📁 Commandes des collections :\n\n/collection - Lister vos collections\n/collection new <nom> - Créer une collection\n/collection show <nom> - Lister les articles d'une collection\n/collection add <paper id> <nom> - Ranger un favori dans une collection\n/collection remove <paper id> <nom> - Retirer un article d'une collection\n/collection export <nom> - Exporter une collection en BibTeX ou CSV\n/collection delete <nom> - Supprimer une collection (les favoris sont conservés)",
+		tagUsage:
+			"🏷 Commandes des tags :\n\n/tag - Lister vos tags\n/tag add <paper id> <tags...> - Taguer un favori\n/tag remove <paper id> <tags...> - Retirer des tags d'un favori\n/tag show <tag> - Lister les favoris avec un tag (ou /tag #tag)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: "📝 Notes pour « {title} »",
+		editorCurrent: "Notes actuelles :",
+		editorPrompt:
+			"Envoyez votre note. Vous pouvez envoyer plusieurs messages.\n\n/done - enregistrer\n/clear - supprimer les notes existantes\n/cancel - annuler",
+		editorAdded:
+			"✅ Ajouté ({count}). Envoyez-en d'autres, ou /done pour enregistrer.",
+		discarded: "Note annulée.",
+		deleted: "🗑 Notes supprimées.",
+		couldNotDelete: "❌ Impossible de supprimer les notes. Veuillez réessayer.",
+		nothingToSave: "Rien à enregistrer.",
+		tooLong: "❌ Les notes sont limitées à {max} caractères par article.",
+		saved: "✅ Note enregistrée pour « {title} ».",
+		couldNotSave: "❌ Impossible d'enregistrer votre note. Veuillez réessayer.",
+		usage:
+			"📝 Ajoutez des notes à un article enregistré :\n/note <paper id>\n\nRecherchez dans vos notes avec /notes <text>",
+		noMatches: "📝 Aucune note ne correspond à « {query} ».",
+		none: "📝 Vous n'avez pas encore écrit de notes.\n\nUtilisez le bouton 📝 Note sur un article enregistré, ou /note <paper id>.",
+		matching: "📝 Notes correspondant à « {query} »",
+		title: "📝 Vos notes",
+		saveFirst:
+			"Enregistrez cet article dans vos favoris avant d'ajouter des notes.",
+		button: "📝 Note",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 À lire",
+		reading: "📖 En cours",
+		read: "✅ Lu",
+		abandoned: "🚫 Abandonné",
+		listTitle: "📚 Liste de lecture",
+		invalid:
+			"❌ Statut ou tri inconnu « {value} ».\n\nUtilisation : /reading [to-read|reading|read|abandoned] [--sort date|status|rating]",
+		saveFirst: "Enregistrez d'abord cet article dans vos favoris.",
+		statusFor: "📖 Statut de lecture de « {title} »",
+		rated: "Noté {rating}/5",
+		ratingCleared: "Note supprimée",
+		couldNotUpdate:
+			"❌ Impossible de mettre à jour ce favori. Veuillez réessayer.",
+		all: "📋 Tous",
+		sortByDate: "🕒 Trier par date",
+		sortByRating: "⭐ Trier par note",
+		statusButton: "📖 Statut",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 Seuls les administrateurs du groupe peuvent gérer ses abonnements.",
+		addMe:
+			"👥 Ajoutez-moi à un groupe Telegram pour partager une bibliothèque d'articles avec ses membres.",
+		adminsOnlyAdd:
+			"🔒 Seuls les administrateurs du groupe peuvent ajouter des articles à cette bibliothèque.",
+		alreadyAdded: "« {title} » est déjà dans la bibliothèque du groupe.",
+		paperNotFound: "Impossible de trouver l'article {paperId}.",
+		addFailed: "Échec de l'ajout de l'article. Veuillez réessayer.",
+		added: "✅ « {title} » ajouté à la bibliothèque du groupe.",
+		notInLibrary:
+			"L'article {paperId} n'est pas dans la bibliothèque du groupe.",
+		adminsOnlyRemove:
+			"🔒 Seuls les administrateurs du groupe peuvent retirer des articles de cette bibliothèque.",
+		adminsOrAdderRemove:
+			"🔒 Seuls les administrateurs du groupe et le membre qui l'a ajouté peuvent retirer cet article.",
+		removed: "🗑 « {title} » retiré de la bibliothèque du groupe.",
+		removeFailed: "Échec du retrait de l'article. Veuillez réessayer.",
+		adminsOnlySettings:
+			"🔒 Seuls les administrateurs du groupe peuvent modifier les paramètres de la bibliothèque.",
+		settingsFailed:
+			"Échec de la mise à jour des paramètres. Veuillez réessayer.",
+		policyChanged:
+			"✅ La bibliothèque du groupe est désormais modifiable par : {editors}.",
+		policyMembers: "tous les membres",
+		policyAdmins: "administrateurs uniquement",
+		roleAdmin: "administrateur",
+		roleMember: "membre",
+		defaultTitle: "Bibliothèque du groupe",
+		papers: "📚 Articles : {count}",
+		subscriptions: "📬 Abonnements : {count}",
+		members: "🙋 Membres : {count} (administrateurs : {admins})",
+		editableBy: "✏️ Modifiable par : {editors}",
+		yourRole: "🔑 Votre rôle : {role}",
+		usage:
+			"Commandes de la bibliothèque du groupe :\n/bookmarks - Afficher la bibliothèque du groupe\n/bookmarks add <paper id> - Ajouter un article\n/bookmarks remove <paper id> - Retirer un article\n/subscribe <topic> - Publier un résumé dans ce groupe\n/export - Exporter la bibliothèque du groupe\n/group policy admins|members - Qui peut modifier (administrateurs uniquement)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 Envoyez-moi le fichier en message privé pour l'importer dans vos favoris.",
+		tooLarge:
+			"❌ Ce fichier est trop volumineux pour être importé (max {max} Mo).",
+		noReferences: "❌ Aucune référence trouvée dans {file}.",
+		importing:
+			"⏳ Import de {count} entrées depuis {file}. Cela peut prendre quelques minutes...",
+		finished: "📥 Import terminé",
+		imported: "✅ Importés : {count}",
+		duplicates: "⏭ Déjà dans votre bibliothèque : {count}",
+		failed: "❌ Introuvables : {count}",
+		moreFailed: "…et {count} de plus",
+		truncated:
+			"⚠️ Seules les {max} premières entrées ont été traitées ; {count} ont été ignorées. Envoyez le reste dans un autre fichier.",
+		usage:
+			"📥 Importer des articles\n\nEnvoyez un fichier en tant que document pour ajouter ses articles à vos favoris :\n• .bib - BibTeX (champs eprint arXiv, DOI ou PMID)\n• .ris - RIS depuis Zotero, Mendeley ou EndNote\n• .txt - identifiants arXiv, DOI ou pmid:<id>, un par ligne\n\nJusqu'à {max} entrées par fichier. Les articles déjà dans votre bibliothèque sont ignorés.",
+		importingOne:
+			"⏳ Import d'1 entrée depuis {file}. Cela peut prendre quelques minutes...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header:
+			"✨ Pour vous - nouveaux articles correspondant à vos centres d'intérêt",
+		weeklyHeader: "✨ Votre sélection hebdomadaire Pour vous",
+		empty:
+			"✨ Rien à suggérer pour le moment.\n\nEnregistrez, recherchez et lisez quelques articles et /foryou apprendra ce que vous aimez.",
+		refresh: "🔄 Actualiser",
+		finding: "⏳ Recherche de nouveaux articles pour vous...",
+		weeklyOn:
+			"✅ Sélection hebdomadaire Pour vous activée. Elle arrive chaque {day} à {time} dans votre fuseau horaire (voir /timezone).",
+		weeklyOff: "🔕 Sélection hebdomadaire Pour vous désactivée.",
+		weeklyFailed:
+			"Échec de la mise à jour de la sélection hebdomadaire. Veuillez réessayer.",
+		usage:
+			"✨ Pour vous\n\n/foryou - nouveaux articles choisis d'après vos favoris, consultations et recherches\n/foryou weekly on - les recevoir chaque semaine\n/foryou weekly off - arrêter la sélection hebdomadaire",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ Ce récapitulatif n'est plus disponible.",
+		unknownMode: "❌ Mode de récapitulatif inconnu « {mode} ».",
+		modeMerged: "fusionné",
+		modeSeparate: "séparé",
+		usage:
+			"📬 Mode de récapitulatif : {mode}\n\n/digest merged - un seul message pour tous les abonnements prévus au même moment\n/digest separate - un message par abonnement",
+		saveFailed:
+			"Échec de l'enregistrement du mode de récapitulatif. Veuillez réessayer.",
+		mergedOn:
+			"✅ Récapitulatif fusionné activé. Les abonnements prévus au même moment arrivent en un seul message, groupés par sujet, avec en premier les articles correspondant à plusieurs sujets.",
+		mergedOff:
+			"✅ Récapitulatif fusionné désactivé. Chaque abonnement envoie son propre message.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: "❌ Option inconnue « {option} ».",
+		feedUnavailable: "❌ Les flux ne sont pas disponibles sur ce bot.",
+		feedFailed: "Échec de la configuration de votre flux. Veuillez réessayer.",
+		feedReset: "🔄 Nouvelle URL de flux. L'ancienne ne fonctionne plus.",
+		feedYours: "📡 Votre flux Atom :",
+		feedHint:
+			"Ajoutez-le à n'importe quel lecteur de flux. Les nouveaux articles de vos abonnements y apparaissent en plus de Telegram. Gardez l'URL privée ; /feed reset la remplace.",
+		feedOffFailed:
+			"Échec de la désactivation de votre flux. Veuillez réessayer.",
+		feedOff: "📡 Flux désactivé. Son URL ne fonctionne plus.",
+		feedUsage:
+			"📡 Flux Atom\n\n/feed - obtenir l'URL de votre flux personnel\n/feed reset - remplacer l'URL\n/feed off - désactiver le flux",
+		emailPrivateOnly:
+			"📧 Configurez les récapitulatifs par e-mail dans une conversation privée avec moi.",
+		emailUnavailable:
+			"❌ Les récapitulatifs par e-mail ne sont pas disponibles sur ce bot.",
+		emailInvalid: "❌ Cela ne ressemble pas à une adresse e-mail.",
+		emailWait:
+			"⏳ Un code vient d'être envoyé. Veuillez patienter une minute avant d'en demander un autre.",
+		emailSaveFailed:
+			"Échec de l'enregistrement de votre adresse e-mail. Veuillez réessayer.",
+		emailSendFailed:
+			"❌ Impossible d'envoyer un e-mail à cette adresse. Vérifiez-la et réessayez.",
+		emailSent:
+			"📧 J'ai envoyé un code à {address}. Envoyez /email verify <code> pour la confirmer.",
+		emailNoCode:
+			"❌ Aucun code en attente. Envoyez /email <adresse> pour en recevoir un.",
+		emailWrongCode: "❌ Code incorrect. Vérifiez l'e-mail et réessayez.",
+		emailOn:
+			"✅ Récapitulatifs par e-mail activés. Les nouveaux articles de vos abonnements sont aussi envoyés à {address}.",
+		emailOffFailed:
+			"Échec de la désactivation des récapitulatifs par e-mail. Veuillez réessayer.",
+		emailOff: "📧 Récapitulatifs par e-mail désactivés.",
+		emailStatusOn: "activés ({address})",
+		emailStatusOff: "désactivés",
+		emailUsage:
+			"📧 Récapitulatifs par e-mail : {status}\n\n/email <adresse> - recevoir aussi par e-mail les articles de vos abonnements\n/email verify <code> - confirmer votre adresse\n/email off - arrêter les récapitulatifs par e-mail",
+		emailTooManyAttempts:
+			"❌ Trop de codes incorrects. Envoyez /email <adresse> pour en recevoir un nouveau.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "Utilisation : /admin_retry <id de tâche> ou /admin_retry all",
+		retriedOne:
+			"🔁 1 tâche morte remise en file. Elle s'exécutera au prochain passage du worker.",
+		retried:
+			"🔁 {count} tâches mortes remises en file. Elles s'exécuteront au prochain passage du worker.",
+		nothingToRetry: "Aucune tâche morte à relancer.",
+		broadcastNotFound: "Diffusion introuvable.",
+		broadcastAlreadySent: "Cette diffusion a déjà été envoyée ou annulée.",
+		broadcastSending: "Envoi en cours...",
+		broadcastCancelled: "Diffusion annulée.",
+		broadcastFinished: "Cette diffusion est déjà terminée.",
+		broadcastNoRecipients:
+			"Aucun utilisateur ne correspond à cette audience ({audience}).",
+		broadcastSaveFailed:
+			"❌ Impossible d'enregistrer la diffusion. Veuillez réessayer.",
+		broadcastBadMarkdown:
+			"❌ Telegram n'a pas pu mettre en forme ce message. Vérifiez son Markdown (*gras*, _italique_, `code`) et réessayez.",
+		broadcastPreviewOne:
+			"👆 Aperçu de la diffusion #{id}\n\nAudience : {audience} (1 utilisateur)\n\nL'envoyer ?",
+		broadcastPreview:
+			"👆 Aperçu de la diffusion #{id}\n\nAudience : {audience} ({count} utilisateurs)\n\nL'envoyer ?",
+		broadcastSend: "📢 Envoyer",
+		broadcastCancel: "✖️ Annuler",
+		broadcastUsage:
+			"Utilisation : /broadcast [options] <message>\n\nLes options choisissent les destinataires (par défaut : tous les utilisateurs) :\n  --lang <code> - utilisateurs avec cette langue, p. ex. --lang de\n  --active <jours> - utilisateurs actifs ces derniers jours, p. ex. --active 30d\n  --category <catégorie> - utilisateurs abonnés à une catégorie, p. ex. --category cs.AI\n\nLe message peut utiliser Markdown. Vous recevez un aperçu à confirmer avant l'envoi.\n\n/broadcast history - Voir les annonces récentes",
+		broadcastUnknownLanguage: "Langue inconnue : {value}",
+		broadcastInvalidActive:
+			"Période d'activité invalide : {value} (utilisez p. ex. 30d)",
+		broadcastInvalidCategory:
+			"Catégorie invalide : {value} (utilisez p. ex. cs.AI)",
+		broadcastUnknownOption: "Option inconnue : {option}",
+		broadcastEmpty: "Le message de l'annonce est vide.",
+		broadcastTooLong:
+			"Le message de l'annonce est trop long ({length}/{max} caractères).",
+		broadcastStop: "⏹ Annuler",
+		broadcastStatus: "📢 Annonce #{id} : {status}",
+		broadcastAudience: "Public : {audience}",
+		broadcastProgress: "Envoyés : {sent} sur {total}, échecs : {failed}",
+		broadcastStatusDraft: "en attente de confirmation",
+		broadcastStatusRunning: "envoi en cours",
+		broadcastStatusDone: "terminée",
+		broadcastStatusCancelled: "annulée",
+		broadcastHistoryEmpty: "Aucune annonce n'a encore été envoyée.",
+		broadcastHistoryTitle: "📢 Annonces récentes",
+		broadcastHistoryCounts:
+			"{audience} : {sent} envoyés, {failed} échecs sur {total}",
+		audienceAll: "tous les utilisateurs",
+		audienceUsers: "utilisateurs {conditions}",
+		audienceLanguage: "avec la langue {language}",
+		audienceActiveDay: "actifs depuis un jour",
+		audienceActiveDays: "actifs ces {days} derniers jours",
+		audienceCategory: "abonnés à {category}",
+	},
 };
 
 export default fr;
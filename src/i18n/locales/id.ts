@@ -46,6 +46,9 @@ export const id: Translations = {
 		noMorePapers: "📭 Tidak ada makalah lagi untuk topik ini.",
 		useSearchFirst: "Gunakan /search terlebih dahulu untuk mencari makalah.",
 		loadingMore: '📚 Memuat lebih banyak makalah untuk "{topic}"...',
+		invalidQuery: "❌ Kueri pencarian tidak valid: {error}",
+		queryExample:
+			'Contoh: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -274,6 +277,8 @@ export const id: Translations = {
 		notFound: '❌ Tidak dapat menemukan makalah dengan ID "{arxivId}".',
 		noResults: "Tidak ada makalah serupa ditemukan.",
 		title: "📚 Makalah Serupa",
+		primaryHint:
+			"Tambahkan --primary agar hasil tetap dalam kategori utama makalah.",
 	},
 
 	// Callback messages
@@ -335,6 +340,279 @@ export const id: Translations = {
 		useBookmarksToView:
 			"Gunakan /bookmarks untuk melihat makalah yang disimpan.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: '❌ Tidak ada koleksi bernama "{name}".',
+		empty:
+			'📁 "{name}" masih kosong.\n\nTambahkan makalah dengan:\n/collection add <paper id> {name}',
+		exportTitle: '📥 Ekspor "{name}"',
+		notBookmarked:
+			'❌ "{paperId}" tidak ada di bookmark Anda. Simpan dulu dengan /save {paperId}',
+		noCollections:
+			"Anda belum punya koleksi. Buat dengan /collection new <name>",
+		pick: "📁 Tambahkan makalah ini ke koleksi mana?",
+		missing: "❌ Koleksi tidak ditemukan.",
+		noneTagged: "🏷 Tidak ada bookmark dengan tag {tag}.",
+		addButton: "📁 Tambahkan ke koleksi",
+		nameLength: "❌ Nama koleksi harus 1-{max} karakter.",
+		exists: '❌ Anda sudah punya koleksi bernama "{name}".',
+		limit:
+			"❌ Anda sudah mencapai batas {max} koleksi. Hapus salah satu terlebih dahulu.",
+		createFailed: "❌ Gagal membuat koleksi. Silakan coba lagi.",
+		created: '✅ Koleksi "{name}" dibuat.',
+		deleted:
+			'🗑 Koleksi "{name}" dihapus. Makalahnya tetap ada di bookmark Anda.',
+		deleteFailed: "❌ Gagal menghapus koleksi. Silakan coba lagi.",
+		added: '📁 Ditambahkan ke "{name}".',
+		alreadyIn: 'Sudah ada di "{name}".',
+		removed: 'Dihapus dari "{name}".',
+		notIn: 'Makalah itu tidak ada di "{name}".',
+		invalidTags:
+			'❌ Tag hanya boleh berisi huruf, angka, "-" dan "_" (maks. {max} karakter).',
+		tagged: '🏷 "{title}" diberi tag {tags}.',
+		alreadyTagged: '"{title}" sudah memiliki {tags}.',
+		untagged: '{tags} dihapus dari "{title}".',
+		notTagged: '"{title}" tidak memiliki {tags}.',
+		none: "📁 Anda belum punya koleksi.\n\nBuat satu dengan:\n/collection new <nama>",
+		listTitle: "📁 Koleksi Anda:",
+		countOne: "1 makalah",
+		countMany: "{count} makalah",
+		noTags:
+			"🏷 Anda belum memberi tag pada makalah apa pun.\n\nBeri tag pada bookmark dengan:\n/tag add <paper id> <tag...>",
+		tagsTitle: "🏷 Tag Anda:",
+		usage:
+			"📁 Perintah koleksi:\n\n/collection - Daftar koleksi Anda\n/collection new <nama> - Buat koleksi\n/collection show <nama> - Daftar makalah dalam koleksi\n/collection add <paper id> <nama> - Masukkan bookmark ke koleksi\n/collection remove <paper id> <nama> - Keluarkan makalah dari koleksi\n/collection export <nama> - Ekspor koleksi sebagai BibTeX atau CSV\n/collection delete <nama> - Hapus koleksi (bookmark tetap disimpan)",
+		tagUsage:
+			"🏷 Perintah tag:\n\n/tag - Daftar tag Anda\n/tag add <paper id> <tag...> - Beri tag pada bookmark\n/tag remove <paper id> <tag...> - Hapus tag dari bookmark\n/tag show <tag> - Daftar bookmark dengan tag (atau /tag #tag)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: '📝 Catatan untuk "{title}"',
+		editorCurrent: "Catatan saat ini:",
+		editorPrompt:
+			"Kirim catatan Anda. Anda bisa mengirim beberapa pesan.\n\n/done - simpan\n/clear - hapus catatan yang ada\n/cancel - batalkan",
+		editorAdded:
+			"✅ Ditambahkan ({count}). Kirim lagi, atau /done untuk menyimpan.",
+		discarded: "Catatan dibatalkan.",
+		deleted: "🗑 Catatan dihapus.",
+		couldNotDelete: "❌ Tidak dapat menghapus catatan. Silakan coba lagi.",
+		nothingToSave: "Tidak ada yang disimpan.",
+		tooLong: "❌ Catatan dibatasi {max} karakter per makalah.",
+		saved: '✅ Catatan untuk "{title}" disimpan.',
+		couldNotSave: "❌ Tidak dapat menyimpan catatan Anda. Silakan coba lagi.",
+		usage:
+			"📝 Tambahkan catatan ke makalah yang disimpan:\n/note <paper id>\n\nCari catatan Anda dengan /notes <text>",
+		noMatches: '📝 Tidak ada catatan yang cocok dengan "{query}".',
+		none: "📝 Anda belum menulis catatan.\n\nGunakan tombol 📝 Catatan pada makalah yang disimpan, atau /note <paper id>.",
+		matching: '📝 Catatan yang cocok dengan "{query}"',
+		title: "📝 Catatan Anda",
+		saveFirst: "Simpan makalah ini ke bookmark sebelum menambahkan catatan.",
+		button: "📝 Catatan",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 Akan dibaca",
+		reading: "📖 Sedang dibaca",
+		read: "✅ Sudah dibaca",
+		abandoned: "🚫 Ditinggalkan",
+		listTitle: "📚 Daftar bacaan",
+		invalid:
+			'❌ Status atau urutan tidak dikenal "{value}".\n\nPenggunaan: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]',
+		saveFirst: "Simpan makalah ini ke bookmark terlebih dahulu.",
+		statusFor: '📖 Status baca "{title}"',
+		rated: "Dinilai {rating}/5",
+		ratingCleared: "Penilaian dihapus",
+		couldNotUpdate:
+			"❌ Tidak dapat memperbarui bookmark ini. Silakan coba lagi.",
+		all: "📋 Semua",
+		sortByDate: "🕒 Urutkan menurut tanggal",
+		sortByRating: "⭐ Urutkan menurut penilaian",
+		statusButton: "📖 Status",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 Hanya admin grup yang dapat mengelola langganan grup ini.",
+		addMe:
+			"👥 Tambahkan saya ke grup Telegram untuk berbagi perpustakaan makalah dengan anggotanya.",
+		adminsOnlyAdd:
+			"🔒 Hanya admin grup yang dapat menambahkan makalah ke perpustakaan ini.",
+		alreadyAdded: '"{title}" sudah ada di perpustakaan grup.',
+		paperNotFound: "Makalah {paperId} tidak ditemukan.",
+		addFailed: "Gagal menambahkan makalah. Silakan coba lagi.",
+		added: '✅ "{title}" ditambahkan ke perpustakaan grup.',
+		notInLibrary: "Makalah {paperId} tidak ada di perpustakaan grup.",
+		adminsOnlyRemove:
+			"🔒 Hanya admin grup yang dapat menghapus makalah dari perpustakaan ini.",
+		adminsOrAdderRemove:
+			"🔒 Hanya admin grup dan anggota yang menambahkannya yang dapat menghapus makalah ini.",
+		removed: '🗑 "{title}" dihapus dari perpustakaan grup.',
+		removeFailed: "Gagal menghapus makalah. Silakan coba lagi.",
+		adminsOnlySettings:
+			"🔒 Hanya admin grup yang dapat mengubah pengaturan perpustakaan.",
+		settingsFailed: "Gagal memperbarui pengaturan. Silakan coba lagi.",
+		policyChanged: "✅ Perpustakaan grup kini dapat diedit oleh {editors}.",
+		policyMembers: "semua anggota",
+		policyAdmins: "hanya admin",
+		roleAdmin: "admin",
+		roleMember: "anggota",
+		defaultTitle: "Perpustakaan grup",
+		papers: "📚 Makalah: {count}",
+		subscriptions: "📬 Langganan: {count}",
+		members: "🙋 Anggota: {count} (admin: {admins})",
+		editableBy: "✏️ Dapat diedit oleh: {editors}",
+		yourRole: "🔑 Peran Anda: {role}",
+		usage:
+			"Perintah perpustakaan grup:\n/bookmarks - Tampilkan perpustakaan grup\n/bookmarks add <paper id> - Tambahkan makalah\n/bookmarks remove <paper id> - Hapus makalah\n/subscribe <topic> - Kirim ringkasan ke grup ini\n/export - Ekspor perpustakaan grup\n/group policy admins|members - Siapa yang dapat mengedit (hanya admin)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 Kirim file ke saya lewat chat pribadi untuk mengimpornya ke bookmark Anda.",
+		tooLarge: "❌ File terlalu besar untuk diimpor (maks. {max} MB).",
+		noReferences: "❌ Tidak ada referensi di {file}.",
+		importing:
+			"⏳ Mengimpor {count} entri dari {file}. Ini bisa memakan waktu beberapa menit...",
+		finished: "📥 Impor selesai",
+		imported: "✅ Diimpor: {count}",
+		duplicates: "⏭ Sudah ada di perpustakaan Anda: {count}",
+		failed: "❌ Tidak dapat ditemukan: {count}",
+		moreFailed: "…dan {count} lainnya",
+		truncated:
+			"⚠️ Hanya {max} entri pertama yang diproses; {count} dilewati. Kirim sisanya dalam file lain.",
+		usage:
+			"📥 Impor makalah\n\nKirim file sebagai dokumen untuk menambahkan makalahnya ke bookmark Anda:\n• .bib - BibTeX (kolom eprint arXiv, DOI, atau PMID)\n• .ris - RIS dari Zotero, Mendeley, atau EndNote\n• .txt - ID arXiv, DOI, atau pmid:<id>, satu per baris\n\nHingga {max} entri per file. Makalah yang sudah ada di perpustakaan Anda dilewati.",
+		importingOne:
+			"⏳ Mengimpor 1 entri dari {file}. Ini bisa memakan waktu beberapa menit...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ Untuk Anda - makalah baru sesuai minat Anda",
+		weeklyHeader: "✨ Ringkasan mingguan Untuk Anda",
+		empty:
+			"✨ Belum ada saran.\n\nSimpan, cari, dan baca beberapa makalah, lalu /foryou akan mempelajari minat Anda.",
+		refresh: "🔄 Segarkan",
+		finding: "⏳ Mencari makalah baru untuk Anda...",
+		weeklyOn:
+			"✅ Ringkasan mingguan Untuk Anda aktif. Dikirim setiap {day} pukul {time} di zona waktu Anda (lihat /timezone).",
+		weeklyOff: "🔕 Ringkasan mingguan Untuk Anda nonaktif.",
+		weeklyFailed: "Gagal memperbarui ringkasan mingguan. Silakan coba lagi.",
+		usage:
+			"✨ Untuk Anda\n\n/foryou - makalah baru yang dipilih dari bookmark, tayangan, dan pencarian Anda\n/foryou weekly on - terima sebagai ringkasan mingguan\n/foryou weekly off - hentikan ringkasan mingguan",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ Ringkasan ini sudah tidak tersedia.",
+		unknownMode: '❌ Mode ringkasan tidak dikenal "{mode}".',
+		modeMerged: "digabung",
+		modeSeparate: "terpisah",
+		usage:
+			"📬 Mode ringkasan: {mode}\n\n/digest merged - satu pesan untuk semua langganan yang jatuh tempo bersamaan\n/digest separate - satu pesan per langganan",
+		saveFailed: "Gagal menyimpan mode ringkasan. Silakan coba lagi.",
+		mergedOn:
+			"✅ Ringkasan gabungan aktif. Langganan yang jatuh tempo bersamaan dikirim dalam satu pesan, dikelompokkan per topik, dengan makalah yang cocok dengan beberapa topik di urutan pertama.",
+		mergedOff:
+			"✅ Ringkasan gabungan nonaktif. Setiap langganan mengirim pesannya sendiri.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: '❌ Opsi tidak dikenal "{option}".',
+		feedUnavailable: "❌ Feed tidak tersedia di bot ini.",
+		feedFailed: "Gagal menyiapkan feed Anda. Silakan coba lagi.",
+		feedReset: "🔄 URL feed baru. URL lama tidak berfungsi lagi.",
+		feedYours: "📡 Feed Atom Anda:",
+		feedHint:
+			"Tambahkan ke pembaca feed apa pun. Makalah langganan baru muncul di sana dan juga di Telegram. Rahasiakan URL ini; /feed reset akan menggantinya.",
+		feedOffFailed: "Gagal menonaktifkan feed Anda. Silakan coba lagi.",
+		feedOff: "📡 Feed nonaktif. URL-nya tidak berfungsi lagi.",
+		feedUsage:
+			"📡 Feed Atom\n\n/feed - dapatkan URL feed pribadi Anda\n/feed reset - ganti URL\n/feed off - nonaktifkan feed",
+		emailPrivateOnly: "📧 Atur ringkasan email di obrolan pribadi dengan saya.",
+		emailUnavailable: "❌ Ringkasan email tidak tersedia di bot ini.",
+		emailInvalid: "❌ Itu tidak terlihat seperti alamat email.",
+		emailWait:
+			"⏳ Kode baru saja dikirim. Tunggu satu menit sebelum meminta yang lain.",
+		emailSaveFailed: "Gagal menyimpan alamat email Anda. Silakan coba lagi.",
+		emailSendFailed:
+			"❌ Tidak dapat mengirim email ke alamat itu. Periksa dan coba lagi.",
+		emailSent:
+			"📧 Saya mengirim kode ke {address}. Kirim /email verify <kode> untuk mengonfirmasinya.",
+		emailNoCode:
+			"❌ Tidak ada kode yang menunggu. Kirim /email <alamat> untuk mendapatkannya.",
+		emailWrongCode: "❌ Kode salah. Periksa email dan coba lagi.",
+		emailOn:
+			"✅ Ringkasan email aktif. Makalah langganan baru juga dikirim ke {address}.",
+		emailOffFailed: "Gagal menonaktifkan ringkasan email. Silakan coba lagi.",
+		emailOff: "📧 Ringkasan email nonaktif.",
+		emailStatusOn: "aktif ({address})",
+		emailStatusOff: "nonaktif",
+		emailUsage:
+			"📧 Ringkasan email: {status}\n\n/email <alamat> - terima juga makalah langganan lewat email\n/email verify <kode> - konfirmasi alamat Anda\n/email off - hentikan ringkasan email",
+		emailTooManyAttempts:
+			"❌ Terlalu banyak kode salah. Kirim /email <alamat> untuk mendapatkan kode baru.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "Penggunaan: /admin_retry <id tugas> atau /admin_retry all",
+		retriedOne:
+			"🔁 1 tugas mati diantrekan lagi. Tugas ini berjalan pada putaran worker berikutnya.",
+		retried:
+			"🔁 {count} tugas mati diantrekan lagi. Tugas-tugas ini berjalan pada putaran worker berikutnya.",
+		nothingToRetry: "Tidak ada tugas mati untuk dicoba ulang.",
+		broadcastNotFound: "Siaran tidak ditemukan.",
+		broadcastAlreadySent: "Siaran ini sudah dikirim atau dibatalkan.",
+		broadcastSending: "Mengirim...",
+		broadcastCancelled: "Siaran dibatalkan.",
+		broadcastFinished: "Siaran ini sudah selesai.",
+		broadcastNoRecipients:
+			"Tidak ada pengguna yang cocok dengan audiens ini ({audience}).",
+		broadcastSaveFailed: "❌ Tidak dapat menyimpan siaran. Silakan coba lagi.",
+		broadcastBadMarkdown:
+			"❌ Telegram tidak dapat memformat pesan ini. Periksa Markdown-nya (*tebal*, _miring_, `kode`) dan coba lagi.",
+		broadcastPreviewOne:
+			"👆 Pratinjau siaran #{id}\n\nAudiens: {audience} (1 pengguna)\n\nKirim?",
+		broadcastPreview:
+			"👆 Pratinjau siaran #{id}\n\nAudiens: {audience} ({count} pengguna)\n\nKirim?",
+		broadcastSend: "📢 Kirim",
+		broadcastCancel: "✖️ Batal",
+		broadcastUsage:
+			"Penggunaan: /broadcast [opsi] <pesan>\n\nOpsi memilih siapa yang menerimanya (default: semua pengguna):\n  --lang <kode> - pengguna dengan bahasa ini, mis. --lang de\n  --active <hari> - pengguna yang aktif dalam beberapa hari terakhir, mis. --active 30d\n  --category <kategori> - pengguna yang berlangganan kategori, mis. --category cs.AI\n\nPesan boleh memakai Markdown. Anda menerima pratinjau untuk dikonfirmasi sebelum dikirim.\n\n/broadcast history - Lihat siaran terbaru",
+		broadcastUnknownLanguage: "Bahasa tidak dikenal: {value}",
+		broadcastInvalidActive:
+			"Rentang aktivitas tidak valid: {value} (gunakan mis. 30d)",
+		broadcastInvalidCategory:
+			"Kategori tidak valid: {value} (gunakan mis. cs.AI)",
+		broadcastUnknownOption: "Opsi tidak dikenal: {option}",
+		broadcastEmpty: "Pesan siaran kosong.",
+		broadcastTooLong: "Pesan siaran terlalu panjang ({length}/{max} karakter).",
+		broadcastStop: "⏹ Batalkan",
+		broadcastStatus: "📢 Siaran #{id}: {status}",
+		broadcastAudience: "Audiens: {audience}",
+		broadcastProgress: "Terkirim: {sent} dari {total}, gagal: {failed}",
+		broadcastStatusDraft: "menunggu konfirmasi",
+		broadcastStatusRunning: "sedang dikirim",
+		broadcastStatusDone: "selesai",
+		broadcastStatusCancelled: "dibatalkan",
+		broadcastHistoryEmpty: "Belum ada siaran yang dikirim.",
+		broadcastHistoryTitle: "📢 Siaran terbaru",
+		broadcastHistoryCounts:
+			"{audience}: {sent} terkirim, {failed} gagal dari {total}",
+		audienceAll: "semua pengguna",
+		audienceUsers: "pengguna {conditions}",
+		audienceLanguage: "dengan bahasa {language}",
+		audienceActiveDay: "aktif dalam sehari terakhir",
+		audienceActiveDays: "aktif dalam {days} hari terakhir",
+		audienceCategory: "berlangganan {category}",
+	},
 };
 
 export default id;
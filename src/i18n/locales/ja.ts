@@ -48,6 +48,9 @@ export const ja: Translations = {
 		noMorePapers: "📭 このトピックの論文はこれ以上ありません。",
 		useSearchFirst: "まず/searchで論文を検索してください。",
 		loadingMore: "📚 「{topic}」の論文をさらに読み込み中...",
+		invalidQuery: "❌ 検索クエリが無効です: {error}",
+		queryExample:
+			'例: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -277,6 +280,8 @@ export const ja: Translations = {
 		notFound: "❌ ID「{arxivId}」の論文が見つかりませんでした。",
 		noResults: "類似の論文が見つかりませんでした。",
 		title: "📚 類似論文",
+		primaryHint:
+			"--primary を付けると、論文の主カテゴリの結果だけに絞り込みます。",
 	},
 
 	// Callback messages
@@ -337,6 +342,290 @@ export const ja: Translations = {
 		alreadyBookmarked: "📌 この論文は既にブックマークに保存されています！",
 		useBookmarksToView: "/bookmarksで保存した論文を表示できます。",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: "❌ 「{name}」という名前のコレクションはありません。",
+		empty:
+			"📁 「{name}」は空です。\n\n次のコマンドで論文を追加できます:\n/collection add <paper id> {name}",
+		exportTitle: "📥 「{name}」をエクスポート",
+		notBookmarked:
+			"❌ 「{paperId}」はブックマークにありません。先に /save {paperId} で保存してください。",
+		noCollections:
+			"まだコレクションがありません。/collection new <name> で作成してください。",
+		pick: "📁 この論文をどのコレクションに追加しますか？",
+		missing: "❌ コレクションが見つかりません。",
+		noneTagged: "🏷 タグ {tag} の付いたブックマークはありません。",
+		addButton: "📁 コレクションに追加",
+		nameLength: "❌ コレクション名は 1〜{max} 文字にしてください。",
+		exists: "❌ 「{name}」という名前のコレクションはすでにあります。",
+		limit:
+			"❌ コレクションは最大 {max} 個までです。先にどれかを削除してください。",
+		createFailed:
+			"❌ コレクションを作成できませんでした。もう一度お試しください。",
+		created: "✅ コレクション「{name}」を作成しました。",
+		deleted:
+			"🗑 コレクション「{name}」を削除しました。論文はブックマークに残っています。",
+		deleteFailed:
+			"❌ コレクションを削除できませんでした。もう一度お試しください。",
+		added: "📁 「{name}」に追加しました。",
+		alreadyIn: "すでに「{name}」にあります。",
+		removed: "「{name}」から削除しました。",
+		notIn: "その論文は「{name}」にありません。",
+		invalidTags:
+			"❌ タグに使えるのは文字、数字、「-」、「_」のみです（最大 {max} 文字）。",
+		tagged: "🏷 「{title}」に {tags} を付けました。",
+		alreadyTagged: "「{title}」にはすでに {tags} が付いています。",
+		untagged: "「{title}」から {tags} を外しました。",
+		notTagged: "「{title}」には {tags} が付いていません。",
+		none: "📁 まだコレクションがありません。\n\n次のコマンドで作成できます:\n/collection new <名前>",
+		listTitle: "📁 あなたのコレクション:",
+		countOne: "1 件の論文",
+		countMany: "{count} 件の論文",
+		noTags:
+			"🏷 まだ論文にタグを付けていません。\n\n次のコマンドでブックマークにタグを付けられます:\n/tag add <paper id> <タグ...>",
+		tagsTitle: "🏷 あなたのタグ:",
+		usage:
+			"📁 コレクションのコマンド:\n\n/collection - コレクションの一覧\n/collection new <名前> - コレクションを作成\n/collection show <名前> - コレクション内の論文を一覧表示\n/collection add <paper id> <名前> - ブックマークをコレクションに追加\n/collection remove <paper id> <名前> - コレクションから論文を外す\n/collection export <名前> - コレクションを BibTeX または CSV でエクスポート\n/collection delete <名前> - コレクションを削除（ブックマークは残ります）",
+		tagUsage:
+			"🏷 タグのコマンド:\n\n/tag - タグの一覧\n/tag add <paper id> <タグ...> - ブックマークにタグを付ける\n/tag remove <paper id> <タグ...> - ブックマークからタグを外す\n/tag show <タグ> - タグの付いたブックマークを一覧表示（または /tag #タグ）",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: "📝 「{title}」のノート",
+		editorCurrent: "現在のノート:",
+		editorPrompt:
+			"ノートを送信してください。複数のメッセージに分けて送れます。\n\n/done - 保存\n/clear - 既存のノートを削除\n/cancel - 破棄",
+		editorAdded:
+			"✅ 追加しました（{count}）。続けて送るか、/done で保存します。",
+		discarded: "ノートを破棄しました。",
+		deleted: "🗑 ノートを削除しました。",
+		couldNotDelete: "❌ ノートを削除できませんでした。もう一度お試しください。",
+		nothingToSave: "保存する内容がありません。",
+		tooLong: "❌ ノートは論文ごとに {max} 文字までです。",
+		saved: "✅ 「{title}」のノートを保存しました。",
+		couldNotSave: "❌ ノートを保存できませんでした。もう一度お試しください。",
+		usage:
+			"📝 ブックマークした論文にノートを追加:\n/note <paper id>\n\nノートの検索: /notes <text>",
+		noMatches: "📝 「{query}」に一致するノートはありません。",
+		none: "📝 まだノートがありません。\n\n保存した論文の 📝 ノート ボタンか、/note <paper id> を使ってください。",
+		matching: "📝 「{query}」に一致するノート",
+		title: "📝 あなたのノート",
+		saveFirst:
+			"ノートを追加する前に、この論文をブックマークに保存してください。",
+		button: "📝 ノート",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 未読",
+		reading: "📖 読書中",
+		read: "✅ 読了",
+		abandoned: "🚫 中断",
+		listTitle: "📚 リーディングリスト",
+		invalid:
+			"❌ 不明なステータスまたは並び順「{value}」です。\n\n使い方: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]",
+		saveFirst: "先にこの論文をブックマークに保存してください。",
+		statusFor: "📖 「{title}」の読書ステータス",
+		rated: "評価 {rating}/5",
+		ratingCleared: "評価を解除しました",
+		couldNotUpdate:
+			"❌ このブックマークを更新できませんでした。もう一度お試しください。",
+		all: "📋 すべて",
+		sortByDate: "🕒 日付順",
+		sortByRating: "⭐ 評価順",
+		statusButton: "📖 ステータス",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 このグループの購読を管理できるのはグループ管理者だけです。",
+		addMe:
+			"👥 Telegram グループに追加すると、メンバーと論文ライブラリを共有できます。",
+		adminsOnlyAdd:
+			"🔒 このライブラリに論文を追加できるのはグループ管理者だけです。",
+		alreadyAdded: "「{title}」はすでにグループライブラリにあります。",
+		paperNotFound: "論文 {paperId} が見つかりませんでした。",
+		addFailed: "論文を追加できませんでした。もう一度お試しください。",
+		added: "✅ 「{title}」をグループライブラリに追加しました。",
+		notInLibrary: "論文 {paperId} はグループライブラリにありません。",
+		adminsOnlyRemove:
+			"🔒 このライブラリから論文を削除できるのはグループ管理者だけです。",
+		adminsOrAdderRemove:
+			"🔒 この論文を削除できるのはグループ管理者と追加したメンバーだけです。",
+		removed: "🗑 「{title}」をグループライブラリから削除しました。",
+		removeFailed: "論文を削除できませんでした。もう一度お試しください。",
+		adminsOnlySettings:
+			"🔒 ライブラリの設定を変更できるのはグループ管理者だけです。",
+		settingsFailed: "設定を更新できませんでした。もう一度お試しください。",
+		policyChanged:
+			"✅ グループライブラリを編集できるのは{editors}になりました。",
+		policyMembers: "全メンバー",
+		policyAdmins: "管理者のみ",
+		roleAdmin: "管理者",
+		roleMember: "メンバー",
+		defaultTitle: "グループライブラリ",
+		papers: "📚 論文: {count}",
+		subscriptions: "📬 購読: {count}",
+		members: "🙋 メンバー: {count}（管理者: {admins}）",
+		editableBy: "✏️ 編集できる人: {editors}",
+		yourRole: "🔑 あなたの役割: {role}",
+		usage:
+			"グループライブラリのコマンド:\n/bookmarks - グループライブラリを表示\n/bookmarks add <paper id> - 論文を追加\n/bookmarks remove <paper id> - 論文を削除\n/subscribe <topic> - このグループにダイジェストを投稿\n/export - グループライブラリをエクスポート\n/group policy admins|members - 編集できる人を設定（管理者のみ）",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 ブックマークにインポートするには、プライベートチャットでファイルを送ってください。",
+		tooLarge: "❌ ファイルが大きすぎてインポートできません（最大 {max} MB）。",
+		noReferences: "❌ {file} に文献が見つかりませんでした。",
+		importing:
+			"⏳ {file} から {count} 件をインポートしています。数分かかることがあります...",
+		finished: "📥 インポートが完了しました",
+		imported: "✅ インポート済み: {count}",
+		duplicates: "⏭ ライブラリに登録済み: {count}",
+		failed: "❌ 解決できませんでした: {count}",
+		moreFailed: "…ほか {count} 件",
+		truncated:
+			"⚠️ 最初の {max} 件のみ処理し、{count} 件をスキップしました。残りは別のファイルで送ってください。",
+		usage:
+			"📥 論文のインポート\n\nファイルをドキュメントとして送ると、その論文をブックマークに追加します:\n• .bib - BibTeX（arXiv eprint、DOI、PMID フィールド）\n• .ris - Zotero、Mendeley、EndNote の RIS\n• .txt - arXiv ID、DOI、pmid:<id>（1 行に 1 件）\n\n1 ファイルにつき最大 {max} 件。ライブラリにある論文はスキップされます。",
+		importingOne:
+			"⏳ {file} から 1 件をインポートしています。数分かかることがあります...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ おすすめ - あなたの興味に合う新着論文",
+		weeklyHeader: "✨ 今週のおすすめダイジェスト",
+		empty:
+			"✨ まだおすすめはありません。\n\n論文をいくつかブックマーク・検索・閲覧すると、/foryou があなたの好みを学習します。",
+		refresh: "🔄 更新",
+		finding: "⏳ あなたへの新着論文を探しています...",
+		weeklyOn:
+			"✅ 毎週のおすすめダイジェストをオンにしました。あなたのタイムゾーンで毎週{day} {time} に届きます（/timezone を参照）。",
+		weeklyOff: "🔕 毎週のおすすめダイジェストをオフにしました。",
+		weeklyFailed:
+			"毎週のダイジェストを更新できませんでした。もう一度お試しください。",
+		usage:
+			"✨ おすすめ\n\n/foryou - ブックマーク・閲覧・検索から選んだ新着論文\n/foryou weekly on - 毎週のダイジェストで受け取る\n/foryou weekly off - 毎週のダイジェストを停止",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ このダイジェストはもう利用できません。",
+		unknownMode: "❌ 不明なダイジェストモード「{mode}」です。",
+		modeMerged: "まとめる",
+		modeSeparate: "個別",
+		usage:
+			"📬 ダイジェストモード: {mode}\n\n/digest merged - 同時に配信予定のすべての購読を1通にまとめる\n/digest separate - 購読ごとに1通ずつ送る",
+		saveFailed:
+			"ダイジェストモードを保存できませんでした。もう一度お試しください。",
+		mergedOn:
+			"✅ まとめダイジェストをオンにしました。同時に配信予定の購読はトピックごとにまとめて1通で届き、複数のトピックに一致する論文が先頭に表示されます。",
+		mergedOff:
+			"✅ まとめダイジェストをオフにしました。購読ごとに個別のメッセージが届きます。",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: "❌ 不明なオプション「{option}」です。",
+		feedUnavailable: "❌ このボットではフィードを利用できません。",
+		feedFailed: "フィードを設定できませんでした。もう一度お試しください。",
+		feedReset: "🔄 新しいフィードURLです。古いURLは使えなくなりました。",
+		feedYours: "📡 あなたの Atom フィード:",
+		feedHint:
+			"お好きなフィードリーダーに追加してください。購読の新着論文が Telegram と同様にそこにも表示されます。URL は公開しないでください。/feed reset で再発行できます。",
+		feedOffFailed: "フィードをオフにできませんでした。もう一度お試しください。",
+		feedOff: "📡 フィードをオフにしました。URL は使えなくなりました。",
+		feedUsage:
+			"📡 Atom フィード\n\n/feed - 個人フィードの URL を取得\n/feed reset - URL を再発行\n/feed off - フィードをオフにする",
+		emailPrivateOnly:
+			"📧 メールダイジェストは私との個人チャットで設定してください。",
+		emailUnavailable: "❌ このボットではメールダイジェストを利用できません。",
+		emailInvalid: "❌ メールアドレスの形式ではないようです。",
+		emailWait:
+			"⏳ コードを送信したばかりです。新しいコードは1分ほど待ってからリクエストしてください。",
+		emailSaveFailed:
+			"メールアドレスを保存できませんでした。もう一度お試しください。",
+		emailSendFailed:
+			"❌ そのアドレスにメールを送信できませんでした。確認してもう一度お試しください。",
+		emailSent:
+			"📧 {address} にコードを送信しました。/email verify <コード> を送って確認してください。",
+		emailNoCode:
+			"❌ 待機中のコードはありません。/email <アドレス> を送ってコードを取得してください。",
+		emailWrongCode:
+			"❌ コードが違います。メールを確認してもう一度お試しください。",
+		emailOn:
+			"✅ メールダイジェストをオンにしました。購読の新着論文は {address} にも送信されます。",
+		emailOffFailed:
+			"メールダイジェストをオフにできませんでした。もう一度お試しください。",
+		emailOff: "📧 メールダイジェストをオフにしました。",
+		emailStatusOn: "オン（{address}）",
+		emailStatusOff: "オフ",
+		emailUsage:
+			"📧 メールダイジェスト: {status}\n\n/email <アドレス> - 購読の論文をメールでも受け取る\n/email verify <コード> - アドレスを確認\n/email off - メールダイジェストを停止",
+		emailTooManyAttempts:
+			"❌ 間違ったコードが多すぎます。/email <アドレス> を送信して新しいコードを取得してください。",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "使い方: /admin_retry <ジョブID> または /admin_retry all",
+		retriedOne:
+			"🔁 失敗したジョブ 1 件を再登録しました。次回のワーカー実行時に処理されます。",
+		retried:
+			"🔁 失敗したジョブ {count} 件を再登録しました。次回のワーカー実行時に処理されます。",
+		nothingToRetry: "再試行する失敗ジョブはありません。",
+		broadcastNotFound: "一斉送信が見つかりません。",
+		broadcastAlreadySent:
+			"この一斉送信は既に送信済みかキャンセルされています。",
+		broadcastSending: "送信中...",
+		broadcastCancelled: "一斉送信をキャンセルしました。",
+		broadcastFinished: "この一斉送信は既に完了しています。",
+		broadcastNoRecipients:
+			"この対象に一致するユーザーはいません（{audience}）。",
+		broadcastSaveFailed:
+			"❌ 一斉送信を保存できませんでした。もう一度お試しください。",
+		broadcastBadMarkdown:
+			"❌ Telegram がこのメッセージを整形できませんでした。Markdown（*太字*、_斜体_、`コード`）を確認してもう一度お試しください。",
+		broadcastPreviewOne:
+			"👆 一斉送信 #{id} のプレビュー\n\n対象: {audience}（1 ユーザー）\n\n送信しますか？",
+		broadcastPreview:
+			"👆 一斉送信 #{id} のプレビュー\n\n対象: {audience}（{count} ユーザー）\n\n送信しますか？",
+		broadcastSend: "📢 送信",
+		broadcastCancel: "✖️ キャンセル",
+		broadcastUsage:
+			"使い方: /broadcast [オプション] <メッセージ>\n\nオプションで受信者を選びます（既定: すべてのユーザー）:\n  --lang <コード> - この言語のユーザー、例: --lang de\n  --active <日数> - 最近の日数内にアクティブなユーザー、例: --active 30d\n  --category <カテゴリ> - カテゴリを購読しているユーザー、例: --category cs.AI\n\nメッセージには Markdown を使えます。送信前に確認用のプレビューが届きます。\n\n/broadcast history - 最近の一斉送信を表示",
+		broadcastUnknownLanguage: "不明な言語: {value}",
+		broadcastInvalidActive: "無効なアクティブ期間: {value}（例: 30d）",
+		broadcastInvalidCategory: "無効なカテゴリ: {value}（例: cs.AI）",
+		broadcastUnknownOption: "不明なオプション: {option}",
+		broadcastEmpty: "一斉送信のメッセージが空です。",
+		broadcastTooLong:
+			"一斉送信のメッセージが長すぎます（{length}/{max} 文字）。",
+		broadcastStop: "⏹ キャンセル",
+		broadcastStatus: "📢 一斉送信 #{id}: {status}",
+		broadcastAudience: "対象: {audience}",
+		broadcastProgress: "送信済み: {total} 件中 {sent} 件、失敗: {failed} 件",
+		broadcastStatusDraft: "確認待ち",
+		broadcastStatusRunning: "送信中",
+		broadcastStatusDone: "完了",
+		broadcastStatusCancelled: "キャンセル済み",
+		broadcastHistoryEmpty: "まだ一斉送信はありません。",
+		broadcastHistoryTitle: "📢 最近の一斉送信",
+		broadcastHistoryCounts:
+			"{audience}: {total} 件中 送信 {sent} 件、失敗 {failed} 件",
+		audienceAll: "すべてのユーザー",
+		audienceUsers: "ユーザー（{conditions}）",
+		audienceLanguage: "言語が {language}",
+		audienceActiveDay: "過去1日以内にアクティブ",
+		audienceActiveDays: "過去{days}日以内にアクティブ",
+		audienceCategory: "{category} を購読中",
+	},
 };
 
 export default ja;
@@ -48,6 +48,9 @@ export const pt: Translations = {
 		noMorePapers: "📭 Não há mais artigos para este tema.",
 		useSearchFirst: "Use /search primeiro para pesquisar artigos.",
 		loadingMore: '📚 Carregando mais artigos para "{topic}"...',
+		invalidQuery: "❌ Consulta de busca inválida: {error}",
+		queryExample:
+			'Exemplo: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -279,6 +282,8 @@ export const pt: Translations = {
 		notFound: '❌ Não foi possível encontrar o artigo com ID "{arxivId}".',
 		noResults: "Nenhum artigo semelhante encontrado.",
 		title: "📚 Artigos Semelhantes",
+		primaryHint:
+			"Adicione --primary para manter os resultados na categoria principal do artigo.",
 	},
 
 	// Callback messages
@@ -338,6 +343,282 @@ export const pt: Translations = {
 		alreadyBookmarked: "📌 Este artigo já está nos seus favoritos!",
 		useBookmarksToView: "Use /bookmarks para ver seus artigos salvos.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: '❌ Nenhuma coleção chamada "{name}".',
+		empty:
+			'📁 "{name}" está vazia.\n\nAdicione artigos com:\n/collection add <paper id> {name}',
+		exportTitle: '📥 Exportar "{name}"',
+		notBookmarked:
+			'❌ "{paperId}" não está nos seus favoritos. Salve-o primeiro com /save {paperId}',
+		noCollections:
+			"Você ainda não tem coleções. Crie uma com /collection new <name>",
+		pick: "📁 Adicionar este artigo a qual coleção?",
+		missing: "❌ Coleção não encontrada.",
+		noneTagged: "🏷 Nenhum favorito com a tag {tag}.",
+		addButton: "📁 Adicionar à coleção",
+		nameLength: "❌ Nomes de coleção devem ter de 1 a {max} caracteres.",
+		exists: '❌ Você já tem uma coleção chamada "{name}".',
+		limit: "❌ Você atingiu o máximo de {max} coleções. Exclua uma primeiro.",
+		createFailed: "❌ Não foi possível criar a coleção. Tente novamente.",
+		created: '✅ Coleção "{name}" criada.',
+		deleted:
+			'🗑 Coleção "{name}" excluída. Os artigos continuam nos seus favoritos.',
+		deleteFailed: "❌ Não foi possível excluir a coleção. Tente novamente.",
+		added: '📁 Adicionado a "{name}".',
+		alreadyIn: 'Já está em "{name}".',
+		removed: 'Removido de "{name}".',
+		notIn: 'Esse artigo não está em "{name}".',
+		invalidTags:
+			'❌ Tags só podem conter letras, dígitos, "-" e "_" (máx. {max} caracteres).',
+		tagged: '🏷 "{title}" marcado com {tags}.',
+		alreadyTagged: '"{title}" já tem {tags}.',
+		untagged: '{tags} removido de "{title}".',
+		notTagged: '"{title}" não tem {tags}.',
+		none: "📁 Você ainda não tem coleções.\n\nCrie uma com:\n/collection new <nome>",
+		listTitle: "📁 Suas coleções:",
+		countOne: "1 artigo",
+		countMany: "{count} artigos",
+		noTags:
+			"🏷 Você ainda não marcou nenhum artigo.\n\nMarque um favorito com:\n/tag add <paper id> <tags...>",
+		tagsTitle: "🏷 Suas tags:",
+		usage:
+			"📁 Comandos de coleções:\n\n/collection - Listar suas coleções\n/collection new <nome> - Criar uma coleção\n/collection show <nome> - Listar os artigos de uma coleção\n/collection add <paper id> <nome> - Colocar um favorito em uma coleção\n/collection remove <paper id> <nome> - Tirar um artigo de uma coleção\n/collection export <nome> - Exportar uma coleção como BibTeX ou CSV\n/collection delete <nome> - Excluir uma coleção (os favoritos são mantidos)",
+		tagUsage:
+			"🏷 Comandos de tags:\n\n/tag - Listar suas tags\n/tag add <paper id> <tags...> - Marcar um favorito\n/tag remove <paper id> <tags...> - Remover tags de um favorito\n/tag show <tag> - Listar favoritos com uma tag (ou /tag #tag)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: '📝 Notas de "{title}"',
+		editorCurrent: "Notas atuais:",
+		editorPrompt:
+			"Envie sua nota. Você pode enviar várias mensagens.\n\n/done - salvar\n/clear - apagar as notas existentes\n/cancel - descartar",
+		editorAdded: "✅ Adicionado ({count}). Envie mais ou /done para salvar.",
+		discarded: "Nota descartada.",
+		deleted: "🗑 Notas apagadas.",
+		couldNotDelete: "❌ Não foi possível apagar as notas. Tente novamente.",
+		nothingToSave: "Nada para salvar.",
+		tooLong: "❌ As notas são limitadas a {max} caracteres por artigo.",
+		saved: '✅ Nota salva para "{title}".',
+		couldNotSave: "❌ Não foi possível salvar sua nota. Tente novamente.",
+		usage:
+			"📝 Adicione notas a um artigo salvo:\n/note <paper id>\n\nPesquise suas notas com /notes <text>",
+		noMatches: '📝 Nenhuma nota corresponde a "{query}".',
+		none: "📝 Você ainda não escreveu nenhuma nota.\n\nUse o botão 📝 Nota em um artigo salvo, ou /note <paper id>.",
+		matching: '📝 Notas que correspondem a "{query}"',
+		title: "📝 Suas notas",
+		saveFirst: "Salve este artigo nos seus favoritos antes de adicionar notas.",
+		button: "📝 Nota",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 Para ler",
+		reading: "📖 Lendo",
+		read: "✅ Lido",
+		abandoned: "🚫 Abandonado",
+		listTitle: "📚 Lista de leitura",
+		invalid:
+			'❌ Status ou ordenação desconhecido "{value}".\n\nUso: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]',
+		saveFirst: "Primeiro salve este artigo nos seus favoritos.",
+		statusFor: '📖 Status de leitura de "{title}"',
+		rated: "Avaliado com {rating}/5",
+		ratingCleared: "Avaliação removida",
+		couldNotUpdate:
+			"❌ Não foi possível atualizar este favorito. Tente novamente.",
+		all: "📋 Todos",
+		sortByDate: "🕒 Ordenar por data",
+		sortByRating: "⭐ Ordenar por avaliação",
+		statusButton: "📖 Status",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 Apenas os administradores do grupo podem gerenciar as inscrições deste grupo.",
+		addMe:
+			"👥 Adicione-me a um grupo do Telegram para compartilhar uma biblioteca de artigos com os membros.",
+		adminsOnlyAdd:
+			"🔒 Apenas os administradores do grupo podem adicionar artigos a esta biblioteca.",
+		alreadyAdded: '"{title}" já está na biblioteca do grupo.',
+		paperNotFound: "Não foi possível encontrar o artigo {paperId}.",
+		addFailed: "Falha ao adicionar o artigo. Tente novamente.",
+		added: '✅ "{title}" adicionado à biblioteca do grupo.',
+		notInLibrary: "O artigo {paperId} não está na biblioteca do grupo.",
+		adminsOnlyRemove:
+			"🔒 Apenas os administradores do grupo podem remover artigos desta biblioteca.",
+		adminsOrAdderRemove:
+			"🔒 Apenas os administradores do grupo e o membro que o adicionou podem remover este artigo.",
+		removed: '🗑 "{title}" removido da biblioteca do grupo.',
+		removeFailed: "Falha ao remover o artigo. Tente novamente.",
+		adminsOnlySettings:
+			"🔒 Apenas os administradores do grupo podem alterar as configurações da biblioteca.",
+		settingsFailed: "Falha ao atualizar as configurações. Tente novamente.",
+		policyChanged:
+			"✅ Agora a biblioteca do grupo pode ser editada por: {editors}.",
+		policyMembers: "todos os membros",
+		policyAdmins: "apenas administradores",
+		roleAdmin: "administrador",
+		roleMember: "membro",
+		defaultTitle: "Biblioteca do grupo",
+		papers: "📚 Artigos: {count}",
+		subscriptions: "📬 Inscrições: {count}",
+		members: "🙋 Membros: {count} (administradores: {admins})",
+		editableBy: "✏️ Podem editar: {editors}",
+		yourRole: "🔑 Sua função: {role}",
+		usage:
+			"Comandos da biblioteca do grupo:\n/bookmarks - Mostrar a biblioteca do grupo\n/bookmarks add <paper id> - Adicionar um artigo\n/bookmarks remove <paper id> - Remover um artigo\n/subscribe <topic> - Publicar um resumo neste grupo\n/export - Exportar a biblioteca do grupo\n/group policy admins|members - Quem pode editar (apenas administradores)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 Envie o arquivo para mim em um chat privado para importá-lo para seus favoritos.",
+		tooLarge: "❌ O arquivo é grande demais para importar (máx. {max} MB).",
+		noReferences: "❌ Nenhuma referência encontrada em {file}.",
+		importing:
+			"⏳ Importando {count} entradas de {file}. Isso pode levar alguns minutos...",
+		finished: "📥 Importação concluída",
+		imported: "✅ Importados: {count}",
+		duplicates: "⏭ Já na sua biblioteca: {count}",
+		failed: "❌ Não foi possível resolver: {count}",
+		moreFailed: "…e mais {count}",
+		truncated:
+			"⚠️ Apenas as primeiras {max} entradas foram processadas; {count} foram ignoradas. Envie o restante em outro arquivo.",
+		usage:
+			"📥 Importar artigos\n\nEnvie um arquivo como documento para adicionar os artigos aos seus favoritos:\n• .bib - BibTeX (campos eprint do arXiv, DOI ou PMID)\n• .ris - RIS do Zotero, Mendeley ou EndNote\n• .txt - IDs do arXiv, DOIs ou pmid:<id>, um por linha\n\nAté {max} entradas por arquivo. Artigos que já estão na sua biblioteca são ignorados.",
+		importingOne:
+			"⏳ Importando 1 entrada de {file}. Isso pode levar alguns minutos...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ Para você - artigos novos de acordo com seus interesses",
+		weeklyHeader: "✨ Seu resumo semanal Para você",
+		empty:
+			"✨ Ainda não há sugestões.\n\nSalve, pesquise e leia alguns artigos e o /foryou vai aprender do que você gosta.",
+		refresh: "🔄 Atualizar",
+		finding: "⏳ Procurando artigos novos para você...",
+		weeklyOn:
+			"✅ Resumo semanal Para você ativado. Ele chega toda {day} às {time} no seu fuso horário (veja /timezone).",
+		weeklyOff: "🔕 Resumo semanal Para você desativado.",
+		weeklyFailed: "Falha ao atualizar o resumo semanal. Tente novamente.",
+		usage:
+			"✨ Para você\n\n/foryou - artigos novos escolhidos a partir dos seus favoritos, visualizações e pesquisas\n/foryou weekly on - recebê-los como resumo semanal\n/foryou weekly off - parar o resumo semanal",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ Este resumo não está mais disponível.",
+		unknownMode: '❌ Modo de resumo desconhecido "{mode}".',
+		modeMerged: "combinado",
+		modeSeparate: "separado",
+		usage:
+			"📬 Modo de resumo: {mode}\n\n/digest merged - uma mensagem para todas as inscrições que vencem ao mesmo tempo\n/digest separate - uma mensagem por inscrição",
+		saveFailed: "Falha ao salvar o modo de resumo. Tente novamente.",
+		mergedOn:
+			"✅ Resumo combinado ativado. As inscrições que vencem ao mesmo tempo chegam em uma única mensagem, agrupadas por tema, com os artigos que correspondem a vários temas primeiro.",
+		mergedOff:
+			"✅ Resumo combinado desativado. Cada inscrição envia sua própria mensagem.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: '❌ Opção desconhecida "{option}".',
+		feedUnavailable: "❌ Feeds não estão disponíveis neste bot.",
+		feedFailed: "Falha ao configurar seu feed. Tente novamente.",
+		feedReset: "🔄 Nova URL do feed. A antiga não funciona mais.",
+		feedYours: "📡 Seu feed Atom:",
+		feedHint:
+			"Adicione-o a qualquer leitor de feeds. Os novos artigos das inscrições aparecem lá além do Telegram. Mantenha a URL privada; /feed reset a substitui.",
+		feedOffFailed: "Falha ao desativar seu feed. Tente novamente.",
+		feedOff: "📡 Feed desativado. A URL não funciona mais.",
+		feedUsage:
+			"📡 Feed Atom\n\n/feed - obter a URL do seu feed pessoal\n/feed reset - substituir a URL\n/feed off - desativar o feed",
+		emailPrivateOnly:
+			"📧 Configure os resumos por e-mail em um chat privado comigo.",
+		emailUnavailable: "❌ Resumos por e-mail não estão disponíveis neste bot.",
+		emailInvalid: "❌ Isso não parece um endereço de e-mail.",
+		emailWait:
+			"⏳ Um código acabou de ser enviado. Aguarde um minuto antes de pedir outro.",
+		emailSaveFailed: "Falha ao salvar seu endereço de e-mail. Tente novamente.",
+		emailSendFailed:
+			"❌ Não foi possível enviar um e-mail para esse endereço. Verifique-o e tente novamente.",
+		emailSent:
+			"📧 Enviei um código para {address}. Envie /email verify <código> para confirmá-lo.",
+		emailNoCode:
+			"❌ Nenhum código pendente. Envie /email <endereço> para receber um.",
+		emailWrongCode:
+			"❌ Código incorreto. Verifique o e-mail e tente novamente.",
+		emailOn:
+			"✅ Resumos por e-mail ativados. Os novos artigos das inscrições também são enviados para {address}.",
+		emailOffFailed:
+			"Falha ao desativar os resumos por e-mail. Tente novamente.",
+		emailOff: "📧 Resumos por e-mail desativados.",
+		emailStatusOn: "ativados ({address})",
+		emailStatusOff: "desativados",
+		emailUsage:
+			"📧 Resumos por e-mail: {status}\n\n/email <endereço> - receber também por e-mail os artigos das inscrições\n/email verify <código> - confirmar seu endereço\n/email off - parar os resumos por e-mail",
+		emailTooManyAttempts:
+			"❌ Muitos códigos errados. Envie /email <endereço> para receber um novo.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "Uso: /admin_retry <id da tarefa> ou /admin_retry all",
+		retriedOne:
+			"🔁 1 tarefa morta foi enfileirada novamente. Ela roda na próxima execução do worker.",
+		retried:
+			"🔁 {count} tarefas mortas foram enfileiradas novamente. Elas rodam na próxima execução do worker.",
+		nothingToRetry: "Nenhuma tarefa morta para tentar novamente.",
+		broadcastNotFound: "Transmissão não encontrada.",
+		broadcastAlreadySent: "Esta transmissão já foi enviada ou cancelada.",
+		broadcastSending: "Enviando...",
+		broadcastCancelled: "Transmissão cancelada.",
+		broadcastFinished: "Esta transmissão já terminou.",
+		broadcastNoRecipients:
+			"Nenhum usuário corresponde a este público ({audience}).",
+		broadcastSaveFailed:
+			"❌ Não foi possível salvar a transmissão. Tente novamente.",
+		broadcastBadMarkdown:
+			"❌ O Telegram não conseguiu formatar esta mensagem. Verifique o Markdown (*negrito*, _itálico_, `código`) e tente novamente.",
+		broadcastPreviewOne:
+			"👆 Prévia da transmissão #{id}\n\nPúblico: {audience} (1 usuário)\n\nEnviar?",
+		broadcastPreview:
+			"👆 Prévia da transmissão #{id}\n\nPúblico: {audience} ({count} usuários)\n\nEnviar?",
+		broadcastSend: "📢 Enviar",
+		broadcastCancel: "✖️ Cancelar",
+		broadcastUsage:
+			"Uso: /broadcast [opções] <mensagem>\n\nAs opções escolhem quem recebe (padrão: todos os usuários):\n  --lang <código> - usuários com este idioma, ex.: --lang de\n  --active <dias> - usuários ativos nos últimos dias, ex.: --active 30d\n  --category <categoria> - usuários inscritos em uma categoria, ex.: --category cs.AI\n\nA mensagem pode usar Markdown. Você recebe uma prévia para confirmar antes do envio.\n\n/broadcast history - Ver os anúncios recentes",
+		broadcastUnknownLanguage: "Idioma desconhecido: {value}",
+		broadcastInvalidActive:
+			"Período de atividade inválido: {value} (use ex.: 30d)",
+		broadcastInvalidCategory: "Categoria inválida: {value} (use ex.: cs.AI)",
+		broadcastUnknownOption: "Opção desconhecida: {option}",
+		broadcastEmpty: "A mensagem do anúncio está vazia.",
+		broadcastTooLong:
+			"A mensagem do anúncio é longa demais ({length}/{max} caracteres).",
+		broadcastStop: "⏹ Cancelar",
+		broadcastStatus: "📢 Anúncio #{id}: {status}",
+		broadcastAudience: "Público: {audience}",
+		broadcastProgress: "Enviados: {sent} de {total}, falhas: {failed}",
+		broadcastStatusDraft: "aguardando confirmação",
+		broadcastStatusRunning: "enviando",
+		broadcastStatusDone: "concluído",
+		broadcastStatusCancelled: "cancelado",
+		broadcastHistoryEmpty: "Nenhum anúncio foi enviado ainda.",
+		broadcastHistoryTitle: "📢 Anúncios recentes",
+		broadcastHistoryCounts:
+			"{audience}: {sent} enviados, {failed} falhas de {total}",
+		audienceAll: "todos os usuários",
+		audienceUsers: "usuários {conditions}",
+		audienceLanguage: "com idioma {language}",
+		audienceActiveDay: "ativos no último dia",
+		audienceActiveDays: "ativos nos últimos {days} dias",
+		audienceCategory: "inscritos em {category}",
+	},
 };
 
 export default pt;
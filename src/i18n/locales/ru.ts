@@ -46,6 +46,9 @@ export const ru: Translations = {
 		noMorePapers: "📭 Больше статей по этой теме не найдено.",
 		useSearchFirst: "Сначала используйте /search для поиска статей.",
 		loadingMore: "📚 Загрузка дополнительных статей по запросу «{topic}»...",
+		invalidQuery: "❌ Неверный поисковый запрос: {error}",
+		queryExample:
+			'Пример: ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -269,6 +272,8 @@ export const ru: Translations = {
 		notFound: "❌ Не удалось найти статью с ID «{arxivId}».",
 		noResults: "Похожие статьи не найдены.",
 		title: "📚 Похожие статьи",
+		primaryHint:
+			"Добавьте --primary, чтобы оставить только результаты из основной категории статьи.",
 	},
 
 	// Callback messages
@@ -329,6 +334,281 @@ export const ru: Translations = {
 		useBookmarksToView:
 			"Используйте /bookmarks для просмотра сохранённых статей.",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: "❌ Коллекция «{name}» не найдена.",
+		empty:
+			"📁 Коллекция «{name}» пуста.\n\nДобавьте статьи командой:\n/collection add <paper id> {name}",
+		exportTitle: "📥 Экспорт «{name}»",
+		notBookmarked:
+			"❌ «{paperId}» нет в ваших закладках. Сначала сохраните статью: /save {paperId}",
+		noCollections:
+			"У вас пока нет коллекций. Создайте её командой /collection new <name>",
+		pick: "📁 В какую коллекцию добавить эту статью?",
+		missing: "❌ Коллекция не найдена.",
+		noneTagged: "🏷 Нет закладок с тегом {tag}.",
+		addButton: "📁 Добавить в коллекцию",
+		nameLength:
+			"❌ Название коллекции должно содержать от 1 до {max} символов.",
+		exists: "❌ У вас уже есть коллекция «{name}».",
+		limit: "❌ Достигнут максимум в {max} коллекций. Сначала удалите одну.",
+		createFailed: "❌ Не удалось создать коллекцию. Попробуйте ещё раз.",
+		created: "✅ Коллекция «{name}» создана.",
+		deleted: "🗑 Коллекция «{name}» удалена. Её статьи остались в закладках.",
+		deleteFailed: "❌ Не удалось удалить коллекцию. Попробуйте ещё раз.",
+		added: "📁 Добавлено в «{name}».",
+		alreadyIn: "Уже в «{name}».",
+		removed: "Удалено из «{name}».",
+		notIn: "Этой статьи нет в «{name}».",
+		invalidTags:
+			"❌ Теги могут содержать только буквы, цифры, «-» и «_» (не более {max} символов).",
+		tagged: "🏷 «{title}» отмечено тегами {tags}.",
+		alreadyTagged: "У «{title}» уже есть {tags}.",
+		untagged: "Теги {tags} удалены из «{title}».",
+		notTagged: "У «{title}» нет {tags}.",
+		none: "📁 У вас пока нет коллекций.\n\nСоздайте коллекцию командой:\n/collection new <название>",
+		listTitle: "📁 Ваши коллекции:",
+		countOne: "1 статья",
+		countMany: "статей: {count}",
+		noTags:
+			"🏷 Вы ещё не отметили ни одной статьи тегами.\n\nДобавьте тег к закладке:\n/tag add <paper id> <теги...>",
+		tagsTitle: "🏷 Ваши теги:",
+		usage:
+			"📁 Команды коллекций:\n\n/collection - Список ваших коллекций\n/collection new <название> - Создать коллекцию\n/collection show <название> - Статьи в коллекции\n/collection add <paper id> <название> - Добавить закладку в коллекцию\n/collection remove <paper id> <название> - Убрать статью из коллекции\n/collection export <название> - Экспортировать коллекцию в BibTeX или CSV\n/collection delete <название> - Удалить коллекцию (закладки сохранятся)",
+		tagUsage:
+			"🏷 Команды тегов:\n\n/tag - Список ваших тегов\n/tag add <paper id> <теги...> - Добавить теги к закладке\n/tag remove <paper id> <теги...> - Убрать теги с закладки\n/tag show <тег> - Закладки с тегом (или /tag #тег)",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: "📝 Заметки к «{title}»",
+		editorCurrent: "Текущие заметки:",
+		editorPrompt:
+			"Отправьте заметку. Можно несколькими сообщениями.\n\n/done - сохранить\n/clear - удалить текущие заметки\n/cancel - отменить",
+		editorAdded:
+			"✅ Добавлено ({count}). Отправьте ещё или /done, чтобы сохранить.",
+		discarded: "Заметка отменена.",
+		deleted: "🗑 Заметки удалены.",
+		couldNotDelete: "❌ Не удалось удалить заметки. Попробуйте ещё раз.",
+		nothingToSave: "Нечего сохранять.",
+		tooLong: "❌ Заметки к одной статье ограничены {max} символами.",
+		saved: "✅ Заметка к «{title}» сохранена.",
+		couldNotSave: "❌ Не удалось сохранить заметку. Попробуйте ещё раз.",
+		usage:
+			"📝 Добавьте заметки к статье из закладок:\n/note <paper id>\n\nПоиск по заметкам: /notes <text>",
+		noMatches: "📝 Нет заметок по запросу «{query}».",
+		none: "📝 У вас пока нет заметок.\n\nНажмите кнопку 📝 Заметка у сохранённой статьи или используйте /note <paper id>.",
+		matching: "📝 Заметки по запросу «{query}»",
+		title: "📝 Ваши заметки",
+		saveFirst: "Сохраните статью в закладки, прежде чем добавлять заметки.",
+		button: "📝 Заметка",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 Прочитать",
+		reading: "📖 Читаю",
+		read: "✅ Прочитано",
+		abandoned: "🚫 Брошено",
+		listTitle: "📚 Список чтения",
+		invalid:
+			"❌ Неизвестный статус или сортировка «{value}».\n\nИспользование: /reading [to-read|reading|read|abandoned] [--sort date|status|rating]",
+		saveFirst: "Сначала сохраните статью в закладки.",
+		statusFor: "📖 Статус чтения «{title}»",
+		rated: "Оценка {rating}/5",
+		ratingCleared: "Оценка удалена",
+		couldNotUpdate: "❌ Не удалось обновить закладку. Попробуйте ещё раз.",
+		all: "📋 Все",
+		sortByDate: "🕒 По дате",
+		sortByRating: "⭐ По оценке",
+		statusButton: "📖 Статус",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions:
+			"🔒 Управлять подписками группы могут только её администраторы.",
+		addMe:
+			"👥 Добавьте меня в группу Telegram, чтобы вести общую библиотеку статей с её участниками.",
+		adminsOnlyAdd:
+			"🔒 Добавлять статьи в эту библиотеку могут только администраторы группы.",
+		alreadyAdded: "«{title}» уже есть в библиотеке группы.",
+		paperNotFound: "Статья {paperId} не найдена.",
+		addFailed: "Не удалось добавить статью. Попробуйте ещё раз.",
+		added: "✅ «{title}» добавлена в библиотеку группы.",
+		notInLibrary: "Статьи {paperId} нет в библиотеке группы.",
+		adminsOnlyRemove:
+			"🔒 Удалять статьи из этой библиотеки могут только администраторы группы.",
+		adminsOrAdderRemove:
+			"🔒 Удалить эту статью могут только администраторы группы и участник, который её добавил.",
+		removed: "🗑 «{title}» удалена из библиотеки группы.",
+		removeFailed: "Не удалось удалить статью. Попробуйте ещё раз.",
+		adminsOnlySettings:
+			"🔒 Менять настройки библиотеки могут только администраторы группы.",
+		settingsFailed: "Не удалось обновить настройки. Попробуйте ещё раз.",
+		policyChanged:
+			"✅ Теперь библиотеку группы могут редактировать: {editors}.",
+		policyMembers: "все участники",
+		policyAdmins: "только администраторы",
+		roleAdmin: "администратор",
+		roleMember: "участник",
+		defaultTitle: "Библиотека группы",
+		papers: "📚 Статьи: {count}",
+		subscriptions: "📬 Подписки: {count}",
+		members: "🙋 Участники: {count} (администраторы: {admins})",
+		editableBy: "✏️ Редактировать могут: {editors}",
+		yourRole: "🔑 Ваша роль: {role}",
+		usage:
+			"Команды библиотеки группы:\n/bookmarks - Показать библиотеку группы\n/bookmarks add <paper id> - Добавить статью\n/bookmarks remove <paper id> - Удалить статью\n/subscribe <topic> - Публиковать дайджест в этой группе\n/export - Экспортировать библиотеку группы\n/group policy admins|members - Кто может редактировать (только администраторы)",
+	},
+
+	// Import
+	import: {
+		privateOnly:
+			"📥 Отправьте файл мне в личный чат, чтобы импортировать его в закладки.",
+		tooLarge: "❌ Файл слишком большой для импорта (максимум {max} МБ).",
+		noReferences: "❌ В файле {file} не найдено ссылок.",
+		importing:
+			"⏳ Импортируем записи из {file}: {count}. Это может занять несколько минут...",
+		finished: "📥 Импорт завершён",
+		imported: "✅ Импортировано: {count}",
+		duplicates: "⏭ Уже в библиотеке: {count}",
+		failed: "❌ Не удалось найти: {count}",
+		moreFailed: "…и ещё {count}",
+		truncated:
+			"⚠️ Обработаны только первые {max} записей, пропущено: {count}. Отправьте остальные в другом файле.",
+		usage:
+			"📥 Импорт статей\n\nОтправьте файл как документ, чтобы добавить статьи из него в закладки:\n• .bib - BibTeX (поля eprint arXiv, DOI или PMID)\n• .ris - RIS из Zotero, Mendeley или EndNote\n• .txt - ID arXiv, DOI или pmid:<id>, по одному в строке\n\nДо {max} записей в файле. Статьи, которые уже есть в библиотеке, пропускаются.",
+		importingOne:
+			"⏳ Импортируем 1 запись из {file}. Это может занять несколько минут...",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ Для вас - новые статьи по вашим интересам",
+		weeklyHeader: "✨ Ваш еженедельный дайджест «Для вас»",
+		empty:
+			"✨ Пока нечего предложить.\n\nСохраните, найдите и прочитайте несколько статей, и /foryou узнает, что вам интересно.",
+		refresh: "🔄 Обновить",
+		finding: "⏳ Подбираем для вас новые статьи...",
+		weeklyOn:
+			"✅ Еженедельный дайджест «Для вас» включён. Он приходит каждый {day} в {time} по вашему часовому поясу (см. /timezone).",
+		weeklyOff: "🔕 Еженедельный дайджест «Для вас» выключен.",
+		weeklyFailed:
+			"Не удалось обновить еженедельный дайджест. Попробуйте ещё раз.",
+		usage:
+			"✨ Для вас\n\n/foryou - новые статьи на основе ваших закладок, просмотров и поисков\n/foryou weekly on - получать их еженедельным дайджестом\n/foryou weekly off - отключить еженедельный дайджест",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ Этот дайджест больше недоступен.",
+		unknownMode: "❌ Неизвестный режим дайджеста «{mode}».",
+		modeMerged: "объединённый",
+		modeSeparate: "раздельный",
+		usage:
+			"📬 Режим дайджеста: {mode}\n\n/digest merged - одно сообщение для всех подписок, срок которых наступил одновременно\n/digest separate - отдельное сообщение для каждой подписки",
+		saveFailed: "Не удалось сохранить режим дайджеста. Попробуйте ещё раз.",
+		mergedOn:
+			"✅ Объединённый дайджест включён. Подписки, срок которых наступил одновременно, приходят одним сообщением, сгруппированным по темам; статьи, подходящие под несколько тем, идут первыми.",
+		mergedOff:
+			"✅ Объединённый дайджест выключен. Каждая подписка присылает отдельное сообщение.",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: "❌ Неизвестный параметр «{option}».",
+		feedUnavailable: "❌ Ленты недоступны в этом боте.",
+		feedFailed: "Не удалось настроить ленту. Попробуйте ещё раз.",
+		feedReset: "🔄 Новый адрес ленты. Старый больше не работает.",
+		feedYours: "📡 Ваша Atom-лента:",
+		feedHint:
+			"Добавьте её в любую программу для чтения лент. Новые статьи по подпискам появятся там так же, как в Telegram. Не делитесь адресом; /feed reset заменит его.",
+		feedOffFailed: "Не удалось отключить ленту. Попробуйте ещё раз.",
+		feedOff: "📡 Лента отключена. Её адрес больше не работает.",
+		feedUsage:
+			"📡 Atom-лента\n\n/feed - получить адрес личной ленты\n/feed reset - заменить адрес\n/feed off - отключить ленту",
+		emailPrivateOnly: "📧 Настройте рассылку по почте в личном чате со мной.",
+		emailUnavailable: "❌ Рассылка по почте недоступна в этом боте.",
+		emailInvalid: "❌ Это не похоже на адрес электронной почты.",
+		emailWait:
+			"⏳ Код только что отправлен. Подождите минуту, прежде чем запрашивать новый.",
+		emailSaveFailed: "Не удалось сохранить адрес почты. Попробуйте ещё раз.",
+		emailSendFailed:
+			"❌ Не удалось отправить письмо на этот адрес. Проверьте его и попробуйте ещё раз.",
+		emailSent:
+			"📧 Я отправил код на {address}. Отправьте /email verify <код>, чтобы подтвердить адрес.",
+		emailNoCode:
+			"❌ Нет ожидающего кода. Отправьте /email <адрес>, чтобы получить его.",
+		emailWrongCode: "❌ Неверный код. Проверьте письмо и попробуйте ещё раз.",
+		emailOn:
+			"✅ Рассылка по почте включена. Новые статьи по подпискам также отправляются на {address}.",
+		emailOffFailed:
+			"Не удалось отключить рассылку по почте. Попробуйте ещё раз.",
+		emailOff: "📧 Рассылка по почте отключена.",
+		emailStatusOn: "включена ({address})",
+		emailStatusOff: "отключена",
+		emailUsage:
+			"📧 Рассылка по почте: {status}\n\n/email <адрес> - получать статьи по подпискам ещё и по почте\n/email verify <код> - подтвердить адрес\n/email off - отключить рассылку по почте",
+		emailTooManyAttempts:
+			"❌ Слишком много неверных кодов. Отправьте /email <адрес>, чтобы получить новый.",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "Использование: /admin_retry <id задачи> или /admin_retry all",
+		retriedOne:
+			"🔁 1 упавшая задача снова в очереди. Она выполнится при следующем запуске воркера.",
+		retried:
+			"🔁 Упавших задач снова в очереди: {count}. Они выполнятся при следующем запуске воркера.",
+		nothingToRetry: "Нет упавших задач для повтора.",
+		broadcastNotFound: "Рассылка не найдена.",
+		broadcastAlreadySent: "Эта рассылка уже отправлена или отменена.",
+		broadcastSending: "Отправка...",
+		broadcastCancelled: "Рассылка отменена.",
+		broadcastFinished: "Эта рассылка уже завершена.",
+		broadcastNoRecipients:
+			"Нет пользователей, подходящих под эту аудиторию ({audience}).",
+		broadcastSaveFailed:
+			"❌ Не удалось сохранить рассылку. Попробуйте ещё раз.",
+		broadcastBadMarkdown:
+			"❌ Telegram не смог отформатировать сообщение. Проверьте Markdown (*жирный*, _курсив_, `код`) и попробуйте ещё раз.",
+		broadcastPreviewOne:
+			"👆 Предпросмотр рассылки #{id}\n\nАудитория: {audience} (1 пользователь)\n\nОтправить?",
+		broadcastPreview:
+			"👆 Предпросмотр рассылки #{id}\n\nАудитория: {audience} (пользователей: {count})\n\nОтправить?",
+		broadcastSend: "📢 Отправить",
+		broadcastCancel: "✖️ Отмена",
+		broadcastUsage:
+			"Использование: /broadcast [параметры] <сообщение>\n\nПараметры выбирают получателей (по умолчанию: все пользователи):\n  --lang <код> - пользователи с этим языком, например --lang de\n  --active <дни> - пользователи, активные за последние дни, например --active 30d\n  --category <категория> - пользователи с подпиской на категорию, например --category cs.AI\n\nВ сообщении можно использовать Markdown. Перед отправкой вы получите предпросмотр для подтверждения.\n\n/broadcast history - Последние рассылки",
+		broadcastUnknownLanguage: "Неизвестный язык: {value}",
+		broadcastInvalidActive:
+			"Неверный период активности: {value} (например, 30d)",
+		broadcastInvalidCategory: "Неверная категория: {value} (например, cs.AI)",
+		broadcastUnknownOption: "Неизвестный параметр: {option}",
+		broadcastEmpty: "Сообщение рассылки пустое.",
+		broadcastTooLong:
+			"Сообщение рассылки слишком длинное ({length}/{max} символов).",
+		broadcastStop: "⏹ Отменить",
+		broadcastStatus: "📢 Рассылка #{id}: {status}",
+		broadcastAudience: "Аудитория: {audience}",
+		broadcastProgress: "Отправлено: {sent} из {total}, ошибок: {failed}",
+		broadcastStatusDraft: "ожидает подтверждения",
+		broadcastStatusRunning: "отправляется",
+		broadcastStatusDone: "завершена",
+		broadcastStatusCancelled: "отменена",
+		broadcastHistoryEmpty: "Рассылок ещё не было.",
+		broadcastHistoryTitle: "📢 Последние рассылки",
+		broadcastHistoryCounts:
+			"{audience}: отправлено {sent}, ошибок {failed} из {total}",
+		audienceAll: "все пользователи",
+		audienceUsers: "пользователи {conditions}",
+		audienceLanguage: "с языком {language}",
+		audienceActiveDay: "активные за последний день",
+		audienceActiveDays: "активные за последние {days} дн.",
+		audienceCategory: "с подпиской на {category}",
+	},
 };
 
 export default ru;
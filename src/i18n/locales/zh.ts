@@ -46,6 +46,9 @@ export const zh: Translations = {
 		noMorePapers: "📭 该主题没有更多论文了。",
 		useSearchFirst: "请先使用 /search 搜索论文。",
 		loadingMore: "📚 正在加载更多「{topic}」的论文...",
+		invalidQuery: "❌ 搜索查询无效：{error}",
+		queryExample:
+			'示例：ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV',
 	},
 
 	// Papers
@@ -263,6 +266,7 @@ export const zh: Translations = {
 		notFound: "❌ 找不到 ID 为「{arxivId}」的论文。",
 		noResults: "未找到相似论文。",
 		title: "📚 相似论文",
+		primaryHint: "添加 --primary 可将结果限制在论文的主分类中。",
 	},
 
 	// Callback messages
@@ -321,6 +325,254 @@ export const zh: Translations = {
 		alreadyBookmarked: "📌 此论文已在您的书签中！",
 		useBookmarksToView: "使用 /bookmarks 查看已保存的论文。",
 	},
+
+	// Collections and tags
+	collections: {
+		notFound: "❌ 没有名为“{name}”的收藏集。",
+		empty:
+			"📁 “{name}”是空的。\n\n使用以下命令添加论文：\n/collection add <paper id> {name}",
+		exportTitle: "📥 导出“{name}”",
+		notBookmarked:
+			"❌ “{paperId}”不在你的书签中。请先使用 /save {paperId} 保存。",
+		noCollections: "你还没有任何收藏集。使用 /collection new <name> 创建一个。",
+		pick: "📁 要将这篇论文添加到哪个收藏集？",
+		missing: "❌ 未找到收藏集。",
+		noneTagged: "🏷 没有带有标签 {tag} 的书签。",
+		addButton: "📁 添加到收藏集",
+		nameLength: "❌ 收藏集名称必须为 1-{max} 个字符。",
+		exists: "❌ 你已经有名为“{name}”的收藏集。",
+		limit: "❌ 你已达到 {max} 个收藏集的上限。请先删除一个。",
+		createFailed: "❌ 创建收藏集失败，请重试。",
+		created: "✅ 已创建收藏集“{name}”。",
+		deleted: "🗑 已删除收藏集“{name}”。其中的论文仍在你的书签中。",
+		deleteFailed: "❌ 删除收藏集失败，请重试。",
+		added: "📁 已添加到“{name}”。",
+		alreadyIn: "已在“{name}”中。",
+		removed: "已从“{name}”中移除。",
+		notIn: "该论文不在“{name}”中。",
+		invalidTags: "❌ 标签只能包含字母、数字、“-”和“_”（最多 {max} 个字符）。",
+		tagged: "🏷 已为“{title}”添加标签 {tags}。",
+		alreadyTagged: "“{title}”已有 {tags}。",
+		untagged: "已从“{title}”移除 {tags}。",
+		notTagged: "“{title}”没有 {tags}。",
+		none: "📁 你还没有任何收藏集。\n\n使用以下命令创建：\n/collection new <名称>",
+		listTitle: "📁 你的收藏集：",
+		countOne: "1 篇论文",
+		countMany: "{count} 篇论文",
+		noTags:
+			"🏷 你还没有给任何论文加标签。\n\n使用以下命令为书签加标签：\n/tag add <paper id> <标签...>",
+		tagsTitle: "🏷 你的标签：",
+		usage:
+			"📁 收藏集命令：\n\n/collection - 列出你的收藏集\n/collection new <名称> - 创建收藏集\n/collection show <名称> - 列出收藏集中的论文\n/collection add <paper id> <名称> - 将书签加入收藏集\n/collection remove <paper id> <名称> - 从收藏集中移除论文\n/collection export <名称> - 将收藏集导出为 BibTeX 或 CSV\n/collection delete <名称> - 删除收藏集（书签会保留）",
+		tagUsage:
+			"🏷 标签命令：\n\n/tag - 列出你的标签\n/tag add <paper id> <标签...> - 为书签加标签\n/tag remove <paper id> <标签...> - 移除书签的标签\n/tag show <标签> - 列出带有某标签的书签（或 /tag #标签）",
+	},
+
+	// Notes
+	notes: {
+		editorTitle: "📝 “{title}”的笔记",
+		editorCurrent: "当前笔记：",
+		editorPrompt:
+			"请发送你的笔记，可以分多条消息发送。\n\n/done - 保存\n/clear - 删除现有笔记\n/cancel - 放弃",
+		editorAdded: "✅ 已添加（{count}）。继续发送，或发送 /done 保存。",
+		discarded: "已放弃笔记。",
+		deleted: "🗑 笔记已删除。",
+		couldNotDelete: "❌ 无法删除笔记，请重试。",
+		nothingToSave: "没有需要保存的内容。",
+		tooLong: "❌ 每篇论文的笔记最多 {max} 个字符。",
+		saved: "✅ 已保存“{title}”的笔记。",
+		couldNotSave: "❌ 无法保存你的笔记，请重试。",
+		usage:
+			"📝 为已收藏的论文添加笔记：\n/note <paper id>\n\n使用 /notes <text> 搜索你的笔记",
+		noMatches: "📝 没有与“{query}”匹配的笔记。",
+		none: "📝 你还没有写过笔记。\n\n在已保存的论文上使用 📝 笔记 按钮，或使用 /note <paper id>。",
+		matching: "📝 与“{query}”匹配的笔记",
+		title: "📝 你的笔记",
+		saveFirst: "添加笔记前，请先将这篇论文保存到书签。",
+		button: "📝 笔记",
+	},
+
+	// Reading status
+	reading: {
+		toRead: "📥 待读",
+		reading: "📖 在读",
+		read: "✅ 已读",
+		abandoned: "🚫 已放弃",
+		listTitle: "📚 阅读列表",
+		invalid:
+			"❌ 未知的状态或排序“{value}”。\n\n用法：/reading [to-read|reading|read|abandoned] [--sort date|status|rating]",
+		saveFirst: "请先将这篇论文保存到书签。",
+		statusFor: "📖 “{title}”的阅读状态",
+		rated: "评分 {rating}/5",
+		ratingCleared: "已清除评分",
+		couldNotUpdate: "❌ 无法更新此书签，请重试。",
+		all: "📋 全部",
+		sortByDate: "🕒 按日期排序",
+		sortByRating: "⭐ 按评分排序",
+		statusButton: "📖 状态",
+	},
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions: "🔒 只有群组管理员可以管理本群组的订阅。",
+		addMe: "👥 将我添加到 Telegram 群组，即可与群成员共享论文库。",
+		adminsOnlyAdd: "🔒 只有群组管理员可以向此论文库添加论文。",
+		alreadyAdded: "“{title}”已在群组论文库中。",
+		paperNotFound: "找不到论文 {paperId}。",
+		addFailed: "添加论文失败，请重试。",
+		added: "✅ 已将“{title}”添加到群组论文库。",
+		notInLibrary: "论文 {paperId} 不在群组论文库中。",
+		adminsOnlyRemove: "🔒 只有群组管理员可以从此论文库移除论文。",
+		adminsOrAdderRemove: "🔒 只有群组管理员和添加者可以移除这篇论文。",
+		removed: "🗑 已将“{title}”从群组论文库移除。",
+		removeFailed: "移除论文失败，请重试。",
+		adminsOnlySettings: "🔒 只有群组管理员可以更改论文库设置。",
+		settingsFailed: "更新设置失败，请重试。",
+		policyChanged: "✅ 群组论文库现在可由{editors}编辑。",
+		policyMembers: "所有成员",
+		policyAdmins: "仅管理员",
+		roleAdmin: "管理员",
+		roleMember: "成员",
+		defaultTitle: "群组论文库",
+		papers: "📚 论文：{count}",
+		subscriptions: "📬 订阅：{count}",
+		members: "🙋 成员：{count}（管理员：{admins}）",
+		editableBy: "✏️ 可编辑者：{editors}",
+		yourRole: "🔑 你的角色：{role}",
+		usage:
+			"群组论文库命令：\n/bookmarks - 查看群组论文库\n/bookmarks add <paper id> - 添加论文\n/bookmarks remove <paper id> - 移除论文\n/subscribe <topic> - 向本群组推送摘要\n/export - 导出群组论文库\n/group policy admins|members - 设置谁可以编辑（仅管理员）",
+	},
+
+	// Import
+	import: {
+		privateOnly: "📥 请在私聊中把文件发给我，以导入到你的书签。",
+		tooLarge: "❌ 文件太大，无法导入（最大 {max} MB）。",
+		noReferences: "❌ 在 {file} 中未找到参考文献。",
+		importing: "⏳ 正在从 {file} 导入 {count} 条记录，可能需要几分钟……",
+		finished: "📥 导入完成",
+		imported: "✅ 已导入：{count}",
+		duplicates: "⏭ 已在你的库中：{count}",
+		failed: "❌ 无法解析：{count}",
+		moreFailed: "……以及另外 {count} 条",
+		truncated:
+			"⚠️ 仅处理了前 {max} 条记录，跳过了 {count} 条。请在另一个文件中发送其余部分。",
+		usage:
+			"📥 导入论文\n\n以文件形式发送，即可将其中的论文添加到书签：\n• .bib - BibTeX（arXiv eprint、DOI 或 PMID 字段）\n• .ris - 来自 Zotero、Mendeley 或 EndNote 的 RIS\n• .txt - arXiv ID、DOI 或 pmid:<id>，每行一个\n\n每个文件最多 {max} 条记录。已在库中的论文会被跳过。",
+		importingOne: "⏳ 正在从 {file} 导入 1 条记录，可能需要几分钟……",
+	},
+
+	// For You suggestions
+	forYou: {
+		header: "✨ 为你推荐 - 符合你兴趣的新论文",
+		weeklyHeader: "✨ 你的每周推荐摘要",
+		empty:
+			"✨ 暂时没有推荐。\n\n收藏、搜索并阅读几篇论文后，/foryou 就会了解你的喜好。",
+		refresh: "🔄 刷新",
+		finding: "⏳ 正在为你查找新论文……",
+		weeklyOn:
+			"✅ 已开启每周推荐摘要。它会在你所在时区的每个{day} {time} 送达（参见 /timezone）。",
+		weeklyOff: "🔕 已关闭每周推荐摘要。",
+		weeklyFailed: "更新每周摘要失败，请重试。",
+		usage:
+			"✨ 为你推荐\n\n/foryou - 根据你的书签、浏览和搜索挑选的新论文\n/foryou weekly on - 以每周摘要的形式接收\n/foryou weekly off - 停止每周摘要",
+	},
+
+	// Merged digests
+	digest: {
+		unavailable: "❌ 此摘要已不可用。",
+		unknownMode: "❌ 未知的摘要模式“{mode}”。",
+		modeMerged: "合并",
+		modeSeparate: "分开",
+		usage:
+			"📬 摘要模式：{mode}\n\n/digest merged - 同一时间到期的所有订阅合并为一条消息\n/digest separate - 每个订阅单独一条消息",
+		saveFailed: "保存摘要模式失败，请重试。",
+		mergedOn:
+			"✅ 已开启合并摘要。同一时间到期的订阅将合并为一条消息，按主题分组，匹配多个主题的论文排在最前。",
+		mergedOff: "✅ 已关闭合并摘要。每个订阅将单独发送消息。",
+	},
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: "❌ 未知选项“{option}”。",
+		feedUnavailable: "❌ 此机器人不支持订阅源。",
+		feedFailed: "设置订阅源失败，请重试。",
+		feedReset: "🔄 已生成新的订阅源链接，旧链接已失效。",
+		feedYours: "📡 你的 Atom 订阅源：",
+		feedHint:
+			"将其添加到任意阅读器。订阅的新论文除了出现在 Telegram 中，也会出现在那里。请不要公开此链接；/feed reset 可更换链接。",
+		feedOffFailed: "关闭订阅源失败，请重试。",
+		feedOff: "📡 订阅源已关闭，其链接已失效。",
+		feedUsage:
+			"📡 Atom 订阅源\n\n/feed - 获取你的个人订阅源链接\n/feed reset - 更换链接\n/feed off - 关闭订阅源",
+		emailPrivateOnly: "📧 请在与我的私聊中设置邮件摘要。",
+		emailUnavailable: "❌ 此机器人不支持邮件摘要。",
+		emailInvalid: "❌ 这看起来不像是邮箱地址。",
+		emailWait: "⏳ 验证码刚刚已发送，请等待一分钟后再请求。",
+		emailSaveFailed: "保存邮箱地址失败，请重试。",
+		emailSendFailed: "❌ 无法向该地址发送邮件，请检查后重试。",
+		emailSent:
+			"📧 我已向 {address} 发送验证码。发送 /email verify <验证码> 进行确认。",
+		emailNoCode: "❌ 没有待验证的验证码。发送 /email <地址> 获取验证码。",
+		emailWrongCode: "❌ 验证码错误，请检查邮件后重试。",
+		emailOn: "✅ 已开启邮件摘要。订阅的新论文也会发送到 {address}。",
+		emailOffFailed: "关闭邮件摘要失败，请重试。",
+		emailOff: "📧 已关闭邮件摘要。",
+		emailStatusOn: "已开启（{address}）",
+		emailStatusOff: "已关闭",
+		emailUsage:
+			"📧 邮件摘要：{status}\n\n/email <地址> - 同时通过邮件接收订阅论文\n/email verify <验证码> - 确认你的地址\n/email off - 停止邮件摘要",
+		emailTooManyAttempts:
+			"❌ 错误的验证码次数过多。发送 /email <地址> 获取新的验证码。",
+	},
+
+	// Admin commands
+	admin: {
+		retryUsage: "用法：/admin_retry <任务 ID> 或 /admin_retry all",
+		retriedOne: "🔁 已重新排队 1 个失败任务，将在下一次 worker 运行时执行。",
+		retried: "🔁 已重新排队 {count} 个失败任务，将在下一次 worker 运行时执行。",
+		nothingToRetry: "没有需要重试的失败任务。",
+		broadcastNotFound: "未找到该广播。",
+		broadcastAlreadySent: "此广播已发送或已取消。",
+		broadcastSending: "正在发送……",
+		broadcastCancelled: "广播已取消。",
+		broadcastFinished: "此广播已经结束。",
+		broadcastNoRecipients: "没有符合此受众的用户（{audience}）。",
+		broadcastSaveFailed: "❌ 无法保存广播，请重试。",
+		broadcastBadMarkdown:
+			"❌ Telegram 无法格式化此消息。请检查其 Markdown（*粗体*、_斜体_、`代码`）后重试。",
+		broadcastPreviewOne:
+			"👆 广播 #{id} 预览\n\n受众：{audience}（1 位用户）\n\n确认发送？",
+		broadcastPreview:
+			"👆 广播 #{id} 预览\n\n受众：{audience}（{count} 位用户）\n\n确认发送？",
+		broadcastSend: "📢 发送",
+		broadcastCancel: "✖️ 取消",
+		broadcastUsage:
+			"用法：/broadcast [选项] <消息>\n\n选项决定接收者（默认：所有用户）：\n  --lang <代码> - 使用该语言的用户，例如 --lang de\n  --active <天数> - 最近几天内活跃的用户，例如 --active 30d\n  --category <分类> - 订阅了某分类的用户，例如 --category cs.AI\n\n消息可以使用 Markdown。发送前你会收到预览以供确认。\n\n/broadcast history - 查看最近的广播",
+		broadcastUnknownLanguage: "未知语言：{value}",
+		broadcastInvalidActive: "无效的活跃时间范围：{value}（例如使用 30d）",
+		broadcastInvalidCategory: "无效的分类：{value}（例如使用 cs.AI）",
+		broadcastUnknownOption: "未知选项：{option}",
+		broadcastEmpty: "广播消息为空。",
+		broadcastTooLong: "广播消息过长（{length}/{max} 个字符）。",
+		broadcastStop: "⏹ 取消",
+		broadcastStatus: "📢 广播 #{id}：{status}",
+		broadcastAudience: "受众：{audience}",
+		broadcastProgress: "已发送：{sent}/{total}，失败：{failed}",
+		broadcastStatusDraft: "等待确认",
+		broadcastStatusRunning: "发送中",
+		broadcastStatusDone: "已完成",
+		broadcastStatusCancelled: "已取消",
+		broadcastHistoryEmpty: "还没有发送过广播。",
+		broadcastHistoryTitle: "📢 最近的广播",
+		broadcastHistoryCounts:
+			"{audience}：共 {total}，已发送 {sent}，失败 {failed}",
+		audienceAll: "所有用户",
+		audienceUsers: "用户（{conditions}）",
+		audienceLanguage: "语言为 {language}",
+		audienceActiveDay: "最近一天内活跃",
+		audienceActiveDays: "最近 {days} 天内活跃",
+		audienceCategory: "订阅了 {category}",
+	},
 };
 
 export default zh;
@@ -64,6 +64,8 @@ export interface Translations {
 		noMorePapers: string;
 		useSearchFirst: string;
 		loadingMore: string;
+		invalidQuery: string;
+		queryExample: string;
 	};
 
 	// Papers
@@ -278,6 +280,7 @@ export interface Translations {
 		notFound: string;
 		noResults: string;
 		title: string;
+		primaryHint: string;
 	};
 
 	// Callback messages
@@ -335,6 +338,228 @@ export interface Translations {
 		alreadyBookmarked: string;
 		useBookmarksToView: string;
 	};
+
+	// Collections and tags
+	collections: {
+		notFound: string;
+		empty: string;
+		exportTitle: string;
+		notBookmarked: string;
+		noCollections: string;
+		pick: string;
+		missing: string;
+		noneTagged: string;
+		addButton: string;
+		nameLength: string;
+		exists: string;
+		limit: string;
+		createFailed: string;
+		created: string;
+		deleted: string;
+		deleteFailed: string;
+		added: string;
+		alreadyIn: string;
+		removed: string;
+		notIn: string;
+		invalidTags: string;
+		tagged: string;
+		alreadyTagged: string;
+		untagged: string;
+		notTagged: string;
+		none: string;
+		listTitle: string;
+		countOne: string;
+		countMany: string;
+		noTags: string;
+		tagsTitle: string;
+		usage: string;
+		tagUsage: string;
+	};
+
+	// Notes
+	notes: {
+		editorTitle: string;
+		editorCurrent: string;
+		editorPrompt: string;
+		editorAdded: string;
+		discarded: string;
+		deleted: string;
+		couldNotDelete: string;
+		nothingToSave: string;
+		tooLong: string;
+		saved: string;
+		couldNotSave: string;
+		usage: string;
+		noMatches: string;
+		none: string;
+		matching: string;
+		title: string;
+		saveFirst: string;
+		button: string;
+	};
+
+	// Reading status
+	reading: {
+		toRead: string;
+		reading: string;
+		read: string;
+		abandoned: string;
+		listTitle: string;
+		invalid: string;
+		saveFirst: string;
+		statusFor: string;
+		rated: string;
+		ratingCleared: string;
+		couldNotUpdate: string;
+		all: string;
+		sortByDate: string;
+		sortByRating: string;
+		statusButton: string;
+	};
+
+	// Group libraries
+	groups: {
+		adminsOnlySubscriptions: string;
+		addMe: string;
+		adminsOnlyAdd: string;
+		alreadyAdded: string;
+		paperNotFound: string;
+		addFailed: string;
+		added: string;
+		notInLibrary: string;
+		adminsOnlyRemove: string;
+		adminsOrAdderRemove: string;
+		removed: string;
+		removeFailed: string;
+		adminsOnlySettings: string;
+		settingsFailed: string;
+		policyChanged: string;
+		policyMembers: string;
+		policyAdmins: string;
+		roleAdmin: string;
+		roleMember: string;
+		defaultTitle: string;
+		papers: string;
+		subscriptions: string;
+		members: string;
+		editableBy: string;
+		yourRole: string;
+		usage: string;
+	};
+
+	// Import
+	import: {
+		privateOnly: string;
+		tooLarge: string;
+		noReferences: string;
+		importing: string;
+		finished: string;
+		imported: string;
+		duplicates: string;
+		failed: string;
+		moreFailed: string;
+		truncated: string;
+		usage: string;
+		importingOne: string;
+	};
+
+	// For You suggestions
+	forYou: {
+		header: string;
+		weeklyHeader: string;
+		empty: string;
+		refresh: string;
+		finding: string;
+		weeklyOn: string;
+		weeklyOff: string;
+		weeklyFailed: string;
+		usage: string;
+	};
+
+	// Merged digests
+	digest: {
+		unavailable: string;
+		unknownMode: string;
+		modeMerged: string;
+		modeSeparate: string;
+		usage: string;
+		saveFailed: string;
+		mergedOn: string;
+		mergedOff: string;
+	};
+
+	// Email and feed delivery
+	delivery: {
+		unknownOption: string;
+		feedUnavailable: string;
+		feedFailed: string;
+		feedReset: string;
+		feedYours: string;
+		feedHint: string;
+		feedOffFailed: string;
+		feedOff: string;
+		feedUsage: string;
+		emailPrivateOnly: string;
+		emailUnavailable: string;
+		emailInvalid: string;
+		emailWait: string;
+		emailSaveFailed: string;
+		emailSendFailed: string;
+		emailSent: string;
+		emailNoCode: string;
+		emailWrongCode: string;
+		emailOn: string;
+		emailOffFailed: string;
+		emailOff: string;
+		emailStatusOn: string;
+		emailStatusOff: string;
+		emailUsage: string;
+		emailTooManyAttempts: string;
+	};
+
+	// Admin commands
+	admin: {
+		retryUsage: string;
+		retriedOne: string;
+		retried: string;
+		nothingToRetry: string;
+		broadcastNotFound: string;
+		broadcastAlreadySent: string;
+		broadcastSending: string;
+		broadcastCancelled: string;
+		broadcastFinished: string;
+		broadcastNoRecipients: string;
+		broadcastSaveFailed: string;
+		broadcastBadMarkdown: string;
+		broadcastPreviewOne: string;
+		broadcastPreview: string;
+		broadcastSend: string;
+		broadcastCancel: string;
+		broadcastUsage: string;
+		broadcastUnknownLanguage: string;
+		broadcastInvalidActive: string;
+		broadcastInvalidCategory: string;
+		broadcastUnknownOption: string;
+		broadcastEmpty: string;
+		broadcastTooLong: string;
+		broadcastStop: string;
+		broadcastStatus: string;
+		broadcastAudience: string;
+		broadcastProgress: string;
+		broadcastStatusDraft: string;
+		broadcastStatusRunning: string;
+		broadcastStatusDone: string;
+		broadcastStatusCancelled: string;
+		broadcastHistoryEmpty: string;
+		broadcastHistoryTitle: string;
+		broadcastHistoryCounts: string;
+		audienceAll: string;
+		audienceUsers: string;
+		audienceLanguage: string;
+		audienceActiveDay: string;
+		audienceActiveDays: string;
+		audienceCategory: string;
+	};
 }
 
 /**
@@ -5,8 +5,28 @@
  * Admin users are identified by their Telegram user IDs.
  */
 
-import type { Bot } from "gramio";
+import { randomBytes } from "node:crypto";
+import { hostname } from "node:os";
+import { type Bot, InlineKeyboard } from "gramio";
+import { outbound } from "../bot/outbound.js";
 import { config } from "../config.js";
+import {
+	claimStaleBroadcast,
+	findUserByChatId,
+	finishBroadcast,
+	getAudienceRecipients,
+	getBroadcastAudience,
+	startBroadcast,
+	updateBroadcastProgress,
+} from "../db/repositories/index.js";
+import type {
+	Broadcast,
+	BroadcastStatus,
+	Job,
+	JobState,
+} from "../db/schema.js";
+import { type LanguageCode, t } from "../i18n/index.js";
+import { describeAudience } from "../utils/broadcast.js";
 import { logger } from "../utils/logger.js";
 
 /**
@@ -173,44 +193,336 @@ export function getRecentAdminActions(limit = 10): AdminActionLog[] {
 	return adminActionLog.slice(0, limit);
 }
 
+/**
+ * Messages queued at once while broadcasting; progress is reported
+ * after each batch
+ */
+const BROADCAST_BATCH_SIZE = 25;
+
+/**
+ * Minimum time between edits of a broadcast's status message
+ */
+const BROADCAST_STATUS_INTERVAL_MS = 3000;
+
+/**
+ * How long a process holds a broadcast it is sending, in seconds
+ *
+ * Renewed after every batch; a broadcast still held after this is assumed
+ * to belong to a process that stopped, and the worker carries it on.
+ */
+const BROADCAST_LEASE_SECONDS = 10 * 60;
+
+/**
+ * Identifies this process as the holder of a broadcast's lease
+ */
+const BROADCAST_OWNER = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+/**
+ * Broadcast progress so far
+ */
+export interface BroadcastProgress {
+	sent: number;
+	failed: number;
+}
+
+/**
+ * Format a broadcast as users receive it (Markdown)
+ *
+ * @param message - The admin's message
+ */
+export function formatAnnouncement(message: string): string {
+	return `📢 *Announcement*\n\n${message}`;
+}
+
 /**
  * Broadcast message to all users
- * Note: Requires user repository to get all users
+ *
+ * Messages are queued at low priority, so subscription updates go first.
  *
  * @param bot - Bot instance
  * @param message - Message to broadcast
  * @param userChatIds - Array of user chat IDs
- * @returns Number of successfully sent messages
+ * @param onProgress - Called after each batch; return false to stop
+ * @returns Number of sent and failed messages, and whether it was stopped
  */
 export async function broadcastMessage(
 	bot: Bot,
 	message: string,
 	userChatIds: number[],
-): Promise<{ success: number; failed: number }> {
+	onProgress?: (progress: BroadcastProgress) => Promise<boolean> | boolean,
+): Promise<{ success: number; failed: number; cancelled: boolean }> {
 	let success = 0;
 	let failed = 0;
 
-	for (const chatId of userChatIds) {
+	for (let i = 0; i < userChatIds.length; i += BROADCAST_BATCH_SIZE) {
+		const batch = userChatIds.slice(i, i + BROADCAST_BATCH_SIZE);
+		const results = await Promise.allSettled(
+			batch.map((chatId) =>
+				outbound.send(
+					chatId,
+					() =>
+						bot.api.sendMessage({
+							chat_id: chatId,
+							text: formatAnnouncement(message),
+							parse_mode: "Markdown",
+						}),
+					"low",
+				),
+			),
+		);
+
+		for (const [j, result] of results.entries()) {
+			if (result.status === "fulfilled") {
+				success++;
+			} else {
+				failed++;
+				logger.warn("Failed to send broadcast message", {
+					chatId: batch[j],
+					error:
+						result.reason instanceof Error
+							? result.reason.message
+							: String(result.reason),
+				});
+			}
+		}
+
+		const more = i + BROADCAST_BATCH_SIZE < userChatIds.length;
+		if (more && onProgress && !(await onProgress({ sent: success, failed }))) {
+			return { success, failed, cancelled: true };
+		}
+	}
+
+	return { success, failed, cancelled: false };
+}
+
+const BROADCAST_STATUS_KEYS: Record<BroadcastStatus, string> = {
+	draft: "admin.broadcastStatusDraft",
+	running: "admin.broadcastStatusRunning",
+	done: "admin.broadcastStatusDone",
+	cancelled: "admin.broadcastStatusCancelled",
+};
+
+/**
+ * Format a broadcast's status message
+ *
+ * Sent as plain text, since the audience may contain Markdown characters.
+ */
+export function formatBroadcastStatus(
+	broadcast: Broadcast,
+	lang: LanguageCode | string = "en",
+): string {
+	const audience = getBroadcastAudience(broadcast);
+	return [
+		t(lang, "admin.broadcastStatus", {
+			id: broadcast.id,
+			status: t(lang, BROADCAST_STATUS_KEYS[broadcast.status]),
+		}),
+		t(lang, "admin.broadcastAudience", {
+			audience: describeAudience(audience, lang),
+		}),
+		t(lang, "admin.broadcastProgress", {
+			sent: broadcast.sent,
+			total: broadcast.total,
+			failed: broadcast.failed,
+		}),
+	].join("\n");
+}
+
+/**
+ * Format recent broadcasts for /broadcast history (plain text)
+ */
+export function formatBroadcastHistory(
+	broadcasts: Broadcast[],
+	lang: LanguageCode | string = "en",
+): string {
+	if (broadcasts.length === 0) {
+		return t(lang, "admin.broadcastHistoryEmpty");
+	}
+
+	let message = `${t(lang, "admin.broadcastHistoryTitle")}\n`;
+	message += "─────────────────\n";
+	for (const broadcast of broadcasts) {
+		const preview =
+			broadcast.message.length > 80
+				? `${broadcast.message.slice(0, 77)}...`
+				: broadcast.message;
+		const counts = t(lang, "admin.broadcastHistoryCounts", {
+			audience: describeAudience(getBroadcastAudience(broadcast), lang),
+			sent: broadcast.sent,
+			failed: broadcast.failed,
+			total: broadcast.total,
+		});
+		message += `\n#${broadcast.id} ${t(lang, BROADCAST_STATUS_KEYS[broadcast.status])} (${broadcast.startedAt})\n`;
+		message += `  ${counts}\n`;
+		message += `  ${preview.replace(/\s+/g, " ")}\n`;
+	}
+	return message;
+}
+
+/**
+ * Start sending a confirmed draft from this process
+ *
+ * @param id - Draft to send
+ * @param total - Number of recipients
+ * @param statusMessageId - The admin's message that shows progress
+ * @returns The running broadcast, or null if it was not a draft
+ */
+export function confirmBroadcast(
+	id: number,
+	total: number,
+	statusMessageId: number,
+): Promise<Broadcast | null> {
+	return startBroadcast(id, {
+		total,
+		statusMessageId,
+		lockedBy: BROADCAST_OWNER,
+		leaseSeconds: BROADCAST_LEASE_SECONDS,
+	});
+}
+
+/**
+ * Send a broadcast this process holds, editing its status message as it goes
+ *
+ * Recipients are read a batch at a time after the broadcast's cursor and
+ * progress is saved after each batch, so if this process stops, the
+ * worker carries on where it left off (see resumeBroadcasts). The status
+ * message has a cancel button while the broadcast is sent; cancelling
+ * stops it after the current batch.
+ *
+ * @param bot - Bot instance
+ * @param broadcast - Broadcast from confirmBroadcast or resumeBroadcasts
+ */
+export async function runBroadcast(
+	bot: Bot,
+	broadcast: Broadcast,
+): Promise<void> {
+	const { adminChatId: chatId, statusMessageId: messageId } = broadcast;
+	const admin = await findUserByChatId(chatId);
+	const lang = admin?.language ?? "en";
+	const showStatus = async (current: Broadcast) => {
+		if (!messageId) return;
 		try {
-			await bot.api.sendMessage({
-				chat_id: chatId,
-				text: `📢 *Announcement*\n\n${message}`,
-				parse_mode: "Markdown",
-			});
-			success++;
-
-			// Small delay to avoid rate limits
-			await new Promise((resolve) => setTimeout(resolve, 50));
-		} catch (error) {
-			failed++;
-			logger.warn("Failed to send broadcast message", {
+			await outbound.send(
 				chatId,
-				error: error instanceof Error ? error.message : String(error),
-			});
+				() =>
+					bot.api.editMessageText({
+						chat_id: chatId,
+						message_id: messageId,
+						text: formatBroadcastStatus(current, lang),
+						reply_markup:
+							current.status === "running"
+								? new InlineKeyboard().text(
+										t(lang, "admin.broadcastStop"),
+										`broadcast:cancel:${current.id}`,
+									)
+								: undefined,
+					}),
+				"high",
+			);
+		} catch {
+			// Ignore edit errors (e.g. the status did not change)
+		}
+	};
+
+	const audience = getBroadcastAudience(broadcast);
+	let current = broadcast;
+	let status: BroadcastStatus | null = "running";
+	let lastShown = 0;
+
+	while (status === "running") {
+		if (Date.now() - lastShown >= BROADCAST_STATUS_INTERVAL_MS) {
+			lastShown = Date.now();
+			await showStatus(current);
+		}
+
+		const recipients = await getAudienceRecipients(
+			audience,
+			current.cursor,
+			BROADCAST_BATCH_SIZE,
+		);
+		if (recipients === null) {
+			status = null;
+			break;
 		}
+		if (recipients.length === 0) break;
+
+		const result = await broadcastMessage(
+			bot,
+			broadcast.message,
+			recipients.map((recipient) => recipient.chatId),
+		);
+		current = {
+			...current,
+			sent: current.sent + result.success,
+			failed: current.failed + result.failed,
+			cursor: recipients.at(-1)?.userId ?? current.cursor,
+		};
+		status = await updateBroadcastProgress(
+			broadcast.id,
+			BROADCAST_OWNER,
+			{ sent: current.sent, failed: current.failed, cursor: current.cursor },
+			BROADCAST_LEASE_SECONDS,
+		);
+	}
+
+	const progress = { sent: current.sent, failed: current.failed };
+	if (status === null) {
+		// Another process took the broadcast over, or the database failed;
+		// in that case the lease runs out and the worker carries on
+		logger.warn("Stopped sending a broadcast", {
+			broadcastId: broadcast.id,
+			...progress,
+		});
+		return;
 	}
 
-	return { success, failed };
+	const finished = await finishBroadcast(broadcast.id, progress);
+	await showStatus(
+		finished ?? {
+			...current,
+			status: status === "cancelled" ? "cancelled" : "done",
+		},
+	);
+
+	logger.info("Broadcast finished", {
+		broadcastId: broadcast.id,
+		...progress,
+		cancelled: status === "cancelled",
+	});
+}
+
+/**
+ * Carry on broadcasts whose process stopped while sending them
+ *
+ * Called by the subscription worker. A broadcast is taken over once its
+ * lease has run out and sent on from its cursor.
+ *
+ * @param bot - Bot instance
+ * @returns Number of broadcasts carried on
+ */
+export async function resumeBroadcasts(bot: Bot): Promise<number> {
+	let resumed = 0;
+
+	// One at a time, so each lease only has to cover one broadcast
+	let broadcast = await claimStaleBroadcast(
+		BROADCAST_OWNER,
+		BROADCAST_LEASE_SECONDS,
+	);
+	while (broadcast) {
+		logger.info("Resuming broadcast", {
+			broadcastId: broadcast.id,
+			sent: broadcast.sent,
+			failed: broadcast.failed,
+		});
+		await runBroadcast(bot, broadcast);
+		resumed++;
+		broadcast = await claimStaleBroadcast(
+			BROADCAST_OWNER,
+			BROADCAST_LEASE_SECONDS,
+		);
+	}
+
+	return resumed;
 }
 
 /**
@@ -267,6 +579,38 @@ export function formatAdminStats(stats: Partial<AdminStats>): string {
 	return message;
 }
 
+/**
+ * Format the job queue status for /admin_jobs
+ *
+ * Sent as plain text, since job errors may contain Markdown characters.
+ *
+ * @param counts - Number of jobs in each state
+ * @param deadJobs - Most recent dead jobs
+ * @returns Formatted status message
+ */
+export function formatJobStatus(
+	counts: Record<JobState, number>,
+	deadJobs: Job[],
+): string {
+	let message = "🗂 Job Queue\n";
+	message += "─────────────────\n\n";
+	message += `  Pending: ${counts.pending}\n`;
+	message += `  Running: ${counts.running}\n`;
+	message += `  Done: ${counts.done}\n`;
+	message += `  Dead: ${counts.dead}\n`;
+
+	if (deadJobs.length > 0) {
+		message += "\n💀 Dead jobs\n";
+		for (const job of deadJobs) {
+			const error = (job.lastError ?? "Unknown error").slice(0, 200);
+			message += `\n#${job.id} ${job.key} (${job.attempts} attempts, ${job.updatedAt})\n  ${error}\n`;
+		}
+		message += "\nRetry with /admin_retry <id> or /admin_retry all";
+	}
+
+	return message;
+}
+
 /**
  * Admin commands help text
  */
@@ -274,9 +618,12 @@ export const ADMIN_HELP = `
 *🔐 Admin Commands*
 
 /admin\\_stats - View bot statistics
-/admin\\_broadcast <message> - Send message to all users
+/broadcast [options] <message> - Preview and send an announcement
+/broadcast history - View recent broadcasts
 /admin\\_user <chat\\_id> - View user details
 /admin\\_log - View recent admin actions
+/admin\\_jobs - View the job queue and dead jobs
+/admin\\_retry <id|all> - Retry dead jobs
 
 _Admin commands are only available to authorized users._
 `;
@@ -4,15 +4,17 @@
  * Re-exports all middleware utilities for cleaner imports.
  *
  * @example
- * import { checkRateLimit, getRateLimitInfo } from "./middleware/index.js";
+ * import { checkRateLimit, COMMAND_COSTS } from "./middleware/index.js";
  */
 
+export type { RateLimitResult } from "./rateLimit.js";
 export {
+	COMMAND_COSTS,
 	checkRateLimit,
-	clearAllRateLimits,
-	getRateLimitInfo,
+	DEFAULT_COST,
 	getTrackedUsersCount,
 	resetRateLimit,
+	setRateLimitStore,
 	startCleanupInterval,
 	stopCleanupInterval,
 	withRateLimit,
@@ -1,109 +1,139 @@
 /**
  * User Rate Limiting Middleware
  *
- * Limits the number of requests a user can make within a time window
- * to prevent abuse and ensure fair usage.
+ * Limits how much each user can ask of the bot to prevent abuse and
+ * ensure fair usage. Every user has a token bucket (see
+ * storage/rateLimitStore.ts): commands take tokens according to how
+ * expensive they are, and the bucket refills over the configured window.
+ * Admins get a larger bucket (RATE_LIMIT_ADMIN).
+ *
+ * With REDIS_URL set, buckets live in Redis and are shared by every
+ * instance, so serverless cold starts do not reset them. If Redis cannot
+ * be reached, the in-memory store is used until it can.
  */
 
+import { config, isRedisConfigured } from "../config.js";
+import {
+	MemoryRateLimitStore,
+	type RateLimitResult,
+	type RateLimitStore,
+	RedisRateLimitStore,
+	type TokenBucket,
+} from "../storage/rateLimitStore.js";
+import { getRedisClient } from "../storage/redisClient.js";
 import { logger } from "../utils/logger.js";
+import { isAdmin } from "./admin.js";
 
-interface RateLimitEntry {
-	count: number;
-	resetAt: number;
-}
-
-interface RateLimitConfig {
-	/** Maximum requests allowed per window (default: 30) */
-	maxRequests: number;
-	/** Time window in milliseconds (default: 60000 = 1 minute) */
-	windowMs: number;
-}
+export type { RateLimitResult } from "../storage/rateLimitStore.js";
 
-const DEFAULT_CONFIG: RateLimitConfig = {
-	maxRequests: 30,
-	windowMs: 60000, // 1 minute
+/**
+ * Tokens a request costs, by command; anything else costs DEFAULT_COST
+ *
+ * With the default limit of 60 tokens per minute, a user can send 60 help
+ * requests, 30 ordinary commands, 20 searches, 10 exports or 5 file
+ * imports a minute. Callbacks cost the same as their command.
+ */
+export const COMMAND_COSTS: Record<string, number> = {
+	// Answered from memory or a single lookup
+	start: 1,
+	help: 1,
+	language: 1,
+	admin_stats: 1,
+	// Query arXiv
+	search: 3,
+	more: 3,
+	author: 3,
+	// Rank papers against the paper index
+	similar: 4,
+	// Build a file of the user's library
+	export: 6,
+	// Probe arXiv, rank against the user's interests, send email or parse uploaded files
+	follow: 12,
+	foryou: 12,
+	email: 12,
+	file_import: 12,
 };
 
-/** In-memory store for rate limits */
-const userRateLimits = new Map<number, RateLimitEntry>();
+/**
+ * Tokens taken by commands without an entry in COMMAND_COSTS
+ */
+export const DEFAULT_COST = 2;
+
+const memoryStore = new MemoryRateLimitStore();
+
+let store: RateLimitStore = isRedisConfigured()
+	? new RedisRateLimitStore(getRedisClient(config.REDIS_URL as string))
+	: memoryStore;
+
+/** Whether the store failed on the last request (logged once per outage) */
+let storeFailing = false;
 
 /** Cleanup interval ID */
 let cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
 /**
- * Check if a user is within their rate limit
+ * Use another store for rate limits (e.g. in tests)
+ */
+export function setRateLimitStore(newStore: RateLimitStore): void {
+	store = newStore;
+}
+
+/**
+ * Get the token bucket of a user's tier
+ */
+function getBucket(chatId: number): TokenBucket {
+	const tier = isAdmin(chatId) ? config.RATE_LIMIT_ADMIN : config.RATE_LIMIT;
+	return { capacity: tier.requests, refillMs: tier.windowSeconds * 1000 };
+}
+
+/**
+ * Check if a user is within their rate limit, taking the command's cost
  *
  * @param chatId - The user's chat ID
- * @param config - Optional rate limit configuration
- * @returns true if the request is allowed, false if rate limited
+ * @param command - What the user asked for; sets the cost (see COMMAND_COSTS)
+ * @returns Whether the request is allowed and, if not, when it would be
  *
  * @example
- * if (!checkRateLimit(context.chatId)) {
- *   return context.send("Too many requests. Please wait a moment.");
+ * const limit = await checkRateLimit(context.chatId, "search");
+ * if (!limit.allowed) {
+ *   return context.send(formatRateLimitMessage(limit));
  * }
  */
-export function checkRateLimit(
+export async function checkRateLimit(
 	chatId: number,
-	config: Partial<RateLimitConfig> = {},
-): boolean {
-	const { maxRequests, windowMs } = { ...DEFAULT_CONFIG, ...config };
-	const now = Date.now();
-	const userLimit = userRateLimits.get(chatId);
-
-	// First request or window expired - reset
-	if (!userLimit || now > userLimit.resetAt) {
-		userRateLimits.set(chatId, {
-			count: 1,
-			resetAt: now + windowMs,
-		});
-		return true;
+	command?: string,
+): Promise<RateLimitResult> {
+	const cost = (command && COMMAND_COSTS[command]) || DEFAULT_COST;
+	const bucket = getBucket(chatId);
+	const key = String(chatId);
+
+	let result: RateLimitResult;
+	try {
+		result = await store.consume(key, cost, bucket);
+		if (storeFailing) {
+			storeFailing = false;
+			logger.info("Rate limit store available again");
+		}
+	} catch (error) {
+		if (!storeFailing) {
+			storeFailing = true;
+			logger.warn("Rate limit store unavailable, using memory", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+		result = await memoryStore.consume(key, cost, bucket);
 	}
 
-	// Check if limit exceeded
-	if (userLimit.count >= maxRequests) {
+	if (!result.allowed) {
 		logger.warn("User rate limited", {
 			chatId,
-			count: userLimit.count,
-			maxRequests,
-			resetIn: userLimit.resetAt - now,
+			command,
+			cost,
+			remaining: result.remaining,
+			retryAfterMs: result.retryAfterMs,
 		});
-		return false;
-	}
-
-	// Increment count
-	userLimit.count++;
-	return true;
-}
-
-/**
- * Get remaining requests for a user
- *
- * @param chatId - The user's chat ID
- * @param config - Optional rate limit configuration
- * @returns Object with remaining requests and reset time
- */
-export function getRateLimitInfo(
-	chatId: number,
-	config: Partial<RateLimitConfig> = {},
-): { remaining: number; resetAt: number; limited: boolean } {
-	const { maxRequests, windowMs } = { ...DEFAULT_CONFIG, ...config };
-	const now = Date.now();
-	const userLimit = userRateLimits.get(chatId);
-
-	if (!userLimit || now > userLimit.resetAt) {
-		return {
-			remaining: maxRequests,
-			resetAt: now + windowMs,
-			limited: false,
-		};
 	}
-
-	const remaining = Math.max(0, maxRequests - userLimit.count);
-	return {
-		remaining,
-		resetAt: userLimit.resetAt,
-		limited: remaining === 0,
-	};
+	return result;
 }
 
 /**
@@ -111,52 +141,30 @@ export function getRateLimitInfo(
  *
  * @param chatId - The user's chat ID
  */
-export function resetRateLimit(chatId: number): void {
-	userRateLimits.delete(chatId);
+export async function resetRateLimit(chatId: number): Promise<void> {
+	await memoryStore.reset(String(chatId));
+	if (store !== memoryStore) {
+		try {
+			await store.reset(String(chatId));
+		} catch (error) {
+			logger.warn("Failed to reset rate limit", {
+				chatId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
 	logger.debug("Rate limit reset", { chatId });
 }
 
 /**
- * Clear all rate limits (useful for testing or admin reset)
- */
-export function clearAllRateLimits(): void {
-	const count = userRateLimits.size;
-	userRateLimits.clear();
-	logger.info("All rate limits cleared", { count });
-}
-
-/**
- * Get the number of currently tracked users
+ * Get the number of users tracked in memory
  */
 export function getTrackedUsersCount(): number {
-	return userRateLimits.size;
-}
-
-/**
- * Clean up expired rate limit entries
- * Called periodically to prevent memory leaks
- */
-function cleanupExpiredEntries(): void {
-	const now = Date.now();
-	let cleaned = 0;
-
-	for (const [chatId, entry] of userRateLimits.entries()) {
-		if (now > entry.resetAt) {
-			userRateLimits.delete(chatId);
-			cleaned++;
-		}
-	}
-
-	if (cleaned > 0) {
-		logger.debug("Rate limit cleanup", {
-			cleaned,
-			remaining: userRateLimits.size,
-		});
-	}
+	return memoryStore.size;
 }
 
 /**
- * Start periodic cleanup of expired entries
+ * Start periodic cleanup of in-memory buckets that have refilled
  *
  * @param intervalMs - Cleanup interval in milliseconds (default: 60000 = 1 minute)
  */
@@ -165,7 +173,15 @@ export function startCleanupInterval(intervalMs = 60000): void {
 		return; // Already running
 	}
 
-	cleanupInterval = setInterval(cleanupExpiredEntries, intervalMs);
+	cleanupInterval = setInterval(() => {
+		const cleaned = memoryStore.prune();
+		if (cleaned > 0) {
+			logger.debug("Rate limit cleanup", {
+				cleaned,
+				remaining: memoryStore.size,
+			});
+		}
+	}, intervalMs);
 	logger.debug("Rate limit cleanup interval started", { intervalMs });
 }
 
@@ -183,25 +199,27 @@ export function stopCleanupInterval(): void {
 /**
  * Rate limit decorator for async functions
  *
+ * @param fn - The async function to wrap
  * @param chatIdExtractor - Function to extract chat ID from arguments
- * @param config - Rate limit configuration
- * @returns Decorator function
+ * @param command - Command the calls count as (see COMMAND_COSTS)
+ * @returns A function that resolves to null when rate limited
  *
  * @example
  * const rateLimitedSearch = withRateLimit(
- *   (chatId: number) => searchPapers(chatId, query),
- *   (chatId) => chatId
+ *   (chatId: number, query: string) => searchPapers(query),
+ *   (chatId) => chatId,
+ *   "search",
  * );
  */
 export function withRateLimit<TArgs extends unknown[], TResult>(
 	fn: (...args: TArgs) => Promise<TResult>,
 	chatIdExtractor: (...args: TArgs) => number,
-	config: Partial<RateLimitConfig> = {},
+	command?: string,
 ): (...args: TArgs) => Promise<TResult | null> {
 	return async (...args: TArgs): Promise<TResult | null> => {
 		const chatId = chatIdExtractor(...args);
 
-		if (!checkRateLimit(chatId, config)) {
+		if (!(await checkRateLimit(chatId, command)).allowed) {
 			return null;
 		}
 
@@ -0,0 +1,42 @@
+/**
+ * arXiv paper source
+ *
+ * Adapts the existing arXiv client to the PaperSource interface.
+ */
+
+import { fetchPaperById, fetchPapersAdvanced, type Paper } from "../arxiv.js";
+import { extractArxivId } from "../utils/export.js";
+import type { PaperSource, SourceSearchOptions } from "./types.js";
+
+/**
+ * Tag an arXiv paper with its source and ID
+ */
+function tagPaper(paper: Paper): Paper {
+	return {
+		...paper,
+		source: "arxiv",
+		externalId: paper.externalId ?? extractArxivId(paper.link) ?? undefined,
+	};
+}
+
+export const arxivSource: PaperSource = {
+	id: "arxiv",
+	name: "arXiv",
+
+	async search(query: string, options: SourceSearchOptions = {}) {
+		const papers = await fetchPapersAdvanced({
+			topic: query,
+			start: options.start,
+			max: options.max,
+			timeoutMs: options.timeoutMs,
+			submittedAfter: options.submittedAfter,
+			submittedBefore: options.submittedBefore,
+		});
+		return papers.map(tagPaper);
+	},
+
+	async fetchById(externalId: string) {
+		const paper = await fetchPaperById(externalId);
+		return paper ? tagPaper(paper) : null;
+	},
+};
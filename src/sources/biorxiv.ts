@@ -0,0 +1,178 @@
+/**
+ * bioRxiv paper source
+ *
+ * Uses the bioRxiv details API. Papers are identified by DOI.
+ *
+ * The API has no keyword search, so search() scans the most recent
+ * preprints and filters them locally by query terms.
+ * @see https://api.biorxiv.org/
+ */
+
+import type { Paper } from "../arxiv.js";
+import { logger } from "../utils/logger.js";
+import { RateLimiter } from "../utils/rateLimiter.js";
+import { sourceRequest, stripMarkup } from "./http.js";
+import type { PaperSource, SourceSearchOptions } from "./types.js";
+
+const BASE_URL = "https://api.biorxiv.org/details/biorxiv";
+
+/** Number of days of recent preprints to scan when searching */
+const SEARCH_WINDOW_DAYS = 30;
+/** Preprints returned per page by the details API */
+const PAGE_SIZE = 100;
+/** Maximum pages to scan when searching */
+const MAX_SEARCH_PAGES = 3;
+
+const rateLimiter = new RateLimiter(1, "bioRxiv");
+
+/**
+ * Raw preprint record from the details API
+ */
+export interface BiorxivRecord {
+	doi: string;
+	title: string;
+	authors?: string;
+	date?: string;
+	version?: string;
+	category?: string;
+	abstract?: string;
+}
+
+/**
+ * Raw details API response
+ */
+export interface BiorxivResponse {
+	messages?: { status?: string; count?: number; total?: number | string }[];
+	collection?: BiorxivRecord[];
+}
+
+/**
+ * Convert a bioRxiv record into a Paper
+ *
+ * @param record - Raw preprint record
+ * @returns Parsed paper
+ */
+export function parseBiorxivRecord(record: BiorxivRecord): Paper {
+	const authors = record.authors
+		?.split(";")
+		.map((a) => a.trim())
+		.filter((a) => a.length > 0);
+
+	return {
+		title: stripMarkup(record.title),
+		summary: record.abstract ? stripMarkup(record.abstract) : "",
+		link: `https://www.biorxiv.org/content/${record.doi}v${record.version ?? "1"}`,
+		published: record.date ?? "",
+		authors: authors && authors.length > 0 ? authors : undefined,
+		categories: record.category ? [record.category] : undefined,
+		source: "biorxiv",
+		externalId: record.doi,
+	};
+}
+
+/**
+ * Parse a details API response, keeping only the latest version of each DOI
+ *
+ * @param response - Raw details API response
+ * @returns Parsed papers
+ */
+export function parseBiorxivResponse(response: BiorxivResponse): Paper[] {
+	const latest = new Map<string, BiorxivRecord>();
+
+	for (const record of response.collection ?? []) {
+		if (!record.doi || !record.title) continue;
+		const existing = latest.get(record.doi);
+		if (!existing || Number(record.version) > Number(existing.version)) {
+			latest.set(record.doi, record);
+		}
+	}
+
+	return [...latest.values()].map(parseBiorxivRecord);
+}
+
+/**
+ * Filter papers whose title or abstract contain every query term
+ *
+ * @param papers - Papers to filter
+ * @param query - Search query
+ * @returns Matching papers
+ */
+export function filterBiorxivPapers(papers: Paper[], query: string): Paper[] {
+	const terms = query
+		.toLowerCase()
+		.split(/\s+/)
+		.filter((term) => term.length > 0);
+
+	return papers.filter((paper) => {
+		const haystack = `${paper.title} ${paper.summary}`.toLowerCase();
+		return terms.every((term) => haystack.includes(term));
+	});
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+function toDateString(date: Date): string {
+	return date.toISOString().split("T")[0] ?? "";
+}
+
+export const biorxivSource: PaperSource = {
+	id: "biorxiv",
+	name: "bioRxiv",
+
+	async search(query: string, options: SourceSearchOptions = {}) {
+		const start = options.start ?? 0;
+		const max = options.max ?? 5;
+		const to = new Date();
+		const from = new Date(to.getTime() - SEARCH_WINDOW_DAYS * 86400000);
+		const interval = `${toDateString(from)}/${toDateString(to)}`;
+
+		const matches: Paper[] = [];
+
+		try {
+			for (let page = 0; page < MAX_SEARCH_PAGES; page++) {
+				const response = (await sourceRequest(
+					`${BASE_URL}/${interval}/${page * PAGE_SIZE}/json`,
+					{ source: "biorxiv", rateLimiter, timeoutMs: options.timeoutMs },
+				)) as BiorxivResponse;
+
+				const papers = parseBiorxivResponse(response);
+				for (const paper of filterBiorxivPapers(papers, query)) {
+					if (!matches.some((m) => m.externalId === paper.externalId)) {
+						matches.push(paper);
+					}
+				}
+
+				// A short page means there are no further results
+				const pageSize = response.collection?.length ?? 0;
+				if (matches.length >= start + max || pageSize < PAGE_SIZE) break;
+			}
+		} catch (error) {
+			logger.error("Failed to search bioRxiv", {
+				query,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+
+		return matches.slice(start, start + max);
+	},
+
+	async fetchById(externalId: string) {
+		try {
+			const response = (await sourceRequest(
+				`${BASE_URL}/${externalId}/na/json`,
+				{
+					source: "biorxiv",
+					rateLimiter,
+				},
+			)) as BiorxivResponse;
+			return parseBiorxivResponse(response)[0] ?? null;
+		} catch (error) {
+			logger.error("Failed to fetch preprint from bioRxiv", {
+				externalId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	},
+};
@@ -0,0 +1,146 @@
+/**
+ * Crossref paper source
+ *
+ * Uses the Crossref REST API. Papers are identified by DOI.
+ * @see https://api.crossref.org/swagger-ui/index.html
+ */
+
+import type { Paper } from "../arxiv.js";
+import { logger } from "../utils/logger.js";
+import { RateLimiter } from "../utils/rateLimiter.js";
+import { sourceRequest, stripMarkup } from "./http.js";
+import type { PaperSource, SourceSearchOptions } from "./types.js";
+
+const BASE_URL = "https://api.crossref.org";
+
+const rateLimiter = new RateLimiter(2, "Crossref");
+
+/**
+ * Raw work object from the Crossref API
+ */
+export interface CrossrefWork {
+	DOI: string;
+	title?: string[];
+	abstract?: string;
+	author?: { given?: string; family?: string; name?: string }[];
+	issued?: { "date-parts"?: (number | null)[][] };
+	published?: { "date-parts"?: (number | null)[][] };
+	URL?: string;
+	subject?: string[];
+}
+
+/**
+ * Raw search response from the Crossref API
+ */
+export interface CrossrefSearchResponse {
+	status?: string;
+	message?: { items?: CrossrefWork[] };
+}
+
+/**
+ * Raw single-work response from the Crossref API
+ */
+export interface CrossrefWorkResponse {
+	status?: string;
+	message?: CrossrefWork;
+}
+
+/**
+ * Format Crossref date parts as YYYY[-MM[-DD]]
+ */
+function formatDateParts(
+	date: { "date-parts"?: (number | null)[][] } | undefined,
+): string {
+	const parts = date?.["date-parts"]?.[0]?.filter(
+		(p): p is number => typeof p === "number",
+	);
+	if (!parts || parts.length === 0) return "";
+
+	return parts
+		.map((p, i) => (i === 0 ? String(p) : String(p).padStart(2, "0")))
+		.join("-");
+}
+
+/**
+ * Convert a Crossref work into a Paper
+ *
+ * @param work - Raw work object
+ * @returns Parsed paper or null if it has no title
+ */
+export function parseCrossrefWork(work: CrossrefWork): Paper | null {
+	const title = work.title?.[0];
+	if (!work.DOI || !title) {
+		return null;
+	}
+
+	const authors = work.author
+		?.map((a) => a.name ?? [a.given, a.family].filter(Boolean).join(" "))
+		.filter((name) => name.length > 0);
+
+	return {
+		title: stripMarkup(title),
+		summary: work.abstract ? stripMarkup(work.abstract) : "",
+		link: work.URL ?? `https://doi.org/${work.DOI}`,
+		published: formatDateParts(work.issued) || formatDateParts(work.published),
+		authors: authors && authors.length > 0 ? authors : undefined,
+		categories: work.subject,
+		source: "crossref",
+		externalId: work.DOI.toLowerCase(),
+	};
+}
+
+/**
+ * Parse a Crossref search response
+ *
+ * @param response - Raw search response
+ * @returns Parsed papers
+ */
+export function parseCrossrefSearch(response: CrossrefSearchResponse): Paper[] {
+	return (response.message?.items ?? [])
+		.map(parseCrossrefWork)
+		.filter((p): p is Paper => p !== null);
+}
+
+export const crossrefSource: PaperSource = {
+	id: "crossref",
+	name: "Crossref",
+
+	async search(query: string, options: SourceSearchOptions = {}) {
+		const params = new URLSearchParams({
+			query,
+			offset: String(options.start ?? 0),
+			rows: String(Math.min(options.max ?? 5, 100)),
+			sort: "relevance",
+		});
+
+		try {
+			const response = (await sourceRequest(
+				`${BASE_URL}/works?${params.toString()}`,
+				{ source: "crossref", rateLimiter, timeoutMs: options.timeoutMs },
+			)) as CrossrefSearchResponse;
+			return parseCrossrefSearch(response);
+		} catch (error) {
+			logger.error("Failed to search Crossref", {
+				query,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return [];
+		}
+	},
+
+	async fetchById(externalId: string) {
+		try {
+			const response = (await sourceRequest(
+				`${BASE_URL}/works/${encodeURIComponent(externalId)}`,
+				{ source: "crossref", rateLimiter },
+			)) as CrossrefWorkResponse;
+			return response.message ? parseCrossrefWork(response.message) : null;
+		} catch (error) {
+			logger.error("Failed to fetch work from Crossref", {
+				externalId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	},
+};
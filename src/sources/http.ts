@@ -0,0 +1,133 @@
+/**
+ * HTTP helpers shared by paper source providers
+ *
+ * Wraps fetch with a timeout, per-source rate limiting and retries,
+ * mirroring the behaviour of the arXiv client.
+ */
+
+import { SourceApiError } from "../errors.js";
+import type { RateLimiter } from "../utils/rateLimiter.js";
+import {
+	isNetworkError,
+	isRetryableStatusCode,
+	withRetry,
+} from "../utils/retry.js";
+
+export const DEFAULT_SOURCE_TIMEOUT_MS = 15000;
+
+const USER_AGENT = "ResearchBotTelegram/1.0 (https://github.com/mhdthariq)";
+
+/**
+ * Options for a source HTTP request
+ */
+export interface SourceRequestOptions {
+	/** Source identifier for error reporting */
+	source: string;
+	/** Rate limiter to throttle requests */
+	rateLimiter?: RateLimiter;
+	/** Request timeout in milliseconds */
+	timeoutMs?: number;
+	/** Expected response body type (default: json) */
+	responseType?: "json" | "text";
+}
+
+/**
+ * Check if a source error should be retried
+ */
+function isSourceErrorRetryable(error: unknown): boolean {
+	if (isNetworkError(error)) return true;
+	if (error instanceof SourceApiError && error.statusCode) {
+		return isRetryableStatusCode(error.statusCode);
+	}
+	if (error instanceof Error && error.message.includes("timed out")) {
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Perform a single request with timeout
+ */
+async function requestOnce(
+	url: string,
+	options: SourceRequestOptions,
+): Promise<unknown> {
+	const timeoutMs = options.timeoutMs ?? DEFAULT_SOURCE_TIMEOUT_MS;
+
+	await options.rateLimiter?.throttle();
+
+	const controller = new AbortController();
+	const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+	try {
+		const response = await fetch(url, {
+			signal: controller.signal,
+			headers: { "User-Agent": USER_AGENT },
+		});
+
+		if (!response.ok) {
+			throw new SourceApiError(
+				`${options.source} API returned status ${response.status}`,
+				options.source,
+				response.status,
+			);
+		}
+
+		return options.responseType === "text"
+			? await response.text()
+			: await response.json();
+	} catch (error) {
+		if (error instanceof SourceApiError) {
+			throw error;
+		}
+		if (error instanceof Error && error.name === "AbortError") {
+			throw new SourceApiError(
+				`${options.source} request timed out after ${timeoutMs}ms`,
+				options.source,
+				undefined,
+				error,
+			);
+		}
+		throw new SourceApiError(
+			`Failed to fetch from ${options.source}: ${error instanceof Error ? error.message : String(error)}`,
+			options.source,
+			undefined,
+			error instanceof Error ? error : undefined,
+		);
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+/**
+ * Request a URL from a paper source with retry
+ *
+ * @param url - URL to request
+ * @param options - Request options
+ * @returns Parsed JSON body, or the raw text when responseType is "text"
+ * @throws {SourceApiError} When all attempts fail
+ */
+export async function sourceRequest(
+	url: string,
+	options: SourceRequestOptions,
+): Promise<unknown> {
+	return withRetry(() => requestOnce(url, options), {
+		maxAttempts: 3,
+		baseDelay: 1000,
+		maxDelay: 10000,
+		isRetryable: isSourceErrorRetryable,
+		operationName: `${options.source}Request`,
+	});
+}
+
+/**
+ * Strip HTML/JATS tags and collapse whitespace
+ *
+ * Crossref and bioRxiv abstracts are returned as JATS XML fragments.
+ */
+export function stripMarkup(text: string): string {
+	return text
+		.replace(/<[^>]+>/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
@@ -0,0 +1,146 @@
+/**
+ * Paper source registry
+ *
+ * Central entry point for searching and resolving papers across providers.
+ * arXiv remains the default source; other providers can be selected per
+ * search (`/search --source pubmed ...`) or per subscription.
+ */
+
+import type { Paper } from "../arxiv.js";
+import { arxivSource } from "./arxiv.js";
+import { biorxivSource } from "./biorxiv.js";
+import { crossrefSource } from "./crossref.js";
+import { parsePaperId } from "./paperId.js";
+import { pubmedSource } from "./pubmed.js";
+import { semanticScholarSource } from "./semanticScholar.js";
+import type {
+	PaperSource,
+	PaperSourceId,
+	SourceSearchOptions,
+} from "./types.js";
+
+export * from "./paperId.js";
+export type {
+	PaperSource,
+	PaperSourceId,
+	SourceSearchOptions,
+} from "./types.js";
+
+export const DEFAULT_SOURCE: PaperSourceId = "arxiv";
+
+const SOURCES: Record<PaperSourceId, PaperSource> = {
+	arxiv: arxivSource,
+	semanticscholar: semanticScholarSource,
+	crossref: crossrefSource,
+	pubmed: pubmedSource,
+	biorxiv: biorxivSource,
+};
+
+// Alternative names accepted from users
+const SOURCE_ALIASES: Record<string, PaperSourceId> = {
+	arxiv: "arxiv",
+	s2: "semanticscholar",
+	semantic: "semanticscholar",
+	semanticscholar: "semanticscholar",
+	crossref: "crossref",
+	doi: "crossref",
+	pubmed: "pubmed",
+	medline: "pubmed",
+	biorxiv: "biorxiv",
+};
+
+/**
+ * Get a paper source by ID
+ *
+ * @param id - Source ID (default: arxiv)
+ * @returns The paper source
+ */
+export function getSource(id: PaperSourceId = DEFAULT_SOURCE): PaperSource {
+	return SOURCES[id];
+}
+
+/**
+ * Get the display name of a source
+ *
+ * @param id - Source ID (unknown IDs are returned unchanged)
+ */
+export function getSourceName(id: string): string {
+	return SOURCES[id as PaperSourceId]?.name ?? id;
+}
+
+/**
+ * List all registered paper sources
+ */
+export function listSources(): PaperSource[] {
+	return Object.values(SOURCES);
+}
+
+/**
+ * Resolve a user-supplied source name
+ *
+ * @param name - Source name or alias (case-insensitive)
+ * @returns Source ID or null if unknown
+ */
+export function resolveSourceName(name: string): PaperSourceId | null {
+	return SOURCE_ALIASES[name.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Extract a `--source <name>` option from command arguments
+ *
+ * @param args - Raw command arguments
+ * @returns Remaining text, the resolved source (if any), and the raw
+ *          name when it did not match a known source
+ *
+ * @example
+ * parseSourceOption("--source pubmed crispr");
+ * // { text: "crispr", source: "pubmed" }
+ */
+export function parseSourceOption(args: string): {
+	text: string;
+	source?: PaperSourceId;
+	unknownSource?: string;
+} {
+	const match = args.match(/(?:^|\s)--source(?:=|\s+)(\S+)/);
+	if (!match?.[1]) {
+		return { text: args.trim() };
+	}
+
+	const text = args.replace(match[0], " ").replace(/\s+/g, " ").trim();
+	const source = resolveSourceName(match[1]);
+
+	return source ? { text, source } : { text, unknownSource: match[1] };
+}
+
+/**
+ * Search a paper source
+ *
+ * @param query - Search query
+ * @param source - Source ID (default: arxiv)
+ * @param options - Search options
+ * @returns Papers tagged with their source
+ */
+export async function searchSource(
+	query: string,
+	source: PaperSourceId = DEFAULT_SOURCE,
+	options: SourceSearchOptions = {},
+): Promise<Paper[]> {
+	return getSource(source).search(query, options);
+}
+
+/**
+ * Fetch a paper by its source-qualified ID
+ *
+ * Bare arXiv IDs are accepted for backward compatibility.
+ *
+ * @param paperId - Qualified ID (e.g. "pubmed:31452104") or bare arXiv ID
+ * @returns The paper or null if not found
+ */
+export async function fetchPaperByQualifiedId(
+	paperId: string,
+): Promise<Paper | null> {
+	const parsed = parsePaperId(paperId);
+	if (!parsed) return null;
+
+	return getSource(parsed.source).fetchById(parsed.externalId);
+}
@@ -0,0 +1,146 @@
+/**
+ * Source-qualified paper identifiers
+ *
+ * Every paper has a stable ID of the form `<source>:<externalId>`, e.g.
+ * `arxiv:2301.00001`, `pubmed:31452104` or `crossref:10.1038/nature14539`.
+ *
+ * Columns that predate multi-source support (bookmarks.arxiv_id,
+ * paper_views.arxiv_id) keep storing bare arXiv IDs; papers from other
+ * sources are stored with their qualified ID (see getStoredPaperId).
+ */
+
+import type { Paper } from "../arxiv.js";
+import { extractArxivId } from "../utils/export.js";
+import type { PaperSourceId } from "./types.js";
+
+export const PAPER_SOURCE_IDS: readonly PaperSourceId[] = [
+	"arxiv",
+	"semanticscholar",
+	"crossref",
+	"pubmed",
+	"biorxiv",
+];
+
+const BARE_ARXIV_ID_PATTERN = /^(\d{4}\.\d{4,5}|[a-z-]+\/\d{7})(v\d+)?$/i;
+
+/**
+ * Parsed source-qualified paper ID
+ */
+export interface ParsedPaperId {
+	source: PaperSourceId;
+	externalId: string;
+}
+
+/**
+ * Check if a string is a known source identifier
+ */
+export function isPaperSourceId(value: string): value is PaperSourceId {
+	return (PAPER_SOURCE_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Build a source-qualified paper ID
+ *
+ * @param source - Paper source
+ * @param externalId - Source-specific ID
+ * @returns Qualified ID (e.g. "pubmed:31452104")
+ */
+export function formatPaperId(
+	source: PaperSourceId,
+	externalId: string,
+): string {
+	return `${source}:${externalId}`;
+}
+
+/**
+ * Parse a source-qualified paper ID
+ *
+ * Bare arXiv IDs and arXiv URLs are accepted for backward compatibility.
+ *
+ * @param value - Qualified ID, bare arXiv ID or arXiv URL
+ * @returns Parsed ID or null if not recognised
+ */
+export function parsePaperId(value: string): ParsedPaperId | null {
+	const trimmed = value.trim();
+	const separator = trimmed.indexOf(":");
+
+	if (separator > 0) {
+		const prefix = trimmed.slice(0, separator).toLowerCase();
+		const externalId = trimmed.slice(separator + 1).trim();
+		if (isPaperSourceId(prefix) && externalId) {
+			return { source: prefix, externalId };
+		}
+		if (prefix === "doi" && externalId) {
+			return { source: "crossref", externalId };
+		}
+	}
+
+	const arxivId = extractArxivId(trimmed);
+	if (arxivId) {
+		return { source: "arxiv", externalId: arxivId };
+	}
+
+	// Bare arXiv IDs with a version suffix (e.g. 2301.00001v2)
+	if (BARE_ARXIV_ID_PATTERN.test(trimmed)) {
+		return { source: "arxiv", externalId: trimmed };
+	}
+
+	return null;
+}
+
+/**
+ * Get the source of a paper (papers without one come from arXiv)
+ */
+export function getPaperSource(paper: Paper): PaperSourceId {
+	return paper.source ?? "arxiv";
+}
+
+/**
+ * Get the source-specific ID of a paper
+ *
+ * @returns External ID or null if it cannot be determined
+ */
+export function getExternalId(paper: Paper): string | null {
+	return paper.externalId ?? extractArxivId(paper.link);
+}
+
+/**
+ * Get the stable source-qualified ID of a paper
+ *
+ * @returns Qualified ID or null if the paper has no usable ID
+ */
+export function getPaperId(paper: Paper): string | null {
+	const externalId = getExternalId(paper);
+	return externalId ? formatPaperId(getPaperSource(paper), externalId) : null;
+}
+
+/**
+ * Get the ID used in legacy arxiv_id columns and callback data
+ *
+ * arXiv papers keep their bare ID so existing rows stay valid;
+ * other sources use the qualified ID.
+ */
+export function getStoredPaperId(paper: Paper): string | null {
+	const externalId = getExternalId(paper);
+	if (!externalId) return null;
+	const source = getPaperSource(paper);
+	return source === "arxiv" ? externalId : formatPaperId(source, externalId);
+}
+
+/**
+ * Telegram limit on callback data size in bytes
+ */
+export const MAX_CALLBACK_DATA_BYTES = 64;
+
+/**
+ * Check if callback data fits Telegram's limit
+ *
+ * Buttons carrying a stored paper ID can exceed it for long IDs such as
+ * DOIs, and Telegram rejects the whole message if any button does, so
+ * such buttons are left out instead.
+ *
+ * @param data - Callback data, e.g. "save:crossref:10.1038/nature14539"
+ */
+export function fitsCallbackData(data: string): boolean {
+	return Buffer.byteLength(data) <= MAX_CALLBACK_DATA_BYTES;
+}
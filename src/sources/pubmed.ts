@@ -0,0 +1,223 @@
+/**
+ * PubMed paper source
+ *
+ * Uses NCBI E-utilities: esearch to find PMIDs, efetch to load
+ * the article records (including abstracts).
+ * @see https://www.ncbi.nlm.nih.gov/books/NBK25501/
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import type { Paper } from "../arxiv.js";
+import { logger } from "../utils/logger.js";
+import { RateLimiter } from "../utils/rateLimiter.js";
+import { sourceRequest, stripMarkup } from "./http.js";
+import type { PaperSource, SourceSearchOptions } from "./types.js";
+
+const BASE_URL = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+
+// NCBI allows 3 requests per second without an API key
+const rateLimiter = new RateLimiter(3, "PubMed");
+
+const parser = new XMLParser({
+	ignoreAttributes: true,
+	parseTagValue: false,
+	stopNodes: ["*.ArticleTitle", "*.AbstractText"],
+	isArray: (name) => ["PubmedArticle", "Author", "AbstractText"].includes(name),
+});
+
+const MONTHS: Record<string, string> = {
+	jan: "01",
+	feb: "02",
+	mar: "03",
+	apr: "04",
+	may: "05",
+	jun: "06",
+	jul: "07",
+	aug: "08",
+	sep: "09",
+	oct: "10",
+	nov: "11",
+	dec: "12",
+};
+
+/**
+ * Raw esearch JSON response
+ */
+export interface PubMedSearchResponse {
+	esearchresult?: { idlist?: string[] };
+}
+
+interface PubMedAuthor {
+	LastName?: string;
+	ForeName?: string;
+	CollectiveName?: string;
+}
+
+interface PubMedDate {
+	Year?: string;
+	Month?: string;
+	Day?: string;
+	MedlineDate?: string;
+}
+
+interface PubMedArticle {
+	MedlineCitation?: {
+		PMID?: string;
+		Article?: {
+			ArticleTitle?: string;
+			Abstract?: { AbstractText?: string[] };
+			AuthorList?: { Author?: PubMedAuthor[] };
+			Journal?: {
+				Title?: string;
+				JournalIssue?: { PubDate?: PubMedDate };
+			};
+		};
+	};
+}
+
+/**
+ * Extract PMIDs from an esearch response
+ *
+ * @param response - Raw esearch JSON
+ * @returns List of PMIDs
+ */
+export function parsePubMedSearchIds(response: PubMedSearchResponse): string[] {
+	return response.esearchresult?.idlist ?? [];
+}
+
+/**
+ * Format a PubMed publication date as YYYY[-MM[-DD]]
+ */
+function formatPubDate(date: PubMedDate | undefined): string {
+	if (!date) return "";
+	if (!date.Year) {
+		return date.MedlineDate?.match(/\d{4}/)?.[0] ?? "";
+	}
+
+	const month = date.Month
+		? (MONTHS[date.Month.slice(0, 3).toLowerCase()] ??
+			date.Month.padStart(2, "0"))
+		: undefined;
+	if (!month) return date.Year;
+
+	return date.Day
+		? `${date.Year}-${month}-${date.Day.padStart(2, "0")}`
+		: `${date.Year}-${month}`;
+}
+
+/**
+ * Parse an efetch XML response into papers
+ *
+ * @param xml - Raw efetch XML (PubmedArticleSet)
+ * @returns Parsed papers
+ */
+export function parsePubMedArticles(xml: string): Paper[] {
+	const data = parser.parse(xml) as {
+		PubmedArticleSet?: { PubmedArticle?: PubMedArticle[] };
+	};
+
+	const papers: Paper[] = [];
+
+	for (const record of data.PubmedArticleSet?.PubmedArticle ?? []) {
+		const citation = record.MedlineCitation;
+		const article = citation?.Article;
+		const pmid = citation?.PMID?.trim();
+		if (!pmid || !article?.ArticleTitle) continue;
+
+		const authors = (article.AuthorList?.Author ?? [])
+			.map(
+				(a) =>
+					a.CollectiveName ??
+					[a.ForeName, a.LastName].filter(Boolean).join(" "),
+			)
+			.filter((name) => name.length > 0);
+
+		const journal = article.Journal?.Title;
+
+		papers.push({
+			title: stripMarkup(article.ArticleTitle),
+			summary: stripMarkup((article.Abstract?.AbstractText ?? []).join(" ")),
+			link: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+			published: formatPubDate(article.Journal?.JournalIssue?.PubDate),
+			authors: authors.length > 0 ? authors : undefined,
+			categories: journal ? [journal] : undefined,
+			source: "pubmed",
+			externalId: pmid,
+		});
+	}
+
+	return papers;
+}
+
+/**
+ * Load article records for a list of PMIDs
+ */
+async function fetchArticles(
+	pmids: string[],
+	timeoutMs?: number,
+): Promise<Paper[]> {
+	if (pmids.length === 0) return [];
+
+	const params = new URLSearchParams({
+		db: "pubmed",
+		id: pmids.join(","),
+		retmode: "xml",
+	});
+
+	const xml = (await sourceRequest(
+		`${BASE_URL}/efetch.fcgi?${params.toString()}`,
+		{ source: "pubmed", rateLimiter, timeoutMs, responseType: "text" },
+	)) as string;
+
+	return parsePubMedArticles(xml);
+}
+
+export const pubmedSource: PaperSource = {
+	id: "pubmed",
+	name: "PubMed",
+
+	async search(query: string, options: SourceSearchOptions = {}) {
+		const params = new URLSearchParams({
+			db: "pubmed",
+			term: query,
+			retstart: String(options.start ?? 0),
+			retmax: String(Math.min(options.max ?? 5, 100)),
+			retmode: "json",
+			sort: "pub_date",
+		});
+
+		try {
+			const response = (await sourceRequest(
+				`${BASE_URL}/esearch.fcgi?${params.toString()}`,
+				{ source: "pubmed", rateLimiter, timeoutMs: options.timeoutMs },
+			)) as PubMedSearchResponse;
+			return await fetchArticles(
+				parsePubMedSearchIds(response),
+				options.timeoutMs,
+			);
+		} catch (error) {
+			logger.error("Failed to search PubMed", {
+				query,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return [];
+		}
+	},
+
+	async fetchById(externalId: string) {
+		if (!/^\d+$/.test(externalId)) {
+			return null;
+		}
+
+		try {
+			const papers = await fetchArticles([externalId]);
+			return papers[0] ?? null;
+		} catch (error) {
+			logger.error("Failed to fetch article from PubMed", {
+				externalId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	},
+};
@@ -0,0 +1,130 @@
+/**
+ * Semantic Scholar paper source
+ *
+ * Uses the Semantic Scholar Graph API.
+ * @see https://api.semanticscholar.org/api-docs/graph
+ */
+
+import type { Paper } from "../arxiv.js";
+import { logger } from "../utils/logger.js";
+import { RateLimiter } from "../utils/rateLimiter.js";
+import { sourceRequest } from "./http.js";
+import type { PaperSource, SourceSearchOptions } from "./types.js";
+
+const BASE_URL = "https://api.semanticscholar.org/graph/v1";
+const FIELDS =
+	"paperId,title,abstract,url,year,publicationDate,authors,externalIds,fieldsOfStudy";
+
+// Unauthenticated clients share a pool of roughly 1 request per second
+const rateLimiter = new RateLimiter(1, "SemanticScholar");
+
+/**
+ * Raw paper object from the Graph API
+ */
+export interface SemanticScholarPaper {
+	paperId: string;
+	title?: string | null;
+	abstract?: string | null;
+	url?: string | null;
+	year?: number | null;
+	publicationDate?: string | null;
+	authors?: { authorId?: string | null; name: string }[];
+	externalIds?: Record<string, string | number> | null;
+	fieldsOfStudy?: string[] | null;
+}
+
+/**
+ * Raw search response from the Graph API
+ */
+export interface SemanticScholarSearchResponse {
+	total?: number;
+	offset?: number;
+	data?: SemanticScholarPaper[];
+}
+
+/**
+ * Convert a Graph API paper into a Paper
+ *
+ * @param raw - Raw paper object
+ * @returns Parsed paper or null if it has no title
+ */
+export function parseSemanticScholarPaper(
+	raw: SemanticScholarPaper,
+): Paper | null {
+	if (!raw.paperId || !raw.title) {
+		return null;
+	}
+
+	return {
+		title: raw.title.trim(),
+		summary: raw.abstract?.trim() ?? "",
+		link: raw.url ?? `https://www.semanticscholar.org/paper/${raw.paperId}`,
+		published: raw.publicationDate ?? (raw.year ? String(raw.year) : ""),
+		authors: raw.authors?.map((a) => a.name),
+		categories: raw.fieldsOfStudy ?? undefined,
+		source: "semanticscholar",
+		externalId: raw.paperId,
+	};
+}
+
+/**
+ * Parse a Graph API search response
+ *
+ * @param response - Raw search response
+ * @returns Parsed papers
+ */
+export function parseSemanticScholarSearch(
+	response: SemanticScholarSearchResponse,
+): Paper[] {
+	return (response.data ?? [])
+		.map(parseSemanticScholarPaper)
+		.filter((p): p is Paper => p !== null);
+}
+
+export const semanticScholarSource: PaperSource = {
+	id: "semanticscholar",
+	name: "Semantic Scholar",
+
+	async search(query: string, options: SourceSearchOptions = {}) {
+		const params = new URLSearchParams({
+			query,
+			offset: String(options.start ?? 0),
+			limit: String(Math.min(options.max ?? 5, 100)),
+			fields: FIELDS,
+		});
+
+		try {
+			const response = (await sourceRequest(
+				`${BASE_URL}/paper/search?${params.toString()}`,
+				{
+					source: "semanticscholar",
+					rateLimiter,
+					timeoutMs: options.timeoutMs,
+				},
+			)) as SemanticScholarSearchResponse;
+			return parseSemanticScholarSearch(response);
+		} catch (error) {
+			logger.error("Failed to search Semantic Scholar", {
+				query,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return [];
+		}
+	},
+
+	async fetchById(externalId: string) {
+		try {
+			const response = (await sourceRequest(
+				`${BASE_URL}/paper/${encodeURIComponent(externalId)}?fields=${FIELDS}`,
+				{ source: "semanticscholar", rateLimiter },
+			)) as SemanticScholarPaper;
+			return parseSemanticScholarPaper(response);
+		} catch (error) {
+			logger.error("Failed to fetch paper from Semantic Scholar", {
+				externalId,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+	},
+};
@@ -0,0 +1,59 @@
+/**
+ * Paper source types
+ *
+ * A paper source is a provider that can search for papers and resolve
+ * a single paper by its provider-specific identifier.
+ */
+
+import type { Paper } from "../arxiv.js";
+
+/**
+ * Identifiers of the supported paper sources
+ */
+export type PaperSourceId =
+	| "arxiv"
+	| "semanticscholar"
+	| "crossref"
+	| "pubmed"
+	| "biorxiv";
+
+/**
+ * Options for searching a paper source
+ */
+export interface SourceSearchOptions {
+	/** Pagination offset (default: 0) */
+	start?: number;
+	/** Maximum results to return (default: 5) */
+	max?: number;
+	/** Request timeout in milliseconds (default: 15000) */
+	timeoutMs?: number;
+	/**
+	 * Only include papers submitted on or after this date
+	 * (honoured by sources that support date filtering, currently arXiv)
+	 */
+	submittedAfter?: Date;
+	/** Only include papers submitted on or before this date */
+	submittedBefore?: Date;
+}
+
+/**
+ * A provider of research papers
+ */
+export interface PaperSource {
+	/** Stable source identifier, used as the prefix of qualified paper IDs */
+	readonly id: PaperSourceId;
+	/** Human-readable name */
+	readonly name: string;
+	/**
+	 * Search for papers matching a query
+	 *
+	 * Implementations log failures and return an empty array.
+	 */
+	search(query: string, options?: SourceSearchOptions): Promise<Paper[]>;
+	/**
+	 * Fetch a single paper by its source-specific ID
+	 *
+	 * Implementations log failures and return null.
+	 */
+	fetchById(externalId: string): Promise<Paper | null>;
+}
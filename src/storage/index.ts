@@ -7,4 +7,24 @@
  * import { createRedisStorage, checkRedisConnection } from "./storage";
  */
 
-export { checkRedisConnection, createRedisStorage } from "./redis.js";
+export { MemoryRedisTransport } from "./memoryRedis.js";
+export {
+	checkRedisConnection,
+	createRedisStorage,
+	RedisSessionStorage,
+} from "./redis.js";
+export type {
+	RedisConnectionOptions,
+	RedisReply,
+	RedisTransport,
+	RedisValue,
+} from "./redisClient.js";
+export {
+	createRedisClient,
+	getRedisClient,
+	parseRedisUrl,
+	RedisClient,
+	RedisPipeline,
+	RespTransport,
+	UpstashRestTransport,
+} from "./redisClient.js";
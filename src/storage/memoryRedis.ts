@@ -0,0 +1,192 @@
+/**
+ * In-memory Redis
+ *
+ * A RedisTransport that answers the common string-key commands from a Map,
+ * so code using RedisClient can be tested without a Redis server. Commands
+ * it does not know (EVAL among them) get an error reply.
+ *
+ * @example
+ * const redis = new RedisClient(new MemoryRedisTransport());
+ */
+
+import { RedisError } from "../errors.js";
+import type { RedisReply, RedisTransport, RedisValue } from "./redisClient.js";
+
+/**
+ * Convert a glob pattern (as used by SCAN MATCH) to a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+	const source = pattern
+		.split("")
+		.map((char) => {
+			if (char === "*") return ".*";
+			if (char === "?") return ".";
+			return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Transport keeping string keys in memory
+ */
+export class MemoryRedisTransport implements RedisTransport {
+	private readonly entries = new Map<
+		string,
+		{ value: string; expiresAt: number | null }
+	>();
+
+	/** Every command received, in order */
+	readonly commands: RedisValue[][] = [];
+
+	/**
+	 * @param now - Clock in ms (default: Date.now)
+	 */
+	constructor(private readonly now: () => number = Date.now) {}
+
+	async exec(commands: RedisValue[][]): Promise<(RedisReply | RedisError)[]> {
+		return commands.map((command) => {
+			this.commands.push(command);
+			try {
+				return this.run(command.map(String));
+			} catch (error) {
+				return error instanceof RedisError
+					? error
+					: new RedisError(String(error));
+			}
+		});
+	}
+
+	close(): void {
+		// Nothing to close
+	}
+
+	private read(key: string): string | null {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return null;
+		}
+		if (entry.expiresAt !== null && entry.expiresAt <= this.now()) {
+			this.entries.delete(key);
+			return null;
+		}
+		return entry.value;
+	}
+
+	private write(key: string, value: string, ttlMs: number | null): void {
+		this.entries.set(key, {
+			value,
+			expiresAt: ttlMs === null ? null : this.now() + ttlMs,
+		});
+	}
+
+	private run([name = "", ...args]: string[]): RedisReply {
+		switch (name.toUpperCase()) {
+			case "PING":
+				return "PONG";
+			case "GET":
+				return this.read(args[0] ?? "");
+			case "SET":
+				return this.set(args);
+			case "DEL":
+			case "UNLINK":
+				return args.filter(
+					(key) => this.read(key) !== null && this.entries.delete(key),
+				).length;
+			case "EXISTS":
+				return args.filter((key) => this.read(key) !== null).length;
+			case "EXPIRE":
+			case "PEXPIRE": {
+				const [key = "", amount = "0"] = args;
+				const value = this.read(key);
+				if (value === null) {
+					return 0;
+				}
+				const ms =
+					Number(amount) * (name.toUpperCase() === "EXPIRE" ? 1000 : 1);
+				this.write(key, value, ms);
+				return 1;
+			}
+			case "TTL": {
+				const key = args[0] ?? "";
+				if (this.read(key) === null) {
+					return -2;
+				}
+				const expiresAt = this.entries.get(key)?.expiresAt ?? null;
+				return expiresAt === null
+					? -1
+					: Math.ceil((expiresAt - this.now()) / 1000);
+			}
+			case "MGET":
+				return args.map((key) => this.read(key));
+			case "MSET":
+				for (let i = 0; i + 1 < args.length; i += 2) {
+					this.write(args[i] as string, args[i + 1] as string, null);
+				}
+				return "OK";
+			case "INCR": {
+				const key = args[0] ?? "";
+				const current = Number(this.read(key) ?? "0");
+				if (!Number.isInteger(current)) {
+					throw new RedisError("ERR value is not an integer or out of range");
+				}
+				const ttl = this.entries.get(key)?.expiresAt ?? null;
+				this.entries.set(key, { value: String(current + 1), expiresAt: ttl });
+				return current + 1;
+			}
+			case "SCAN":
+				return this.scan(args);
+			case "FLUSHALL":
+			case "FLUSHDB":
+				this.entries.clear();
+				return "OK";
+			default:
+				throw new RedisError(`ERR unknown command '${name}'`);
+		}
+	}
+
+	private set([key = "", value = "", ...options]: string[]): RedisReply {
+		let ttlMs: number | null = null;
+		let condition: "NX" | "XX" | null = null;
+
+		for (let i = 0; i < options.length; i++) {
+			const option = options[i]?.toUpperCase();
+			if (option === "EX" || option === "PX") {
+				const amount = Number(options[++i]);
+				if (!Number.isFinite(amount) || amount <= 0) {
+					throw new RedisError("ERR invalid expire time in 'set' command");
+				}
+				ttlMs = option === "EX" ? amount * 1000 : amount;
+			} else if (option === "NX" || option === "XX") {
+				condition = option;
+			} else {
+				throw new RedisError("ERR syntax error");
+			}
+		}
+
+		const exists = this.read(key) !== null;
+		if ((condition === "NX" && exists) || (condition === "XX" && !exists)) {
+			return null;
+		}
+
+		this.write(key, value, ttlMs);
+		return "OK";
+	}
+
+	/**
+	 * SCAN in a single batch; COUNT is only a hint in Redis too
+	 */
+	private scan([, ...options]: string[]): RedisReply {
+		let match: RegExp | null = null;
+		for (let i = 0; i < options.length; i += 2) {
+			if (options[i]?.toUpperCase() === "MATCH") {
+				match = globToRegExp(options[i + 1] ?? "*");
+			}
+		}
+
+		const keys = [...this.entries.keys()].filter(
+			(key) => this.read(key) !== null && (!match || match.test(key)),
+		);
+		return ["0", keys];
+	}
+}
@@ -0,0 +1,228 @@
+/**
+ * Rate limit stores
+ *
+ * Token buckets for per-user rate limiting. Each user has a bucket that
+ * holds up to `capacity` tokens and refills steadily, so a user may burst
+ * up to the capacity and then continue at the refill rate. A request
+ * takes as many tokens as it costs.
+ *
+ * The in-memory store keeps buckets in this process. The Redis store
+ * keeps them in Redis, so every instance (serverless functions included)
+ * shares the same limits; a Lua script updates the bucket atomically and
+ * uses the Redis server's clock.
+ */
+
+import type { RedisClient } from "./redisClient.js";
+
+/**
+ * Size and refill rate of a token bucket
+ */
+export interface TokenBucket {
+	/** Most tokens the bucket holds (the burst size) */
+	capacity: number;
+	/** Time to refill an empty bucket in ms */
+	refillMs: number;
+}
+
+/**
+ * Outcome of taking tokens from a bucket
+ */
+export interface RateLimitResult {
+	allowed: boolean;
+	/** Tokens left after this request */
+	remaining: number;
+	/** Time until the request would be allowed in ms (0 if allowed) */
+	retryAfterMs: number;
+}
+
+/**
+ * Where token buckets are kept
+ */
+export interface RateLimitStore {
+	/**
+	 * Take `cost` tokens from a bucket if it holds enough
+	 *
+	 * @throws If the store cannot be reached
+	 */
+	consume(
+		key: string,
+		cost: number,
+		bucket: TokenBucket,
+	): Promise<RateLimitResult>;
+	/** Refill a bucket completely */
+	reset(key: string): Promise<void>;
+}
+
+/**
+ * Refill a bucket for the time passed and take `cost` tokens if it can
+ *
+ * Costs above the capacity are capped, so every request can eventually
+ * be made.
+ *
+ * @param tokens - Tokens in the bucket at `updatedAt`
+ * @param updatedAt - When the bucket was last updated (ms)
+ * @param now - Current time (ms)
+ * @returns The result and the bucket's new token count
+ */
+export function takeTokens(
+	bucket: TokenBucket,
+	tokens: number,
+	updatedAt: number,
+	now: number,
+	cost: number,
+): RateLimitResult & { tokens: number } {
+	const perMs = bucket.capacity / bucket.refillMs;
+	const available = Math.min(
+		bucket.capacity,
+		tokens + Math.max(0, now - updatedAt) * perMs,
+	);
+	const needed = Math.min(cost, bucket.capacity);
+
+	if (available >= needed) {
+		const left = available - needed;
+		return {
+			allowed: true,
+			remaining: Math.floor(left),
+			retryAfterMs: 0,
+			tokens: left,
+		};
+	}
+	return {
+		allowed: false,
+		remaining: Math.floor(available),
+		retryAfterMs: Math.ceil((needed - available) / perMs),
+		tokens: available,
+	};
+}
+
+/**
+ * Keeps token buckets in this process
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+	private readonly buckets = new Map<
+		string,
+		{ tokens: number; updatedAt: number; refillMs: number }
+	>();
+
+	/**
+	 * @param now - Clock in ms (default: Date.now)
+	 */
+	constructor(private readonly now: () => number = Date.now) {}
+
+	async consume(
+		key: string,
+		cost: number,
+		bucket: TokenBucket,
+	): Promise<RateLimitResult> {
+		const now = this.now();
+		const entry = this.buckets.get(key);
+		const { tokens, ...result } = takeTokens(
+			bucket,
+			entry?.tokens ?? bucket.capacity,
+			entry?.updatedAt ?? now,
+			now,
+			cost,
+		);
+		this.buckets.set(key, {
+			tokens,
+			updatedAt: now,
+			refillMs: bucket.refillMs,
+		});
+		return result;
+	}
+
+	async reset(key: string): Promise<void> {
+		this.buckets.delete(key);
+	}
+
+	/**
+	 * Forget buckets that have had time to refill completely
+	 *
+	 * @returns Number of buckets removed
+	 */
+	prune(): number {
+		const now = this.now();
+		let removed = 0;
+		for (const [key, entry] of this.buckets) {
+			if (now - entry.updatedAt >= entry.refillMs) {
+				this.buckets.delete(key);
+				removed++;
+			}
+		}
+		return removed;
+	}
+
+	/**
+	 * Number of buckets currently kept
+	 */
+	get size(): number {
+		return this.buckets.size;
+	}
+}
+
+/**
+ * Refill and take tokens atomically; mirrors takeTokens
+ *
+ * KEYS[1] bucket hash; ARGV capacity, refillMs, cost
+ * Returns { allowed (0/1), tokens left, retry after in ms }
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_ms = tonumber(ARGV[2])
+local cost = math.min(tonumber(ARGV[3]), capacity)
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'at')
+local per_ms = capacity / refill_ms
+local tokens = tonumber(state[1]) or capacity
+local at = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - at) * per_ms)
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / per_ms)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'at', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(refill_ms))
+return { allowed, tostring(tokens), retry }
+`;
+
+/**
+ * Keeps token buckets in Redis, shared by all instances
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+	/**
+	 * @param redis - Redis client
+	 * @param prefix - Key prefix (default: "ratelimit")
+	 */
+	constructor(
+		private readonly redis: RedisClient,
+		private readonly prefix = "ratelimit",
+	) {}
+
+	async consume(
+		key: string,
+		cost: number,
+		bucket: TokenBucket,
+	): Promise<RateLimitResult> {
+		const [allowed, tokens, retryAfterMs] = await this.redis.eval<
+			[number, string, number]
+		>(
+			TOKEN_BUCKET_SCRIPT,
+			[`${this.prefix}:${key}`],
+			[bucket.capacity, bucket.refillMs, cost],
+		);
+		return {
+			allowed: allowed === 1,
+			remaining: Math.floor(Number(tokens)),
+			retryAfterMs,
+		};
+	}
+
+	async reset(key: string): Promise<void> {
+		await this.redis.del(`${this.prefix}:${key}`);
+	}
+}
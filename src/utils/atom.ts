@@ -0,0 +1,116 @@
+/**
+ * Atom Feeds
+ *
+ * Builds the personal Atom feeds served at /feeds/<token>.atom, so
+ * subscription papers can be read in any feed reader.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc4287
+ */
+
+/**
+ * An entry in an Atom feed
+ */
+export interface AtomEntry {
+	/** Permanent, unique IRI of the entry */
+	id: string;
+	title: string;
+	link: string;
+	/** ISO 8601 timestamp */
+	updated: string;
+	summary?: string | null;
+	authors?: string[];
+	/** Category terms, e.g. the subscription topic */
+	categories?: string[];
+}
+
+/**
+ * An Atom feed
+ */
+export interface AtomFeed {
+	/** Permanent IRI of the feed (usually its own URL) */
+	id: string;
+	title: string;
+	/** URL the feed is served from */
+	selfLink: string;
+	/** ISO 8601 timestamp; defaults to the newest entry */
+	updated?: string;
+	entries: AtomEntry[];
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+	return text.replace(/[<>&'"]/g, (char) => {
+		switch (char) {
+			case "<":
+				return "&lt;";
+			case ">":
+				return "&gt;";
+			case "&":
+				return "&amp;";
+			case "'":
+				return "&apos;";
+			default:
+				return "&quot;";
+		}
+	});
+}
+
+/**
+ * Convert an SQLite CURRENT_TIMESTAMP value ("2024-01-01 12:00:00", UTC)
+ * to ISO 8601
+ */
+export function toAtomDate(timestamp: string): string {
+	return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(timestamp)
+		? `${timestamp.replace(" ", "T")}Z`
+		: timestamp;
+}
+
+/**
+ * Format one feed entry
+ */
+function formatEntry(entry: AtomEntry): string {
+	const lines = [
+		"  <entry>",
+		`    <id>${escapeXml(entry.id)}</id>`,
+		`    <title>${escapeXml(entry.title)}</title>`,
+		`    <link rel="alternate" href="${escapeXml(entry.link)}"/>`,
+		`    <updated>${escapeXml(entry.updated)}</updated>`,
+	];
+	for (const author of entry.authors ?? []) {
+		lines.push(`    <author><name>${escapeXml(author)}</name></author>`);
+	}
+	for (const category of entry.categories ?? []) {
+		lines.push(`    <category term="${escapeXml(category)}"/>`);
+	}
+	if (entry.summary) {
+		lines.push(`    <summary>${escapeXml(entry.summary)}</summary>`);
+	}
+	lines.push("  </entry>");
+	return lines.join("\n");
+}
+
+/**
+ * Build the XML of an Atom feed
+ *
+ * Entries are written in the order given. The feed is its own author,
+ * since Atom requires one for entries that list no authors.
+ */
+export function buildAtomFeed(feed: AtomFeed): string {
+	const updated =
+		feed.updated ?? feed.entries[0]?.updated ?? new Date().toISOString();
+
+	return [
+		'<?xml version="1.0" encoding="utf-8"?>',
+		'<feed xmlns="http://www.w3.org/2005/Atom">',
+		`  <id>${escapeXml(feed.id)}</id>`,
+		`  <title>${escapeXml(feed.title)}</title>`,
+		`  <link rel="self" href="${escapeXml(feed.selfLink)}"/>`,
+		`  <updated>${escapeXml(updated)}</updated>`,
+		`  <author><name>${escapeXml(feed.title)}</name></author>`,
+		...feed.entries.map(formatEntry),
+		"</feed>",
+		"",
+	].join("\n");
+}
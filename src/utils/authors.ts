@@ -0,0 +1,394 @@
+/**
+ * Author Names
+ *
+ * Matches author names across the forms papers list them in ("Yoshua
+ * Bengio", "Y. Bengio", "Bengio, Yoshua", with or without diacritics) and
+ * tells authors who share a name apart by their co-authors and categories.
+ * Used by author follows (/follow).
+ */
+
+import type { Paper } from "../arxiv.js";
+
+/**
+ * What is known about a followed author, used to tell them apart from
+ * other authors with the same name
+ */
+export interface AuthorProfile {
+	/** Author name as followed */
+	name: string;
+	/** Frequent co-authors */
+	coAuthors: string[];
+	/** Categories the author publishes in */
+	categories: string[];
+}
+
+/**
+ * A group of papers that appear to be by the same person
+ */
+export interface AuthorCandidate {
+	profile: AuthorProfile;
+	papers: Paper[];
+}
+
+/**
+ * Lowercase words that belong to a family name ("van der Waals", "de Sá")
+ */
+const NAME_PARTICLES = new Set([
+	"al",
+	"bin",
+	"da",
+	"de",
+	"del",
+	"della",
+	"der",
+	"den",
+	"di",
+	"dos",
+	"du",
+	"el",
+	"la",
+	"le",
+	"ten",
+	"ter",
+	"van",
+	"von",
+]);
+
+/**
+ * Letters that Unicode normalization does not decompose
+ */
+const SPECIAL_LETTERS: Record<string, string> = {
+	æ: "ae",
+	đ: "d",
+	ð: "d",
+	ł: "l",
+	ø: "o",
+	œ: "oe",
+	ß: "ss",
+	þ: "th",
+};
+
+/**
+ * Co-authors kept per author profile
+ */
+const MAX_PROFILE_CO_AUTHORS = 20;
+
+/**
+ * Categories kept per author profile
+ */
+const MAX_PROFILE_CATEGORIES = 5;
+
+/**
+ * Transliterate a name to plain ASCII letters
+ *
+ * @example
+ * toAsciiName("Petar Veličković") // "Petar Velickovic"
+ */
+export function toAsciiName(name: string): string {
+	return name
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[æđðłøœßþ]/gi, (c) => {
+			const plain = SPECIAL_LETTERS[c.toLowerCase()] ?? c;
+			return c === c.toLowerCase() ? plain : plain.toUpperCase();
+		});
+}
+
+/**
+ * Split a name into given names and family name
+ *
+ * Handles "Given Family" and "Family, Given" forms and family names with
+ * particles. Returned parts are ASCII and lowercase.
+ *
+ * @example
+ * parseAuthorName("Bengio, Y.") // { given: ["y"], family: "bengio" }
+ * parseAuthorName("Johannes van der Waals") // { given: ["johannes"], family: "van der waals" }
+ */
+export function parseAuthorName(name: string): {
+	given: string[];
+	family: string;
+} {
+	const clean = (s: string) =>
+		toAsciiName(s)
+			.toLowerCase()
+			.replace(/[^a-z\s'-]/g, " ")
+			.replace(/\s+/g, " ")
+			.trim();
+
+	const comma = name.indexOf(",");
+	if (comma !== -1) {
+		return {
+			family: clean(name.slice(0, comma)),
+			given: clean(name.slice(comma + 1).replace(/\./g, " "))
+				.split(" ")
+				.filter(Boolean),
+		};
+	}
+
+	const words = clean(name.replace(/\./g, ". ")).split(" ").filter(Boolean);
+	let familyStart = words.length - 1;
+	while (familyStart > 1 && NAME_PARTICLES.has(words[familyStart - 1] ?? "")) {
+		familyStart--;
+	}
+	return {
+		given: words.slice(0, Math.max(0, familyStart)),
+		family: words.slice(Math.max(0, familyStart)).join(" "),
+	};
+}
+
+/**
+ * Key identifying a name up to its first initial ("bengio y")
+ */
+function getAuthorKey(name: string): string {
+	const { given, family } = parseAuthorName(name);
+	return `${family.replace(/[\s'-]/g, "")} ${given[0]?.[0] ?? ""}`.trim();
+}
+
+/**
+ * Check whether two author names can refer to the same person
+ *
+ * Family names must match; given names must agree where both are spelled
+ * out, and otherwise on their first initial.
+ *
+ * @example
+ * authorNamesMatch("Y. Bengio", "Yoshua Bengio") // true
+ * authorNamesMatch("Samy Bengio", "Yoshua Bengio") // false
+ */
+export function authorNamesMatch(a: string, b: string): boolean {
+	const nameA = parseAuthorName(a);
+	const nameB = parseAuthorName(b);
+	const familyA = nameA.family.replace(/[\s'-]/g, "");
+	const familyB = nameB.family.replace(/[\s'-]/g, "");
+	if (!familyA || familyA !== familyB) {
+		return false;
+	}
+
+	const givenA = nameA.given[0];
+	const givenB = nameB.given[0];
+	if (!givenA || !givenB) {
+		return true;
+	}
+	if (givenA.length > 1 && givenB.length > 1) {
+		return givenA === givenB;
+	}
+	return givenA[0] === givenB[0];
+}
+
+/**
+ * Get the forms a name may appear in on papers
+ *
+ * @example
+ * getAuthorNameVariants("Yoshua Bengio")
+ * // ["Yoshua Bengio", "Y. Bengio", "Bengio, Yoshua", "Bengio, Y."]
+ */
+export function getAuthorNameVariants(name: string): string[] {
+	const trimmed = name.replace(/\s+/g, " ").trim();
+	const comma = trimmed.indexOf(",");
+	const words = trimmed.split(" ");
+
+	let given: string[];
+	let family: string;
+	if (comma !== -1) {
+		family = trimmed.slice(0, comma).trim();
+		given = trimmed
+			.slice(comma + 1)
+			.trim()
+			.split(" ")
+			.filter(Boolean);
+	} else {
+		const familyWords = parseAuthorName(trimmed).family.split(" ").length;
+		given = words.slice(0, Math.max(0, words.length - familyWords));
+		family = words.slice(words.length - familyWords).join(" ");
+	}
+
+	const initials = given.map((g) => `${g[0]}.`).join(" ");
+	const variants = given.length
+		? [
+				`${given.join(" ")} ${family}`,
+				`${initials} ${family}`,
+				`${family}, ${given.join(" ")}`,
+				`${family}, ${initials}`,
+			]
+		: [family];
+
+	return [...new Set([...variants, ...variants.map(toAsciiName)])];
+}
+
+/**
+ * Build an arXiv query matching papers by an author under any name form
+ *
+ * arXiv matches `au:family_i` against every given name with that initial,
+ * so results still need filtering with authorNamesMatch.
+ *
+ * @example
+ * buildAuthorQuery("Yoshua Bengio") // 'au:"Yoshua Bengio" OR au:bengio_y'
+ */
+export function buildAuthorQuery(name: string): string {
+	const { given, family } = parseAuthorName(name);
+	const familyTerm = family.replace(/[\s'-]+/g, "_");
+	if (!familyTerm) {
+		return "";
+	}
+
+	const initial = given[0]?.[0];
+	if (!initial) {
+		return `au:${familyTerm}`;
+	}
+
+	const fullName = toAsciiName(getAuthorNameVariants(name)[0] ?? name).replace(
+		/"/g,
+		"",
+	);
+	return `au:"${fullName}" OR au:${familyTerm}_${initial}`;
+}
+
+/**
+ * Find the listed author of a paper matching a name
+ */
+export function findPaperAuthor(
+	paper: Pick<Paper, "authors">,
+	name: string,
+): string | undefined {
+	return paper.authors?.find((author) => authorNamesMatch(author, name));
+}
+
+/**
+ * Top entries of a count map, most frequent first
+ */
+function topCounts(counts: Map<string, number>, limit: number): string[] {
+	return [...counts.entries()]
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, limit)
+		.map(([key]) => key);
+}
+
+/**
+ * Build an author profile from papers by that author
+ *
+ * Papers not listing a matching author are ignored.
+ */
+export function buildAuthorProfile(
+	name: string,
+	papers: Paper[],
+): AuthorProfile {
+	const coAuthors = new Map<string, number>();
+	const coAuthorNames = new Map<string, string>();
+	const categories = new Map<string, number>();
+
+	for (const paper of papers) {
+		const author = findPaperAuthor(paper, name);
+		if (!author) continue;
+
+		for (const coAuthor of paper.authors ?? []) {
+			if (coAuthor === author) continue;
+			const key = getAuthorKey(coAuthor);
+			coAuthors.set(key, (coAuthors.get(key) ?? 0) + 1);
+			if (!coAuthorNames.has(key)) coAuthorNames.set(key, coAuthor);
+		}
+		const primary = paper.categories?.[0];
+		if (primary) {
+			categories.set(primary, (categories.get(primary) ?? 0) + 1);
+		}
+	}
+
+	return {
+		name,
+		coAuthors: topCounts(coAuthors, MAX_PROFILE_CO_AUTHORS).map(
+			(key) => coAuthorNames.get(key) ?? key,
+		),
+		categories: topCounts(categories, MAX_PROFILE_CATEGORIES),
+	};
+}
+
+/**
+ * Get the archive of a category ("cs.LG" → "cs")
+ */
+function getArchive(category: string): string {
+	return category.split(".")[0] ?? category;
+}
+
+/**
+ * Check whether a paper is by a followed author
+ *
+ * The paper must list a matching name and, when the profile knows the
+ * author's co-authors or categories, share a co-author or an archive
+ * (e.g. cs) with them.
+ */
+export function isPaperByAuthor(
+	paper: Pick<Paper, "authors" | "categories">,
+	profile: AuthorProfile,
+): boolean {
+	const author = findPaperAuthor(paper, profile.name);
+	if (!author) {
+		return false;
+	}
+	if (profile.coAuthors.length === 0 && profile.categories.length === 0) {
+		return true;
+	}
+
+	const coAuthorKeys = new Set(profile.coAuthors.map(getAuthorKey));
+	const sharesCoAuthor = (paper.authors ?? []).some(
+		(a) => a !== author && coAuthorKeys.has(getAuthorKey(a)),
+	);
+	const archives = new Set(profile.categories.map(getArchive));
+	const sharesArchive = (paper.categories ?? []).some((c) =>
+		archives.has(getArchive(c)),
+	);
+	return sharesCoAuthor || sharesArchive;
+}
+
+/**
+ * Group papers by an author name into the distinct people behind them
+ *
+ * Two papers are by the same person when they share a co-author or a
+ * primary category.
+ *
+ * @returns Candidates, the one with most papers first
+ */
+export function groupPapersByAuthor(
+	name: string,
+	papers: Paper[],
+): AuthorCandidate[] {
+	const matching = papers.filter((p) => findPaperAuthor(p, name));
+	const parent = matching.map((_, i) => i);
+	const find = (index: number): number => {
+		let root = index;
+		while (parent[root] !== root) {
+			root = parent[root] ?? root;
+		}
+		return root;
+	};
+
+	// Link each paper to the first earlier paper with the same co-author or category
+	const firstSeen = new Map<string, number>();
+	for (const [i, paper] of matching.entries()) {
+		const author = findPaperAuthor(paper, name);
+		const keys = [
+			...(paper.authors ?? [])
+				.filter((a) => a !== author)
+				.map((a) => `au:${getAuthorKey(a)}`),
+			...(paper.categories?.[0] ? [`cat:${paper.categories[0]}`] : []),
+		];
+		for (const key of keys) {
+			const earlier = firstSeen.get(key);
+			if (earlier === undefined) {
+				firstSeen.set(key, i);
+			} else {
+				parent[find(i)] = find(earlier);
+			}
+		}
+	}
+
+	const groups = new Map<number, Paper[]>();
+	for (const [i, paper] of matching.entries()) {
+		const root = find(i);
+		groups.set(root, [...(groups.get(root) ?? []), paper]);
+	}
+
+	return [...groups.values()]
+		.map((group) => ({
+			profile: buildAuthorProfile(name, group),
+			papers: group,
+		}))
+		.sort((a, b) => b.papers.length - a.papers.length);
+}
@@ -0,0 +1,141 @@
+/**
+ * Broadcast Audiences
+ *
+ * Parses /broadcast options, which choose who receives an announcement,
+ * and describes the chosen audience for the preview and history.
+ */
+
+import { isLanguageSupported, type LanguageCode, t } from "../i18n/index.js";
+
+/**
+ * Who receives a broadcast; users must match every option given
+ */
+export interface BroadcastAudience {
+	/** Users whose language is this code */
+	language?: string;
+	/** Users active within this many days */
+	activeDays?: number;
+	/** Users with an active subscription in this arXiv category */
+	category?: string;
+}
+
+/**
+ * Longest broadcast message in characters, leaving room for the header
+ * (Telegram allows 4096)
+ */
+export const MAX_BROADCAST_LENGTH = 3500;
+
+/**
+ * Longest activity window in days
+ */
+const MAX_ACTIVE_DAYS = 3650;
+
+/**
+ * Split /broadcast arguments into audience options and the message
+ *
+ * Options come first; everything after them, line breaks included, is
+ * the message.
+ *
+ * @param args - Raw command arguments
+ * @param lang - Language of the error messages
+ * @returns The audience and message, or an error to show the admin
+ *
+ * @example
+ * parseBroadcastArgs("--lang de --active 30d Neue Funktion: /feed");
+ * // { audience: { language: "de", activeDays: 30 }, message: "Neue Funktion: /feed" }
+ */
+export function parseBroadcastArgs(
+	args: string,
+	lang: LanguageCode | string = "en",
+): { audience: BroadcastAudience; message: string } | { error: string } {
+	const audience: BroadcastAudience = {};
+	let rest = args.trim();
+
+	let match = rest.match(/^--(\w+)(?:=|\s+)(\S+)/);
+	while (match) {
+		const [option = "", name = "", value = ""] = match;
+
+		switch (name) {
+			case "lang": {
+				const language = value.toLowerCase();
+				if (!isLanguageSupported(language)) {
+					return {
+						error: t(lang, "admin.broadcastUnknownLanguage", { value }),
+					};
+				}
+				audience.language = language;
+				break;
+			}
+			case "active": {
+				const days = Number.parseInt(value.match(/^(\d+)d?$/)?.[1] ?? "", 10);
+				if (Number.isNaN(days) || days < 1 || days > MAX_ACTIVE_DAYS) {
+					return { error: t(lang, "admin.broadcastInvalidActive", { value }) };
+				}
+				audience.activeDays = days;
+				break;
+			}
+			case "category": {
+				if (!/^[a-z-]+(\.[A-Za-z-]+)?$/.test(value)) {
+					return {
+						error: t(lang, "admin.broadcastInvalidCategory", { value }),
+					};
+				}
+				audience.category = value;
+				break;
+			}
+			default:
+				return {
+					error: t(lang, "admin.broadcastUnknownOption", {
+						option: `--${name}`,
+					}),
+				};
+		}
+
+		rest = rest.slice(option.length).trimStart();
+		match = rest.match(/^--(\w+)(?:=|\s+)(\S+)/);
+	}
+
+	const message = rest.trim();
+	if (!message) {
+		return { error: t(lang, "admin.broadcastEmpty") };
+	}
+	if (message.length > MAX_BROADCAST_LENGTH) {
+		return {
+			error: t(lang, "admin.broadcastTooLong", {
+				length: message.length,
+				max: MAX_BROADCAST_LENGTH,
+			}),
+		};
+	}
+	return { audience, message };
+}
+
+/**
+ * Describe an audience, e.g. "users with language de, active in the last 30 days"
+ */
+export function describeAudience(
+	audience: BroadcastAudience,
+	lang: LanguageCode | string = "en",
+): string {
+	const conditions: string[] = [];
+	if (audience.language) {
+		conditions.push(
+			t(lang, "admin.audienceLanguage", { language: audience.language }),
+		);
+	}
+	if (audience.activeDays) {
+		conditions.push(
+			audience.activeDays === 1
+				? t(lang, "admin.audienceActiveDay")
+				: t(lang, "admin.audienceActiveDays", { days: audience.activeDays }),
+		);
+	}
+	if (audience.category) {
+		conditions.push(
+			t(lang, "admin.audienceCategory", { category: audience.category }),
+		);
+	}
+	return conditions.length > 0
+		? t(lang, "admin.audienceUsers", { conditions: conditions.join(", ") })
+		: t(lang, "admin.audienceAll");
+}
@@ -0,0 +1,156 @@
+/**
+ * Merged Digests
+ *
+ * Builds the merged digest sent to users who get all their due
+ * subscriptions in one message (/digest merged). Papers found by several
+ * subscriptions are listed once, ranked by how many topics they match,
+ * and the digest is split into pages that fit a Telegram message.
+ *
+ * Everything here works on plain data; fetching papers and formatting
+ * them is done by the subscription worker.
+ */
+
+import type { Paper } from "../arxiv.js";
+
+/**
+ * New papers found by one subscription
+ */
+export interface DigestSection {
+	/** Subscription topic or followed author */
+	topic: string;
+	/** Whether the subscription follows an author */
+	author?: boolean;
+	papers: Paper[];
+}
+
+/**
+ * A paper in a merged digest with the topics it matched
+ */
+export interface DigestPaper {
+	paper: Paper;
+	key: string;
+	topics: string[];
+}
+
+/**
+ * A titled group of papers in a merged digest
+ */
+export interface DigestGroup {
+	title: string;
+	papers: DigestPaper[];
+}
+
+/**
+ * A piece of digest text; paper entries carry the paper's key
+ */
+export interface DigestBlock {
+	text: string;
+	paperKey?: string;
+}
+
+/**
+ * Longest digest page in characters (Telegram allows 4096)
+ */
+export const MAX_DIGEST_PAGE_LENGTH = 3500;
+
+/**
+ * Merge subscription sections, listing each paper once
+ *
+ * Papers are ranked by the number of topics they match; ties keep the
+ * order of the sections and of the papers within them.
+ *
+ * @param sections - New papers per subscription, in digest order
+ * @param getKey - ID identifying the same paper across sections
+ */
+export function mergeDigestPapers(
+	sections: DigestSection[],
+	getKey: (paper: Paper) => string,
+): DigestPaper[] {
+	const merged = new Map<string, DigestPaper>();
+	for (const section of sections) {
+		for (const paper of section.papers) {
+			const key = getKey(paper);
+			const existing = merged.get(key);
+			if (!existing) {
+				merged.set(key, { paper, key, topics: [section.topic] });
+			} else if (!existing.topics.includes(section.topic)) {
+				existing.topics.push(section.topic);
+			}
+		}
+	}
+
+	// Array.prototype.sort is stable, so ties keep their first-seen order
+	return [...merged.values()].sort((a, b) => b.topics.length - a.topics.length);
+}
+
+/**
+ * Group merged papers into digest sections
+ *
+ * Papers matching several topics come first under their own heading;
+ * the rest are listed under the topic that found them.
+ *
+ * @param sections - The sections the papers were merged from
+ * @param papers - Papers from mergeDigestPapers
+ */
+export function groupDigestPapers(
+	sections: DigestSection[],
+	papers: DigestPaper[],
+): DigestGroup[] {
+	const groups: DigestGroup[] = [];
+
+	const shared = papers.filter((p) => p.topics.length > 1);
+	if (shared.length > 0) {
+		groups.push({ title: "🔥 Matching several topics", papers: shared });
+	}
+
+	for (const section of sections) {
+		const own = papers.filter(
+			(p) => p.topics.length === 1 && p.topics[0] === section.topic,
+		);
+		if (own.length > 0) {
+			const icon = section.author ? "👤" : "📌";
+			groups.push({ title: `${icon} ${section.topic}`, papers: own });
+		}
+	}
+
+	return groups;
+}
+
+/**
+ * Split digest blocks into pages of at most maxLength characters
+ *
+ * Blocks are never split, and a heading is moved to the next page rather
+ * than left at the bottom of one.
+ *
+ * @param blocks - Headings and paper entries, in order
+ * @param maxLength - Longest page text (default: MAX_DIGEST_PAGE_LENGTH)
+ * @returns Pages with their text and the keys of the papers on them
+ */
+export function paginateDigest(
+	blocks: DigestBlock[],
+	maxLength = MAX_DIGEST_PAGE_LENGTH,
+): { text: string; paperKeys: string[] }[] {
+	const pages: DigestBlock[][] = [];
+	let current: DigestBlock[] = [];
+	let length = 0;
+
+	for (const block of blocks) {
+		const added = (current.length > 0 ? 2 : 0) + block.text.length;
+		if (current.length > 0 && length + added > maxLength) {
+			const last = current[current.length - 1];
+			const carried =
+				last && !last.paperKey ? [current.pop() as DigestBlock] : [];
+			if (current.length > 0) pages.push(current);
+			current = carried;
+			length = carried.reduce((sum, b) => sum + b.text.length, 0);
+		}
+		length += (current.length > 0 ? 2 : 0) + block.text.length;
+		current.push(block);
+	}
+	if (current.length > 0) pages.push(current);
+
+	return pages.map((page) => ({
+		text: page.map((b) => b.text).join("\n\n"),
+		paperKeys: page.flatMap((b) => (b.paperKey ? [b.paperKey] : [])),
+	}));
+}
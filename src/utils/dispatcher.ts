@@ -0,0 +1,304 @@
+/**
+ * Outbound Message Dispatcher
+ *
+ * Queues messages the bot sends (command replies, subscription updates,
+ * broadcasts, exports) and sends them one at a time within Telegram's
+ * limits: about 30 messages per second overall, one per second to the
+ * same chat and 20 per minute to the same group.
+ *
+ * When Telegram answers 429 the dispatcher pauses all sends for the
+ * `retry_after` it was given and tries the message again. When it answers
+ * 403 (the user blocked the bot, or the bot was removed from the group)
+ * the message fails and `onBlocked` is called for the chat.
+ *
+ * @see https://core.telegram.org/bots/faq#my-bot-is-hitting-limits-how-do-i-avoid-this
+ */
+
+import { logger } from "./logger.js";
+
+/**
+ * Order in which queued messages are sent; FIFO within a priority
+ */
+export type MessagePriority = "high" | "normal" | "low";
+
+/**
+ * What a failed send means for the dispatcher
+ */
+export interface SendFailure {
+	/** Telegram asked to wait this long before sending again */
+	retryAfterMs?: number;
+	/** The chat can no longer be messaged */
+	blocked?: boolean;
+}
+
+/**
+ * Options for an OutboundDispatcher
+ */
+export interface DispatcherOptions {
+	/** Name for logging purposes */
+	name?: string;
+	/** Messages per second across all chats (default: 25) */
+	messagesPerSecond?: number;
+	/** Minimum time between messages to the same private chat in ms (default: 1000) */
+	chatIntervalMs?: number;
+	/** Minimum time between messages to the same group in ms (default: 3000) */
+	groupIntervalMs?: number;
+	/** Times a message is retried after a 429 (default: 3) */
+	maxRetries?: number;
+	/** Classify send errors (default: getTelegramFailure) */
+	classifyError?: (error: unknown) => SendFailure;
+	/** Called once a chat turns out to be blocked */
+	onBlocked?: (chatId: number) => Promise<void> | void;
+}
+
+/**
+ * A message waiting to be sent
+ */
+interface QueuedMessage {
+	chatId: number;
+	request: () => Promise<unknown>;
+	priority: number;
+	seq: number;
+	retries: number;
+	resolve: (value: unknown) => void;
+	reject: (error: unknown) => void;
+}
+
+const PRIORITY_ORDER: Record<MessagePriority, number> = {
+	high: 0,
+	normal: 1,
+	low: 2,
+};
+
+/**
+ * Chats tracked before old per-chat timestamps are dropped
+ */
+const MAX_TRACKED_CHATS = 1000;
+
+/**
+ * Read a gramio TelegramError: 429 carries `payload.retry_after` in
+ * seconds, 403 means the bot may not write to the chat
+ */
+export function getTelegramFailure(error: unknown): SendFailure {
+	if (typeof error !== "object" || error === null || !("code" in error)) {
+		return {};
+	}
+
+	const { code, payload } = error as {
+		code: unknown;
+		payload?: { retry_after?: number };
+	};
+	if (code === 429) {
+		return { retryAfterMs: (payload?.retry_after ?? 1) * 1000 };
+	}
+	if (code === 403) {
+		return { blocked: true };
+	}
+	return {};
+}
+
+/**
+ * Priority queue that sends messages within global and per-chat limits
+ */
+export class OutboundDispatcher {
+	private readonly name: string;
+	private readonly minInterval: number;
+	private readonly chatInterval: number;
+	private readonly groupInterval: number;
+	private readonly maxRetries: number;
+	private readonly classifyError: (error: unknown) => SendFailure;
+	private readonly onBlocked?: (chatId: number) => Promise<void> | void;
+
+	private readonly queue: QueuedMessage[] = [];
+	private readonly chatReadyAt = new Map<number, number>();
+	private nextSendAt = 0;
+	private seq = 0;
+	private running = false;
+
+	/**
+	 * Create a new dispatcher
+	 *
+	 * @param options - Limits, retries and blocked-chat handling
+	 */
+	constructor(options: DispatcherOptions = {}) {
+		this.name = options.name ?? "Dispatcher";
+		this.minInterval = 1000 / (options.messagesPerSecond ?? 25);
+		this.chatInterval = options.chatIntervalMs ?? 1000;
+		this.groupInterval = options.groupIntervalMs ?? 3000;
+		this.maxRetries = options.maxRetries ?? 3;
+		this.classifyError = options.classifyError ?? getTelegramFailure;
+		this.onBlocked = options.onBlocked;
+	}
+
+	/**
+	 * Queue a request to a chat and wait until it has been sent
+	 *
+	 * @param chatId - Chat the request sends to (negative for groups)
+	 * @param request - Performs the API call
+	 * @param priority - Queue priority (default: normal)
+	 * @returns The request's result
+	 * @throws The request's error if it failed for good
+	 *
+	 * @example
+	 * await dispatcher.send(chatId, () =>
+	 *   bot.api.sendMessage({ chat_id: chatId, text: "Hello" }),
+	 * );
+	 */
+	send<T>(
+		chatId: number,
+		request: () => Promise<T>,
+		priority: MessagePriority = "normal",
+	): Promise<T> {
+		return new Promise<T>((resolve, reject) => {
+			this.queue.push({
+				chatId,
+				request,
+				priority: PRIORITY_ORDER[priority],
+				seq: this.seq++,
+				retries: 0,
+				resolve: resolve as (value: unknown) => void,
+				reject,
+			});
+			void this.run();
+		});
+	}
+
+	/**
+	 * Get the number of messages waiting to be sent
+	 */
+	getQueueLength(): number {
+		return this.queue.length;
+	}
+
+	/**
+	 * Time until the next message may be sent in ms (0 if not waiting)
+	 */
+	getWaitTime(): number {
+		return Math.max(0, this.nextSendAt - Date.now());
+	}
+
+	/**
+	 * Send queued messages until the queue is empty
+	 */
+	private async run(): Promise<void> {
+		if (this.running) return;
+		this.running = true;
+
+		try {
+			while (this.queue.length > 0) {
+				const now = Date.now();
+				const { index, readyAt } = this.pickNext(now);
+				const wait = Math.max(this.nextSendAt, readyAt) - now;
+				if (wait > 0) {
+					// Pick again afterwards: more urgent messages may have arrived
+					await sleep(wait);
+					continue;
+				}
+
+				const [message] = this.queue.splice(index, 1);
+				if (message) {
+					await this.deliver(message);
+				}
+			}
+		} finally {
+			this.running = false;
+		}
+	}
+
+	/**
+	 * Choose the most urgent message whose chat is ready, or else the one
+	 * whose chat is ready soonest
+	 */
+	private pickNext(now: number): { index: number; readyAt: number } {
+		let best = { index: 0, readyAt: Number.POSITIVE_INFINITY };
+		let bestMessage: QueuedMessage | undefined;
+
+		for (const [index, message] of this.queue.entries()) {
+			const readyAt = Math.max(now, this.chatReadyAt.get(message.chatId) ?? 0);
+			const better =
+				!bestMessage ||
+				readyAt < best.readyAt ||
+				(readyAt === best.readyAt &&
+					(message.priority < bestMessage.priority ||
+						(message.priority === bestMessage.priority &&
+							message.seq < bestMessage.seq)));
+			if (better) {
+				best = { index, readyAt };
+				bestMessage = message;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Send one message, requeueing it if Telegram asks to wait
+	 */
+	private async deliver(message: QueuedMessage): Promise<void> {
+		const { chatId } = message;
+		const now = Date.now();
+		this.nextSendAt = now + this.minInterval;
+		this.chatReadyAt.set(
+			chatId,
+			now + (chatId < 0 ? this.groupInterval : this.chatInterval),
+		);
+		this.forgetIdleChats(now);
+
+		try {
+			message.resolve(await message.request());
+			return;
+		} catch (error) {
+			const failure = this.classifyError(error);
+
+			if (
+				failure.retryAfterMs !== undefined &&
+				message.retries < this.maxRetries
+			) {
+				message.retries++;
+				// Keeps its place: seq is unchanged
+				this.queue.push(message);
+				this.nextSendAt = Math.max(
+					this.nextSendAt,
+					Date.now() + failure.retryAfterMs,
+				);
+				logger.warn(`${this.name}: Rate limited, pausing sends`, {
+					chatId,
+					retryAfterMs: failure.retryAfterMs,
+					retry: message.retries,
+				});
+				return;
+			}
+
+			if (failure.blocked) {
+				logger.info(`${this.name}: Chat blocked the bot`, { chatId });
+				try {
+					await this.onBlocked?.(chatId);
+				} catch (blockedError) {
+					logger.error(`${this.name}: Error handling blocked chat`, {
+						chatId,
+						error:
+							blockedError instanceof Error
+								? blockedError.message
+								: String(blockedError),
+					});
+				}
+			}
+			message.reject(error);
+		}
+	}
+
+	/**
+	 * Drop per-chat timestamps that no longer hold anything back
+	 */
+	private forgetIdleChats(now: number): void {
+		if (this.chatReadyAt.size <= MAX_TRACKED_CHATS) return;
+		for (const [chatId, readyAt] of this.chatReadyAt) {
+			if (readyAt <= now) {
+				this.chatReadyAt.delete(chatId);
+			}
+		}
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
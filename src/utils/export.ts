@@ -3,6 +3,10 @@
  *
  * Provides functions to export paper data in various formats:
  * - BibTeX: For citation managers and LaTeX documents
+ * - RIS: Tagged format read by Zotero, Mendeley and EndNote
+ * - CSL-JSON: Citation Style Language items (Zotero, Pandoc)
+ * - EndNote XML: EndNote's native import format
+ * - Markdown: Human-readable reading lists
  */
 
 import type { Paper } from "../arxiv.js";
@@ -35,7 +39,11 @@ export function extractArxivId(link: string): string | null {
 /**
  * Generate a citation key from arXiv ID and authors
  */
-function generateCitationKey(arxivId: string, authors?: string[]): string {
+function generateCitationKey(
+	arxivId: string,
+	authors?: string[],
+	prefix = "arxiv",
+): string {
 	// Try to use first author's last name
 	if (authors?.[0]) {
 		const lastName = authors[0].split(" ").pop()?.toLowerCase() || "unknown";
@@ -44,7 +52,7 @@ function generateCitationKey(arxivId: string, authors?: string[]): string {
 		return `${cleanName}${arxivId.replace(/[./]/g, "")}`;
 	}
 
-	return `arxiv${arxivId.replace(/[./]/g, "")}`;
+	return `${prefix}${arxivId.replace(/[./]/g, "")}`;
 }
 
 /**
@@ -59,10 +67,27 @@ function escapeBibTeX(text: string): string {
 		.replace(/\n/g, " ");
 }
 
+/**
+ * Extra fields for an exported entry
+ */
+export interface ExportOptions {
+	/** Free-text note (e.g. the user's bookmark notes) */
+	note?: string;
+}
+
+/**
+ * Format the optional note field line
+ */
+function formatNoteField(options?: ExportOptions): string | null {
+	const note = options?.note?.trim();
+	return note ? `  note={${escapeBibTeX(note)}},` : null;
+}
+
 /**
  * Convert paper to BibTeX format
  *
  * @param paper - Paper object to convert
+ * @param options - Extra fields such as a note
  * @returns BibTeX formatted string
  *
  * @example
@@ -74,14 +99,25 @@ function escapeBibTeX(text: string): string {
  * //   ...
  * // }
  */
-export function toBibTeX(paper: Paper): string {
-	const arxivId = extractArxivId(paper.link) || "unknown";
+export function toBibTeX(paper: Paper, options?: ExportOptions): string {
+	const source = paper.source ?? "arxiv";
 	const authors = paper.authors?.join(" and ") || "Unknown";
 	const year = paper.published?.split("-")[0] || new Date().getFullYear();
+
+	if (source !== "arxiv") {
+		return toSourceBibTeX(paper, authors, year, options);
+	}
+
+	const arxivId = paper.externalId || extractArxivId(paper.link) || "unknown";
 	const citationKey = generateCitationKey(arxivId, paper.authors);
 
 	// Get primary category if available
-	const primaryClass = paper.categories?.[0] || "cs";
+	const primaryClass = paper.primaryCategory || paper.categories?.[0] || "cs";
+
+	const noteField = formatNoteField(options);
+
+	// DOI of the published version, when the authors added one
+	const doiField = paper.doi ? `  doi={${paper.doi}},` : null;
 
 	const bibtex = `@article{${citationKey},
   title={${escapeBibTeX(paper.title)}},
@@ -90,8 +126,415 @@ export function toBibTeX(paper: Paper): string {
   eprint={${arxivId}},
   archivePrefix={arXiv},
   primaryClass={${primaryClass}},
-  url={${paper.link}}
+${doiField ? `${doiField}\n` : ""}${noteField ? `${noteField}\n` : ""}  url={${paper.link}}
 }`;
 
 	return bibtex;
 }
+
+/**
+ * Convert a non-arXiv paper to BibTeX
+ *
+ * DOI-based sources (Crossref, bioRxiv) emit a doi field,
+ * PubMed emits the PMID as a biblatex eprint.
+ */
+function toSourceBibTeX(
+	paper: Paper,
+	authors: string,
+	year: string | number,
+	options?: ExportOptions,
+): string {
+	const externalId = paper.externalId || "unknown";
+	const citationKey = generateCitationKey(
+		externalId.replace(/[^A-Za-z0-9]/g, ""),
+		paper.authors,
+		paper.source,
+	);
+
+	const fields = [
+		`  title={${escapeBibTeX(paper.title)}},`,
+		`  author={${escapeBibTeX(authors)}},`,
+		`  year={${year}},`,
+	];
+
+	if (paper.source === "crossref" || paper.source === "biorxiv") {
+		fields.push(`  doi={${externalId}},`);
+	} else if (paper.source === "pubmed") {
+		fields.push(`  eprint={${externalId}},`, "  eprinttype={pubmed},");
+	}
+
+	const noteField = formatNoteField(options);
+	if (noteField) {
+		fields.push(noteField);
+	}
+
+	fields.push(`  url={${paper.link}}`);
+
+	return `@article{${citationKey},\n${fields.join("\n")}\n}`;
+}
+
+/**
+ * Identifiers of a paper, depending on its source
+ */
+interface PaperIdentifiers {
+	arxivId?: string;
+	doi?: string;
+	pmid?: string;
+}
+
+/**
+ * Get the standard identifiers of a paper
+ */
+function getPaperIdentifiers(paper: Paper): PaperIdentifiers {
+	const source = paper.source ?? "arxiv";
+
+	if (source === "arxiv") {
+		const arxivId = paper.externalId || extractArxivId(paper.link);
+		return {
+			...(arxivId ? { arxivId } : {}),
+			...(paper.doi ? { doi: paper.doi } : {}),
+		};
+	}
+	if (source === "crossref" || source === "biorxiv") {
+		const doi = paper.doi ?? paper.externalId;
+		return doi ? { doi } : {};
+	}
+	if (source === "pubmed") {
+		return paper.externalId ? { pmid: paper.externalId } : {};
+	}
+
+	return {};
+}
+
+/**
+ * Split a display name into family and given names
+ *
+ * @example
+ * splitAuthorName("Jane van Doe") // { given: "Jane", family: "van Doe" }
+ */
+function splitAuthorName(name: string): { family: string; given?: string } {
+	const parts = name.trim().split(/\s+/);
+	if (parts.length < 2) {
+		return { family: name.trim() };
+	}
+
+	// Keep lowercase particles ("van", "de") with the family name
+	let familyStart = parts.length - 1;
+	while (familyStart > 1 && /^[a-z]/.test(parts[familyStart - 1] ?? "")) {
+		familyStart--;
+	}
+
+	return {
+		family: parts.slice(familyStart).join(" "),
+		given: parts.slice(0, familyStart).join(" "),
+	};
+}
+
+/**
+ * Format a name as "Family, Given" for RIS and EndNote
+ */
+function toInvertedName(name: string): string {
+	const { family, given } = splitAuthorName(name);
+	return given ? `${family}, ${given}` : family;
+}
+
+/**
+ * Split an ISO date into year, month and day parts
+ */
+function getDateParts(date: string): number[] {
+	const match = date.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+	if (!match) {
+		return [];
+	}
+	return match
+		.slice(1)
+		.filter((part): part is string => part !== undefined)
+		.map((part) => Number.parseInt(part, 10));
+}
+
+/**
+ * Collapse whitespace so a value fits on a single line
+ */
+function toSingleLine(text: string): string {
+	return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Convert paper to an RIS record
+ *
+ * @param paper - Paper object to convert
+ * @param options - Extra fields such as a note
+ * @returns RIS record ending with an ER tag
+ *
+ * @example
+ * const ris = toRIS(paper);
+ * // TY  - JOUR
+ * // TI  - Deep Learning for ...
+ * // AU  - Smith, John
+ * // ...
+ * // ER  -
+ */
+export function toRIS(paper: Paper, options?: ExportOptions): string {
+	const { arxivId, doi, pmid } = getPaperIdentifiers(paper);
+	const dateParts = getDateParts(paper.published ?? "");
+	const lines: string[] = ["TY  - JOUR", `TI  - ${toSingleLine(paper.title)}`];
+
+	for (const author of paper.authors ?? []) {
+		lines.push(`AU  - ${toInvertedName(author)}`);
+	}
+
+	const [year, month, day] = dateParts;
+	if (year) {
+		lines.push(`PY  - ${year}`);
+	}
+	if (year && month) {
+		const pad = (n?: number) => (n ? String(n).padStart(2, "0") : "");
+		lines.push(`DA  - ${year}/${pad(month)}/${pad(day)}`);
+	}
+
+	if (arxivId) {
+		lines.push("JO  - arXiv", `AN  - arXiv:${arxivId}`);
+	}
+	if (pmid) {
+		lines.push(`AN  - PMID:${pmid}`);
+	}
+	if (doi) {
+		lines.push(`DO  - ${doi}`);
+	}
+
+	if (paper.summary) {
+		lines.push(`AB  - ${toSingleLine(paper.summary)}`);
+	}
+	for (const category of paper.categories ?? []) {
+		lines.push(`KW  - ${category}`);
+	}
+
+	const note = options?.note?.trim();
+	if (note) {
+		lines.push(`N1  - ${toSingleLine(note)}`);
+	}
+
+	lines.push(`UR  - ${paper.link}`, "ER  - ");
+
+	return lines.join("\n");
+}
+
+/**
+ * A CSL-JSON item
+ *
+ * Only the fields we export are typed; see the CSL-JSON schema for the rest.
+ */
+export interface CSLItem {
+	id: string;
+	type: string;
+	title: string;
+	author?: { family: string; given?: string }[];
+	issued?: { "date-parts": number[][] };
+	abstract?: string;
+	"container-title"?: string;
+	number?: string;
+	DOI?: string;
+	PMID?: string;
+	URL: string;
+	keyword?: string;
+	note?: string;
+}
+
+/**
+ * Convert paper to a CSL-JSON item
+ *
+ * @param paper - Paper object to convert
+ * @param options - Extra fields such as a note
+ * @returns CSL-JSON item (serialize an array of items for a file)
+ */
+export function toCSLJSON(paper: Paper, options?: ExportOptions): CSLItem {
+	const { arxivId, doi, pmid } = getPaperIdentifiers(paper);
+	const dateParts = getDateParts(paper.published ?? "");
+	const id = arxivId ?? doi ?? pmid ?? paper.externalId ?? paper.link;
+
+	const item: CSLItem = {
+		id: generateCitationKey(
+			id.replace(/[^A-Za-z0-9.]/g, ""),
+			paper.authors,
+			paper.source ?? "arxiv",
+		),
+		// CSL has no preprint type in 1.0.1; "article" is what Zotero emits for preprints
+		type: arxivId ? "article" : "article-journal",
+		title: toSingleLine(paper.title),
+		URL: paper.link,
+	};
+
+	if (paper.authors?.length) {
+		item.author = paper.authors.map(splitAuthorName);
+	}
+	if (dateParts.length > 0) {
+		item.issued = { "date-parts": [dateParts] };
+	}
+	if (paper.summary) {
+		item.abstract = toSingleLine(paper.summary);
+	}
+	if (arxivId) {
+		item["container-title"] = "arXiv";
+		item.number = arxivId;
+	}
+	if (doi) {
+		item.DOI = doi;
+	}
+	if (pmid) {
+		item.PMID = pmid;
+	}
+	if (paper.categories?.length) {
+		item.keyword = paper.categories.join(", ");
+	}
+
+	const note = options?.note?.trim();
+	if (note) {
+		item.note = note;
+	}
+
+	return item;
+}
+
+/**
+ * Escape special characters for XML
+ */
+function escapeXML(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+/**
+ * Convert paper to an EndNote XML record
+ *
+ * @param paper - Paper object to convert
+ * @param options - Extra fields such as a note
+ * @returns <record> element (wrap records with toEndNoteXML)
+ */
+export function toEndNoteRecord(paper: Paper, options?: ExportOptions): string {
+	const { arxivId, doi, pmid } = getPaperIdentifiers(paper);
+	const year = getDateParts(paper.published ?? "")[0];
+	const parts: string[] = ['<ref-type name="Journal Article">17</ref-type>'];
+
+	if (paper.authors?.length) {
+		const authors = paper.authors
+			.map((author) => `<author>${escapeXML(toInvertedName(author))}</author>`)
+			.join("");
+		parts.push(`<contributors><authors>${authors}</authors></contributors>`);
+	}
+
+	parts.push(
+		`<titles><title>${escapeXML(toSingleLine(paper.title))}</title>${arxivId ? "<secondary-title>arXiv</secondary-title>" : ""}</titles>`,
+	);
+
+	if (year) {
+		parts.push(
+			`<dates><year>${year}</year><pub-dates><date>${escapeXML(paper.published)}</date></pub-dates></dates>`,
+		);
+	}
+	if (arxivId) {
+		parts.push(`<accession-num>arXiv:${escapeXML(arxivId)}</accession-num>`);
+	}
+	if (pmid) {
+		parts.push(`<accession-num>PMID:${escapeXML(pmid)}</accession-num>`);
+	}
+	if (doi) {
+		parts.push(
+			`<electronic-resource-num>${escapeXML(doi)}</electronic-resource-num>`,
+		);
+	}
+	if (paper.summary) {
+		parts.push(
+			`<abstract>${escapeXML(toSingleLine(paper.summary))}</abstract>`,
+		);
+	}
+	if (paper.categories?.length) {
+		const keywords = paper.categories
+			.map((category) => `<keyword>${escapeXML(category)}</keyword>`)
+			.join("");
+		parts.push(`<keywords>${keywords}</keywords>`);
+	}
+
+	const note = options?.note?.trim();
+	if (note) {
+		parts.push(`<notes>${escapeXML(note)}</notes>`);
+	}
+
+	parts.push(
+		`<urls><related-urls><url>${escapeXML(paper.link)}</url></related-urls></urls>`,
+	);
+
+	return `<record>${parts.join("")}</record>`;
+}
+
+/**
+ * Wrap EndNote records in an EndNote XML document
+ */
+export function toEndNoteXML(records: string[]): string {
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<xml><records>
+${records.join("\n")}
+</records></xml>`;
+}
+
+/**
+ * Extra fields for a Markdown reading list entry
+ */
+export interface MarkdownOptions extends ExportOptions {
+	/** Whether the paper has been read (rendered as a checked box) */
+	done?: boolean;
+	/** Reading status label */
+	status?: string;
+	/** Rating from 1 to 5 */
+	rating?: number | null;
+}
+
+/**
+ * Convert paper to a Markdown reading list entry
+ *
+ * @param paper - Paper object to convert
+ * @param options - Reading status, rating and note
+ * @returns Markdown task list item
+ *
+ * @example
+ * const md = toMarkdownEntry(paper, { done: true, rating: 4 });
+ * // - [x] [Deep Learning for ...](http://arxiv.org/abs/2301.00001)
+ * //   John Smith, Jane Doe (2023) · arXiv:2301.00001 · ★★★★☆
+ */
+export function toMarkdownEntry(
+	paper: Paper,
+	options?: MarkdownOptions,
+): string {
+	const { arxivId, doi, pmid } = getPaperIdentifiers(paper);
+	const title = toSingleLine(paper.title).replace(/([[\]])/g, "\\$1");
+	const year = getDateParts(paper.published ?? "")[0];
+
+	const details = [
+		`${paper.authors?.join(", ") || "Unknown"}${year ? ` (${year})` : ""}`,
+	];
+	if (arxivId) details.push(`arXiv:${arxivId}`);
+	if (doi) details.push(`DOI:${doi}`);
+	if (pmid) details.push(`PMID:${pmid}`);
+	if (options?.status) details.push(options.status);
+	if (options?.rating) {
+		const rating = Math.max(0, Math.min(5, options.rating));
+		details.push("★".repeat(rating) + "☆".repeat(5 - rating));
+	}
+
+	const lines = [
+		`- [${options?.done ? "x" : " "}] [${title}](${paper.link})`,
+		`  ${details.join(" · ")}`,
+	];
+
+	const note = options?.note?.trim();
+	if (note) {
+		for (const line of note.split("\n")) {
+			lines.push(`  > ${line}`.trimEnd());
+		}
+	}
+
+	return lines.join("\n");
+}
@@ -1,8 +1,9 @@
 /**
  * Export Storage Utility
  *
- * Provides persistent storage for export files (BibTeX, CSV).
- * Uses Redis (Upstash) for persistence in production/serverless environments
+ * Provides persistent storage for export files (BibTeX, CSV, RIS, CSL-JSON,
+ * EndNote XML, Markdown).
+ * Uses Redis (see storage/redisClient.ts) for persistence in production/serverless environments
  * with fallback to in-memory storage for local development.
  *
  * Features:
@@ -13,11 +14,42 @@
  */
 
 import { config, isRedisConfigured } from "../config.js";
+import { getRedisClient, type RedisClient } from "../storage/redisClient.js";
 import { logger } from "./logger.js";
 
+/**
+ * Supported export formats
+ */
+export type ExportFormat =
+	| "bibtex"
+	| "csv"
+	| "ris"
+	| "csljson"
+	| "endnote"
+	| "markdown";
+
+/**
+ * All export formats, in the order they are offered to users
+ */
+export const EXPORT_FORMATS: readonly ExportFormat[] = [
+	"bibtex",
+	"csv",
+	"ris",
+	"csljson",
+	"endnote",
+	"markdown",
+];
+
+/**
+ * Check whether a string is a supported export format
+ */
+export function isExportFormat(value: string): value is ExportFormat {
+	return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
 export interface ExportData {
 	content: string;
-	format: "bibtex" | "csv";
+	format: ExportFormat;
 	filename: string;
 	userId: number;
 	createdAt: number;
@@ -36,116 +68,21 @@ const EXPORT_KEY_PREFIX = "export:";
 const memoryStore = new Map<string, ExportData>();
 
 /**
- * Upstash Redis client for export storage
+ * Get the shared Redis client, or null if Redis is not configured
  */
-class ExportRedisClient {
-	private readonly url: string;
-	private readonly token: string;
-
-	constructor(redisUrl: string) {
-		const parsed = this.parseRedisUrl(redisUrl);
-		this.url = parsed.restUrl;
-		this.token = parsed.token;
-	}
-
-	private parseRedisUrl(redisUrl: string): { restUrl: string; token: string } {
-		try {
-			if (redisUrl.startsWith("https://")) {
-				const url = new URL(redisUrl);
-				if (url.password) {
-					return {
-						restUrl: `https://${url.hostname}`,
-						token: url.password,
-					};
-				}
-				throw new Error("HTTPS URL provided without token");
-			}
-
-			const url = new URL(redisUrl);
-			const hostname = url.hostname;
-			const token = url.password;
-
-			if (!token) {
-				throw new Error("No token found in Redis URL");
-			}
-
-			return {
-				restUrl: `https://${hostname}`,
-				token,
-			};
-		} catch (error) {
-			throw new Error(
-				`Invalid Redis URL format: ${error instanceof Error ? error.message : "Unknown error"}`,
-			);
-		}
-	}
-
-	private async request<T = unknown>(
-		command: string[],
-	): Promise<{ result: T | null; error?: string }> {
-		try {
-			const response = await fetch(this.url, {
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${this.token}`,
-					"Content-Type": "application/json",
-				},
-				body: JSON.stringify(command),
-			});
-
-			if (!response.ok) {
-				const text = await response.text();
-				return { result: null, error: text };
-			}
-
-			return (await response.json()) as { result: T | null; error?: string };
-		} catch (error) {
-			return {
-				result: null,
-				error: error instanceof Error ? error.message : "Unknown error",
-			};
-		}
-	}
-
-	async get(key: string): Promise<string | null> {
-		const response = await this.request<string>(["GET", key]);
-		return response.result;
-	}
-
-	async set(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
-		const command = ttlSeconds
-			? ["SET", key, value, "EX", String(ttlSeconds)]
-			: ["SET", key, value];
-		const response = await this.request(command);
-		return response.result === "OK";
-	}
-
-	async delete(key: string): Promise<boolean> {
-		const response = await this.request<number>(["DEL", key]);
-		return response.result === 1;
-	}
-}
-
-// Lazy-initialized Redis client
-let redisClient: ExportRedisClient | null = null;
-
-function getRedisClient(): ExportRedisClient | null {
+function getExportRedis(): RedisClient | null {
 	if (!isRedisConfigured() || !config.REDIS_URL) {
 		return null;
 	}
 
-	if (!redisClient) {
-		try {
-			redisClient = new ExportRedisClient(config.REDIS_URL);
-		} catch (error) {
-			logger.error("Failed to initialize Redis client for exports", {
-				error: error instanceof Error ? error.message : String(error),
-			});
-			return null;
-		}
+	try {
+		return getRedisClient(config.REDIS_URL);
+	} catch (error) {
+		logger.error("Failed to initialize Redis client for exports", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return null;
 	}
-
-	return redisClient;
 }
 
 /**
@@ -179,7 +116,7 @@ export async function storeExport(
 		expiresAt: now + ttlSeconds * 1000,
 	};
 
-	const redis = getRedisClient();
+	const redis = getExportRedis();
 	const key = `${EXPORT_KEY_PREFIX}${token}`;
 
 	if (redis) {
@@ -234,7 +171,7 @@ export async function storeExport(
 export async function getExportAsync(
 	token: string,
 ): Promise<ExportData | null> {
-	const redis = getRedisClient();
+	const redis = getExportRedis();
 	const key = `${EXPORT_KEY_PREFIX}${token}`;
 
 	if (redis) {
@@ -245,13 +182,13 @@ export async function getExportAsync(
 
 				// Check expiration
 				if (Date.now() > exportData.expiresAt) {
-					await redis.delete(key);
+					await redis.del(key);
 					return null;
 				}
 
 				// Handle one-time download
 				if (exportData.oneTimeDownload) {
-					await redis.delete(key);
+					await redis.del(key);
 				}
 
 				logger.debug("Retrieved export from Redis", {
@@ -329,14 +266,14 @@ export function getExport(token: string): ExportData | null {
  * @returns True if deleted
  */
 export async function deleteExport(token: string): Promise<boolean> {
-	const redis = getRedisClient();
+	const redis = getExportRedis();
 	const key = `${EXPORT_KEY_PREFIX}${token}`;
 
 	let deleted = false;
 
 	if (redis) {
 		try {
-			deleted = await redis.delete(key);
+			deleted = (await redis.del(key)) === 1;
 		} catch (error) {
 			logger.error("Failed to delete export from Redis", {
 				error: error instanceof Error ? error.message : String(error),
@@ -356,12 +293,20 @@ export async function deleteExport(token: string): Promise<boolean> {
 /**
  * Get MIME type for export format
  */
-export function getExportMimeType(format: "bibtex" | "csv"): string {
+export function getExportMimeType(format: ExportFormat): string {
 	switch (format) {
 		case "bibtex":
 			return "application/x-bibtex";
 		case "csv":
 			return "text/csv";
+		case "ris":
+			return "application/x-research-info-systems";
+		case "csljson":
+			return "application/vnd.citationstyles.csl+json";
+		case "endnote":
+			return "application/xml";
+		case "markdown":
+			return "text/markdown";
 		default:
 			return "application/octet-stream";
 	}
@@ -370,12 +315,20 @@ export function getExportMimeType(format: "bibtex" | "csv"): string {
 /**
  * Get file extension for export format
  */
-export function getExportExtension(format: "bibtex" | "csv"): string {
+export function getExportExtension(format: ExportFormat): string {
 	switch (format) {
 		case "bibtex":
 			return ".bib";
 		case "csv":
 			return ".csv";
+		case "ris":
+			return ".ris";
+		case "csljson":
+			return ".json";
+		case "endnote":
+			return ".xml";
+		case "markdown":
+			return ".md";
 		default:
 			return ".txt";
 	}
@@ -392,7 +345,7 @@ export function getExportExtension(format: "bibtex" | "csv"): string {
  */
 export async function createExport(
 	content: string,
-	format: "bibtex" | "csv",
+	format: ExportFormat,
 	userId: number,
 	options?: {
 		ttlSeconds?: number;
@@ -0,0 +1,558 @@
+/**
+ * Import Utilities
+ *
+ * Parses reference files back into plain entries. Supports the formats
+ * produced by ./export.ts:
+ * - BibTeX
+ * - RIS
+ * - CSL-JSON
+ * - EndNote XML
+ * - Markdown reading lists
+ *
+ * and plain-text lists of arXiv IDs, DOIs and PMIDs.
+ */
+
+import { XMLParser } from "fast-xml-parser";
+import { parsePaperId } from "../sources/paperId.js";
+import { extractArxivId } from "./export.js";
+
+const xmlParser = new XMLParser({
+	ignoreAttributes: true,
+	parseTagValue: false,
+	isArray: (name) =>
+		["record", "author", "keyword", "url", "accession-num"].includes(name),
+});
+
+/**
+ * A reference parsed from an imported file
+ */
+export interface ImportedEntry {
+	title?: string;
+	authors: string[];
+	year?: number;
+	arxivId?: string;
+	doi?: string;
+	pmid?: string;
+	url?: string;
+	note?: string;
+}
+
+/**
+ * Turn "Family, Given" into "Given Family"
+ */
+function fromInvertedName(name: string): string {
+	const [family = "", given] = name.split(/,\s*/, 2);
+	return given ? `${given} ${family}`.trim() : family.trim();
+}
+
+/**
+ * Apply an accession number ("arXiv:..." or "PMID:...") to an entry
+ */
+function applyAccessionNumber(entry: ImportedEntry, value: string): void {
+	const match = value.trim().match(/^(arxiv|pmid):\s*(\S+)$/i);
+	if (!match?.[1] || !match[2]) return;
+
+	if (match[1].toLowerCase() === "arxiv") {
+		entry.arxivId = match[2];
+	} else {
+		entry.pmid = match[2];
+	}
+}
+
+/**
+ * Fill in the arXiv ID from the URL when no explicit ID was given
+ */
+function withArxivFromUrl(entry: ImportedEntry): ImportedEntry {
+	if (!entry.arxivId && entry.url) {
+		const arxivId = extractArxivId(entry.url);
+		if (arxivId) {
+			entry.arxivId = arxivId;
+		}
+	}
+	return entry;
+}
+
+/**
+ * Parse an RIS file
+ *
+ * @param text - RIS file contents
+ * @returns One entry per TY ... ER record
+ */
+export function parseRIS(text: string): ImportedEntry[] {
+	const entries: ImportedEntry[] = [];
+	let current: ImportedEntry | null = null;
+
+	for (const line of text.split(/\r?\n/)) {
+		const match = line.match(/^([A-Z][A-Z0-9])\s{1,2}-\s?(.*)$/);
+		if (!match?.[1]) continue;
+
+		const tag = match[1];
+		const value = (match[2] ?? "").trim();
+
+		if (tag === "TY") {
+			current = { authors: [] };
+			continue;
+		}
+		if (!current) continue;
+
+		switch (tag) {
+			case "TI":
+			case "T1":
+				current.title = value;
+				break;
+			case "AU":
+			case "A1":
+				current.authors.push(fromInvertedName(value));
+				break;
+			case "PY":
+			case "Y1": {
+				const year = Number.parseInt(value, 10);
+				if (!Number.isNaN(year)) current.year = year;
+				break;
+			}
+			case "DO":
+				current.doi = value;
+				break;
+			case "AN":
+				applyAccessionNumber(current, value);
+				break;
+			case "UR":
+				current.url = value;
+				break;
+			case "N1":
+				current.note = value;
+				break;
+			case "ER":
+				entries.push(withArxivFromUrl(current));
+				current = null;
+				break;
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Parse a CSL-JSON file
+ *
+ * @param text - JSON array of CSL items (a single item is also accepted)
+ * @returns Parsed entries, or an empty array if the JSON is invalid
+ */
+export function parseCSLJSON(text: string): ImportedEntry[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return [];
+	}
+
+	const items = (Array.isArray(data) ? data : [data]) as Record<
+		string,
+		unknown
+	>[];
+
+	return items
+		.filter((item) => item && typeof item === "object")
+		.map((item) => {
+			const authors = Array.isArray(item.author)
+				? (
+						item.author as {
+							family?: string;
+							given?: string;
+							literal?: string;
+						}[]
+					)
+						.map(
+							(a) => a.literal ?? [a.given, a.family].filter(Boolean).join(" "),
+						)
+						.filter(Boolean)
+				: [];
+			const issued = item.issued as { "date-parts"?: number[][] } | undefined;
+			const isArxiv = item["container-title"] === "arXiv";
+
+			return withArxivFromUrl({
+				title: typeof item.title === "string" ? item.title : undefined,
+				authors,
+				year: issued?.["date-parts"]?.[0]?.[0],
+				arxivId:
+					isArxiv && typeof item.number === "string" ? item.number : undefined,
+				doi: typeof item.DOI === "string" ? item.DOI : undefined,
+				pmid: typeof item.PMID === "string" ? item.PMID : undefined,
+				url: typeof item.URL === "string" ? item.URL : undefined,
+				note: typeof item.note === "string" ? item.note : undefined,
+			});
+		});
+}
+
+/**
+ * Get the text of an EndNote XML element, which may be wrapped in <style>
+ */
+function getXMLText(value: unknown): string | undefined {
+	if (typeof value === "string") return value;
+	if (typeof value === "number") return String(value);
+	if (value && typeof value === "object" && "style" in value) {
+		return getXMLText((value as { style: unknown }).style);
+	}
+	return undefined;
+}
+
+/**
+ * Parse an EndNote XML file
+ *
+ * @param text - EndNote XML document
+ * @returns One entry per <record>
+ */
+export function parseEndNoteXML(text: string): ImportedEntry[] {
+	let doc: { xml?: { records?: { record?: Record<string, unknown>[] } } };
+	try {
+		doc = xmlParser.parse(text);
+	} catch {
+		return [];
+	}
+
+	return (doc.xml?.records?.record ?? []).map((record) => {
+		const contributors = record.contributors as
+			| { authors?: { author?: unknown[] } }
+			| undefined;
+		const titles = record.titles as { title?: unknown } | undefined;
+		const dates = record.dates as { year?: unknown } | undefined;
+		const urls = record.urls as
+			| { "related-urls"?: { url?: unknown[] } }
+			| undefined;
+		const year = Number.parseInt(getXMLText(dates?.year) ?? "", 10);
+
+		const entry: ImportedEntry = {
+			title: getXMLText(titles?.title),
+			authors: (contributors?.authors?.author ?? [])
+				.map(getXMLText)
+				.filter((name): name is string => !!name)
+				.map(fromInvertedName),
+			year: Number.isNaN(year) ? undefined : year,
+			doi: getXMLText(record["electronic-resource-num"]),
+			url: getXMLText(urls?.["related-urls"]?.url?.[0]),
+			note: getXMLText(record.notes),
+		};
+
+		for (const accession of (record["accession-num"] as unknown[]) ?? []) {
+			applyAccessionNumber(entry, getXMLText(accession) ?? "");
+		}
+
+		return withArxivFromUrl(entry);
+	});
+}
+
+/**
+ * Parse a Markdown reading list
+ *
+ * Reads task list items of the form "- [ ] [Title](url)" followed by an
+ * indented details line and optional "> note" lines.
+ *
+ * @param text - Markdown document
+ * @returns One entry per list item
+ */
+export function parseMarkdownReadingList(text: string): ImportedEntry[] {
+	const entries: ImportedEntry[] = [];
+	let current: ImportedEntry | null = null;
+	let noteLines: string[] = [];
+
+	const finish = () => {
+		if (!current) return;
+		if (noteLines.length > 0) current.note = noteLines.join("\n");
+		entries.push(withArxivFromUrl(current));
+		current = null;
+		noteLines = [];
+	};
+
+	for (const line of text.split(/\r?\n/)) {
+		const item = line.match(/^- \[[ xX]\] \[((?:\\.|[^\]])*)\]\(([^)\s]+)\)/);
+		if (item) {
+			finish();
+			current = {
+				title: (item[1] ?? "").replace(/\\([[\]])/g, "$1"),
+				authors: [],
+				url: item[2],
+			};
+			continue;
+		}
+		if (!current) continue;
+
+		const note = line.match(/^\s+>\s?(.*)$/);
+		if (note) {
+			noteLines.push(note[1] ?? "");
+			continue;
+		}
+
+		const details = line.match(/^\s+(\S.*)$/);
+		if (details?.[1] && !current.authors.length) {
+			const [byline = "", ...ids] = details[1].split(" · ");
+			const year = byline.match(/\((\d{4})\)$/);
+			const names = byline.replace(/\s*\(\d{4}\)$/, "");
+			if (names && names !== "Unknown") {
+				current.authors = names.split(", ");
+			}
+			if (year?.[1]) current.year = Number.parseInt(year[1], 10);
+
+			for (const id of ids) {
+				if (id.startsWith("DOI:")) current.doi = id.slice(4);
+				else applyAccessionNumber(current, id);
+			}
+		}
+	}
+
+	finish();
+	return entries;
+}
+
+/**
+ * Find the end of a braced or quoted BibTeX value
+ *
+ * @returns Index just past the closing delimiter, or -1 if unterminated
+ */
+function findBibTeXValueEnd(text: string, start: number): number {
+	const open = text[start];
+	if (open === '"') {
+		let depth = 0;
+		for (let i = start + 1; i < text.length; i++) {
+			const char = text[i];
+			if (char === "\\") i++;
+			else if (char === "{") depth++;
+			else if (char === "}") depth--;
+			else if (char === '"' && depth === 0) return i + 1;
+		}
+		return -1;
+	}
+
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+		if (char === "\\") i++;
+		else if (char === "{") depth++;
+		else if (char === "}" && --depth === 0) return i + 1;
+	}
+	return -1;
+}
+
+/**
+ * Undo the escaping applied by toBibTeX and strip protective braces
+ */
+function unescapeBibTeX(value: string): string {
+	return value
+		.replace(
+			/\\textbackslash(?:\\\{\\\}|\{\})|\\textasciitilde\{\}|\\textasciicircum\{\}|\\([&%$#_{}])|[{}]/g,
+			(match, escaped?: string) => {
+				if (escaped) return escaped;
+				if (match.startsWith("\\textbackslash")) return "\\";
+				if (match.startsWith("\\textasciitilde")) return "~";
+				if (match.startsWith("\\textasciicircum")) return "^";
+				return "";
+			},
+		)
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Parse the fields of a single BibTeX entry body
+ */
+function parseBibTeXFields(body: string): Map<string, string> {
+	const fields = new Map<string, string>();
+	const fieldPattern = /([A-Za-z][\w-]*)\s*=\s*/g;
+	let match: RegExpExecArray | null = fieldPattern.exec(body);
+
+	while (match?.[1]) {
+		const name = match[1].toLowerCase();
+		const start = fieldPattern.lastIndex;
+		let value: string;
+		let end: number;
+
+		if (body[start] === "{" || body[start] === '"') {
+			end = findBibTeXValueEnd(body, start);
+			if (end === -1) break;
+			value = body.slice(start + 1, end - 1);
+		} else {
+			// Bare numbers and @string macros
+			const bare = body.slice(start).match(/^[^,}\s]+/);
+			value = bare?.[0] ?? "";
+			end = start + value.length;
+		}
+
+		fields.set(name, unescapeBibTeX(value));
+		fieldPattern.lastIndex = end;
+		match = fieldPattern.exec(body);
+	}
+
+	return fields;
+}
+
+/**
+ * Parse a BibTeX file
+ *
+ * @comment, @string and @preamble blocks are ignored.
+ *
+ * @param text - BibTeX file contents
+ * @returns One entry per @type{key, ...} block
+ */
+export function parseBibTeX(text: string): ImportedEntry[] {
+	const entries: ImportedEntry[] = [];
+	const entryPattern = /@([A-Za-z]+)\s*\{/g;
+	let match: RegExpExecArray | null = entryPattern.exec(text);
+
+	while (match?.[1]) {
+		const type = match[1].toLowerCase();
+		const start = entryPattern.lastIndex - 1;
+		const end = findBibTeXValueEnd(text, start);
+		if (end === -1) break;
+
+		entryPattern.lastIndex = end;
+		match = entryPattern.exec(text);
+
+		if (type === "comment" || type === "string" || type === "preamble") {
+			continue;
+		}
+
+		// Skip the citation key
+		const body = text.slice(start + 1, end - 1);
+		const fields = parseBibTeXFields(body.slice(body.indexOf(",") + 1));
+		const year = Number.parseInt(fields.get("year") ?? "", 10);
+		const eprint = fields.get("eprint");
+		const eprintType = (
+			fields.get("archiveprefix") ??
+			fields.get("eprinttype") ??
+			""
+		).toLowerCase();
+		// Google Scholar style: journal={arXiv preprint arXiv:2301.00001}
+		const journalArxiv = fields
+			.get("journal")
+			?.match(/arXiv:\s*(\d{4}\.\d{4,5}(?:v\d+)?)/i)?.[1];
+
+		const entry: ImportedEntry = {
+			title: fields.get("title"),
+			authors: (fields.get("author") ?? "")
+				.split(/\s+and\s+/)
+				.map((name) => fromInvertedName(name.trim()))
+				// "Unknown" is the placeholder toBibTeX writes for papers without authors
+				.filter((name) => name && name !== "Unknown" && name !== "others"),
+			year: Number.isNaN(year) ? undefined : year,
+			doi: fields.get("doi"),
+			pmid:
+				fields.get("pmid") ?? (eprintType === "pubmed" ? eprint : undefined),
+			url: fields.get("url"),
+			note: fields.get("note"),
+		};
+
+		if (eprint && (eprintType === "arxiv" || !eprintType)) {
+			entry.arxivId = eprint.replace(/^arXiv:/i, "");
+		} else if (journalArxiv) {
+			entry.arxivId = journalArxiv;
+		}
+
+		entries.push(withArxivFromUrl(entry));
+	}
+
+	return entries;
+}
+
+/**
+ * Parse a plain-text list of paper identifiers
+ *
+ * Accepts one or more IDs per line, separated by whitespace or commas:
+ * arXiv IDs and URLs, DOIs (bare, "doi:" or doi.org URLs), "pmid:" IDs and
+ * source-qualified IDs. Lines starting with "#" are comments.
+ *
+ * @param text - File contents
+ * @returns One entry per token; unrecognised tokens have only a title
+ */
+export function parseIdList(text: string): ImportedEntry[] {
+	const entries: ImportedEntry[] = [];
+
+	for (const line of text.split(/\r?\n/)) {
+		if (line.trim().startsWith("#")) continue;
+
+		for (const raw of line.split(/[\s,;]+/)) {
+			const token = raw.replace(/[.)\]]+$/, "");
+			if (!token) continue;
+
+			const doi = token.match(
+				/^(?:doi:|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i,
+			)?.[1];
+			const pmid = token.match(/^pmid:(\d+)$/i)?.[1];
+			const parsed = doi || pmid ? null : parsePaperId(token);
+
+			const entry: ImportedEntry = { authors: [] };
+			if (doi) {
+				entry.doi = doi;
+			} else if (pmid) {
+				entry.pmid = pmid;
+			} else if (parsed?.source === "arxiv") {
+				entry.arxivId = parsed.externalId;
+			} else if (
+				parsed?.source === "crossref" ||
+				parsed?.source === "biorxiv"
+			) {
+				entry.doi = parsed.externalId;
+			} else if (parsed?.source === "pubmed") {
+				entry.pmid = parsed.externalId;
+			} else {
+				entry.title = token;
+			}
+
+			entries.push(entry);
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Supported import file formats
+ */
+export type ImportFormat = "bibtex" | "ris" | "ids";
+
+/**
+ * Detect the format of an imported file from its name
+ *
+ * @returns Import format or null if the file type is not supported
+ */
+export function detectImportFormat(filename: string): ImportFormat | null {
+	const extension = filename.toLowerCase().split(".").pop();
+	switch (extension) {
+		case "bib":
+		case "bibtex":
+			return "bibtex";
+		case "ris":
+			return "ris";
+		case "txt":
+			return "ids";
+		default:
+			return null;
+	}
+}
+
+/**
+ * Parse an imported file in the given format
+ */
+export function parseImportFile(
+	format: ImportFormat,
+	text: string,
+): ImportedEntry[] {
+	switch (format) {
+		case "bibtex":
+			return parseBibTeX(text);
+		case "ris":
+			return parseRIS(text);
+		case "ids":
+			return parseIdList(text);
+	}
+}
+
+/**
+ * Get the ID used to fetch an imported entry from its source
+ *
+ * @returns Bare arXiv ID or source-qualified ID, or null if the entry has no usable ID
+ */
+export function getImportPaperId(entry: ImportedEntry): string | null {
+	if (entry.arxivId) return entry.arxivId;
+	if (entry.doi) return `crossref:${entry.doi}`;
+	if (entry.pmid) return `pubmed:${entry.pmid}`;
+	return null;
+}
@@ -7,16 +7,25 @@
  * import { logger, withRetry, arxivRateLimiter } from "./utils/index.js";
  */
 
+export type {
+	DispatcherOptions,
+	MessagePriority,
+	SendFailure,
+} from "./dispatcher.js";
+export { getTelegramFailure, OutboundDispatcher } from "./dispatcher.js";
 export type { LogContext, LogEntry, LogLevel } from "./logger.js";
 export { Logger, logger } from "./logger.js";
+export type { SharedRateLimiterStatus } from "./rateLimiter.js";
 export {
 	arxivRateLimiter,
 	createRateLimited,
 	RateLimiter,
+	SharedRateLimiter,
 } from "./rateLimiter.js";
 export type { RetryOptions } from "./retry.js";
 export {
 	createRetryable,
+	getBackoffDelay,
 	isNetworkError,
 	isRetryableStatusCode,
 	withRetry,
@@ -0,0 +1,275 @@
+/**
+ * Interest Profiles
+ *
+ * Builds a per-user interest profile from what the user has bookmarked,
+ * viewed and searched for, and scores papers against it. A profile weighs
+ * three kinds of interest:
+ * - categories (e.g. cs.LG)
+ * - authors
+ * - keywords from titles, abstracts and search queries
+ *
+ * Everything here is a pure function of its inputs; loading the signals
+ * from the database is done in features/forYou.ts.
+ */
+
+import type { Paper } from "../arxiv.js";
+import { tokenize } from "./tfidf.js";
+
+/**
+ * Where an interest signal comes from
+ */
+export type SignalKind = "bookmark" | "view" | "search";
+
+/**
+ * One thing the user did that says something about their interests
+ */
+export interface InterestSignal {
+	kind: SignalKind;
+	/** Paper title or search query, shown in explanations */
+	label: string;
+	/** Text keywords are taken from */
+	text: string;
+	categories?: string[];
+	authors?: string[];
+	/** Extra weight, e.g. for highly rated bookmarks (default: 1) */
+	weight?: number;
+}
+
+/**
+ * Weighted interests of a user
+ *
+ * Each map is scaled so its strongest interest has weight 1.
+ */
+export interface InterestProfile {
+	categories: Map<string, number>;
+	authors: Map<string, number>;
+	keywords: Map<string, number>;
+	/** Signals with their keywords, used to explain matches */
+	signals: (InterestSignal & { keywords: Set<string> })[];
+}
+
+/**
+ * A paper scored against a profile
+ */
+export interface PaperScore {
+	/** Match strength between 0 and 1 */
+	score: number;
+	/** Short explanation, e.g. 'Because you bookmarked "Attention Is All You Need"' */
+	reason: string;
+}
+
+/**
+ * How much each kind of signal counts
+ */
+export const SIGNAL_WEIGHTS: Record<SignalKind, number> = {
+	bookmark: 3,
+	search: 2,
+	view: 1,
+};
+
+/**
+ * How much each kind of interest contributes to a score
+ */
+const SCORE_WEIGHTS = {
+	categories: 0.3,
+	authors: 0.2,
+	keywords: 0.5,
+};
+
+/**
+ * Summed keyword weight at which the keyword score saturates
+ */
+const KEYWORD_SATURATION = 3;
+
+/**
+ * Keywords kept per profile
+ */
+const MAX_PROFILE_KEYWORDS = 200;
+
+/**
+ * Maximum length of a title or query quoted in an explanation
+ */
+const MAX_REASON_LABEL = 60;
+
+/**
+ * Normalize an author name for comparison
+ */
+function normalizeAuthor(name: string): string {
+	return name.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Add a weight to a map entry
+ */
+function addWeight(map: Map<string, number>, key: string, weight: number) {
+	map.set(key, (map.get(key) ?? 0) + weight);
+}
+
+/**
+ * Scale a map so its largest weight is 1, keeping at most `limit` entries
+ */
+function scaleToMax(
+	map: Map<string, number>,
+	limit = Number.POSITIVE_INFINITY,
+): Map<string, number> {
+	const entries = [...map.entries()]
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, limit);
+	const max = entries[0]?.[1] ?? 0;
+	return new Map(max > 0 ? entries.map(([k, w]) => [k, w / max]) : []);
+}
+
+/**
+ * Build an interest profile from a user's signals
+ */
+export function buildInterestProfile(
+	signals: InterestSignal[],
+): InterestProfile {
+	const categories = new Map<string, number>();
+	const authors = new Map<string, number>();
+	const keywords = new Map<string, number>();
+	const profileSignals: InterestProfile["signals"] = [];
+
+	for (const signal of signals) {
+		const weight = SIGNAL_WEIGHTS[signal.kind] * (signal.weight ?? 1);
+		const signalKeywords = new Set(tokenize(signal.text));
+		profileSignals.push({ ...signal, keywords: signalKeywords });
+
+		// The primary category counts fully, cross-lists half
+		for (const [i, category] of (signal.categories ?? []).entries()) {
+			addWeight(categories, category, i === 0 ? weight : weight / 2);
+		}
+		for (const author of signal.authors ?? []) {
+			addWeight(authors, normalizeAuthor(author), weight);
+		}
+		// Each keyword counts once per signal so long abstracts don't dominate
+		for (const keyword of signalKeywords) {
+			addWeight(keywords, keyword, weight);
+		}
+	}
+
+	return {
+		categories: scaleToMax(categories),
+		authors: scaleToMax(authors),
+		keywords: scaleToMax(keywords, MAX_PROFILE_KEYWORDS),
+		signals: profileSignals,
+	};
+}
+
+/**
+ * Check whether a profile has anything to score against
+ */
+export function isProfileEmpty(profile: InterestProfile): boolean {
+	return (
+		profile.categories.size === 0 &&
+		profile.authors.size === 0 &&
+		profile.keywords.size === 0
+	);
+}
+
+/**
+ * Get the strongest interests of each kind
+ *
+ * @param limit - Maximum entries per kind
+ */
+export function getTopInterests(
+	profile: InterestProfile,
+	limit = 3,
+): { categories: string[]; authors: string[]; keywords: string[] } {
+	const top = (map: Map<string, number>) => [...map.keys()].slice(0, limit);
+	return {
+		categories: top(profile.categories),
+		authors: top(profile.authors),
+		keywords: top(profile.keywords),
+	};
+}
+
+/**
+ * Shorten a title or query for an explanation
+ */
+function shortenLabel(label: string): string {
+	const trimmed = label.replace(/\s+/g, " ").trim();
+	return trimmed.length > MAX_REASON_LABEL
+		? `${trimmed.slice(0, MAX_REASON_LABEL - 1)}…`
+		: trimmed;
+}
+
+/**
+ * Explain a match by the single signal that overlaps the paper most
+ */
+function explainMatch(
+	profile: InterestProfile,
+	paperAuthors: Set<string>,
+	paperKeywords: Set<string>,
+	paperCategories: string[],
+): string {
+	let best: {
+		signal: InterestSignal;
+		overlap: number;
+		author?: string;
+	} | null = null;
+
+	for (const signal of profile.signals) {
+		const author = signal.authors?.find((a) =>
+			paperAuthors.has(normalizeAuthor(a)),
+		);
+		const sharedKeywords = [...signal.keywords].filter((k) =>
+			paperKeywords.has(k),
+		).length;
+		const sharedCategory = signal.categories?.some((c) =>
+			paperCategories.includes(c),
+		);
+
+		const overlap =
+			((author ? 3 : 0) + sharedKeywords + (sharedCategory ? 0.5 : 0)) *
+			SIGNAL_WEIGHTS[signal.kind] *
+			(signal.weight ?? 1);
+		if (overlap > 0 && (!best || overlap > best.overlap)) {
+			best = { signal, overlap, author };
+		}
+	}
+
+	if (!best) {
+		return "Matches your interests";
+	}
+
+	const label = shortenLabel(best.signal.label);
+	const because =
+		best.signal.kind === "search"
+			? `Because you searched for "${label}"`
+			: `Because you ${best.signal.kind === "bookmark" ? "bookmarked" : "viewed"} "${label}"`;
+	return best.author ? `${because} (also by ${best.author})` : because;
+}
+
+/**
+ * Score a paper against an interest profile
+ *
+ * @returns Score between 0 and 1 and a short explanation
+ */
+export function scorePaper(paper: Paper, profile: InterestProfile): PaperScore {
+	const categories = paper.categories ?? [];
+	const authors = new Set((paper.authors ?? []).map(normalizeAuthor));
+	const keywords = new Set(tokenize(`${paper.title} ${paper.summary}`));
+
+	const categoryScore = Math.max(
+		0,
+		...categories.map((c) => profile.categories.get(c) ?? 0),
+	);
+	const authorScore = Math.max(
+		0,
+		...[...authors].map((a) => profile.authors.get(a) ?? 0),
+	);
+	let keywordWeight = 0;
+	for (const keyword of keywords) {
+		keywordWeight += profile.keywords.get(keyword) ?? 0;
+	}
+	const keywordScore = Math.min(1, keywordWeight / KEYWORD_SATURATION);
+
+	return {
+		score:
+			SCORE_WEIGHTS.categories * categoryScore +
+			SCORE_WEIGHTS.authors * authorScore +
+			SCORE_WEIGHTS.keywords * keywordScore,
+		reason: explainMatch(profile, authors, keywords, categories),
+	};
+}
@@ -6,9 +6,16 @@
  */
 
 import { getRateLimiterStatus } from "../arxiv.js";
+import {
+	type CacheTierStats,
+	getPaperCache,
+	getPaperCacheCounters,
+	type PaperCacheCounters,
+} from "../cache/paperCache.js";
 import { getUserCount } from "../db/repositories/index.js";
 import { getTotalSubscriptionCount } from "../db/repositories/subscriptionRepository.js";
 import { logger } from "./logger.js";
+import type { SharedRateLimiterStatus } from "./rateLimiter.js";
 
 /**
  * Metric types
@@ -48,11 +55,10 @@ export interface AppMetrics {
 		memoryTotalMB: number;
 	};
 	arxiv: {
-		rateLimiter: {
-			canProceed: boolean;
-			waitTimeMs: number;
-			pendingRequests: number;
-		};
+		rateLimiter: SharedRateLimiterStatus;
+	};
+	cache: PaperCacheCounters & {
+		tiers: CacheTierStats[];
 	};
 }
 
@@ -285,6 +291,10 @@ export async function collectMetrics(): Promise<AppMetrics> {
 			arxiv: {
 				rateLimiter: rateLimiterStatus,
 			},
+			cache: {
+				...getPaperCacheCounters(),
+				tiers: (await getPaperCache()?.getTierStats()) ?? [],
+			},
 		};
 	} catch (error) {
 		logger.error("Error collecting metrics", {
@@ -307,8 +317,13 @@ export async function collectMetrics(): Promise<AppMetrics> {
 					canProceed: true,
 					waitTimeMs: 0,
 					pendingRequests: 0,
+					shared: false,
+					totalRequests: 0,
+					avgWaitMs: 0,
+					maxWaitMs: 0,
 				},
 			},
+			cache: { ...getPaperCacheCounters(), tiers: [] },
 		};
 	}
 }
@@ -368,5 +383,110 @@ export function formatPrometheusMetrics(metrics: AppMetrics): string {
 		"gauge",
 	);
 
+	const arxivLimiter = metrics.arxiv.rateLimiter;
+	addMetric(
+		"research_bot_arxiv_queue_depth",
+		arxivLimiter.pendingRequests,
+		"arXiv requests waiting for the rate limiter",
+		"gauge",
+	);
+	addMetric(
+		"research_bot_arxiv_requests_total",
+		arxivLimiter.totalRequests,
+		"arXiv requests let through the rate limiter",
+		"counter",
+	);
+	addMetric(
+		"research_bot_arxiv_wait_seconds_avg",
+		arxivLimiter.avgWaitMs / 1000,
+		"Average rate limiter wait of the last 100 arXiv requests",
+		"gauge",
+	);
+	addMetric(
+		"research_bot_arxiv_wait_seconds_max",
+		arxivLimiter.maxWaitMs / 1000,
+		"Longest rate limiter wait of the last 100 arXiv requests",
+		"gauge",
+	);
+	addMetric(
+		"research_bot_arxiv_rate_limiter_shared",
+		arxivLimiter.shared ? 1 : 0,
+		"Whether the arXiv rate limit is shared through Redis",
+		"gauge",
+	);
+
+	addMetric(
+		"research_bot_paper_cache_hits_total",
+		metrics.cache.hits,
+		"Fresh paper cache entries served",
+		"counter",
+	);
+	addMetric(
+		"research_bot_paper_cache_misses_total",
+		metrics.cache.misses,
+		"Paper cache misses fetched from arXiv",
+		"counter",
+	);
+	addMetric(
+		"research_bot_paper_cache_stale_total",
+		metrics.cache.stale,
+		"Stale paper cache entries served while revalidating",
+		"counter",
+	);
+	addMetric(
+		"research_bot_paper_cache_coalesced_total",
+		metrics.cache.coalesced,
+		"arXiv requests that joined an identical request in flight",
+		"counter",
+	);
+
+	// Per-tier metrics, labelled with the tier name
+	const addTierMetric = (
+		name: string,
+		help: string,
+		type: string,
+		value: (tier: CacheTierStats) => number | null,
+	) => {
+		lines.push(`# HELP ${name} ${help}`);
+		lines.push(`# TYPE ${name} ${type}`);
+		for (const tier of metrics.cache.tiers) {
+			const tierValue = value(tier);
+			if (tierValue !== null) {
+				lines.push(`${name}{tier="${tier.tier}"} ${tierValue}`);
+			}
+		}
+	};
+
+	addTierMetric(
+		"research_bot_paper_cache_tier_hits_total",
+		"Paper cache lookups found in a tier",
+		"counter",
+		(tier) => tier.hits,
+	);
+	addTierMetric(
+		"research_bot_paper_cache_tier_misses_total",
+		"Paper cache lookups not found in a tier",
+		"counter",
+		(tier) => tier.misses,
+	);
+	addTierMetric(
+		"research_bot_paper_cache_entries",
+		"Entries kept in a paper cache tier",
+		"gauge",
+		(tier) => tier.entries,
+	);
+	addTierMetric(
+		"research_bot_paper_cache_max_entries",
+		"Size limit of a paper cache tier",
+		"gauge",
+		(tier) => tier.maxEntries,
+	);
+	addTierMetric(
+		"research_bot_paper_cache_evictions_total",
+		"Entries evicted from a paper cache tier to stay within its size limit",
+		"counter",
+		(tier) => tier.evictions,
+	);
+
 	return lines.join("\n");
 }
@@ -3,8 +3,14 @@
  *
  * arXiv recommends no more than 1 request every 3 seconds.
  * This utility ensures we respect that limit to avoid being blocked.
+ *
+ * RateLimiter only knows about requests made by this process. The arXiv
+ * limiter is a SharedRateLimiter, which can also coordinate through Redis
+ * so the webhook server, the cron endpoint and serverless instances stay
+ * under the limit together.
  */
 
+import type { RateLimitStore } from "../storage/rateLimitStore.js";
 import { logger } from "./logger.js";
 
 /**
@@ -68,6 +74,20 @@ export class RateLimiter {
 		}
 	}
 
+	/**
+	 * Record a request that was throttled elsewhere (e.g. by a shared limiter)
+	 */
+	recordRequest(): void {
+		this.lastRequest = Date.now();
+	}
+
+	/**
+	 * Get the minimum interval between requests in milliseconds
+	 */
+	getMinInterval(): number {
+		return this.minInterval;
+	}
+
 	/**
 	 * Check if a request can be made immediately without waiting
 	 *
@@ -108,11 +128,172 @@ export class RateLimiter {
 	}
 }
 
+/**
+ * Status of a shared rate limiter for monitoring
+ */
+export interface SharedRateLimiterStatus {
+	/** Whether a request could be made now, as far as this instance knows */
+	canProceed: boolean;
+	/** Time until this instance may make its next request */
+	waitTimeMs: number;
+	/** Requests waiting for their turn (queue depth) */
+	pendingRequests: number;
+	/** Whether requests are coordinated through the shared store */
+	shared: boolean;
+	/** Requests let through since start */
+	totalRequests: number;
+	/** Average and longest wait of the last 100 requests */
+	avgWaitMs: number;
+	maxWaitMs: number;
+}
+
+/** Number of recent waits kept for the wait-time metrics */
+const WAIT_SAMPLES = 100;
+
+/**
+ * Rate limiter shared by every instance through a token bucket store
+ *
+ * Requests in this process take turns, and each turn takes the one token
+ * of a bucket that refills once per interval, so all instances together
+ * make at most one request per interval. Without a store, or while the
+ * store cannot be reached, the local limiter is used instead.
+ */
+export class SharedRateLimiter {
+	private store: RateLimitStore | null = null;
+	private storeFailing = false;
+	private queue: Promise<void> = Promise.resolve();
+	private pendingRequests = 0;
+	private totalRequests = 0;
+	private readonly waits: number[] = [];
+
+	/**
+	 * @param local - Limiter used without the store; also tracks our own requests
+	 * @param key - Bucket key in the store
+	 */
+	constructor(
+		private readonly local: RateLimiter,
+		private readonly key: string,
+	) {}
+
+	/**
+	 * Coordinate through a store (null to go back to the local limiter)
+	 */
+	useStore(store: RateLimitStore | null): void {
+		this.store = store;
+		this.storeFailing = false;
+	}
+
+	/**
+	 * Wait until it's safe to make another request
+	 *
+	 * @returns Promise that resolves when it's safe to proceed
+	 */
+	async throttle(): Promise<void> {
+		const startedAt = Date.now();
+		this.pendingRequests++;
+
+		const turn = this.queue.then(() => this.acquire());
+		this.queue = turn.catch(() => undefined);
+
+		try {
+			await turn;
+		} finally {
+			this.pendingRequests--;
+			this.totalRequests++;
+			this.waits.push(Date.now() - startedAt);
+			if (this.waits.length > WAIT_SAMPLES) {
+				this.waits.shift();
+			}
+		}
+	}
+
+	private async acquire(): Promise<void> {
+		if (!this.store || !(await this.acquireShared(this.store))) {
+			await this.local.throttle();
+		}
+	}
+
+	/**
+	 * Take the shared token, waiting for it to refill if needed
+	 *
+	 * @returns false if the store failed and the local limiter must be used
+	 */
+	private async acquireShared(store: RateLimitStore): Promise<boolean> {
+		const bucket = { capacity: 1, refillMs: this.local.getMinInterval() };
+
+		try {
+			for (;;) {
+				const result = await store.consume(this.key, 1, bucket);
+				if (result.allowed) {
+					break;
+				}
+				await new Promise((resolve) =>
+					setTimeout(resolve, result.retryAfterMs),
+				);
+			}
+		} catch (error) {
+			if (!this.storeFailing) {
+				this.storeFailing = true;
+				logger.warn("Shared rate limiter unavailable, using local", {
+					key: this.key,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+			return false;
+		}
+
+		if (this.storeFailing) {
+			this.storeFailing = false;
+			logger.info("Shared rate limiter available again", { key: this.key });
+		}
+		this.local.recordRequest();
+		return true;
+	}
+
+	/**
+	 * Check if a request can be made immediately, as far as this instance knows
+	 */
+	canProceed(): boolean {
+		return this.pendingRequests === 0 && this.local.canProceed();
+	}
+
+	/**
+	 * Get the time until this instance may make its next request
+	 */
+	getWaitTime(): number {
+		return this.local.getWaitTime();
+	}
+
+	/**
+	 * Get the number of requests waiting for their turn
+	 */
+	getPendingCount(): number {
+		return this.pendingRequests;
+	}
+
+	/**
+	 * Get queue depth and wait times for monitoring
+	 */
+	getStatus(): SharedRateLimiterStatus {
+		const waited = this.waits.reduce((sum, wait) => sum + wait, 0);
+		return {
+			canProceed: this.canProceed(),
+			waitTimeMs: this.getWaitTime(),
+			pendingRequests: this.pendingRequests,
+			shared: this.store !== null && !this.storeFailing,
+			totalRequests: this.totalRequests,
+			avgWaitMs: this.waits.length ? Math.round(waited / this.waits.length) : 0,
+			maxWaitMs: this.waits.length ? Math.max(...this.waits) : 0,
+		};
+	}
+}
+
 /**
  * Pre-configured rate limiter for arXiv API
  *
  * arXiv recommends no more than 1 request every 3 seconds,
- * so we use 0.33 requests per second (1/3).
+ * so we use 0.33 requests per second (1/3). Shared through Redis once
+ * `arxivRateLimiter.useStore()` is called (see bot/index.ts).
  *
  * @example
  * import { arxivRateLimiter } from "./utils/rateLimiter.js";
@@ -122,7 +303,10 @@ export class RateLimiter {
  *   return await fetch(`https://arxiv.org/api/query?search_query=${query}`);
  * }
  */
-export const arxivRateLimiter = new RateLimiter(0.33, "arXiv");
+export const arxivRateLimiter = new SharedRateLimiter(
+	new RateLimiter(0.33, "arXiv"),
+	"arxiv",
+);
 
 /**
  * Create a rate-limited wrapper for any async function
@@ -139,7 +323,7 @@ export const arxivRateLimiter = new RateLimiter(0.33, "arXiv");
  */
 export function createRateLimited<TArgs extends unknown[], TResult>(
 	fn: (...args: TArgs) => Promise<TResult>,
-	limiter: RateLimiter,
+	limiter: RateLimiter | SharedRateLimiter,
 ): (...args: TArgs) => Promise<TResult> {
 	return async (...args: TArgs): Promise<TResult> => {
 		await limiter.throttle();
@@ -109,6 +109,34 @@ export async function withRetry<T>(
 	throw lastError;
 }
 
+/**
+ * Get the delay before a retry with exponential backoff (no jitter)
+ *
+ * @param attempt - The attempt that failed, starting at 1
+ * @param options - Base delay, maximum delay and multiplier
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * getBackoffDelay(3, { baseDelay: 60000 }); // 240000
+ */
+export function getBackoffDelay(
+	attempt: number,
+	options: Pick<
+		RetryOptions,
+		"baseDelay" | "maxDelay" | "backoffMultiplier"
+	> = {},
+): number {
+	const {
+		baseDelay = DEFAULT_OPTIONS.baseDelay,
+		maxDelay = DEFAULT_OPTIONS.maxDelay,
+		backoffMultiplier = DEFAULT_OPTIONS.backoffMultiplier,
+	} = options;
+	return Math.min(
+		baseDelay * backoffMultiplier ** Math.max(0, attempt - 1),
+		maxDelay,
+	);
+}
+
 /**
  * Sleep for specified milliseconds
  */
@@ -0,0 +1,459 @@
+/**
+ * Digest Scheduling
+ *
+ * Computes when a subscription digest is next due from its schedule and
+ * the owner's timezone and quiet hours. Everything here is a pure function
+ * of its inputs, so the repository, the worker and /subscriptions always
+ * agree on the same time.
+ *
+ * Schedules:
+ * - interval: every N hours since the last digest
+ * - daily: every day at a local time of day
+ * - weekly: once a week on a given weekday at a local time of day
+ */
+
+import type { Subscription, User } from "../db/schema.js";
+
+/**
+ * How a subscription's digests are scheduled
+ */
+export type ScheduleType = Subscription["scheduleType"];
+
+/**
+ * The subscription fields that determine when a digest is due
+ */
+export type DigestSchedule = Pick<
+	Subscription,
+	| "scheduleType"
+	| "intervalHours"
+	| "deliveryTime"
+	| "deliveryDay"
+	| "lastRunAt"
+	| "createdAt"
+>;
+
+/**
+ * The user fields that determine when a digest may be delivered
+ */
+export type DeliverySettings = Pick<
+	User,
+	"timezone" | "quietHoursStart" | "quietHoursEnd"
+>;
+
+/**
+ * Timezone used when a user has not set one
+ */
+export const DEFAULT_TIMEZONE = "UTC";
+
+/**
+ * Time of day used for daily and weekly digests when none is set
+ */
+export const DEFAULT_DELIVERY_TIME = "08:00";
+
+/**
+ * Weekday used for weekly digests when none is set (Monday)
+ */
+export const DEFAULT_DELIVERY_DAY = 1;
+
+/**
+ * Weekday names, indexed like Date.getUTCDay() (0 = Sunday)
+ */
+export const WEEKDAYS = [
+	"Sunday",
+	"Monday",
+	"Tuesday",
+	"Wednesday",
+	"Thursday",
+	"Friday",
+	"Saturday",
+] as const;
+
+/**
+ * Name of a weekday in the given language
+ *
+ * @param day - Day index like Date.getUTCDay() (0 = Sunday)
+ * @param lang - BCP 47 language code
+ */
+export function getWeekdayName(day: number, lang = "en"): string {
+	// 7 January 2024 was a Sunday
+	const date = new Date(Date.UTC(2024, 0, 7 + day));
+	try {
+		return new Intl.DateTimeFormat(lang, {
+			weekday: "long",
+			timeZone: "UTC",
+		}).format(date);
+	} catch {
+		return WEEKDAYS[day] ?? "";
+	}
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * A calendar date and time of day in some timezone
+ */
+interface LocalTime {
+	year: number;
+	month: number;
+	day: number;
+	weekday: number;
+	/** Minutes since local midnight */
+	minutes: number;
+}
+
+/**
+ * Cached formatters per timezone (constructing them is slow)
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a formatter that splits a date into numeric parts in a timezone
+ *
+ * @throws RangeError if the timezone is not a valid IANA name
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+		});
+		formatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+/**
+ * Check whether a string is a valid IANA timezone name
+ *
+ * @example
+ * isValidTimezone("Europe/Berlin") // true
+ * isValidTimezone("Mars/Olympus") // false
+ */
+export function isValidTimezone(timeZone: string): boolean {
+	try {
+		getFormatter(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the canonical spelling of a timezone name
+ *
+ * @returns Canonical name (e.g. "europe/berlin" → "Europe/Berlin") or null if invalid
+ */
+export function normalizeTimezone(timeZone: string): string | null {
+	const trimmed = timeZone.trim();
+	if (!trimmed || !isValidTimezone(trimmed)) {
+		return null;
+	}
+	return getFormatter(trimmed).resolvedOptions().timeZone;
+}
+
+/**
+ * Get the timezone to schedule in, falling back to UTC
+ */
+export function getTimezone(settings?: DeliverySettings | null): string {
+	const timeZone = settings?.timezone;
+	return timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Parse a time of day
+ *
+ * @returns Minutes since midnight, or null if invalid
+ *
+ * @example
+ * parseTimeOfDay("08:30") // 510
+ * parseTimeOfDay("7") // 420
+ */
+export function parseTimeOfDay(value: string): number | null {
+	const match = value.trim().match(/^(\d{1,2})(?:[:.h](\d{2}))?$/);
+	if (!match?.[1]) {
+		return null;
+	}
+
+	const hours = Number.parseInt(match[1], 10);
+	const minutes = match[2] ? Number.parseInt(match[2], 10) : 0;
+	if (hours > 23 || minutes > 59) {
+		return null;
+	}
+	return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+export function formatTimeOfDay(minutes: number): string {
+	const hours = Math.floor(minutes / 60);
+	return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a weekday name or abbreviation
+ *
+ * @returns Weekday index (0 = Sunday), or null if not recognised
+ */
+export function parseWeekday(value: string): number | null {
+	const normalized = value.trim().toLowerCase();
+	if (normalized.length < 2) {
+		return null;
+	}
+	const index = WEEKDAYS.findIndex((day) =>
+		day.toLowerCase().startsWith(normalized),
+	);
+	return index === -1 ? null : index;
+}
+
+/**
+ * Parse a stored timestamp
+ *
+ * SQLite's CURRENT_TIMESTAMP has no zone designator but is UTC.
+ */
+export function parseTimestamp(value: string): Date {
+	return new Date(
+		/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+			? `${value.replace(" ", "T")}Z`
+			: value,
+	);
+}
+
+/**
+ * Split an instant into its local date and time in a timezone
+ */
+function getLocalTime(date: Date, timeZone: string): LocalTime {
+	const parts: Record<string, number> = {};
+	for (const part of getFormatter(timeZone).formatToParts(date)) {
+		if (part.type !== "literal") {
+			parts[part.type] = Number.parseInt(part.value, 10);
+		}
+	}
+
+	const year = parts.year ?? 1970;
+	const month = parts.month ?? 1;
+	const day = parts.day ?? 1;
+	return {
+		year,
+		month,
+		day,
+		weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+		minutes: (parts.hour ?? 0) * 60 + (parts.minute ?? 0),
+	};
+}
+
+/**
+ * Get the instant at a local time of day, some days after a local date
+ *
+ * Times skipped by a DST change resolve to the equivalent time after it.
+ */
+function atLocalTime(
+	date: LocalTime,
+	addDays: number,
+	minutes: number,
+	timeZone: string,
+): Date {
+	const wallClock = Date.UTC(
+		date.year,
+		date.month - 1,
+		date.day + addDays,
+		0,
+		minutes,
+	);
+
+	// The zone offset at the guessed instant; repeat once in case it crosses a DST change
+	const offsetAt = (instant: number): number => {
+		const local = getLocalTime(new Date(instant), timeZone);
+		const localClock = Date.UTC(
+			local.year,
+			local.month - 1,
+			local.day,
+			0,
+			local.minutes,
+		);
+		return localClock - Math.floor(instant / MINUTE_MS) * MINUTE_MS;
+	};
+
+	let instant = wallClock - offsetAt(wallClock);
+	const offset = offsetAt(instant);
+	if (wallClock - offset !== instant) {
+		instant = wallClock - offset;
+	}
+	return new Date(instant);
+}
+
+/**
+ * Get the first instant after a date at a local time of day,
+ * optionally on a given weekday
+ */
+function nextLocalTime(
+	after: Date,
+	timeZone: string,
+	minutes: number,
+	weekday?: number,
+): Date {
+	const local = getLocalTime(after, timeZone);
+	const days = weekday === undefined ? 0 : (weekday - local.weekday + 7) % 7;
+
+	const candidate = atLocalTime(local, days, minutes, timeZone);
+	if (candidate > after) {
+		return candidate;
+	}
+	return atLocalTime(
+		local,
+		days + (weekday === undefined ? 1 : 7),
+		minutes,
+		timeZone,
+	);
+}
+
+/**
+ * Get a user's quiet hours as minutes since midnight
+ *
+ * @returns Start and end, or null if quiet hours are not set
+ */
+function getQuietHours(
+	settings?: DeliverySettings | null,
+): { start: number; end: number } | null {
+	const start = settings?.quietHoursStart
+		? parseTimeOfDay(settings.quietHoursStart)
+		: null;
+	const end = settings?.quietHoursEnd
+		? parseTimeOfDay(settings.quietHoursEnd)
+		: null;
+
+	if (start === null || end === null || start === end) {
+		return null;
+	}
+	return { start, end };
+}
+
+/**
+ * Check whether an instant falls within a user's quiet hours
+ */
+export function isQuietTime(
+	date: Date,
+	settings?: DeliverySettings | null,
+): boolean {
+	return deferPastQuietHours(date, settings).getTime() !== date.getTime();
+}
+
+/**
+ * Move an instant that falls within quiet hours to the end of them
+ *
+ * Quiet hours may wrap past midnight (e.g. 22:00-07:00).
+ */
+function deferPastQuietHours(
+	date: Date,
+	settings?: DeliverySettings | null,
+): Date {
+	const quiet = getQuietHours(settings);
+	if (!quiet) {
+		return date;
+	}
+
+	const timeZone = getTimezone(settings);
+	const local = getLocalTime(date, timeZone);
+	const { start, end } = quiet;
+
+	if (start < end) {
+		return local.minutes >= start && local.minutes < end
+			? atLocalTime(local, 0, end, timeZone)
+			: date;
+	}
+
+	if (local.minutes >= start) {
+		return atLocalTime(local, 1, end, timeZone);
+	}
+	if (local.minutes < end) {
+		return atLocalTime(local, 0, end, timeZone);
+	}
+	return date;
+}
+
+/**
+ * Compute when a subscription's next digest is due
+ *
+ * Overdue digests are due now, unless now is within quiet hours, in which
+ * case they are due when the quiet hours end.
+ *
+ * @param schedule - Subscription schedule
+ * @param settings - Owner's timezone and quiet hours
+ * @param now - Reference time (default: now)
+ * @returns Next due time (never before now)
+ */
+export function getNextRunAt(
+	schedule: DigestSchedule,
+	settings?: DeliverySettings | null,
+	now = new Date(),
+): Date {
+	const timeZone = getTimezone(settings);
+	const lastRun = schedule.lastRunAt
+		? parseTimestamp(schedule.lastRunAt)
+		: null;
+	const deliveryTime =
+		parseTimeOfDay(schedule.deliveryTime ?? DEFAULT_DELIVERY_TIME) ??
+		(parseTimeOfDay(DEFAULT_DELIVERY_TIME) as number);
+
+	let next: Date;
+	switch (schedule.scheduleType) {
+		case "daily":
+			next = nextLocalTime(
+				lastRun ?? parseTimestamp(schedule.createdAt),
+				timeZone,
+				deliveryTime,
+			);
+			break;
+		case "weekly":
+			next = nextLocalTime(
+				lastRun ?? parseTimestamp(schedule.createdAt),
+				timeZone,
+				deliveryTime,
+				schedule.deliveryDay ?? DEFAULT_DELIVERY_DAY,
+			);
+			break;
+		default:
+			// Interval subscriptions that have never run are due immediately
+			next = lastRun
+				? new Date(lastRun.getTime() + (schedule.intervalHours ?? 24) * HOUR_MS)
+				: now;
+	}
+
+	if (Number.isNaN(next.getTime()) || next < now) {
+		next = now;
+	}
+	return deferPastQuietHours(next, settings);
+}
+
+/**
+ * Check whether a subscription's digest is due
+ */
+export function isDigestDue(
+	schedule: DigestSchedule,
+	settings?: DeliverySettings | null,
+	now = new Date(),
+): boolean {
+	return getNextRunAt(schedule, settings, now).getTime() <= now.getTime();
+}
+
+/**
+ * Format an instant as a short local date and time
+ *
+ * @example
+ * formatLocalDateTime(date, "Europe/Berlin") // "Mon 20 Oct, 08:00"
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+	const local = getLocalTime(date, timeZone);
+	const weekday = WEEKDAYS[local.weekday]?.slice(0, 3) ?? "";
+	const month = new Date(Date.UTC(local.year, local.month - 1, 1))
+		.toLocaleString("en-US", { month: "short", timeZone: "UTC" })
+		.slice(0, 3);
+	return `${weekday} ${local.day} ${month}, ${formatTimeOfDay(local.minutes)}`;
+}
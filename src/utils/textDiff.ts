@@ -0,0 +1,188 @@
+/**
+ * Word Diff
+ *
+ * Word-level diff of two texts, used to show what changed in a new version
+ * of a paper's title or abstract. Unchanged stretches can be shortened to
+ * the words around each change.
+ */
+
+/**
+ * A run of words that was kept, removed or added
+ */
+export interface DiffSegment {
+	op: "equal" | "delete" | "insert";
+	text: string;
+}
+
+/**
+ * How each kind of segment is written out
+ */
+export interface DiffStyle {
+	unchanged(text: string): string;
+	deleted(text: string): string;
+	inserted(text: string): string;
+}
+
+/**
+ * Plain-text style in git's word-diff format: `[-removed-]{+added+}`
+ */
+export const PLAIN_DIFF_STYLE: DiffStyle = {
+	unchanged: (text) => text,
+	deleted: (text) => `[-${text}-]`,
+	inserted: (text) => `{+${text}+}`,
+};
+
+/**
+ * Above this many word pairs, texts are diffed as a whole replacement
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Split text into words, ignoring whitespace differences
+ */
+function splitWords(text: string): string[] {
+	return text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Append words to a segment list, merging with the last segment if the same
+ */
+function pushWords(
+	segments: DiffSegment[],
+	op: DiffSegment["op"],
+	words: string[],
+): void {
+	if (words.length === 0) return;
+	const last = segments[segments.length - 1];
+	if (last?.op === op) {
+		last.text += ` ${words.join(" ")}`;
+	} else {
+		segments.push({ op, text: words.join(" ") });
+	}
+}
+
+/**
+ * Diff two texts word by word
+ *
+ * Uses the longest common subsequence of words. Removed words come before
+ * the words that replace them.
+ *
+ * @example
+ * diffWords("a fast model", "a faster model")
+ * // [{ op: "equal", text: "a" }, { op: "delete", text: "fast" },
+ * //  { op: "insert", text: "faster" }, { op: "equal", text: "model" }]
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+	const a = splitWords(before);
+	const b = splitWords(after);
+
+	// Trim the common prefix and suffix so the table only covers the changes
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const segments: DiffSegment[] = [];
+	pushWords(segments, "equal", a.slice(0, start));
+
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+	if (midA.length * midB.length > MAX_DIFF_CELLS) {
+		pushWords(segments, "delete", midA);
+		pushWords(segments, "insert", midB);
+	} else {
+		// lcs[i][j] = common subsequence length of midA[i:] and midB[j:]
+		const cols = midB.length + 1;
+		const lcs = new Uint32Array((midA.length + 1) * cols);
+		for (let i = midA.length - 1; i >= 0; i--) {
+			for (let j = midB.length - 1; j >= 0; j--) {
+				lcs[i * cols + j] =
+					midA[i] === midB[j]
+						? (lcs[(i + 1) * cols + j + 1] ?? 0) + 1
+						: Math.max(
+								lcs[(i + 1) * cols + j] ?? 0,
+								lcs[i * cols + j + 1] ?? 0,
+							);
+			}
+		}
+
+		let i = 0;
+		let j = 0;
+		while (i < midA.length || j < midB.length) {
+			if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+				pushWords(segments, "equal", [midA[i] ?? ""]);
+				i++;
+				j++;
+			} else if (
+				j >= midB.length ||
+				(i < midA.length &&
+					(lcs[(i + 1) * cols + j] ?? 0) >= (lcs[i * cols + j + 1] ?? 0))
+			) {
+				pushWords(segments, "delete", [midA[i] ?? ""]);
+				i++;
+			} else {
+				pushWords(segments, "insert", [midB[j] ?? ""]);
+				j++;
+			}
+		}
+	}
+
+	pushWords(segments, "equal", a.slice(endA));
+	return segments;
+}
+
+/**
+ * Check whether a diff has any changes
+ */
+export function hasChanges(segments: DiffSegment[]): boolean {
+	return segments.some((segment) => segment.op !== "equal");
+}
+
+/**
+ * Shorten unchanged stretches to the words next to each change
+ *
+ * @param segments - Diff from diffWords
+ * @param context - Unchanged words kept on each side of a change
+ */
+export function trimDiffContext(
+	segments: DiffSegment[],
+	context = 8,
+): DiffSegment[] {
+	return segments.map((segment, i) => {
+		if (segment.op !== "equal") return segment;
+
+		const words = segment.text.split(" ");
+		const keepBefore = i > 0 ? context : 0;
+		const keepAfter = i < segments.length - 1 ? context : 0;
+		if (words.length <= keepBefore + keepAfter + 1) return segment;
+
+		const head = words.slice(0, keepBefore);
+		const tail = keepAfter > 0 ? words.slice(-keepAfter) : [];
+		return { op: "equal", text: [...head, "…", ...tail].join(" ") };
+	});
+}
+
+/**
+ * Write out a diff
+ *
+ * @param segments - Diff from diffWords
+ * @param style - How to mark each kind of segment (default: plain word-diff)
+ */
+export function formatWordDiff(
+	segments: DiffSegment[],
+	style: DiffStyle = PLAIN_DIFF_STYLE,
+): string {
+	return segments
+		.map((segment) => {
+			if (segment.op === "delete") return style.deleted(segment.text);
+			if (segment.op === "insert") return style.inserted(segment.text);
+			return style.unchanged(segment.text);
+		})
+		.join(" ");
+}
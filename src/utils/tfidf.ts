@@ -0,0 +1,314 @@
+/**
+ * TF-IDF Utilities
+ *
+ * Tokenization and a small in-memory TF-IDF index with cosine similarity,
+ * used to rank similar papers locally instead of querying arXiv.
+ */
+
+/**
+ * Common stop words to exclude from keywords and index terms
+ */
+export const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"the",
+	"and",
+	"or",
+	"but",
+	"in",
+	"on",
+	"at",
+	"to",
+	"for",
+	"of",
+	"with",
+	"by",
+	"from",
+	"as",
+	"is",
+	"was",
+	"are",
+	"were",
+	"been",
+	"be",
+	"have",
+	"has",
+	"had",
+	"do",
+	"does",
+	"did",
+	"will",
+	"would",
+	"could",
+	"should",
+	"may",
+	"might",
+	"must",
+	"shall",
+	"can",
+	"need",
+	"dare",
+	"ought",
+	"used",
+	"it",
+	"its",
+	"this",
+	"that",
+	"these",
+	"those",
+	"i",
+	"we",
+	"you",
+	"he",
+	"she",
+	"they",
+	"what",
+	"which",
+	"who",
+	"whom",
+	"where",
+	"when",
+	"why",
+	"how",
+	"all",
+	"each",
+	"every",
+	"both",
+	"few",
+	"more",
+	"most",
+	"other",
+	"some",
+	"such",
+	"no",
+	"nor",
+	"not",
+	"only",
+	"own",
+	"same",
+	"so",
+	"than",
+	"too",
+	"very",
+	"just",
+	"also",
+	"now",
+	"using",
+	"via",
+	"based",
+	"approach",
+	"method",
+	"methods",
+	"novel",
+	"new",
+	"paper",
+	"study",
+	"analysis",
+	"results",
+	"show",
+	"propose",
+	"proposed",
+]);
+
+/**
+ * A sparse term vector (term → weight)
+ */
+export type TermVector = Map<string, number>;
+
+/**
+ * A document to add to the index
+ */
+export interface TfIdfDocument {
+	id: string;
+	text: string;
+}
+
+/**
+ * A document matched by a search, with its cosine similarity to the query
+ */
+export interface TfIdfMatch {
+	id: string;
+	score: number;
+}
+
+/**
+ * Split text into lowercase terms, dropping stop words, short words and numbers
+ *
+ * @example
+ * tokenize("Graph Neural Networks for the 3D World") // ["graph", "neural", "networks", "world"]
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.replace(/[^\w\s-]/g, " ")
+		.split(/\s+/)
+		.filter((word) => word.length > 2)
+		.filter((word) => !STOP_WORDS.has(word))
+		.filter((word) => !/^\d+$/.test(word)); // Exclude pure numbers
+}
+
+/**
+ * Count how often each term occurs
+ */
+function countTerms(terms: string[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const term of terms) {
+		counts.set(term, (counts.get(term) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * Dot product of two sparse vectors
+ */
+function dotProduct(a: TermVector, b: TermVector): number {
+	const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+	let dot = 0;
+	for (const [term, weight] of small) {
+		dot += weight * (large.get(term) ?? 0);
+	}
+	return dot;
+}
+
+/**
+ * Cosine similarity of two sparse vectors
+ */
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+	const norm = (v: TermVector) =>
+		Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0));
+	const denominator = norm(a) * norm(b);
+	return denominator === 0 ? 0 : dotProduct(a, b) / denominator;
+}
+
+/**
+ * Cosine similarity of two dense vectors (e.g. embeddings)
+ */
+export function denseCosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		const x = a[i] ?? 0;
+		const y = b[i] ?? 0;
+		dot += x * y;
+		normA += x * x;
+		normB += y * y;
+	}
+	const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+	return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * In-memory TF-IDF index
+ *
+ * Documents are weighted with sublinear term frequency (1 + log tf) and
+ * smoothed inverse document frequency, then L2-normalized, so the dot
+ * product of two vectors is their cosine similarity.
+ *
+ * @example
+ * const index = new TfIdfIndex([{ id: "a", text: "graph neural networks" }]);
+ * index.search(index.vectorize("neural networks for graphs"));
+ */
+export class TfIdfIndex {
+	private readonly documentFrequency = new Map<string, number>();
+	private readonly vectors = new Map<string, TermVector>();
+
+	constructor(documents: Iterable<TfIdfDocument>) {
+		const counted: [string, Map<string, number>][] = [];
+		for (const { id, text } of documents) {
+			const counts = countTerms(tokenize(text));
+			counted.push([id, counts]);
+			for (const term of counts.keys()) {
+				this.documentFrequency.set(
+					term,
+					(this.documentFrequency.get(term) ?? 0) + 1,
+				);
+			}
+		}
+
+		for (const [id, counts] of counted) {
+			this.vectors.set(id, this.weigh(counts, counted.length));
+		}
+	}
+
+	/**
+	 * Number of documents in the index
+	 */
+	get size(): number {
+		return this.vectors.size;
+	}
+
+	/**
+	 * Check whether a document is in the index
+	 */
+	has(id: string): boolean {
+		return this.vectors.has(id);
+	}
+
+	/**
+	 * Get the vector of an indexed document
+	 */
+	getVector(id: string): TermVector | undefined {
+		return this.vectors.get(id);
+	}
+
+	/**
+	 * Weigh arbitrary text with the index's document frequencies
+	 */
+	vectorize(text: string): TermVector {
+		return this.weigh(countTerms(tokenize(text)), this.vectors.size);
+	}
+
+	/**
+	 * Find the documents most similar to a query vector
+	 *
+	 * @param query - Normalized vector from vectorize() or getVector()
+	 * @param options - Result limit, minimum score and IDs to skip
+	 * @returns Matches sorted by descending similarity
+	 */
+	search(
+		query: TermVector,
+		options: { limit?: number; minScore?: number; exclude?: Set<string> } = {},
+	): TfIdfMatch[] {
+		const { limit = 10, minScore = 0, exclude } = options;
+		const matches: TfIdfMatch[] = [];
+
+		for (const [id, vector] of this.vectors) {
+			if (exclude?.has(id)) continue;
+			// Both vectors are normalized, so the dot product is the cosine
+			const score = dotProduct(query, vector);
+			if (score > minScore) {
+				matches.push({ id, score });
+			}
+		}
+
+		return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+	}
+
+	/**
+	 * Turn term counts into a normalized TF-IDF vector
+	 */
+	private weigh(
+		counts: Map<string, number>,
+		documentCount: number,
+	): TermVector {
+		const vector: TermVector = new Map();
+		let norm = 0;
+
+		for (const [term, count] of counts) {
+			const df = this.documentFrequency.get(term) ?? 0;
+			const idf = Math.log((1 + documentCount) / (1 + df)) + 1;
+			const weight = (1 + Math.log(count)) * idf;
+			vector.set(term, weight);
+			norm += weight * weight;
+		}
+
+		norm = Math.sqrt(norm);
+		if (norm > 0) {
+			for (const [term, weight] of vector) {
+				vector.set(term, weight / norm);
+			}
+		}
+		return vector;
+	}
+}
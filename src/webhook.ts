@@ -13,7 +13,8 @@
  * - GET /metrics/prometheus - Prometheus format metrics
  * - GET /ready      - Readiness probe
  * - GET /live       - Liveness probe
- * - GET /api/export/:token - Download export files (BibTeX/CSV)
+ * - GET /api/export/:token - Download export files (BibTeX/CSV/RIS/CSL-JSON/EndNote XML/Markdown)
+ * - GET /feeds/:token.atom - Personal Atom feed of subscription papers (/feed)
  * - POST /api/subscriptions/trigger - Manually trigger subscription processing
  */
 
@@ -21,6 +22,7 @@ import { Elysia } from "elysia";
 import { bot } from "./bot";
 import { config, isRedisConfigured } from "./config";
 import { isDatabaseHealthy } from "./db/index.js";
+import { buildUserFeed, getFeedUrl } from "./features/delivery.js";
 import { checkRedisConnection } from "./storage/redis";
 import {
 	getExport,
@@ -171,6 +173,24 @@ const app = new Elysia()
 		return exportData.content;
 	})
 
+	// Personal Atom feed endpoint
+	.get("/feeds/:file", async ({ params, request, set }) => {
+		const token = params.file.replace(/\.atom$/, "");
+		const feed = token
+			? await buildUserFeed(token, getFeedUrl(token) ?? request.url)
+			: null;
+
+		if (!feed) {
+			// The token is a secret, so it is not logged
+			set.status = 404;
+			return { error: "Feed not found" };
+		}
+
+		set.headers["content-type"] = "application/atom+xml; charset=utf-8";
+		set.headers["cache-control"] = "private, max-age=300";
+		return feed;
+	})
+
 	// Manual subscription trigger endpoint
 	.post("/api/subscriptions/trigger", async ({ headers, query, set }) => {
 		// Check authorization
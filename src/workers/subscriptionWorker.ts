@@ -5,11 +5,27 @@
  * periodic paper updates to subscribed users.
  *
  * Features:
- * - Fetches new papers from arXiv for each subscription topic
+ * - Fetches new papers from the subscription's source (arXiv by default)
  * - Filters out already-viewed papers
  * - Sends formatted updates to users via Telegram
- * - Rate limits notifications to avoid API limits
+ * - Sends Telegram messages through the outbound dispatcher (bot/outbound.ts),
+ *   which keeps them within Telegram's rate limits
  * - Updates lastRunAt timestamp after successful processing
+ * - Queues due subscriptions as durable jobs (see jobRepository.ts): jobs are
+ *   claimed with a lease so concurrent runs never send the same update, and
+ *   failed jobs are retried with backoff before being marked dead
+ * - Runs daily/weekly digests at the user's local time and holds them during
+ *   quiet hours (see getNextRunAt in utils/schedule.ts)
+ * - Sends weekly For You digests to users who turned them on (/foryou weekly on)
+ * - Alerts followers of an author (/follow) to the author's new papers
+ * - Merges all of a user's due subscriptions into one paged digest for users
+ *   who turned on merged digests (/digest merged)
+ * - Tells users when a bookmarked paper gets a new arXiv version or journal
+ *   reference, with a diff of the title and abstract
+ * - Also delivers subscription papers by email and to personal Atom feeds
+ *   for users who turned them on (/email, /feed; see channels/index.ts)
+ * - Carries on admin broadcasts whose sending process stopped part way
+ *   (see resumeBroadcasts in middleware/admin.ts)
  *
  * Can be triggered via:
  * - Vercel Cron Jobs (see api/cron/subscriptions.ts)
@@ -17,21 +33,90 @@
  * - Direct function call for local development
  */
 
+import { randomBytes } from "node:crypto";
+import { hostname } from "node:os";
 import { InlineKeyboard } from "gramio";
 import type { ArxivCategory, Paper } from "../arxiv.js";
-import { fetchPapers, formatSummary, searchPapersAdvanced } from "../arxiv.js";
+import {
+	fetchPapersAdvanced,
+	formatSummary,
+	searchPapersAdvanced,
+} from "../arxiv.js";
 import { bot } from "../bot/index.js";
+import { type DeliveryChannelId, deliver } from "../channels/index.js";
+import {
+	createDigest,
+	deleteOldDigests,
+} from "../db/repositories/digestRepository.js";
+import { deleteOldFeedEntries } from "../db/repositories/feedRepository.js";
+import {
+	claimJobs,
+	completeJob,
+	deleteOldJobs,
+	enqueueJobs,
+	failJob,
+	getJobCounts,
+	type JobInput,
+	renewJobLease,
+} from "../db/repositories/jobRepository.js";
 import {
 	getViewedPaperIds,
 	markPapersAsViewed,
 } from "../db/repositories/paperViewRepository.js";
 import {
 	getDueSubscriptions,
+	getSubscriptionById,
 	updateSubscriptionLastRun,
 } from "../db/repositories/subscriptionRepository.js";
-import { findUserById } from "../db/repositories/userRepository.js";
-import type { Subscription } from "../db/schema.js";
+import {
+	findUserById,
+	getDueForYouDigestUsers,
+	markForYouDigestSent,
+} from "../db/repositories/userRepository.js";
+import type { Job, JobState, Subscription, User } from "../db/schema.js";
+import {
+	createForYouKeyboard,
+	formatForYouMessage,
+	getForYouPapers,
+} from "../features/forYou.js";
+import { indexPapers } from "../features/paperIndex.js";
+import {
+	acknowledgePaperUpdate,
+	checkBookmarkedPapers,
+	type PaperUpdate,
+} from "../features/paperVersions.js";
+import {
+	createDigestKeyboard,
+	getAuthorProfile,
+	getSubscriptionWindowStart,
+} from "../features/subscriptions.js";
+import { resumeBroadcasts } from "../middleware/admin.js";
+import {
+	DEFAULT_SOURCE,
+	fitsCallbackData,
+	getPaperSource,
+	getSourceName,
+	getStoredPaperId,
+	resolveSourceName,
+	searchSource,
+} from "../sources/index.js";
+import { buildAuthorQuery, isPaperByAuthor } from "../utils/authors.js";
+import {
+	type DigestBlock,
+	type DigestPaper,
+	type DigestSection,
+	groupDigestPapers,
+	MAX_DIGEST_PAGE_LENGTH,
+	mergeDigestPapers,
+	paginateDigest,
+} from "../utils/digest.js";
 import { logger } from "../utils/logger.js";
+import { getBackoffDelay } from "../utils/retry.js";
+import {
+	type DiffSegment,
+	formatWordDiff,
+	trimDiffContext,
+} from "../utils/textDiff.js";
 
 /**
  * Result of processing a single subscription
@@ -44,6 +129,8 @@ export interface SubscriptionProcessResult {
 	papersFound: number;
 	papersSent: number;
 	error?: string;
+	/** Channels the delivery reached, so a retry does not send there again */
+	channels?: DeliveryChannelId[];
 }
 
 /**
@@ -54,6 +141,16 @@ export interface WorkerResult {
 	successful: number;
 	failed: number;
 	results: SubscriptionProcessResult[];
+	/** Jobs added to the queue for due subscriptions */
+	jobsQueued: number;
+	/** Jobs that used their last attempt and are now dead */
+	jobsDead: number;
+	/** Weekly For You digests sent */
+	forYouDigests: number;
+	/** New versions of bookmarked papers reported */
+	paperUpdates: number;
+	/** Broadcasts carried on after the process sending them stopped */
+	broadcastsResumed: number;
 	durationMs: number;
 }
 
@@ -65,47 +162,140 @@ export interface WorkerConfig {
 	maxSubscriptions?: number;
 	/** Maximum papers to fetch per subscription (default: 5) */
 	maxPapersPerSubscription?: number;
-	/** Delay between sending notifications in ms (default: 1000) */
+	/**
+	 * Delay between deliveries in ms (default: 0)
+	 *
+	 * @deprecated Messages are paced by the outbound dispatcher
+	 * (bot/outbound.ts). A delay only spaces out this worker's own
+	 * deliveries; other sends keep the dispatcher's rate.
+	 */
 	notificationDelay?: number;
 	/** Whether to mark sent papers as viewed (default: true) */
 	markAsViewed?: boolean;
 	/** Dry run - don't actually send notifications (default: false) */
 	dryRun?: boolean;
+	/** Maximum bookmarks checked for new versions per run (default: 200) */
+	maxVersionChecks?: number;
 }
 
 const DEFAULT_CONFIG: Required<WorkerConfig> = {
 	maxSubscriptions: 50,
 	maxPapersPerSubscription: 5,
-	notificationDelay: 1000,
+	notificationDelay: 0,
 	markAsViewed: true,
 	dryRun: false,
+	maxVersionChecks: 200,
 };
 
 /**
- * Sleep utility for rate limiting
+ * Sleep utility for the deprecated notificationDelay
  */
 function sleep(ms: number): Promise<void> {
+	if (ms <= 0) return Promise.resolve();
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Extract arXiv ID from a paper link
+ * Longest diff shown in a paper update notice, in characters
+ */
+const MAX_DIFF_LENGTH = 2500;
+
+/**
+ * Days merged digests are kept for their page buttons
+ */
+const DIGEST_RETENTION_DAYS = 30;
+
+/**
+ * Days to keep papers in personal Atom feeds
+ */
+const FEED_RETENTION_DAYS = 30;
+
+/**
+ * How long a worker holds a claimed job, in seconds
+ *
+ * Much longer than a job takes; a job still held after this is assumed to
+ * belong to a crashed worker and is claimed again. The lease is renewed
+ * right before the job sends anything.
+ */
+const JOB_LEASE_SECONDS = 10 * 60;
+
+/**
+ * Backoff between attempts at a failed job: 1, 2, 4, 8... minutes, at most 6 hours
+ */
+const JOB_RETRY_BACKOFF = {
+	baseDelay: 60 * 1000,
+	maxDelay: 6 * 60 * 60 * 1000,
+};
+
+/**
+ * Days to keep finished and dead jobs
+ */
+const JOB_RETENTION_DAYS = 30;
+
+/**
+ * Job types run by this worker
+ */
+const JOB_TYPES = ["subscription", "digest"];
+
+/**
+ * Identifies this worker process in job leases
+ */
+const WORKER_ID = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+
+/**
+ * Checks, right before sending, that this worker may still send a delivery
  */
-function extractArxivId(link: string): string {
+type LeaseCheck = () => Promise<boolean>;
+
+/**
+ * Lease check for deliveries sent outside the job queue (dry runs)
+ */
+const stillHeld: LeaseCheck = async () => true;
+
+/**
+ * Error recorded when the job's lease was lost before sending
+ */
+const LEASE_LOST = "Lost the job lease before sending";
+
+/**
+ * A delivery of due subscriptions: one subscription, or a user's merged digest
+ */
+interface SubscriptionDelivery {
+	/** Set for merged digests */
+	user?: User;
+	subscriptions: Subscription[];
+}
+
+/**
+ * Get the ID used to track a paper in views and callback data
+ *
+ * arXiv IDs are stored without a version suffix; other sources use
+ * their source-qualified ID.
+ */
+function getPaperKey(paper: Paper): string {
+	if (getPaperSource(paper) !== "arxiv") {
+		return getStoredPaperId(paper) ?? paper.link;
+	}
+
 	// Format: http://arxiv.org/abs/2301.00001v1
-	const match = link.match(/arxiv\.org\/abs\/([^\s/]+)/);
+	const match = paper.link.match(/arxiv\.org\/abs\/([^\s/]+)/);
 	if (match?.[1]) {
 		// Remove version suffix if present (e.g., v1, v2)
 		return match[1].replace(/v\d+$/, "");
 	}
-	return link;
+	return paper.link;
 }
 
 /**
  * Format a single paper for display in notification
  */
 function formatPaperForNotification(paper: Paper, index: number): string {
-	const arxivId = extractArxivId(paper.link);
+	const paperKey = getPaperKey(paper);
+	const source = getPaperSource(paper);
+	const linkLabel =
+		source === "arxiv"
+			? `arXiv:${paperKey}`
+			: `${getSourceName(source)}: ${paper.externalId ?? paperKey}`;
 	const shortSummary = formatSummary(paper.summary, 150);
 	const authors = paper.authors?.slice(0, 3).join(", ") || "Unknown";
 	const moreAuthors =
@@ -117,8 +307,9 @@ function formatPaperForNotification(paper: Paper, index: number): string {
 		`*${index}. ${escapeMarkdown(paper.title)}*\n` +
 		`👤 ${escapeMarkdown(authors)}${moreAuthors}\n` +
 		`📅 ${paper.published}\n` +
+		(paper.journalRef ? `📰 ${escapeMarkdown(paper.journalRef)}\n` : "") +
 		`📝 ${escapeMarkdown(shortSummary)}\n` +
-		`🔗 [arXiv:${arxivId}](${paper.link})`
+		`🔗 [${escapeMarkdown(linkLabel)}](${paper.link})`
 	);
 }
 
@@ -129,23 +320,39 @@ function escapeMarkdown(text: string): string {
 	return text.replace(/[_*[\]()~`>#+=|{}.!-]/g, "\\$&");
 }
 
+/**
+ * Get the heading of a subscription update, e.g. "New papers for: transformers"
+ */
+function getSubscriptionTitle(subscription: Subscription): string {
+	const heading =
+		subscription.kind === "author" ? "New papers by" : "New papers for";
+	return `${heading}: ${subscription.topic}`;
+}
+
+/**
+ * Get the note shown when not all new papers were sent
+ */
+function getShowingNote(sent: number, totalNew: number): string | undefined {
+	return totalNew > sent
+		? `Showing ${sent} of ${totalNew} new papers`
+		: undefined;
+}
+
 /**
  * Format subscription update message
  */
 function formatSubscriptionMessage(
-	topic: string,
+	subscription: Subscription,
 	papers: Paper[],
 	totalNew: number,
 ): string {
-	const header = `📬 *New papers for: ${escapeMarkdown(topic)}*\n\n`;
+	const header = `📬 *${escapeMarkdown(getSubscriptionTitle(subscription))}*\n\n`;
 	const papersList = papers
 		.map((p, i) => formatPaperForNotification(p, i + 1))
 		.join("\n\n");
 
-	const footer =
-		totalNew > papers.length
-			? `\n\n_Showing ${papers.length} of ${totalNew} new papers_`
-			: "";
+	const note = getShowingNote(papers.length, totalNew);
+	const footer = note ? `\n\n_${escapeMarkdown(note)}_` : "";
 
 	return header + papersList + footer;
 }
@@ -154,7 +361,7 @@ function formatSubscriptionMessage(
  * Create keyboard for subscription notification
  */
 function createNotificationKeyboard(
-	topic: string,
+	subscription: Subscription,
 	papers: Paper[],
 ): InlineKeyboard {
 	const keyboard = new InlineKeyboard();
@@ -162,12 +369,17 @@ function createNotificationKeyboard(
 	// Add bookmark buttons for first 3 papers
 	const papersToShow = papers.slice(0, 3);
 	for (const paper of papersToShow) {
-		const arxivId = extractArxivId(paper.link);
-		keyboard.text(`📑 ${arxivId}`, `bookmark:${arxivId}`).row();
+		const paperKey = getPaperKey(paper);
+		const callbackData = `bookmark:${paperKey}`;
+		if (!fitsCallbackData(callbackData)) continue;
+		keyboard.text(`📑 ${paperKey}`, callbackData).row();
 	}
 
-	// Add search more button
-	keyboard.text(`🔍 Search more "${topic}"`, `search_history:${topic}`).row();
+	// Add search more button (author follows have nothing more to search)
+	if (subscription.kind !== "author") {
+		const { topic } = subscription;
+		keyboard.text(`🔍 Search more "${topic}"`, `search_history:${topic}`).row();
+	}
 
 	// Add manage subscription button
 	keyboard.text("⚙️ Manage Subscriptions", "action:subscriptions");
@@ -183,6 +395,32 @@ async function fetchPapersForSubscription(
 	maxPapers: number,
 ): Promise<Paper[]> {
 	try {
+		// Only include papers submitted since the last digest
+		const submittedAfter = getSubscriptionWindowStart(subscription);
+
+		if (subscription.kind === "author") {
+			// arXiv matches every author with the same family name and initial,
+			// so keep only papers that look like the followed author's
+			const profile = getAuthorProfile(subscription);
+			const papers = await searchPapersAdvanced({
+				query: buildAuthorQuery(profile.name),
+				maxResults: maxPapers,
+				sortBy: "submittedDate",
+				sortOrder: "descending",
+				submittedAfter,
+			});
+			return papers.filter((paper) => isPaperByAuthor(paper, profile));
+		}
+
+		const source = resolveSourceName(subscription.source) ?? DEFAULT_SOURCE;
+		if (source !== DEFAULT_SOURCE) {
+			// Categories are arXiv-specific, so other sources search by topic only
+			return await searchSource(subscription.topic, source, {
+				max: maxPapers,
+				submittedAfter,
+			});
+		}
+
 		if (subscription.category) {
 			// Use advanced search with category filter
 			return await searchPapersAdvanced({
@@ -191,11 +429,16 @@ async function fetchPapersForSubscription(
 				maxResults: maxPapers,
 				sortBy: "submittedDate",
 				sortOrder: "descending",
+				submittedAfter,
 			});
 		}
 
 		// Simple topic search
-		return await fetchPapers(subscription.topic, 0, maxPapers);
+		return await fetchPapersAdvanced({
+			topic: subscription.topic,
+			max: maxPapers,
+			submittedAfter,
+		});
 	} catch (error) {
 		logger.error("Failed to fetch papers for subscription", {
 			subscriptionId: subscription.id,
@@ -206,44 +449,14 @@ async function fetchPapersForSubscription(
 	}
 }
 
-/**
- * Send notification to user
- */
-async function sendNotification(
-	chatId: number,
-	message: string,
-	keyboard: InlineKeyboard,
-	dryRun: boolean,
-): Promise<boolean> {
-	if (dryRun) {
-		logger.info("DRY RUN: Would send notification", { chatId });
-		return true;
-	}
-
-	try {
-		await bot.api.sendMessage({
-			chat_id: chatId,
-			text: message,
-			parse_mode: "MarkdownV2",
-			reply_markup: keyboard,
-			link_preview_options: { is_disabled: true },
-		});
-		return true;
-	} catch (error) {
-		logger.error("Failed to send subscription notification", {
-			chatId,
-			error: error instanceof Error ? error.message : String(error),
-		});
-		return false;
-	}
-}
-
 /**
  * Process a single subscription
  */
 async function processSubscription(
 	subscription: Subscription,
 	config: Required<WorkerConfig>,
+	holdsLease: LeaseCheck = stillHeld,
+	reached: DeliveryChannelId[] = [],
 ): Promise<SubscriptionProcessResult> {
 	const result: SubscriptionProcessResult = {
 		subscriptionId: subscription.id,
@@ -282,13 +495,11 @@ async function processSubscription(
 		result.papersFound = papers.length;
 
 		// Extract arXiv IDs
-		const arxivIds = papers.map((p) => extractArxivId(p.link));
+		const arxivIds = papers.map(getPaperKey);
 
 		// Filter out already-viewed papers
 		const viewedIds = await getViewedPaperIds(subscription.userId, arxivIds);
-		const newPapers = papers.filter(
-			(p) => !viewedIds.has(extractArxivId(p.link)),
-		);
+		const newPapers = papers.filter((p) => !viewedIds.has(getPaperKey(p)));
 
 		if (newPapers.length === 0) {
 			// All papers already viewed, update lastRunAt
@@ -307,34 +518,46 @@ async function processSubscription(
 
 		// Format and send notification
 		const message = formatSubscriptionMessage(
-			subscription.topic,
+			subscription,
 			papersToSend,
 			newPapers.length,
 		);
-		const keyboard = createNotificationKeyboard(
-			subscription.topic,
-			papersToSend,
-		);
+		const keyboard = createNotificationKeyboard(subscription, papersToSend);
 
-		const sent = await sendNotification(
-			user.chatId,
-			message,
-			keyboard,
-			config.dryRun,
+		if (!(await holdsLease())) {
+			result.error = LEASE_LOST;
+			return result;
+		}
+
+		const report = await deliver(
+			user,
+			{
+				title: getSubscriptionTitle(subscription),
+				papers: papersToSend.map((paper) => ({
+					paper,
+					key: getPaperKey(paper),
+					topics: [subscription.topic],
+				})),
+				note: getShowingNote(papersToSend.length, newPapers.length),
+				telegram: { text: message, keyboard },
+			},
+			{ dryRun: config.dryRun, skip: reached },
 		);
+		result.channels = report.delivered;
 
-		if (sent) {
+		if (report.ok) {
 			result.papersSent = papersToSend.length;
 
 			// Mark sent papers as viewed
 			if (config.markAsViewed && !config.dryRun) {
-				const sentArxivIds = papersToSend.map((p) => extractArxivId(p.link));
+				const sentArxivIds = papersToSend.map(getPaperKey);
 				await markPapersAsViewed(subscription.userId, sentArxivIds);
 			}
 
-			// Update lastRunAt
+			// Update lastRunAt and add the sent papers to the similarity index
 			if (!config.dryRun) {
 				await updateSubscriptionLastRun(subscription.id);
+				await indexPapers(papersToSend);
 			}
 
 			result.success = true;
@@ -345,9 +568,10 @@ async function processSubscription(
 				topic: subscription.topic,
 				papersSent: papersToSend.length,
 				totalNew: newPapers.length,
+				channels: report.delivered,
 			});
 		} else {
-			result.error = "Failed to send notification";
+			result.error = `Failed to send notification (${report.failed.join(", ")})`;
 		}
 	} catch (error) {
 		result.error = error instanceof Error ? error.message : String(error);
@@ -360,6 +584,541 @@ async function processSubscription(
 	return result;
 }
 
+/**
+ * Group due subscriptions into deliveries
+ *
+ * Users with merged digests get one delivery for all their due
+ * subscriptions; everyone else gets one per subscription.
+ */
+async function groupDeliveries(
+	subscriptions: Subscription[],
+): Promise<SubscriptionDelivery[]> {
+	const byUser = new Map<number, Subscription[]>();
+	for (const subscription of subscriptions) {
+		const { userId } = subscription;
+		byUser.set(userId, [...(byUser.get(userId) ?? []), subscription]);
+	}
+
+	const deliveries: SubscriptionDelivery[] = [];
+	for (const [userId, userSubscriptions] of byUser) {
+		const user =
+			userSubscriptions.length > 1 ? await findUserById(userId) : null;
+		if (user?.mergedDigest) {
+			deliveries.push({ user, subscriptions: userSubscriptions });
+		} else {
+			deliveries.push(
+				...userSubscriptions.map((subscription) => ({
+					subscriptions: [subscription],
+				})),
+			);
+		}
+	}
+	return deliveries;
+}
+
+/**
+ * Format the pages of a merged digest
+ */
+function formatMergedDigest(sections: DigestSection[]): {
+	title: string;
+	pages: { text: string; paperKeys: string[] }[];
+	papers: DigestPaper[];
+} {
+	const merged = mergeDigestPapers(sections, getPaperKey);
+	const blocks: DigestBlock[] = [];
+	let index = 0;
+
+	for (const group of groupDigestPapers(sections, merged)) {
+		blocks.push({ text: `*${escapeMarkdown(group.title)}*` });
+		for (const { paper, key, topics } of group.papers) {
+			index++;
+			const topicLine =
+				topics.length > 1 ? `\n🏷 ${escapeMarkdown(topics.join(" · "))}` : "";
+			blocks.push({
+				text: formatPaperForNotification(paper, index) + topicLine,
+				paperKey: key,
+			});
+		}
+	}
+
+	const topicCount = sections.filter((s) => s.papers.length > 0).length;
+	const title = `Your digest: ${merged.length} new papers in ${topicCount} ${topicCount === 1 ? "topic" : "topics"}`;
+	const header = `📬 *${escapeMarkdown(title)}*`;
+	const pages = paginateDigest(
+		blocks,
+		MAX_DIGEST_PAGE_LENGTH - header.length - 2,
+	).map((page) => ({ ...page, text: `${header}\n\n${page.text}` }));
+
+	return { title, pages, papers: merged };
+}
+
+/**
+ * Send all of a user's due subscriptions as one merged digest
+ *
+ * Digests longer than one message are stored so their page buttons work.
+ */
+async function processMergedDigest(
+	user: User,
+	subscriptions: Subscription[],
+	config: Required<WorkerConfig>,
+	holdsLease: LeaseCheck = stillHeld,
+	reached: DeliveryChannelId[] = [],
+): Promise<SubscriptionProcessResult[]> {
+	const results: SubscriptionProcessResult[] = subscriptions.map(
+		(subscription) => ({
+			subscriptionId: subscription.id,
+			userId: subscription.userId,
+			topic: subscription.topic,
+			success: false,
+			papersFound: 0,
+			papersSent: 0,
+		}),
+	);
+	const fail = (error: string) => {
+		for (const result of results) result.error = error;
+		return results;
+	};
+
+	try {
+		const sections: DigestSection[] = [];
+		for (const [i, subscription] of subscriptions.entries()) {
+			const papers = await fetchPapersForSubscription(
+				subscription,
+				config.maxPapersPerSubscription * 2, // Fetch more to account for filtering
+			);
+			const viewedIds = await getViewedPaperIds(
+				user.id,
+				papers.map(getPaperKey),
+			);
+			const newPapers = papers
+				.filter((p) => !viewedIds.has(getPaperKey(p)))
+				.slice(0, config.maxPapersPerSubscription);
+
+			const result = results[i];
+			if (result) result.papersFound = papers.length;
+			sections.push({
+				topic: subscription.topic,
+				author: subscription.kind === "author",
+				papers: newPapers,
+			});
+		}
+
+		const { title, pages, papers } = formatMergedDigest(sections);
+		const firstPage = pages[0];
+		if (firstPage) {
+			// Later pages are only reachable through the stored digest
+			const digest =
+				pages.length > 1 && !config.dryRun
+					? await createDigest(user.id, pages)
+					: null;
+			if (pages.length > 1 && !config.dryRun && !digest) {
+				return fail("Failed to store digest");
+			}
+			if (!(await holdsLease())) {
+				return fail(LEASE_LOST);
+			}
+
+			// Email and feeds get every paper; Telegram shows the first page
+			const report = await deliver(
+				user,
+				{
+					title,
+					papers,
+					telegram: {
+						text: firstPage.text,
+						keyboard: createDigestKeyboard(digest?.id ?? 0, 0, pages),
+					},
+				},
+				{ dryRun: config.dryRun, skip: reached },
+			);
+			for (const result of results) result.channels = report.delivered;
+			if (!report.ok) {
+				return fail(
+					`Failed to send notification (${report.failed.join(", ")})`,
+				);
+			}
+
+			if (config.markAsViewed && !config.dryRun) {
+				await markPapersAsViewed(
+					user.id,
+					papers.map((p) => p.key),
+				);
+			}
+			if (!config.dryRun) {
+				await indexPapers(papers.map((p) => p.paper));
+			}
+
+			for (const [i, section] of sections.entries()) {
+				const result = results[i];
+				if (result) result.papersSent = section.papers.length;
+			}
+
+			logger.info("Sent merged digest", {
+				userId: user.id,
+				subscriptions: subscriptions.length,
+				papersSent: papers.length,
+				pages: pages.length,
+				channels: report.delivered,
+			});
+		}
+
+		if (!config.dryRun) {
+			for (const subscription of subscriptions) {
+				await updateSubscriptionLastRun(subscription.id);
+			}
+		}
+		for (const result of results) result.success = true;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		logger.error("Error processing merged digest", {
+			userId: user.id,
+			error: message,
+		});
+		return fail(message);
+	}
+
+	return results;
+}
+
+/**
+ * Send a delivery: one subscription update or a user's merged digest
+ *
+ * @param reached - Channels an earlier attempt already delivered to
+ */
+async function processDelivery(
+	delivery: SubscriptionDelivery,
+	config: Required<WorkerConfig>,
+	holdsLease: LeaseCheck = stillHeld,
+	reached: DeliveryChannelId[] = [],
+): Promise<SubscriptionProcessResult[]> {
+	if (delivery.user) {
+		return processMergedDigest(
+			delivery.user,
+			delivery.subscriptions,
+			config,
+			holdsLease,
+			reached,
+		);
+	}
+	const [subscription] = delivery.subscriptions;
+	return subscription
+		? [await processSubscription(subscription, config, holdsLease, reached)]
+		: [];
+}
+
+/**
+ * Add a worker result for each processed subscription
+ */
+function recordResults(
+	result: WorkerResult,
+	results: SubscriptionProcessResult[],
+): void {
+	for (const subscriptionResult of results) {
+		result.results.push(subscriptionResult);
+		result.processed++;
+
+		if (subscriptionResult.success) {
+			result.successful++;
+		} else {
+			result.failed++;
+		}
+	}
+}
+
+/**
+ * Describe a delivery as a queued job
+ *
+ * Keys are per subscription, or per user for merged digests, so a
+ * delivery that is already queued is not queued twice.
+ */
+function toJob(delivery: SubscriptionDelivery): JobInput {
+	if (delivery.user) {
+		return {
+			type: "digest",
+			key: `digest:${delivery.user.id}`,
+			payload: {
+				userId: delivery.user.id,
+				subscriptionIds: delivery.subscriptions.map((s) => s.id),
+			},
+		};
+	}
+
+	const subscriptionId = delivery.subscriptions[0]?.id;
+	return {
+		type: "subscription",
+		key: `subscription:${subscriptionId}`,
+		payload: { subscriptionId },
+	};
+}
+
+/**
+ * Load the delivery a job describes
+ *
+ * Subscriptions removed or paused since the job was queued are left out.
+ *
+ * @returns The delivery, or null if there is nothing left to send
+ * @throws Error if the job type is unknown
+ */
+async function loadJobDelivery(job: Job): Promise<SubscriptionDelivery | null> {
+	const payload = JSON.parse(job.payload) as {
+		subscriptionId?: number;
+		userId?: number;
+		subscriptionIds?: number[];
+	};
+
+	if (job.type === "subscription") {
+		const subscription = payload.subscriptionId
+			? await getSubscriptionById(payload.subscriptionId)
+			: null;
+		return subscription?.isActive ? { subscriptions: [subscription] } : null;
+	}
+
+	if (job.type === "digest") {
+		const user = payload.userId ? await findUserById(payload.userId) : null;
+		const subscriptions: Subscription[] = [];
+		for (const id of payload.subscriptionIds ?? []) {
+			const subscription = await getSubscriptionById(id);
+			if (subscription?.isActive) subscriptions.push(subscription);
+		}
+		if (!user || subscriptions.length === 0) {
+			return null;
+		}
+		// A digest left with one subscription is sent as a normal update
+		return subscriptions.length > 1
+			? { user, subscriptions }
+			: { subscriptions };
+	}
+
+	throw new Error(`Unknown job type: ${job.type}`);
+}
+
+/**
+ * Run a claimed job, then complete it or schedule a retry
+ *
+ * @returns The subscription results and the job's new state (null if the
+ * lease was lost to another worker)
+ */
+async function runJob(
+	job: Job,
+	config: Required<WorkerConfig>,
+): Promise<{ results: SubscriptionProcessResult[]; state: JobState | null }> {
+	let results: SubscriptionProcessResult[] = [];
+	let error: string | undefined;
+	// Channels reached by earlier attempts are not sent to again
+	let payload: { reached?: DeliveryChannelId[] } | undefined;
+	const reached = new Set<DeliveryChannelId>();
+
+	try {
+		payload = JSON.parse(job.payload) as { reached?: DeliveryChannelId[] };
+		for (const channel of payload.reached ?? []) reached.add(channel);
+		const delivery = await loadJobDelivery(job);
+		// Fetching papers can take a while behind the arXiv rate limit, so
+		// renew the lease right before sending; if another worker has
+		// claimed the job meanwhile, leave the sending to it
+		const holdsLease = () =>
+			renewJobLease(job.id, WORKER_ID, JOB_LEASE_SECONDS);
+		results = delivery
+			? await processDelivery(delivery, config, holdsLease, [...reached])
+			: [];
+		for (const channel of results.flatMap((r) => r.channels ?? [])) {
+			reached.add(channel);
+		}
+		const failed = results.find((r) => !r.success);
+		if (failed) {
+			error = failed.error ?? "Delivery failed";
+		}
+	} catch (jobError) {
+		error = jobError instanceof Error ? jobError.message : String(jobError);
+	}
+
+	const state =
+		error === undefined
+			? (await completeJob(job.id, WORKER_ID))
+				? "done"
+				: null
+			: await failJob(
+					job,
+					WORKER_ID,
+					error,
+					getBackoffDelay(job.attempts, JOB_RETRY_BACKOFF),
+					payload && { ...payload, reached: [...reached] },
+				);
+
+	if (state === null) {
+		logger.warn("Lost the lease on a job", { jobId: job.id, key: job.key });
+	} else if (state !== "done") {
+		logger.warn("Subscription job failed", {
+			jobId: job.id,
+			key: job.key,
+			attempt: job.attempts,
+			state,
+			error,
+		});
+	}
+	return { results, state };
+}
+
+/**
+ * Send the weekly For You digests that are due
+ *
+ * @returns Number of digests sent
+ */
+async function processForYouDigests(
+	config: Required<WorkerConfig>,
+): Promise<number> {
+	const dueUsers = await getDueForYouDigestUsers(config.maxSubscriptions);
+	let sent = 0;
+
+	for (const user of dueUsers) {
+		const suggestions = await getForYouPapers(
+			user.id,
+			config.maxPapersPerSubscription,
+		);
+
+		if (suggestions.length > 0) {
+			const lang = user.language ?? "en";
+			// The digest is plain text, so escape all of it for MarkdownV2
+			const report = await deliver(
+				user,
+				{
+					title: "Your weekly For You digest",
+					papers: [],
+					telegram: {
+						text: escapeMarkdown(formatForYouMessage(suggestions, true, lang)),
+						keyboard: createForYouKeyboard(suggestions, lang),
+					},
+				},
+				{ dryRun: config.dryRun, only: ["telegram"] },
+			);
+			if (!report.ok) continue;
+
+			sent++;
+			if (config.markAsViewed && !config.dryRun) {
+				await markPapersAsViewed(
+					user.id,
+					suggestions.map((s) => getPaperKey(s.paper)),
+				);
+			}
+		}
+
+		// Weeks without suggestions count as sent so they are not retried every run
+		if (!config.dryRun) {
+			await markForYouDigestSent(user.id);
+		}
+	}
+
+	if (dueUsers.length > 0) {
+		logger.info("Processed For You digests", { due: dueUsers.length, sent });
+	}
+	return sent;
+}
+
+/**
+ * Format a diff for MarkdownV2: removed words struck through, added in bold
+ *
+ * @returns The diff, or null if it is too long to show
+ */
+function formatDiffMarkdown(segments: DiffSegment[]): string | null {
+	const text = formatWordDiff(trimDiffContext(segments), {
+		unchanged: escapeMarkdown,
+		deleted: (words) => `~${escapeMarkdown(words)}~`,
+		inserted: (words) => `*${escapeMarkdown(words)}*`,
+	});
+	return text.length <= MAX_DIFF_LENGTH ? text : null;
+}
+
+/**
+ * Format the notice for a new version or journal reference of a bookmark
+ */
+function formatPaperUpdateMessage(update: PaperUpdate): string {
+	const { bookmark, paper, previousVersion, newVersion, journalRef } = update;
+	const arxivId = bookmark.arxivId.replace(/v\d+$/, "");
+
+	const lines = [
+		`🆕 *${newVersion ? "New version" : "Now published"}: ${escapeMarkdown(paper.title)}*`,
+		"",
+	];
+	if (newVersion) {
+		const updated = paper.updated
+			? ` ${escapeMarkdown(`(updated ${paper.updated})`)}`
+			: "";
+		lines.push(
+			`📄 arXiv:${escapeMarkdown(arxivId)} ${previousVersion ? `v${previousVersion} → ` : ""}v${newVersion}${updated}`,
+		);
+	}
+	if (journalRef) {
+		lines.push(`📰 Published in: ${escapeMarkdown(journalRef)}`);
+	}
+
+	if (update.titleDiff.length > 0) {
+		const diff = formatDiffMarkdown(update.titleDiff);
+		lines.push("", "*Title:*", diff ?? "_Title rewritten_");
+	}
+	if (update.summaryDiff.length > 0) {
+		const diff = formatDiffMarkdown(update.summaryDiff);
+		lines.push("", "*Abstract:*", diff ?? "_Abstract rewritten_");
+	} else if (newVersion) {
+		lines.push("", "_Title and abstract unchanged_");
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Create the keyboard for a paper update notice
+ */
+function createPaperUpdateKeyboard(update: PaperUpdate): InlineKeyboard {
+	const arxivId = update.bookmark.arxivId.replace(/v\d+$/, "");
+	const version = update.newVersion ? `v${update.newVersion}` : "";
+	return new InlineKeyboard()
+		.url(
+			`📄 Read ${version || "paper"}`,
+			`https://arxiv.org/abs/${arxivId}${version}`,
+		)
+		.text("📚 Bookmarks", "action:bookmarks");
+}
+
+/**
+ * Tell users about new versions and journal references of their bookmarks
+ *
+ * @returns Number of notices sent
+ */
+async function processPaperUpdates(
+	config: Required<WorkerConfig>,
+): Promise<number> {
+	const updates = await checkBookmarkedPapers(config.maxVersionChecks, {
+		record: !config.dryRun,
+	});
+	let sent = 0;
+
+	for (const update of updates) {
+		const user = await findUserById(update.bookmark.userId);
+		if (!user) continue;
+
+		const report = await deliver(
+			user,
+			{
+				title: `Update: ${update.paper.title}`,
+				papers: [],
+				telegram: {
+					text: formatPaperUpdateMessage(update),
+					keyboard: createPaperUpdateKeyboard(update),
+				},
+			},
+			{ dryRun: config.dryRun, only: ["telegram"] },
+		);
+		// Unacknowledged updates are reported again on the next check
+		if (!report.ok) continue;
+
+		sent++;
+		if (!config.dryRun) {
+			await acknowledgePaperUpdate(update);
+		}
+	}
+
+	return sent;
+}
+
 /**
  * Main worker function - processes all due subscriptions
  *
@@ -394,11 +1153,22 @@ export async function processSubscriptions(
 		config: mergedConfig,
 	});
 
+	if (mergedConfig.notificationDelay > 0) {
+		logger.warn(
+			"notificationDelay is deprecated; messages are paced by the outbound dispatcher",
+		);
+	}
+
 	const result: WorkerResult = {
 		processed: 0,
 		successful: 0,
 		failed: 0,
 		results: [],
+		jobsQueued: 0,
+		jobsDead: 0,
+		forYouDigests: 0,
+		paperUpdates: 0,
+		broadcastsResumed: 0,
 		durationMs: 0,
 	};
 
@@ -408,39 +1178,50 @@ export async function processSubscriptions(
 			mergedConfig.maxSubscriptions,
 		);
 
-		if (dueSubscriptions.length === 0) {
-			logger.info("No due subscriptions to process");
-			result.durationMs = Date.now() - startTime;
-			return result;
-		}
-
 		logger.info("Found due subscriptions", {
 			count: dueSubscriptions.length,
 		});
 
-		// Process each subscription
-		for (const subscription of dueSubscriptions) {
-			const subscriptionResult = await processSubscription(
-				subscription,
-				mergedConfig,
-			);
-			result.results.push(subscriptionResult);
-			result.processed++;
+		// One delivery per subscription, or per user for merged digests
+		const deliveries = await groupDeliveries(dueSubscriptions);
 
-			if (subscriptionResult.success) {
-				result.successful++;
-			} else {
-				result.failed++;
+		if (mergedConfig.dryRun) {
+			// Dry runs process due subscriptions directly and leave the queue alone
+			for (const delivery of deliveries) {
+				recordResults(result, await processDelivery(delivery, mergedConfig));
+				await sleep(mergedConfig.notificationDelay);
 			}
+		} else {
+			result.jobsQueued = await enqueueJobs(deliveries.map(toJob));
 
-			// Rate limit between notifications
-			if (
-				result.processed < dueSubscriptions.length &&
-				mergedConfig.notificationDelay > 0
-			) {
+			// Claim one job at a time so each lease only has to cover one job.
+			// This also picks up retries and jobs left by crashed workers.
+			for (let i = 0; i < mergedConfig.maxSubscriptions; i++) {
+				const [job] = await claimJobs(WORKER_ID, {
+					types: JOB_TYPES,
+					limit: 1,
+					leaseSeconds: JOB_LEASE_SECONDS,
+				});
+				if (!job) break;
+
+				const { results, state } = await runJob(job, mergedConfig);
+				recordResults(result, results);
+				if (state === "dead") {
+					result.jobsDead++;
+				}
 				await sleep(mergedConfig.notificationDelay);
 			}
 		}
+
+		result.forYouDigests = await processForYouDigests(mergedConfig);
+		result.paperUpdates = await processPaperUpdates(mergedConfig);
+
+		if (!mergedConfig.dryRun) {
+			result.broadcastsResumed = await resumeBroadcasts(bot);
+			await deleteOldDigests(DIGEST_RETENTION_DAYS);
+			await deleteOldFeedEntries(FEED_RETENTION_DAYS);
+			await deleteOldJobs(JOB_RETENTION_DAYS);
+		}
 	} catch (error) {
 		logger.error("Subscription worker error", {
 			error: error instanceof Error ? error.message : String(error),
@@ -453,6 +1234,11 @@ export async function processSubscriptions(
 		processed: result.processed,
 		successful: result.successful,
 		failed: result.failed,
+		jobsQueued: result.jobsQueued,
+		jobsDead: result.jobsDead,
+		forYouDigests: result.forYouDigests,
+		paperUpdates: result.paperUpdates,
+		broadcastsResumed: result.broadcastsResumed,
 		durationMs: result.durationMs,
 	});
 
@@ -464,10 +1250,12 @@ export async function processSubscriptions(
  */
 export async function getWorkerStatus(): Promise<{
 	dueSubscriptions: number;
+	jobs: Record<JobState, number>;
 	lastRun?: string;
 }> {
 	const dueSubscriptions = await getDueSubscriptions(1000);
 	return {
 		dueSubscriptions: dueSubscriptions.length,
+		jobs: await getJobCounts(),
 	};
 }
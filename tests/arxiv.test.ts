@@ -12,7 +12,16 @@
  * Consider running with longer timeouts: bun test --timeout 30000
  */
 
-import { describe, expect, it, setDefaultTimeout } from "bun:test";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	setDefaultTimeout,
+} from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
 
 // Set longer default timeout for API tests (30 seconds)
 setDefaultTimeout(30000);
@@ -22,10 +31,14 @@ import {
 	fetchPaperById,
 	fetchPapers,
 	fetchPapersAdvanced,
+	fetchPapersByIds,
 	formatSummary,
+	getArxivVersion,
 	getCategoryDescription,
+	getPrimaryCategory,
 	getRateLimiterStatus,
 	type Paper,
+	parseArxivFeed,
 	searchByAuthor,
 	searchByCategory,
 	searchPapersAdvanced,
@@ -273,6 +286,94 @@ describe("arXiv API", () => {
 		});
 	});
 
+	describe("fetchPapersByIds", () => {
+		const originalFetch = globalThis.fetch;
+		let requestedUrls: string[] = [];
+
+		beforeEach(() => {
+			requestedUrls = [];
+			globalThis.fetch = (async (input: string | URL | Request) => {
+				requestedUrls.push(
+					String(input instanceof Request ? input.url : input),
+				);
+				return new Response(
+					readFileSync(
+						join(import.meta.dir, "fixtures", "sources", "arxiv-feed.xml"),
+						"utf-8",
+					),
+				);
+			}) as typeof fetch;
+		});
+
+		afterEach(() => {
+			globalThis.fetch = originalFetch;
+		});
+
+		it("should fetch the latest version of each paper", async () => {
+			const papers = await fetchPapersByIds(["1706.03762", "2301.00001"]);
+
+			const url = new URL(requestedUrls[0] ?? "");
+			expect(requestedUrls).toHaveLength(1);
+			expect(url.searchParams.get("id_list")).toBe("1706.03762,2301.00001");
+			expect(url.searchParams.get("max_results")).toBe("2");
+			expect(papers.map((paper) => paper.version)).toEqual([7, 1]);
+			for (const paper of papers) {
+				expect(paper.updated).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+			}
+		});
+
+		it("should return an empty array for no IDs", async () => {
+			expect(await fetchPapersByIds([])).toEqual([]);
+		});
+	});
+
+	describe("getArxivVersion", () => {
+		it("should read the version from IDs and links", () => {
+			expect(getArxivVersion("http://arxiv.org/abs/1706.03762v7")).toBe(7);
+			expect(getArxivVersion("hep-th/9901001v2")).toBe(2);
+		});
+
+		it("should return null without a version", () => {
+			expect(getArxivVersion("1706.03762")).toBeNull();
+			expect(getArxivVersion("http://arxiv.org/abs/hep-th/9901001")).toBeNull();
+		});
+	});
+
+	describe("parseArxivFeed", () => {
+		const papers = parseArxivFeed(
+			readFileSync(
+				join(import.meta.dir, "fixtures", "sources", "arxiv-feed.xml"),
+				"utf-8",
+			),
+		);
+
+		it("should parse publication metadata", () => {
+			expect(papers).toHaveLength(2);
+			expect(papers[0]).toMatchObject({
+				version: 7,
+				updated: "2023-08-02",
+				doi: "10.5555/3295222.3295349",
+				comment: "15 pages, 5 figures",
+				journalRef:
+					"Advances in Neural Information Processing Systems 30 (2017)",
+			});
+		});
+
+		it("should list the primary category first", () => {
+			expect(papers[0]?.primaryCategory).toBe("cs.CL");
+			expect(papers[0]?.categories).toEqual(["cs.CL", "cs.LG"]);
+			expect(getPrimaryCategory(papers[1] as Paper)).toBe("math.OC");
+		});
+
+		it("should map authors to their affiliations", () => {
+			expect(papers[0]?.affiliations).toEqual({
+				"Ashish Vaswani": ["Google Brain"],
+				"Llion Jones": ["Google Research", "University of Birmingham"],
+			});
+			expect(papers[1]?.affiliations).toBeUndefined();
+		});
+	});
+
 	describe("formatSummary", () => {
 		it("should return short summaries unchanged", () => {
 			const short = "This is a short summary.";
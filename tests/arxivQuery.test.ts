@@ -0,0 +1,256 @@
+/**
+ * Unit tests for the arXiv boolean query language
+ *
+ * Tests cover:
+ * - Plain keyword passthrough
+ * - Field prefixes, phrases and operators
+ * - Grouping and precedence
+ * - Date ranges
+ * - Error positions for malformed queries
+ * - --since option parsing
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	buildSubmittedDateRange,
+	compileSearchQuery,
+	formatArxivDate,
+	isStructuredQuery,
+	parseSearchQuery,
+	parseSinceOption,
+	parseSinceValue,
+	toArxivSearchQuery,
+} from "../src/arxivQuery";
+import { ValidationError } from "../src/errors";
+
+const NOW = new Date(Date.UTC(2024, 5, 15, 12, 30));
+
+function compile(input: string): string {
+	return toArxivSearchQuery(input, { now: NOW });
+}
+
+function errorOf(input: string): ValidationError {
+	try {
+		compile(input);
+	} catch (error) {
+		if (error instanceof ValidationError) return error;
+		throw error;
+	}
+	throw new Error(`Expected "${input}" to fail`);
+}
+
+describe("isStructuredQuery", () => {
+	it("should treat plain keywords as unstructured", () => {
+		expect(isStructuredQuery("machine learning")).toBe(false);
+		expect(isStructuredQuery("deep learning: a survey")).toBe(false);
+		expect(isStructuredQuery("rock and roll")).toBe(false);
+	});
+
+	it("should detect fields, operators, phrases and groups", () => {
+		expect(isStructuredQuery("au:Bengio")).toBe(true);
+		expect(isStructuredQuery("gan OR vae")).toBe(true);
+		expect(isStructuredQuery('"graph neural"')).toBe(true);
+		expect(isStructuredQuery("(gan)")).toBe(true);
+		expect(isStructuredQuery("date:2023..2024")).toBe(true);
+	});
+});
+
+describe("toArxivSearchQuery", () => {
+	it("should keep the all: prefix for plain keywords", () => {
+		expect(compile("machine learning")).toBe("all:machine learning");
+		expect(compile("  transformers ")).toBe("all:transformers");
+	});
+
+	it("should compile the example query from the help text", () => {
+		expect(
+			compile('ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV'),
+		).toBe('ti:"graph neural" AND (au:Bengio OR au:LeCun) ANDNOT cat:cs.CV');
+	});
+
+	it("should resolve field aliases", () => {
+		expect(compile("title:attention author:Vaswani")).toBe(
+			"ti:attention AND au:Vaswani",
+		);
+		expect(compile("abstract:diffusion OR journal:Nature")).toBe(
+			"abs:diffusion OR jr:Nature",
+		);
+	});
+
+	it("should default unprefixed terms to all:", () => {
+		expect(compile("gan OR vae")).toBe("all:gan OR all:vae");
+		expect(compile('"large language model"')).toBe(
+			'all:"large language model"',
+		);
+	});
+
+	it("should bind AND tighter than OR", () => {
+		expect(compile("a OR b AND c")).toBe("all:a OR (all:b AND all:c)");
+		expect(compile("(a OR b) AND c")).toBe("(all:a OR all:b) AND all:c");
+	});
+
+	it("should keep explicit grouping on the right-hand side", () => {
+		expect(compile("a ANDNOT (b OR c)")).toBe("all:a ANDNOT (all:b OR all:c)");
+		expect(compile("a AND (b AND c)")).toBe("all:a AND (all:b AND all:c)");
+	});
+
+	it("should chain AND and ANDNOT left to right", () => {
+		expect(compile("au:Hinton cat:cs.LG ANDNOT cat:stat.ML")).toBe(
+			"au:Hinton AND cat:cs.LG ANDNOT cat:stat.ML",
+		);
+	});
+
+	it("should compile date ranges", () => {
+		expect(compile("date:2023-01..2023-06")).toBe(
+			"submittedDate:[202301010000 TO 202306302359]",
+		);
+		expect(compile("submittedDate:[20230101 TO 20231231]")).toBe(
+			"submittedDate:[202301010000 TO 202312312359]",
+		);
+		expect(compile("updated:2024..")).toBe(
+			"lastUpdatedDate:[202401010000 TO 202406151230]",
+		);
+		expect(compile("cat:cs.AI date:..2020")).toBe(
+			"cat:cs.AI AND submittedDate:[199101010000 TO 202012312359]",
+		);
+	});
+
+	it("should handle leap years in end bounds", () => {
+		expect(compile("date:2024-02..2024-02")).toBe(
+			"submittedDate:[202402010000 TO 202402292359]",
+		);
+	});
+});
+
+describe("query errors", () => {
+	it("should report unknown fields with their position", () => {
+		const error = errorOf("au:Hinton AND foo:bar");
+		expect(error.message).toBe('Unknown field "foo" at position 15');
+		expect(error.field).toBe("query");
+	});
+
+	it("should report dangling operators", () => {
+		expect(errorOf("gan OR").message).toBe(
+			"Unexpected end of query at position 7",
+		);
+		expect(errorOf("OR gan").message).toBe(
+			'Operator "OR" is missing a left-hand term at position 1',
+		);
+		expect(errorOf("gan AND OR vae").message).toBe(
+			'Operator "OR" is missing a left-hand term at position 9',
+		);
+	});
+
+	it("should report unbalanced parentheses", () => {
+		expect(errorOf("(gan OR vae").message).toBe(
+			'Missing closing ")" at position 1',
+		);
+		expect(errorOf("gan)").message).toBe('Unexpected ")" at position 4');
+		expect(errorOf("gan ()").message).toBe("Empty parentheses at position 5");
+	});
+
+	it("should report unterminated phrases", () => {
+		expect(errorOf('ti:"graph neural').message).toBe(
+			"Unterminated quoted phrase at position 4",
+		);
+	});
+
+	it("should report invalid categories", () => {
+		expect(errorOf("cat:cs.AI!").message).toContain(
+			'Invalid category "cs.AI!"',
+		);
+	});
+
+	it("should report invalid date ranges", () => {
+		expect(errorOf("date:2023-13..2024").message).toContain(
+			'Invalid month in date "2023-13"',
+		);
+		expect(errorOf("date:2024..2023").message).toContain(
+			"Date range start is after its end",
+		);
+		expect(errorOf("date:yesterday").message).toContain("Invalid date range");
+		expect(errorOf("ti:[2023 TO 2024]").message).toContain(
+			"Date ranges are only allowed on date fields",
+		);
+	});
+
+	it("should reject empty queries", () => {
+		expect(() => parseSearchQuery("   ")).toThrow(ValidationError);
+	});
+});
+
+describe("compileSearchQuery", () => {
+	it("should round-trip a parsed tree", () => {
+		const tree = parseSearchQuery("(au:Bengio OR au:LeCun) AND ti:deep", {
+			now: NOW,
+		});
+		expect(tree.type).toBe("binary");
+		expect(compileSearchQuery(tree)).toBe(
+			"(au:Bengio OR au:LeCun) AND ti:deep",
+		);
+	});
+});
+
+describe("date helpers", () => {
+	it("should format dates as YYYYMMDDHHMM in UTC", () => {
+		expect(formatArxivDate(NOW)).toBe("202406151230");
+	});
+
+	it("should build submittedDate clauses", () => {
+		expect(
+			buildSubmittedDateRange(new Date(Date.UTC(2024, 5, 8, 0, 0)), NOW),
+		).toBe("submittedDate:[202406080000 TO 202406151230]");
+	});
+});
+
+describe("parseSinceValue", () => {
+	it("should resolve relative durations", () => {
+		expect(parseSinceValue("7d", NOW)?.toISOString()).toBe(
+			"2024-06-08T12:30:00.000Z",
+		);
+		expect(parseSinceValue("24h", NOW)?.toISOString()).toBe(
+			"2024-06-14T12:30:00.000Z",
+		);
+		expect(parseSinceValue("2w", NOW)?.toISOString()).toBe(
+			"2024-06-01T12:30:00.000Z",
+		);
+	});
+
+	it("should resolve absolute dates", () => {
+		expect(parseSinceValue("2024-01-15", NOW)?.toISOString()).toBe(
+			"2024-01-15T00:00:00.000Z",
+		);
+	});
+
+	it("should reject invalid or future values", () => {
+		expect(parseSinceValue("0d", NOW)).toBeNull();
+		expect(parseSinceValue("soon", NOW)).toBeNull();
+		expect(parseSinceValue("2030-01-01", NOW)).toBeNull();
+	});
+});
+
+describe("parseSinceOption", () => {
+	it("should extract --since and leave the query", () => {
+		const result = parseSinceOption("--since 7d diffusion models", NOW);
+		expect(result.text).toBe("diffusion models");
+		expect(result.submittedAfter?.toISOString()).toBe(
+			"2024-06-08T12:30:00.000Z",
+		);
+	});
+
+	it("should accept --since=value anywhere in the arguments", () => {
+		const result = parseSinceOption("au:Hinton --since=2024-01-01", NOW);
+		expect(result.text).toBe("au:Hinton");
+		expect(result.submittedAfter).toBeDefined();
+	});
+
+	it("should report invalid values", () => {
+		expect(parseSinceOption("gan --since later", NOW)).toEqual({
+			text: "gan",
+			invalidSince: "later",
+		});
+	});
+
+	it("should pass through arguments without --since", () => {
+		expect(parseSinceOption(" gan ", NOW)).toEqual({ text: "gan" });
+	});
+});
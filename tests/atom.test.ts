@@ -0,0 +1,86 @@
+/**
+ * Unit tests for Atom feeds
+ *
+ * Tests cover:
+ * - Building feed XML
+ * - Escaping text
+ * - Converting SQLite timestamps
+ */
+
+import { describe, expect, it } from "bun:test";
+import { XMLParser } from "fast-xml-parser";
+import { buildAtomFeed, toAtomDate } from "../src/utils/atom";
+
+const feed = {
+	id: "https://bot.example.com/feeds/abc.atom",
+	title: "Research Bot: papers for Ada",
+	selfLink: "https://bot.example.com/feeds/abc.atom",
+	entries: [
+		{
+			id: "https://bot.example.com/feeds/abc.atom#2",
+			title: "Graphs & <Transformers>",
+			link: "http://arxiv.org/abs/2401.00002v1",
+			updated: "2024-01-02T00:00:00Z",
+			summary: 'We "combine" them',
+			authors: ["Ada Lovelace", "Alan Turing"],
+			categories: ["transformers"],
+		},
+		{
+			id: "https://bot.example.com/feeds/abc.atom#1",
+			title: "Attention",
+			link: "http://arxiv.org/abs/2401.00001v1",
+			updated: "2024-01-01T00:00:00Z",
+		},
+	],
+};
+
+describe("buildAtomFeed", () => {
+	it("should build a feed readers can parse", () => {
+		const parsed = new XMLParser({ ignoreAttributes: false }).parse(
+			buildAtomFeed(feed),
+		);
+
+		expect(parsed.feed["@_xmlns"]).toBe("http://www.w3.org/2005/Atom");
+		expect(parsed.feed.id).toBe(feed.id);
+		expect(parsed.feed.updated).toBe("2024-01-02T00:00:00Z");
+		expect(parsed.feed.entry).toHaveLength(2);
+
+		const [entry] = parsed.feed.entry;
+		expect(entry.title).toBe("Graphs & <Transformers>");
+		expect(entry.link["@_href"]).toBe("http://arxiv.org/abs/2401.00002v1");
+		expect(entry.author.map((a: { name: string }) => a.name)).toEqual([
+			"Ada Lovelace",
+			"Alan Turing",
+		]);
+		expect(entry.category["@_term"]).toBe("transformers");
+	});
+
+	it("should escape markup in text", () => {
+		const xml = buildAtomFeed(feed);
+
+		expect(xml).toContain("<title>Graphs &amp; &lt;Transformers&gt;</title>");
+		expect(xml).toContain("<summary>We &quot;combine&quot; them</summary>");
+		expect(xml).not.toContain("<Transformers>");
+	});
+
+	it("should build an empty feed", () => {
+		const xml = buildAtomFeed({
+			...feed,
+			updated: "2024-03-01T00:00:00Z",
+			entries: [],
+		});
+
+		expect(xml).toContain("<updated>2024-03-01T00:00:00Z</updated>");
+		expect(xml).not.toContain("<entry>");
+	});
+});
+
+describe("toAtomDate", () => {
+	it("should convert SQLite timestamps to UTC ISO dates", () => {
+		expect(toAtomDate("2024-01-01 12:30:00")).toBe("2024-01-01T12:30:00Z");
+	});
+
+	it("should leave other dates unchanged", () => {
+		expect(toAtomDate("2024-01-01T12:30:00Z")).toBe("2024-01-01T12:30:00Z");
+	});
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for author name matching
+ *
+ * Tests cover:
+ * - Parsing and matching name variants
+ * - Building arXiv author queries
+ * - Telling apart authors who share a name
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Paper } from "../src/arxiv";
+import {
+	authorNamesMatch,
+	buildAuthorProfile,
+	buildAuthorQuery,
+	getAuthorNameVariants,
+	groupPapersByAuthor,
+	isPaperByAuthor,
+	parseAuthorName,
+	toAsciiName,
+} from "../src/utils/authors";
+
+function paper(title: string, authors: string[], categories: string[]): Paper {
+	return {
+		title,
+		summary: "",
+		link: `https://arxiv.org/abs/${title}`,
+		published: "2024-01-01",
+		authors,
+		categories,
+	};
+}
+
+const visionPapers = [
+	paper("v1", ["Wei Zhang", "Lei Li"], ["cs.CV"]),
+	paper("v2", ["W. Zhang", "Lei Li", "Anna Smith"], ["cs.CV", "cs.LG"]),
+	paper("v3", ["Anna Smith", "Wei Zhang"], ["cs.CV"]),
+];
+const physicsPapers = [
+	paper("p1", ["Wei Zhang", "Hans Müller"], ["hep-th"]),
+	paper("p2", ["Zhang, Wei", "Hans Muller"], ["hep-th"]),
+];
+
+describe("parseAuthorName", () => {
+	it("should split given and family names", () => {
+		expect(parseAuthorName("Yoshua Bengio")).toEqual({
+			given: ["yoshua"],
+			family: "bengio",
+		});
+		expect(parseAuthorName("Bengio, Y.")).toEqual({
+			given: ["y"],
+			family: "bengio",
+		});
+	});
+
+	it("should keep particles with the family name", () => {
+		expect(parseAuthorName("Johannes van der Waals").family).toBe(
+			"van der waals",
+		);
+	});
+
+	it("should transliterate diacritics", () => {
+		expect(toAsciiName("Petar Veličković")).toBe("Petar Velickovic");
+		expect(parseAuthorName("Hans Müller").family).toBe("muller");
+	});
+});
+
+describe("authorNamesMatch", () => {
+	it("should match initials, reversed order and diacritics", () => {
+		expect(authorNamesMatch("Y. Bengio", "Yoshua Bengio")).toBe(true);
+		expect(authorNamesMatch("Bengio, Yoshua", "Yoshua Bengio")).toBe(true);
+		expect(authorNamesMatch("Petar Velickovic", "Petar Veličković")).toBe(true);
+	});
+
+	it("should not match different given or family names", () => {
+		expect(authorNamesMatch("Samy Bengio", "Yoshua Bengio")).toBe(false);
+		expect(authorNamesMatch("Yoshua Bengio", "Yoshua Benjamin")).toBe(false);
+	});
+});
+
+describe("getAuthorNameVariants", () => {
+	it("should list the forms a name appears in", () => {
+		expect(getAuthorNameVariants("Yoshua Bengio")).toEqual([
+			"Yoshua Bengio",
+			"Y. Bengio",
+			"Bengio, Yoshua",
+			"Bengio, Y.",
+		]);
+	});
+});
+
+describe("buildAuthorQuery", () => {
+	it("should query the full name and the family name with initial", () => {
+		expect(buildAuthorQuery("Yoshua Bengio")).toBe(
+			'au:"Yoshua Bengio" OR au:bengio_y',
+		);
+		expect(buildAuthorQuery("Johannes van der Waals")).toBe(
+			'au:"Johannes van der Waals" OR au:van_der_waals_j',
+		);
+	});
+
+	it("should handle family-only and empty names", () => {
+		expect(buildAuthorQuery("Bengio")).toBe("au:bengio");
+		expect(buildAuthorQuery("  ")).toBe("");
+	});
+});
+
+describe("groupPapersByAuthor", () => {
+	it("should separate authors sharing a name", () => {
+		const candidates = groupPapersByAuthor("Wei Zhang", [
+			...physicsPapers,
+			...visionPapers,
+			paper("other", ["Yoshua Bengio"], ["cs.LG"]),
+		]);
+
+		expect(candidates).toHaveLength(2);
+		expect(candidates[0]?.papers.map((p) => p.title)).toEqual([
+			"v1",
+			"v2",
+			"v3",
+		]);
+		expect(candidates[0]?.profile.categories).toEqual(["cs.CV"]);
+		expect(candidates[1]?.profile.coAuthors).toEqual(["Hans Müller"]);
+	});
+});
+
+describe("isPaperByAuthor", () => {
+	const profile = buildAuthorProfile("Wei Zhang", visionPapers);
+
+	it("should accept papers sharing a co-author or field", () => {
+		expect(
+			isPaperByAuthor(
+				paper("n1", ["Wei Zhang", "Lei Li"], ["eess.IV"]),
+				profile,
+			),
+		).toBe(true);
+		expect(
+			isPaperByAuthor(paper("n2", ["Zhang, W."], ["cs.RO"]), profile),
+		).toBe(true);
+	});
+
+	it("should reject namesakes in other fields", () => {
+		expect(isPaperByAuthor(physicsPapers[0] as Paper, profile)).toBe(false);
+		expect(isPaperByAuthor(paper("n3", ["Lei Li"], ["cs.CV"]), profile)).toBe(
+			false,
+		);
+	});
+
+	it("should accept any matching name without a profile", () => {
+		expect(
+			isPaperByAuthor(physicsPapers[0] as Paper, {
+				name: "Wei Zhang",
+				coAuthors: [],
+				categories: [],
+			}),
+		).toBe(true);
+	});
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit tests for broadcast audiences
+ *
+ * Tests cover:
+ * - Parsing /broadcast options and message
+ * - Rejecting invalid options
+ * - Describing audiences
+ * - Selecting recently active users
+ * - Carrying on a broadcast whose process stopped
+ */
+
+import { beforeAll, describe, expect, it } from "bun:test";
+import type { Bot } from "gramio";
+import type { Broadcast } from "../src/db/schema";
+import {
+	describeAudience,
+	MAX_BROADCAST_LENGTH,
+	parseBroadcastArgs,
+} from "../src/utils/broadcast";
+import { execute, openTestDatabase } from "./testDatabase";
+
+describe("parseBroadcastArgs", () => {
+	it("should send a plain message to everyone", () => {
+		expect(parseBroadcastArgs("  New feature: /feed  ")).toEqual({
+			audience: {},
+			message: "New feature: /feed",
+		});
+	});
+
+	it("should read leading options and keep line breaks in the message", () => {
+		expect(
+			parseBroadcastArgs(
+				"--lang DE --active=30d --category cs.AI Hallo!\n\nZweite Zeile --lang en",
+			),
+		).toEqual({
+			audience: { language: "de", activeDays: 30, category: "cs.AI" },
+			message: "Hallo!\n\nZweite Zeile --lang en",
+		});
+	});
+
+	it("should accept an activity window without the d suffix", () => {
+		expect(parseBroadcastArgs("--active 7 Hi")).toMatchObject({
+			audience: { activeDays: 7 },
+		});
+	});
+
+	it("should not read dashes in the message as options", () => {
+		expect(parseBroadcastArgs("--- Maintenance tonight ---")).toEqual({
+			audience: {},
+			message: "--- Maintenance tonight ---",
+		});
+	});
+
+	it("should reject invalid options", () => {
+		expect(parseBroadcastArgs("--lang xx Hi")).toEqual({
+			error: "Unknown language: xx",
+		});
+		expect(parseBroadcastArgs("--active 0 Hi")).toHaveProperty("error");
+		expect(parseBroadcastArgs("--active week Hi")).toHaveProperty("error");
+		expect(parseBroadcastArgs("--category ../x Hi")).toHaveProperty("error");
+		expect(parseBroadcastArgs("--region eu Hi")).toEqual({
+			error: "Unknown option: --region",
+		});
+		expect(parseBroadcastArgs("--lang xx Hi", "fr")).toEqual({
+			error: "Langue inconnue : xx",
+		});
+	});
+
+	it("should reject empty and overlong messages", () => {
+		expect(parseBroadcastArgs("--lang en")).toEqual({
+			error: "The broadcast message is empty.",
+		});
+		expect(
+			parseBroadcastArgs("x".repeat(MAX_BROADCAST_LENGTH + 1)),
+		).toHaveProperty("error");
+	});
+});
+
+describe("describeAudience", () => {
+	it("should describe everyone", () => {
+		expect(describeAudience({})).toBe("all users");
+	});
+
+	it("should list every option", () => {
+		expect(
+			describeAudience({ language: "de", activeDays: 30, category: "cs.AI" }),
+		).toBe(
+			"users with language de, active in the last 30 days, subscribed to cs.AI",
+		);
+		expect(describeAudience({ activeDays: 1 })).toBe(
+			"users active in the last day",
+		);
+	});
+
+	it("should describe the audience in the admin's language", () => {
+		expect(describeAudience({}, "de")).toBe("alle Nutzer");
+		expect(describeAudience({ activeDays: 30 }, "de")).toBe(
+			"Nutzer in den letzten 30 Tagen aktiv",
+		);
+	});
+});
+
+describe("broadcast delivery", () => {
+	let repository: typeof import("../src/db/repositories/broadcastRepository");
+	let admin: typeof import("../src/middleware/admin");
+	let userIds: number[];
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		repository = await import("../src/db/repositories/broadcastRepository");
+		admin = await import("../src/middleware/admin");
+		const { findOrCreateUser } = await import(
+			"../src/db/repositories/userRepository"
+		);
+
+		userIds = [];
+		for (const chatId of [600001, 600002, 600003]) {
+			const user = await findOrCreateUser(chatId);
+			if (!user) throw new Error("Could not create a test user");
+			userIds.push(user.id);
+		}
+	});
+
+	it("should compare activity with the stored ISO timestamps", async () => {
+		const [recent, stale] = userIds;
+		const minutesAgo = (minutes: number) =>
+			new Date(Date.now() - minutes * 60_000).toISOString();
+		await execute(
+			`UPDATE users SET language = 'ar', last_active_at = '${minutesAgo(5)}' WHERE id = ${recent}`,
+		);
+		// Just outside a 30 day window, on the same calendar day
+		await execute(
+			`UPDATE users SET language = 'ar', last_active_at = '${minutesAgo(30 * 24 * 60 + 1)}' WHERE id = ${stale}`,
+		);
+
+		expect(
+			await repository.getAudienceChatIds({ language: "ar", activeDays: 30 }),
+		).toEqual([600001]);
+	});
+
+	it("should carry on a broadcast from its cursor once its lease runs out", async () => {
+		await execute(
+			`UPDATE users SET language = 'ja' WHERE id IN (${userIds.join(", ")})`,
+		);
+		const draft = await repository.createBroadcast({
+			adminChatId: 1,
+			message: "Hello",
+			audience: { language: "ja" },
+			total: 3,
+		});
+		if (!draft) throw new Error("Could not create a broadcast");
+
+		// A process that sent to the first user, then stopped
+		await repository.startBroadcast(draft.id, {
+			total: 3,
+			statusMessageId: 0,
+			lockedBy: "stopped-process",
+			leaseSeconds: 0,
+		});
+		await repository.updateBroadcastProgress(
+			draft.id,
+			"stopped-process",
+			{ sent: 1, failed: 0, cursor: userIds[0] ?? 0 },
+			0,
+		);
+
+		const sent: number[] = [];
+		const bot = {
+			api: {
+				sendMessage: ({ chat_id }: { chat_id: number }) => {
+					sent.push(chat_id);
+					return Promise.resolve({});
+				},
+			},
+		} as unknown as Bot;
+
+		expect(await admin.resumeBroadcasts(bot)).toBe(1);
+		expect(sent).toEqual([600002, 600003]);
+		expect(await repository.findBroadcastById(draft.id)).toMatchObject({
+			status: "done",
+			sent: 3,
+			failed: 0,
+			lockedBy: null,
+		} satisfies Partial<Broadcast>);
+
+		// The old process has lost its lease
+		expect(
+			await repository.updateBroadcastProgress(
+				draft.id,
+				"stopped-process",
+				{ sent: 1, failed: 0, cursor: 0 },
+				60,
+			),
+		).toBeNull();
+		expect(await admin.resumeBroadcasts(bot)).toBe(0);
+	});
+});
@@ -6,9 +6,12 @@
  * - Bookmark repository operations
  * - Search history repository operations
  * - Subscription repository operations
+ * - Collection and tag operations
+ * - Job queue leases, retries and dead jobs (against an in-memory database)
  */
 
 import { beforeAll, describe, expect, it } from "bun:test";
+import { execute, openTestDatabase } from "./testDatabase";
 
 // Since we can't easily test with a real database in unit tests,
 // we test the repository logic and interfaces
@@ -675,3 +678,339 @@ describe("Paper View Repository", () => {
 		expect(hasViewed(2, "2301.00001")).toBe(true);
 	});
 });
+
+describe("Collection Repository", () => {
+	interface MockCollection {
+		id: number;
+		userId: number;
+		name: string;
+	}
+
+	const mockCollections: Map<number, MockCollection> = new Map();
+	// bookmarkId -> collection IDs
+	const mockLinks: Map<number, Set<number>> = new Map();
+	// bookmarkId -> tags
+	const mockTags: Map<number, Set<string>> = new Map();
+	let nextId = 1;
+
+	function createCollection(
+		userId: number,
+		name: string,
+	): MockCollection | null {
+		for (const collection of mockCollections.values()) {
+			if (collection.userId === userId && collection.name === name) {
+				return null; // Name already used
+			}
+		}
+
+		const collection: MockCollection = { id: nextId++, userId, name };
+		mockCollections.set(collection.id, collection);
+		return collection;
+	}
+
+	function addToCollection(bookmarkId: number, collectionId: number): boolean {
+		const links = mockLinks.get(bookmarkId) ?? new Set<number>();
+		if (links.has(collectionId)) {
+			return false;
+		}
+		links.add(collectionId);
+		mockLinks.set(bookmarkId, links);
+		return true;
+	}
+
+	function getCollectionBookmarkIds(collectionId: number): number[] {
+		return [...mockLinks.entries()]
+			.filter(([, links]) => links.has(collectionId))
+			.map(([bookmarkId]) => bookmarkId);
+	}
+
+	function deleteCollection(collectionId: number): boolean {
+		for (const links of mockLinks.values()) {
+			links.delete(collectionId);
+		}
+		return mockCollections.delete(collectionId);
+	}
+
+	function addTags(bookmarkId: number, tags: string[]): number {
+		const existing = mockTags.get(bookmarkId) ?? new Set<string>();
+		let added = 0;
+		for (const tag of tags) {
+			if (!existing.has(tag)) {
+				existing.add(tag);
+				added++;
+			}
+		}
+		mockTags.set(bookmarkId, existing);
+		return added;
+	}
+
+	function deleteBookmarkLinks(bookmarkId: number): void {
+		mockLinks.delete(bookmarkId);
+		mockTags.delete(bookmarkId);
+	}
+
+	beforeAll(() => {
+		mockCollections.clear();
+		mockLinks.clear();
+		mockTags.clear();
+		nextId = 1;
+	});
+
+	it("should create collections with unique names per user", () => {
+		expect(createCollection(1, "thesis")).not.toBeNull();
+		expect(createCollection(1, "thesis")).toBeNull();
+		expect(createCollection(2, "thesis")).not.toBeNull();
+	});
+
+	it("should put a bookmark in several collections", () => {
+		const readingGroup = createCollection(1, "reading group");
+		if (!readingGroup) throw new Error("collection not created");
+
+		expect(addToCollection(10, 1)).toBe(true);
+		expect(addToCollection(10, readingGroup.id)).toBe(true);
+		expect(addToCollection(10, 1)).toBe(false);
+		expect(getCollectionBookmarkIds(1)).toEqual([10]);
+		expect(getCollectionBookmarkIds(readingGroup.id)).toEqual([10]);
+	});
+
+	it("should keep bookmarks when a collection is deleted", () => {
+		expect(deleteCollection(1)).toBe(true);
+		expect(getCollectionBookmarkIds(1)).toEqual([]);
+		expect(mockLinks.get(10)?.size).toBe(1);
+	});
+
+	it("should ignore duplicate tags", () => {
+		expect(addTags(10, ["nlp", "transformers"])).toBe(2);
+		expect(addTags(10, ["nlp"])).toBe(0);
+		expect([...(mockTags.get(10) ?? [])]).toEqual(["nlp", "transformers"]);
+	});
+
+	it("should remove links and tags with the bookmark", () => {
+		deleteBookmarkLinks(10);
+		expect(mockLinks.has(10)).toBe(false);
+		expect(mockTags.has(10)).toBe(false);
+	});
+});
+
+describe("Group Repository", () => {
+	interface MockGroup {
+		id: number;
+		chatId: number;
+		userId: number;
+		editPolicy: "members" | "admins";
+	}
+
+	interface MockMember {
+		groupId: number;
+		userId: number;
+		role: "admin" | "member";
+	}
+
+	const mockGroups: Map<number, MockGroup> = new Map();
+	const mockMembers: MockMember[] = [];
+	let nextId = 1;
+
+	function findOrCreateGroup(chatId: number): MockGroup {
+		for (const group of mockGroups.values()) {
+			if (group.chatId === chatId) {
+				return group;
+			}
+		}
+
+		// The group's library is owned by a users row for the group chat
+		const group: MockGroup = {
+			id: nextId,
+			chatId,
+			userId: 1000 + nextId,
+			editPolicy: "members",
+		};
+		nextId++;
+		mockGroups.set(group.id, group);
+		return group;
+	}
+
+	function upsertGroupMember(
+		groupId: number,
+		userId: number,
+		role: MockMember["role"],
+	): MockMember {
+		const existing = mockMembers.find(
+			(m) => m.groupId === groupId && m.userId === userId,
+		);
+		if (existing) {
+			existing.role = role;
+			return existing;
+		}
+
+		const member = { groupId, userId, role };
+		mockMembers.push(member);
+		return member;
+	}
+
+	beforeAll(() => {
+		mockGroups.clear();
+		mockMembers.length = 0;
+		nextId = 1;
+	});
+
+	it("should create one group per chat", () => {
+		const group = findOrCreateGroup(-100);
+		expect(findOrCreateGroup(-100).id).toBe(group.id);
+		expect(findOrCreateGroup(-200).id).not.toBe(group.id);
+	});
+
+	it("should give each group its own library owner", () => {
+		expect(findOrCreateGroup(-100).userId).not.toBe(
+			findOrCreateGroup(-200).userId,
+		);
+	});
+
+	it("should update a member's role instead of adding them twice", () => {
+		const group = findOrCreateGroup(-100);
+		upsertGroupMember(group.id, 1, "member");
+		upsertGroupMember(group.id, 1, "admin");
+
+		const members = mockMembers.filter((m) => m.groupId === group.id);
+		expect(members).toHaveLength(1);
+		expect(members[0]?.role).toBe("admin");
+	});
+});
+
+describe("Job Repository", () => {
+	let jobs: typeof import("../src/db/repositories/jobRepository");
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		jobs = await import("../src/db/repositories/jobRepository");
+	});
+
+	/** Make a running job's lease run out */
+	const expireLease = (id: number) =>
+		execute(
+			`UPDATE jobs SET locked_until = datetime('now', '-1 minute') WHERE id = ${id}`,
+		);
+
+	const claim = (workerId: string, type: string) =>
+		jobs.claimJobs(workerId, { types: [type], limit: 1, leaseSeconds: 600 });
+
+	it("should queue each key once while its job is pending or running", async () => {
+		const job = { type: "dedupe", key: "dedupe:1", payload: {} };
+		expect(await jobs.enqueueJobs([job])).toBe(1);
+		expect(await jobs.enqueueJobs([job])).toBe(0);
+
+		const [claimed] = await claim("worker-a", "dedupe");
+		expect(await jobs.enqueueJobs([job])).toBe(0);
+
+		expect(await jobs.completeJob(claimed?.id ?? 0, "worker-a")).toBe(true);
+		expect(await jobs.enqueueJobs([job])).toBe(1);
+	});
+
+	it("should let another worker claim a job once its lease runs out", async () => {
+		await jobs.enqueueJobs([{ type: "lease", key: "lease:1", payload: {} }]);
+		const [claimed] = await claim("worker-a", "lease");
+		const id = claimed?.id ?? 0;
+		expect(claimed).toMatchObject({ state: "running", attempts: 1 });
+		expect(await claim("worker-b", "lease")).toEqual([]);
+		expect(await jobs.renewJobLease(id, "worker-a", 600)).toBe(true);
+
+		await expireLease(id);
+		expect(await jobs.renewJobLease(id, "worker-a", 600)).toBe(false);
+		const [reclaimed] = await claim("worker-b", "lease");
+		expect(reclaimed).toMatchObject({ id, lockedBy: "worker-b", attempts: 2 });
+
+		// The first worker lost the lease and can no longer finish the job
+		expect(await jobs.completeJob(id, "worker-a")).toBe(false);
+		expect(await jobs.completeJob(id, "worker-b")).toBe(true);
+	});
+
+	it("should mark a job dead once it has used all its attempts", async () => {
+		await jobs.enqueueJobs([
+			{ type: "attempts", key: "attempts:1", payload: {}, maxAttempts: 2 },
+		]);
+
+		const [first] = await claim("worker-a", "attempts");
+		expect(
+			first && (await jobs.failJob(first, "worker-a", "arXiv down", 0)),
+		).toBe("pending");
+		const [second] = await claim("worker-a", "attempts");
+		expect(second?.attempts).toBe(2);
+		expect(
+			second && (await jobs.failJob(second, "worker-a", "arXiv down", 0)),
+		).toBe("dead");
+		expect(await claim("worker-a", "attempts")).toEqual([]);
+
+		// A lease running out on the last attempt also ends in the dead state
+		await jobs.enqueueJobs([
+			{ type: "attempts", key: "attempts:2", payload: {}, maxAttempts: 1 },
+		]);
+		const [crashed] = await claim("worker-a", "attempts");
+		await expireLease(crashed?.id ?? 0);
+		expect(await claim("worker-b", "attempts")).toEqual([]);
+
+		const dead = await jobs.getJobsByState("dead", 50);
+		expect(dead.filter((job) => job.type === "attempts")).toHaveLength(2);
+	});
+
+	it("should keep the progress a failed attempt records for the next one", async () => {
+		await jobs.enqueueJobs([
+			{ type: "progress", key: "progress:1", payload: { subscriptionId: 1 } },
+		]);
+		const [first] = await claim("worker-a", "progress");
+		if (first) {
+			await jobs.failJob(first, "worker-a", "Telegram down", 0, {
+				subscriptionId: 1,
+				reached: ["email"],
+			});
+		}
+
+		const [second] = await claim("worker-a", "progress");
+		expect(JSON.parse(second?.payload ?? "{}")).toEqual({
+			subscriptionId: 1,
+			reached: ["email"],
+		});
+	});
+
+	it("should not queue a key again while it has a dead job", async () => {
+		const job = {
+			type: "blocked",
+			key: "blocked:1",
+			payload: {},
+			maxAttempts: 1,
+		};
+		await jobs.enqueueJobs([job]);
+		const [claimed] = await claim("worker-a", "blocked");
+		if (claimed) await jobs.failJob(claimed, "worker-a", "Telegram down", 0);
+
+		const other = { ...job, key: "blocked:2" };
+		expect(await jobs.enqueueJobs([job, other])).toBe(1);
+		expect(await jobs.enqueueJobs([job])).toBe(0);
+		expect(
+			(await jobs.getJobsByState("dead", 50)).filter(
+				(dead) => dead.key === "blocked:1",
+			),
+		).toHaveLength(1);
+	});
+
+	it("should retry dead jobs with a fresh set of attempts", async () => {
+		await jobs.enqueueJobs([
+			{ type: "retry", key: "retry:1", payload: {}, maxAttempts: 1 },
+		]);
+		const [failed] = await claim("worker-a", "retry");
+		if (failed) await jobs.failJob(failed, "worker-a", "failed", 0);
+
+		const [dead] = (await jobs.getJobsByState("dead", 50)).filter(
+			(job) => job.key === "retry:1",
+		);
+		expect(await jobs.retryDeadJobs(dead?.id)).toBe(1);
+		expect(await jobs.retryDeadJobs(dead?.id)).toBe(0);
+
+		const [retried] = await claim("worker-a", "retry");
+		expect(retried).toMatchObject({ key: "retry:1", attempts: 1 });
+
+		// Once retried, the key is queued again as usual
+		if (retried) await jobs.completeJob(retried.id, "worker-a");
+		expect(
+			await jobs.enqueueJobs([{ type: "retry", key: "retry:1", payload: {} }]),
+		).toBe(1);
+	});
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for email and feed delivery settings
+ *
+ * Tests cover:
+ * - Confirming an email address with its verification code
+ * - Dropping a verification code after too many wrong guesses
+ */
+
+import { beforeAll, describe, expect, it } from "bun:test";
+import type { User } from "../src/db/schema";
+import { openTestDatabase } from "./testDatabase";
+
+describe("confirmEmail", () => {
+	let delivery: typeof import("../src/features/delivery");
+	let users: typeof import("../src/db/repositories/userRepository");
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		delivery = await import("../src/features/delivery");
+		users = await import("../src/db/repositories/userRepository");
+	});
+
+	/** A user with a code waiting for ada@example.org */
+	async function userWithCode(chatId: number): Promise<User> {
+		const user = await users.findOrCreateUser(chatId);
+		if (!user) throw new Error("Could not create a test user");
+		const updated = await users.updateUserEmail(user.id, {
+			pendingEmail: "ada@example.org",
+			emailCode: "123456",
+			emailCodeSentAt: new Date().toISOString(),
+			emailCodeAttempts: 0,
+		});
+		if (!updated) throw new Error("Could not save the code");
+		return updated;
+	}
+
+	it("should confirm the address with the right code", async () => {
+		const user = await userWithCode(620001);
+
+		expect(await delivery.confirmEmail(user, "000000")).toMatchObject({
+			success: false,
+		});
+		expect(await delivery.confirmEmail(user, " 123456 ")).toMatchObject({
+			success: true,
+		});
+		expect((await users.findUserById(user.id))?.email).toBe("ada@example.org");
+	});
+
+	it("should drop the code after five wrong guesses", async () => {
+		const user = await userWithCode(620002);
+
+		for (let i = 0; i < 4; i++) {
+			expect((await delivery.confirmEmail(user, "000000")).message).toContain(
+				"Wrong code",
+			);
+		}
+		expect((await delivery.confirmEmail(user, "000000")).message).toContain(
+			"Too many wrong codes",
+		);
+
+		// The right code no longer works either
+		const locked = await users.findUserById(user.id);
+		expect(locked).toMatchObject({ emailCode: null, pendingEmail: null });
+		expect(
+			locked && (await delivery.confirmEmail(locked, "123456")),
+		).toMatchObject({ success: false });
+		expect((await users.findUserById(user.id))?.email).toBeNull();
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for merged digests
+ *
+ * Tests cover:
+ * - Merging papers found by several subscriptions
+ * - Grouping papers into topic sections
+ * - Splitting long digests into pages
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Paper } from "../src/arxiv";
+import {
+	type DigestSection,
+	groupDigestPapers,
+	mergeDigestPapers,
+	paginateDigest,
+} from "../src/utils/digest";
+
+function paper(id: string): Paper {
+	return {
+		title: `Paper ${id}`,
+		summary: "",
+		link: `http://arxiv.org/abs/${id}v1`,
+		published: "2024-01-01",
+	};
+}
+
+const getKey = (p: Paper) => p.link.replace(/^.*\/abs\/|v\d+$/g, "");
+
+const sections: DigestSection[] = [
+	{ topic: "transformers", papers: [paper("1"), paper("2"), paper("3")] },
+	{ topic: "graph neural networks", papers: [paper("4"), paper("2")] },
+	{ topic: "Yoshua Bengio", author: true, papers: [paper("2"), paper("4")] },
+];
+
+describe("mergeDigestPapers", () => {
+	it("should list each paper once with the topics it matched", () => {
+		const merged = mergeDigestPapers(sections, getKey);
+
+		expect(merged.map((p) => p.key)).toEqual(["2", "4", "1", "3"]);
+		expect(merged[0]?.topics).toEqual([
+			"transformers",
+			"graph neural networks",
+			"Yoshua Bengio",
+		]);
+		expect(merged[1]?.topics).toEqual([
+			"graph neural networks",
+			"Yoshua Bengio",
+		]);
+	});
+
+	it("should count a topic once per paper", () => {
+		const merged = mergeDigestPapers(
+			[{ topic: "rl", papers: [paper("1"), paper("1")] }],
+			getKey,
+		);
+
+		expect(merged).toEqual([{ paper: paper("1"), key: "1", topics: ["rl"] }]);
+	});
+});
+
+describe("groupDigestPapers", () => {
+	it("should put papers matching several topics first", () => {
+		const groups = groupDigestPapers(
+			sections,
+			mergeDigestPapers(sections, getKey),
+		);
+
+		expect(groups.map((g) => [g.title, g.papers.map((p) => p.key)])).toEqual([
+			["🔥 Matching several topics", ["2", "4"]],
+			["📌 transformers", ["1", "3"]],
+		]);
+	});
+});
+
+describe("paginateDigest", () => {
+	const blocks = [
+		{ text: "A".repeat(10) },
+		{ text: "a".repeat(40), paperKey: "1" },
+		{ text: "B".repeat(10) },
+		{ text: "b".repeat(40), paperKey: "2" },
+	];
+
+	it("should keep a short digest on one page", () => {
+		const pages = paginateDigest(blocks, 1000);
+
+		expect(pages).toHaveLength(1);
+		expect(pages[0]?.paperKeys).toEqual(["1", "2"]);
+		expect(pages[0]?.text.split("\n\n")).toHaveLength(4);
+	});
+
+	it("should move headings to the next page with their papers", () => {
+		const pages = paginateDigest(blocks, 70);
+
+		expect(pages.map((p) => p.paperKeys)).toEqual([["1"], ["2"]]);
+		expect(pages[1]?.text).toBe(`${"B".repeat(10)}\n\n${"b".repeat(40)}`);
+		for (const page of pages) {
+			expect(page.text.length).toBeLessThanOrEqual(70);
+		}
+	});
+
+	it("should give an oversized block its own page", () => {
+		const pages = paginateDigest(
+			[
+				{ text: "x".repeat(20), paperKey: "1" },
+				{ text: "y".repeat(100), paperKey: "2" },
+			],
+			50,
+		);
+
+		expect(pages.map((p) => p.paperKeys)).toEqual([["1"], ["2"]]);
+	});
+});
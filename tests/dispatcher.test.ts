@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the outbound message dispatcher
+ *
+ * Tests cover:
+ * - Reading Telegram errors
+ * - Sending by priority within global and per-chat limits
+ * - Waiting for retry_after on 429
+ * - Reporting chats that blocked the bot
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	getTelegramFailure,
+	OutboundDispatcher,
+} from "../src/utils/dispatcher";
+
+/**
+ * Stand-in for gramio's TelegramError
+ */
+function telegramError(code: number, retryAfter?: number) {
+	return Object.assign(new Error(`Telegram error ${code}`), {
+		code,
+		payload: retryAfter === undefined ? undefined : { retry_after: retryAfter },
+	});
+}
+
+describe("getTelegramFailure", () => {
+	it("should read retry_after from 429 errors", () => {
+		expect(getTelegramFailure(telegramError(429, 3))).toEqual({
+			retryAfterMs: 3000,
+		});
+	});
+
+	it("should treat 403 as a blocked chat", () => {
+		expect(getTelegramFailure(telegramError(403))).toEqual({ blocked: true });
+	});
+
+	it("should ignore other errors", () => {
+		expect(getTelegramFailure(telegramError(400))).toEqual({});
+		expect(getTelegramFailure(new Error("network down"))).toEqual({});
+		expect(getTelegramFailure("oops")).toEqual({});
+	});
+});
+
+describe("OutboundDispatcher", () => {
+	it("should send higher priorities first and keep order within one", async () => {
+		const dispatcher = new OutboundDispatcher({ messagesPerSecond: 1000 });
+		const sent: string[] = [];
+		const send = (label: string) => () => {
+			sent.push(label);
+			return Promise.resolve(label);
+		};
+
+		const results = await Promise.all([
+			dispatcher.send(1, send("first")),
+			dispatcher.send(2, send("low"), "low"),
+			dispatcher.send(3, send("normal")),
+			dispatcher.send(4, send("high"), "high"),
+		]);
+
+		expect(results).toEqual(["first", "low", "normal", "high"]);
+		// "first" was sent before the others were queued
+		expect(sent).toEqual(["first", "high", "normal", "low"]);
+		expect(dispatcher.getQueueLength()).toBe(0);
+	});
+
+	it("should space messages to the same chat", async () => {
+		const dispatcher = new OutboundDispatcher({
+			messagesPerSecond: 1000,
+			chatIntervalMs: 100,
+			groupIntervalMs: 200,
+		});
+		const times = new Map<number, number[]>();
+		const send = (chatId: number) => () => {
+			times.set(chatId, [...(times.get(chatId) ?? []), Date.now()]);
+			return Promise.resolve();
+		};
+
+		await Promise.all([
+			dispatcher.send(1, send(1)),
+			dispatcher.send(1, send(1)),
+			dispatcher.send(-100, send(-100)),
+			dispatcher.send(-100, send(-100)),
+			dispatcher.send(2, send(2)),
+		]);
+
+		const [a = 0, b = 0] = times.get(1) ?? [];
+		const [c = 0, d = 0] = times.get(-100) ?? [];
+		expect(b - a).toBeGreaterThanOrEqual(95);
+		expect(d - c).toBeGreaterThanOrEqual(195);
+		// Other chats do not wait for chat 1
+		expect((times.get(2)?.[0] ?? 0) - a).toBeLessThan(95);
+	});
+
+	it("should wait for retry_after and try again", async () => {
+		const dispatcher = new OutboundDispatcher({
+			messagesPerSecond: 1000,
+			chatIntervalMs: 0,
+		});
+		let attempts = 0;
+		const start = Date.now();
+
+		const result = await dispatcher.send(1, () => {
+			attempts++;
+			return attempts === 1
+				? Promise.reject(telegramError(429, 0.1))
+				: Promise.resolve("sent");
+		});
+
+		expect(result).toBe("sent");
+		expect(attempts).toBe(2);
+		expect(Date.now() - start).toBeGreaterThanOrEqual(95);
+	});
+
+	it("should give up after maxRetries", async () => {
+		const dispatcher = new OutboundDispatcher({
+			messagesPerSecond: 1000,
+			chatIntervalMs: 0,
+			maxRetries: 1,
+		});
+		let attempts = 0;
+
+		await expect(
+			dispatcher.send(1, () => {
+				attempts++;
+				return Promise.reject(telegramError(429, 0.01));
+			}),
+		).rejects.toThrow("Telegram error 429");
+		expect(attempts).toBe(2);
+	});
+
+	it("should report blocked chats and fail their messages", async () => {
+		const blocked: number[] = [];
+		const dispatcher = new OutboundDispatcher({
+			messagesPerSecond: 1000,
+			onBlocked: (chatId) => {
+				blocked.push(chatId);
+			},
+		});
+
+		await expect(
+			dispatcher.send(42, () => Promise.reject(telegramError(403))),
+		).rejects.toThrow("Telegram error 403");
+		await expect(
+			dispatcher.send(43, () => Promise.reject(telegramError(400))),
+		).rejects.toThrow("Telegram error 400");
+		expect(await dispatcher.send(44, () => Promise.resolve("ok"))).toBe("ok");
+
+		expect(blocked).toEqual([42]);
+	});
+});
@@ -0,0 +1,266 @@
+/**
+ * Unit tests for reference manager export formats
+ *
+ * Tests cover:
+ * - BibTeX, RIS, CSL-JSON, EndNote XML and Markdown output
+ * - Round trips through the matching parsers in utils/import
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Paper } from "../src/arxiv";
+import {
+	toBibTeX,
+	toCSLJSON,
+	toEndNoteRecord,
+	toEndNoteXML,
+	toMarkdownEntry,
+	toRIS,
+} from "../src/utils/export";
+import {
+	type ImportedEntry,
+	parseBibTeX,
+	parseCSLJSON,
+	parseEndNoteXML,
+	parseMarkdownReadingList,
+	parseRIS,
+} from "../src/utils/import";
+
+/**
+ * Sample bookmarks as they are converted for export
+ */
+const samples: { paper: Paper; note?: string }[] = [
+	{
+		paper: {
+			title: "Attention Is All You Need",
+			summary: "The dominant sequence\ntransduction models...",
+			link: "http://arxiv.org/abs/1706.03762v7",
+			published: "2017-06-12T17:57:34Z",
+			authors: ["Ashish Vaswani", "Noam Shazeer", "Ludwig van der Maaten"],
+			categories: ["cs.CL", "cs.LG"],
+		},
+		note: "Re-read section 3 & compare <baseline>",
+	},
+	{
+		paper: {
+			title: "CRISPR [screening] in vivo",
+			summary: "",
+			link: "https://doi.org/10.1000/xyz123",
+			published: "2021-03-01",
+			authors: ["Jane Doe"],
+			source: "crossref",
+			externalId: "10.1000/xyz123",
+		},
+	},
+	{
+		paper: {
+			title: "A PubMed paper",
+			summary: "Abstract",
+			link: "https://pubmed.ncbi.nlm.nih.gov/31452104/",
+			published: "2019",
+			source: "pubmed",
+			externalId: "31452104",
+		},
+		note: "clinical\nfollow up",
+	},
+];
+
+/**
+ * The fields every format should preserve
+ */
+function expected({ paper, note }: (typeof samples)[number]): ImportedEntry {
+	const entry: ImportedEntry = {
+		title: paper.title,
+		authors: paper.authors ?? [],
+		year: Number.parseInt(paper.published.slice(0, 4), 10),
+		url: paper.link,
+	};
+	if (paper.source === "crossref") entry.doi = paper.externalId;
+	else if (paper.source === "pubmed") entry.pmid = paper.externalId;
+	else entry.arxivId = "1706.03762v7";
+	if (note) entry.note = note;
+	return entry;
+}
+
+describe("BibTeX export", () => {
+	it("should round-trip sample bookmarks", () => {
+		const bibtex = samples
+			.map((s) => toBibTeX(s.paper, { note: s.note }))
+			.join("\n\n");
+		const parsed = parseBibTeX(bibtex);
+
+		expect(parsed).toHaveLength(samples.length);
+		parsed.forEach((entry, i) => {
+			const sample = samples[i];
+			if (!sample) throw new Error("missing sample");
+			// BibTeX notes are single-line
+			const want = expected(sample);
+			if (want.note) want.note = want.note.replace(/\n/g, " ");
+			expect(entry).toEqual(want);
+		});
+	});
+
+	it("should unescape special characters", () => {
+		const [sample] = samples;
+		if (!sample) throw new Error("missing sample");
+
+		const paper = {
+			...sample.paper,
+			title: "50% of {braces} & C:\\path ~ x^2",
+		};
+		const [entry] = parseBibTeX(toBibTeX(paper));
+
+		expect(entry?.title).toBe(paper.title);
+	});
+
+	it("should write the DOI and primary category of arXiv papers", () => {
+		const [sample] = samples;
+		if (!sample) throw new Error("missing sample");
+
+		const bibtex = toBibTeX({
+			...sample.paper,
+			categories: ["cs.LG", "cs.CL"],
+			primaryCategory: "cs.CL",
+			doi: "10.5555/3295222.3295349",
+		});
+
+		expect(bibtex).toContain("primaryClass={cs.CL},");
+		expect(bibtex).toContain("doi={10.5555/3295222.3295349},");
+		expect(parseBibTeX(bibtex)[0]?.doi).toBe("10.5555/3295222.3295349");
+	});
+});
+
+describe("RIS export", () => {
+	it("should write tagged fields ending with ER", () => {
+		const [sample] = samples;
+		if (!sample) throw new Error("missing sample");
+
+		const ris = toRIS(sample.paper, { note: sample.note });
+		const lines = ris.split("\n");
+
+		expect(lines[0]).toBe("TY  - JOUR");
+		expect(lines.at(-1)).toBe("ER  - ");
+		expect(ris).toContain("AU  - Vaswani, Ashish");
+		expect(ris).toContain("AU  - van der Maaten, Ludwig");
+		expect(ris).toContain("DA  - 2017/06/12");
+		expect(ris).toContain("AN  - arXiv:1706.03762v7");
+		expect(ris).toContain("AB  - The dominant sequence transduction models...");
+		expect(ris).toContain("KW  - cs.CL");
+	});
+
+	it("should round-trip sample bookmarks", () => {
+		const ris = samples
+			.map((s) => toRIS(s.paper, { note: s.note }))
+			.join("\n\n");
+		const parsed = parseRIS(ris);
+
+		expect(parsed).toHaveLength(samples.length);
+		parsed.forEach((entry, i) => {
+			const sample = samples[i];
+			if (!sample) throw new Error("missing sample");
+			// RIS notes are single-line
+			const want = expected(sample);
+			if (want.note) want.note = want.note.replace(/\n/g, " ");
+			expect(entry).toEqual(want);
+		});
+	});
+});
+
+describe("CSL-JSON export", () => {
+	it("should split author names and date parts", () => {
+		const [sample] = samples;
+		if (!sample) throw new Error("missing sample");
+
+		const item = toCSLJSON(sample.paper);
+
+		expect(item.type).toBe("article");
+		expect(item.author?.[2]).toEqual({
+			family: "van der Maaten",
+			given: "Ludwig",
+		});
+		expect(item.issued).toEqual({ "date-parts": [[2017, 6, 12]] });
+		expect(item.number).toBe("1706.03762v7");
+		expect(item.note).toBeUndefined();
+	});
+
+	it("should use the DOI for journal articles", () => {
+		const item = toCSLJSON(samples[1]?.paper as Paper);
+		expect(item.type).toBe("article-journal");
+		expect(item.DOI).toBe("10.1000/xyz123");
+	});
+
+	it("should round-trip sample bookmarks", () => {
+		const json = JSON.stringify(
+			samples.map((s) => toCSLJSON(s.paper, { note: s.note })),
+		);
+		const parsed = parseCSLJSON(json);
+
+		expect(parsed).toEqual(samples.map(expected));
+	});
+
+	it("should return no entries for invalid JSON", () => {
+		expect(parseCSLJSON("not json")).toEqual([]);
+	});
+});
+
+describe("EndNote XML export", () => {
+	it("should escape XML special characters", () => {
+		const [sample] = samples;
+		if (!sample) throw new Error("missing sample");
+
+		const record = toEndNoteRecord(sample.paper, { note: sample.note });
+		expect(record).toContain(
+			"<notes>Re-read section 3 &amp; compare &lt;baseline&gt;</notes>",
+		);
+		expect(record).toContain("<author>Vaswani, Ashish</author>");
+	});
+
+	it("should round-trip sample bookmarks", () => {
+		const xml = toEndNoteXML(
+			samples.map((s) => toEndNoteRecord(s.paper, { note: s.note })),
+		);
+		expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+
+		expect(parseEndNoteXML(xml)).toEqual(samples.map(expected));
+	});
+});
+
+describe("Markdown reading list export", () => {
+	it("should render a task list item with status and rating", () => {
+		const [sample] = samples;
+		if (!sample) throw new Error("missing sample");
+
+		const md = toMarkdownEntry(sample.paper, {
+			done: true,
+			status: "✅ Read",
+			rating: 4,
+			note: "line one\nline two",
+		});
+
+		expect(md).toBe(
+			[
+				"- [x] [Attention Is All You Need](http://arxiv.org/abs/1706.03762v7)",
+				"  Ashish Vaswani, Noam Shazeer, Ludwig van der Maaten (2017) · arXiv:1706.03762v7 · ✅ Read · ★★★★☆",
+				"  > line one",
+				"  > line two",
+			].join("\n"),
+		);
+	});
+
+	it("should escape brackets in titles", () => {
+		expect(toMarkdownEntry(samples[1]?.paper as Paper)).toContain(
+			"[CRISPR \\[screening\\] in vivo]",
+		);
+	});
+
+	it("should round-trip sample bookmarks", () => {
+		const md = [
+			"# Reading list",
+			"",
+			"## 📥 To read",
+			"",
+			...samples.map((s) => toMarkdownEntry(s.paper, { note: s.note })),
+		].join("\n");
+
+		expect(parseMarkdownReadingList(md)).toEqual(samples.map(expected));
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for group libraries
+ *
+ * Tests cover:
+ * - Who may add papers to and remove papers from a group library
+ * - Replies in the member's language
+ */
+
+import { beforeAll, describe, expect, it } from "bun:test";
+import type { Paper } from "../src/arxiv";
+import type { GroupContext } from "../src/features/groups";
+import { openTestDatabase } from "./testDatabase";
+
+const paper = (id: string): Paper => ({
+	title: `Paper ${id}`,
+	summary: "Abstract",
+	link: `http://arxiv.org/abs/${id}`,
+	published: "2024-01-01T00:00:00Z",
+});
+
+describe("group library permissions", () => {
+	let groups: typeof import("../src/features/groups");
+	let addBookmark: typeof import("../src/features/bookmarks").addBookmark;
+	let admin: GroupContext;
+	let alice: GroupContext;
+	let bob: GroupContext;
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		groups = await import("../src/features/groups");
+		({ addBookmark } = await import("../src/features/bookmarks"));
+		const { findOrCreateUser } = await import(
+			"../src/db/repositories/userRepository"
+		);
+
+		const chat = { id: -400001, title: "Reading group" };
+		const join = async (chatId: number, role: "admin" | "member") => {
+			const user = await findOrCreateUser(chatId);
+			const context = user ? await groups.joinGroup(chat, user.id, role) : null;
+			if (!context) throw new Error("Could not join the test group");
+			return context;
+		};
+		admin = await join(400001, "admin");
+		alice = await join(400002, "member");
+		bob = await join(400003, "member");
+	});
+
+	it("should only let members remove the papers they added", async () => {
+		await addBookmark(
+			alice.group.userId,
+			paper("2401.00001"),
+			alice.member.userId,
+		);
+
+		const byBob = await groups.removeGroupPaper(bob, "2401.00001");
+		expect(byBob.success).toBe(false);
+		expect(byBob.message).toContain("the member who added it");
+
+		expect((await groups.removeGroupPaper(alice, "2401.00001")).success).toBe(
+			true,
+		);
+	});
+
+	it("should reply in the member's language", async () => {
+		const result = await groups.removeGroupPaper(admin, "2401.09999", "de");
+
+		expect(result.message).toBe(
+			"Arbeit 2401.09999 ist nicht in der Gruppenbibliothek.",
+		);
+	});
+
+	it("should let admins remove any paper", async () => {
+		await addBookmark(bob.group.userId, paper("2401.00002"), bob.member.userId);
+
+		expect((await groups.removeGroupPaper(admin, "2401.00002")).success).toBe(
+			true,
+		);
+	});
+
+	it("should stop members editing once the library is admins only", async () => {
+		await addBookmark(
+			alice.group.userId,
+			paper("2401.00003"),
+			alice.member.userId,
+		);
+		expect((await groups.setGroupEditPolicy(admin, "admins")).success).toBe(
+			true,
+		);
+		alice.group = admin.group;
+
+		const added = await groups.addGroupPaper(alice, "2401.00004");
+		expect(added.success).toBe(false);
+		expect(added.message).toContain("Only group admins");
+
+		const removed = await groups.removeGroupPaper(alice, "2401.00003");
+		expect(removed.success).toBe(false);
+		expect(removed.message).toContain("Only group admins");
+	});
+});
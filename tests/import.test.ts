@@ -0,0 +1,102 @@
+/**
+ * Unit tests for reference file import parsing
+ *
+ * Tests cover:
+ * - BibTeX files from other reference managers
+ * - Plain-text ID lists
+ * - Format detection and paper ID selection
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	detectImportFormat,
+	getImportPaperId,
+	parseBibTeX,
+	parseIdList,
+} from "../src/utils/import";
+
+describe("parseBibTeX", () => {
+	it("should parse entries from other reference managers", () => {
+		const bibtex = `
+@comment{exported from Zotero}
+@string{nips = "NeurIPS"}
+
+@article{vaswani2017attention,
+  title = {Attention is {All} you Need},
+  author = "Vaswani, Ashish and Shazeer, Noam and others",
+  journal = {arXiv preprint arXiv:1706.03762},
+  year = 2017
+}
+
+@inproceedings{doe2021,
+  title = "CRISPR screening",
+  author = {Jane Doe},
+  booktitle = nips,
+  doi = {10.1000/xyz123},
+  year = {2021},
+}`;
+
+		expect(parseBibTeX(bibtex)).toEqual([
+			{
+				title: "Attention is All you Need",
+				authors: ["Ashish Vaswani", "Noam Shazeer"],
+				year: 2017,
+				arxivId: "1706.03762",
+			},
+			{
+				title: "CRISPR screening",
+				authors: ["Jane Doe"],
+				year: 2021,
+				doi: "10.1000/xyz123",
+			},
+		]);
+	});
+
+	it("should ignore unterminated entries", () => {
+		expect(parseBibTeX("@article{broken, title={Oops}")).toEqual([]);
+	});
+});
+
+describe("parseIdList", () => {
+	it("should recognise arXiv IDs, DOIs and PMIDs", () => {
+		const text = [
+			"# My reading list",
+			"2301.00001v2, https://arxiv.org/abs/1706.03762",
+			"doi:10.1000/xyz123",
+			"https://doi.org/10.1101/2024.01.01.123456",
+			"pmid:31452104",
+			"not-an-id",
+		].join("\n");
+
+		expect(parseIdList(text)).toEqual([
+			{ authors: [], arxivId: "2301.00001v2" },
+			{ authors: [], arxivId: "1706.03762" },
+			{ authors: [], doi: "10.1000/xyz123" },
+			{ authors: [], doi: "10.1101/2024.01.01.123456" },
+			{ authors: [], pmid: "31452104" },
+			{ authors: [], title: "not-an-id" },
+		]);
+	});
+});
+
+describe("detectImportFormat", () => {
+	it("should detect formats from file extensions", () => {
+		expect(detectImportFormat("library.bib")).toBe("bibtex");
+		expect(detectImportFormat("Export.RIS")).toBe("ris");
+		expect(detectImportFormat("ids.txt")).toBe("ids");
+		expect(detectImportFormat("paper.pdf")).toBeNull();
+	});
+});
+
+describe("getImportPaperId", () => {
+	it("should prefer arXiv IDs and qualify other sources", () => {
+		expect(
+			getImportPaperId({ authors: [], arxivId: "1706.03762", doi: "10.1/x" }),
+		).toBe("1706.03762");
+		expect(getImportPaperId({ authors: [], doi: "10.1/x" })).toBe(
+			"crossref:10.1/x",
+		);
+		expect(getImportPaperId({ authors: [], pmid: "123" })).toBe("pubmed:123");
+		expect(getImportPaperId({ authors: [], title: "Untitled" })).toBeNull();
+	});
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for interest profiles
+ *
+ * Tests cover:
+ * - Weighting categories, authors and keywords by signal kind
+ * - Scoring papers against a profile
+ * - Explaining suggestions
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Paper } from "../src/arxiv";
+import {
+	buildInterestProfile,
+	getTopInterests,
+	type InterestSignal,
+	isProfileEmpty,
+	scorePaper,
+} from "../src/utils/interests";
+
+const signals: InterestSignal[] = [
+	{
+		kind: "bookmark",
+		label: "Graph Attention Networks",
+		text: "Graph Attention Networks. Attention over graph neighbourhoods for node classification.",
+		categories: ["cs.LG", "stat.ML"],
+		authors: ["Petar Veličković", "Yoshua Bengio"],
+	},
+	{
+		kind: "view",
+		label: "Protein Folding with Diffusion",
+		text: "Protein folding with diffusion models",
+		categories: ["q-bio.BM"],
+	},
+	{
+		kind: "search",
+		label: "graph transformers",
+		text: "graph transformers",
+	},
+];
+
+function makePaper(overrides: Partial<Paper>): Paper {
+	return {
+		title: "Untitled",
+		summary: "",
+		link: "http://arxiv.org/abs/2401.00001v1",
+		published: "2024-01-01",
+		...overrides,
+	};
+}
+
+describe("buildInterestProfile", () => {
+	const profile = buildInterestProfile(signals);
+
+	it("should rank interests by signal weight", () => {
+		const top = getTopInterests(profile, 2);
+		expect(top.categories[0]).toBe("cs.LG");
+		expect(top.keywords[0]).toBe("graph");
+		expect(profile.categories.get("cs.LG")).toBe(1);
+		expect(profile.categories.get("q-bio.BM")).toBeLessThan(1);
+	});
+
+	it("should match authors case-insensitively", () => {
+		expect(profile.authors.get("yoshua bengio")).toBe(1);
+	});
+
+	it("should treat a profile without signals as empty", () => {
+		expect(isProfileEmpty(buildInterestProfile([]))).toBe(true);
+		expect(isProfileEmpty(profile)).toBe(false);
+	});
+});
+
+describe("scorePaper", () => {
+	const profile = buildInterestProfile(signals);
+
+	it("should score matching papers above unrelated ones", () => {
+		const related = scorePaper(
+			makePaper({
+				title: "Sparse Graph Attention",
+				summary: "Attention for node classification on large graphs.",
+				categories: ["cs.LG"],
+			}),
+			profile,
+		);
+		const unrelated = scorePaper(
+			makePaper({
+				title: "Dark Matter Halos",
+				summary: "Simulations of galaxy formation.",
+				categories: ["astro-ph.CO"],
+			}),
+			profile,
+		);
+
+		expect(related.score).toBeGreaterThan(unrelated.score);
+		expect(related.score).toBeLessThanOrEqual(1);
+		expect(unrelated.score).toBe(0);
+	});
+
+	it("should explain a match by the closest signal", () => {
+		const { reason } = scorePaper(
+			makePaper({
+				title: "Graph Attention for Molecules",
+				summary: "Node classification with attention.",
+				categories: ["cs.LG"],
+			}),
+			profile,
+		);
+		expect(reason).toBe('Because you bookmarked "Graph Attention Networks"');
+	});
+
+	it("should mention a shared author", () => {
+		const { reason } = scorePaper(
+			makePaper({
+				title: "Deep Learning",
+				authors: ["Yoshua Bengio"],
+			}),
+			profile,
+		);
+		expect(reason).toContain("also by Yoshua Bengio");
+	});
+
+	it("should explain search matches", () => {
+		const { reason } = scorePaper(
+			makePaper({ title: "Transformers Are Everywhere" }),
+			profile,
+		);
+		expect(reason).toBe('Because you searched for "graph transformers"');
+	});
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the bot's outbound dispatcher
+ *
+ * Tests cover:
+ * - Queueing command replies through the dispatcher
+ * - Turning off deliveries when a reply finds the chat blocked
+ */
+
+import { beforeAll, describe, expect, it } from "bun:test";
+import { openTestDatabase } from "./testDatabase";
+
+describe("queueReplies", () => {
+	let outbound: typeof import("../src/bot/outbound");
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		outbound = await import("../src/bot/outbound");
+	});
+
+	it("should send replies through the dispatcher ahead of other messages", async () => {
+		const order: string[] = [];
+		const record = (name: string) => () => {
+			order.push(name);
+			return Promise.resolve();
+		};
+		const context = {
+			chatId: 610001,
+			send: (text: string, params?: { parse_mode?: string }) => {
+				order.push(`${text} ${params?.parse_mode}`);
+				return Promise.resolve({ messageId: 1 });
+			},
+		};
+
+		const { send } = outbound.queueReplies(context);
+		const updates = [
+			outbound.outbound.send(610011, record("update 1"), "low"),
+			outbound.outbound.send(610012, record("update 2"), "low"),
+		];
+		expect(await send("Hello", { parse_mode: "Markdown" })).toEqual({
+			messageId: 1,
+		});
+		await Promise.all(updates);
+
+		expect(order).toEqual(["update 1", "Hello Markdown", "update 2"]);
+	});
+
+	it("should turn off deliveries when a reply finds the chat blocked", async () => {
+		const { findOrCreateUser } = await import(
+			"../src/db/repositories/userRepository"
+		);
+		const { createSubscription, getUserSubscriptions } = await import(
+			"../src/db/repositories/subscriptionRepository"
+		);
+		const user = await findOrCreateUser(610002);
+		if (!user) throw new Error("Could not create a test user");
+		await createSubscription({ userId: user.id, topic: "transformers" });
+		expect(await getUserSubscriptions(user.id)).toHaveLength(1);
+
+		const blocked = Object.assign(new Error("Forbidden"), { code: 403 });
+		const { send } = outbound.queueReplies({
+			chatId: 610002,
+			send: () => Promise.reject(blocked),
+		});
+
+		await expect(send("Hello")).rejects.toBe(blocked);
+		expect(await getUserSubscriptions(user.id)).toEqual([]);
+	});
+});
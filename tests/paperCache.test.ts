@@ -0,0 +1,305 @@
+/**
+ * Unit tests for the paper cache
+ *
+ * Tests cover:
+ * - Coalescing identical requests in flight
+ * - Hits, misses and stale-while-revalidate
+ * - Separate TTLs for search pages and single papers
+ * - The in-memory LRU tier and lookups across tiers
+ * - Trimming the database tier
+ */
+
+import { beforeAll, beforeEach, describe, expect, it } from "bun:test";
+import type { Paper } from "../src/arxiv";
+import { MemoryCacheTier } from "../src/cache/memoryTier";
+import {
+	coalesce,
+	getPaperCacheCounters,
+	PaperCache,
+	paperCacheKey,
+	searchCacheKey,
+} from "../src/cache/paperCache";
+import { RedisCacheTier } from "../src/cache/redisTier";
+import { MemoryRedisTransport } from "../src/storage/memoryRedis";
+import { RedisClient } from "../src/storage/redisClient";
+import { openTestDatabase } from "./testDatabase";
+
+const paper = (title: string): Paper => ({
+	title,
+	summary: "Abstract",
+	link: "http://arxiv.org/abs/2301.00001",
+	authors: ["Ada Lovelace"],
+	published: "2023-01-01T00:00:00Z",
+	updated: "2023-01-01T00:00:00Z",
+	categories: ["cs.AI"],
+});
+
+describe("coalesce", () => {
+	it("should share one fetch between identical requests in flight", async () => {
+		const before = getPaperCacheCounters().coalesced;
+		let calls = 0;
+		const fetcher = async () => {
+			calls++;
+			await Bun.sleep(5);
+			return [paper("Shared")];
+		};
+
+		const [first, second] = await Promise.all([
+			coalesce("transformers:0:5", fetcher),
+			coalesce("transformers:0:5", fetcher),
+		]);
+
+		expect(calls).toBe(1);
+		expect(first).toBe(second);
+		expect(getPaperCacheCounters().coalesced).toBe(before + 1);
+
+		await coalesce("transformers:0:5", fetcher);
+		expect(calls).toBe(2);
+	});
+
+	it("should pass errors to every caller", async () => {
+		const fetcher = () => Promise.reject(new Error("arXiv is down"));
+
+		const results = await Promise.allSettled([
+			coalesce("down:0:5", fetcher),
+			coalesce("down:0:5", fetcher),
+		]);
+
+		expect(results.map((result) => result.status)).toEqual([
+			"rejected",
+			"rejected",
+		]);
+	});
+});
+
+describe("searchCacheKey", () => {
+	it("should keep boolean and keyword queries apart", () => {
+		expect(searchCacheKey("a AND b", 0, 5)).not.toBe(
+			searchCacheKey("a and b", 0, 5),
+		);
+		expect(searchCacheKey(" a  AND b ", 0, 5)).toBe(
+			searchCacheKey("a AND b", 0, 5),
+		);
+	});
+});
+
+describe("PaperCache", () => {
+	let client: RedisClient;
+	let redis: RedisCacheTier;
+	let cache: PaperCache;
+
+	/** Put an entry in the fake Redis as if it had been cached ageSeconds ago */
+	const age = (key: string, papers: Paper[], ageSeconds: number) =>
+		client.set(
+			`test:${key}`,
+			JSON.stringify({ papers, cachedAt: Date.now() - ageSeconds * 1000 }),
+		);
+
+	beforeEach(() => {
+		client = new RedisClient(new MemoryRedisTransport());
+		redis = new RedisCacheTier(client, "test");
+		cache = new PaperCache([redis], {
+			ttl: 60,
+			paperTtl: 600,
+			staleTtl: 3600,
+		});
+	});
+
+	it("should fetch on a miss and serve the cached copy afterwards", async () => {
+		const before = getPaperCacheCounters();
+		const key = searchCacheKey("Graph  Networks", 0, 5);
+		let calls = 0;
+		const fetcher = async () => {
+			calls++;
+			return [paper("Fetched")];
+		};
+
+		expect(await cache.fetch("search", key, fetcher)).toEqual([
+			paper("Fetched"),
+		]);
+		expect(await cache.fetch("search", key, fetcher)).toEqual([
+			paper("Fetched"),
+		]);
+
+		expect(calls).toBe(1);
+		expect(key).toBe("Graph_Networks:0:5");
+		const after = getPaperCacheCounters();
+		expect(after.misses).toBe(before.misses + 1);
+		expect(after.hits).toBe(before.hits + 1);
+	});
+
+	it("should serve stale entries and revalidate in the background", async () => {
+		const before = getPaperCacheCounters().stale;
+		const key = searchCacheKey("graph networks", 0, 5);
+		await age(key, [paper("Old")], 120);
+
+		const papers = await cache.fetch("search", key, async () => [paper("New")]);
+		expect(papers).toEqual([paper("Old")]);
+		expect(getPaperCacheCounters().stale).toBe(before + 1);
+
+		await Bun.sleep(5);
+		expect(await cache.get("graph networks", 0, 5)).toEqual([paper("New")]);
+	});
+
+	it("should serve stale entries while arXiv is down", async () => {
+		const key = searchCacheKey("graph networks", 0, 5);
+		await age(key, [paper("Old")], 120);
+
+		const papers = await cache.fetch("search", key, () =>
+			Promise.reject(new Error("timed out")),
+		);
+
+		expect(papers).toEqual([paper("Old")]);
+		await Bun.sleep(5);
+		expect(await cache.lookup("search", key)).toMatchObject({ stale: true });
+	});
+
+	it("should not serve entries past the stale period", async () => {
+		const key = searchCacheKey("graph networks", 0, 5);
+		await age(key, [paper("Ancient")], 60 + 3600 + 1);
+
+		expect(await cache.lookup("search", key)).toBeNull();
+		await expect(
+			cache.fetch("search", key, () => Promise.reject(new Error("down"))),
+		).rejects.toThrow("down");
+	});
+
+	it("should keep single papers fresh for longer than search pages", async () => {
+		await age(paperCacheKey("2301.00001"), [paper("Paper")], 120);
+		await age(searchCacheKey("graph networks", 0, 5), [paper("Search")], 120);
+
+		expect(
+			await cache.lookup("paper", paperCacheKey("2301.00001")),
+		).toMatchObject({ stale: false });
+		expect(
+			await cache.lookup("search", searchCacheKey("graph networks", 0, 5)),
+		).toMatchObject({ stale: true });
+	});
+
+	it("should skip the lookup when refreshing", async () => {
+		const key = searchCacheKey("graph networks", 0, 5);
+		await age(key, [paper("Cached")], 0);
+
+		const papers = await cache.fetch(
+			"search",
+			key,
+			async () => [paper("Refreshed")],
+			{ refresh: true },
+		);
+
+		expect(papers).toEqual([paper("Refreshed")]);
+		expect(await cache.get("graph networks", 0, 5)).toEqual([
+			paper("Refreshed"),
+		]);
+	});
+
+	it("should copy entries found in a slower tier into the faster ones", async () => {
+		const memory = new MemoryCacheTier(10);
+		const tiered = new PaperCache([memory, redis], { ttl: 60 });
+		const key = searchCacheKey("graph networks", 0, 5);
+		await age(key, [paper("Shared")], 10);
+
+		expect(await tiered.lookup("search", key)).toEqual({
+			papers: [paper("Shared")],
+			stale: false,
+		});
+		await client.command("FLUSHALL");
+		expect(await tiered.lookup("search", key)).toMatchObject({
+			papers: [paper("Shared")],
+		});
+
+		const [memoryStats, redisStats] = await tiered.getTierStats();
+		expect(memoryStats).toMatchObject({
+			tier: "memory",
+			hits: 1,
+			misses: 1,
+			entries: 1,
+			maxEntries: 10,
+		});
+		expect(redisStats).toMatchObject({ tier: "redis", hits: 1, misses: 0 });
+	});
+
+	it("should write new entries to every tier", async () => {
+		const memory = new MemoryCacheTier(10);
+		const tiered = new PaperCache([memory, redis]);
+
+		await tiered.set("graph networks", 0, 5, [paper("New")]);
+
+		expect(await memory.get("graph_networks:0:5")).toMatchObject({
+			papers: [paper("New")],
+		});
+		expect(await client.exists("test:graph_networks:0:5")).toBe(true);
+	});
+});
+
+describe("MemoryCacheTier", () => {
+	const entry = (title: string) => ({
+		papers: [paper(title)],
+		cachedAt: 0,
+	});
+
+	it("should evict the least recently used entry when full", async () => {
+		const tier = new MemoryCacheTier(2);
+		await tier.set("a", entry("A"), 60);
+		await tier.set("b", entry("B"), 60);
+		await tier.get("a");
+		await tier.set("c", entry("C"), 60);
+
+		expect(await tier.get("a")).not.toBeNull();
+		expect(await tier.get("b")).toBeNull();
+		expect(await tier.get("c")).not.toBeNull();
+		expect(await tier.getUsage()).toEqual({
+			entries: 2,
+			maxEntries: 2,
+			evictions: 1,
+		});
+	});
+
+	it("should drop expired entries", async () => {
+		let now = 0;
+		const tier = new MemoryCacheTier(10, () => now);
+		await tier.set("a", entry("A"), 60);
+
+		now = 59_000;
+		expect(await tier.get("a")).not.toBeNull();
+		now = 60_000;
+		expect(await tier.get("a")).toBeNull();
+		expect((await tier.getUsage()).entries).toBe(0);
+	});
+
+	it("should delete and clear entries", async () => {
+		const tier = new MemoryCacheTier();
+		await tier.set("a", entry("A"), 60);
+		await tier.set("b", entry("B"), 60);
+
+		expect(await tier.delete("a")).toBe(true);
+		expect(await tier.delete("a")).toBe(false);
+		expect(await tier.clear()).toBe(1);
+	});
+});
+
+describe("SqliteCacheTier", () => {
+	let SqliteCacheTier: typeof import("../src/cache/sqliteTier").SqliteCacheTier;
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		({ SqliteCacheTier } = await import("../src/cache/sqliteTier"));
+	});
+
+	it("should trim to the size limit every few writes", async () => {
+		const tier = new SqliteCacheTier(2, 3);
+		await tier.clear();
+		const entry = { papers: [paper("A")], cachedAt: 0 };
+
+		await tier.set("a", entry, 60);
+		await tier.set("b", entry, 60);
+		expect(await tier.getUsage()).toMatchObject({ entries: 2, evictions: 0 });
+
+		await tier.set("c", entry, 60);
+		expect(await tier.getUsage()).toMatchObject({ entries: 2, evictions: 1 });
+		expect(await tier.get("c")).toEqual(entry);
+
+		await tier.set("d", entry, 60);
+		expect((await tier.getUsage()).entries).toBe(3);
+	});
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for rate limit stores
+ *
+ * Tests cover:
+ * - Token bucket refill and costs
+ * - The in-memory store
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	MemoryRateLimitStore,
+	takeTokens,
+} from "../src/storage/rateLimitStore";
+
+const bucket = { capacity: 10, refillMs: 10_000 };
+
+describe("takeTokens", () => {
+	it("should take the cost from the bucket", () => {
+		expect(takeTokens(bucket, 10, 0, 0, 3)).toEqual({
+			allowed: true,
+			remaining: 7,
+			retryAfterMs: 0,
+			tokens: 7,
+		});
+	});
+
+	it("should refill over time up to the capacity", () => {
+		expect(takeTokens(bucket, 0, 0, 2500, 1)).toMatchObject({
+			remaining: 1,
+			tokens: 1.5,
+		});
+		expect(takeTokens(bucket, 4, 0, 60_000, 1).remaining).toBe(9);
+	});
+
+	it("should say when a request would be allowed", () => {
+		expect(takeTokens(bucket, 1, 0, 0, 3)).toEqual({
+			allowed: false,
+			remaining: 1,
+			retryAfterMs: 2000,
+			tokens: 1,
+		});
+	});
+
+	it("should cap costs at the capacity", () => {
+		expect(takeTokens(bucket, 10, 0, 0, 50)).toMatchObject({
+			allowed: true,
+			remaining: 0,
+		});
+	});
+});
+
+describe("MemoryRateLimitStore", () => {
+	it("should allow bursts up to the capacity and then refill", async () => {
+		let now = 0;
+		const store = new MemoryRateLimitStore(() => now);
+
+		for (let i = 0; i < 5; i++) {
+			expect((await store.consume("1", 2, bucket)).allowed).toBe(true);
+		}
+		const limited = await store.consume("1", 2, bucket);
+		expect(limited.allowed).toBe(false);
+		expect(limited.retryAfterMs).toBe(2000);
+
+		// Other keys have their own bucket
+		expect((await store.consume("2", 2, bucket)).allowed).toBe(true);
+
+		now = 2000;
+		expect((await store.consume("1", 2, bucket)).allowed).toBe(true);
+		expect((await store.consume("1", 2, bucket)).allowed).toBe(false);
+	});
+
+	it("should reset and prune buckets", async () => {
+		let now = 0;
+		const store = new MemoryRateLimitStore(() => now);
+
+		await store.consume("1", 10, bucket);
+		await store.reset("1");
+		expect((await store.consume("1", 10, bucket)).allowed).toBe(true);
+
+		await store.consume("2", 1, bucket);
+		now = 5000;
+		await store.consume("3", 1, bucket);
+		now = 10_000;
+		expect(store.prune()).toBe(2);
+		expect(store.size).toBe(1);
+	});
+});
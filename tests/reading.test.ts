@@ -0,0 +1,227 @@
+/**
+ * Unit tests for reading status and ratings
+ *
+ * Tests cover:
+ * - Parsing statuses, sort orders and /reading arguments
+ * - Status labels in each language
+ * - Changing a bookmark's reading status and rating
+ * - Filtering and sorting bookmarks by status and rating
+ */
+
+import { beforeAll, describe, expect, it } from "bun:test";
+import type { Paper } from "../src/arxiv";
+import type { Bookmark, ReadingStatus } from "../src/db/schema";
+import { execute, openTestDatabase } from "./testDatabase";
+
+const paper = (id: string): Paper => ({
+	title: `Paper ${id}`,
+	summary: "Abstract",
+	link: `http://arxiv.org/abs/${id}`,
+	published: "2024-01-01T00:00:00Z",
+});
+
+describe("parseReadingArgs", () => {
+	let reading: typeof import("../src/features/reading");
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		reading = await import("../src/features/reading");
+	});
+
+	it("should accept status names and aliases", () => {
+		expect(reading.parseReadingStatus("To Read")).toBe("to-read");
+		expect(reading.parseReadingStatus("todo")).toBe("to-read");
+		expect(reading.parseReadingStatus("done")).toBe("read");
+		expect(reading.parseReadingStatus("dropped")).toBe("abandoned");
+		expect(reading.parseReadingStatus("skimmed")).toBeNull();
+	});
+
+	it("should sort by status when listing every status", () => {
+		expect(reading.parseReadingArgs("")).toEqual({ sortBy: "status" });
+		expect(reading.parseReadingArgs("all --sort stars")).toEqual({
+			sortBy: "rating",
+		});
+	});
+
+	it("should sort one status by date unless asked otherwise", () => {
+		expect(reading.parseReadingArgs("read")).toEqual({
+			status: "read",
+			sortBy: "created",
+		});
+		expect(reading.parseReadingArgs("read --sort=rating")).toEqual({
+			status: "read",
+			sortBy: "rating",
+		});
+	});
+
+	it("should label statuses in the user's language", () => {
+		expect(reading.getReadingStatusLabel("read")).toBe("✅ Read");
+		expect(reading.getReadingStatusLabel("read", "de")).toBe("✅ Gelesen");
+		expect(
+			reading.formatReadingSummary(
+				{ "to-read": 2, reading: 1, read: 0, abandoned: 0 },
+				"fr",
+			),
+		).toBe("📥 À lire: 2\n📖 En cours: 1\n✅ Lu: 0\n🚫 Abandonné: 0");
+	});
+
+	it("should report unknown statuses and sort orders", () => {
+		expect(reading.parseReadingArgs("skimmed").invalid).toBe("skimmed");
+		expect(reading.parseReadingArgs("--sort size").invalid).toBe("size");
+	});
+});
+
+describe("reading status and ratings", () => {
+	let reading: typeof import("../src/features/reading");
+	let bookmarks: typeof import("../src/features/bookmarks");
+	let userId: number;
+
+	/**
+	 * Bookmark a paper, added the given number of days ago
+	 */
+	const save = async (
+		id: string,
+		daysAgo: number,
+		owner = userId,
+	): Promise<Bookmark> => {
+		const bookmark = await bookmarks.addBookmark(owner, paper(id));
+		if (!bookmark) throw new Error(`Could not bookmark ${id}`);
+		await execute(
+			`UPDATE bookmarks SET created_at = datetime('now', '-${daysAgo} days') WHERE id = ${bookmark.id}`,
+		);
+		return bookmark;
+	};
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		reading = await import("../src/features/reading");
+		bookmarks = await import("../src/features/bookmarks");
+		const { findOrCreateUser } = await import(
+			"../src/db/repositories/userRepository"
+		);
+		userId = (await findOrCreateUser(500001))?.id ?? 0;
+	});
+
+	it("should start in the queue and move through the workflow", async () => {
+		const bookmark = await save("2402.00001", 1);
+		expect(bookmark.readingStatus).toBe("to-read");
+		expect(reading.formatReadingStatusLine(bookmark)).toBeNull();
+
+		const started = await reading.setReadingStatus(bookmark, "reading");
+		expect(started?.readingStatus).toBe("reading");
+		expect(started?.statusUpdatedAt).toBeTruthy();
+
+		const finished =
+			started && (await reading.setReadingStatus(started, "read"));
+		expect(finished?.readingStatus).toBe("read");
+		expect(finished && reading.formatReadingStatusLine(finished)).toBe(
+			"✅ Read",
+		);
+
+		// Setting the current status again changes nothing
+		expect(finished && (await reading.setReadingStatus(finished, "read"))).toBe(
+			finished,
+		);
+	});
+
+	it("should only accept ratings from 1 to 5", async () => {
+		const bookmark = await save("2402.00002", 1);
+
+		for (const rating of [0, 6, 2.5, Number.NaN]) {
+			expect(await reading.rateBookmark(bookmark, rating)).toBeNull();
+		}
+		expect((await reading.rateBookmark(bookmark, 1))?.rating).toBe(1);
+		expect((await reading.rateBookmark(bookmark, 5))?.rating).toBe(5);
+	});
+
+	it("should clear a rating given again", async () => {
+		const bookmark = await save("2402.00003", 1);
+
+		const rated = await reading.rateBookmark(bookmark, 4);
+		expect(rated?.rating).toBe(4);
+		expect(rated && reading.formatReadingStatusLine(rated)).toBe(
+			"📥 To read · ★★★★☆",
+		);
+
+		const cleared = rated && (await reading.rateBookmark(rated, 4));
+		expect(cleared?.rating).toBeNull();
+	});
+
+	describe("listing bookmarks", () => {
+		let listUserId: number;
+
+		/**
+		 * Titles of a page of bookmarks, in order
+		 */
+		const titles = async (
+			options: Parameters<typeof bookmarks.getBookmarksPaginated>[3],
+		) =>
+			(
+				await bookmarks.getBookmarksPaginated(listUserId, 1, 10, options)
+			).bookmarks.map((b) => b.title);
+
+		beforeAll(async () => {
+			const { findOrCreateUser } = await import(
+				"../src/db/repositories/userRepository"
+			);
+			listUserId = (await findOrCreateUser(500002))?.id ?? 0;
+
+			const library: [string, ReadingStatus, number | null][] = [
+				["2403.00001", "read", 3],
+				["2403.00002", "to-read", null],
+				["2403.00003", "reading", 5],
+				["2403.00004", "read", 5],
+				["2403.00005", "abandoned", 1],
+			];
+			for (const [i, [id, status, rating]] of library.entries()) {
+				// The first paper is the oldest
+				const bookmark = await save(id, library.length - i, listUserId);
+				await reading.setReadingStatus(bookmark, status);
+				if (rating) await reading.rateBookmark(bookmark, rating);
+			}
+		});
+
+		it("should filter by status", async () => {
+			expect(await titles({ status: "read" })).toEqual([
+				"Paper 2403.00004",
+				"Paper 2403.00001",
+			]);
+			expect(await reading.getReadingStatusCounts(listUserId)).toEqual({
+				"to-read": 1,
+				reading: 1,
+				read: 2,
+				abandoned: 1,
+			});
+		});
+
+		it("should filter by minimum rating", async () => {
+			const page = await bookmarks.getBookmarksPaginated(listUserId, 1, 1, {
+				minRating: 5,
+			});
+
+			expect(page.bookmarks.map((b) => b.title)).toEqual(["Paper 2403.00004"]);
+			expect(page.total).toBe(2);
+			expect(page.hasMore).toBe(true);
+		});
+
+		it("should sort by status in workflow order, newest first", async () => {
+			expect(await titles({ sortBy: "status" })).toEqual([
+				"Paper 2403.00002",
+				"Paper 2403.00003",
+				"Paper 2403.00004",
+				"Paper 2403.00001",
+				"Paper 2403.00005",
+			]);
+		});
+
+		it("should sort by rating with unrated papers last", async () => {
+			expect(await titles({ sortBy: "rating" })).toEqual([
+				"Paper 2403.00004",
+				"Paper 2403.00003",
+				"Paper 2403.00001",
+				"Paper 2403.00005",
+				"Paper 2403.00002",
+			]);
+		});
+	});
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for digest scheduling
+ *
+ * Tests cover:
+ * - Parsing times of day and weekdays
+ * - Interval, daily and weekly schedules across timezones and DST
+ * - Quiet hours
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	type DigestSchedule,
+	formatLocalDateTime,
+	getNextRunAt,
+	isDigestDue,
+	normalizeTimezone,
+	parseTimeOfDay,
+	parseWeekday,
+} from "../src/utils/schedule";
+
+/**
+ * Create a schedule with defaults for the fields a test doesn't care about
+ */
+function schedule(overrides: Partial<DigestSchedule> = {}): DigestSchedule {
+	return {
+		scheduleType: "interval",
+		intervalHours: 24,
+		deliveryTime: null,
+		deliveryDay: null,
+		lastRunAt: null,
+		createdAt: "2026-01-01 00:00:00",
+		...overrides,
+	};
+}
+
+const noQuietHours = { quietHoursStart: null, quietHoursEnd: null };
+
+describe("schedule parsing", () => {
+	it("should parse times of day", () => {
+		expect(parseTimeOfDay("08:30")).toBe(510);
+		expect(parseTimeOfDay("7")).toBe(420);
+		expect(parseTimeOfDay("23:59")).toBe(1439);
+		expect(parseTimeOfDay("24:00")).toBeNull();
+		expect(parseTimeOfDay("noon")).toBeNull();
+	});
+
+	it("should parse weekday names and abbreviations", () => {
+		expect(parseWeekday("monday")).toBe(1);
+		expect(parseWeekday("Sun")).toBe(0);
+		expect(parseWeekday("t")).toBeNull();
+		expect(parseWeekday("someday")).toBeNull();
+	});
+
+	it("should normalize timezone names", () => {
+		expect(normalizeTimezone("Europe/Berlin")).toBe("Europe/Berlin");
+		expect(normalizeTimezone("Mars/Olympus")).toBeNull();
+	});
+});
+
+describe("getNextRunAt", () => {
+	const berlin = { timezone: "Europe/Berlin", ...noQuietHours };
+
+	it("should run interval subscriptions that never ran immediately", () => {
+		const now = new Date("2026-01-05T12:00:00Z");
+		expect(getNextRunAt(schedule(), null, now)).toEqual(now);
+	});
+
+	it("should add the interval to the last run", () => {
+		const next = getNextRunAt(
+			schedule({ intervalHours: 12, lastRunAt: "2026-01-05T06:00:00.000Z" }),
+			null,
+			new Date("2026-01-05T07:00:00Z"),
+		);
+		expect(next.toISOString()).toBe("2026-01-05T18:00:00.000Z");
+	});
+
+	it("should run daily digests at the local time of day", () => {
+		const next = getNextRunAt(
+			schedule({
+				scheduleType: "daily",
+				deliveryTime: "08:00",
+				lastRunAt: "2026-01-05T07:05:00.000Z",
+			}),
+			berlin,
+			new Date("2026-01-05T12:00:00Z"),
+		);
+		expect(next.toISOString()).toBe("2026-01-06T07:00:00.000Z");
+		expect(formatLocalDateTime(next, "Europe/Berlin")).toBe("Tue 6 Jan, 08:00");
+	});
+
+	it("should keep the local time across a DST change", () => {
+		const next = getNextRunAt(
+			schedule({
+				scheduleType: "daily",
+				deliveryTime: "08:00",
+				lastRunAt: "2026-03-07T13:00:00.000Z",
+			}),
+			{ timezone: "America/New_York", ...noQuietHours },
+			new Date("2026-03-07T14:00:00Z"),
+		);
+		// Clocks go forward on 8 March, so 08:00 EDT is 12:00 UTC
+		expect(next.toISOString()).toBe("2026-03-08T12:00:00.000Z");
+	});
+
+	it("should schedule the first weekly digest after creation", () => {
+		const next = getNextRunAt(
+			schedule({
+				scheduleType: "weekly",
+				deliveryDay: 1,
+				createdAt: "2026-01-07 10:00:00",
+			}),
+			null,
+			new Date("2026-01-08T00:00:00Z"),
+		);
+		expect(next.toISOString()).toBe("2026-01-12T08:00:00.000Z");
+	});
+
+	it("should hold digests until quiet hours end", () => {
+		const settings = {
+			timezone: "UTC",
+			quietHoursStart: "22:00",
+			quietHoursEnd: "07:00",
+		};
+		const now = new Date("2026-01-05T23:30:00Z");
+
+		expect(getNextRunAt(schedule(), settings, now).toISOString()).toBe(
+			"2026-01-06T07:00:00.000Z",
+		);
+		expect(isDigestDue(schedule(), settings, now)).toBe(false);
+		expect(
+			isDigestDue(schedule(), settings, new Date("2026-01-06T07:00:00Z")),
+		).toBe(true);
+	});
+});
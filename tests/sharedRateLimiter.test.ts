@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the shared rate limiter
+ *
+ * Tests cover:
+ * - Spacing requests of several instances through one store
+ * - Falling back to the local limiter
+ * - Queue depth and wait-time status
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	MemoryRateLimitStore,
+	type RateLimitStore,
+} from "../src/storage/rateLimitStore";
+import { RateLimiter, SharedRateLimiter } from "../src/utils/rateLimiter";
+
+/** 20 requests per second: one every 50ms */
+function createLimiter(): SharedRateLimiter {
+	return new SharedRateLimiter(new RateLimiter(20, "Test"), "test");
+}
+
+const failingStore: RateLimitStore = {
+	consume: () => Promise.reject(new Error("connection refused")),
+	reset: () => Promise.resolve(),
+};
+
+describe("SharedRateLimiter", () => {
+	it("should space requests of all instances sharing a store", async () => {
+		const store = new MemoryRateLimitStore();
+		const first = createLimiter();
+		const second = createLimiter();
+		first.useStore(store);
+		second.useStore(store);
+
+		const times: number[] = [];
+		const request = async (limiter: SharedRateLimiter) => {
+			await limiter.throttle();
+			times.push(Date.now());
+		};
+		await Promise.all([
+			request(first),
+			request(second),
+			request(first),
+			request(second),
+		]);
+
+		times.sort((a, b) => a - b);
+		for (let i = 1; i < times.length; i++) {
+			expect((times[i] ?? 0) - (times[i - 1] ?? 0)).toBeGreaterThanOrEqual(45);
+		}
+		expect(first.getStatus().shared).toBe(true);
+	});
+
+	it("should fall back to the local limiter when the store fails", async () => {
+		const limiter = createLimiter();
+		limiter.useStore(failingStore);
+
+		const startedAt = Date.now();
+		await limiter.throttle();
+		await limiter.throttle();
+
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+		expect(limiter.getStatus().shared).toBe(false);
+	});
+
+	it("should report queue depth and wait times", async () => {
+		const limiter = createLimiter();
+		const requests = [limiter.throttle(), limiter.throttle()];
+
+		expect(limiter.getPendingCount()).toBe(2);
+		expect(limiter.canProceed()).toBe(false);
+
+		await Promise.all(requests);
+		const status = limiter.getStatus();
+		expect(status.pendingRequests).toBe(0);
+		expect(status.totalRequests).toBe(2);
+		expect(status.shared).toBe(false);
+		expect(status.maxWaitMs).toBeGreaterThanOrEqual(45);
+		expect(status.avgWaitMs).toBeLessThanOrEqual(status.maxWaitMs);
+	});
+});
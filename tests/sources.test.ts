@@ -0,0 +1,347 @@
+/**
+ * Unit tests for paper source providers
+ *
+ * Tests cover:
+ * - Response parsers for each provider
+ * - Source-qualified paper IDs
+ * - Source registry and --source option parsing
+ * - Provider search/fetch against recorded fixtures (no network)
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+	filterBiorxivPapers,
+	parseBiorxivResponse,
+} from "../src/sources/biorxiv";
+import {
+	parseCrossrefSearch,
+	parseCrossrefWork,
+} from "../src/sources/crossref";
+import {
+	fetchPaperByQualifiedId,
+	fitsCallbackData,
+	formatPaperId,
+	getPaperId,
+	getSource,
+	getStoredPaperId,
+	parsePaperId,
+	parseSourceOption,
+	resolveSourceName,
+	searchSource,
+} from "../src/sources/index";
+import {
+	parsePubMedArticles,
+	parsePubMedSearchIds,
+} from "../src/sources/pubmed";
+import { parseSemanticScholarSearch } from "../src/sources/semanticScholar";
+import { toBibTeX } from "../src/utils/export";
+
+const FIXTURES = join(import.meta.dir, "fixtures", "sources");
+
+function fixture(name: string): string {
+	return readFileSync(join(FIXTURES, name), "utf-8");
+}
+
+function jsonFixture<T>(name: string): T {
+	return JSON.parse(fixture(name)) as T;
+}
+
+describe("Semantic Scholar parser", () => {
+	it("should parse search results and skip untitled papers", () => {
+		const papers = parseSemanticScholarSearch(
+			jsonFixture("semanticscholar-search.json"),
+		);
+
+		expect(papers).toHaveLength(1);
+		expect(papers[0]).toEqual({
+			title: "Attention is All you Need",
+			summary:
+				"The dominant sequence transduction models are based on complex recurrent or convolutional neural networks.",
+			link: "https://www.semanticscholar.org/paper/204e3073870fae3d05bcbc2f6a8e263d9b72e776",
+			published: "2017-06-12",
+			authors: ["Ashish Vaswani", "Noam Shazeer"],
+			categories: ["Computer Science"],
+			source: "semanticscholar",
+			externalId: "204e3073870fae3d05bcbc2f6a8e263d9b72e776",
+		});
+	});
+});
+
+describe("Crossref parser", () => {
+	it("should parse works, strip JATS markup and skip untitled items", () => {
+		const papers = parseCrossrefSearch(jsonFixture("crossref-search.json"));
+
+		expect(papers).toHaveLength(1);
+		expect(papers[0]?.title).toBe("Deep learning");
+		expect(papers[0]?.summary).toStartWith("Deep learning allows");
+		expect(papers[0]?.summary).not.toContain("<jats:p>");
+		expect(papers[0]?.authors).toEqual([
+			"Yann LeCun",
+			"Yoshua Bengio",
+			"Geoffrey Hinton",
+		]);
+		expect(papers[0]?.published).toBe("2015-05-27");
+		expect(papers[0]?.externalId).toBe("10.1038/nature14539");
+	});
+
+	it("should handle partial dates and organisation authors", () => {
+		const { message } = jsonFixture<{
+			message: Parameters<typeof parseCrossrefWork>[0];
+		}>("crossref-work.json");
+		const paper = parseCrossrefWork(message);
+
+		expect(paper?.published).toBe("2017-05");
+		expect(paper?.authors).toEqual(["Alex Krizhevsky", "ImageNet Consortium"]);
+		expect(paper?.summary).toBe("");
+	});
+});
+
+describe("PubMed parser", () => {
+	it("should extract PMIDs from esearch", () => {
+		expect(parsePubMedSearchIds(jsonFixture("pubmed-esearch.json"))).toEqual([
+			"31452104",
+			"29641966",
+		]);
+	});
+
+	it("should parse efetch articles", () => {
+		const papers = parsePubMedArticles(fixture("pubmed-efetch.xml"));
+
+		expect(papers).toHaveLength(2);
+		expect(papers[0]).toEqual({
+			title: "A guide to deep learning in healthcare .",
+			summary:
+				"Here we present deep-learning techniques for healthcare. We discuss computer vision and natural language processing.",
+			link: "https://pubmed.ncbi.nlm.nih.gov/31452104/",
+			published: "2019-09-01",
+			authors: ["Andre Esteva", "Deep Learning Study Group"],
+			categories: ["Nature medicine"],
+			source: "pubmed",
+			externalId: "31452104",
+		});
+		expect(papers[1]?.published).toBe("2018");
+		expect(papers[1]?.authors).toEqual(["Dinggang Shen"]);
+	});
+});
+
+describe("bioRxiv parser", () => {
+	it("should keep only the latest version of each preprint", () => {
+		const papers = parseBiorxivResponse(jsonFixture("biorxiv-details.json"));
+
+		expect(papers).toHaveLength(2);
+		expect(papers[0]?.link).toBe(
+			"https://www.biorxiv.org/content/10.1101/2023.01.01.522405v2",
+		);
+		expect(papers[0]?.published).toBe("2023-02-10");
+		expect(papers[0]?.authors).toEqual(["Smith, J.", "Doe, A.", "Lee, K."]);
+	});
+
+	it("should filter by all query terms", () => {
+		const papers = parseBiorxivResponse(jsonFixture("biorxiv-details.json"));
+
+		expect(filterBiorxivPapers(papers, "CRISPR language")).toHaveLength(1);
+		expect(filterBiorxivPapers(papers, "crispr zebrafish")).toHaveLength(0);
+	});
+});
+
+describe("paper IDs", () => {
+	it("should format and parse qualified IDs", () => {
+		expect(formatPaperId("pubmed", "31452104")).toBe("pubmed:31452104");
+		expect(parsePaperId("pubmed:31452104")).toEqual({
+			source: "pubmed",
+			externalId: "31452104",
+		});
+		expect(parsePaperId("crossref:10.1038/nature14539")).toEqual({
+			source: "crossref",
+			externalId: "10.1038/nature14539",
+		});
+	});
+
+	it("should treat doi: as a Crossref ID", () => {
+		expect(parsePaperId("doi:10.1038/nature14539")?.source).toBe("crossref");
+	});
+
+	it("should accept bare arXiv IDs and URLs", () => {
+		expect(parsePaperId("2301.00001")).toEqual({
+			source: "arxiv",
+			externalId: "2301.00001",
+		});
+		expect(parsePaperId("2301.00001v2")?.externalId).toBe("2301.00001v2");
+		expect(parsePaperId("https://arxiv.org/abs/1706.03762")?.externalId).toBe(
+			"1706.03762",
+		);
+		expect(parsePaperId("arxiv:hep-th/9901001")?.source).toBe("arxiv");
+	});
+
+	it("should reject unknown IDs", () => {
+		expect(parsePaperId("not an id")).toBeNull();
+		expect(parsePaperId("foo:bar")).toBeNull();
+	});
+
+	it("should keep bare IDs for arXiv papers in storage", () => {
+		const arxivPaper = {
+			title: "T",
+			summary: "",
+			link: "http://arxiv.org/abs/2301.00001",
+			published: "2023-01-01",
+		};
+		expect(getStoredPaperId(arxivPaper)).toBe("2301.00001");
+		expect(getPaperId(arxivPaper)).toBe("arxiv:2301.00001");
+
+		const pubmedPaper = {
+			...arxivPaper,
+			link: "https://pubmed.ncbi.nlm.nih.gov/31452104/",
+			source: "pubmed" as const,
+			externalId: "31452104",
+		};
+		expect(getStoredPaperId(pubmedPaper)).toBe("pubmed:31452104");
+	});
+
+	it("should check callback data against Telegram's 64-byte limit", () => {
+		expect(fitsCallbackData("save:2301.00001")).toBe(true);
+		expect(fitsCallbackData(`save:${"x".repeat(59)}`)).toBe(true);
+		expect(fitsCallbackData(`save:${"x".repeat(60)}`)).toBe(false);
+		// Bytes, not characters
+		expect(fitsCallbackData(`save:${"é".repeat(30)}`)).toBe(false);
+	});
+});
+
+describe("source registry", () => {
+	it("should resolve source aliases", () => {
+		expect(resolveSourceName("s2")).toBe("semanticscholar");
+		expect(resolveSourceName("PubMed")).toBe("pubmed");
+		expect(resolveSourceName("scopus")).toBeNull();
+		expect(getSource().id).toBe("arxiv");
+	});
+
+	it("should extract --source from arguments", () => {
+		expect(parseSourceOption("--source pubmed crispr cas9")).toEqual({
+			text: "crispr cas9",
+			source: "pubmed",
+		});
+		expect(parseSourceOption("transformers --source=s2")).toEqual({
+			text: "transformers",
+			source: "semanticscholar",
+		});
+		expect(parseSourceOption("gan --source scopus")).toEqual({
+			text: "gan",
+			unknownSource: "scopus",
+		});
+		expect(parseSourceOption(" plain query ")).toEqual({
+			text: "plain query",
+		});
+	});
+});
+
+describe("BibTeX for non-arXiv papers", () => {
+	it("should emit a DOI instead of an arXiv eprint", () => {
+		const [paper] = parseCrossrefSearch(jsonFixture("crossref-search.json"));
+		if (!paper) throw new Error("fixture did not parse");
+		const bibtex = toBibTeX(paper);
+
+		expect(bibtex).toStartWith("@article{lecun101038nature14539,");
+		expect(bibtex).toContain("doi={10.1038/nature14539}");
+		expect(bibtex).not.toContain("archivePrefix");
+	});
+
+	it("should emit the PMID as a pubmed eprint", () => {
+		const [paper] = parsePubMedArticles(fixture("pubmed-efetch.xml"));
+		if (!paper) throw new Error("fixture did not parse");
+		const bibtex = toBibTeX(paper);
+
+		expect(bibtex).toContain("eprint={31452104}");
+		expect(bibtex).toContain("eprinttype={pubmed}");
+	});
+});
+
+describe("providers with recorded responses", () => {
+	const originalFetch = globalThis.fetch;
+	let requestedUrls: string[] = [];
+
+	beforeEach(() => {
+		requestedUrls = [];
+		globalThis.fetch = (async (input: string | URL | Request) => {
+			const url = String(input instanceof Request ? input.url : input);
+			requestedUrls.push(url);
+
+			if (url.includes("semanticscholar.org/graph/v1/paper/search")) {
+				return new Response(fixture("semanticscholar-search.json"));
+			}
+			if (url.includes("api.crossref.org/works/")) {
+				return new Response(fixture("crossref-work.json"));
+			}
+			if (url.includes("api.crossref.org/works?")) {
+				return new Response(fixture("crossref-search.json"));
+			}
+			if (url.includes("esearch.fcgi")) {
+				return new Response(fixture("pubmed-esearch.json"));
+			}
+			if (url.includes("efetch.fcgi")) {
+				return new Response(fixture("pubmed-efetch.xml"));
+			}
+			if (url.includes("api.biorxiv.org")) {
+				return new Response(fixture("biorxiv-details.json"));
+			}
+			return new Response("not found", { status: 404 });
+		}) as typeof fetch;
+	});
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("should search Semantic Scholar", async () => {
+		const papers = await searchSource("attention", "semanticscholar", {
+			max: 2,
+		});
+
+		expect(papers).toHaveLength(1);
+		expect(requestedUrls[0]).toContain("query=attention");
+		expect(requestedUrls[0]).toContain("limit=2");
+	});
+
+	it("should search Crossref", async () => {
+		const papers = await searchSource("deep learning", "crossref");
+
+		expect(papers[0]?.source).toBe("crossref");
+		expect(requestedUrls[0]).toContain("query=deep+learning");
+	});
+
+	it("should search PubMed with esearch then efetch", async () => {
+		const papers = await searchSource("deep learning", "pubmed", { max: 2 });
+
+		expect(papers).toHaveLength(2);
+		expect(requestedUrls).toHaveLength(2);
+		expect(requestedUrls[1]).toContain("id=31452104%2C29641966");
+	});
+
+	it("should search bioRxiv by filtering recent preprints", async () => {
+		const papers = await searchSource("crispr", "biorxiv");
+
+		expect(papers).toHaveLength(1);
+		expect(papers[0]?.externalId).toBe("10.1101/2023.01.01.522405");
+	});
+
+	it("should fetch papers by qualified ID", async () => {
+		const paper = await fetchPaperByQualifiedId("doi:10.1145/3065386");
+
+		expect(paper?.title).toBe(
+			"ImageNet classification with deep convolutional neural networks",
+		);
+		expect(requestedUrls[0]).toContain("/works/10.1145%2F3065386");
+	});
+
+	it("should return null for malformed PubMed IDs without a request", async () => {
+		expect(await fetchPaperByQualifiedId("pubmed:abc")).toBeNull();
+		expect(requestedUrls).toHaveLength(0);
+	});
+
+	it("should return an empty list when a provider fails", async () => {
+		globalThis.fetch = (async () =>
+			new Response("bad request", { status: 400 })) as unknown as typeof fetch;
+
+		expect(await searchSource("anything", "crossref")).toEqual([]);
+	});
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for subscription windows
+ *
+ * Tests cover:
+ * - Where a subscription's next digest starts looking for papers
+ * - Checking and storing topics when subscribing
+ */
+
+import { beforeAll, describe, expect, it } from "bun:test";
+import type { Subscription } from "../src/db/schema";
+import { openTestDatabase } from "./testDatabase";
+
+describe("getSubscriptionWindowStart", () => {
+	let getSubscriptionWindowStart: typeof import("../src/features/subscriptions").getSubscriptionWindowStart;
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		({ getSubscriptionWindowStart } = await import(
+			"../src/features/subscriptions"
+		));
+	});
+
+	const subscription = (fields: Partial<Subscription>) =>
+		({
+			intervalHours: 24,
+			lastRunAt: null,
+			submittedAfter: null,
+			...fields,
+		}) as Subscription;
+	const now = new Date("2024-03-10T12:00:00Z");
+
+	it("should include papers submitted before the last run but listed after it", () => {
+		const start = getSubscriptionWindowStart(
+			subscription({ lastRunAt: "2024-03-10T08:00:00Z" }),
+			now,
+		);
+		// Submitted the day before the last run, announced by arXiv since
+		const lateListed = new Date("2024-03-09T15:00:00Z");
+
+		expect(start.getTime()).toBeLessThan(lateListed.getTime());
+		expect(start.toISOString()).toBe("2024-03-07T08:00:00.000Z");
+	});
+
+	it("should use the --since window until the first run", () => {
+		expect(
+			getSubscriptionWindowStart(
+				subscription({ submittedAfter: "2024-03-01T00:00:00.000Z" }),
+				now,
+			).toISOString(),
+		).toBe("2024-03-01T00:00:00.000Z");
+	});
+
+	it("should fall back to one interval before now", () => {
+		expect(
+			getSubscriptionWindowStart(subscription({ intervalHours: 6 }), now),
+		).toEqual(new Date("2024-03-10T06:00:00Z"));
+	});
+});
+
+describe("subscribe", () => {
+	let subscriptions: typeof import("../src/features/subscriptions");
+	let userId: number;
+
+	beforeAll(async () => {
+		await openTestDatabase();
+		subscriptions = await import("../src/features/subscriptions");
+		const { findOrCreateUser } = await import(
+			"../src/db/repositories/userRepository"
+		);
+		userId = (await findOrCreateUser(300001))?.id ?? 0;
+	});
+
+	it("should reject malformed boolean queries", async () => {
+		const result = await subscriptions.subscribe(userId, "ti:graph AND (au:");
+
+		expect(result.success).toBe(false);
+		expect(result.message).toContain("Invalid search query");
+	});
+
+	it("should explain malformed queries in the user's language", async () => {
+		const result = await subscriptions.subscribe(
+			userId,
+			"ti:graph AND (au:",
+			undefined,
+			"de",
+		);
+
+		expect(result.message).toStartWith("❌ Ungültige Suchanfrage: ");
+	});
+
+	it("should keep the case of boolean queries", async () => {
+		const boolean = await subscriptions.subscribe(
+			userId,
+			"ti:graph AND au:Bengio",
+		);
+		const keywords = await subscriptions.subscribe(userId, "Graph Networks");
+
+		expect(boolean.subscription?.topic).toBe("ti:graph AND au:Bengio");
+		expect(keywords.subscription?.topic).toBe("graph networks");
+		expect(
+			(await subscriptions.unsubscribe(userId, "ti:graph AND au:Bengio"))
+				.success,
+		).toBe(true);
+	});
+});
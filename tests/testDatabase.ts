@@ -0,0 +1,51 @@
+/**
+ * In-memory database for repository tests
+ *
+ * Points the config at an in-memory libSQL database and applies the
+ * migrations. Modules that use the database read the config when they
+ * are first loaded, so import them dynamically after openTestDatabase().
+ *
+ * @example
+ * beforeAll(async () => {
+ *   await openTestDatabase();
+ *   bookmarks = await import("../src/db/repositories/bookmarkRepository");
+ * });
+ */
+
+import { sql } from "drizzle-orm";
+
+let opened: Promise<void> | null = null;
+
+async function migrate(): Promise<void> {
+	process.env.BOT_TOKEN ||= "123456:test";
+	process.env.DATABASE_URL = ":memory:";
+	process.env.LOG_LEVEL ||= "error";
+	// bun test sets NODE_ENV=test, which the config does not accept
+	process.env.NODE_ENV = "development";
+
+	const { db } = await import("../src/db/index");
+	const { migrations } = await import("../src/db/migrate");
+	for (const statement of migrations) {
+		try {
+			await db.run(sql.raw(statement));
+		} catch {
+			// ALTER TABLE migrations fail once their column exists
+		}
+	}
+}
+
+/**
+ * Create and migrate the test database (once per test run)
+ */
+export function openTestDatabase(): Promise<void> {
+	opened ??= migrate();
+	return opened;
+}
+
+/**
+ * Run a statement against the test database, e.g. to age a row
+ */
+export async function execute(statement: string): Promise<void> {
+	const { db } = await import("../src/db/index");
+	await db.run(sql.raw(statement));
+}
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for word diffs
+ *
+ * Tests cover:
+ * - Diffing texts word by word
+ * - Shortening unchanged stretches
+ * - Formatting diffs
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	diffWords,
+	formatWordDiff,
+	hasChanges,
+	trimDiffContext,
+} from "../src/utils/textDiff";
+
+describe("diffWords", () => {
+	it("should mark replaced words", () => {
+		expect(diffWords("a fast model", "a faster model")).toEqual([
+			{ op: "equal", text: "a" },
+			{ op: "delete", text: "fast" },
+			{ op: "insert", text: "faster" },
+			{ op: "equal", text: "model" },
+		]);
+	});
+
+	it("should keep words shared by both texts", () => {
+		const segments = diffWords(
+			"We propose a method. It works on ImageNet.",
+			"We propose a new method. It works on ImageNet and COCO.",
+		);
+		expect(formatWordDiff(segments)).toBe(
+			"We propose a {+new+} method. It works on [-ImageNet.-] {+ImageNet and COCO.+}",
+		);
+	});
+
+	it("should ignore whitespace differences", () => {
+		const segments = diffWords("Deep\n  learning", "Deep learning");
+		expect(hasChanges(segments)).toBe(false);
+	});
+
+	it("should handle empty texts", () => {
+		expect(diffWords("", "")).toEqual([]);
+		expect(formatWordDiff(diffWords("", "new abstract"))).toBe(
+			"{+new abstract+}",
+		);
+		expect(formatWordDiff(diffWords("old abstract", ""))).toBe(
+			"[-old abstract-]",
+		);
+	});
+});
+
+describe("trimDiffContext", () => {
+	it("should keep only the words around changes", () => {
+		const words = Array.from({ length: 30 }, (_, i) => `w${i}`).join(" ");
+		const segments = diffWords(words, words.replace("w15", "changed"));
+
+		expect(formatWordDiff(trimDiffContext(segments, 2))).toBe(
+			"… w13 w14 [-w15-] {+changed+} w16 w17 …",
+		);
+	});
+
+	it("should leave short stretches alone", () => {
+		const segments = diffWords("a b c", "a x c");
+		expect(trimDiffContext(segments, 2)).toEqual(segments);
+	});
+});
+
+describe("formatWordDiff", () => {
+	it("should apply a custom style", () => {
+		const segments = diffWords("old title", "new title");
+		expect(
+			formatWordDiff(segments, {
+				unchanged: (text) => text,
+				deleted: (text) => `~${text}~`,
+				inserted: (text) => `*${text}*`,
+			}),
+		).toBe("~old~ *new* title");
+	});
+});
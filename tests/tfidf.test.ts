@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the TF-IDF index
+ *
+ * Tests cover:
+ * - Tokenizing text
+ * - Sparse and dense cosine similarity
+ * - Ranking, thresholds and exclusions in TfIdfIndex.search
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+	cosineSimilarity,
+	denseCosineSimilarity,
+	TfIdfIndex,
+	tokenize,
+} from "../src/utils/tfidf";
+
+const documents = [
+	{
+		id: "transformers",
+		text: "Attention is all you need. Transformer networks rely on self-attention instead of recurrence.",
+	},
+	{
+		id: "bert",
+		text: "BERT: pre-training deep bidirectional transformer encoders with self-attention for language understanding.",
+	},
+	{
+		id: "gnn",
+		text: "Graph neural networks learn node representations by message passing over graph edges.",
+	},
+	{
+		id: "protein",
+		text: "Protein structure prediction from amino acid sequences.",
+	},
+];
+
+describe("tokenize", () => {
+	it("should lowercase and drop stop words, short words and numbers", () => {
+		expect(tokenize("Graph Neural Networks for the 3D World in 2017")).toEqual([
+			"graph",
+			"neural",
+			"networks",
+			"world",
+		]);
+	});
+});
+
+describe("cosine similarity", () => {
+	it("should score identical sparse vectors as 1 and disjoint ones as 0", () => {
+		const a = new Map([
+			["graph", 1],
+			["neural", 2],
+		]);
+		const b = new Map([["protein", 3]]);
+		expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+		expect(cosineSimilarity(a, b)).toBe(0);
+		expect(cosineSimilarity(a, new Map())).toBe(0);
+	});
+
+	it("should compare dense vectors by angle, not length", () => {
+		expect(denseCosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+		expect(denseCosineSimilarity([1, 0], [0, 1])).toBe(0);
+		expect(denseCosineSimilarity([0, 0], [1, 1])).toBe(0);
+	});
+});
+
+describe("TfIdfIndex", () => {
+	const index = new TfIdfIndex(documents);
+
+	it("should index every document", () => {
+		expect(index.size).toBe(4);
+		expect(index.has("gnn")).toBe(true);
+		expect(index.has("missing")).toBe(false);
+	});
+
+	it("should produce normalized vectors", () => {
+		const vector = index.getVector("bert");
+		expect(vector).toBeDefined();
+		const norm = Math.sqrt(
+			[...(vector?.values() ?? [])].reduce((sum, w) => sum + w * w, 0),
+		);
+		expect(norm).toBeCloseTo(1);
+	});
+
+	it("should rank the most similar documents first", () => {
+		const matches = index.search(
+			index.vectorize("self-attention transformer for translation"),
+		);
+		expect(
+			matches
+				.map((m) => m.id)
+				.slice(0, 2)
+				.sort(),
+		).toEqual(["bert", "transformers"]);
+		expect(matches.some((m) => m.id === "protein")).toBe(false);
+	});
+
+	it("should exclude documents and respect limit and minimum score", () => {
+		const query = index.getVector("transformers");
+		expect(query).toBeDefined();
+		if (!query) return;
+
+		const matches = index.search(query, {
+			exclude: new Set(["transformers"]),
+			limit: 1,
+		});
+		expect(matches).toHaveLength(1);
+		expect(matches[0]?.id).toBe("bert");
+
+		expect(index.search(query, { minScore: 1.01 })).toEqual([]);
+	});
+
+	it("should weigh rare terms above common ones", () => {
+		const vector = index.vectorize("graph transformer");
+		expect(vector.get("graph") ?? 0).toBeGreaterThan(
+			vector.get("transformer") ?? 0,
+		);
+	});
+});
@@ -3,6 +3,8 @@
  */
 
 import { describe, expect, it } from "bun:test";
+import { toBibTeX as exportToBibTeX } from "../src/utils/export";
+import { getBackoffDelay } from "../src/utils/retry";
 
 // Test formatSummary-like functionality
 describe("formatSummary", () => {
@@ -163,6 +165,15 @@ describe("Retry Logic", () => {
 		expect(isRetryableStatusCode(201)).toBe(false);
 		expect(isRetryableStatusCode(204)).toBe(false);
 	});
+
+	it("should double the backoff delay up to the maximum", () => {
+		const options = { baseDelay: 60000, maxDelay: 300000 };
+		expect(getBackoffDelay(1, options)).toBe(60000);
+		expect(getBackoffDelay(2, options)).toBe(120000);
+		expect(getBackoffDelay(3, options)).toBe(240000);
+		expect(getBackoffDelay(4, options)).toBe(300000);
+		expect(getBackoffDelay(0, options)).toBe(60000);
+	});
 });
 
 // Test BibTeX generation
@@ -229,6 +240,40 @@ describe("BibTeX Generation", () => {
 	});
 });
 
+describe("BibTeX notes", () => {
+	const paper = {
+		title: "Test Paper",
+		summary: "",
+		link: "http://arxiv.org/abs/2301.00001v1",
+		published: "2023-01-15",
+		authors: ["John Doe"],
+	};
+
+	it("should add an escaped note field before the url", () => {
+		const bibtex = exportToBibTeX(paper, {
+			note: "Read section 3 & compare\nwith 50% baseline",
+		});
+
+		expect(bibtex).toContain(
+			"  note={Read section 3 \\& compare with 50\\% baseline},\n  url=",
+		);
+	});
+
+	it("should omit the note field when there is no note", () => {
+		expect(exportToBibTeX(paper, { note: "  " })).not.toContain("note=");
+		expect(exportToBibTeX(paper)).toBe(exportToBibTeX(paper, {}));
+	});
+
+	it("should add notes to non-arXiv entries", () => {
+		const bibtex = exportToBibTeX(
+			{ ...paper, source: "pubmed", externalId: "31452104" },
+			{ note: "clinical" },
+		);
+
+		expect(bibtex).toContain("eprinttype={pubmed},\n  note={clinical},");
+	});
+});
+
 // Test Markdown generation
 describe("Markdown Generation", () => {
 	interface Paper {